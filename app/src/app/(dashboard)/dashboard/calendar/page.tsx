@@ -10,6 +10,10 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { ChevronLeft, ChevronRight, Plus, X, Calendar as CalendarIcon, Beef, PiggyBank, Rabbit } from 'lucide-react'
 import { GoatIcon } from '@/components/icons/AnimalIcons'
+import { SlotRulesPanel } from '@/components/calendar/SlotRulesPanel'
+import { CoolerUtilizationChart } from '@/components/calendar/CoolerUtilizationChart'
+import { extendSlotRules, addSlotException } from '@/lib/actions/calendar-rules'
+import { checkCoolerForSlots } from '@/lib/actions/cooler-capacity'
 import type { AnimalType } from '@/types/database'
 
 interface CalendarSlot {
@@ -21,6 +25,7 @@ interface CalendarSlot {
   kill_fee: number | null
   is_available: boolean
   notes: string | null
+  rule_id: string | null
 }
 
 interface SlotsByDate {
@@ -140,6 +145,9 @@ export default function CalendarPage() {
         return
       }
 
+      // Top up recurring slots to the rolling horizon before showing the month
+      await extendSlotRules()
+
       setOrganizationId(profile.organization.id)
       setAuthorized(true)
       setLoading(false)
@@ -192,8 +200,32 @@ export default function CalendarPage() {
   const handleSaveSlot = async () => {
     if (!selectedDate || !organizationId) return
 
+    if (editingSlot && slotForm.capacity < editingSlot.booked_count) {
+      alert(`This slot already has ${editingSlot.booked_count} booked. Capacity can't go below that.`)
+      return
+    }
+
     setSaving(true)
 
+    // Open places on the slot are checked as if they'll all be booked
+    if (slotForm.is_available) {
+      const cooler = await checkCoolerForSlots([{
+        animal_type: slotForm.animal_type,
+        date: selectedDate,
+        head: slotForm.capacity - (editingSlot?.booked_count || 0),
+      }])
+
+      if (cooler?.blocked) {
+        alert(`${cooler.message}. Lower the capacity or pick another day.`)
+        setSaving(false)
+        return
+      }
+      if (cooler?.message && !confirm(`${cooler.message}. Save this slot anyway?`)) {
+        setSaving(false)
+        return
+      }
+    }
+
     const slotData = {
       processor_id: organizationId,
       date: selectedDate,
@@ -202,6 +234,8 @@ export default function CalendarPage() {
       kill_fee: slotForm.kill_fee ? parseFloat(slotForm.kill_fee) : null,
       is_available: slotForm.is_available,
       notes: slotForm.notes || null,
+      // A slot edited by hand becomes a one-off so its rule won't overwrite it
+      rule_id: null,
     }
 
     let error
@@ -236,6 +270,11 @@ export default function CalendarPage() {
 
     setSaving(true)
 
+    // Keep the rule from generating this slot again
+    if (editingSlot.rule_id) {
+      await addSlotException(editingSlot.date, editingSlot.rule_id, 'Slot deleted')
+    }
+
     const { error } = await supabase
       .from('calendar_slots')
       .delete()
@@ -279,6 +318,10 @@ export default function CalendarPage() {
         </div>
       </div>
 
+      <SlotRulesPanel onChange={loadSlots} />
+
+      <CoolerUtilizationChart />
+
       {/* Month Navigation */}
       <Card className="mb-6">
         <CardHeader className="pb-2">
@@ -468,6 +511,12 @@ export default function CalendarPage() {
                 />
               </div>
 
+              {editingSlot?.rule_id && (
+                <p className="text-xs text-gray-500">
+                  This slot comes from a recurring rule. Saving changes makes it a one-off slot.
+                </p>
+              )}
+
               {editingSlot && (
                 <div className="bg-gray-50 p-3 rounded text-sm">
                   <span className="text-gray-500">Current bookings:</span>{' '}
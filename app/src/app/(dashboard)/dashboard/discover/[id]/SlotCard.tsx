@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Clock } from 'lucide-react'
 import { createWaitlistEntry } from '@/lib/actions/waitlist'
 import type { AnimalType } from '@/types/database'
@@ -13,7 +14,7 @@ interface CalendarSlot {
   date: string
   animal_type: string
   capacity: number
-  booked: number
+  booked_count: number
   kill_fee: number | null
 }
 
@@ -27,6 +28,7 @@ export function SlotCard({ processorId, date, slots }: SlotCardProps) {
   const router = useRouter()
   const [joiningWaitlist, setJoiningWaitlist] = useState<string | null>(null)
   const [waitlistSuccess, setWaitlistSuccess] = useState<string | null>(null)
+  const [waitlistHead, setWaitlistHead] = useState(1)
 
   const formattedDate = new Date(date + 'T00:00:00').toLocaleDateString('en-US', {
     weekday: 'short',
@@ -35,7 +37,7 @@ export function SlotCard({ processorId, date, slots }: SlotCardProps) {
   })
 
   // Check if any slots have availability
-  const hasAvailability = slots.some(slot => slot.capacity - slot.booked > 0)
+  const hasAvailability = slots.some(slot => slot.capacity - slot.booked_count > 0)
 
   const handleJoinWaitlist = async (slot: CalendarSlot) => {
     setJoiningWaitlist(slot.id)
@@ -44,6 +46,7 @@ export function SlotCard({ processorId, date, slots }: SlotCardProps) {
       processor_id: processorId,
       preferred_date: date,
       animal_type: slot.animal_type as AnimalType,
+      head_count: waitlistHead,
       flexible_range_days: 7,
     })
 
@@ -64,7 +67,7 @@ export function SlotCard({ processorId, date, slots }: SlotCardProps) {
       <h4 className="font-medium mb-2">{formattedDate}</h4>
       <div className="space-y-2">
         {slots.map((slot) => {
-          const available = slot.capacity - slot.booked
+          const available = slot.capacity - slot.booked_count
 
           return (
             <div key={slot.id} className="flex justify-between items-center text-sm">
@@ -92,6 +95,17 @@ export function SlotCard({ processorId, date, slots }: SlotCardProps) {
           </Link>
         ) : (
           <>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <label htmlFor={`waitlist-head-${date}`} className="text-gray-600">Head needed</label>
+              <Input
+                id={`waitlist-head-${date}`}
+                type="number"
+                min={1}
+                value={waitlistHead}
+                onChange={(e) => setWaitlistHead(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                className="h-8 w-20"
+              />
+            </div>
             {slots.map((slot) => {
               const isJoining = joiningWaitlist === slot.id
               const isSuccess = waitlistSuccess === slot.id
@@ -13,7 +13,7 @@ interface CalendarSlot {
   date: string
   animal_type: string
   capacity: number
-  booked: number
+  booked_count: number
   kill_fee: number | null
 }
 
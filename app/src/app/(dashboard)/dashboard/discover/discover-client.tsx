@@ -6,17 +6,40 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { MapPin, Phone, Mail, Calendar, Search, X, MessageSquare } from 'lucide-react'
-import type { Organization } from '@/types/database'
+import { MapPin, Phone, Mail, Calendar, CalendarCheck, Search, X, MessageSquare, Navigation } from 'lucide-react'
+import type { AnimalType } from '@/types/database'
+import {
+  DISCOVERY_RADIUS_MILES,
+  filterProcessors,
+  formatDistance,
+  hasActiveDiscoveryFilters,
+  type DiscoveryFilters,
+  type DiscoveryProcessor,
+} from '@/lib/processor-discovery'
 
 interface DiscoverClientProps {
-  processors: Organization[]
+  processors: DiscoveryProcessor[]
+  hasFarmLocation: boolean      // false until the farm's ZIP code is geocoded
 }
 
-export function DiscoverClient({ processors }: DiscoverClientProps) {
+const animalLabels: Record<AnimalType, string> = {
+  beef: 'Beef',
+  pork: 'Pork',
+  lamb: 'Lamb',
+  goat: 'Goat',
+}
+
+function formatSlotDate(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export function DiscoverClient({ processors, hasFarmLocation }: DiscoverClientProps) {
   const [searchQuery, setSearchQuery] = useState('')
   const [serviceFilter, setServiceFilter] = useState('')
   const [licenseFilter, setLicenseFilter] = useState('')
+  const [radiusFilter, setRadiusFilter] = useState<number | null>(null)
+  const [availableAnimal, setAvailableAnimal] = useState<AnimalType | ''>('')
+  const [availableBefore, setAvailableBefore] = useState('')
 
   const licenseLabels: Record<string, string> = {
     usda: 'USDA Inspected',
@@ -35,46 +58,31 @@ export function DiscoverClient({ processors }: DiscoverClientProps) {
     return Array.from(services).sort()
   }, [processors])
 
-  // Filter processors based on search and filters
-  const filteredProcessors = useMemo(() => {
-    return processors.filter(processor => {
-      // Search query - match name, city, or state
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase()
-        const matchesName = processor.name.toLowerCase().includes(query)
-        const matchesCity = processor.city?.toLowerCase().includes(query)
-        const matchesState = processor.state?.toLowerCase().includes(query)
-        if (!matchesName && !matchesCity && !matchesState) {
-          return false
-        }
-      }
-
-      // Service filter
-      if (serviceFilter) {
-        const services = processor.services_offered as string[] | null
-        if (!services || !services.includes(serviceFilter)) {
-          return false
-        }
-      }
+  // Filter processors based on search and filters, nearest first
+  const filters: DiscoveryFilters = useMemo(() => ({
+    query: searchQuery,
+    service: serviceFilter,
+    license: licenseFilter,
+    radiusMiles: radiusFilter,
+    availableAnimal,
+    availableBefore,
+  }), [searchQuery, serviceFilter, licenseFilter, radiusFilter, availableAnimal, availableBefore])
 
-      // License filter
-      if (licenseFilter) {
-        if (processor.license_type !== licenseFilter) {
-          return false
-        }
-      }
-
-      return true
-    })
-  }, [processors, searchQuery, serviceFilter, licenseFilter])
+  const filteredProcessors = useMemo(
+    () => filterProcessors(processors, filters),
+    [processors, filters]
+  )
 
   const clearFilters = () => {
     setSearchQuery('')
     setServiceFilter('')
     setLicenseFilter('')
+    setRadiusFilter(null)
+    setAvailableAnimal('')
+    setAvailableBefore('')
   }
 
-  const hasActiveFilters = searchQuery || serviceFilter || licenseFilter
+  const hasActiveFilters = hasActiveDiscoveryFilters(filters)
 
   return (
     <div className="space-y-6">
@@ -132,6 +140,52 @@ export function DiscoverClient({ processors }: DiscoverClientProps) {
               </Button>
             )}
           </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-4 mt-4">
+            <select
+              className="px-4 py-2 border rounded-lg bg-background disabled:opacity-50"
+              value={radiusFilter ?? ''}
+              onChange={(e) => setRadiusFilter(e.target.value ? Number(e.target.value) : null)}
+              disabled={!hasFarmLocation}
+              aria-label="Distance from your farm"
+            >
+              <option value="">Any distance</option>
+              {DISCOVERY_RADIUS_MILES.map((miles) => (
+                <option key={miles} value={miles}>
+                  Within {miles} miles of my farm
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center gap-2">
+              <select
+                className="px-4 py-2 border rounded-lg bg-background"
+                value={availableAnimal}
+                onChange={(e) => setAvailableAnimal(e.target.value as AnimalType | '')}
+                aria-label="Open slots for"
+              >
+                <option value="">Any availability</option>
+                {(Object.keys(animalLabels) as AnimalType[]).map((animal) => (
+                  <option key={animal} value={animal}>
+                    {animalLabels[animal]} open
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-600 shrink-0">before</span>
+              <Input
+                type="date"
+                className="w-auto"
+                value={availableBefore}
+                onChange={(e) => setAvailableBefore(e.target.value)}
+                aria-label="Open slot before"
+              />
+            </div>
+          </div>
+          {!hasFarmLocation && (
+            <p className="text-sm text-gray-500 mt-3">
+              Add your farm&apos;s ZIP code in{' '}
+              <Link href="/dashboard/settings" className="text-green-700 hover:underline">Settings</Link>
+              {' '}to search by distance.
+            </p>
+          )}
           {hasActiveFilters && (
             <p className="text-sm text-gray-500 mt-3">
               Showing {filteredProcessors.length} of {processors.length} processors
@@ -155,6 +209,12 @@ export function DiscoverClient({ processors }: DiscoverClientProps) {
                         {processor.city}, {processor.state}
                       </CardDescription>
                     )}
+                    {processor.distanceMiles !== null && (
+                      <CardDescription className="flex items-center gap-1 mt-1">
+                        <Navigation className="h-3 w-3" />
+                        {formatDistance(processor.distanceMiles)} from your farm
+                      </CardDescription>
+                    )}
                   </div>
                   {processor.license_type && (
                     <Badge variant="outline">
@@ -183,6 +243,24 @@ export function DiscoverClient({ processors }: DiscoverClientProps) {
                   </div>
                 )}
 
+                {/* Next open slots */}
+                {processor.nextOpenSlots.length > 0 ? (
+                  <div className="flex items-start gap-2 text-sm text-gray-600">
+                    <CalendarCheck className="h-4 w-4 mt-0.5 text-green-700" />
+                    <div>
+                      <span className="font-medium text-gray-900">Next open:</span>{' '}
+                      {processor.nextOpenSlots.map((slot, i) => (
+                        <span key={slot.animal_type}>
+                          {i > 0 && ' · '}
+                          {animalLabels[slot.animal_type]} {formatSlotDate(slot.date)} ({slot.available_slots} open)
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-500">No open slots listed</div>
+                )}
+
                 {/* Lead Time */}
                 {processor.lead_time_days && (
                   <div className="text-sm text-gray-600">
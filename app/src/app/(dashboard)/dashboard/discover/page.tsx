@@ -1,6 +1,11 @@
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import type { Organization } from '@/types/database'
+import {
+  buildDiscoveryProcessors,
+  type NextOpenSlot,
+  type ProcessorDistance,
+} from '@/lib/processor-discovery'
 import { DiscoverClient } from './discover-client'
 
 export default async function DiscoverPage() {
@@ -8,25 +13,43 @@ export default async function DiscoverPage() {
 
   // Check if user is a producer
   const { data: { user } } = await supabase.auth.getUser()
+  let farm: { zip: string | null; location: unknown | null } | null = null
   if (user) {
     const { data: profile } = await supabase
       .from('users')
-      .select('organization:organizations(type)')
+      .select('organization:organizations(type, zip, location)')
       .eq('auth_id', user.id)
-      .single() as { data: { organization: { type: string } | null } | null }
+      .single() as { data: { organization: { type: string; zip: string | null; location: unknown | null } | null } | null }
 
     if (profile?.organization?.type !== 'producer') {
       redirect('/dashboard')
     }
+    farm = profile.organization
   }
 
-  // Get all active processors
-  const { data: processors } = await supabase
-    .from('organizations')
-    .select('*')
-    .eq('type', 'processor')
-    .eq('is_active', true)
-    .order('name') as { data: Organization[] | null }
+  // Get all active processors, with distance from the farm and next open slots
+  const [{ data: processors }, { data: distances, error: distancesError }, { data: openSlots, error: openSlotsError }] = await Promise.all([
+    supabase
+      .from('organizations')
+      .select('*')
+      .eq('type', 'processor')
+      .eq('is_active', true)
+      .order('name'),
+    supabase.rpc('get_processor_distances'),
+    supabase.rpc('get_next_processor_availability'),
+  ])
 
-  return <DiscoverClient processors={processors || []} />
+  if (distancesError) console.error('Error fetching processor distances:', distancesError)
+  if (openSlotsError) console.error('Error fetching processor availability:', openSlotsError)
+
+  return (
+    <DiscoverClient
+      processors={buildDiscoveryProcessors(
+        (processors as Organization[] | null) || [],
+        (distances as ProcessorDistance[] | null) || [],
+        (openSlots as NextOpenSlot[] | null) || []
+      )}
+      hasFarmLocation={Boolean(farm?.location)}
+    />
+  )
 }
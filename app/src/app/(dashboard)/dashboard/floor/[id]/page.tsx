@@ -0,0 +1,85 @@
+import { redirect, notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { FloorCutWalkthrough, type FloorPackageRow } from '@/components/floor/FloorCutWalkthrough'
+import type { FloorCutSheet } from '@/lib/floor-mode'
+import type { OrganizationType } from '@/types/database'
+
+interface ProfileWithOrg {
+  organization_id: string | null
+  organization: { type: OrganizationType } | null
+}
+
+interface FloorOrderRow {
+  id: string
+  order_number: number
+  producer: { name: string } | null
+  livestock: { tag_number: string | null; tracking_id: string | null } | null
+  cut_sheets: (Omit<FloorCutSheet, 'produced_packages'> & { id: string })[] | null
+}
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function FloorOrderPage({ params }: PageProps) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/login')
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single() as { data: ProfileWithOrg | null }
+
+  if (profile?.organization?.type !== 'processor' || !profile.organization_id) {
+    redirect('/dashboard')
+  }
+
+  const { data: order } = await supabase
+    .from('processing_orders')
+    .select(`
+      id,
+      order_number,
+      producer:organizations!producer_id (name),
+      livestock (tag_number, tracking_id),
+      cut_sheets (
+        id,
+        animal_type,
+        hanging_weight_lbs,
+        processor_modifications,
+        removed_cuts,
+        added_cuts,
+        cut_sheet_items (cut_id, cut_name, thickness, pieces_per_package)
+      )
+    `)
+    .eq('id', id)
+    .eq('processor_id', profile.organization_id)
+    .single() as { data: FloorOrderRow | null }
+
+  const cutSheet = order?.cut_sheets?.[0]
+  if (!order || !cutSheet) notFound()
+
+  const { data: packages } = await supabase
+    .from('produced_packages')
+    .select('id, cut_id, cut_name, package_number, actual_weight_lbs')
+    .eq('cut_sheet_id', cutSheet.id)
+    .order('created_at') as { data: FloorPackageRow[] | null }
+
+  return (
+    <FloorCutWalkthrough
+      cutSheetId={cutSheet.id}
+      cutSheet={cutSheet}
+      initialPackages={packages || []}
+      orderInfo={{
+        id: order.id,
+        order_number: order.order_number,
+        producer_name: order.producer?.name || '',
+        livestock_tag: order.livestock?.tag_number || null,
+        livestock_tracking_id: order.livestock?.tracking_id || null,
+      }}
+    />
+  )
+}
@@ -0,0 +1,116 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Beef, PiggyBank, Rabbit, ChevronRight } from 'lucide-react'
+import { GoatIcon } from '@/components/icons/AnimalIcons'
+import { STAGE_LABELS } from '@/lib/processing-stages'
+import type { AnimalType, OrganizationType, ProcessingStage } from '@/types/database'
+
+interface ProfileWithOrg {
+  organization_id: string | null
+  organization: { type: OrganizationType } | null
+}
+
+interface FloorOrder {
+  id: string
+  order_number: number
+  processing_stage: ProcessingStage
+  hanging_weight: number | null
+  producer: { name: string } | null
+  livestock: { animal_type: AnimalType; tag_number: string | null; tracking_id: string | null } | null
+  cut_sheets: { id: string }[] | null
+}
+
+const ANIMAL_ICONS: Record<AnimalType, React.ReactNode> = {
+  beef: <Beef className="h-10 w-10 text-red-600" />,
+  pork: <PiggyBank className="h-10 w-10 text-pink-600" />,
+  lamb: <Rabbit className="h-10 w-10 text-purple-600" />,
+  goat: <GoatIcon className="h-10 w-10 text-amber-600" size={40} />,
+}
+
+const FLOOR_STAGES: ProcessingStage[] = ['cutting', 'wrapping']
+
+export default async function FloorPage() {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) redirect('/login')
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single() as { data: ProfileWithOrg | null }
+
+  if (profile?.organization?.type !== 'processor' || !profile.organization_id) {
+    redirect('/dashboard')
+  }
+
+  const { data } = await supabase
+    .from('processing_orders')
+    .select(`
+      id,
+      order_number,
+      processing_stage,
+      hanging_weight,
+      producer:organizations!producer_id (name),
+      livestock (animal_type, tag_number, tracking_id),
+      cut_sheets (id)
+    `)
+    .eq('processor_id', profile.organization_id)
+    .in('processing_stage', FLOOR_STAGES)
+    .order('order_number') as { data: FloorOrder[] | null }
+
+  const orders = data || []
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Cut Room</h1>
+        <p className="text-lg text-gray-500">Orders being cut and wrapped today</p>
+      </div>
+
+      {orders.length === 0 ? (
+        <div className="text-center py-16 text-xl text-gray-500 bg-white rounded-xl border">
+          Nothing in cutting or wrapping right now
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {orders.map(order => {
+            const ready = (order.cut_sheets?.length || 0) > 0
+            const content = (
+              <>
+                {order.livestock && ANIMAL_ICONS[order.livestock.animal_type]}
+                <div className="flex-1 min-w-0">
+                  <div className="text-2xl font-bold">Order #{order.order_number}</div>
+                  <div className="text-lg text-gray-600 truncate">{order.producer?.name}</div>
+                  <div className="mt-1 flex flex-wrap gap-x-3 text-base text-gray-500">
+                    <span className="font-semibold text-amber-700">{STAGE_LABELS[order.processing_stage]}</span>
+                    {order.livestock?.tag_number && <span>Tag #{order.livestock.tag_number}</span>}
+                    {order.hanging_weight && <span>{order.hanging_weight} lbs hanging</span>}
+                  </div>
+                  {!ready && <div className="mt-1 text-base text-red-600">No cut sheet yet</div>}
+                </div>
+                {ready && <ChevronRight className="h-10 w-10 text-gray-400 flex-shrink-0" />}
+              </>
+            )
+
+            return ready ? (
+              <Link
+                key={order.id}
+                href={`/dashboard/floor/${order.id}`}
+                className="flex items-center gap-4 p-6 min-h-[140px] bg-white rounded-xl border-2 hover:border-green-600 active:bg-green-50 transition-colors"
+              >
+                {content}
+              </Link>
+            ) : (
+              <div key={order.id} className="flex items-center gap-4 p-6 min-h-[140px] bg-gray-50 rounded-xl border-2 opacity-75">
+                {content}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,8 @@
 import { redirect, notFound } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
-import type { Message } from '@/types/database'
+import { getConversationMessages } from '@/lib/actions/messages'
 import ConversationClient from './ConversationClient'
 
-interface MessageWithSender extends Message {
-  sender: { full_name: string } | null
-}
-
 interface PageProps {
   params: Promise<{ orgId: string }>
 }
@@ -58,19 +54,8 @@ export default async function ConversationPage({ params }: PageProps) {
     notFound()
   }
 
-  // Fetch messages between the two organizations
-  const { data: messages, error: messagesError } = await supabase
-    .from('messages')
-    .select(`
-      *,
-      sender:users!sender_id(full_name)
-    `)
-    .or(`and(sender_org_id.eq.${profile.organization_id},recipient_org_id.eq.${orgId}),and(sender_org_id.eq.${orgId},recipient_org_id.eq.${profile.organization_id})`)
-    .order('created_at', { ascending: true })
-
-  if (messagesError) {
-    console.error('[ConversationPage] Messages error:', messagesError.message)
-  }
+  // Fetch the general conversation between the two organizations
+  const messages = await getConversationMessages(profile.organization_id, orgId)
 
   return (
     <ConversationClient
@@ -79,7 +64,7 @@ export default async function ConversationPage({ params }: PageProps) {
       partnerOrgType={partnerOrg.type}
       myOrgId={profile.organization_id}
       userId={profile.id}
-      initialMessages={(messages || []) as MessageWithSender[]}
+      initialMessages={messages}
     />
   )
 }
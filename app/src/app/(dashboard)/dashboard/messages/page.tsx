@@ -1,7 +1,9 @@
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase/server'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { MessageSquare, ChevronRight, Building2, Warehouse } from 'lucide-react'
+import { MessageSquare, ChevronRight, Building2, Warehouse, ClipboardList } from 'lucide-react'
+import { getRecentThreads } from '@/lib/actions/messages'
+import { getThreadPartnerOrgId, getThreadTitle } from '@/lib/message-threads'
 import { NewConversationButton } from './NewConversationButton'
 
 interface ProfileResult {
@@ -32,7 +34,7 @@ export default async function MessagesPage() {
     .eq('auth_id', user!.id)
     .single() as { data: ProfileResult | null }
 
-  // Get conversations (grouped by the other organization)
+  // Get conversations (grouped by the other organization); order threads are listed separately
   const { data: messages } = await supabase
     .from('messages')
     .select(`
@@ -42,9 +44,12 @@ export default async function MessagesPage() {
       recipient_org:organizations!recipient_org_id(name, type)
     `)
     .or(`sender_org_id.eq.${profile?.organization_id},recipient_org_id.eq.${profile?.organization_id}`)
+    .is('thread_id', null)
     .order('created_at', { ascending: false })
     .limit(50) as { data: MessageWithRelations[] | null }
 
+  const threads = await getRecentThreads()
+
   // Group messages by conversation partner
   const conversations = new Map<string, {
     orgId: string
@@ -149,7 +154,7 @@ export default async function MessagesPage() {
                         )}
                       </div>
                       <p className="text-sm text-gray-500 line-clamp-1">
-                        {conv.lastMessage.content}
+                        {conv.lastMessage.content || 'Sent an attachment'}
                       </p>
                     </div>
                   </div>
@@ -173,6 +178,58 @@ export default async function MessagesPage() {
           )}
         </CardContent>
       </Card>
+
+      {threads.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Order Threads</CardTitle>
+            <CardDescription>
+              Conversations about a single order or cut
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {threads.map((thread) => {
+                const partnerId = getThreadPartnerOrgId(thread, profile?.organization_id ?? '')
+                const partnerName = partnerId === thread.order?.producer?.id
+                  ? thread.order?.producer?.name
+                  : thread.order?.processor?.name
+
+                return (
+                  <Link
+                    key={thread.id}
+                    href={`/dashboard/messages/threads/${thread.id}`}
+                    className="flex items-center justify-between py-4 hover:bg-gray-50 -mx-4 px-4 transition-colors"
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 rounded-full flex items-center justify-center bg-gray-100 text-gray-600">
+                        <ClipboardList className="h-5 w-5" />
+                      </div>
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{getThreadTitle(thread, thread.order?.order_number)}</span>
+                          {thread.unreadCount > 0 && (
+                            <span className="bg-green-700 text-white text-xs px-2 py-0.5 rounded-full">
+                              {thread.unreadCount}
+                            </span>
+                          )}
+                        </div>
+                        {partnerName && <p className="text-sm text-gray-500">{partnerName}</p>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-400">
+                        {new Date(thread.last_message_at).toLocaleDateString()}
+                      </span>
+                      <ChevronRight className="h-4 w-4 text-gray-400" />
+                    </div>
+                  </Link>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
@@ -0,0 +1,176 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ArrowLeft, Calendar, ClipboardList, Package } from 'lucide-react'
+import { MessageList } from '@/components/messages/MessageList'
+import { MessageComposer } from '@/components/messages/MessageComposer'
+import {
+  getThreadPartnerOrgId,
+  getThreadTitle,
+  type MessageWithSender,
+  type ThreadWithOrder,
+  type UploadedAttachment,
+} from '@/lib/message-threads'
+import {
+  sendThreadMessage,
+  markThreadAsRead,
+  getNewThreadMessages,
+} from '@/lib/actions/messages'
+
+interface ThreadClientProps {
+  thread: ThreadWithOrder
+  myOrgId: string
+  userId: string
+  initialMessages: MessageWithSender[]
+}
+
+const POLL_INTERVAL = 5000 // Poll every 5 seconds
+
+function formatDate(date: string | null) {
+  if (!date) return null
+  return new Date(date.split('T')[0] + 'T00:00:00').toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+export default function ThreadClient({
+  thread,
+  myOrgId,
+  userId,
+  initialMessages,
+}: ThreadClientProps) {
+  const [messages, setMessages] = useState<MessageWithSender[]>(initialMessages)
+  const messagesEndRef = useRef<HTMLDivElement>(null)
+  const lastMessageTimeRef = useRef<string>(
+    initialMessages.length > 0
+      ? initialMessages[initialMessages.length - 1].created_at
+      : new Date().toISOString()
+  )
+
+  const order = thread.order
+  const partnerOrgId = getThreadPartnerOrgId(thread, myOrgId)
+  const partnerName = order
+    ? (partnerOrgId === order.producer?.id ? order.producer?.name : order.processor?.name)
+    : null
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages])
+
+  // Mark messages as read on mount
+  useEffect(() => {
+    markThreadAsRead(thread.id, myOrgId)
+  }, [thread.id, myOrgId])
+
+  // Poll for new messages
+  const pollForMessages = useCallback(async () => {
+    try {
+      const newMsgs = await getNewThreadMessages(thread.id, myOrgId, lastMessageTimeRef.current)
+      if (newMsgs.length > 0) {
+        setMessages(prev => {
+          const existingIds = new Set(prev.map(m => m.id))
+          const uniqueNewMsgs = newMsgs.filter(m => !existingIds.has(m.id))
+          if (uniqueNewMsgs.length > 0) {
+            lastMessageTimeRef.current = uniqueNewMsgs[uniqueNewMsgs.length - 1].created_at
+            return [...prev, ...uniqueNewMsgs]
+          }
+          return prev
+        })
+      }
+    } catch (err) {
+      console.error('Polling error:', err)
+    }
+  }, [thread.id, myOrgId])
+
+  useEffect(() => {
+    const intervalId = setInterval(pollForMessages, POLL_INTERVAL)
+    return () => clearInterval(intervalId)
+  }, [pollForMessages])
+
+  const handleSend = async (content: string, attachments: UploadedAttachment[]) => {
+    const insertedMsg = await sendThreadMessage(thread, userId, myOrgId, content, attachments)
+    if (!insertedMsg) return false
+
+    setMessages(prev => [...prev, insertedMsg])
+    lastMessageTimeRef.current = insertedMsg.created_at
+    return true
+  }
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-12rem)]">
+      {/* Header */}
+      <div className="flex items-center gap-4 mb-4">
+        <Link
+          href={order ? `/dashboard/orders/${order.id}` : '/dashboard/messages'}
+          className="text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-5 w-5" />
+        </Link>
+        <div>
+          <h1 className="text-xl font-bold">{getThreadTitle(thread, order?.order_number)}</h1>
+          {partnerName && <p className="text-sm text-gray-500">with {partnerName}</p>}
+        </div>
+      </div>
+
+      {/* Pinned order context */}
+      {order && (
+        <Card className="mb-4 bg-gray-50">
+          <CardContent className="py-3 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+            <Link href={`/dashboard/orders/${order.id}`} className="font-medium text-green-700 hover:underline">
+              Order #{order.order_number}
+            </Link>
+            <Badge variant="outline" className="capitalize">{order.status.replace('_', ' ')}</Badge>
+            {order.livestock && (
+              <span className="flex items-center gap-1 text-gray-600 capitalize">
+                <Package className="h-4 w-4" />
+                {order.livestock.animal_type}
+                {order.livestock.tag_number && ` #${order.livestock.tag_number}`}
+                {order.livestock.name && ` "${order.livestock.name}"`}
+              </span>
+            )}
+            {order.scheduled_drop_off && (
+              <span className="flex items-center gap-1 text-gray-600">
+                <Calendar className="h-4 w-4" />
+                Drop-off {formatDate(order.scheduled_drop_off)}
+              </span>
+            )}
+            {order.estimated_ready_date && (
+              <span className="text-gray-600">Ready {formatDate(order.estimated_ready_date)}</span>
+            )}
+            {thread.cut_name && (
+              <Link
+                href={`/dashboard/orders/${order.id}/cut-sheet`}
+                className="flex items-center gap-1 text-gray-600 hover:text-green-700"
+              >
+                <ClipboardList className="h-4 w-4" />
+                Cut: {thread.cut_name}
+              </Link>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Messages */}
+      <Card className="flex-1 flex flex-col overflow-hidden">
+        <CardContent className="flex-1 overflow-y-auto p-4 space-y-4">
+          <MessageList
+            messages={messages}
+            myOrgId={myOrgId}
+            emptyHint={thread.cut_name ? `Ask about the ${thread.cut_name} below.` : 'Ask about this order below.'}
+          />
+          <div ref={messagesEndRef} />
+        </CardContent>
+
+        {/* Input */}
+        <CardHeader className="border-t p-4">
+          <MessageComposer
+            senderOrgId={myOrgId}
+            recipientOrgId={partnerOrgId}
+            onSend={handleSend}
+          />
+        </CardHeader>
+      </Card>
+    </div>
+  )
+}
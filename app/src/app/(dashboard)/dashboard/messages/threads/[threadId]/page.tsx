@@ -0,0 +1,33 @@
+import { redirect, notFound } from 'next/navigation'
+import { getThread, getThreadMessages, getUserProfile } from '@/lib/actions/messages'
+import ThreadClient from './ThreadClient'
+
+interface PageProps {
+  params: Promise<{ threadId: string }>
+}
+
+export default async function ThreadPage({ params }: PageProps) {
+  const { threadId } = await params
+
+  const profile = await getUserProfile()
+  if (!profile) {
+    redirect('/login')
+  }
+
+  // RLS only returns threads on the organization's own orders
+  const thread = await getThread(threadId)
+  if (!thread) {
+    notFound()
+  }
+
+  const messages = await getThreadMessages(threadId)
+
+  return (
+    <ThreadClient
+      thread={thread}
+      myOrgId={profile.organization_id}
+      userId={profile.id}
+      initialMessages={messages}
+    />
+  )
+}
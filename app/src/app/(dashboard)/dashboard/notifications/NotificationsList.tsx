@@ -31,6 +31,7 @@ function getNotificationIcon(type: string) {
     case 'new_message':
       return <MessageSquare className="h-5 w-5" />
     case 'slot_available':
+    case 'waitlist_available':
       return <Calendar className="h-5 w-5" />
     default:
       return <Info className="h-5 w-5" />
@@ -44,6 +45,9 @@ function getNotificationLink(notification: NotificationWithRelations): string |
   if (notification.message_id) {
     return '/dashboard/messages'
   }
+  if (notification.type === 'waitlist_available') {
+    return '/dashboard/waitlist'
+  }
   return null
 }
 
@@ -80,6 +84,8 @@ function getTypeLabel(type: string): string {
       return 'Message'
     case 'slot_available':
       return 'Availability'
+    case 'waitlist_available':
+      return 'Waitlist'
     default:
       return 'System'
   }
@@ -0,0 +1,80 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CutSheetImport } from '@/components/cutsheet/CutSheetImport'
+import { ArrowLeft } from 'lucide-react'
+
+interface PageProps {
+  params: { id: string }
+}
+
+export default function ImportOrderCutSheetPage({ params }: PageProps) {
+  const orderId = params.id
+  const [orderNumber, setOrderNumber] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const supabase = useMemo(() => createClient(), [])
+
+  useEffect(() => {
+    async function loadOrder() {
+      const { data: order } = await supabase
+        .from('processing_orders')
+        .select('order_number')
+        .eq('id', orderId)
+        .single() as { data: { order_number: number } | null }
+
+      setOrderNumber(order?.order_number ?? null)
+      setLoading(false)
+    }
+
+    loadOrder()
+  }, [orderId, supabase])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-700"></div>
+      </div>
+    )
+  }
+
+  if (orderNumber === null) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-red-50 text-red-600 p-4 rounded-lg">Order not found</div>
+        <Link href="/dashboard/orders" className="text-green-700 hover:underline mt-4 inline-block">
+          Back to Orders
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="mb-6">
+        <Link
+          href={`/dashboard/orders/${orderId}`}
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Order #{orderNumber}
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Cut Sheet</CardTitle>
+          <CardDescription>
+            Order #{orderNumber} - Start from a cut sheet you kept in a spreadsheet (CSV) or exported as JSON.
+            It is saved as a draft so you can adjust it before submitting.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CutSheetImport orderId={orderId} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
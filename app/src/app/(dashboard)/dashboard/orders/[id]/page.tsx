@@ -13,9 +13,18 @@ import { ArrowLeft, FileText, Calendar, Truck, Package, CheckCircle, Edit2, Save
 import { CutSheetViewer } from '@/components/cutsheet/CutSheetViewer'
 import { ProcessorCutSheetEditor } from '@/components/cutsheet/ProcessorCutSheetEditor'
 import { CutSheetHistoryTab } from '@/components/cutsheet/CutSheetHistoryTab'
+import { InvoicePanel } from '@/components/invoices/InvoicePanel'
+import { PrintLabelsDialog } from '@/components/labels/PrintLabelsDialog'
+import { OrderTransferPanel } from '@/components/transfers/OrderTransferPanel'
+import { OrderReliabilityPanel } from '@/components/reliability/OrderReliabilityPanel'
+import { OrderMessagesPanel } from '@/components/messages/OrderMessagesPanel'
+import { CutSheetPdfActions } from '@/components/cutsheet/CutSheetPdfActions'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { notifyOrderStatusChange, notifyProcessingStageChange } from '@/lib/notifications/actions'
 import { notifyNextInWaitlist } from '@/lib/actions/waitlist'
+import { STAGES_ORDER, STAGE_LABELS, getStageAdvance } from '@/lib/processing-stages'
+import { canTransferOrder } from '@/lib/slot-transfers'
+import { parseSlotBookingError } from '@/lib/slot-booking'
 import type { AnimalType, OrderStatus, ProcessingStage, OrganizationType } from '@/types/database'
 
 interface CutSheetItem {
@@ -75,6 +84,12 @@ interface OrderWithRelations {
   producer_notes: string | null
   processor_notes: string | null
   created_at: string
+  producer_id: string
+  no_show_at: string | null
+  late_cancellation: boolean
+  cancelled_at: string | null
+  deposit_amount: number | null
+  deposit_paid_at: string | null
   livestock: {
     id: string
     animal_type: AnimalType
@@ -112,19 +127,6 @@ const STATUS_COLORS: Record<OrderStatus, string> = {
   cancelled: 'bg-red-100 text-red-700',
 }
 
-const STAGE_LABELS: Record<ProcessingStage, string> = {
-  pending: 'Pending',
-  received: 'Received',
-  hanging: 'Hanging',
-  cutting: 'Cutting',
-  wrapping: 'Wrapping',
-  freezing: 'Freezing',
-  ready: 'Ready for Pickup',
-  picked_up: 'Picked Up',
-}
-
-const STAGES_ORDER: ProcessingStage[] = ['pending', 'received', 'hanging', 'cutting', 'wrapping', 'freezing', 'ready', 'picked_up']
-
 export default function OrderDetailPage({ params }: PageProps) {
   const orderId = params.id
   const [order, setOrder] = useState<OrderWithRelations | null>(null)
@@ -132,7 +134,7 @@ export default function OrderDetailPage({ params }: PageProps) {
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [userRole, setUserRole] = useState<OrganizationType | null>(null)
-  const [, setOrganizationId] = useState<string | null>(null)
+  const [organizationId, setOrganizationId] = useState<string | null>(null)
   const [isEditing, setIsEditing] = useState(false)
   const router = useRouter()
   const supabase = useMemo(() => createClient(), [])
@@ -361,26 +363,18 @@ export default function OrderDetailPage({ params }: PageProps) {
       .eq('id', order.id)
 
     if (updateError) {
-      alert('Error updating status: ' + updateError.message)
+      // Confirming takes a place on the order's calendar slot
+      const slotError = parseSlotBookingError(updateError)
+      alert(slotError.code === 'slot_full'
+        ? 'This order\'s calendar slot is full. Move the order to another date before confirming it.'
+        : 'Error updating status: ' + updateError.message)
     } else {
       // Send notification
-      await notifyOrderStatusChange({
-        orderId: order.id,
-        orderNumber: order.order_number,
-        newStatus,
-        producerOrgId: order.producer.id,
-        processorOrgId: order.processor.id,
-        animalType: order.livestock?.animal_type,
-      })
-
-      // If order was cancelled, notify next person in waitlist
-      if (newStatus === 'cancelled' && order.scheduled_drop_off && order.livestock?.animal_type) {
-        const scheduledDate = order.scheduled_drop_off.split('T')[0]
-        await notifyNextInWaitlist(
-          order.processor.id,
-          scheduledDate,
-          order.livestock.animal_type
-        )
+      await notifyOrderStatusChange(order.id, newStatus)
+
+      // If order was cancelled, offer its place to the waitlist
+      if (newStatus === 'cancelled') {
+        await notifyNextInWaitlist(order.id)
       }
 
       await loadOrder()
@@ -392,24 +386,10 @@ export default function OrderDetailPage({ params }: PageProps) {
   const handleAdvanceStage = async () => {
     if (!order) return
 
-    const currentIndex = STAGES_ORDER.indexOf(order.processing_stage)
-    if (currentIndex >= STAGES_ORDER.length - 1) return
-
-    const nextStage = STAGES_ORDER[currentIndex + 1]
-
     // Auto-update status based on stage
-    let newStatus = order.status
-    const statusChanged = nextStage === 'received' && order.status === 'confirmed' ||
-                          nextStage === 'ready' ||
-                          nextStage === 'picked_up'
-
-    if (nextStage === 'received' && order.status === 'confirmed') {
-      newStatus = 'in_progress'
-    } else if (nextStage === 'ready') {
-      newStatus = 'ready'
-    } else if (nextStage === 'picked_up') {
-      newStatus = 'complete'
-    }
+    const advance = getStageAdvance(order.processing_stage, order.status)
+    if (!advance) return
+    const { nextStage, newStatus, statusChanged } = advance
 
     setSaving(true)
 
@@ -423,22 +403,9 @@ export default function OrderDetailPage({ params }: PageProps) {
     } else {
       // Send notification for stage change
       if (statusChanged) {
-        await notifyOrderStatusChange({
-          orderId: order.id,
-          orderNumber: order.order_number,
-          newStatus,
-          producerOrgId: order.producer.id,
-          processorOrgId: order.processor.id,
-          animalType: order.livestock?.animal_type,
-        })
+        await notifyOrderStatusChange(order.id, newStatus)
       } else {
-        await notifyProcessingStageChange(
-          order.id,
-          order.order_number,
-          order.producer.id,
-          nextStage,
-          order.livestock?.animal_type
-        )
+        await notifyProcessingStageChange(order.id, nextStage)
       }
       await loadOrder()
     }
@@ -658,6 +625,9 @@ export default function OrderDetailPage({ params }: PageProps) {
         </Card>
       </div>
 
+      {/* No-shows, cancellations and deposit */}
+      <OrderReliabilityPanel order={order} isProcessor={isProcessor} onUpdate={loadOrder} />
+
       {/* Processing Stage */}
       <Card className="mb-6">
         <CardHeader>
@@ -870,13 +840,21 @@ export default function OrderDetailPage({ params }: PageProps) {
                 {isProcessor ? 'View and edit cutting instructions' : 'Specify how you want your meat cut and packaged'}
               </CardDescription>
             </div>
-            {order.cut_sheet && !isProcessor && (
-              <Link href={`/dashboard/orders/${order.id}/cut-sheet`}>
-                <Button variant="outline" size="sm">
-                  Edit Cut Sheet
-                </Button>
-              </Link>
-            )}
+            <div className="flex flex-wrap justify-end gap-2">
+              {order.cut_sheet && order.cut_sheet.status !== 'draft' && (
+                <CutSheetPdfActions orderId={order.id} />
+              )}
+              {order.cut_sheet && isProcessor && (order.cut_sheet.produced_packages?.length || 0) > 0 && (
+                <PrintLabelsDialog orderId={order.id} onPrinted={loadOrder} />
+              )}
+              {order.cut_sheet && !isProcessor && (
+                <Link href={`/dashboard/orders/${order.id}/cut-sheet`}>
+                  <Button variant="outline" size="sm">
+                    Edit Cut Sheet
+                  </Button>
+                </Link>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -936,17 +914,46 @@ export default function OrderDetailPage({ params }: PageProps) {
             <div className="text-center py-4">
               <p className="text-gray-500 mb-4">No cut sheet created yet</p>
               {!isProcessor && (
-                <Link href={`/dashboard/orders/${order.id}/cut-sheet`}>
-                  <Button className="bg-green-700 hover:bg-green-800">
-                    Create Cut Sheet
-                  </Button>
-                </Link>
+                <div className="flex justify-center gap-2">
+                  <Link href={`/dashboard/orders/${order.id}/cut-sheet`}>
+                    <Button className="bg-green-700 hover:bg-green-800">
+                      Create Cut Sheet
+                    </Button>
+                  </Link>
+                  <Link href={`/dashboard/orders/${order.id}/cut-sheet/import`}>
+                    <Button variant="outline">
+                      Import from File
+                    </Button>
+                  </Link>
+                </div>
               )}
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Order messages */}
+      <OrderMessagesPanel
+        orderId={order.id}
+        orderNumber={order.order_number}
+        partnerName={isProcessor ? order.producer.name : order.processor.name}
+        cuts={order.cut_sheet?.cut_sheet_items || []}
+      />
+
+      {/* Invoice */}
+      <InvoicePanel orderId={order.id} isProcessor={isProcessor} onUpdate={loadOrder} />
+
+      {/* Slot Transfer */}
+      {organizationId && (
+        <OrderTransferPanel
+          orderId={order.id}
+          organizationId={organizationId}
+          isProcessor={isProcessor}
+          canTransfer={!isProcessor && canTransferOrder(order)}
+          onUpdate={loadOrder}
+        />
+      )}
+
       {/* Notes */}
       <Card>
         <CardHeader>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
@@ -8,7 +8,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { ArrowLeft, Check } from 'lucide-react'
+import { ArrowLeft, Check, Clock } from 'lucide-react'
+import { checkCoolerForBooking } from '@/lib/actions/cooler-capacity'
+import { getBookableSlots, holdSlot, releaseSlotHold, bookSlot, requestOrders } from '@/lib/actions/slot-booking'
+import { getHoldSecondsLeft, formatHoldTimer } from '@/lib/slot-booking'
+import type { AnimalType, CalendarSlotHold } from '@/types/database'
 
 interface Livestock {
   id: string
@@ -18,6 +22,8 @@ interface Livestock {
   status: string
 }
 
+type BookableSlot = Awaited<ReturnType<typeof getBookableSlots>>[number]
+
 interface Processor {
   id: string
   name: string
@@ -45,6 +51,14 @@ export default function NewOrderPage() {
   const [scheduledDate, setScheduledDate] = useState(preselectedDate || '')
   const [notes, setNotes] = useState('')
 
+  // Calendar slots on the chosen date, and the places held on one of them
+  const [dateSlots, setDateSlots] = useState<BookableSlot[]>([])
+  const [hold, setHold] = useState<CalendarSlotHold | null>(null)
+  const [holdError, setHoldError] = useState<string | null>(null)
+  const [holdAttempt, setHoldAttempt] = useState(0)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const holdRef = useRef<CalendarSlotHold | null>(null)
+
   // Toggle livestock selection
   const toggleLivestock = (id: string) => {
     setSelectedLivestock(prev =>
@@ -126,63 +140,118 @@ export default function NewOrderPage() {
     loadData()
   }, [supabase, preselectedProcessor, router])
 
+  // Animal types of the selected livestock decide which slot is booked
+  const selectedTypes = Array.from(new Set(
+    livestock.filter(l => selectedLivestock.includes(l.id)).map(l => l.animal_type)
+  ))
+  const bookingSlot = selectedTypes.length === 1
+    ? dateSlots.find(slot => slot.animal_type === selectedTypes[0]) || null
+    : null
+  const mixedTypesOnSlotDate = selectedTypes.length > 1 && dateSlots.length > 0
+
+  useEffect(() => {
+    if (!selectedProcessor || !scheduledDate) {
+      setDateSlots([])
+      return
+    }
+    getBookableSlots(selectedProcessor, scheduledDate).then(setDateSlots)
+  }, [selectedProcessor, scheduledDate])
+
+  // Hold places on the slot while the producer finishes the form
+  const bookingSlotId = bookingSlot?.id
+  const head = selectedLivestock.length
+  useEffect(() => {
+    if (!bookingSlotId || head === 0) return
+
+    let cancelled = false
+    holdSlot(bookingSlotId, head).then(result => {
+      if (cancelled) {
+        if (result.hold) releaseSlotHold(result.hold.id)
+        return
+      }
+      holdRef.current = result.hold || null
+      setHold(result.hold || null)
+      setHoldError(result.success ? null : result.error || 'Could not hold places on this slot')
+    })
+
+    return () => {
+      cancelled = true
+      if (holdRef.current) releaseSlotHold(holdRef.current.id)
+      holdRef.current = null
+      setHold(null)
+      setHoldError(null)
+    }
+  }, [bookingSlotId, head, holdAttempt])
+
+  useEffect(() => {
+    if (!hold) return
+    const tick = () => {
+      const left = getHoldSecondsLeft(hold.expires_at)
+      setSecondsLeft(left)
+      if (left === 0) {
+        holdRef.current = null
+        setHold(null)
+        setHoldError('Your hold expired and the places were released.')
+      }
+    }
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [hold])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setError(null)
 
     try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) {
-        setError('Not authenticated')
+      if (mixedTypesOnSlotDate) {
+        setError('Book one animal type at a time on a calendar date')
         return
       }
 
-      const { data: profile } = await supabase
-        .from('users')
-        .select('organization_id')
-        .eq('auth_id', user.id)
-        .single() as { data: { organization_id: string | null } | null }
-
-      if (!profile?.organization_id) {
-        setError('No organization found')
-        return
-      }
+      // Make sure the processor's cooler has room for the animals while they hang
+      if (scheduledDate && selectedProcessor && selectedLivestock.length > 0) {
+        const animalTypes = livestock
+          .filter(l => selectedLivestock.includes(l.id))
+          .map(l => l.animal_type as AnimalType)
+        const cooler = await checkCoolerForBooking(selectedProcessor, scheduledDate, animalTypes)
 
-      // Create orders for each selected animal (or one order with no animal if none selected)
-      const animalsToProcess = selectedLivestock.length > 0 ? selectedLivestock : [null]
-      const createdOrders: string[] = []
-
-      for (const livestockId of animalsToProcess) {
-        const orderData = {
-          producer_id: profile.organization_id,
-          processor_id: selectedProcessor,
-          livestock_id: livestockId,
-          status: 'draft',
-          scheduled_drop_off: scheduledDate ? new Date(scheduledDate).toISOString() : null,
-          producer_notes: notes || null,
+        if (cooler.blocked) {
+          setError(`${cooler.message}. Please pick another drop-off date.`)
+          return
         }
+        if (cooler.message && !confirm(`${cooler.message}. The processor may need to reschedule. Book anyway?`)) {
+          return
+        }
+      }
 
-        const { data: newOrder, error: insertError } = await supabase
-          .from('processing_orders')
-          .insert(orderData as never)
-          .select('id')
-          .single() as { data: { id: string } | null; error: Error | null }
-
-        if (insertError || !newOrder) {
-          setError(insertError?.message || 'Failed to create order')
+      // Booking a calendar slot reserves every place or none
+      if (bookingSlot) {
+        const result = await bookSlot(bookingSlot.id, selectedLivestock, notes || null)
+        if (!result.success || !result.orderIds) {
+          setError(result.error || 'Failed to book the slot')
+          setDateSlots(await getBookableSlots(selectedProcessor, scheduledDate))
           return
         }
 
-        createdOrders.push(newOrder.id)
+        // The booking used up the hold
+        holdRef.current = null
+        router.push(result.orderIds.length === 1 ? `/dashboard/orders/${result.orderIds[0]}` : '/dashboard/orders')
+        router.refresh()
+        return
       }
 
-      // If single order, go to order detail. If multiple, go to orders list
-      if (createdOrders.length === 1) {
-        router.push(`/dashboard/orders/${createdOrders[0]}`)
-      } else {
-        router.push('/dashboard/orders')
+      // No slot on the date: send a request for the processor to schedule,
+      // one order per selected animal (or one order with no animal)
+      const result = await requestOrders(selectedProcessor, selectedLivestock, scheduledDate || null, notes || null)
+      if (!result.success || !result.orderIds) {
+        setError(result.error || 'Failed to create order')
+        return
       }
+
+      // If single order, go to order detail. If multiple, go to orders list
+      router.push(result.orderIds.length === 1 ? `/dashboard/orders/${result.orderIds[0]}` : '/dashboard/orders')
       router.refresh()
     } catch {
       setError('An unexpected error occurred')
@@ -343,6 +412,36 @@ export default function NewOrderPage() {
                 onChange={(e) => setScheduledDate(e.target.value)}
                 min={new Date().toISOString().split('T')[0]}
               />
+              {bookingSlot && (
+                <div className="text-sm rounded-md bg-green-50 text-green-800 p-3 flex items-center gap-2">
+                  <Clock className="h-4 w-4 shrink-0" />
+                  {hold ? (
+                    <span>
+                      {hold.head} place{hold.head === 1 ? '' : 's'} held on the {bookingSlot.animal_type} slot
+                      for {formatHoldTimer(secondsLeft)}
+                    </span>
+                  ) : holdError ? (
+                    <span className="text-red-600">
+                      {holdError}{' '}
+                      <button type="button" className="underline" onClick={() => setHoldAttempt(n => n + 1)}>
+                        Try again
+                      </button>
+                    </span>
+                  ) : (
+                    <span>Holding places...</span>
+                  )}
+                </div>
+              )}
+              {!bookingSlot && selectedTypes.length === 1 && dateSlots.length > 0 && (
+                <p className="text-sm text-gray-500">
+                  No {selectedTypes[0]} slot on this date. Your request goes to the processor to schedule.
+                </p>
+              )}
+              {mixedTypesOnSlotDate && (
+                <p className="text-sm text-red-600">
+                  Slots are booked per animal type. Select one type at a time for this date.
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -360,11 +459,13 @@ export default function NewOrderPage() {
               <Button
                 type="submit"
                 className="bg-green-700 hover:bg-green-800"
-                disabled={loading || !selectedProcessor}
+                disabled={loading || !selectedProcessor || mixedTypesOnSlotDate}
               >
                 {loading
                   ? 'Creating...'
-                  : selectedLivestock.length > 1
+                  : bookingSlot
+                    ? `Book ${selectedLivestock.length} Place${selectedLivestock.length === 1 ? '' : 's'}`
+                    : selectedLivestock.length > 1
                     ? `Create ${selectedLivestock.length} Orders`
                     : 'Create Order'
                 }
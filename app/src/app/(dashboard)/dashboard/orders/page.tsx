@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Plus, FileText } from 'lucide-react'
+import { PrintLabelsDialog } from '@/components/labels/PrintLabelsDialog'
 import type { OrganizationType } from '@/types/database'
 
 interface ProfileWithOrg {
@@ -79,6 +80,7 @@ export default async function OrdersPage() {
             </Button>
           </Link>
         )}
+        {!isProducer && <PrintLabelsDialog />}
       </div>
 
       <Card>
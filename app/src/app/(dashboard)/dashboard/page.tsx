@@ -4,6 +4,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ClipboardList, Calendar, Truck, MessageSquare, AlertCircle, ArrowRight, Plus, Search, FileText } from 'lucide-react'
+import { ProducerReliabilityCard, type MissedOrder } from '@/components/reliability/ProducerReliabilityCard'
+import { getProducerReliability } from '@/lib/actions/reliability'
+import { RELIABILITY_LOOKBACK_MONTHS } from '@/lib/reliability'
 import type { OrganizationType } from '@/types/database'
 
 interface ProfileWithOrg {
@@ -85,6 +88,22 @@ export default async function DashboardPage() {
     pendingOrders = pending || []
   }
 
+  // A producer's own reliability record
+  const reliability = isProducer ? await getProducerReliability() : null
+  let missedOrders: MissedOrder[] = []
+  if (isProducer && organization?.id) {
+    const since = new Date()
+    since.setMonth(since.getMonth() - RELIABILITY_LOOKBACK_MONTHS)
+    const { data: missed } = await supabase
+      .from('processing_orders')
+      .select('id, order_number, no_show_at, cancelled_at, processor:organizations!processor_id(name)')
+      .eq('producer_id', organization.id)
+      .or(`no_show_at.gte.${since.toISOString()},and(late_cancellation.eq.true,cancelled_at.gte.${since.toISOString()})`)
+      .order('cancelled_at', { ascending: false }) as { data: MissedOrder[] | null }
+
+    missedOrders = missed || []
+  }
+
   // Get order stats
   const { count: activeOrders } = await supabase
     .from('processing_orders')
@@ -334,6 +353,11 @@ export default async function DashboardPage() {
         </Card>
       )}
 
+      {/* Reliability for Producers */}
+      {reliability && (
+        <ProducerReliabilityCard record={reliability} missedOrders={missedOrders} />
+      )}
+
       {/* Recent Orders */}
       <Card>
         <CardHeader>
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Scale } from 'lucide-react'
+import { advanceStageFromScan, recordHangingWeightFromScan, type ScanResult } from '@/lib/actions/scan'
+import { updatePackageWeight } from '@/lib/actions/processor-cut-sheet'
+import { getStageAdvance, STAGE_LABELS } from '@/lib/processing-stages'
+
+interface ScanQuickActionsProps {
+  result: ScanResult
+}
+
+export function ScanQuickActions({ result }: ScanQuickActionsProps) {
+  const order = result.order!
+  const [stage, setStage] = useState(order.processingStage)
+  const [status, setStatus] = useState(order.status)
+  const [hangingWeight, setHangingWeight] = useState(order.hangingWeight?.toString() || '')
+  const [packageWeight, setPackageWeight] = useState(result.package?.actualWeightLbs?.toString() || '')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const advance = getStageAdvance(stage, status)
+
+  // Refreshing the page would re-run the lookup and log a second scan, so track changes locally
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, successText: string) => {
+    setSaving(true)
+    setMessage(null)
+    const res = await action()
+    setMessage(res.success ? { type: 'success', text: successText } : { type: 'error', text: res.error || 'Something went wrong' })
+    setSaving(false)
+    return res.success
+  }
+
+  const handleAdvance = async () => {
+    if (!advance) return
+    const ok = await run(() => advanceStageFromScan(order.id), `Moved to ${STAGE_LABELS[advance.nextStage]}`)
+    if (ok) {
+      setStage(advance.nextStage)
+      setStatus(advance.newStatus)
+    }
+  }
+
+  const handleHangingWeight = () => {
+    const weight = parseFloat(hangingWeight)
+    return run(() => recordHangingWeightFromScan(order.id, weight), `Hanging weight saved: ${weight} lbs`)
+  }
+
+  const handlePackageWeight = () => {
+    const weight = parseFloat(packageWeight)
+    if (!(weight > 0)) {
+      setMessage({ type: 'error', text: 'Enter a weight greater than zero' })
+      return
+    }
+    return run(() => updatePackageWeight(result.package!.id, weight), `Package weight saved: ${weight} lbs`)
+  }
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm text-gray-500">Processing Stage</p>
+          <Badge variant="secondary">{STAGE_LABELS[stage]}</Badge>
+        </div>
+        {advance && (
+          <Button
+            className="bg-green-700 hover:bg-green-800"
+            onClick={handleAdvance}
+            disabled={saving}
+          >
+            Advance to: {STAGE_LABELS[advance.nextStage]}
+          </Button>
+        )}
+      </div>
+
+      {result.package ? (
+        <div className="space-y-2">
+          <Label htmlFor="scan-package-weight">Package Weight (lbs)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="scan-package-weight"
+              type="number"
+              step="0.01"
+              inputMode="decimal"
+              value={packageWeight}
+              onChange={(e) => setPackageWeight(e.target.value)}
+            />
+            <Button onClick={handlePackageWeight} disabled={saving || !packageWeight}>
+              <Scale className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="scan-hanging-weight">Hanging Weight (lbs)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="scan-hanging-weight"
+              type="number"
+              step="0.1"
+              inputMode="decimal"
+              value={hangingWeight}
+              onChange={(e) => setHangingWeight(e.target.value)}
+            />
+            <Button onClick={handleHangingWeight} disabled={saving || !hangingWeight}>
+              <Scale className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
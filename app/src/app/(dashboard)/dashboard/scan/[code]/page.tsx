@@ -0,0 +1,105 @@
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { AlertCircle, ArrowRight, Package, Tag, ClipboardList } from 'lucide-react'
+import { ScanInput } from '@/components/scan/ScanInput'
+import { resolveScanCode } from '@/lib/actions/scan'
+import { ScanQuickActions } from './ScanQuickActions'
+
+interface PageProps {
+  params: Promise<{ code: string }>
+}
+
+const KIND_LABELS = {
+  tracking_id: { label: 'Animal Tag', icon: Tag },
+  package: { label: 'Package', icon: Package },
+  order_number: { label: 'Order', icon: ClipboardList },
+}
+
+export default async function ScanResultPage({ params }: PageProps) {
+  const { code } = await params
+  const { result, error } = await resolveScanCode(decodeURIComponent(code))
+  const KindIcon = result ? KIND_LABELS[result.kind].icon : Tag
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <ScanInput />
+
+      {!result ? (
+        <div className="flex items-center gap-2 bg-red-50 text-red-600 p-4 rounded-lg">
+          <AlertCircle className="h-5 w-5 flex-shrink-0" />
+          {error || 'Nothing found for this code'}
+        </div>
+      ) : (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Badge variant="outline" className="mb-2">
+                  <KindIcon className="h-3 w-3 mr-1" />
+                  {KIND_LABELS[result.kind].label}
+                </Badge>
+                <CardTitle>
+                  {result.package
+                    ? `${result.package.cutName} - Pkg #${result.package.packageNumber}`
+                    : result.order
+                      ? `Order #${result.order.orderNumber}`
+                      : result.livestock?.name || result.livestock?.trackingId}
+                </CardTitle>
+              </div>
+              <Button asChild variant="outline" size="sm">
+                <Link href={result.href}>
+                  Open
+                  <ArrowRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <dl className="grid grid-cols-2 gap-3 text-sm">
+              {result.order && (
+                <>
+                  <div>
+                    <dt className="text-gray-500">Order</dt>
+                    <dd className="font-medium">
+                      <Link href={`/dashboard/orders/${result.order.id}`} className="text-green-700 hover:underline">
+                        #{result.order.orderNumber}
+                      </Link>
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-500">Producer</dt>
+                    <dd className="font-medium">{result.order.producerName || '-'}</dd>
+                  </div>
+                </>
+              )}
+              {result.livestock && (
+                <div>
+                  <dt className="text-gray-500">Animal</dt>
+                  <dd className="font-medium">
+                    {[result.livestock.trackingId, result.livestock.tagNumber && `Tag ${result.livestock.tagNumber}`, result.livestock.name]
+                      .filter(Boolean)
+                      .join(' - ')}
+                  </dd>
+                </div>
+              )}
+              {result.package && (
+                <div>
+                  <dt className="text-gray-500">Package Weight</dt>
+                  <dd className="font-medium">
+                    {result.package.actualWeightLbs != null ? `${result.package.actualWeightLbs} lbs` : 'Not weighed'}
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {result.isProcessor && result.order && (
+              <ScanQuickActions result={result} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ScanInput } from '@/components/scan/ScanInput'
+
+export default function ScanPage() {
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Scan</h1>
+        <p className="text-gray-500">Look up an animal, package or order from the floor</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Scan a Code</CardTitle>
+          <CardDescription>
+            Ear and carcass tags (STK-2025-00012), package label barcodes, or order numbers
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScanInput />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
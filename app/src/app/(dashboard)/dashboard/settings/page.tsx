@@ -9,10 +9,21 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import { useToast } from '@/hooks/use-toast'
-import { Check, Beef, PiggyBank, Rabbit, Flame, Drumstick, Bell, Mail, MessageSquare, Package } from 'lucide-react'
+import { Check, Beef, PiggyBank, Rabbit, Flame, Drumstick, Bell, FileUp, Smartphone, Moon } from 'lucide-react'
 import { Switch } from '@/components/ui/switch'
 import { GoatIcon } from '@/components/icons/AnimalIcons'
 import { ProcessorCutSheetConfig } from '@/components/settings/ProcessorCutSheetConfig'
+import { ProcessorYieldCalibration } from '@/components/settings/ProcessorYieldCalibration'
+import { ProcessorFeeSchedule } from '@/components/settings/ProcessorFeeSchedule'
+import { ProcessorCoolerCapacity } from '@/components/settings/ProcessorCoolerCapacity'
+import { ProcessorBookingPolicy } from '@/components/settings/ProcessorBookingPolicy'
+import { CalendarFeedSettings } from '@/components/settings/CalendarFeedSettings'
+import { NotificationPreferenceMatrix } from '@/components/settings/NotificationPreferenceMatrix'
+import { NotificationDeliveryLog } from '@/components/settings/NotificationDeliveryLog'
+import { CutSheetImport } from '@/components/cutsheet/CutSheetImport'
+import { DEFAULT_SMS_PREFERENCES, getSmsPreferences, type SmsPreferences } from '@/lib/sms-notifications'
+import { saveSmsPreferences } from '@/lib/actions/notification-preferences'
+import { sendPhoneVerificationCode, verifyPhoneCode } from '@/lib/actions/phone-verification'
 import type { User, Organization } from '@/types/database'
 
 type LicenseType = 'usda' | 'state' | 'custom_exempt'
@@ -36,26 +47,16 @@ interface ProfileWithOrg extends User {
   organization: Organization | null
 }
 
-interface NotificationPreferences {
-  email_order_updates: boolean
-  email_messages: boolean
-  email_system: boolean
-}
-
-const DEFAULT_NOTIFICATION_PREFS: NotificationPreferences = {
-  email_order_updates: true,
-  email_messages: true,
-  email_system: false,
-}
-
 export default function SettingsPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [profile, setProfile] = useState<User | null>(null)
   const [organization, setOrganization] = useState<Organization | null>(null)
   const [selectedServices, setSelectedServices] = useState<string[]>([])
-  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFS)
+  const [notificationPrefs, setNotificationPrefs] = useState<SmsPreferences>(DEFAULT_SMS_PREFERENCES)
   const [savingNotifications, setSavingNotifications] = useState(false)
+  const [codeSent, setCodeSent] = useState(false)
+  const [verifyingPhone, setVerifyingPhone] = useState(false)
   const router = useRouter()
   const supabase = useMemo(() => createClient(), [])
   const { toast } = useToast()
@@ -79,14 +80,7 @@ export default function SettingsPage() {
         if (data.organization?.services_offered) {
           setSelectedServices(data.organization.services_offered as string[])
         }
-        // Load notification preferences
-        if (data.notification_preferences && typeof data.notification_preferences === 'object') {
-          const prefs = data.notification_preferences as unknown as Partial<NotificationPreferences>
-          setNotificationPrefs({
-            ...DEFAULT_NOTIFICATION_PREFS,
-            ...prefs,
-          })
-        }
+        setNotificationPrefs(getSmsPreferences(data.notification_preferences))
       }
       setLoading(false)
     }
@@ -100,13 +94,15 @@ export default function SettingsPage() {
 
     const formData = new FormData(e.currentTarget)
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('users')
       .update({
         full_name: formData.get('fullName') as string,
         phone: formData.get('phone') as string,
       } as never)
       .eq('id', profile!.id)
+      .select('*')
+      .single() as { data: User | null; error: { message: string } | null }
 
     setSaving(false)
 
@@ -117,6 +113,9 @@ export default function SettingsPage() {
         variant: 'destructive',
       })
     } else {
+      // A new number has to be verified again
+      if (data) setProfile({ ...profile!, ...data })
+      if (data?.phone !== profile?.phone) setCodeSent(false)
       toast({
         title: 'Saved',
         description: 'Your profile has been updated.',
@@ -174,19 +173,45 @@ export default function SettingsPage() {
     )
   }
 
-  const handleNotificationPrefChange = async (key: keyof NotificationPreferences, value: boolean) => {
-    const newPrefs = { ...notificationPrefs, [key]: value }
-    setNotificationPrefs(newPrefs)
+  const handleSendPhoneCode = async () => {
+    setVerifyingPhone(true)
+    const result = await sendPhoneVerificationCode()
+    setVerifyingPhone(false)
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' })
+    } else {
+      setCodeSent(true)
+      toast({ title: 'Code sent', description: `We texted a code to ${profile?.phone}.` })
+    }
+  }
+
+  const handleVerifyPhone = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setVerifyingPhone(true)
+    const result = await verifyPhoneCode(new FormData(e.currentTarget).get('code') as string)
+    setVerifyingPhone(false)
+
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' })
+    } else {
+      setProfile({ ...profile!, phone_verified_at: new Date().toISOString() })
+      setCodeSent(false)
+      toast({ title: 'Verified', description: 'Your number is verified.' })
+    }
+  }
+
+  const handleNotificationPrefChange = async (key: keyof SmsPreferences, value: boolean | string) => {
+    // Quiet hours are kept in this browser's time zone
+    const changes = { [key]: value, sms_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+    setNotificationPrefs({ ...notificationPrefs, ...changes })
     setSavingNotifications(true)
 
-    const { error } = await supabase
-      .from('users')
-      .update({ notification_preferences: newPrefs } as never)
-      .eq('id', profile!.id)
+    const result = await saveSmsPreferences(changes)
 
     setSavingNotifications(false)
 
-    if (error) {
+    if (!result.success) {
       // Revert on error
       setNotificationPrefs(notificationPrefs)
       toast({
@@ -304,93 +329,118 @@ export default function SettingsPage() {
             Notification Preferences
           </CardTitle>
           <CardDescription>
-            Control how you receive notifications
+            Choose how each kind of notification reaches you
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {/* Email Notifications Section */}
+          <NotificationPreferenceMatrix smsEnabled={notificationPrefs.sms_enabled} />
+
+          <Separator />
+
+          {/* Text Message Section */}
           <div className="space-y-4">
             <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
-              <Mail className="h-4 w-4" />
-              Email Notifications
+              <Smartphone className="h-4 w-4" />
+              Text Messages
             </div>
 
             <div className="space-y-4 pl-6">
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
-                  <div className="flex items-center gap-2">
-                    <Package className="h-4 w-4 text-gray-500" />
-                    <Label htmlFor="email_order_updates" className="font-medium">
-                      Order Updates
-                    </Label>
-                  </div>
+                  <Label htmlFor="sms_enabled" className="font-medium">
+                    Text Me
+                  </Label>
                   <p className="text-sm text-gray-500">
-                    Receive emails when orders are submitted, confirmed, or ready
+                    {!profile?.phone
+                      ? 'Add a mobile number to your profile to get texts.'
+                      : profile.phone_verified_at
+                        ? `Send texts to ${profile.phone}. Reply STOP at any time to turn them off.`
+                        : `Verify ${profile.phone} to get texts.`}
                   </p>
                 </div>
                 <Switch
-                  id="email_order_updates"
-                  checked={notificationPrefs.email_order_updates}
-                  onCheckedChange={(checked: boolean) => handleNotificationPrefChange('email_order_updates', checked)}
-                  disabled={savingNotifications}
+                  id="sms_enabled"
+                  checked={notificationPrefs.sms_enabled}
+                  onCheckedChange={(checked: boolean) => handleNotificationPrefChange('sms_enabled', checked)}
+                  disabled={savingNotifications || !profile?.phone_verified_at}
                 />
               </div>
 
-              <Separator />
-
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <div className="flex items-center gap-2">
-                    <MessageSquare className="h-4 w-4 text-gray-500" />
-                    <Label htmlFor="email_messages" className="font-medium">
-                      New Messages
-                    </Label>
+              {profile?.phone && !profile.phone_verified_at && (
+                <form onSubmit={handleVerifyPhone} className="flex items-center gap-2">
+                  <Button type="button" variant="outline" onClick={handleSendPhoneCode} disabled={verifyingPhone}>
+                    {codeSent ? 'Send New Code' : 'Send Code'}
+                  </Button>
+                  {codeSent && (
+                    <>
+                      <Input
+                        name="code"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        aria-label="Verification code"
+                        placeholder="123456"
+                        className="w-32"
+                        required
+                      />
+                      <Button type="submit" disabled={verifyingPhone}>
+                        Verify
+                      </Button>
+                    </>
+                  )}
+                </form>
+              )}
+
+              {notificationPrefs.sms_enabled && (
+                <>
+                  <Separator />
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Moon className="h-4 w-4 text-gray-500" />
+                      <Label className="font-medium">Quiet Hours</Label>
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      Texts due during quiet hours are sent when they end
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        aria-label="Quiet hours start"
+                        className="w-32"
+                        defaultValue={notificationPrefs.sms_quiet_start || ''}
+                        onBlur={(e) => e.target.value !== notificationPrefs.sms_quiet_start && handleNotificationPrefChange('sms_quiet_start', e.target.value)}
+                        disabled={savingNotifications}
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <Input
+                        type="time"
+                        aria-label="Quiet hours end"
+                        className="w-32"
+                        defaultValue={notificationPrefs.sms_quiet_end || ''}
+                        onBlur={(e) => e.target.value !== notificationPrefs.sms_quiet_end && handleNotificationPrefChange('sms_quiet_end', e.target.value)}
+                        disabled={savingNotifications}
+                      />
+                    </div>
                   </div>
-                  <p className="text-sm text-gray-500">
-                    Get notified when you receive a new message
-                  </p>
-                </div>
-                <Switch
-                  id="email_messages"
-                  checked={notificationPrefs.email_messages}
-                  onCheckedChange={(checked: boolean) => handleNotificationPrefChange('email_messages', checked)}
-                  disabled={savingNotifications}
-                />
-              </div>
-
-              <Separator />
 
-              <div className="flex items-center justify-between">
-                <div className="space-y-0.5">
-                  <div className="flex items-center gap-2">
-                    <Bell className="h-4 w-4 text-gray-500" />
-                    <Label htmlFor="email_system" className="font-medium">
-                      System Announcements
-                    </Label>
-                  </div>
                   <p className="text-sm text-gray-500">
-                    Platform updates, maintenance notices, and tips
+                    You can text back too: STATUS 1042 or READY? for where your orders are
+                    {isProcessor && ', CONFIRM 1042 to confirm a submitted order'}.
                   </p>
-                </div>
-                <Switch
-                  id="email_system"
-                  checked={notificationPrefs.email_system}
-                  onCheckedChange={(checked: boolean) => handleNotificationPrefChange('email_system', checked)}
-                  disabled={savingNotifications}
-                />
-              </div>
+                </>
+              )}
             </div>
           </div>
 
-          <div className="rounded-lg bg-gray-50 p-4 text-sm text-gray-600">
-            <p>
-              <strong>Note:</strong> You&apos;ll always receive in-app notifications.
-              These settings only control email delivery.
-            </p>
-          </div>
         </CardContent>
       </Card>
 
+      {/* Delivery failures, for owners and managers */}
+      {profile && profile.role !== 'worker' && <NotificationDeliveryLog />}
+
+      {/* Calendar Feed */}
+      {organization && <CalendarFeedSettings isProcessor={isProcessor} />}
+
       {/* Organization Settings */}
       <Card>
         <CardHeader>
@@ -596,6 +646,36 @@ export default function SettingsPage() {
       {/* Cut Sheet Configuration - Processors Only */}
       {isProcessor && <ProcessorCutSheetConfig />}
 
+      {/* Learned Yields - Processors Only */}
+      {isProcessor && <ProcessorYieldCalibration />}
+
+      {/* Fee Schedule - Processors Only */}
+      {isProcessor && <ProcessorFeeSchedule />}
+
+      {/* Cooler Capacity - Processors Only */}
+      {isProcessor && <ProcessorCoolerCapacity />}
+
+      {/* Booking Policy - Processors Only */}
+      {isProcessor && <ProcessorBookingPolicy />}
+
+      {/* Cut Sheet Import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import Cut Sheets
+          </CardTitle>
+          <CardDescription>
+            {isProcessor
+              ? 'Bring over customer cut sheets from spreadsheets. Each customer becomes a template.'
+              : 'Turn cut sheets from spreadsheets into templates you can reuse on new orders.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CutSheetImport />
+        </CardContent>
+      </Card>
+
       {/* Danger Zone */}
       <Card className="border-red-200">
         <CardHeader>
@@ -26,8 +26,8 @@ export function ClaimSlotBanner({ entryId }: ClaimSlotBannerProps) {
     const result = await claimWaitlistSlot(entryId)
     setLoading(false)
 
-    if (result.success && result.orderId) {
-      router.push(`/dashboard/orders/${result.orderId}`)
+    if (result.success && result.redirectTo) {
+      router.push(result.redirectTo)
     } else {
       alert(result.error || 'Failed to claim slot')
       router.refresh()
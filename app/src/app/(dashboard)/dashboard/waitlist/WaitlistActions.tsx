@@ -49,8 +49,8 @@ export function WaitlistActions({ entryId, isNotified }: WaitlistActionsProps) {
     const result = await claimWaitlistSlot(entryId)
     setLoading(false)
 
-    if (result.success && result.orderId) {
-      router.push(`/dashboard/orders/${result.orderId}`)
+    if (result.success && result.redirectTo) {
+      router.push(result.redirectTo)
     } else {
       alert(result.error || 'Failed to claim slot')
       router.refresh()
@@ -0,0 +1,47 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { setWaitlistPriority } from '@/lib/actions/waitlist'
+import { WAITLIST_PRIORITY_TIERS } from '@/lib/waitlist-matching'
+
+interface WaitlistPriorityControlProps {
+  entryId: string
+  tier: number
+}
+
+export function WaitlistPriorityControl({ entryId, tier }: WaitlistPriorityControlProps) {
+  const router = useRouter()
+  const [value, setValue] = useState(tier)
+  const [saving, setSaving] = useState(false)
+
+  const handleChange = async (next: number) => {
+    const previous = value
+    setValue(next)
+    setSaving(true)
+    const result = await setWaitlistPriority(entryId, next)
+    setSaving(false)
+
+    if (!result.success) {
+      setValue(previous)
+      alert(result.error || 'Failed to update priority')
+    }
+    router.refresh()
+  }
+
+  return (
+    <select
+      className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+      value={value}
+      onChange={(e) => handleChange(parseInt(e.target.value, 10))}
+      disabled={saving}
+      aria-label="Priority tier"
+    >
+      {WAITLIST_PRIORITY_TIERS.map((t) => (
+        <option key={t.value} value={t.value}>
+          {t.label}
+        </option>
+      ))}
+    </select>
+  )
+}
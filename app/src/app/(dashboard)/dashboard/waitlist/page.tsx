@@ -1,11 +1,18 @@
 import { createClient } from '@/lib/supabase/server'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
-import { Clock, Calendar, Beef, AlertCircle } from 'lucide-react'
-import { getProducerWaitlistEntries, getProcessorWaitlistEntries } from '@/lib/actions/waitlist'
+import { Clock, Calendar, Beef, AlertCircle, History, ArrowRightLeft } from 'lucide-react'
+import { getProducerWaitlistEntries, getProcessorWaitlistEntries, getWaitlistEvents } from '@/lib/actions/waitlist'
+import { getSlotTransfers } from '@/lib/actions/slot-transfers'
+import { getOfferExpiry, WAITLIST_PRIORITY_TIERS } from '@/lib/waitlist-matching'
+import { canTransferOrder, isTransferOpen, type TransferableOrder } from '@/lib/slot-transfers'
+import { TransferSlotDialog } from '@/components/transfers/TransferSlotDialog'
+import { SlotTransferList } from '@/components/transfers/SlotTransferList'
+import { ReliabilityBadge } from '@/components/reliability/ReliabilityBadge'
 import { WaitlistActions } from './WaitlistActions'
 import { ClaimSlotBanner } from './ClaimSlotBanner'
-import type { OrganizationType, AnimalType } from '@/types/database'
+import { WaitlistPriorityControl } from './WaitlistPriorityControl'
+import type { OrganizationType, AnimalType, WaitlistEvent } from '@/types/database'
 
 interface ProfileWithOrg {
   organization_id: string | null
@@ -19,6 +26,25 @@ const ANIMAL_LABELS: Record<AnimalType, string> = {
   goat: 'Goat',
 }
 
+const EVENT_LABELS: Record<WaitlistEvent['event'], { label: string; className: string }> = {
+  offered: { label: 'Offered', className: 'bg-blue-100 text-blue-700' },
+  expired: { label: 'Expired', className: 'bg-amber-100 text-amber-700' },
+  claimed: { label: 'Claimed', className: 'bg-green-100 text-green-700' },
+}
+
+function getTierLabel(tier: number): string {
+  return WAITLIST_PRIORITY_TIERS.find(t => t.value === tier)?.label || `Tier ${tier}`
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString('en-US', {
     weekday: 'short',
@@ -60,11 +86,35 @@ export default async function WaitlistPage({
   const entries = isProducer
     ? await getProducerWaitlistEntries()
     : await getProcessorWaitlistEntries()
+  const events = isProducer ? [] : await getWaitlistEvents()
+  const transfers = await getSlotTransfers()
+
+  // Entries and claimed slots already on offer can't be offered again
+  const openTransferIds = new Set(
+    transfers.filter(isTransferOpen).map(t => t.entry_id || t.order_id)
+  )
 
   // Separate active and inactive entries for producers
   const activeEntries = entries.filter(e => e.is_active)
   const inactiveEntries = entries.filter(e => !e.is_active)
 
+  // Claimed slots that can still change hands
+  const convertedOrderIds = inactiveEntries
+    .map(e => e.converted_to_order_id)
+    .filter((id): id is string => !!id)
+  const transferableOrderIds = new Set<string>()
+  if (isProducer && convertedOrderIds.length > 0) {
+    const { data: orders } = await supabase
+      .from('processing_orders')
+      .select('id, producer_id, status, processing_stage')
+      .in('id', convertedOrderIds)
+    for (const order of (orders || []) as (TransferableOrder & { id: string; producer_id: string })[]) {
+      if (order.producer_id === profile?.organization_id && canTransferOrder(order)) {
+        transferableOrderIds.add(order.id)
+      }
+    }
+  }
+
   // Check if there's a claim to process
   const claimEntryId = searchParams.claim
 
@@ -137,7 +187,21 @@ export default async function WaitlistPage({
                         <Badge variant="outline" className="flex items-center gap-1">
                           <Beef className="h-3 w-3" />
                           {ANIMAL_LABELS[entry.animal_type]}
+                          {entry.head_count > 1 && ` x ${entry.head_count}`}
                         </Badge>
+                        {!isProducer && (entry.standing?.tier ?? entry.priority_tier) > 0 && (
+                          <Badge variant="secondary">
+                            {getTierLabel(entry.standing?.tier ?? entry.priority_tier)}
+                          </Badge>
+                        )}
+                        {!isProducer && entry.standing?.heldBy && (
+                          <Badge variant="outline" className="border-amber-300 text-amber-700">
+                            At booking limit
+                          </Badge>
+                        )}
+                        {!isProducer && entry.reliability && (
+                          <ReliabilityBadge reliability={entry.reliability} />
+                        )}
                       </div>
 
                       {/* Livestock info */}
@@ -154,21 +218,37 @@ export default async function WaitlistPage({
                         </div>
                       )}
 
+                      {/* Why they're ranked here (Processor only) */}
+                      {!isProducer && entry.standing && (
+                        <div className="text-sm text-gray-600">
+                          <span className="font-medium">#{entry.standing.position} in line</span>
+                          {' - '}
+                          {entry.standing.reasons.join('. ')}
+                        </div>
+                      )}
+
                       {/* Notification status */}
                       {entry.notified_at && (
                         <div className="flex items-center gap-2 text-green-700 font-medium">
                           <AlertCircle className="h-4 w-4" />
-                          Slot available! Claim within 24 hours
+                          {isProducer ? 'Slot available!' : 'Offered'}
+                          {entry.offered_date && ` ${formatDate(entry.offered_date)}`}
+                          {getOfferExpiry(entry) && ` - claim by ${formatDateTime(getOfferExpiry(entry)!)}`}
                         </div>
                       )}
                     </div>
 
                     {/* Actions */}
-                    {isProducer && (
-                      <WaitlistActions
-                        entryId={entry.id}
-                        isNotified={!!entry.notified_at}
-                      />
+                    {isProducer ? (
+                      <div className="flex items-center gap-2">
+                        {!openTransferIds.has(entry.id) && <TransferSlotDialog entryId={entry.id} />}
+                        <WaitlistActions
+                          entryId={entry.id}
+                          isNotified={!!entry.notified_at}
+                        />
+                      </div>
+                    ) : (
+                      <WaitlistPriorityControl entryId={entry.id} tier={entry.priority_tier} />
                     )}
                   </div>
 
@@ -183,6 +263,69 @@ export default async function WaitlistPage({
         </CardContent>
       </Card>
 
+      {/* Slot Transfers */}
+      {(transfers.length > 0 || !isProducer) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5" />
+              Slot Transfers
+            </CardTitle>
+            <CardDescription>
+              {isProducer
+                ? 'Slots and waitlist places you offered to other producers, or that were offered to you'
+                : 'Producers handing their slots or waitlist places to someone else'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SlotTransferList
+              transfers={transfers}
+              organizationId={profile?.organization_id || ''}
+              isProcessor={!isProducer}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Offer History (Processor only) */}
+      {!isProducer && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Offer History
+            </CardTitle>
+            <CardDescription>
+              Every opening offered to your waitlist, and whether it was claimed or expired
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-gray-500">No offers yet</p>
+            ) : (
+              <div className="divide-y">
+                {events.map((event) => (
+                  <div key={event.id} className="flex items-center justify-between py-2 text-sm">
+                    <div className="flex items-center gap-3">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${EVENT_LABELS[event.event].className}`}>
+                        {EVENT_LABELS[event.event].label}
+                      </span>
+                      <span className="font-medium">{event.producer?.name || 'Unknown Producer'}</span>
+                      <span className="text-gray-600">
+                        {ANIMAL_LABELS[event.animal_type]}
+                        {event.head_count > 1 && ` x ${event.head_count}`}
+                        {event.offered_date && ` on ${formatDate(event.offered_date)}`}
+                      </span>
+                    </div>
+                    <span className="text-xs text-gray-400">{formatDateTime(event.created_at)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Past/Inactive Entries (Producer only) */}
       {isProducer && inactiveEntries.length > 0 && (
         <Card>
@@ -212,9 +355,16 @@ export default async function WaitlistPage({
                         {ANIMAL_LABELS[entry.animal_type]}
                       </Badge>
                     </div>
-                    <Badge variant={entry.converted_to_order_id ? 'default' : 'secondary'}>
-                      {entry.converted_to_order_id ? 'Converted to Order' : 'Expired/Cancelled'}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      {entry.converted_to_order_id &&
+                        transferableOrderIds.has(entry.converted_to_order_id) &&
+                        !openTransferIds.has(entry.converted_to_order_id) && (
+                          <TransferSlotDialog orderId={entry.converted_to_order_id} />
+                        )}
+                      <Badge variant={entry.converted_to_order_id ? 'default' : 'secondary'}>
+                        {entry.converted_to_order_id ? 'Converted to Order' : 'Expired/Cancelled'}
+                      </Badge>
+                    </div>
                   </div>
                 </div>
               ))}
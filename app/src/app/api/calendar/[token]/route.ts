@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { loadCalendarFeed } from '@/lib/calendar-feed-loader'
+import { parseFeedToken } from '@/lib/calendar-feed'
+import { ICS_CONTENT_TYPE, renderIcsCalendar } from '@/lib/ics'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * An organization's iCalendar feed, for subscribing from Google, Apple or
+ * Outlook calendars.
+ *
+ * The path is /api/calendar/<token>.ics - the token from Settings is the only
+ * credential, since calendar apps can't sign in.
+ */
+export async function GET(_request: Request, { params }: { params: { token: string } }) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  const calendar = await loadCalendarFeed(createServiceClient(), parseFeedToken(params.token), appUrl)
+
+  if (!calendar) {
+    return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+  }
+
+  return new NextResponse(renderIcsCalendar(calendar), {
+    headers: {
+      'Content-Type': ICS_CONTENT_TYPE,
+      'Content-Disposition': 'inline; filename="calendar.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  })
+}
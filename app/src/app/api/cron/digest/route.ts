@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { queueDailyDigests } from '@/lib/notifications/digest'
+import { createServiceClient } from '@/lib/supabase/service'
+
+/**
+ * Scheduled job: queues the daily digest email for users who get some
+ * notifications that way.
+ *
+ * Called by Vercel Cron (vercel.json) with `Authorization: Bearer CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const result = await queueDailyDigests(createServiceClient())
+
+  return NextResponse.json({
+    digestsQueued: result.queued,
+    digestsFailed: result.failed,
+  })
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { processOutbox } from '@/lib/notifications/outbox'
+import { queueScheduledSms } from '@/lib/notifications/sms'
+import { createServiceClient } from '@/lib/supabase/service'
+
+/**
+ * Scheduled job: queues texts held for quiet hours that have ended, then
+ * sends notification emails and texts that are due - new ones a request
+ * didn't get to, and retries of failed ones.
+ *
+ * Called by Vercel Cron (vercel.json) with `Authorization: Bearer CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const admin = createServiceClient()
+  const texts = await queueScheduledSms(admin)
+  const result = await processOutbox(admin)
+
+  return NextResponse.json({
+    textsReleased: texts.queued,
+    sent: result.sent,
+    failed: result.failed,
+    dead: result.dead,
+  })
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { expireWaitlistOffers, releaseUnsubmittedClaims } from '@/lib/waitlist-offers'
+import { expireSlotTransfers } from '@/lib/slot-transfer-offers'
+import { createServiceClient } from '@/lib/supabase/service'
+
+/**
+ * Scheduled job: expires unclaimed waitlist offers and passes each opening
+ * on to the next producer in line, releases claimed slots whose drafts were
+ * never submitted, and expires slot transfers nobody accepted.
+ *
+ * Called by Vercel Cron (vercel.json) with `Authorization: Bearer CRON_SECRET`.
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const admin = createServiceClient()
+  const result = await expireWaitlistOffers(admin)
+  const claims = await releaseUnsubmittedClaims(admin)
+  const transfers = await expireSlotTransfers(admin)
+
+  if (result.expired > 0 || claims.released > 0 || transfers.expired > 0) revalidatePath('/dashboard/waitlist')
+  if (claims.released > 0) revalidatePath('/dashboard/orders')
+
+  if (!result.success || !claims.success || !transfers.success) {
+    return NextResponse.json({ error: result.error || claims.error || transfers.error }, { status: 500 })
+  }
+
+  return NextResponse.json({
+    expired: result.expired,
+    offered: result.offered + claims.offered,
+    claimsReleased: claims.released,
+    transfersExpired: transfers.expired,
+  })
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getCutSheetPdf } from '@/lib/actions/cut-sheet-pdf'
+
+/**
+ * Printable cut sheet for an order.
+ *
+ * Query: orderId. download=1 saves the file instead of opening it.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const orderId = searchParams.get('orderId')
+
+  if (!orderId) {
+    return NextResponse.json({ error: 'An orderId is required' }, { status: 400 })
+  }
+
+  const result = await getCutSheetPdf(orderId)
+  if (!result.success || !result.pdf) {
+    return NextResponse.json({ error: result.error }, { status: 400 })
+  }
+
+  const disposition = searchParams.get('download') === '1' ? 'attachment' : 'inline'
+  return new NextResponse(result.pdf, {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${disposition}; filename="${result.filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { verifySvixSignature } from '@/lib/email-replies'
+import { parseResendDeliveryEvent } from '@/lib/notification-outbox'
+import { recordDeliveryEvent } from '@/lib/notifications/outbox'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Resend delivery webhook: marks notification emails that bounced or were
+ * marked as spam, so they show up under delivery failures in Settings.
+ * Signed with RESEND_WEBHOOK_SECRET (the whsec_ signing secret).
+ */
+export async function POST(request: Request) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json({ error: 'Email events are not configured' }, { status: 503 })
+  }
+
+  const body = await request.text()
+  const signed = verifySvixSignature({
+    id: request.headers.get('svix-id'),
+    timestamp: request.headers.get('svix-timestamp'),
+    signature: request.headers.get('svix-signature'),
+  }, body, secret)
+  if (!signed) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let payload: unknown = null
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  // Other events are acknowledged so Resend doesn't retry them
+  const event = parseResendDeliveryEvent(payload)
+  if (!event) return NextResponse.json({ recorded: false })
+
+  const recorded = await recordDeliveryEvent(createServiceClient(), event)
+  return NextResponse.json({ recorded })
+}
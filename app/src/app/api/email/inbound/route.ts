@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { getInboundEmailConfig } from '@/lib/email'
+import { handleInboundEmail } from '@/lib/email-reply-handler'
+import {
+  parseResendInbound,
+  parseSendGridInbound,
+  parseStubInbound,
+  verifySvixSignature,
+  type InboundAttachment,
+  type InboundEmail,
+} from '@/lib/email-replies'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Inbound email webhook: replies to notification emails, posted into the
+ * conversation they answer.
+ *
+ * INBOUND_EMAIL_PROVIDER picks the payload format:
+ * - resend (default): email.received webhook, signed with
+ *   INBOUND_EMAIL_WEBHOOK_SECRET (the whsec_ signing secret)
+ * - sendgrid: Inbound Parse, posted to /api/email/inbound?token=<secret>
+ * - stub: plain JSON for local testing, refused in production
+ *
+ * Rejected emails get a 200 so the provider doesn't retry them.
+ */
+export async function POST(request: Request) {
+  const config = getInboundEmailConfig()
+  if (!config) {
+    return NextResponse.json({ error: 'Inbound email is not configured' }, { status: 503 })
+  }
+
+  const provider = process.env.INBOUND_EMAIL_PROVIDER || 'resend'
+  const webhookSecret = process.env.INBOUND_EMAIL_WEBHOOK_SECRET
+  let email: InboundEmail | null
+
+  if (provider === 'sendgrid') {
+    const token = new URL(request.url).searchParams.get('token')
+    if (!webhookSecret || token !== webhookSecret) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    email = await readSendGridPayload(request)
+  } else if (provider === 'stub') {
+    if (process.env.NODE_ENV === 'production') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    email = parseStubInbound(await request.json().catch(() => null))
+  } else {
+    const body = await request.text()
+    const signed = !!webhookSecret && verifySvixSignature({
+      id: request.headers.get('svix-id'),
+      timestamp: request.headers.get('svix-timestamp'),
+      signature: request.headers.get('svix-signature'),
+    }, body, webhookSecret)
+    if (!signed) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    email = parseResendInbound(parseJson(body))
+  }
+
+  if (!email) {
+    return NextResponse.json({ error: 'Unrecognized inbound email payload' }, { status: 400 })
+  }
+
+  try {
+    const result = await handleInboundEmail(createServiceClient(), email, config)
+    if (result.status === 'rejected') {
+      console.log('[Inbound Email] Rejected:', result.reason)
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('[Inbound Email] Error posting reply:', error)
+    return NextResponse.json({ error: 'Failed to post reply' }, { status: 500 })
+  }
+}
+
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body)
+  } catch {
+    return null
+  }
+}
+
+async function readSendGridPayload(request: Request): Promise<InboundEmail | null> {
+  const form = await request.formData().catch(() => null)
+  if (!form) return null
+
+  const fields: Record<string, string> = {}
+  const files: Record<string, InboundAttachment> = {}
+
+  for (const [name, value] of Array.from(form.entries())) {
+    if (typeof value === 'string') {
+      fields[name] = value
+    } else {
+      files[name] = {
+        filename: value.name,
+        contentType: value.type,
+        content: Buffer.from(await value.arrayBuffer()),
+      }
+    }
+  }
+
+  return parseSendGridInbound(fields, files)
+}
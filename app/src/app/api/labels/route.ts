@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { getPackageLabels, markLabelsPrinted } from '@/lib/actions/labels'
+import { parseLabelSize, renderLabelsPdf, renderLabelsZpl } from '@/lib/labels'
+
+/**
+ * Print-ready labels for produced packages.
+ *
+ * Query: orderId or date (YYYY-MM-DD), format=pdf|zpl, size=4x2|4x3,
+ * unprinted=1 to skip packages already labeled. Every package included
+ * in the file is marked as printed.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const orderId = searchParams.get('orderId') || undefined
+  const date = searchParams.get('date') || undefined
+  const format = searchParams.get('format') === 'zpl' ? 'zpl' : 'pdf'
+  const size = parseLabelSize(searchParams.get('size'))
+
+  if (!orderId && !date) {
+    return NextResponse.json({ error: 'An orderId or date is required' }, { status: 400 })
+  }
+
+  const result = await getPackageLabels({
+    orderId,
+    date,
+    unprintedOnly: searchParams.get('unprinted') === '1',
+  })
+
+  if (!result.success || !result.labels) {
+    return NextResponse.json({ error: result.error }, { status: 400 })
+  }
+  if (result.labels.length === 0) {
+    return NextResponse.json({ error: 'No packages to label' }, { status: 404 })
+  }
+
+  const body = format === 'zpl'
+    ? renderLabelsZpl(result.labels, size)
+    : renderLabelsPdf(result.labels, size)
+
+  await markLabelsPrinted(result.labels.map(label => label.packageId))
+
+  const filename = `labels-${orderId ? `order-${orderId.slice(0, 8)}` : date}-${size}.${format}`
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': format === 'zpl' ? 'application/vnd.zebra-zpl' : 'application/pdf',
+      'Content-Disposition': `${format === 'zpl' ? 'attachment' : 'inline'}; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { handleInboundSms } from '@/lib/sms-command-handler'
+import { verifyTwilioSignature } from '@/lib/sms'
+import { renderSmsReply } from '@/lib/sms-notifications'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Inbound text webhook (Twilio's messaging webhook format): answers STOP,
+ * HELP, order status questions and CONFIRM with a TwiML reply.
+ *
+ * Twilio signs the request with TWILIO_AUTH_TOKEN over the public URL, so
+ * this checks against NEXT_PUBLIC_APP_URL rather than the URL seen behind a
+ * proxy. With SMS_PROVIDER=fake (outside production) unsigned posts are
+ * accepted, for trying it out locally.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    return NextResponse.json({ error: 'Expected a form post' }, { status: 400 })
+  }
+
+  const params: Record<string, string> = {}
+  Array.from(form.entries()).forEach(([key, value]) => {
+    if (typeof value === 'string') params[key] = value
+  })
+
+  const fake = process.env.SMS_PROVIDER === 'fake' && process.env.NODE_ENV !== 'production'
+  if (!fake) {
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    const url = new URL(request.url)
+    const publicUrl = `${process.env.NEXT_PUBLIC_APP_URL || url.origin}${url.pathname}${url.search}`
+    if (!authToken || !verifyTwilioSignature(publicUrl, params, request.headers.get('x-twilio-signature'), authToken)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  if (!params.From) {
+    return NextResponse.json({ error: 'Missing sender' }, { status: 400 })
+  }
+
+  let reply: string | null
+  try {
+    reply = await handleInboundSms(createServiceClient(), { from: params.From, body: params.Body || '' })
+  } catch (error) {
+    console.error('[SMS] Error answering text:', error)
+    reply = 'Something went wrong. Please try again, or check the Steakholders app.'
+  }
+
+  return new NextResponse(renderSmsReply(reply), {
+    headers: { 'Content-Type': 'text/xml' },
+  })
+}
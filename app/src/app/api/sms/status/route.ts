@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { verifyTwilioSignature } from '@/lib/sms'
+import { parseTwilioDeliveryStatus } from '@/lib/notification-outbox'
+import { recordDeliveryEvent } from '@/lib/notifications/outbox'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Twilio status callback for notification texts: marks texts the carrier
+ * couldn't deliver, so they show up under delivery failures in Settings.
+ * Signed like the inbound text webhook.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    return NextResponse.json({ error: 'Expected a form post' }, { status: 400 })
+  }
+
+  const params: Record<string, string> = {}
+  Array.from(form.entries()).forEach(([key, value]) => {
+    if (typeof value === 'string') params[key] = value
+  })
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const url = new URL(request.url)
+  const publicUrl = `${process.env.NEXT_PUBLIC_APP_URL || url.origin}${url.pathname}${url.search}`
+  if (!authToken || !verifyTwilioSignature(publicUrl, params, request.headers.get('x-twilio-signature'), authToken)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const event = parseTwilioDeliveryStatus(params)
+  if (event) {
+    await recordDeliveryEvent(createServiceClient(), event)
+  }
+
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Snowflake } from 'lucide-react'
+import { isCoolerConfigured, type CoolerConfig, type CoolerDay, type CoolerStatus } from '@/lib/cooler-capacity'
+import { getCoolerProjection } from '@/lib/actions/cooler-capacity'
+
+const PROJECTION_DAYS = 42
+
+const BAR_COLORS: Record<CoolerStatus, string> = {
+  ok: 'bg-green-400',
+  warn: 'bg-amber-400',
+  over: 'bg-red-500',
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+function describeDay(day: CoolerDay, config: CoolerConfig): string {
+  const unit = config.unit === 'head' ? 'head' : 'rail ft'
+  const species = Object.entries(day.bySpecies).map(([animal, used]) => `${animal} ${used}`).join(', ')
+  return `${formatDay(day.date)}: ${day.used}/${config.capacity} ${unit} (${day.percent}%)${species ? ` - ${species}` : ''}`
+}
+
+/**
+ * Projected cooler load for the next six weeks, from orders waiting to be
+ * dropped off and carcasses already hanging
+ */
+export function CoolerUtilizationChart() {
+  const [loading, setLoading] = useState(true)
+  const [config, setConfig] = useState<CoolerConfig | null>(null)
+  const [days, setDays] = useState<CoolerDay[]>([])
+
+  useEffect(() => {
+    async function loadProjection() {
+      const projection = await getCoolerProjection(PROJECTION_DAYS)
+      setConfig(projection.config)
+      setDays(projection.days)
+      setLoading(false)
+    }
+    loadProjection()
+  }, [])
+
+  if (loading || !config) return null
+
+  const peak = days.reduce<CoolerDay | null>((max, day) => (!max || day.percent > max.percent ? day : max), null)
+  const overDays = days.filter(day => day.status === 'over').length
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Snowflake className="h-5 w-5" />
+          Cooler Utilization
+        </CardTitle>
+        <CardDescription>
+          {isCoolerConfigured(config) ? (
+            <>
+              Projected rail space for the next {PROJECTION_DAYS / 7} weeks
+              {peak && <> - peak {peak.percent}% on {formatDay(peak.date)}</>}
+              {overDays > 0 && <span className="text-red-600"> - over capacity on {overDays} day{overDays === 1 ? '' : 's'}</span>}
+            </>
+          ) : (
+            <>
+              Set your cooler capacity and hang times in{' '}
+              <Link href="/dashboard/settings" className="underline">Settings</Link> to see projected rail space.
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      {isCoolerConfigured(config) && (
+        <CardContent>
+          <div className="relative h-32 flex items-end gap-px border-b border-gray-200">
+            {/* Warning threshold */}
+            <div
+              className="absolute inset-x-0 border-t border-dashed border-amber-400"
+              style={{ bottom: `${Math.min(config.warnAtPercent, 100)}%` }}
+            />
+            {days.map(day => (
+              <div
+                key={day.date}
+                title={describeDay(day, config)}
+                className={`flex-1 rounded-t ${BAR_COLORS[day.status]}`}
+                style={{ height: `${Math.max(Math.min(day.percent, 100), day.used > 0 ? 2 : 0)}%` }}
+              />
+            ))}
+          </div>
+          <div className="flex mt-1 text-xs text-gray-500">
+            {days.map((day, index) => (
+              <div key={day.date} className="flex-1 whitespace-nowrap">
+                {index % 7 === 0 ? formatDay(day.date) : ''}
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-6 text-sm mt-4">
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 bg-green-400 rounded"></div>
+              <span>Room</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 bg-amber-400 rounded"></div>
+              <span>Nearly full</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-4 bg-red-500 rounded"></div>
+              <span>Over capacity</span>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,523 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Repeat, Plus, X, Pencil, Trash2, CalendarOff } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { describeSlotRule, type SlotRuleInput, type SlotRulePlan } from '@/lib/calendar-rules'
+import type { CoolerCheck } from '@/lib/cooler-capacity'
+import {
+  getSlotRules,
+  previewSlotRule,
+  saveSlotRule,
+  deleteSlotRule,
+  addSlotException,
+  removeSlotException,
+} from '@/lib/actions/calendar-rules'
+import type { AnimalType, CalendarSlotRule, CalendarSlotException } from '@/types/database'
+
+const ANIMALS: { value: AnimalType; label: string }[] = [
+  { value: 'beef', label: 'Beef' },
+  { value: 'pork', label: 'Pork' },
+  { value: 'lamb', label: 'Lamb' },
+  { value: 'goat', label: 'Goat' },
+]
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const SELECT_CLASS = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm'
+
+interface RuleForm {
+  animal_type: AnimalType
+  days_of_week: number[]
+  interval_weeks: number
+  starts_on: string
+  ends_on: string
+  capacity: number
+  kill_fee: string
+  notes: string
+}
+
+interface SlotRulesPanelProps {
+  onChange: () => void  // Slots on the calendar changed
+}
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+function formatSlotDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+function toRuleInput(form: RuleForm): SlotRuleInput {
+  return {
+    animal_type: form.animal_type,
+    days_of_week: form.days_of_week,
+    interval_weeks: form.interval_weeks,
+    starts_on: form.starts_on,
+    ends_on: form.ends_on || null,
+    capacity: form.capacity,
+    kill_fee: form.kill_fee ? parseFloat(form.kill_fee) : null,
+    notes: form.notes || null,
+  }
+}
+
+function emptyForm(): RuleForm {
+  return {
+    animal_type: 'beef',
+    days_of_week: [],
+    interval_weeks: 1,
+    starts_on: today(),
+    ends_on: '',
+    capacity: 1,
+    kill_fee: '',
+    notes: '',
+  }
+}
+
+function DateList({ label, dates, className }: { label: string; dates: string[]; className: string }) {
+  if (dates.length === 0) return null
+  return (
+    <div>
+      <div className="text-sm font-medium mb-1">{label} ({dates.length})</div>
+      <div className="flex flex-wrap gap-1">
+        {dates.map(date => (
+          <span key={date} className={`text-xs px-2 py-0.5 rounded ${className}`}>
+            {formatSlotDate(date)}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function PlanPreview({ plan }: { plan: SlotRulePlan }) {
+  const nothing = plan.create.length + plan.update.length + plan.remove.length === 0
+  return (
+    <div className="rounded-lg border bg-gray-50 p-3 space-y-3">
+      {nothing && <p className="text-sm text-gray-500">No changes to the calendar.</p>}
+      <DateList label="New slots" dates={plan.create.map(s => s.date)} className="bg-green-100 text-green-800" />
+      <DateList label="Updated slots" dates={plan.update.map(s => s.date)} className="bg-blue-100 text-blue-800" />
+      <DateList label="Removed empty slots" dates={plan.remove.map(s => s.date)} className="bg-red-100 text-red-800" />
+      <DateList
+        label="Booked slots left as they are"
+        dates={plan.keptBooked.map(s => s.date)}
+        className="bg-amber-100 text-amber-800"
+      />
+      <DateList
+        label="Already have a slot (not changed)"
+        dates={plan.conflicts.map(s => s.date)}
+        className="bg-gray-200 text-gray-700"
+      />
+      <DateList label="Closed" dates={plan.skipped.map(s => s.date)} className="bg-gray-200 text-gray-500 line-through" />
+    </div>
+  )
+}
+
+/**
+ * Recurring slot rules and closures for the processor calendar
+ */
+export function SlotRulesPanel({ onChange }: SlotRulesPanelProps) {
+  const [rules, setRules] = useState<CalendarSlotRule[]>([])
+  const [exceptions, setExceptions] = useState<CalendarSlotException[]>([])
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [showRuleModal, setShowRuleModal] = useState(false)
+  const [form, setForm] = useState<RuleForm>(emptyForm)
+  const [preview, setPreview] = useState<SlotRulePlan | null>(null)
+  const [cooler, setCooler] = useState<CoolerCheck | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [closure, setClosure] = useState({ date: '', reason: '', ruleId: '' })
+  const { toast } = useToast()
+
+  const loadRules = useCallback(async () => {
+    const data = await getSlotRules()
+    setRules(data.rules)
+    setExceptions(data.exceptions)
+  }, [])
+
+  useEffect(() => {
+    loadRules()
+  }, [loadRules])
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' })
+  }
+
+  const updateForm = (changes: Partial<RuleForm>) => {
+    setForm(current => ({ ...current, ...changes }))
+    setPreview(null)
+  }
+
+  const toggleDay = (day: number) => {
+    updateForm({
+      days_of_week: form.days_of_week.includes(day)
+        ? form.days_of_week.filter(d => d !== day)
+        : [...form.days_of_week, day],
+    })
+  }
+
+  const openRuleModal = (rule?: CalendarSlotRule) => {
+    setEditingRuleId(rule?.id || null)
+    setForm(rule ? {
+      animal_type: rule.animal_type,
+      days_of_week: rule.days_of_week,
+      interval_weeks: rule.interval_weeks,
+      starts_on: rule.starts_on,
+      ends_on: rule.ends_on || '',
+      capacity: rule.capacity,
+      kill_fee: rule.kill_fee?.toString() || '',
+      notes: rule.notes || '',
+    } : emptyForm())
+    setPreview(null)
+    setShowRuleModal(true)
+  }
+
+  const handlePreview = async () => {
+    setBusy(true)
+    const result = await previewSlotRule(toRuleInput(form), editingRuleId || undefined)
+    setBusy(false)
+
+    if (result.success && result.plan) {
+      setPreview(result.plan)
+      setCooler(result.cooler || null)
+    } else {
+      showError(result.error || 'Failed to preview rule')
+    }
+  }
+
+  const handleSave = async () => {
+    setBusy(true)
+    const result = await saveSlotRule(toRuleInput(form), editingRuleId || undefined)
+    setBusy(false)
+
+    if (result.success) {
+      const created = result.plan?.create.length || 0
+      toast({
+        title: editingRuleId ? 'Rule updated' : 'Rule created',
+        description: `${created} new slot${created === 1 ? '' : 's'} added to the calendar.`,
+      })
+      setShowRuleModal(false)
+      await loadRules()
+      onChange()
+    } else {
+      showError(result.error || 'Failed to save rule')
+    }
+  }
+
+  const handleDelete = async (rule: CalendarSlotRule) => {
+    if (!confirm('Delete this rule? Its empty upcoming slots are removed; booked slots stay on the calendar.')) return
+
+    setBusy(true)
+    const result = await deleteSlotRule(rule.id)
+    setBusy(false)
+
+    if (result.success) {
+      const kept = result.plan?.keptBooked.length || 0
+      toast({
+        title: 'Rule deleted',
+        description: kept > 0 ? `${kept} booked slot${kept === 1 ? '' : 's'} kept.` : undefined,
+      })
+      await loadRules()
+      onChange()
+    } else {
+      showError(result.error || 'Failed to delete rule')
+    }
+  }
+
+  const handleAddClosure = async () => {
+    if (!closure.date) return
+
+    setBusy(true)
+    const result = await addSlotException(closure.date, closure.ruleId || null, closure.reason || null)
+    setBusy(false)
+
+    if (result.success) {
+      setClosure({ date: '', reason: '', ruleId: '' })
+      await loadRules()
+      onChange()
+    } else {
+      showError(result.error || 'Failed to add closure')
+    }
+  }
+
+  const handleRemoveClosure = async (exception: CalendarSlotException) => {
+    setBusy(true)
+    const result = await removeSlotException(exception.id)
+    setBusy(false)
+
+    if (result.success) {
+      await loadRules()
+      onChange()
+    } else {
+      showError(result.error || 'Failed to remove closure')
+    }
+  }
+
+  const ruleLabel = (ruleId: string | null) => {
+    if (!ruleId) return 'All rules'
+    const rule = rules.find(r => r.id === ruleId)
+    return rule ? describeSlotRule(rule).split(' - ').slice(0, 2).join(' - ') : 'Rule'
+  }
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" />
+              Recurring Slots
+            </CardTitle>
+            <CardDescription>
+              Slots are added automatically for the next few months. Booked slots are never changed by a rule.
+            </CardDescription>
+          </div>
+          <Button size="sm" className="bg-amber-600 hover:bg-amber-700" onClick={() => openRuleModal()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No recurring slots yet. Add a rule like &quot;beef every Tuesday&quot; instead of entering each week by hand.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {rules.map(rule => (
+                <li key={rule.id} className="flex items-center justify-between gap-2 py-2">
+                  <div>
+                    <div className="text-sm font-medium">{describeSlotRule(rule)}</div>
+                    {rule.notes && <div className="text-xs text-gray-500">{rule.notes}</div>}
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => openRuleModal(rule)} disabled={busy}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-red-600" onClick={() => handleDelete(rule)} disabled={busy}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {rules.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <CalendarOff className="h-4 w-4" />
+                Holidays &amp; Closures
+              </div>
+              {exceptions.length > 0 && (
+                <ul className="text-sm space-y-1">
+                  {exceptions.map(exception => (
+                    <li key={exception.id} className="flex items-center justify-between gap-2">
+                      <span>
+                        <span className="font-medium">{formatSlotDate(exception.date)}</span>
+                        {exception.reason && <span className="text-gray-600"> - {exception.reason}</span>}
+                        <span className="text-xs text-gray-400 ml-2">{ruleLabel(exception.rule_id)}</span>
+                      </span>
+                      <button
+                        onClick={() => handleRemoveClosure(exception)}
+                        className="text-gray-400 hover:text-red-600"
+                        disabled={busy}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="grid gap-2 sm:grid-cols-[auto_1fr_1fr_auto]">
+                <Input
+                  type="date"
+                  min={today()}
+                  value={closure.date}
+                  onChange={e => setClosure({ ...closure, date: e.target.value })}
+                />
+                <Input
+                  placeholder="Reason (optional)"
+                  value={closure.reason}
+                  onChange={e => setClosure({ ...closure, reason: e.target.value })}
+                />
+                <select
+                  className={SELECT_CLASS}
+                  value={closure.ruleId}
+                  onChange={e => setClosure({ ...closure, ruleId: e.target.value })}
+                >
+                  <option value="">All rules</option>
+                  {rules.map(rule => (
+                    <option key={rule.id} value={rule.id}>{ruleLabel(rule.id)}</option>
+                  ))}
+                </select>
+                <Button variant="outline" onClick={handleAddClosure} disabled={busy || !closure.date}>
+                  Close Date
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rule Modal */}
+      {showRuleModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <Card className="w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Repeat className="h-5 w-5" />
+                {editingRuleId ? 'Edit Recurring Slots' : 'Add Recurring Slots'}
+              </CardTitle>
+              <button onClick={() => setShowRuleModal(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Animal Type</Label>
+                <div className="grid grid-cols-4 gap-2 mt-2">
+                  {ANIMALS.map(animal => (
+                    <button
+                      key={animal.value}
+                      onClick={() => updateForm({ animal_type: animal.value })}
+                      className={`p-2 rounded border-2 text-sm ${
+                        form.animal_type === animal.value
+                          ? 'border-amber-500 bg-amber-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      {animal.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label>Days</Label>
+                <div className="grid grid-cols-7 gap-1 mt-2">
+                  {DAYS.map((day, index) => (
+                    <button
+                      key={day}
+                      onClick={() => toggleDay(index)}
+                      className={`py-2 rounded border-2 text-xs ${
+                        form.days_of_week.includes(index)
+                          ? 'border-amber-500 bg-amber-50'
+                          : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                    >
+                      {day}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="interval_weeks">Repeat</Label>
+                  <select
+                    id="interval_weeks"
+                    className={SELECT_CLASS}
+                    value={form.interval_weeks}
+                    onChange={e => updateForm({ interval_weeks: parseInt(e.target.value) })}
+                  >
+                    <option value={1}>Every week</option>
+                    <option value={2}>Every 2 weeks</option>
+                    <option value={3}>Every 3 weeks</option>
+                    <option value={4}>Every 4 weeks</option>
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="starts_on">Starts</Label>
+                  <Input
+                    id="starts_on"
+                    type="date"
+                    value={form.starts_on}
+                    onChange={e => updateForm({ starts_on: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="ends_on">Until</Label>
+                  <Input
+                    id="ends_on"
+                    type="date"
+                    value={form.ends_on}
+                    onChange={e => updateForm({ ends_on: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="rule_capacity">Capacity</Label>
+                  <Input
+                    id="rule_capacity"
+                    type="number"
+                    min="1"
+                    value={form.capacity}
+                    onChange={e => updateForm({ capacity: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rule_kill_fee">Kill Fee ($)</Label>
+                  <Input
+                    id="rule_kill_fee"
+                    type="number"
+                    step="0.01"
+                    placeholder="Optional"
+                    value={form.kill_fee}
+                    onChange={e => updateForm({ kill_fee: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="rule_notes">Notes</Label>
+                <Textarea
+                  id="rule_notes"
+                  placeholder="Optional notes copied to each slot..."
+                  value={form.notes}
+                  onChange={e => updateForm({ notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+
+              {preview && <PlanPreview plan={preview} />}
+
+              {preview && cooler?.message && (
+                <p className={`text-sm rounded-lg p-3 ${
+                  cooler.status === 'over' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+                }`}>
+                  {cooler.message}{cooler.blocked ? '. Lower the capacity or pick other days to save this rule.' : '.'}
+                </p>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <Button variant="outline" className="flex-1" onClick={handlePreview} disabled={busy}>
+                  Preview
+                </Button>
+                <Button
+                  className="flex-1 bg-amber-600 hover:bg-amber-700"
+                  onClick={handleSave}
+                  disabled={busy || !preview || !!cooler?.blocked}
+                >
+                  {busy ? 'Saving...' : 'Save Rule'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </>
+  )
+}
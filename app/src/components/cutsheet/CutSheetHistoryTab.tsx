@@ -17,6 +17,7 @@ import {
   Scale,
   Package,
   MessageSquare,
+  ScanLine,
 } from 'lucide-react'
 import type { CutSheetHistoryEntry, CutSheetChangeCategory } from '@/types/database'
 import { getCutSheetHistory } from '@/lib/actions/cut-sheet-history'
@@ -45,6 +46,7 @@ const CATEGORY_ICONS: Record<CutSheetChangeCategory, React.ReactNode> = {
   package_created: <Package className="h-4 w-4 text-amber-600" />,
   notes_updated: <MessageSquare className="h-4 w-4 text-gray-600" />,
   general: <History className="h-4 w-4 text-gray-400" />,
+  scanned: <ScanLine className="h-4 w-4 text-teal-600" />,
 }
 
 const CATEGORY_LABELS: Record<CutSheetChangeCategory, string> = {
@@ -56,6 +58,7 @@ const CATEGORY_LABELS: Record<CutSheetChangeCategory, string> = {
   package_created: 'Package Created',
   notes_updated: 'Notes Updated',
   general: 'Updated',
+  scanned: 'Scanned',
 }
 
 const CATEGORY_COLORS: Record<CutSheetChangeCategory, string> = {
@@ -67,6 +70,7 @@ const CATEGORY_COLORS: Record<CutSheetChangeCategory, string> = {
   package_created: 'bg-amber-100 text-amber-700',
   notes_updated: 'bg-gray-100 text-gray-700',
   general: 'bg-gray-100 text-gray-700',
+  scanned: 'bg-teal-100 text-teal-700',
 }
 
 // ============================================
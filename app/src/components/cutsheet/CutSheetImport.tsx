@@ -0,0 +1,339 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Upload, AlertTriangle, AlertCircle, CheckCircle, ArrowLeft } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { getAllCuts, getPrimalForCut } from '@/lib/cut-sheet-schema'
+import { SAUSAGE_FLAVORS } from '@/lib/cut-sheet-data'
+import {
+  detectImportFormat,
+  parseCutSheetImport,
+  reviewImportedCutSheet,
+  resolveImportEntry,
+  setImportAnimal,
+  type ImportedCutSheet,
+  type ImportedCutEntry,
+} from '@/lib/cut-sheet-import'
+import { importCutSheetTemplates, importCutSheetIntoOrder } from '@/lib/actions/cut-sheet-import'
+import type { AnimalType } from '@/types/database'
+
+const ANIMAL_LABELS: Record<AnimalType, string> = {
+  beef: 'Beef',
+  pork: 'Pork',
+  lamb: 'Lamb',
+  goat: 'Goat',
+}
+
+const SKIP = '__skip'
+
+const SELECT_CLASS = 'h-9 w-full rounded-md border border-input bg-background px-3 text-sm'
+
+interface CutSheetImportProps {
+  orderId?: string  // Import one sheet into this order instead of as templates
+}
+
+function getCutOptions(animalType: AnimalType) {
+  return getAllCuts(animalType)
+    .map(cut => {
+      const section = getPrimalForCut(animalType, cut.id)
+      const primalName = section?.subSection?.displayName || section?.primal.displayName
+      return { id: cut.id, label: primalName ? `${primalName} - ${cut.name}` : cut.name }
+    })
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+function describeMatch(entry: ImportedCutEntry): string {
+  const match = entry.match
+  switch (match.kind) {
+    case 'organ':
+      return `Keep ${match.organ}`
+    case 'ground':
+      return `Ground (${match.groundType})`
+    case 'sausage':
+      return `${SAUSAGE_FLAVORS.find(f => f.id === match.flavor)?.name || match.flavor} sausage${entry.weightLbs ? `, ${entry.weightLbs} lbs` : ''}`
+    default:
+      return ''
+  }
+}
+
+function ImportedSheetReview({
+  sheet,
+  onChange,
+  editableName,
+}: {
+  sheet: ImportedCutSheet
+  onChange: (sheet: ImportedCutSheet) => void
+  editableName: boolean
+}) {
+  const review = useMemo(() => reviewImportedCutSheet(sheet), [sheet])
+  const cutOptions = useMemo(() => (sheet.animalType ? getCutOptions(sheet.animalType) : []), [sheet.animalType])
+  const flagged = new Set(review.issues.flatMap(issue => issue.entries))
+
+  const setSkip = (index: number, skip: boolean) => {
+    onChange({ ...sheet, entries: sheet.entries.map((e, i) => (i === index ? { ...e, skip } : e)) })
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>{editableName ? 'Template name' : 'Cut sheet'}</Label>
+          {editableName ? (
+            <Input value={sheet.name} onChange={(e) => onChange({ ...sheet, name: e.target.value })} />
+          ) : (
+            <p className="text-sm font-medium">{sheet.name}</p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label>Animal</Label>
+          <select
+            className={SELECT_CLASS}
+            value={sheet.animalType || ''}
+            onChange={(e) => onChange(setImportAnimal(sheet, e.target.value as AnimalType))}
+          >
+            {!sheet.animalType && <option value="">{sheet.animalSource ? `Unknown: ${sheet.animalSource}` : 'Select animal'}</option>}
+            {(Object.keys(ANIMAL_LABELS) as AnimalType[]).map(animal => (
+              <option key={animal} value={animal}>{ANIMAL_LABELS[animal]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {review.issues.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {review.issues.map((issue, i) => (
+            <li
+              key={i}
+              className={`flex items-start gap-2 ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+            >
+              {issue.severity === 'error'
+                ? <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                : <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle className="h-4 w-4" />
+          Every line matched a cut
+        </p>
+      )}
+
+      {sheet.animalType && (
+        <div className="divide-y text-sm">
+          {sheet.entries.map((entry, index) => {
+            const isCut = entry.match.kind === 'cut' || entry.match.kind === 'unmapped'
+            const details = [entry.thickness && `${entry.thickness}"`, entry.piecesPerPackage && `${entry.piecesPerPackage}/pkg`]
+              .filter(Boolean)
+              .join(', ')
+            return (
+              <div
+                key={index}
+                className={`grid gap-2 py-2 sm:grid-cols-2 sm:items-center ${flagged.has(index) && !entry.skip ? 'bg-amber-50' : ''} ${entry.skip ? 'opacity-50' : ''}`}
+              >
+                <div>
+                  <span className="font-medium">{entry.source}</span>
+                  {entry.line && <span className="text-xs text-gray-400 ml-2">line {entry.line}</span>}
+                  {details && <span className="text-xs text-gray-500 ml-2">{details}</span>}
+                </div>
+                {isCut ? (
+                  <select
+                    className={SELECT_CLASS}
+                    value={entry.skip ? SKIP : entry.match.kind === 'cut' ? entry.match.cutId : ''}
+                    onChange={(e) => onChange(resolveImportEntry(sheet, index, e.target.value === SKIP ? null : e.target.value))}
+                  >
+                    {entry.match.kind === 'unmapped' && !entry.skip && <option value="">Choose a cut...</option>}
+                    {cutOptions.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                    <option value={SKIP}>Skip this line</option>
+                  </select>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-gray-600">{describeMatch(entry)}</span>
+                    <Button variant="ghost" size="sm" onClick={() => setSkip(index, !entry.skip)}>
+                      {entry.skip ? 'Include' : 'Skip'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Import cut sheets from CSV or JSON, review how each line was matched,
+ * then save them as templates or as the cut sheet for one order
+ */
+export function CutSheetImport({ orderId }: CutSheetImportProps) {
+  const [text, setText] = useState('')
+  const [fileName, setFileName] = useState<string | undefined>()
+  const [sheets, setSheets] = useState<ImportedCutSheet[] | null>(null)
+  const [included, setIncluded] = useState<boolean[]>([])
+  const [fileErrors, setFileErrors] = useState<string[]>([])
+  const [importing, setImporting] = useState(false)
+  const { toast } = useToast()
+  const router = useRouter()
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setFileName(file.name)
+    setText(await file.text())
+  }
+
+  const handleReview = () => {
+    const result = parseCutSheetImport(text, detectImportFormat(text, fileName))
+    setFileErrors(result.errors)
+    setSheets(result.sheets.length > 0 ? result.sheets : null)
+    // An order takes a single cut sheet; start with the first one
+    setIncluded(result.sheets.map((_, i) => !orderId || i === 0))
+  }
+
+  const updateSheet = (index: number, sheet: ImportedCutSheet) => {
+    setSheets(current => current && current.map((s, i) => (i === index ? sheet : s)))
+  }
+
+  const toggleSheet = (index: number) => {
+    setIncluded(current => current.map((value, i) => (orderId ? i === index : i === index ? !value : value)))
+  }
+
+  const selected = (sheets || []).filter((_, i) => included[i])
+  const ready = selected.length > 0 && selected.every(sheet => reviewImportedCutSheet(sheet).canImport)
+
+  const handleImport = async () => {
+    setImporting(true)
+
+    if (orderId) {
+      const result = await importCutSheetIntoOrder(orderId, selected[0])
+      setImporting(false)
+      if (result.success) {
+        toast({ title: 'Cut sheet imported', description: 'Review it and submit when ready.' })
+        router.push(`/dashboard/orders/${orderId}/cut-sheet`)
+      } else {
+        toast({ title: 'Error', description: result.error || 'Failed to import cut sheet', variant: 'destructive' })
+      }
+      return
+    }
+
+    const result = await importCutSheetTemplates(selected)
+    setImporting(false)
+    const failed = result.failed || []
+
+    if (result.success) {
+      toast({
+        title: `Imported ${result.templateIds?.length} template${result.templateIds?.length === 1 ? '' : 's'}`,
+        description: failed.length > 0 ? `${failed.length} could not be imported: ${failed.map(f => f.name).join(', ')}` : undefined,
+      })
+      setSheets(null)
+      setText('')
+      setFileName(undefined)
+    } else {
+      toast({
+        title: 'Error',
+        description: failed[0]?.error || result.error || 'Failed to import cut sheets',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  if (!sheets) {
+    return (
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="cutSheetFile">CSV or JSON file</Label>
+          <Input
+            id="cutSheetFile"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cutSheetText">Or paste it here</Label>
+          <Textarea
+            id="cutSheetText"
+            rows={6}
+            className="font-mono text-xs"
+            placeholder={'Customer,Animal,Cut,Thickness,Per Package\nSmith,Beef,Ribeye,1,2'}
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value)
+              setFileName(undefined)
+            }}
+          />
+        </div>
+        {fileErrors.map(error => (
+          <p key={error} className="text-sm text-red-600">{error}</p>
+        ))}
+        <Button onClick={handleReview} disabled={!text.trim()} variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Review Import
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        {orderId
+          ? 'Choose the cut sheet for this order and fix any lines that need attention.'
+          : 'Each cut sheet becomes a template. Fix or skip any lines that need attention.'}
+      </p>
+
+      {fileErrors.map(error => (
+        <p key={error} className="text-sm text-red-600">{error}</p>
+      ))}
+
+      {sheets.map((sheet, index) => (
+        <div key={index} className="space-y-2">
+          {sheets.length > 1 && (
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type={orderId ? 'radio' : 'checkbox'}
+                checked={included[index]}
+                onChange={() => toggleSheet(index)}
+              />
+              {sheet.name} ({sheet.entries.length} lines)
+            </label>
+          )}
+          {included[index] && (
+            <ImportedSheetReview
+              sheet={sheet}
+              onChange={(updated) => updateSheet(index, updated)}
+              editableName={!orderId}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={() => setSheets(null)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+        <Button
+          className="bg-green-700 hover:bg-green-800"
+          onClick={handleImport}
+          disabled={!ready || importing}
+        >
+          {importing
+            ? 'Importing...'
+            : orderId
+              ? 'Import Cut Sheet'
+              : `Import ${selected.length} Template${selected.length === 1 ? '' : 's'}`}
+        </Button>
+      </div>
+    </div>
+  )
+}
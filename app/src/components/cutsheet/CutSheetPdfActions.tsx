@@ -0,0 +1,50 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { FileDown, Mail } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { emailCutSheetPdf } from '@/lib/actions/cut-sheet-pdf'
+
+interface CutSheetPdfActionsProps {
+  orderId: string
+}
+
+/**
+ * Download the paper cut sheet, or email it to yourself to print elsewhere
+ */
+export function CutSheetPdfActions({ orderId }: CutSheetPdfActionsProps) {
+  const [sending, setSending] = useState(false)
+  const { toast } = useToast()
+
+  const handleEmail = async () => {
+    setSending(true)
+    const result = await emailCutSheetPdf(orderId)
+    setSending(false)
+
+    if (result.success) {
+      toast({ title: 'Cut sheet emailed to you' })
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to email cut sheet',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" asChild>
+        <a href={`/api/cut-sheet-pdf?orderId=${orderId}&download=1`}>
+          <FileDown className="h-4 w-4 mr-1" />
+          PDF
+        </a>
+      </Button>
+      <Button variant="outline" size="sm" onClick={handleEmail} disabled={sending}>
+        <Mail className="h-4 w-4 mr-1" />
+        {sending ? 'Sending...' : 'Email PDF'}
+      </Button>
+    </div>
+  )
+}
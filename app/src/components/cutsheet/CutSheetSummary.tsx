@@ -12,6 +12,7 @@ import {
 import { Save, FolderOpen, ChevronDown, Beef, PiggyBank, Rabbit } from 'lucide-react'
 import { GoatIcon } from '@/components/icons/AnimalIcons'
 import type { AnimalType } from '@/types/database'
+import { formatCutYield, type YieldProjection } from '@/lib/cut-sheet-yield'
 
 // Animal icons
 const ANIMAL_ICONS: Record<AnimalType, { icon: React.ReactNode; label: string }> = {
@@ -38,6 +39,7 @@ interface CutSheetSummaryProps {
   animalType: AnimalType
   hangingWeight: number | null
   stats: SummaryStats
+  yieldProjection?: YieldProjection | null
   hasConflicts: boolean
   saving: boolean
   loadingTemplate: boolean
@@ -53,6 +55,7 @@ export function CutSheetSummary({
   animalType,
   hangingWeight,
   stats,
+  yieldProjection,
   hasConflicts,
   saving,
   loadingTemplate,
@@ -116,6 +119,44 @@ export function CutSheetSummary({
             )}
           </div>
 
+          {/* Estimated Yield */}
+          {yieldProjection && (
+            <div className="border-t pt-4 space-y-2">
+              <Label className="text-sm text-gray-500">Estimated Yield</Label>
+              <ul className="space-y-1 text-sm">
+                {yieldProjection.cuts.map(cut => (
+                  <li key={cut.cutId} className="flex justify-between gap-2">
+                    <span>{formatCutYield(cut)}</span>
+                    <span className="text-gray-500 shrink-0">~{cut.pounds} lbs</span>
+                  </li>
+                ))}
+                {yieldProjection.sausages.map(sausage => (
+                  <li key={sausage.flavor} className="flex justify-between gap-2">
+                    <span className="capitalize">~{sausage.packages} packages of {sausage.flavor.replace(/_/g, ' ')} sausage</span>
+                    <span className="text-gray-500 shrink-0">~{sausage.pounds} lbs</span>
+                  </li>
+                ))}
+                {yieldProjection.ground.pounds > 0 && (
+                  <li className="flex justify-between gap-2">
+                    <span>
+                      {yieldProjection.ground.patties
+                        ? `~${yieldProjection.ground.patties.count} ${yieldProjection.ground.patties.size} lb patties`
+                        : `~${yieldProjection.ground.packages} packages of ground (${yieldProjection.ground.packageSize} lb)`}
+                    </span>
+                    <span className="text-gray-500 shrink-0">~{yieldProjection.ground.pounds} lbs</span>
+                  </li>
+                )}
+              </ul>
+              <div className="flex justify-between text-sm font-medium">
+                <span>Total Packages</span>
+                <span>~{yieldProjection.totalPackages}</span>
+              </div>
+              <p className="text-xs text-gray-400">
+                Estimates only - actual yield varies by animal.
+              </p>
+            </div>
+          )}
+
           {/* Conflict Warning */}
           {hasConflicts && (
             <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
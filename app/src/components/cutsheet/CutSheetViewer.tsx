@@ -20,7 +20,7 @@ import {
 } from 'lucide-react'
 import { GoatIcon } from '@/components/icons/AnimalIcons'
 import type { AnimalType } from '@/types/database'
-import { CUT_SHEET_SCHEMA } from '@/lib/cut-sheet-schema'
+import { groupCutsByPrimal, getCutDisplayName } from '@/lib/cut-sheet-schema'
 
 // Types for cut sheet data
 interface CutSheetItem {
@@ -85,61 +85,6 @@ const ANIMAL_LABELS: Record<AnimalType, string> = {
   goat: 'Goat',
 }
 
-// Group cuts by primal based on schema
-function groupCutsByPrimal(items: CutSheetItem[], animalType: AnimalType) {
-  const schema = CUT_SHEET_SCHEMA.animals[animalType]
-  const grouped: Record<string, { primalName: string; cuts: CutSheetItem[] }> = {}
-  const cutToPrimal: Record<string, string> = {}
-
-  // Build lookup of cut ID to primal
-  for (const [primalId, primal] of Object.entries(schema.primals)) {
-    for (const cut of primal.choices) {
-      cutToPrimal[cut.id] = primalId
-    }
-    if (primal.subSections) {
-      for (const sub of Object.values(primal.subSections)) {
-        for (const cut of sub.choices) {
-          cutToPrimal[cut.id] = primalId
-        }
-      }
-    }
-  }
-
-  // Group items
-  for (const item of items) {
-    const primalId = cutToPrimal[item.cut_id] || 'other'
-    const primalName = schema.primals[primalId]?.displayName || 'Other Cuts'
-
-    if (!grouped[primalId]) {
-      grouped[primalId] = { primalName, cuts: [] }
-    }
-    grouped[primalId].cuts.push(item)
-  }
-
-  return grouped
-}
-
-// Get cut display name from schema
-function getCutDisplayName(cutId: string, animalType: AnimalType): string {
-  const schema = CUT_SHEET_SCHEMA.animals[animalType]
-
-  for (const primal of Object.values(schema.primals)) {
-    for (const cut of primal.choices) {
-      if (cut.id === cutId) return cut.name
-    }
-    if (primal.subSections) {
-      for (const sub of Object.values(primal.subSections)) {
-        for (const cut of sub.choices) {
-          if (cut.id === cutId) return cut.name
-        }
-      }
-    }
-  }
-
-  // Fallback: convert cut_id to readable name
-  return cutId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-}
-
 export function CutSheetViewer({ cutSheet, orderInfo }: CutSheetViewerProps) {
   const printRef = useRef<HTMLDivElement>(null)
 
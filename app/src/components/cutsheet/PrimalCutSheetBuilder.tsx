@@ -62,7 +62,8 @@ import {
   type CutSelection,
   type ValidationWarning,
 } from '@/lib/cut-sheet-validation'
-import { estimateTakeHomeWeight } from '@/lib/cut-sheet-data'
+import { projectCutSheetYield } from '@/lib/cut-sheet-yield'
+import { getYieldProfileForProcessor } from '@/lib/yield-calibration'
 import { CutSheetSummary } from './CutSheetSummary'
 import { SausageSection, type SausageSelection } from './SausageSection'
 import { OrgansSection, type OrganSelections } from './OrgansSection'
@@ -773,15 +774,22 @@ export function PrimalCutSheetBuilder({
 
   const hasErrors = !validationResult.isValid || splitAllocationErrors.length > 0
 
+  // Projected pounds and packages per cut (needs a hanging weight),
+  // using the processor's learned yields when they have enough history
+  const yieldProjection = useMemo(
+    () => projectCutSheetYield(state, getYieldProfileForProcessor(state.animalType, processorConfig ?? null)),
+    [state, processorConfig]
+  )
+
   // Stats for summary
   const stats = useMemo(() => {
     const cutCount = state.selectedCuts.length
     const organCount = Object.values(state.organs).filter(Boolean).length
     const sausageCount = state.sausages.length
-    const estimatedTakeHome = state.hangingWeight ? estimateTakeHomeWeight(state.hangingWeight) : null
+    const estimatedTakeHome = yieldProjection?.takeHomePounds ?? null
 
     return { cutCount, organCount, sausageCount, estimatedTakeHome }
-  }, [state.selectedCuts, state.organs, state.sausages, state.hangingWeight])
+  }, [state.selectedCuts, state.organs, state.sausages, yieldProjection])
 
   // Toggle cut selection
   const toggleCut = useCallback((cut: CutChoice) => {
@@ -1208,6 +1216,7 @@ export function PrimalCutSheetBuilder({
         animalType={state.animalType}
         hangingWeight={state.hangingWeight}
         stats={stats}
+        yieldProjection={yieldProjection}
         hasConflicts={hasErrors}
         saving={saving}
         loadingTemplate={loadingTemplate}
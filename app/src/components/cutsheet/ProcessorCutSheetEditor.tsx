@@ -34,20 +34,28 @@ import {
   Undo,
   AlertCircle,
   Check,
+  CloudOff,
+  RefreshCw,
 } from 'lucide-react'
 import { GoatIcon } from '@/components/icons/AnimalIcons'
+import { ScaleWeightInput } from '@/components/scale/ScaleWeightInput'
 import type { AnimalType } from '@/types/database'
-import { CUT_SHEET_SCHEMA } from '@/lib/cut-sheet-schema'
+import { groupCutsByPrimal, getCutDisplayName } from '@/lib/cut-sheet-schema'
 import {
   updateCutParameters,
   removeCut,
   restoreCut,
   updateProcessorNotes,
   updateHangingWeight,
-  createProducedPackage,
-  updatePackageWeight,
   deletePackage,
 } from '@/lib/actions/processor-cut-sheet'
+import { usePackageQueue } from '@/lib/offline/usePackageQueue'
+import {
+  applyQueuedEntries,
+  TEMP_PACKAGE_PREFIX,
+  type QueuedPackageData,
+  type QueueEntryStatus,
+} from '@/lib/offline/package-queue'
 
 // ============================================
 // Local Type Definitions
@@ -71,6 +79,7 @@ interface ProducedPackage {
   cut_name: string
   package_number: number
   actual_weight_lbs: number | null
+  sync_status?: QueueEntryStatus   // Set while the package or its weight is queued offline
 }
 
 interface ProcessorCutModification {
@@ -157,60 +166,6 @@ const ANIMAL_LABELS: Record<AnimalType, string> = {
   goat: 'Goat',
 }
 
-// ============================================
-// Helper Functions
-// ============================================
-
-function groupCutsByPrimal(items: CutSheetItem[], animalType: AnimalType) {
-  const schema = CUT_SHEET_SCHEMA.animals[animalType]
-  const grouped: Record<string, { primalName: string; primalId: string; cuts: CutSheetItem[] }> = {}
-  const cutToPrimal: Record<string, string> = {}
-
-  for (const [primalId, primal] of Object.entries(schema.primals)) {
-    for (const cut of primal.choices) {
-      cutToPrimal[cut.id] = primalId
-    }
-    if (primal.subSections) {
-      for (const sub of Object.values(primal.subSections)) {
-        for (const cut of sub.choices) {
-          cutToPrimal[cut.id] = primalId
-        }
-      }
-    }
-  }
-
-  for (const item of items) {
-    const primalId = cutToPrimal[item.cut_id] || 'other'
-    const primalName = schema.primals[primalId]?.displayName || 'Other Cuts'
-
-    if (!grouped[primalId]) {
-      grouped[primalId] = { primalName, primalId, cuts: [] }
-    }
-    grouped[primalId].cuts.push(item)
-  }
-
-  return grouped
-}
-
-function getCutDisplayName(cutId: string, animalType: AnimalType): string {
-  const schema = CUT_SHEET_SCHEMA.animals[animalType]
-
-  for (const primal of Object.values(schema.primals)) {
-    for (const cut of primal.choices) {
-      if (cut.id === cutId) return cut.name
-    }
-    if (primal.subSections) {
-      for (const sub of Object.values(primal.subSections)) {
-        for (const cut of sub.choices) {
-          if (cut.id === cutId) return cut.name
-        }
-      }
-    }
-  }
-
-  return cutId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
-}
-
 // ============================================
 // Sub-Components
 // ============================================
@@ -373,16 +328,14 @@ function RemoveCutDialog({ cutName, onRemove }: RemoveCutDialogProps) {
 interface AddPackageDialogProps {
   cutId: string
   cutName: string
-  cutSheetId: string
   trackingId?: string | null
   existingCount: number
-  onAdd: () => void
+  onAdd: (packageData: QueuedPackageData) => Promise<void>
 }
 
 function AddPackageDialog({
   cutId,
   cutName,
-  cutSheetId,
   trackingId,
   existingCount,
   onAdd,
@@ -395,7 +348,8 @@ function AddPackageDialog({
 
   const handleAdd = async () => {
     setAdding(true)
-    const result = await createProducedPackage(cutSheetId, {
+    // Saved to the offline queue first, so this succeeds without a connection
+    await onAdd({
       cut_id: cutId,
       cut_name: cutName,
       package_number: existingCount + 1,
@@ -405,13 +359,10 @@ function AddPackageDialog({
       livestock_tracking_id: trackingId || undefined,
     })
     setAdding(false)
-    if (result.success) {
-      setOpen(false)
-      setWeight('')
-      setQuantity('1')
-      setNotes('')
-      onAdd()
-    }
+    setOpen(false)
+    setWeight('')
+    setQuantity('1')
+    setNotes('')
   }
 
   return (
@@ -440,6 +391,7 @@ function AddPackageDialog({
               onChange={(e) => setWeight(e.target.value)}
               placeholder="e.g., 2.5"
             />
+            <ScaleWeightInput onWeight={(lbs) => setWeight(lbs.toFixed(2))} />
           </div>
           <div className="space-y-2">
             <Label htmlFor="pkg-qty">Pieces in Package</Label>
@@ -479,6 +431,42 @@ function AddPackageDialog({
   )
 }
 
+interface PackageWeightInputProps {
+  weight: number | null
+  onCommit: (weight: number) => void
+}
+
+// Holds the typed value locally so partial entries like "1." survive until blur or Enter
+function PackageWeightInput({ weight, onCommit }: PackageWeightInputProps) {
+  const [value, setValue] = useState(weight?.toString() || '')
+
+  const commit = () => {
+    const parsed = parseFloat(value)
+    if (parsed > 0 && parsed !== weight) onCommit(parsed)
+  }
+
+  return (
+    <Input
+      type="number"
+      step="0.01"
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit()
+      }}
+      placeholder="Weight"
+      className="w-20 h-7 text-sm"
+    />
+  )
+}
+
+const SYNC_STATUS_LABELS: Record<QueueEntryStatus, { label: string; className: string }> = {
+  pending: { label: 'Not synced', className: 'bg-amber-100 text-amber-700' },
+  conflict: { label: 'Conflict', className: 'bg-red-100 text-red-700' },
+  failed: { label: 'Sync failed', className: 'bg-red-100 text-red-700' },
+}
+
 // ============================================
 // Main Component
 // ============================================
@@ -494,6 +482,7 @@ export function ProcessorCutSheetEditor({
   )
   const [savingNotes, setSavingNotes] = useState(false)
   const [savingWeight, setSavingWeight] = useState(false)
+  const packageQueue = usePackageQueue({ onSynced: onUpdate })
 
   const groupedCuts = useMemo(
     () => groupCutsByPrimal(cutSheet.cut_sheet_items, cutSheet.animal_type),
@@ -507,12 +496,13 @@ export function ProcessorCutSheetEditor({
 
   const packagesByCut = useMemo(() => {
     const map: Record<string, ProducedPackage[]> = {}
-    for (const pkg of cutSheet.produced_packages || []) {
+    const packages = applyQueuedEntries(cutSheet.produced_packages || [], packageQueue.entries, cutSheet.id)
+    for (const pkg of packages) {
       if (!map[pkg.cut_id]) map[pkg.cut_id] = []
       map[pkg.cut_id].push(pkg)
     }
     return map
-  }, [cutSheet.produced_packages])
+  }, [cutSheet.produced_packages, cutSheet.id, packageQueue.entries])
 
   const handleSaveNotes = useCallback(async () => {
     setSavingNotes(true)
@@ -553,22 +543,37 @@ export function ProcessorCutSheetEditor({
     [cutSheet.id, onUpdate]
   )
 
+  const { queueCreate, queueWeight, discard: discardQueued } = packageQueue
+
+  const handleAddPackage = useCallback(
+    (packageData: QueuedPackageData) => queueCreate(cutSheet.id, packageData),
+    [cutSheet.id, queueCreate]
+  )
+
   const handleUpdatePackageWeight = useCallback(
-    async (packageId: string, weight: number) => {
-      await updatePackageWeight(packageId, weight)
-      onUpdate?.()
-    },
-    [onUpdate]
+    (packageId: string, weight: number) => queueWeight(packageId, weight),
+    [queueWeight]
   )
 
   const handleDeletePackage = useCallback(
     async (packageId: string) => {
+      // Packages that never reached the server are just dropped from the queue
+      if (packageId.startsWith(TEMP_PACKAGE_PREFIX)) {
+        const queued = packageQueue.entries.find(
+          e => e.kind === 'create_package' && e.tempPackageId === packageId
+        )
+        if (queued) await discardQueued(queued.id)
+        return
+      }
       await deletePackage(packageId)
       onUpdate?.()
     },
-    [onUpdate]
+    [packageQueue.entries, discardQueued, onUpdate]
   )
 
+  const unsyncedEntries = packageQueue.entries.filter(e => e.status === 'pending')
+  const problemEntries = packageQueue.entries.filter(e => e.status !== 'pending')
+
   const organs = useMemo(() => {
     const kept: string[] = []
     if (cutSheet.keep_liver) kept.push('Liver')
@@ -612,6 +617,56 @@ export function ProcessorCutSheetEditor({
         </CardHeader>
       </Card>
 
+      {/* Offline Sync Status */}
+      {(!packageQueue.online || packageQueue.entries.length > 0) && (
+        <Card className={problemEntries.length > 0 ? 'border-red-200' : 'border-amber-200'}>
+          <CardContent className="py-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 text-sm">
+                {packageQueue.online ? (
+                  <RefreshCw className={`h-4 w-4 text-amber-600 ${packageQueue.syncing ? 'animate-spin' : ''}`} />
+                ) : (
+                  <CloudOff className="h-4 w-4 text-amber-600" />
+                )}
+                <span>
+                  {packageQueue.online ? 'Online' : 'Offline'}
+                  {unsyncedEntries.length > 0 &&
+                    ` • ${unsyncedEntries.length} package ${unsyncedEntries.length === 1 ? 'entry' : 'entries'} saved on this device`}
+                </span>
+              </div>
+              {packageQueue.online && unsyncedEntries.length > 0 && (
+                <Button size="sm" variant="outline" onClick={packageQueue.sync} disabled={packageQueue.syncing}>
+                  Sync Now
+                </Button>
+              )}
+            </div>
+            {problemEntries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-3 bg-red-50 rounded p-2 text-sm">
+                <div className="flex items-center gap-2 text-red-700">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>
+                    {entry.kind === 'create_package'
+                      ? `New ${entry.packageData.cut_name} package`
+                      : `Weight ${entry.weight} lbs`}
+                    : {entry.error}
+                  </span>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  {entry.status === 'failed' && (
+                    <Button size="sm" variant="outline" className="h-7" onClick={() => packageQueue.retry(entry.id)}>
+                      Retry
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => packageQueue.discard(entry.id)}>
+                    Discard
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Hanging Weight */}
       <Card>
         <CardHeader className="py-3">
@@ -757,10 +812,9 @@ export function ProcessorCutSheetEditor({
                               <AddPackageDialog
                                 cutId={item.cut_id}
                                 cutName={cutName}
-                                cutSheetId={cutSheet.id}
                                 trackingId={orderInfo.livestock_tracking_id}
                                 existingCount={packages.length}
-                                onAdd={() => onUpdate?.()}
+                                onAdd={handleAddPackage}
                               />
                             </div>
                             {packages.length > 0 && (
@@ -772,18 +826,16 @@ export function ProcessorCutSheetEditor({
                                   >
                                     <Package className="h-4 w-4 text-gray-400" />
                                     <span className="font-medium">#{pkg.package_number}</span>
-                                    <Input
-                                      type="number"
-                                      step="0.01"
-                                      value={pkg.actual_weight_lbs || ''}
-                                      onChange={(e) => {
-                                        const val = e.target.value
-                                        if (val) handleUpdatePackageWeight(pkg.id, parseFloat(val))
-                                      }}
-                                      placeholder="Weight"
-                                      className="w-20 h-7 text-sm"
+                                    <PackageWeightInput
+                                      weight={pkg.actual_weight_lbs}
+                                      onCommit={(weight) => handleUpdatePackageWeight(pkg.id, weight)}
                                     />
                                     <span className="text-gray-500">lbs</span>
+                                    {pkg.sync_status && (
+                                      <span className={`text-xs px-2 py-0.5 rounded ${SYNC_STATUS_LABELS[pkg.sync_status].className}`}>
+                                        {SYNC_STATUS_LABELS[pkg.sync_status].label}
+                                      </span>
+                                    )}
                                     <Button
                                       variant="ghost"
                                       size="sm"
@@ -15,6 +15,8 @@ import {
   Menu,
   Search,
   Clock,
+  ScanLine,
+  Scissors,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
@@ -57,6 +59,8 @@ export function DashboardNav({ user, organization, initialNotifications = [], in
         { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
         { name: 'Calendar', href: '/dashboard/calendar', icon: Calendar },
         { name: 'Orders', href: '/dashboard/orders', icon: ClipboardList },
+        { name: 'Cut Room', href: '/dashboard/floor', icon: Scissors },
+        { name: 'Scan', href: '/dashboard/scan', icon: ScanLine },
         { name: 'Waitlist', href: '/dashboard/waitlist', icon: Clock },
         { name: 'Messages', href: '/dashboard/messages', icon: MessageSquare },
       ]
@@ -0,0 +1,295 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, ChevronLeft, ChevronRight, Check, Undo } from 'lucide-react'
+import { createProducedPackage, deletePackage } from '@/lib/actions/processor-cut-sheet'
+import {
+  buildFloorSteps,
+  getFloorTally,
+  parseKeypadWeight,
+  type FloorCut,
+  type FloorCutSheet,
+} from '@/lib/floor-mode'
+import { NumericKeypad } from './NumericKeypad'
+
+export interface FloorPackageRow {
+  id: string
+  cut_id: string
+  cut_name: string
+  package_number: number
+  actual_weight_lbs: number | null
+}
+
+interface FloorOrderInfo {
+  id: string
+  order_number: number
+  producer_name: string
+  livestock_tag: string | null
+  livestock_tracking_id: string | null
+}
+
+interface FloorCutWalkthroughProps {
+  cutSheetId: string
+  cutSheet: Omit<FloorCutSheet, 'produced_packages'>
+  initialPackages: FloorPackageRow[]
+  orderInfo: FloorOrderInfo
+}
+
+// Bare numbers are inches; named thicknesses ("thick") pass through
+function formatThickness(thickness: string): string {
+  return /^[\d.]+$/.test(thickness) ? `${thickness}"` : thickness
+}
+
+function formatTally(logged: number, requested: number | null): string {
+  return requested === null ? `${logged}` : `${logged} / ${requested}`
+}
+
+export function FloorCutWalkthrough({
+  cutSheetId,
+  cutSheet,
+  initialPackages,
+  orderInfo,
+}: FloorCutWalkthroughProps) {
+  const [packages, setPackages] = useState(initialPackages)
+  const [stepIndex, setStepIndex] = useState(0)
+  const [selectedCutId, setSelectedCutId] = useState<string | null>(null)
+  const [weight, setWeight] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lastLogged, setLastLogged] = useState<FloorPackageRow | null>(null)
+
+  const steps = useMemo(
+    () => buildFloorSteps({ ...cutSheet, produced_packages: packages }),
+    [cutSheet, packages]
+  )
+  const overall = useMemo(() => getFloorTally(steps.flatMap(s => s.cuts)), [steps])
+
+  const step = steps[Math.min(stepIndex, steps.length - 1)]
+  const selectedCut = step?.cuts.find(c => c.cutId === selectedCutId) || null
+  const parsedWeight = parseKeypadWeight(weight)
+
+  const goToStep = (index: number) => {
+    setStepIndex(index)
+    setSelectedCutId(null)
+    setError(null)
+  }
+
+  const handleLogPackage = async (cut: FloorCut) => {
+    if (!parsedWeight) return
+    setSaving(true)
+    setError(null)
+
+    const result = await createProducedPackage(cutSheetId, {
+      cut_id: cut.cutId,
+      cut_name: cut.cutName,
+      primal_id: cut.primalId === 'other' ? undefined : cut.primalId,
+      actual_weight_lbs: parsedWeight,
+      thickness: cut.thickness || undefined,
+      quantity_in_package: cut.piecesPerPackage || undefined,
+      livestock_tracking_id: orderInfo.livestock_tracking_id || undefined,
+    })
+
+    if (result.success && result.packageId) {
+      const logged: FloorPackageRow = {
+        id: result.packageId,
+        cut_id: cut.cutId,
+        cut_name: cut.cutName,
+        package_number: cut.loggedPackages + 1,
+        actual_weight_lbs: parsedWeight,
+      }
+      setPackages(prev => [...prev, logged])
+      setLastLogged(logged)
+      setWeight('')
+    } else {
+      setError(result.error || 'Could not log package')
+    }
+    setSaving(false)
+  }
+
+  const handleUndo = async () => {
+    if (!lastLogged) return
+    setSaving(true)
+    const result = await deletePackage(lastLogged.id)
+    if (result.success) {
+      setPackages(prev => prev.filter(p => p.id !== lastLogged.id))
+      setLastLogged(null)
+    } else {
+      setError(result.error || 'Could not undo package')
+    }
+    setSaving(false)
+  }
+
+  if (!step) {
+    return (
+      <div className="text-center py-16 text-xl text-gray-500">
+        This cut sheet has no cuts to work through.{' '}
+        <Link href="/dashboard/floor" className="text-green-700 underline">Back to cut room</Link>
+      </div>
+    )
+  }
+
+  const stepTally = getFloorTally(step.cuts)
+
+  return (
+    <div className="space-y-4 select-none">
+      {/* Order header and overall tally */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/dashboard/floor"
+          className="h-16 w-16 flex items-center justify-center rounded-xl border-2 bg-white active:bg-gray-100"
+          aria-label="Back to cut room"
+        >
+          <ArrowLeft className="h-8 w-8" />
+        </Link>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-3xl font-bold truncate">Order #{orderInfo.order_number}</h1>
+          <p className="text-lg text-gray-500 truncate">
+            {orderInfo.producer_name}
+            {orderInfo.livestock_tag && ` - Tag #${orderInfo.livestock_tag}`}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-bold tabular-nums">
+            {formatTally(overall.loggedPackages, overall.requestedPackages)}
+          </div>
+          <div className="text-base text-gray-500">packages - {overall.loggedPounds} lbs</div>
+        </div>
+      </div>
+
+      {/* Primal steps */}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {steps.map((s, index) => {
+          const tally = getFloorTally(s.cuts)
+          const done = tally.remainingPackages === 0
+          return (
+            <button
+              key={s.primalId}
+              type="button"
+              onClick={() => goToStep(index)}
+              className={`flex-shrink-0 h-14 px-5 rounded-xl border-2 text-lg font-medium flex items-center gap-2 touch-manipulation ${
+                index === stepIndex
+                  ? 'border-green-700 bg-green-700 text-white'
+                  : done
+                    ? 'border-green-200 bg-green-50 text-green-800'
+                    : 'bg-white'
+              }`}
+            >
+              {done && <Check className="h-5 w-5" />}
+              {s.primalName}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_380px]">
+        {/* Cuts in this primal */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-semibold">{step.primalName}</h2>
+            <span className="text-lg text-gray-500 tabular-nums">
+              {formatTally(stepTally.loggedPackages, stepTally.requestedPackages)} packages
+            </span>
+          </div>
+
+          {step.cuts.map(cut => {
+            const selected = cut.cutId === selectedCutId
+            const complete = cut.requestedPackages !== null && cut.loggedPackages >= cut.requestedPackages
+            return (
+              <button
+                key={cut.cutId}
+                type="button"
+                onClick={() => setSelectedCutId(selected ? null : cut.cutId)}
+                className={`w-full text-left p-5 rounded-xl border-2 touch-manipulation transition-colors ${
+                  selected
+                    ? 'border-green-700 bg-green-50'
+                    : complete
+                      ? 'border-green-200 bg-white'
+                      : 'bg-white active:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-2xl font-semibold truncate">{cut.cutName}</div>
+                    <div className="text-lg text-gray-500">
+                      {[
+                        cut.thickness && `${formatThickness(cut.thickness)} thick`,
+                        cut.piecesPerPackage && `${cut.piecesPerPackage} per pack`,
+                      ].filter(Boolean).join(' - ') || 'Standard'}
+                    </div>
+                    {cut.notes && <div className="text-base text-amber-700 mt-1">{cut.notes}</div>}
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <div className={`text-3xl font-bold tabular-nums ${complete ? 'text-green-700' : ''}`}>
+                      {formatTally(cut.loggedPackages, cut.requestedPackages)}
+                    </div>
+                    <div className="text-base text-gray-500">{cut.loggedPounds} lbs</div>
+                  </div>
+                </div>
+              </button>
+            )
+          })}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              disabled={stepIndex === 0}
+              onClick={() => goToStep(stepIndex - 1)}
+              className="flex-1 h-16 rounded-xl border-2 bg-white text-xl font-medium flex items-center justify-center gap-2 touch-manipulation disabled:opacity-40"
+            >
+              <ChevronLeft className="h-7 w-7" />
+              Previous
+            </button>
+            <button
+              type="button"
+              disabled={stepIndex >= steps.length - 1}
+              onClick={() => goToStep(stepIndex + 1)}
+              className="flex-1 h-16 rounded-xl border-2 bg-white text-xl font-medium flex items-center justify-center gap-2 touch-manipulation disabled:opacity-40"
+            >
+              Next Primal
+              <ChevronRight className="h-7 w-7" />
+            </button>
+          </div>
+        </div>
+
+        {/* Weight entry */}
+        <div className="space-y-3">
+          <NumericKeypad value={weight} onChange={setWeight} disabled={saving} />
+          <button
+            type="button"
+            disabled={saving || !selectedCut || !parsedWeight}
+            onClick={() => selectedCut && handleLogPackage(selectedCut)}
+            className="w-full h-20 rounded-xl bg-green-700 text-white text-2xl font-semibold touch-manipulation active:bg-green-800 disabled:opacity-40"
+          >
+            {saving
+              ? 'Saving...'
+              : selectedCut
+                ? `Log ${selectedCut.cutName}`
+                : 'Tap a cut to log'}
+          </button>
+
+          {error && (
+            <div className="p-4 rounded-xl bg-red-50 text-lg text-red-600">{error}</div>
+          )}
+
+          {lastLogged && (
+            <div className="flex items-center justify-between gap-3 p-4 rounded-xl bg-gray-100">
+              <div className="text-lg">
+                Logged {lastLogged.cut_name} #{lastLogged.package_number} - {lastLogged.actual_weight_lbs} lbs
+              </div>
+              <button
+                type="button"
+                disabled={saving}
+                onClick={handleUndo}
+                className="h-14 px-4 rounded-xl border-2 bg-white text-lg font-medium flex items-center gap-2 touch-manipulation disabled:opacity-40"
+              >
+                <Undo className="h-5 w-5" />
+                Undo
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { Delete } from 'lucide-react'
+import { pressKeypadKey, type KeypadKey } from '@/lib/floor-mode'
+
+interface NumericKeypadProps {
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+const KEYS: KeypadKey[] = ['7', '8', '9', '4', '5', '6', '1', '2', '3', '.', '0', 'back']
+
+/**
+ * Oversized weight keypad for touchscreens operated with gloves
+ */
+export function NumericKeypad({ value, onChange, disabled }: NumericKeypadProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end h-20 px-5 rounded-xl bg-gray-900 text-white font-mono">
+        <span className="text-5xl tabular-nums">{value || '0'}</span>
+        <span className="ml-3 text-2xl text-gray-400">lb</span>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {KEYS.map(key => (
+          <button
+            key={key}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(pressKeypadKey(value, key))}
+            className="h-20 rounded-xl border-2 bg-white text-4xl font-semibold select-none touch-manipulation active:bg-gray-200 disabled:opacity-50 flex items-center justify-center"
+            aria-label={key === 'back' ? 'Backspace' : key}
+          >
+            {key === 'back' ? <Delete className="h-9 w-9" /> : key}
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        disabled={disabled || !value}
+        onClick={() => onChange(pressKeypadKey(value, 'clear'))}
+        className="w-full h-14 rounded-xl border-2 bg-white text-xl font-medium text-gray-600 select-none touch-manipulation active:bg-gray-200 disabled:opacity-50"
+      >
+        Clear
+      </button>
+    </div>
+  )
+}
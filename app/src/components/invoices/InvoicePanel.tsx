@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Receipt, RefreshCw, AlertTriangle } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { Invoice } from '@/types/database'
+import {
+  formatCurrency,
+  formatInvoiceNumber,
+  type InvoiceLineItem,
+  type InvoiceStatus,
+} from '@/lib/invoicing'
+import {
+  getOrderInvoices,
+  generateOrderInvoice,
+  updateInvoiceStatus,
+} from '@/lib/actions/invoices'
+
+// ============================================
+// Types
+// ============================================
+
+interface InvoicePanelProps {
+  orderId: string
+  isProcessor: boolean
+  onUpdate?: () => void
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  issued: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700',
+  void: 'bg-red-100 text-red-700',
+}
+
+const UNIT_LABELS: Record<InvoiceLineItem['unit'], string> = {
+  head: 'head',
+  lb: 'lb',
+  package: 'pkg',
+  day: 'day',
+  each: '',
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function formatDate(dateString: string | null): string {
+  if (!dateString) return '-'
+  return new Date(dateString).toLocaleDateString()
+}
+
+function formatQuantity(item: InvoiceLineItem): string {
+  if (item.unit === 'each') return ''
+  const unit = UNIT_LABELS[item.unit]
+  return `${item.quantity} ${unit}${item.quantity === 1 ? '' : 's'} × ${formatCurrency(item.unitPrice)}`
+}
+
+// ============================================
+// Components
+// ============================================
+
+function InvoiceDetail({ invoice }: { invoice: Invoice }) {
+  const lineItems = (invoice.line_items || []) as unknown as InvoiceLineItem[]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="font-semibold">{formatInvoiceNumber(invoice.invoice_number)}</div>
+          <div className="text-xs text-gray-500">
+            {invoice.issued_at ? `Issued ${formatDate(invoice.issued_at)}` : `Drafted ${formatDate(invoice.created_at)}`}
+            {invoice.due_date && invoice.status === 'issued' && ` · Due ${formatDate(invoice.due_date)}`}
+            {invoice.paid_at && ` · Paid ${formatDate(invoice.paid_at)}`}
+          </div>
+        </div>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[invoice.status]}`}>
+          {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+        </span>
+      </div>
+
+      {lineItems.length === 0 ? (
+        <p className="text-sm text-gray-500">No charges.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody className="divide-y">
+            {lineItems.map((item, index) => (
+              <tr key={index}>
+                <td className="py-1.5">
+                  <div>{item.description}</div>
+                  <div className="text-xs text-gray-400">{formatQuantity(item)}</div>
+                </td>
+                <td className="py-1.5 text-right font-medium">{formatCurrency(item.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2">
+              <td className="pt-2 font-semibold">Total</td>
+              <td className="pt-2 text-right font-semibold">{formatCurrency(Number(invoice.total))}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+
+      {invoice.notes && (
+        <div className="bg-gray-50 p-3 rounded text-sm">{invoice.notes}</div>
+      )}
+      {invoice.payment_reference && (
+        <div className="text-xs text-gray-500">Payment reference: {invoice.payment_reference}</div>
+      )}
+      {invoice.void_reason && (
+        <div className="text-xs text-red-600">Voided: {invoice.void_reason}</div>
+      )}
+    </div>
+  )
+}
+
+export function InvoicePanel({ orderId, isProcessor, onUpdate }: InvoicePanelProps) {
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [note, setNote] = useState('')
+  const { toast } = useToast()
+
+  const loadInvoices = useCallback(async () => {
+    setInvoices(await getOrderInvoices(orderId))
+    setLoading(false)
+  }, [orderId])
+
+  useEffect(() => {
+    loadInvoices()
+  }, [loadInvoices])
+
+  const current = invoices.find(inv => inv.status !== 'void')
+  const voided = invoices.filter(inv => inv.status === 'void')
+  const warnings = ((current?.warnings || []) as unknown as string[])
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, successTitle: string) => {
+    setWorking(true)
+    const result = await action()
+    setWorking(false)
+
+    if (result.success) {
+      toast({ title: successTitle })
+      setNote('')
+      await loadInvoices()
+      onUpdate?.()
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Invoice update failed',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          Invoice
+        </CardTitle>
+        <CardDescription>
+          {isProcessor
+            ? 'Generated from your fee schedule, hanging weight and produced packages'
+            : 'Charges for processing this order'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-700" />
+          </div>
+        ) : current ? (
+          <InvoiceDetail invoice={current} />
+        ) : (
+          <p className="text-sm text-gray-500">
+            {isProcessor ? 'No invoice yet.' : 'The processor has not issued an invoice yet.'}
+          </p>
+        )}
+
+        {isProcessor && current?.status === 'draft' && warnings.length > 0 && (
+          <div className="rounded bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800 space-y-1">
+            <div className="font-medium flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Not charged
+            </div>
+            {warnings.map((warning, index) => (
+              <div key={index}>{warning}</div>
+            ))}
+          </div>
+        )}
+
+        {isProcessor && !loading && (
+          <div className="space-y-2">
+            {current && current.status !== 'paid' && (
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={
+                  current.status === 'draft' ? 'Note to producer (optional)' :
+                  'Payment reference or void reason (optional)'
+                }
+              />
+            )}
+            <div className="flex flex-wrap gap-2">
+              {(!current || current.status === 'draft') && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={working}
+                  onClick={() => runAction(() => generateOrderInvoice(orderId), current ? 'Invoice regenerated' : 'Draft invoice created')}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  {current ? 'Regenerate' : 'Generate Invoice'}
+                </Button>
+              )}
+              {current?.status === 'draft' && (
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700"
+                  disabled={working}
+                  onClick={() => runAction(() => updateInvoiceStatus(current.id, 'issued', { notes: note }), 'Invoice issued')}
+                >
+                  Issue Invoice
+                </Button>
+              )}
+              {current?.status === 'issued' && (
+                <Button
+                  size="sm"
+                  className="bg-purple-600 hover:bg-purple-700"
+                  disabled={working}
+                  onClick={() => runAction(() => updateInvoiceStatus(current.id, 'paid', { paymentReference: note }), 'Invoice marked paid')}
+                >
+                  Mark Paid
+                </Button>
+              )}
+              {current && current.status !== 'paid' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-red-600 border-red-300 hover:bg-red-50"
+                  disabled={working}
+                  onClick={() => runAction(() => updateInvoiceStatus(current.id, 'void', { voidReason: note }), 'Invoice voided')}
+                >
+                  Void
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {voided.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-500">
+              {voided.length} voided invoice{voided.length === 1 ? '' : 's'}
+            </summary>
+            <div className="mt-3 space-y-4 opacity-70">
+              {voided.map(invoice => (
+                <InvoiceDetail key={invoice.id} invoice={invoice} />
+              ))}
+            </div>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
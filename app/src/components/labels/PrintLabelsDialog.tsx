@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Printer, FileDown } from 'lucide-react'
+import { LABEL_STOCK, type LabelSize } from '@/lib/labels'
+
+interface PrintLabelsDialogProps {
+  orderId?: string        // Print one order; otherwise pick a day
+  onPrinted?: () => void
+}
+
+export function PrintLabelsDialog({ orderId, onPrinted }: PrintLabelsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [size, setSize] = useState<LabelSize>('4x2')
+  const [unprintedOnly, setUnprintedOnly] = useState(true)
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0])
+
+  const labelUrl = (format: 'pdf' | 'zpl') => {
+    const params = new URLSearchParams({ format, size })
+    if (orderId) params.set('orderId', orderId)
+    else params.set('date', date)
+    if (unprintedOnly) params.set('unprinted', '1')
+    return `/api/labels?${params.toString()}`
+  }
+
+  const handlePrinted = () => {
+    setOpen(false)
+    // Give the download a moment to mark packages before refreshing
+    setTimeout(() => onPrinted?.(), 1500)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Printer className="h-4 w-4 mr-1" />
+          Print Labels
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Print Package Labels</DialogTitle>
+          <DialogDescription>
+            {orderId
+              ? 'Labels for every produced package on this order'
+              : 'Labels for every package produced on the chosen day'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {!orderId && (
+            <div className="space-y-2">
+              <Label htmlFor="label-date">Production date</Label>
+              <Input
+                id="label-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="label-size">Label stock</Label>
+            <select
+              id="label-size"
+              className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+              value={size}
+              onChange={(e) => setSize(e.target.value as LabelSize)}
+            >
+              {(Object.keys(LABEL_STOCK) as LabelSize[]).map(key => (
+                <option key={key} value={key}>{LABEL_STOCK[key].label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="label-unprinted">Only packages not yet labeled</Label>
+            <Switch
+              id="label-unprinted"
+              checked={unprintedOnly}
+              onCheckedChange={setUnprintedOnly}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" asChild>
+            <a href={labelUrl('zpl')} download onClick={handlePrinted}>
+              <FileDown className="h-4 w-4 mr-1" />
+              ZPL (Zebra)
+            </a>
+          </Button>
+          <Button className="bg-green-700 hover:bg-green-800" asChild>
+            <a href={labelUrl('pdf')} target="_blank" rel="noopener noreferrer" onClick={handlePrinted}>
+              <Printer className="h-4 w-4 mr-1" />
+              PDF
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
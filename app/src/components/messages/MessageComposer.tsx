@@ -0,0 +1,176 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Paperclip, Send, X } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MESSAGE_ATTACHMENT_BUCKET,
+  formatFileSize,
+  getAttachmentPath,
+  validateAttachments,
+  type UploadedAttachment,
+} from '@/lib/message-threads'
+
+interface MessageComposerProps {
+  senderOrgId: string
+  recipientOrgId: string
+  // Resolves false if the message couldn't be sent
+  onSend: (content: string, attachments: UploadedAttachment[]) => Promise<boolean>
+}
+
+export function MessageComposer({ senderOrgId, recipientOrgId, onSend }: MessageComposerProps) {
+  const [content, setContent] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const addFiles = (picked: FileList | null) => {
+    if (!picked) return
+    const next = [...files, ...Array.from(picked)]
+    const problem = validateAttachments(next)
+    if (problem) {
+      setError(problem)
+    } else {
+      setError(null)
+      setFiles(next)
+    }
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  // Uploads go straight from the browser to storage; the message then
+  // records them. Anything uploaded for a message that fails is removed.
+  const uploadFiles = async (): Promise<UploadedAttachment[] | null> => {
+    const supabase = createClient()
+    const uploaded: UploadedAttachment[] = []
+
+    for (const file of files) {
+      const path = getAttachmentPath(senderOrgId, recipientOrgId, crypto.randomUUID(), file.name)
+      const { error: uploadError } = await supabase.storage
+        .from(MESSAGE_ATTACHMENT_BUCKET)
+        .upload(path, file, { contentType: file.type })
+
+      if (uploadError) {
+        console.error('Error uploading attachment:', uploadError)
+        await removeUploads(uploaded)
+        setError(`Failed to upload ${file.name}`)
+        return null
+      }
+
+      uploaded.push({ storage_path: path, file_name: file.name, content_type: file.type, size_bytes: file.size })
+    }
+
+    return uploaded
+  }
+
+  const removeUploads = async (uploaded: UploadedAttachment[]) => {
+    if (uploaded.length === 0) return
+    await createClient().storage.from(MESSAGE_ATTACHMENT_BUCKET).remove(uploaded.map(a => a.storage_path))
+  }
+
+  const handleSend = async () => {
+    if (!content.trim() && files.length === 0) return
+
+    setSending(true)
+    setError(null)
+    try {
+      const attachments = await uploadFiles()
+      if (!attachments) return
+
+      const sent = await onSend(content, attachments)
+      if (!sent) {
+        await removeUploads(attachments)
+        setError('Failed to send message')
+        return
+      }
+
+      setContent('')
+      setFiles([])
+    } catch (err) {
+      console.error('Send error:', err)
+      setError('Failed to send message')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      handleSend()
+    }
+  }
+
+  return (
+    <>
+      {error && (
+        <div className="bg-red-50 text-red-600 p-2 rounded-md text-sm mb-2">
+          {error}
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {files.map((file, i) => (
+            <span key={`${file.name}-${i}`} className="flex items-center gap-1 bg-gray-100 rounded-md px-2 py-1 text-sm">
+              <Paperclip className="h-3 w-3" />
+              <span className="max-w-[12rem] truncate">{file.name}</span>
+              <span className="text-xs text-gray-500">{formatFileSize(file.size)}</span>
+              <button
+                type="button"
+                onClick={() => setFiles(files.filter((_, j) => j !== i))}
+                className="text-gray-400 hover:text-gray-700"
+                aria-label={`Remove ${file.name}`}
+                disabled={sending}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => addFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          size="icon"
+          className="shrink-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sending}
+          aria-label="Attach photo or file"
+        >
+          <Paperclip className="h-4 w-4" />
+        </Button>
+        <Textarea
+          placeholder="Type a message..."
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={1}
+          className="resize-none"
+          disabled={sending}
+        />
+        <Button
+          className="bg-green-700 hover:bg-green-800 shrink-0"
+          onClick={handleSend}
+          disabled={sending || (!content.trim() && files.length === 0)}
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Press Enter to send, Shift+Enter for new line. Attach photos, PDFs or documents up to {formatFileSize(MAX_ATTACHMENT_BYTES)}.
+      </p>
+    </>
+  )
+}
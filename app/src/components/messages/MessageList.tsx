@@ -0,0 +1,115 @@
+'use client'
+
+import { FileText } from 'lucide-react'
+import {
+  formatFileSize,
+  isImageAttachment,
+  type MessageAttachmentWithUrl,
+  type MessageWithSender,
+} from '@/lib/message-threads'
+
+interface MessageListProps {
+  messages: MessageWithSender[]
+  myOrgId: string
+  emptyHint?: string
+}
+
+function formatTime(dateString: string) {
+  const date = new Date(dateString)
+  const today = new Date()
+  const yesterday = new Date(today)
+  yesterday.setDate(yesterday.getDate() - 1)
+
+  if (date.toDateString() === today.toDateString()) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  } else if (date.toDateString() === yesterday.toDateString()) {
+    return `Yesterday ${date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+  } else {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' }) +
+      ' ' + date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  }
+}
+
+function Attachment({ attachment, isMe }: { attachment: MessageAttachmentWithUrl; isMe: boolean }) {
+  if (!attachment.url) {
+    return <p className="text-xs opacity-75">{attachment.file_name} (unavailable)</p>
+  }
+
+  if (isImageAttachment(attachment.content_type)) {
+    return (
+      <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={attachment.url}
+          alt={attachment.file_name}
+          className="max-h-60 max-w-full rounded-md border border-black/10"
+        />
+      </a>
+    )
+  }
+
+  return (
+    <a
+      href={attachment.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-sm ${
+        isMe ? 'bg-green-800 hover:bg-green-900' : 'bg-white hover:bg-gray-50 border'
+      }`}
+    >
+      <FileText className="h-4 w-4 shrink-0" />
+      <span className="truncate">{attachment.file_name}</span>
+      <span className="text-xs opacity-75 shrink-0">{formatFileSize(attachment.size_bytes)}</span>
+    </a>
+  )
+}
+
+export function MessageList({ messages, myOrgId, emptyHint = 'Start the conversation below!' }: MessageListProps) {
+  if (messages.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <p>No messages yet.</p>
+        <p className="text-sm mt-1">{emptyHint}</p>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {messages.map((msg) => {
+        const isMe = msg.sender_org_id === myOrgId
+        return (
+          <div
+            key={msg.id}
+            className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}
+          >
+            <div
+              className={`max-w-[75%] rounded-lg px-4 py-2 ${
+                isMe
+                  ? 'bg-green-700 text-white'
+                  : 'bg-gray-100 text-gray-900'
+              }`}
+            >
+              {!isMe && msg.sender?.full_name && (
+                <p className="text-xs font-medium mb-1 opacity-75">
+                  {msg.sender.full_name}
+                </p>
+              )}
+              {msg.content && <p className="whitespace-pre-wrap">{msg.content}</p>}
+              {msg.attachments.length > 0 && (
+                <div className={`space-y-2 ${msg.content ? 'mt-2' : ''}`}>
+                  {msg.attachments.map((attachment) => (
+                    <Attachment key={attachment.id} attachment={attachment} isMe={isMe} />
+                  ))}
+                </div>
+              )}
+              <p className={`text-xs mt-1 ${isMe ? 'text-green-200' : 'text-gray-400'}`}>
+                {formatTime(msg.created_at)}
+              </p>
+            </div>
+          </div>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ChevronRight, MessageSquare } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { getOrderThreads, startOrderThread } from '@/lib/actions/messages'
+import { getThreadTitle, type ThreadSummary } from '@/lib/message-threads'
+
+interface OrderMessagesPanelProps {
+  orderId: string
+  orderNumber: number
+  partnerName: string
+  cuts: { cut_id: string; cut_name: string }[]    // The order's cut sheet, to ask about one cut
+}
+
+export function OrderMessagesPanel({ orderId, orderNumber, partnerName, cuts }: OrderMessagesPanelProps) {
+  const [threads, setThreads] = useState<ThreadSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+  const [cutId, setCutId] = useState('')
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const loadThreads = useCallback(async () => {
+    setThreads(await getOrderThreads(orderId))
+    setLoading(false)
+  }, [orderId])
+
+  useEffect(() => {
+    loadThreads()
+  }, [loadThreads])
+
+  const openThread = async (cut?: { cutId: string; cutName: string }) => {
+    setStarting(true)
+    const result = await startOrderThread(orderId, cut)
+    setStarting(false)
+
+    if (result.success && result.threadId) {
+      router.push(`/dashboard/messages/threads/${result.threadId}`)
+    } else {
+      toast({ title: 'Error', description: result.error || 'Failed to open the conversation', variant: 'destructive' })
+    }
+  }
+
+  const handleAskAboutCut = () => {
+    const cut = cuts.find(c => c.cut_id === cutId)
+    if (cut) openThread({ cutId: cut.cut_id, cutName: cut.cut_name })
+  }
+
+  const uniqueCuts = cuts.filter((cut, i) => cuts.findIndex(c => c.cut_id === cut.cut_id) === i)
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5" />
+            Messages
+          </CardTitle>
+          <CardDescription>
+            Conversations with {partnerName} about this order, kept apart from your other messages
+          </CardDescription>
+        </div>
+        <Button
+          onClick={() => openThread()}
+          disabled={starting}
+          className="bg-green-700 hover:bg-green-800"
+        >
+          Message {partnerName}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!loading && threads.length > 0 && (
+          <div className="divide-y border rounded-md">
+            {threads.map((thread) => (
+              <Link
+                key={thread.id}
+                href={`/dashboard/messages/threads/${thread.id}`}
+                className="flex items-center justify-between px-4 py-3 hover:bg-gray-50"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {thread.cut_name || getThreadTitle(thread, orderNumber)}
+                  </span>
+                  {thread.unreadCount > 0 && (
+                    <span className="bg-green-700 text-white text-xs px-2 py-0.5 rounded-full">
+                      {thread.unreadCount}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  {new Date(thread.last_message_at).toLocaleDateString()}
+                  <ChevronRight className="h-4 w-4" />
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {uniqueCuts.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              className="flex-1 px-3 py-2 border rounded-md bg-background text-sm"
+              value={cutId}
+              onChange={(e) => setCutId(e.target.value)}
+              aria-label="Cut to ask about"
+            >
+              <option value="">Ask about a cut...</option>
+              {uniqueCuts.map((cut) => (
+                <option key={cut.cut_id} value={cut.cut_id}>
+                  {cut.cut_name}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" onClick={handleAskAboutCut} disabled={!cutId || starting}>
+              Ask About Cut
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
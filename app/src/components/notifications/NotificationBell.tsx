@@ -28,6 +28,7 @@ function getNotificationIcon(type: string) {
     case 'new_message':
       return <MessageSquare className="h-4 w-4" />
     case 'slot_available':
+    case 'waitlist_available':
       return <Calendar className="h-4 w-4" />
     default:
       return <Info className="h-4 w-4" />
@@ -41,6 +42,9 @@ function getNotificationLink(notification: NotificationWithRelations): string |
   if (notification.message_id) {
     return '/dashboard/messages'
   }
+  if (notification.type === 'waitlist_available') {
+    return '/dashboard/waitlist'
+  }
   return null
 }
 
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { CalendarX } from 'lucide-react'
+import {
+  cancelOrder,
+  clearOrderNoShow,
+  getCancellationTerms,
+  getProducerReliability,
+  markOrderNoShow,
+  setDepositPaid,
+  waiveDeposit,
+  type CancellationTerms,
+  type ReliabilityRecord,
+} from '@/lib/actions/reliability'
+import { canMarkNoShow, canProducerCancel, describeReliability } from '@/lib/reliability'
+import { formatCurrency } from '@/lib/invoicing'
+import type { OrderStatus, ProcessingStage } from '@/types/database'
+import { ReliabilityBadge } from './ReliabilityBadge'
+
+export interface ReliabilityPanelOrder {
+  id: string
+  status: OrderStatus
+  processing_stage: ProcessingStage
+  scheduled_drop_off: string | null
+  producer_id: string
+  no_show_at: string | null
+  late_cancellation: boolean
+  cancelled_at: string | null
+  deposit_amount: number | null
+  deposit_paid_at: string | null
+}
+
+interface OrderReliabilityPanelProps {
+  order: ReliabilityPanelOrder
+  isProcessor: boolean
+  onUpdate?: () => void
+}
+
+export function OrderReliabilityPanel({ order, isProcessor, onUpdate }: OrderReliabilityPanelProps) {
+  const [record, setRecord] = useState<ReliabilityRecord | null>(null)
+  const [terms, setTerms] = useState<CancellationTerms | null>(null)
+  const [confirming, setConfirming] = useState<'no_show' | 'cancel' | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isProcessor) return
+    getProducerReliability(order.producer_id).then(setRecord)
+  }, [isProcessor, order.producer_id, order.no_show_at])
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setSaving(true)
+    const result = await action()
+    setSaving(false)
+    setConfirming(null)
+
+    if (!result.success) {
+      alert(result.error || 'Something went wrong')
+    }
+    onUpdate?.()
+  }
+
+  const openCancel = async () => {
+    setTerms(await getCancellationTerms(order.id))
+    setConfirming('cancel')
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString()
+  const showNoShow = isProcessor && canMarkNoShow(order)
+  const showCancel = !isProcessor && canProducerCancel(order)
+  const hasDeposit = order.deposit_amount !== null
+
+  if (!isProcessor && !showCancel && !hasDeposit && !order.no_show_at && !order.late_cancellation) {
+    return null
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX className="h-5 w-5" />
+          Attendance
+        </CardTitle>
+        <CardDescription>
+          {isProcessor
+            ? 'The producer\'s record over the last year, and this order\'s deposit'
+            : 'Cancelling close to drop-off or missing it counts against your record'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isProcessor && record && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <ReliabilityBadge reliability={record.reliability} />
+            <span className="text-gray-500">{describeReliability(record.reliability)}</span>
+          </div>
+        )}
+
+        {order.no_show_at && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-red-50 p-3 text-sm text-red-700">
+            <span>Marked as a no-show on {formatDate(order.no_show_at)}</span>
+            {isProcessor && (
+              <Button size="sm" variant="outline" onClick={() => run(() => clearOrderNoShow(order.id))} disabled={saving}>
+                Undo No-Show
+              </Button>
+            )}
+          </div>
+        )}
+
+        {order.late_cancellation && order.cancelled_at && (
+          <div className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+            Cancelled late by the producer on {formatDate(order.cancelled_at)}
+          </div>
+        )}
+
+        {hasDeposit && (
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div>
+              <span className="font-medium">Deposit {formatCurrency(order.deposit_amount!)}</span>
+              <span className="text-gray-500">
+                {order.deposit_paid_at
+                  ? ` - paid ${formatDate(order.deposit_paid_at)}`
+                  : isProcessor ? ' - not paid yet' : ' - due to the processor before drop-off'}
+              </span>
+            </div>
+            {isProcessor && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => run(() => setDepositPaid(order.id, !order.deposit_paid_at))}
+                  disabled={saving}
+                >
+                  {order.deposit_paid_at ? 'Mark Unpaid' : 'Mark Paid'}
+                </Button>
+                {!order.deposit_paid_at && (
+                  <Button size="sm" variant="ghost" onClick={() => run(() => waiveDeposit(order.id))} disabled={saving}>
+                    Waive
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {showNoShow && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 border-red-300 hover:bg-red-50"
+            onClick={() => setConfirming('no_show')}
+            disabled={saving}
+          >
+            Mark No-Show
+          </Button>
+        )}
+
+        {showCancel && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 border-red-300 hover:bg-red-50"
+            onClick={openCancel}
+            disabled={saving}
+          >
+            Cancel Order
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === 'no_show' ? 'Mark as a No-Show?' : 'Cancel this Order?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === 'no_show'
+                ? 'The order is cancelled and counts against the producer\'s reliability for a year. The producer is notified.'
+                : terms?.late
+                  ? `Your drop-off is less than ${terms.lateCancelHours} hours away, so this counts as a late cancellation on your record for a year.`
+                  : 'Your place is offered to the next producer on the waitlist.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => run(() => confirming === 'no_show' ? markOrderNoShow(order.id) : cancelOrder(order.id))}
+              className="bg-red-600 hover:bg-red-700"
+              disabled={saving}
+            >
+              {confirming === 'no_show' ? 'Mark No-Show' : 'Yes, Cancel'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
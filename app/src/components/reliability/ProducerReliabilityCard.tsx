@@ -0,0 +1,66 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CalendarX } from 'lucide-react'
+import { describeReliability, RELIABILITY_LOOKBACK_MONTHS } from '@/lib/reliability'
+import type { ReliabilityRecord } from '@/lib/actions/reliability'
+import { ReliabilityBadge } from './ReliabilityBadge'
+
+export interface MissedOrder {
+  id: string
+  order_number: number
+  no_show_at: string | null
+  cancelled_at: string | null
+  processor: { name: string } | null
+}
+
+interface ProducerReliabilityCardProps {
+  record: ReliabilityRecord
+  missedOrders: MissedOrder[]     // No-shows and late cancellations, newest first
+}
+
+export function ProducerReliabilityCard({ record, missedOrders }: ProducerReliabilityCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarX className="h-5 w-5" />
+            Your Reliability
+          </CardTitle>
+          <ReliabilityBadge reliability={record.reliability} />
+        </div>
+        <CardDescription>
+          What processors see when you book: the last {RELIABILITY_LOOKBACK_MONTHS} months
+          of drop-offs kept, no-shows and late cancellations. Some processors ask for a
+          deposit below a score or stop taking bookings after repeated no-shows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-600 mb-3">{describeReliability(record.reliability)}</p>
+        {missedOrders.length > 0 && (
+          <div className="divide-y">
+            {missedOrders.map(order => (
+              <Link
+                key={order.id}
+                href={`/dashboard/orders/${order.id}`}
+                className="flex items-center justify-between py-2 text-sm hover:bg-gray-50"
+              >
+                <span>
+                  Order #{order.order_number}
+                  <span className="text-gray-500"> &middot; {order.processor?.name}</span>
+                </span>
+                <span className="flex items-center gap-2 text-gray-500">
+                  {new Date((order.no_show_at || order.cancelled_at)!).toLocaleDateString()}
+                  <Badge variant="outline" className={order.no_show_at ? 'border-red-300 text-red-700' : 'border-amber-300 text-amber-700'}>
+                    {order.no_show_at ? 'No-show' : 'Late cancellation'}
+                  </Badge>
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,34 @@
+import { Badge } from '@/components/ui/badge'
+import {
+  describeReliability,
+  getReliabilityLevel,
+  getReliabilityScore,
+  type ProducerReliability,
+  type ReliabilityLevel,
+} from '@/lib/reliability'
+
+const LEVEL_STYLES: Record<ReliabilityLevel, string> = {
+  new: 'border-gray-300 text-gray-600',
+  good: 'border-green-300 text-green-700',
+  fair: 'border-amber-300 text-amber-700',
+  poor: 'border-red-300 text-red-700',
+}
+
+interface ReliabilityBadgeProps {
+  reliability: ProducerReliability
+}
+
+export function ReliabilityBadge({ reliability }: ReliabilityBadgeProps) {
+  const score = getReliabilityScore(reliability)
+  const level = getReliabilityLevel(score)
+
+  return (
+    <Badge
+      variant="outline"
+      className={LEVEL_STYLES[level]}
+      title={`Last 12 months: ${describeReliability(reliability)}`}
+    >
+      {score === null ? 'No record yet' : `${score}% reliable`}
+    </Badge>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Plug, Unplug } from 'lucide-react'
+import {
+  createScaleReader,
+  createWebSerialDriver,
+  isWebSerialSupported,
+  SCALE_FORMATS,
+  type LiveWeight,
+  type ScaleFormat,
+  type ScaleReader,
+} from '@/lib/scale'
+
+const FORMAT_STORAGE_KEY = 'scale-format'
+
+interface ScaleWeightInputProps {
+  onWeight: (weightLbs: number) => void
+}
+
+/**
+ * Reads package weights from a USB/serial scale. Each time the platform
+ * settles the weight is passed to `onWeight`; the caller's manual weight
+ * field stays editable for browsers without Web Serial or a scale.
+ */
+export function ScaleWeightInput({ onWeight }: ScaleWeightInputProps) {
+  const [supported, setSupported] = useState(false)
+  const [format, setFormat] = useState<ScaleFormat>('toledo')
+  const [connected, setConnected] = useState(false)
+  const [connecting, setConnecting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [live, setLive] = useState<LiveWeight | null>(null)
+  const [tareLbs, setTareLbs] = useState(0)
+  const readerRef = useRef<ScaleReader | null>(null)
+  const onWeightRef = useRef(onWeight)
+  onWeightRef.current = onWeight
+
+  useEffect(() => {
+    setSupported(isWebSerialSupported())
+    const saved = localStorage.getItem(FORMAT_STORAGE_KEY) as ScaleFormat | null
+    if (saved && saved in SCALE_FORMATS) setFormat(saved)
+
+    return () => {
+      readerRef.current?.stop()
+      readerRef.current = null
+    }
+  }, [])
+
+  if (!supported) return null
+
+  const connect = async () => {
+    setConnecting(true)
+    setError(null)
+    const reader = createScaleReader(createWebSerialDriver(), {
+      format,
+      onReading: setLive,
+      onStableWeight: (weight) => onWeightRef.current(weight),
+    })
+    try {
+      await reader.start()
+      readerRef.current = reader
+      localStorage.setItem(FORMAT_STORAGE_KEY, format)
+      setConnected(true)
+    } catch (err) {
+      // Closing the port picker without choosing rejects too
+      if (!(err instanceof DOMException && err.name === 'NotFoundError')) {
+        console.error('Error connecting scale:', err)
+        setError('Could not connect to the scale')
+      }
+      await reader.stop()
+    }
+    setConnecting(false)
+  }
+
+  const disconnect = async () => {
+    await readerRef.current?.stop()
+    readerRef.current = null
+    setConnected(false)
+    setLive(null)
+    setTareLbs(0)
+  }
+
+  const toggleTare = () => {
+    const reader = readerRef.current
+    if (!reader) return
+    if (tareLbs > 0) {
+      reader.clearTare()
+      setTareLbs(0)
+    } else {
+      setTareLbs(reader.tare())
+    }
+  }
+
+  if (!connected) {
+    return (
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Scale type"
+          className="h-9 flex-1 rounded-md border border-input bg-background px-3 text-sm"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ScaleFormat)}
+        >
+          {(Object.keys(SCALE_FORMATS) as ScaleFormat[]).map(key => (
+            <option key={key} value={key}>{SCALE_FORMATS[key].label}</option>
+          ))}
+        </select>
+        <Button type="button" variant="outline" size="sm" onClick={connect} disabled={connecting}>
+          <Plug className="h-4 w-4 mr-1" />
+          {connecting ? 'Connecting...' : 'Connect Scale'}
+        </Button>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+    )
+  }
+
+  const statusText = !live
+    ? 'Waiting for scale...'
+    : live.status !== 'ok'
+      ? `Scale ${live.status}`
+      : live.stable ? 'Stable' : 'Settling...'
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border bg-gray-50 px-3 py-2">
+      <div className="flex-1">
+        <div className="text-2xl font-mono font-semibold">
+          {live ? live.weightLbs.toFixed(2) : '--'} <span className="text-sm text-gray-500">lbs</span>
+        </div>
+        <div className={`text-xs ${live?.stable ? 'text-green-600' : 'text-gray-500'}`}>
+          {statusText}
+          {tareLbs > 0 && ` · tare ${tareLbs.toFixed(2)} lbs`}
+        </div>
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={toggleTare}>
+        {tareLbs > 0 ? 'Clear Tare' : 'Tare'}
+      </Button>
+      <Button type="button" variant="ghost" size="sm" onClick={disconnect} title="Disconnect scale">
+        <Unplug className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
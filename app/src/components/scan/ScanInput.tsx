@@ -0,0 +1,152 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Camera, CameraOff, ScanLine } from 'lucide-react'
+import { getScanPath } from '@/lib/scan'
+
+// Shape of the browser Shape Detection API, which TypeScript's DOM lib doesn't include yet
+interface DetectedBarcode {
+  rawValue: string
+}
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector || null
+}
+
+/**
+ * Scan box for floor staff. Keyboard-wedge scanners type the code and press
+ * Enter, so the input keeps focus; phones and tablets can use the camera
+ * where the browser supports barcode detection.
+ */
+export function ScanInput() {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [code, setCode] = useState('')
+  const [cameraOn, setCameraOn] = useState(false)
+  const [cameraError, setCameraError] = useState<string | null>(null)
+  const [cameraSupported, setCameraSupported] = useState(false)
+
+  useEffect(() => {
+    setCameraSupported(!!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia)
+    inputRef.current?.focus()
+  }, [])
+
+  const submit = useCallback((value: string) => {
+    if (!value.trim()) return
+    setCode('')
+    setCameraOn(false)
+    router.push(getScanPath(value))
+  }, [router])
+
+  useEffect(() => {
+    if (!cameraOn) return
+
+    const Detector = getBarcodeDetector()
+    if (!Detector) return
+
+    let stream: MediaStream | null = null
+    let frame = 0
+    let stopped = false
+    const detector = new Detector({ formats: ['code_128', 'qr_code', 'code_39', 'ean_13'] })
+
+    const scanFrame = async () => {
+      if (stopped || !videoRef.current) return
+      try {
+        const [barcode] = await detector.detect(videoRef.current)
+        if (barcode?.rawValue) {
+          submit(barcode.rawValue)
+          return
+        }
+      } catch {
+        // Frames can fail while the video is still starting; keep polling
+      }
+      frame = window.setTimeout(scanFrame, 250)
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        // Turned off or unmounted while the permission prompt was open
+        if (stopped || !videoRef.current) {
+          media.getTracks().forEach(track => track.stop())
+          return
+        }
+        stream = media
+        videoRef.current.srcObject = media
+        videoRef.current.play().then(scanFrame).catch(() => setCameraError('Could not start the camera'))
+      })
+      .catch(() => {
+        setCameraError('Camera access was denied')
+        setCameraOn(false)
+      })
+
+    return () => {
+      stopped = true
+      window.clearTimeout(frame)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [cameraOn, submit])
+
+  return (
+    <div className="space-y-3">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          submit(code)
+        }}
+      >
+        <div className="relative flex-1">
+          <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <Input
+            ref={inputRef}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Scan a tag, package label or order number"
+            className="pl-10 h-12 text-lg"
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+          />
+        </div>
+        <Button type="submit" className="h-12 bg-green-700 hover:bg-green-800" disabled={!code.trim()}>
+          Look Up
+        </Button>
+        {cameraSupported && (
+          <Button
+            type="button"
+            variant="outline"
+            className="h-12"
+            onClick={() => {
+              setCameraError(null)
+              setCameraOn(!cameraOn)
+            }}
+          >
+            {cameraOn ? <CameraOff className="h-5 w-5" /> : <Camera className="h-5 w-5" />}
+          </Button>
+        )}
+      </form>
+
+      {cameraOn && (
+        <video
+          ref={videoRef}
+          className="w-full max-h-80 rounded-lg bg-black object-cover"
+          muted
+          playsInline
+        />
+      )}
+      {cameraError && (
+        <p className="text-sm text-red-600">{cameraError}</p>
+      )}
+    </div>
+  )
+}
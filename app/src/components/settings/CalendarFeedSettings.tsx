@@ -0,0 +1,143 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { CalendarDays, Copy, RefreshCw } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import {
+  disableCalendarFeed,
+  getCalendarFeed,
+  regenerateCalendarFeedToken,
+  type CalendarFeedInfo,
+} from '@/lib/actions/calendar-feed'
+
+interface CalendarFeedSettingsProps {
+  isProcessor: boolean
+}
+
+export function CalendarFeedSettings({ isProcessor }: CalendarFeedSettingsProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [feed, setFeed] = useState<CalendarFeedInfo>({ url: null, lastFetchedAt: null })
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    async function loadFeed() {
+      setFeed(await getCalendarFeed())
+      setLoading(false)
+    }
+    loadFeed()
+  }, [])
+
+  const handleRegenerate = async () => {
+    setSaving(true)
+    const result = await regenerateCalendarFeedToken()
+    setSaving(false)
+    setConfirmRegenerate(false)
+
+    if (result.success && result.url) {
+      setFeed({ url: result.url, lastFetchedAt: null })
+    } else {
+      toast({ title: 'Error', description: result.error || 'Failed to create the calendar link', variant: 'destructive' })
+    }
+  }
+
+  const handleDisable = async () => {
+    setSaving(true)
+    const result = await disableCalendarFeed()
+    setSaving(false)
+
+    if (result.success) {
+      setFeed({ url: null, lastFetchedAt: null })
+    } else {
+      toast({ title: 'Error', description: result.error || 'Failed to turn off the calendar feed', variant: 'destructive' })
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feed.url) return
+    await navigator.clipboard.writeText(feed.url)
+    toast({ title: 'Calendar link copied' })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          {isProcessor
+            ? 'Subscribe from Google, Apple or Outlook calendar to see your kill days with places booked, and each order\'s drop-off.'
+            : 'Subscribe from Google, Apple or Outlook calendar to see drop-off, ready and pickup days for your orders.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-700" />
+          </div>
+        ) : feed.url ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">
+              Anyone with this link can see these events. Calendar apps refresh it every hour or so.
+              {feed.lastFetchedAt && ` Last fetched ${new Date(feed.lastFetchedAt).toLocaleString()}.`}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setConfirmRegenerate(true)} disabled={saving}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Regenerate Link
+              </Button>
+              <Button variant="ghost" className="text-red-600" onClick={handleDisable} disabled={saving}>
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleRegenerate} disabled={saving} className="bg-green-700 hover:bg-green-800">
+            {saving ? 'Creating...' : 'Create Calendar Link'}
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRegenerate} onOpenChange={setConfirmRegenerate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Regenerate Calendar Link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current link stops working right away. Every calendar subscribed to it needs
+              the new link.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Current Link</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRegenerate} disabled={saving}>
+              Regenerate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, Mail, Smartphone } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { OUTBOX_STATUS_LABELS, type OutboxStatus } from '@/lib/notification-outbox'
+import { getDeliveryReport, retryDelivery, type DeliveryReport } from '@/lib/actions/notification-outbox'
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  queued: 'border-gray-300 text-gray-700',
+  sent: 'border-green-300 text-green-700',
+  failed: 'border-amber-300 text-amber-700',
+  dead: 'border-red-300 text-red-700',
+  bounced: 'border-red-300 text-red-700',
+}
+
+function formatWhen(date: string): string {
+  return new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export function NotificationDeliveryLog() {
+  const [loading, setLoading] = useState(true)
+  const [retrying, setRetrying] = useState<string | null>(null)
+  const [report, setReport] = useState<DeliveryReport | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    async function loadReport() {
+      setReport(await getDeliveryReport())
+      setLoading(false)
+    }
+    loadReport()
+  }, [])
+
+  const handleRetry = async (id: string) => {
+    setRetrying(id)
+    const result = await retryDelivery(id)
+
+    if (result.success) {
+      toast({ title: result.sent ? 'Sent' : 'Queued', description: result.sent ? 'Delivered on retry' : 'It will be retried shortly' })
+      setReport(await getDeliveryReport())
+    } else {
+      toast({ title: 'Error', description: result.error || 'Failed to retry', variant: 'destructive' })
+    }
+    setRetrying(null)
+  }
+
+  // Owners and managers only
+  if (!loading && !report) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5" />
+          Notification Delivery
+        </CardTitle>
+        <CardDescription>
+          Emails and texts to your team that couldn&apos;t be delivered. Failed ones are retried automatically for a few hours before we give up.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading || !report ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+              <span>Last 7 days:</span>
+              <span>{report.summary.sent} sent</span>
+              <span>{report.summary.queued} queued</span>
+              <span>{report.summary.failed} retrying</span>
+              <span>{report.summary.dead + report.summary.bounced} undelivered</span>
+            </div>
+
+            {report.failures.length === 0 ? (
+              <p className="text-sm text-gray-500">No delivery problems.</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {report.failures.map(failure => (
+                  <div key={failure.id} className="flex items-start justify-between gap-4 p-3 text-sm">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        {failure.channel === 'email'
+                          ? <Mail className="h-4 w-4 shrink-0 text-gray-500" />
+                          : <Smartphone className="h-4 w-4 shrink-0 text-gray-500" />}
+                        <span className="truncate font-medium">{failure.recipient}</span>
+                        <Badge variant="outline" className={STATUS_STYLES[failure.status]}>
+                          {OUTBOX_STATUS_LABELS[failure.status]}
+                        </Badge>
+                      </div>
+                      {failure.subject && <p className="truncate text-gray-700">{failure.subject}</p>}
+                      <p className="text-gray-500">
+                        {formatWhen(failure.created_at)}
+                        {' - '}
+                        {failure.attempts} {failure.attempts === 1 ? 'attempt' : 'attempts'}
+                        {failure.status === 'failed' && `, next try ${formatWhen(failure.next_attempt_at)}`}
+                      </p>
+                      {failure.last_error && <p className="break-words text-red-600">{failure.last_error}</p>}
+                    </div>
+                    {(failure.status === 'failed' || failure.status === 'dead') && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={retrying !== null}
+                        onClick={() => handleRetry(failure.id)}
+                      >
+                        {retrying === failure.id ? 'Retrying...' : 'Retry Now'}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
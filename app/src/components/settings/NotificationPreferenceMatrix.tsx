@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import {
+  CHANNEL_FREQUENCIES,
+  DEFAULT_PREFERENCE_MATRIX,
+  FREQUENCY_LABELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  resolvePreferenceMatrix,
+  setPreference,
+  type DeliveryFrequency,
+  type NotificationChannel,
+  type PreferenceOverrides,
+} from '@/lib/notification-preferences'
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  saveOrganizationNotificationDefaults,
+  type NotificationPreferenceSettings,
+} from '@/lib/actions/notification-preferences'
+import type { NotificationType } from '@/types/database'
+
+interface NotificationPreferenceMatrixProps {
+  smsEnabled: boolean
+}
+
+type Editing = 'mine' | 'organization'
+
+export function NotificationPreferenceMatrix({ smsEnabled }: NotificationPreferenceMatrixProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<Editing>('mine')
+  const [settings, setSettings] = useState<NotificationPreferenceSettings>({
+    overrides: {},
+    organizationDefaults: {},
+    canEditDefaults: false,
+  })
+  const { toast } = useToast()
+
+  useEffect(() => {
+    async function loadPreferences() {
+      setSettings(await getNotificationPreferences())
+      setLoading(false)
+    }
+    loadPreferences()
+  }, [])
+
+  // What each setting falls back to, and what it is now
+  const underlying = editing === 'mine'
+    ? resolvePreferenceMatrix(null, settings.organizationDefaults)
+    : DEFAULT_PREFERENCE_MATRIX
+  const current = editing === 'mine'
+    ? resolvePreferenceMatrix({ overrides: settings.overrides }, settings.organizationDefaults)
+    : resolvePreferenceMatrix(null, settings.organizationDefaults)
+  const changed = editing === 'mine' ? settings.overrides : settings.organizationDefaults
+
+  const save = async (next: PreferenceOverrides) => {
+    const previous = settings
+    setSettings(editing === 'mine'
+      ? { ...settings, overrides: next }
+      : { ...settings, organizationDefaults: next })
+    setSaving(true)
+
+    const result = editing === 'mine'
+      ? await saveNotificationPreferences(next)
+      : await saveOrganizationNotificationDefaults(next)
+    setSaving(false)
+
+    if (result.success) {
+      toast({ title: 'Saved', description: 'Notification preferences updated' })
+    } else {
+      setSettings(previous)
+      toast({ title: 'Error', description: result.error || 'Failed to update notification preferences', variant: 'destructive' })
+    }
+  }
+
+  const handleChange = (type: NotificationType, channel: NotificationChannel, frequency: DeliveryFrequency) => {
+    save(setPreference(changed, underlying, type, channel, frequency))
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading preferences...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {settings.canEditDefaults && (
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant={editing === 'mine' ? 'default' : 'outline'}
+            onClick={() => setEditing('mine')}
+          >
+            My Preferences
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={editing === 'organization' ? 'default' : 'outline'}
+            onClick={() => setEditing('organization')}
+          >
+            Organization Defaults
+          </Button>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500">
+        {editing === 'mine'
+          ? 'Anything you leave alone follows your organization\'s defaults. Daily digests are emailed each morning with the day\'s unread notifications.'
+          : 'The starting point for everyone in your organization. People can still change their own.'}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium">Notification</th>
+              {NOTIFICATION_CHANNELS.map(({ channel, label }) => (
+                <th key={channel} className="py-2 pr-2 font-medium">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {NOTIFICATION_TYPES.map(({ type, label, description }) => (
+              <tr key={type} className="border-b last:border-0">
+                <td className="py-2 pr-4">
+                  <div className="font-medium text-gray-900">{label}</div>
+                  <div className="text-gray-500">{description}</div>
+                </td>
+                {NOTIFICATION_CHANNELS.map(({ channel, label: channelLabel }) => (
+                  <td key={channel} className="py-2 pr-2">
+                    <select
+                      aria-label={`${label} - ${channelLabel}`}
+                      className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      value={current[type][channel]}
+                      onChange={(e) => handleChange(type, channel, e.target.value as DeliveryFrequency)}
+                      disabled={saving || (channel === 'in_app' && current[type].email === 'daily_digest')}
+                    >
+                      {CHANNEL_FREQUENCIES[channel].map(frequency => (
+                        <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                      ))}
+                    </select>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          {editing === 'mine' && !smsEnabled && 'Texts are only sent once you turn on Text Me below.'}
+        </p>
+        {Object.keys(changed).length > 0 && (
+          <Button type="button" variant="outline" size="sm" disabled={saving} onClick={() => save({})}>
+            {editing === 'mine' ? 'Use Organization Defaults' : 'Reset to Standard Defaults'}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
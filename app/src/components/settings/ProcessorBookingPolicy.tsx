@@ -0,0 +1,272 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Separator } from '@/components/ui/separator'
+import { ClipboardCheck } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import { DEFAULT_BOOKING_POLICY, type BookingPolicy } from '@/lib/booking-policy'
+import { getBookingPolicy, saveBookingPolicy } from '@/lib/actions/booking-policy'
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+
+export function ProcessorBookingPolicy() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [policy, setPolicy] = useState<BookingPolicy>(DEFAULT_BOOKING_POLICY)
+  const { toast } = useToast()
+
+  const setCount = (field: Exclude<keyof BookingPolicy, 'requireTransferApproval'>, value: string) => {
+    setPolicy(prev => ({ ...prev, [field]: Math.max(0, parseInt(value) || 0) }))
+  }
+
+  useEffect(() => {
+    async function loadPolicy() {
+      setPolicy(await getBookingPolicy())
+      setLoading(false)
+    }
+    loadPolicy()
+  }, [])
+
+  const handleSave = async () => {
+    setSaving(true)
+    const result = await saveBookingPolicy(policy)
+    setSaving(false)
+
+    if (result.success) {
+      toast({
+        title: 'Booking policy saved',
+        description: 'New bookings, waitlist offers and slot transfers will follow these rules.',
+      })
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to save booking policy',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="border-green-200">
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-700" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="border-green-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-green-800">
+          <ClipboardCheck className="h-5 w-5" />
+          Booking Policy
+        </CardTitle>
+        <CardDescription>
+          Share your calendar fairly: cap what one producer can book, move repeat customers
+          up the waitlist, hold no-shows to account, and choose how producers hand slots to
+          each other. Leave a limit at 0 for no limit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="policy-open-orders">Open orders per producer</Label>
+            <Input
+              id="policy-open-orders"
+              type="number"
+              min="0"
+              value={policy.maxOpenOrders || ''}
+              placeholder="0"
+              onChange={(e) => setCount('maxOpenOrders', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-waitlist">Active waitlist entries per producer</Label>
+            <Input
+              id="policy-waitlist"
+              type="number"
+              min="0"
+              value={policy.maxWaitlistEntries || ''}
+              placeholder="0"
+              onChange={(e) => setCount('maxWaitlistEntries', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-season-head">Head per producer per season</Label>
+            <Input
+              id="policy-season-head"
+              type="number"
+              min="0"
+              value={policy.maxHeadPerSeason || ''}
+              placeholder="0"
+              onChange={(e) => setCount('maxHeadPerSeason', e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="policy-season-start">Season starts in</Label>
+            <select
+              id="policy-season-start"
+              className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+              value={policy.seasonStartMonth}
+              onChange={(e) => setPolicy(prev => ({ ...prev, seasonStartMonth: parseInt(e.target.value) }))}
+            >
+              {MONTHS.map((month, i) => (
+                <option key={month} value={i + 1}>{month}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div>
+          <h4 className="font-medium mb-1">Repeat customer priority</h4>
+          <p className="text-sm text-gray-500 mb-3">
+            Producers with enough completed orders are offered openings first. A tier you set
+            on a waitlist entry by hand still applies if it&apos;s higher.
+          </p>
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="policy-loyal-priority">Completed orders for Priority</Label>
+              <Input
+                id="policy-loyal-priority"
+                type="number"
+                min="0"
+                value={policy.loyaltyPriorityOrders || ''}
+                placeholder="0"
+                onChange={(e) => setCount('loyaltyPriorityOrders', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-loyal-top">Completed orders for Top priority</Label>
+              <Input
+                id="policy-loyal-top"
+                type="number"
+                min="0"
+                value={policy.loyaltyTopPriorityOrders || ''}
+                placeholder="0"
+                onChange={(e) => setCount('loyaltyTopPriorityOrders', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-loyal-lookback">Counting the last (months, 0 = all)</Label>
+              <Input
+                id="policy-loyal-lookback"
+                type="number"
+                min="0"
+                value={policy.loyaltyLookbackMonths}
+                onChange={(e) => setCount('loyaltyLookbackMonths', e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div>
+          <h4 className="font-medium mb-1">No-shows and deposits</h4>
+          <p className="text-sm text-gray-500 mb-3">
+            Each producer&apos;s reliability score comes from their kept orders, no-shows and
+            late cancellations over the last year, at any processor. Producers with no record
+            yet never owe a deposit.
+          </p>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="policy-late-cancel">Cancellations are late within (hours, 0 = off)</Label>
+              <Input
+                id="policy-late-cancel"
+                type="number"
+                min="0"
+                value={policy.lateCancelHours}
+                onChange={(e) => setCount('lateCancelHours', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-no-shows">No-shows in a year before a producer can&apos;t book</Label>
+              <Input
+                id="policy-no-shows"
+                type="number"
+                min="0"
+                value={policy.maxNoShows || ''}
+                placeholder="0"
+                onChange={(e) => setCount('maxNoShows', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-deposit-score">Require a deposit below score (0-100)</Label>
+              <Input
+                id="policy-deposit-score"
+                type="number"
+                min="0"
+                max="100"
+                value={policy.depositBelowScore || ''}
+                placeholder="0"
+                onChange={(e) => setCount('depositBelowScore', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-deposit-amount">Deposit per order ($)</Label>
+              <Input
+                id="policy-deposit-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={policy.depositAmount || ''}
+                placeholder="0.00"
+                onChange={(e) => setPolicy(prev => ({ ...prev, depositAmount: Math.max(0, parseFloat(e.target.value) || 0) }))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="policy-approval">Require my approval for slot transfers</Label>
+            <p className="text-sm text-gray-500">
+              Ownership only moves once you approve an accepted transfer
+            </p>
+          </div>
+          <Switch
+            id="policy-approval"
+            checked={policy.requireTransferApproval}
+            onCheckedChange={(checked) => setPolicy(prev => ({ ...prev, requireTransferApproval: checked }))}
+          />
+        </div>
+
+        <div className="space-y-1 max-w-xs">
+          <Label htmlFor="policy-window">Hours to accept a transfer</Label>
+          <Input
+            id="policy-window"
+            type="number"
+            min="1"
+            max="336"
+            value={policy.transferWindowHours}
+            onChange={(e) => setPolicy(prev => ({ ...prev, transferWindowHours: parseInt(e.target.value) || 0 }))}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-green-700 hover:bg-green-800"
+          >
+            {saving ? 'Saving...' : 'Save Booking Policy'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import { Snowflake } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { AnimalType } from '@/types/database'
+import {
+  DEFAULT_COOLER_CONFIG,
+  type CoolerConfig,
+  type CoolerEnforcement,
+  type CoolerUnit,
+} from '@/lib/cooler-capacity'
+import { getCoolerConfig, saveCoolerConfig } from '@/lib/actions/cooler-capacity'
+
+const ANIMALS: { type: AnimalType; label: string }[] = [
+  { type: 'beef', label: 'Beef' },
+  { type: 'pork', label: 'Pork' },
+  { type: 'lamb', label: 'Lamb' },
+  { type: 'goat', label: 'Goat' },
+]
+
+export function ProcessorCoolerCapacity() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [config, setConfig] = useState<CoolerConfig>(DEFAULT_COOLER_CONFIG)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    async function loadConfig() {
+      setConfig(await getCoolerConfig())
+      setLoading(false)
+    }
+    loadConfig()
+  }, [])
+
+  const setAnimalValue = (field: 'hangDays' | 'railFeetPerHead', animal: AnimalType, value: number) => {
+    setConfig(prev => ({ ...prev, [field]: { ...prev[field], [animal]: value } }))
+  }
+
+  const setSpeciesLimit = (animal: AnimalType, value: number) => {
+    setConfig(prev => {
+      const speciesLimits = { ...prev.speciesLimits }
+      if (value > 0) {
+        speciesLimits[animal] = value
+      } else {
+        delete speciesLimits[animal]
+      }
+      return { ...prev, speciesLimits }
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const result = await saveCoolerConfig(config)
+    setSaving(false)
+
+    if (result.success) {
+      toast({
+        title: 'Cooler capacity saved',
+        description: 'Bookings and new slots will be checked against your cooler.',
+      })
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to save cooler capacity',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="border-green-200">
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-700" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const unitLabel = config.unit === 'head' ? 'head' : 'rail ft'
+
+  return (
+    <Card className="border-green-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-green-800">
+          <Snowflake className="h-5 w-5" />
+          Cooler Capacity
+        </CardTitle>
+        <CardDescription>
+          How much your cooler holds and how long each animal hangs. Bookings and new kill
+          slots are checked against the projected cooler load. Leave capacity at 0 to turn
+          checks off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="cooler-unit">Measure capacity in</Label>
+            <select
+              id="cooler-unit"
+              className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+              value={config.unit}
+              onChange={(e) => setConfig(prev => ({ ...prev, unit: e.target.value as CoolerUnit }))}
+            >
+              <option value="head">Head</option>
+              <option value="rail_feet">Rail feet</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cooler-capacity">Cooler capacity ({unitLabel})</Label>
+            <Input
+              id="cooler-capacity"
+              type="number"
+              min="0"
+              value={config.capacity || ''}
+              placeholder="0"
+              onChange={(e) => setConfig(prev => ({ ...prev, capacity: parseFloat(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="cooler-warn">Warn at (% full)</Label>
+            <Input
+              id="cooler-warn"
+              type="number"
+              min="1"
+              max="100"
+              value={config.warnAtPercent}
+              onChange={(e) => setConfig(prev => ({ ...prev, warnAtPercent: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        <div>
+          <div className={`grid ${config.unit === 'rail_feet' ? 'grid-cols-4' : 'grid-cols-3'} gap-3 text-sm font-medium text-gray-500 mb-2`}>
+            <span>Animal</span>
+            <span>Hang days</span>
+            {config.unit === 'rail_feet' && <span>Rail feet per head</span>}
+            <span>Limit ({unitLabel}, optional)</span>
+          </div>
+          <div className="space-y-2">
+            {ANIMALS.map(({ type, label }) => (
+              <div
+                key={type}
+                className={`grid ${config.unit === 'rail_feet' ? 'grid-cols-4' : 'grid-cols-3'} gap-3 items-center`}
+              >
+                <span className="font-medium">{label}</span>
+                <Input
+                  id={`hang-${type}`}
+                  type="number"
+                  min="1"
+                  value={config.hangDays[type]}
+                  onChange={(e) => setAnimalValue('hangDays', type, parseInt(e.target.value) || 0)}
+                />
+                {config.unit === 'rail_feet' && (
+                  <Input
+                    id={`rail-${type}`}
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={config.railFeetPerHead[type]}
+                    onChange={(e) => setAnimalValue('railFeetPerHead', type, parseFloat(e.target.value) || 0)}
+                  />
+                )}
+                <Input
+                  id={`limit-${type}`}
+                  type="number"
+                  min="0"
+                  value={config.speciesLimits[type] || ''}
+                  placeholder="No limit"
+                  onChange={(e) => setSpeciesLimit(type, parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-1 max-w-sm">
+          <Label htmlFor="cooler-enforce">When a booking would overflow the cooler</Label>
+          <select
+            id="cooler-enforce"
+            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+            value={config.enforce}
+            onChange={(e) => setConfig(prev => ({ ...prev, enforce: e.target.value as CoolerEnforcement }))}
+          >
+            <option value="warn">Warn but allow it</option>
+            <option value="block">Block the booking</option>
+          </select>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-green-700 hover:bg-green-800"
+          >
+            {saving ? 'Saving...' : 'Save Cooler Capacity'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
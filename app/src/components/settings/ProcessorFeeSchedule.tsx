@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Separator } from '@/components/ui/separator'
+import { DollarSign } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { AnimalType } from '@/types/database'
+import { getAllCuts } from '@/lib/cut-sheet-schema'
+import {
+  DEFAULT_FEE_SCHEDULE,
+  type FeeSchedule,
+  type SurchargeUnit,
+} from '@/lib/invoicing'
+import { getFeeSchedule, saveFeeSchedule } from '@/lib/actions/invoices'
+
+const ANIMALS: { type: AnimalType; label: string }[] = [
+  { type: 'beef', label: 'Beef' },
+  { type: 'pork', label: 'Pork' },
+  { type: 'lamb', label: 'Lamb' },
+  { type: 'goat', label: 'Goat' },
+]
+
+const SURCHARGE_UNITS: { value: SurchargeUnit; label: string }[] = [
+  { value: 'per_lb', label: 'per lb' },
+  { value: 'per_package', label: 'per package' },
+  { value: 'flat', label: 'flat' },
+]
+
+// Cuts flagged in the schema as needing extra processing (curing, smoking...)
+const SURCHARGE_CUTS = (() => {
+  const cuts = new Map<string, { id: string; name: string; animals: string[] }>()
+  for (const { type, label } of ANIMALS) {
+    for (const cut of getAllCuts(type)) {
+      if (!cut.additionalFee) continue
+      const entry = cuts.get(cut.id) || { id: cut.id, name: cut.name, animals: [] }
+      entry.animals.push(label)
+      cuts.set(cut.id, entry)
+    }
+  }
+  return Array.from(cuts.values())
+})()
+
+function MoneyInput({
+  id,
+  value,
+  onChange,
+}: {
+  id: string
+  value: number | undefined
+  onChange: (value: number) => void
+}) {
+  return (
+    <Input
+      id={id}
+      type="number"
+      min="0"
+      step="0.01"
+      value={value || ''}
+      placeholder="0.00"
+      onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+    />
+  )
+}
+
+export function ProcessorFeeSchedule() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [schedule, setSchedule] = useState<FeeSchedule>(DEFAULT_FEE_SCHEDULE)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    async function loadSchedule() {
+      setSchedule(await getFeeSchedule())
+      setLoading(false)
+    }
+    loadSchedule()
+  }, [])
+
+  const setAnimalFee = (field: 'killFee' | 'cutAndWrapPerLb', animal: AnimalType, value: number) => {
+    setSchedule(prev => ({ ...prev, [field]: { ...prev[field], [animal]: value } }))
+  }
+
+  const setSurcharge = (cutId: string, update: { amount?: number; unit?: SurchargeUnit }) => {
+    setSchedule(prev => {
+      const current = prev.cutSurcharges[cutId] || { amount: 0, unit: 'per_lb' as SurchargeUnit }
+      return { ...prev, cutSurcharges: { ...prev.cutSurcharges, [cutId]: { ...current, ...update } } }
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    const result = await saveFeeSchedule(schedule)
+    setSaving(false)
+
+    if (result.success) {
+      toast({
+        title: 'Fees saved',
+        description: 'New invoices will use this fee schedule.',
+      })
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to save fee schedule',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card className="border-green-200">
+        <CardContent className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-700" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card className="border-green-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-green-800">
+          <DollarSign className="h-5 w-5" />
+          Fee Schedule
+        </CardTitle>
+        <CardDescription>
+          Used to generate itemized invoices from each order&apos;s hanging weight, cut sheet
+          and produced packages. Leave a fee blank to not charge it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Per-animal fees */}
+        <div>
+          <div className="grid grid-cols-3 gap-3 text-sm font-medium text-gray-500 mb-2">
+            <span>Animal</span>
+            <span>Kill fee (per head)</span>
+            <span>Cut &amp; wrap (per lb hanging)</span>
+          </div>
+          <div className="space-y-2">
+            {ANIMALS.map(({ type, label }) => (
+              <div key={type} className="grid grid-cols-3 gap-3 items-center">
+                <span className="font-medium">{label}</span>
+                <MoneyInput
+                  id={`kill-${type}`}
+                  value={schedule.killFee[type]}
+                  onChange={(v) => setAnimalFee('killFee', type, v)}
+                />
+                <MoneyInput
+                  id={`cut-wrap-${type}`}
+                  value={schedule.cutAndWrapPerLb[type]}
+                  onChange={(v) => setAnimalFee('cutAndWrapPerLb', type, v)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 max-w-xs space-y-1">
+            <Label htmlFor="cut-wrap-min">Cut &amp; wrap minimum</Label>
+            <MoneyInput
+              id="cut-wrap-min"
+              value={schedule.cutAndWrapMinimum}
+              onChange={(v) => setSchedule(prev => ({ ...prev, cutAndWrapMinimum: v }))}
+            />
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Per-cut surcharges */}
+        <div>
+          <Label className="text-base">Cut Surcharges</Label>
+          <p className="text-sm text-gray-500 mb-3">Extra processing such as curing and smoking</p>
+          <div className="space-y-2">
+            {SURCHARGE_CUTS.map(cut => {
+              const surcharge = schedule.cutSurcharges[cut.id]
+              return (
+                <div key={cut.id} className="grid grid-cols-3 gap-3 items-center">
+                  <div>
+                    <div className="font-medium text-sm">{cut.name}</div>
+                    <div className="text-xs text-gray-400">{cut.animals.join(', ')}</div>
+                  </div>
+                  <MoneyInput
+                    id={`surcharge-${cut.id}`}
+                    value={surcharge?.amount}
+                    onChange={(v) => setSurcharge(cut.id, { amount: v })}
+                  />
+                  <select
+                    className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                    value={surcharge?.unit || 'per_lb'}
+                    onChange={(e) => setSurcharge(cut.id, { unit: e.target.value as SurchargeUnit })}
+                  >
+                    {SURCHARGE_UNITS.map(unit => (
+                      <option key={unit.value} value={unit.value}>{unit.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Ground, sausage and storage */}
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="patty-fee">Patties (per lb)</Label>
+            <MoneyInput
+              id="patty-fee"
+              value={schedule.pattyFeePerLb}
+              onChange={(v) => setSchedule(prev => ({ ...prev, pattyFeePerLb: v }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sausage-fee">Sausage (per lb)</Label>
+            <MoneyInput
+              id="sausage-fee"
+              value={schedule.sausageFeePerLb}
+              onChange={(v) => setSchedule(prev => ({ ...prev, sausageFeePerLb: v }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="storage-fee">Storage (per day after ready)</Label>
+            <MoneyInput
+              id="storage-fee"
+              value={schedule.storageFeePerDay}
+              onChange={(v) => setSchedule(prev => ({ ...prev, storageFeePerDay: v }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="storage-free">Free storage days</Label>
+            <Input
+              id="storage-free"
+              type="number"
+              min="0"
+              value={schedule.storageFreeDays}
+              onChange={(e) => setSchedule(prev => ({ ...prev, storageFreeDays: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payment-terms">Payment terms (days)</Label>
+            <Input
+              id="payment-terms"
+              type="number"
+              min="0"
+              value={schedule.paymentTermsDays}
+              onChange={(e) => setSchedule(prev => ({ ...prev, paymentTermsDays: parseInt(e.target.value) || 0 }))}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-green-700 hover:bg-green-800"
+          >
+            {saving ? 'Saving...' : 'Save Fee Schedule'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
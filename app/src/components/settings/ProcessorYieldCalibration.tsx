@@ -0,0 +1,200 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Scale, RefreshCw, AlertTriangle, Info } from 'lucide-react'
+import { useToast } from '@/hooks/use-toast'
+import type { AnimalType } from '@/types/database'
+import { CUT_SHEET_SCHEMA } from '@/lib/cut-sheet-schema'
+import { YIELD_PROFILES } from '@/lib/cut-sheet-yield'
+import {
+  MIN_CALIBRATION_SAMPLES,
+  type AnimalYieldCalibration,
+  type YieldCalibration,
+} from '@/lib/yield-calibration'
+import {
+  getYieldCalibration,
+  refreshYieldCalibration,
+} from '@/lib/actions/yield-calibration'
+
+const ANIMAL_LABELS: Record<AnimalType, string> = {
+  beef: 'Beef',
+  pork: 'Pork',
+  lamb: 'Lamb',
+  goat: 'Goat',
+}
+
+function AnimalCalibration({ calibration }: { calibration: AnimalYieldCalibration }) {
+  const generic = YIELD_PROFILES[calibration.animalType].takeHomePercent
+  const inUse = calibration.sampleSize >= MIN_CALIBRATION_SAMPLES
+  const primals = CUT_SHEET_SCHEMA.animals[calibration.animalType].primals
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">{ANIMAL_LABELS[calibration.animalType]}</span>
+        <span className={`text-xs px-2 py-0.5 rounded ${inUse ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+          {inUse ? 'Used for estimates' : `Needs ${MIN_CALIBRATION_SAMPLES}+ orders`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-sm">
+        <div>
+          <div className="text-gray-500">Take-home yield</div>
+          <div className="font-medium">
+            {calibration.sampleSize > 0 ? `${calibration.takeHomePercent.mean}%` : '—'}
+          </div>
+          <div className="text-xs text-gray-400">Generic: {generic.min}-{generic.max}%</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Orders used</div>
+          <div className="font-medium">{calibration.sampleSize}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Skipped</div>
+          <div className="font-medium">{calibration.skippedOrders}</div>
+          <div className="text-xs text-gray-400">Missing weights</div>
+        </div>
+      </div>
+
+      {calibration.primals.length > 0 && (
+        <div>
+          <Label className="text-sm text-gray-500">By Primal (% of take-home)</Label>
+          <ul className="mt-1 text-sm divide-y">
+            {calibration.primals.map(primal => (
+              <li key={primal.primalId} className="flex justify-between py-1">
+                <span>{primals[primal.primalId]?.displayName || primal.primalId}</span>
+                <span className="text-gray-600">
+                  {primal.percentOfTakeHome}% <span className="text-xs text-gray-400">(n={primal.sampleSize})</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {calibration.cuts.length > 0 && (
+        <div>
+          <Label className="text-sm text-gray-500">By Cut (% of hanging weight)</Label>
+          <ul className="mt-1 text-sm divide-y">
+            {calibration.cuts.map(cut => (
+              <li key={cut.cutId} className="flex justify-between py-1">
+                <span>{cut.cutName}</span>
+                <span className="text-gray-600">
+                  {cut.yieldPercent}% <span className="text-xs text-gray-400">(n={cut.sampleSize})</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {calibration.outliers.length > 0 && (
+        <div className="rounded bg-amber-50 border border-amber-200 p-3 text-sm text-amber-800 space-y-1">
+          <div className="font-medium flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            Outliers (excluded)
+          </div>
+          {calibration.outliers.map(outlier => (
+            <div key={outlier.orderId}>
+              Order #{outlier.orderNumber}: {outlier.reason}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ProcessorYieldCalibration() {
+  const [loading, setLoading] = useState(true)
+  const [refreshing, setRefreshing] = useState(false)
+  const [calibration, setCalibration] = useState<YieldCalibration>({})
+  const [calibratedAt, setCalibratedAt] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    async function loadCalibration() {
+      const data = await getYieldCalibration()
+      setCalibration(data.calibration)
+      setCalibratedAt(data.calibratedAt)
+      setLoading(false)
+    }
+    loadCalibration()
+  }, [])
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    const result = await refreshYieldCalibration()
+    setRefreshing(false)
+
+    if (result.success && result.calibration) {
+      setCalibration(result.calibration)
+      setCalibratedAt(new Date().toISOString())
+      toast({
+        title: 'Yields updated',
+        description: 'Learned yields were recalculated from your completed orders.',
+      })
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to recalculate yields',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const animals = (Object.keys(ANIMAL_LABELS) as AnimalType[]).filter(a => calibration[a])
+
+  return (
+    <Card className="border-green-200">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-green-800">
+          <Scale className="h-5 w-5" />
+          Learned Yields
+        </CardTitle>
+        <CardDescription>
+          Actual yields from your completed orders. Once an animal type has enough orders,
+          producers see these figures instead of generic estimates when building cut sheets.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-700" />
+          </div>
+        ) : animals.length === 0 ? (
+          <div className="rounded-lg bg-blue-50 border border-blue-200 p-4 flex gap-3">
+            <Info className="h-5 w-5 text-blue-600 shrink-0 mt-0.5" />
+            <p className="text-sm text-blue-800">
+              No learned yields yet. Enter hanging weights and weigh every package on your
+              orders, then recalculate.
+            </p>
+          </div>
+        ) : (
+          animals.map(animalType => (
+            <AnimalCalibration key={animalType} calibration={calibration[animalType]!} />
+          ))
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            {calibratedAt
+              ? `Last calculated ${new Date(calibratedAt).toLocaleString()}`
+              : 'Never calculated'}
+          </p>
+          <Button
+            onClick={handleRefresh}
+            disabled={refreshing || loading}
+            variant="outline"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+            {refreshing ? 'Calculating...' : 'Recalculate'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowRightLeft } from 'lucide-react'
+import { getSlotTransfers, type SlotTransferWithDetails } from '@/lib/actions/slot-transfers'
+import { isTransferOpen } from '@/lib/slot-transfers'
+import { TransferSlotDialog } from './TransferSlotDialog'
+import { SlotTransferList } from './SlotTransferList'
+
+interface OrderTransferPanelProps {
+  orderId: string
+  organizationId: string
+  isProcessor: boolean
+  canTransfer: boolean      // The viewer owns the order and it hasn't been dropped off
+  onUpdate?: () => void
+}
+
+export function OrderTransferPanel({ orderId, organizationId, isProcessor, canTransfer, onUpdate }: OrderTransferPanelProps) {
+  const [transfers, setTransfers] = useState<SlotTransferWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadTransfers = useCallback(async () => {
+    setTransfers(await getSlotTransfers({ orderId }))
+    setLoading(false)
+  }, [orderId])
+
+  useEffect(() => {
+    loadTransfers()
+  }, [loadTransfers])
+
+  const handleUpdate = () => {
+    loadTransfers()
+    onUpdate?.()
+  }
+
+  if (loading || (transfers.length === 0 && !canTransfer)) return null
+
+  const hasOpenTransfer = transfers.some(isTransferOpen)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Slot Transfer
+          </CardTitle>
+          <CardDescription>
+            {canTransfer
+              ? 'Can\'t make this date? Offer the slot to another producer.'
+              : 'Who this slot has been offered to'}
+          </CardDescription>
+        </div>
+        {canTransfer && !hasOpenTransfer && (
+          <TransferSlotDialog orderId={orderId} onTransferred={handleUpdate} />
+        )}
+      </CardHeader>
+      {transfers.length > 0 && (
+        <CardContent>
+          <SlotTransferList
+            transfers={transfers}
+            organizationId={organizationId}
+            isProcessor={isProcessor}
+            onUpdate={handleUpdate}
+          />
+        </CardContent>
+      )}
+    </Card>
+  )
+}
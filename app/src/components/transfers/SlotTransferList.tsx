@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { TRANSFER_STATUS_LABELS } from '@/lib/slot-transfers'
+import {
+  cancelSlotTransfer,
+  decideSlotTransfer,
+  respondToSlotTransfer,
+  type SlotTransferWithDetails,
+} from '@/lib/actions/slot-transfers'
+import type { SlotTransferStatus } from '@/types/database'
+
+interface SlotTransferListProps {
+  transfers: SlotTransferWithDetails[]
+  organizationId: string
+  isProcessor: boolean
+  onUpdate?: () => void
+}
+
+const STATUS_STYLES: Record<SlotTransferStatus, string> = {
+  pending: 'bg-blue-100 text-blue-700',
+  awaiting_approval: 'bg-amber-100 text-amber-700',
+  completed: 'bg-green-100 text-green-700',
+  declined: 'bg-gray-100 text-gray-600',
+  rejected: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-100 text-gray-600',
+  expired: 'bg-gray-100 text-gray-600',
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+function describeSubject(transfer: SlotTransferWithDetails): string {
+  if (transfer.order) {
+    const dropOff = transfer.order.scheduled_drop_off
+      ? ` - drop-off ${new Date(transfer.order.scheduled_drop_off).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`
+      : ''
+    return `Order #${transfer.order.order_number ?? ''}${dropOff}`
+  }
+  if (transfer.entry) {
+    return `Waitlist spot: ${transfer.entry.animal_type} around ${transfer.entry.preferred_date}`
+  }
+  return transfer.order_id ? 'Order' : 'Waitlist spot'
+}
+
+export function SlotTransferList({ transfers, organizationId, isProcessor, onUpdate }: SlotTransferListProps) {
+  const router = useRouter()
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const run = async (transferId: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusyId(transferId)
+    const result = await action()
+    setBusyId(null)
+
+    if (!result.success) {
+      alert(result.error || 'Failed to update the transfer')
+    }
+    onUpdate?.()
+    router.refresh()
+  }
+
+  if (transfers.length === 0) {
+    return <p className="text-sm text-gray-500">No transfers yet</p>
+  }
+
+  return (
+    <div className="divide-y">
+      {transfers.map((transfer) => {
+        const isSender = transfer.from_producer_id === organizationId
+        const isRecipient = transfer.to_producer_id === organizationId
+        const busy = busyId === transfer.id
+
+        return (
+          <div key={transfer.id} className="py-3 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[transfer.status]}`}>
+                  {TRANSFER_STATUS_LABELS[transfer.status]}
+                </span>
+                <span className="font-medium">{describeSubject(transfer)}</span>
+                {transfer.to_next_in_line && <Badge variant="outline">Next in line</Badge>}
+              </div>
+              <span className="text-xs text-gray-400">{formatDateTime(transfer.created_at)}</span>
+            </div>
+
+            <div className="text-sm text-gray-600">
+              {isSender ? 'You' : transfer.from_producer?.name || 'A producer'}
+              {' to '}
+              {isRecipient ? 'you' : transfer.to_producer?.name || 'another producer'}
+              {transfer.status === 'pending' && ` - respond by ${formatDateTime(transfer.expires_at)}`}
+              {transfer.completed_at && ` - ${formatDateTime(transfer.completed_at)}`}
+            </div>
+
+            {transfer.note && (
+              <div className="text-sm text-gray-500 italic">&quot;{transfer.note}&quot;</div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {isRecipient && transfer.status === 'pending' && (
+                <>
+                  <Button
+                    size="sm"
+                    className="bg-green-700 hover:bg-green-800"
+                    disabled={busy}
+                    onClick={() => run(transfer.id, () => respondToSlotTransfer(transfer.id, true))}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={busy}
+                    onClick={() => run(transfer.id, () => respondToSlotTransfer(transfer.id, false))}
+                  >
+                    Decline
+                  </Button>
+                </>
+              )}
+              {isProcessor && transfer.status === 'awaiting_approval' && (
+                <>
+                  <Button
+                    size="sm"
+                    className="bg-green-700 hover:bg-green-800"
+                    disabled={busy}
+                    onClick={() => run(transfer.id, () => decideSlotTransfer(transfer.id, true))}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600"
+                    disabled={busy}
+                    onClick={() => run(transfer.id, () => decideSlotTransfer(transfer.id, false))}
+                  >
+                    Reject
+                  </Button>
+                </>
+              )}
+              {isSender && (transfer.status === 'pending' || transfer.status === 'awaiting_approval') && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-600"
+                  disabled={busy}
+                  onClick={() => run(transfer.id, () => cancelSlotTransfer(transfer.id))}
+                >
+                  Withdraw
+                </Button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ArrowRightLeft } from 'lucide-react'
+import { createSlotTransfer } from '@/lib/actions/slot-transfers'
+
+interface TransferSlotDialogProps {
+  orderId?: string        // A claimed slot; otherwise a waitlist position
+  entryId?: string
+  onTransferred?: () => void
+}
+
+export function TransferSlotDialog({ orderId, entryId, onTransferred }: TransferSlotDialogProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [nextInLine, setNextInLine] = useState(false)
+  const [email, setEmail] = useState('')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    setSaving(true)
+    setError(null)
+
+    const result = await createSlotTransfer({
+      orderId,
+      entryId,
+      recipientEmail: nextInLine ? undefined : email,
+      nextInLine,
+      note,
+    })
+    setSaving(false)
+
+    if (!result.success) {
+      setError(result.error || 'Failed to offer the transfer')
+      return
+    }
+
+    setOpen(false)
+    setEmail('')
+    setNote('')
+    onTransferred?.()
+    router.refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ArrowRightLeft className="h-4 w-4 mr-1" />
+          Transfer
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{orderId ? 'Transfer Slot' : 'Transfer Waitlist Position'}</DialogTitle>
+          <DialogDescription>
+            {orderId
+              ? 'Offer your processing slot to another producer. Your animal, notes and cut sheet choices stay with you.'
+              : 'Offer your place in line to another producer. It keeps its position.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {orderId && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={nextInLine ? 'outline' : 'default'}
+                onClick={() => setNextInLine(false)}
+              >
+                A specific producer
+              </Button>
+              <Button
+                type="button"
+                variant={nextInLine ? 'default' : 'outline'}
+                onClick={() => setNextInLine(true)}
+              >
+                Next on the waitlist
+              </Button>
+            </div>
+          )}
+          {nextInLine ? (
+            <p className="text-sm text-gray-600">
+              The processor&apos;s next waitlist entry for this date gets the offer. If they pass,
+              it moves down the line.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="transfer-email">Producer&apos;s email</Label>
+              <Input
+                id="transfer-email"
+                type="email"
+                placeholder="name@farm.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="transfer-note">Note (optional)</Label>
+            <Textarea
+              id="transfer-note"
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-green-700 hover:bg-green-800"
+            onClick={handleSubmit}
+            disabled={saving || (!nextInLine && !email.trim())}
+          >
+            {saving ? 'Sending...' : 'Offer Transfer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,173 @@
+/**
+ * Tests for Booking Policy
+ *
+ * Covers:
+ * - Reading stored policies
+ * - Seasons and head booked per season
+ * - Open order, head, waitlist and no-show limits
+ * - Loyalty tiers from completed orders
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseBookingPolicy,
+  getSeasonRange,
+  countSeasonHead,
+  getBookingLimitReached,
+  getWaitlistLimitReached,
+  getLoyaltySince,
+  getLoyaltyTier,
+  describeBookingLimit,
+  DEFAULT_BOOKING_POLICY,
+  type BookingPolicy,
+  type ProducerBookingHistory,
+} from '../booking-policy'
+
+function policy(overrides: Partial<BookingPolicy> = {}): BookingPolicy {
+  return { ...DEFAULT_BOOKING_POLICY, ...overrides }
+}
+
+function history(overrides: Partial<ProducerBookingHistory> = {}): ProducerBookingHistory {
+  return { completedOrders: 0, openOrders: 0, bookedDates: [], activeWaitlistEntries: 0, noShows: 0, ...overrides }
+}
+
+describe('parseBookingPolicy', () => {
+  it('should default to no limits, no approval and a 48 hour window', () => {
+    expect(parseBookingPolicy(null)).toEqual(DEFAULT_BOOKING_POLICY)
+    expect(parseBookingPolicy({})).toEqual(DEFAULT_BOOKING_POLICY)
+    expect(DEFAULT_BOOKING_POLICY.maxOpenOrders).toBe(0)
+    expect(DEFAULT_BOOKING_POLICY.transferWindowHours).toBe(48)
+  })
+
+  it('should keep valid settings', () => {
+    const parsed = parseBookingPolicy({
+      requireTransferApproval: true,
+      transferWindowHours: 12,
+      maxOpenOrders: 4,
+      maxHeadPerSeason: 10,
+      seasonStartMonth: 9,
+      maxWaitlistEntries: 2,
+      loyaltyPriorityOrders: 3,
+      loyaltyTopPriorityOrders: 10,
+      loyaltyLookbackMonths: 0,
+      lateCancelHours: 24,
+      maxNoShows: 2,
+      depositBelowScore: 80,
+      depositAmount: 50,
+    })
+    expect(parsed).toEqual({
+      requireTransferApproval: true,
+      transferWindowHours: 12,
+      maxOpenOrders: 4,
+      maxHeadPerSeason: 10,
+      seasonStartMonth: 9,
+      maxWaitlistEntries: 2,
+      loyaltyPriorityOrders: 3,
+      loyaltyTopPriorityOrders: 10,
+      loyaltyLookbackMonths: 0,
+      lateCancelHours: 24,
+      maxNoShows: 2,
+      depositBelowScore: 80,
+      depositAmount: 50,
+    })
+  })
+
+  it('should cap the transfer window and drop bad values', () => {
+    expect(parseBookingPolicy({ transferWindowHours: 1000 }).transferWindowHours).toBe(336)
+    expect(parseBookingPolicy({ transferWindowHours: 0 }).transferWindowHours).toBe(48)
+    expect(parseBookingPolicy({ maxOpenOrders: -2 }).maxOpenOrders).toBe(0)
+    expect(parseBookingPolicy({ maxHeadPerSeason: 2.7 }).maxHeadPerSeason).toBe(2)
+    expect(parseBookingPolicy({ seasonStartMonth: 13 }).seasonStartMonth).toBe(1)
+    expect(parseBookingPolicy({ depositBelowScore: 150 }).depositBelowScore).toBe(100)
+    expect(parseBookingPolicy({ depositAmount: 25.555 }).depositAmount).toBe(25.56)
+    expect(parseBookingPolicy({ depositAmount: -5 }).depositAmount).toBe(0)
+  })
+
+  it('should count late cancellations within 48 hours unless turned off', () => {
+    expect(parseBookingPolicy({}).lateCancelHours).toBe(48)
+    expect(parseBookingPolicy({ lateCancelHours: 0 }).lateCancelHours).toBe(0)
+  })
+})
+
+describe('seasons', () => {
+  it('should run a calendar year by default', () => {
+    expect(getSeasonRange(policy(), '2025-03-10')).toEqual({ start: '2025-01-01', end: '2026-01-01' })
+  })
+
+  it('should start in the configured month', () => {
+    const fall = policy({ seasonStartMonth: 9 })
+    expect(getSeasonRange(fall, '2025-03-10')).toEqual({ start: '2024-09-01', end: '2025-09-01' })
+    expect(getSeasonRange(fall, '2025-09-01T00:00:00.000Z')).toEqual({ start: '2025-09-01', end: '2026-09-01' })
+  })
+
+  it('should count only head booked in the same season', () => {
+    const booked = history({ bookedDates: ['2024-08-31', '2024-09-01', '2025-02-10', '2025-09-02'] })
+    expect(countSeasonHead(policy({ seasonStartMonth: 9 }), booked, '2025-03-10')).toBe(2)
+  })
+})
+
+describe('getBookingLimitReached', () => {
+  it('should allow anything without limits', () => {
+    expect(getBookingLimitReached(policy(), history({ openOrders: 50 }), 10, '2025-03-10')).toBeNull()
+  })
+
+  it('should stop bookings past the open order limit', () => {
+    const limited = policy({ maxOpenOrders: 3 })
+    expect(getBookingLimitReached(limited, history({ openOrders: 2 }), 1, '2025-03-10')).toBeNull()
+    expect(getBookingLimitReached(limited, history({ openOrders: 2 }), 2, '2025-03-10')).toEqual({
+      code: 'order_limit',
+      limit: 3,
+    })
+  })
+
+  it('should stop bookings past the head per season limit', () => {
+    const limited = policy({ maxHeadPerSeason: 2 })
+    const booked = history({ bookedDates: ['2025-02-01', '2024-11-01'] })
+    expect(getBookingLimitReached(limited, booked, 1, '2025-03-10')).toBeNull()
+    expect(getBookingLimitReached(limited, booked, 2, '2025-03-10')).toEqual({ code: 'head_limit', limit: 2 })
+    // Next season starts over
+    expect(getBookingLimitReached(limited, booked, 2, '2026-01-15')).toBeNull()
+  })
+
+  it('should cap active waitlist entries', () => {
+    const limited = policy({ maxWaitlistEntries: 2 })
+    expect(getWaitlistLimitReached(limited, history({ activeWaitlistEntries: 1 }))).toBeNull()
+    expect(getWaitlistLimitReached(limited, history({ activeWaitlistEntries: 2 }))).toEqual({
+      code: 'waitlist_limit',
+      limit: 2,
+    })
+  })
+
+  it('should stop producers with too many no-shows before any other limit', () => {
+    const limited = policy({ maxNoShows: 2, maxOpenOrders: 1 })
+    expect(getBookingLimitReached(limited, history({ noShows: 1 }), 1, '2025-03-10')).toBeNull()
+    expect(getBookingLimitReached(limited, history({ noShows: 2, openOrders: 5 }), 1, '2025-03-10')).toEqual({
+      code: 'no_show_limit',
+      limit: 2,
+    })
+  })
+
+  it('should explain each limit', () => {
+    expect(describeBookingLimit('order_limit', 1)).toContain('1 open order per producer')
+    expect(describeBookingLimit('head_limit', 20)).toContain('20 head per producer each season')
+    expect(describeBookingLimit('waitlist_limit', 3)).toContain('3 active waitlist entries')
+    expect(describeBookingLimit('no_show_limit', 1)).toContain('1 or more no-shows in the last year')
+  })
+})
+
+describe('loyalty', () => {
+  const loyal = policy({ loyaltyPriorityOrders: 3, loyaltyTopPriorityOrders: 10 })
+
+  it('should raise producers a tier at each threshold', () => {
+    expect(getLoyaltyTier(loyal, 2)).toBe(0)
+    expect(getLoyaltyTier(loyal, 3)).toBe(1)
+    expect(getLoyaltyTier(loyal, 10)).toBe(2)
+    expect(getLoyaltyTier(policy(), 100)).toBe(0)
+  })
+
+  it('should count completed orders from the lookback window', () => {
+    const now = Date.parse('2025-03-10T12:00:00.000Z')
+    expect(getLoyaltySince(policy({ loyaltyLookbackMonths: 12 }), now)).toBe('2024-03-10T12:00:00.000Z')
+    expect(getLoyaltySince(policy({ loyaltyLookbackMonths: 0 }), now)).toBeNull()
+  })
+})
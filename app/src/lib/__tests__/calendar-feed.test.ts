@@ -0,0 +1,446 @@
+/**
+ * Tests for Calendar Feeds
+ *
+ * Covers:
+ * - iCalendar values: escaping, dates and line folding
+ * - Producer and processor feed events, with stable UIDs
+ * - Whole feeds checked against RFC 5545 (validateIcs below)
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDate,
+  formatIcsDateTime,
+  addIcsDays,
+  renderIcsCalendar,
+  type IcsEvent,
+} from '../ics'
+import {
+  buildProducerFeedEvents,
+  buildProcessorFeedEvents,
+  getCalendarFeedUrl,
+  getFeedSince,
+  getFeedUid,
+  isFeedOrder,
+  parseFeedToken,
+  type FeedOrder,
+  type FeedSlot,
+} from '../calendar-feed'
+
+const APP_URL = 'https://app.example.test'
+const NOW = Date.parse('2025-03-10T12:00:00.000Z')
+
+// ============================================================================
+// RFC 5545 validation
+// ============================================================================
+
+const TEXT_PROPERTIES = new Set(['SUMMARY', 'DESCRIPTION', 'LOCATION', 'NAME', 'X-WR-CALNAME', 'X-WR-CALDESC'])
+const EVENT_STATUSES = new Set(['TENTATIVE', 'CONFIRMED', 'CANCELLED'])
+const ONCE_PER_EVENT = ['UID', 'DTSTAMP', 'DTSTART', 'DTEND', 'SUMMARY', 'DESCRIPTION', 'LOCATION', 'URL', 'STATUS', 'LAST-MODIFIED', 'TRANSP']
+
+interface ContentLine {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Every way the text breaks RFC 5545 (section 3): line endings and folding,
+ * content line grammar, component nesting, required and single-use
+ * properties, value formats and TEXT escaping
+ */
+function validateIcs(ics: string): string[] {
+  const errors: string[] = []
+  const encoder = new TextEncoder()
+
+  if (!ics.endsWith('\r\n')) errors.push('must end with CRLF')
+  const physical = ics.split('\r\n').slice(0, -1)
+
+  const unfolded: string[] = []
+  physical.forEach((line, i) => {
+    if (/[\r\n]/.test(line)) errors.push(`line ${i + 1}: bare CR or LF`)
+    if (encoder.encode(line).length > 75) errors.push(`line ${i + 1}: longer than 75 octets`)
+    if (line.startsWith(' ') || line.startsWith('\t')) {
+      if (unfolded.length === 0) errors.push(`line ${i + 1}: continuation with nothing to continue`)
+      else unfolded[unfolded.length - 1] += line.slice(1)
+    } else {
+      unfolded.push(line)
+    }
+  })
+
+  const parsed: ContentLine[] = []
+  for (const line of unfolded) {
+    const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"\x00-\x08\x0A-\x1F\x7F]*"|[^";:,\x00-\x08\x0A-\x1F\x7F]*)(?:,(?:"[^"]*"|[^";:,\x00-\x08\x0A-\x1F\x7F]*))*)*):(.*)$/)
+    if (!match) {
+      errors.push(`not a content line: ${line}`)
+      continue
+    }
+    if (/[\x00-\x08\x0A-\x1F\x7F]/.test(match[3])) errors.push(`control character in ${match[1]}`)
+    const params: Record<string, string> = {}
+    for (const param of match[2].split(';').slice(1)) {
+      const [key, value] = param.split('=')
+      params[key.toUpperCase()] = value
+    }
+    parsed.push({ name: match[1].toUpperCase(), params, value: match[3] })
+  }
+
+  if (parsed[0]?.name !== 'BEGIN' || parsed[0].value !== 'VCALENDAR') errors.push('must start with BEGIN:VCALENDAR')
+  if (parsed[parsed.length - 1]?.name !== 'END' || parsed[parsed.length - 1].value !== 'VCALENDAR') {
+    errors.push('must end with END:VCALENDAR')
+  }
+
+  const stack: { name: string; props: ContentLine[] }[] = []
+  const uids = new Set<string>()
+
+  for (const line of parsed) {
+    if (line.name === 'BEGIN') {
+      stack.push({ name: line.value, props: [] })
+      continue
+    }
+    if (line.name === 'END') {
+      const component = stack.pop()
+      if (!component || component.name !== line.value) {
+        errors.push(`END:${line.value} does not match BEGIN:${component?.name}`)
+        continue
+      }
+      errors.push(...validateComponent(component.name, component.props, uids))
+      continue
+    }
+    if (stack.length === 0) errors.push(`${line.name} outside a component`)
+    else stack[stack.length - 1].props.push(line)
+
+    if (TEXT_PROPERTIES.has(line.name)) errors.push(...validateText(line.name, line.value))
+    if (line.name === 'CATEGORIES') {
+      for (const category of line.value.split(/(?<!\\),/)) errors.push(...validateText(line.name, category))
+    }
+  }
+  if (stack.length > 0) errors.push(`unclosed ${stack.map(c => c.name).join(', ')}`)
+
+  return errors
+}
+
+function validateComponent(name: string, props: ContentLine[], uids: Set<string>): string[] {
+  const errors: string[] = []
+  const count = (prop: string) => props.filter(p => p.name === prop).length
+  const get = (prop: string) => props.find(p => p.name === prop)
+
+  if (name === 'VCALENDAR') {
+    if (count('VERSION') !== 1 || get('VERSION')?.value !== '2.0') errors.push('VCALENDAR needs VERSION:2.0 once')
+    if (count('PRODID') !== 1) errors.push('VCALENDAR needs PRODID once')
+    if (count('CALSCALE') > 1 || (get('CALSCALE') && get('CALSCALE')!.value !== 'GREGORIAN')) errors.push('bad CALSCALE')
+    return errors
+  }
+  if (name !== 'VEVENT') return errors
+
+  for (const prop of ['UID', 'DTSTAMP', 'DTSTART']) {
+    if (count(prop) !== 1) errors.push(`VEVENT needs ${prop} once`)
+  }
+  for (const prop of ONCE_PER_EVENT) {
+    if (count(prop) > 1) errors.push(`VEVENT has ${prop} more than once`)
+  }
+  if (get('DTEND') && get('DURATION')) errors.push('VEVENT has both DTEND and DURATION')
+
+  const uid = get('UID')?.value
+  if (uid) {
+    if (uids.has(uid)) errors.push(`duplicate UID ${uid}`)
+    uids.add(uid)
+  }
+
+  for (const prop of ['DTSTAMP', 'LAST-MODIFIED']) {
+    const value = get(prop)?.value
+    if (value !== undefined && !isUtcDateTime(value)) errors.push(`${prop} is not a UTC DATE-TIME: ${value}`)
+  }
+
+  const start = get('DTSTART')
+  const end = get('DTEND')
+  if (start) {
+    const isDate = start.params.VALUE === 'DATE'
+    if (isDate ? !isDate8(start.value) : !isDateTime(start.value)) errors.push(`bad DTSTART ${start.value}`)
+    if (end) {
+      if ((end.params.VALUE === 'DATE') !== isDate) errors.push('DTEND and DTSTART value types differ')
+      if (end.value <= start.value) errors.push('DTEND is not after DTSTART')
+    }
+  }
+
+  const status = get('STATUS')?.value
+  if (status && !EVENT_STATUSES.has(status)) errors.push(`bad VEVENT STATUS ${status}`)
+
+  const url = get('URL')?.value
+  if (url && !/^[a-z][a-z0-9+.-]*:[^\s]+$/i.test(url)) errors.push(`bad URL ${url}`)
+
+  return errors
+}
+
+// TEXT (3.3.11): ; , and \ only escaped, and only \\ \; \, \n \N escapes
+function validateText(name: string, value: string): string[] {
+  const unescaped = value.replace(/\\[\\;,nN]/g, '')
+  if (/[;,\\]/.test(unescaped)) return [`${name} has an unescaped ; , or \\: ${value}`]
+  return []
+}
+
+function isDate8(value: string): boolean {
+  if (!/^\d{8}$/.test(value)) return false
+  const date = new Date(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T00:00:00Z`)
+  return !isNaN(date.getTime()) && formatIcsDate(date.toISOString()) === value
+}
+
+function isDateTime(value: string): boolean {
+  return /^\d{8}T\d{6}Z?$/.test(value) && isDate8(value.slice(0, 8))
+}
+
+function isUtcDateTime(value: string): boolean {
+  return isDateTime(value) && value.endsWith('Z')
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function order(id: string, overrides: Partial<FeedOrder> = {}): FeedOrder {
+  return {
+    id,
+    order_number: 1042,
+    status: 'confirmed',
+    slot_reserved: true,
+    scheduled_drop_off: '2025-03-14T00:00:00+00:00',
+    estimated_ready_date: '2025-03-28',
+    actual_ready_date: null,
+    pickup_date: null,
+    updated_at: '2025-03-09T18:30:05.123Z',
+    livestock: { animal_type: 'beef', tag_number: '417', name: null },
+    producer: { name: 'Hilltop Farm' },
+    processor: { name: 'Valley Meats', address_line1: '12 Mill Rd', city: 'Ames', state: 'IA', zip: '50010' },
+    ...overrides,
+  }
+}
+
+function slot(id: string, overrides: Partial<FeedSlot> = {}): FeedSlot {
+  return {
+    id,
+    date: '2025-03-14',
+    animal_type: 'beef',
+    capacity: 5,
+    booked_count: 3,
+    is_available: true,
+    notes: null,
+    updated_at: '2025-03-01T09:00:00.000Z',
+    ...overrides,
+  }
+}
+
+function event(overrides: Partial<IcsEvent> = {}): IcsEvent {
+  return {
+    uid: 'order-1-dropoff@steakholders',
+    date: '2025-03-14',
+    summary: 'Drop-off',
+    revisedAt: '2025-03-09T18:30:05.000Z',
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// iCalendar values
+// ============================================================================
+
+describe('iCalendar values', () => {
+  it('should escape TEXT special characters', () => {
+    expect(escapeIcsText('Smith, Jones; \\ Co\nLine 2')).toBe('Smith\\, Jones\\; \\\\ Co\\nLine 2')
+    expect(escapeIcsText('a\r\nb')).toBe('a\\nb')
+  })
+
+  it('should format dates and UTC date-times', () => {
+    expect(formatIcsDate('2025-03-14')).toBe('20250314')
+    expect(formatIcsDate('2025-03-14T00:00:00+00:00')).toBe('20250314')
+    expect(formatIcsDateTime('2025-03-09T18:30:05.123Z')).toBe('20250309T183005Z')
+    expect(addIcsDays('2025-02-28', 1)).toBe('2025-03-01')
+    expect(addIcsDays('2024-12-31T10:00:00Z', 1)).toBe('2025-01-01')
+  })
+
+  it('should leave short lines alone', () => {
+    expect(foldIcsLine('SUMMARY:Drop-off')).toBe('SUMMARY:Drop-off')
+  })
+
+  it('should fold long lines at 75 octets', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`
+    const folded = foldIcsLine(line)
+    const parts = folded.split('\r\n')
+
+    expect(parts.length).toBe(3)
+    expect(parts.every(p => new TextEncoder().encode(p).length <= 75)).toBe(true)
+    expect(parts.slice(1).every(p => p.startsWith(' '))).toBe(true)
+    expect(folded.replace(/\r\n /g, '')).toBe(line)
+  })
+
+  it('should not split multi-byte characters when folding', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}🐄${'ü'.repeat(20)}`
+    const parts = foldIcsLine(line).split('\r\n')
+
+    expect(parts.every(p => new TextEncoder().encode(p).length <= 75)).toBe(true)
+    expect(parts.map((p, i) => (i === 0 ? p : p.slice(1))).join('')).toBe(line)
+  })
+})
+
+describe('renderIcsCalendar', () => {
+  it('should render an empty calendar that validates', () => {
+    const ics = renderIcsCalendar({ name: 'Empty', events: [] })
+    expect(validateIcs(ics)).toEqual([])
+    expect(ics).toContain('VERSION:2.0\r\n')
+    expect(ics).not.toContain('BEGIN:VEVENT')
+  })
+
+  it('should render all-day events with an exclusive end date', () => {
+    const ics = renderIcsCalendar({ name: 'Feed', events: [event({ days: 2 })] })
+    expect(validateIcs(ics)).toEqual([])
+    expect(ics).toContain('DTSTART;VALUE=DATE:20250314\r\n')
+    expect(ics).toContain('DTEND;VALUE=DATE:20250316\r\n')
+    expect(ics).toContain('DTSTAMP:20250309T183005Z\r\n')
+  })
+
+  it('should validate with awkward text, long descriptions and unicode', () => {
+    const ics = renderIcsCalendar({
+      name: 'Smith, Jones; Co',
+      description: 'Line one\nLine two',
+      events: [event({
+        summary: 'Drop-off: Beef "Big Red", tag #7; back gate',
+        description: `Notes: ${'hang 14 days, '.repeat(12)}\\ done`,
+        location: 'Prairie Meats, 1 Main St, Ames, IA 50010',
+        url: `${APP_URL}/dashboard/orders/abc`,
+        status: 'TENTATIVE',
+        categories: ['Drop-off', 'Beef, whole'],
+      }), event({ uid: 'slot-2@steakholders', summary: 'Kill day: Ñandú 🐄' })],
+    })
+
+    expect(validateIcs(ics)).toEqual([])
+  })
+
+  it('should be caught by the validator when broken', () => {
+    const valid = renderIcsCalendar({ name: 'Feed', events: [event(), event({ uid: 'other@steakholders' })] })
+
+    expect(validateIcs(valid.replace(/\r\n/g, '\n'))).not.toEqual([])
+    expect(validateIcs(valid.replace('SUMMARY:Drop-off', 'SUMMARY:Drop-off, late'))).not.toEqual([])
+    expect(validateIcs(valid.replace('UID:other@steakholders', 'UID:order-1-dropoff@steakholders'))).not.toEqual([])
+    expect(validateIcs(valid.replace(/DTSTAMP:[^\r]*\r\n/, ''))).not.toEqual([])
+    expect(validateIcs(valid.replace('PRODID', 'X-PRODID'))).not.toEqual([])
+    expect(validateIcs(valid.replace('DTEND;VALUE=DATE:20250315', 'DTEND;VALUE=DATE:20250314'))).not.toEqual([])
+    expect(validateIcs(valid.replace('END:VEVENT', 'END:VTODO'))).not.toEqual([])
+    expect(validateIcs(valid.replace('SUMMARY:Drop-off', `SUMMARY:${'x'.repeat(80)}`))).not.toEqual([])
+  })
+})
+
+// ============================================================================
+// Feeds
+// ============================================================================
+
+describe('feed URLs', () => {
+  it('should build and read the .ics URL', () => {
+    expect(getCalendarFeedUrl(`${APP_URL}/`, 'abc123')).toBe(`${APP_URL}/api/calendar/abc123.ics`)
+    expect(parseFeedToken('abc123.ics')).toBe('abc123')
+    expect(parseFeedToken('abc123')).toBe('abc123')
+  })
+
+  it('should keep 60 days of history', () => {
+    expect(getFeedSince(NOW)).toBe('2025-01-09')
+  })
+})
+
+describe('buildProducerFeedEvents', () => {
+  it('should add drop-off, ready and pickup days', () => {
+    const events = buildProducerFeedEvents([order('o1', { pickup_date: '2025-04-02T15:00:00+00:00' })], APP_URL)
+
+    expect(events.map(e => [e.uid, e.date.split('T')[0]])).toEqual([
+      ['order-o1-dropoff@steakholders', '2025-03-14'],
+      ['order-o1-ready@steakholders', '2025-03-28'],
+      ['order-o1-pickup@steakholders', '2025-04-02'],
+    ])
+    expect(events[0]).toMatchObject({
+      summary: 'Drop-off: Beef #417 at Valley Meats',
+      description: 'Order #1042 - Beef #417',
+      location: 'Valley Meats, 12 Mill Rd, Ames, IA 50010',
+      url: `${APP_URL}/dashboard/orders/o1`,
+      status: 'CONFIRMED',
+    })
+  })
+
+  it('should prefer the actual ready date and skip missing dates', () => {
+    const events = buildProducerFeedEvents([order('o1', {
+      scheduled_drop_off: null,
+      actual_ready_date: '2025-03-26',
+      livestock: null,
+    })], APP_URL)
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ uid: 'order-o1-ready@steakholders', date: '2025-03-26', summary: 'Ready: Order #1042 at Valley Meats' })
+  })
+
+  it('should leave out cancelled orders and drafts without a place', () => {
+    expect(isFeedOrder({ status: 'cancelled', slot_reserved: true })).toBe(false)
+    expect(isFeedOrder({ status: 'draft', slot_reserved: false })).toBe(false)
+    expect(isFeedOrder({ status: 'draft', slot_reserved: true })).toBe(true)
+
+    const events = buildProducerFeedEvents([
+      order('o1', { status: 'cancelled' }),
+      order('o2', { status: 'draft', slot_reserved: false }),
+      order('o3', { status: 'submitted' }),
+    ], APP_URL)
+    expect(new Set(events.map(e => e.uid.split('-')[1]))).toEqual(new Set(['o3']))
+    expect(events[0].status).toBe('TENTATIVE')
+  })
+
+  it('should keep UIDs stable when an order changes', () => {
+    const before = buildProducerFeedEvents([order('o1')], APP_URL)
+    const after = buildProducerFeedEvents([order('o1', { scheduled_drop_off: '2025-03-21', updated_at: '2025-03-10T08:00:00Z' })], APP_URL)
+
+    expect(after.map(e => e.uid)).toEqual(before.map(e => e.uid))
+    expect(after[0].revisedAt).not.toBe(before[0].revisedAt)
+  })
+
+  it('should render a feed that validates', () => {
+    const ics = renderIcsCalendar({
+      name: 'Hilltop Farm - Processing',
+      events: buildProducerFeedEvents([
+        order('o1', { pickup_date: '2025-04-02T15:00:00+00:00' }),
+        order('o2', { livestock: { animal_type: 'pork', tag_number: null, name: 'Wilbur, Jr.' }, processor: null }),
+      ], APP_URL),
+    })
+
+    expect(validateIcs(ics)).toEqual([])
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(5)
+  })
+})
+
+describe('buildProcessorFeedEvents', () => {
+  it('should add kill days with places booked and each drop-off', () => {
+    const events = buildProcessorFeedEvents([slot('s1')], [order('o1')], APP_URL)
+
+    expect(events.map(e => e.uid)).toEqual([getFeedUid('dropoff', 'o1'), getFeedUid('slot', 's1')])
+    expect(events.find(e => e.uid === 'slot-s1@steakholders')?.summary).toBe('Kill day: Beef - 3 of 5 booked')
+    expect(events.find(e => e.uid === 'order-o1-dropoff@steakholders')?.summary)
+      .toBe('Drop-off: Order #1042 - Hilltop Farm (Beef #417)')
+  })
+
+  it('should mark closed kill days and skip empty closed ones', () => {
+    const events = buildProcessorFeedEvents([
+      slot('s1', { is_available: false, booked_count: 2 }),
+      slot('s2', { is_available: false, booked_count: 0 }),
+    ], [], APP_URL)
+
+    expect(events.map(e => e.summary)).toEqual(['Kill day: Beef - 2 of 5 booked (closed)'])
+  })
+
+  it('should render a feed that validates', () => {
+    const ics = renderIcsCalendar({
+      name: 'Valley Meats - Kill Days',
+      description: 'Kill days with places booked, and each order\'s drop-off',
+      events: buildProcessorFeedEvents(
+        [slot('s1', { notes: 'Beef only; no bulls, please' }), slot('s2', { date: '2025-03-15', animal_type: 'pork' })],
+        [order('o1'), order('o2', { scheduled_drop_off: '2025-03-15', status: 'submitted' }), order('o3', { scheduled_drop_off: null })],
+        APP_URL
+      ),
+    })
+
+    expect(validateIcs(ics)).toEqual([])
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(4)
+  })
+})
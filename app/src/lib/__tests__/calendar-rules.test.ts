@@ -0,0 +1,193 @@
+/**
+ * Tests for Recurring Calendar Slots
+ *
+ * Covers:
+ * - Rule validation and descriptions
+ * - Expanding rules into dates, including every-other-week rules
+ * - Holiday and closure exceptions
+ * - Planning creates, updates and removals without touching booked or
+ *   hand-made slots
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  validateSlotRule,
+  getRuleWindow,
+  getRuleDates,
+  planSlotRule,
+  planSlotRuleRemoval,
+  describeSlotRule,
+  type SlotRuleInput,
+  type ExistingSlot,
+} from '../calendar-rules'
+
+// 2025-01-07 is a Tuesday
+const TUESDAY_BEEF: SlotRuleInput = {
+  animal_type: 'beef',
+  days_of_week: [2],
+  interval_weeks: 1,
+  starts_on: '2025-01-01',
+  ends_on: '2025-12-31',
+  capacity: 6,
+  kill_fee: 85,
+  notes: null,
+}
+
+function slot(overrides: Partial<ExistingSlot>): ExistingSlot {
+  return {
+    id: 'slot',
+    date: '2025-01-07',
+    animal_type: 'beef',
+    capacity: 6,
+    booked_count: 0,
+    kill_fee: 85,
+    notes: null,
+    rule_id: 'rule-1',
+    ...overrides,
+  }
+}
+
+const WINDOW = { from: '2025-01-06', through: '2025-01-31' }
+
+describe('validateSlotRule', () => {
+  it('should accept a valid rule', () => {
+    expect(validateSlotRule(TUESDAY_BEEF)).toBeNull()
+  })
+
+  it('should reject bad days, dates and capacity', () => {
+    expect(validateSlotRule({ ...TUESDAY_BEEF, days_of_week: [] })).toContain('day')
+    expect(validateSlotRule({ ...TUESDAY_BEEF, days_of_week: [7] })).toContain('day')
+    expect(validateSlotRule({ ...TUESDAY_BEEF, ends_on: '2024-12-01' })).toContain('End date')
+    expect(validateSlotRule({ ...TUESDAY_BEEF, capacity: 0 })).toContain('Capacity')
+    expect(validateSlotRule({ ...TUESDAY_BEEF, interval_weeks: 6 })).toContain('weeks')
+  })
+})
+
+describe('describeSlotRule', () => {
+  it('should read like the processor would say it', () => {
+    expect(describeSlotRule(TUESDAY_BEEF)).toBe('Weekly on Tue - Beef - capacity 6 - $85 kill fee - until Dec 31, 2025')
+    expect(describeSlotRule({ ...TUESDAY_BEEF, days_of_week: [4, 2], interval_weeks: 2, kill_fee: null, ends_on: null }))
+      .toBe('Every 2 weeks on Tue, Thu - Beef - capacity 6 - from Jan 1, 2025')
+  })
+})
+
+describe('getRuleWindow', () => {
+  it('should run from today to the horizon', () => {
+    expect(getRuleWindow({ starts_on: '2025-01-01', ends_on: null }, '2025-03-01', 2))
+      .toEqual({ from: '2025-03-01', through: '2025-03-15' })
+  })
+
+  it('should stop at the end date and wait for the start date', () => {
+    expect(getRuleWindow({ starts_on: '2025-03-10', ends_on: '2025-03-12' }, '2025-03-01', 4))
+      .toEqual({ from: '2025-03-10', through: '2025-03-12' })
+    expect(getRuleWindow({ starts_on: '2025-01-01', ends_on: '2025-02-01' }, '2025-03-01')).toBeNull()
+  })
+})
+
+describe('getRuleDates', () => {
+  it('should list each matching weekday', () => {
+    const { dates } = getRuleDates({ ...TUESDAY_BEEF, days_of_week: [2, 4] }, '2025-01-06', '2025-01-19')
+
+    expect(dates).toEqual(['2025-01-07', '2025-01-09', '2025-01-14', '2025-01-16'])
+  })
+
+  it('should count every-other-week from the start week', () => {
+    const { dates } = getRuleDates({ ...TUESDAY_BEEF, interval_weeks: 2, starts_on: '2025-01-07' }, '2025-01-01', '2025-02-10')
+
+    expect(dates).toEqual(['2025-01-07', '2025-01-21', '2025-02-04'])
+  })
+
+  it('should respect the end date', () => {
+    const { dates } = getRuleDates({ ...TUESDAY_BEEF, ends_on: '2025-01-15' }, '2025-01-01', '2025-01-31')
+
+    expect(dates).toEqual(['2025-01-07', '2025-01-14'])
+  })
+
+  it('should skip closures and the rule\'s own exceptions', () => {
+    const { dates, skipped } = getRuleDates({ ...TUESDAY_BEEF, id: 'rule-1' }, '2025-01-06', '2025-01-31', [
+      { date: '2025-01-14', rule_id: null, reason: 'Holiday' },
+      { date: '2025-01-21', rule_id: 'rule-1', reason: null },
+      { date: '2025-01-28', rule_id: 'rule-2', reason: 'Other rule' },
+    ])
+
+    expect(dates).toEqual(['2025-01-07', '2025-01-28'])
+    expect(skipped).toEqual([
+      { date: '2025-01-14', reason: 'Holiday' },
+      { date: '2025-01-21', reason: 'Closed' },
+    ])
+  })
+})
+
+describe('planSlotRule', () => {
+  it('should create every slot for a new rule', () => {
+    const plan = planSlotRule(TUESDAY_BEEF, null, WINDOW, [])
+
+    expect(plan.create.map(s => s.date)).toEqual(['2025-01-07', '2025-01-14', '2025-01-21', '2025-01-28'])
+    expect(plan.create[0]).toEqual({ date: '2025-01-07', animal_type: 'beef', capacity: 6, kill_fee: 85, notes: null })
+  })
+
+  it('should not overwrite slots added by hand', () => {
+    const plan = planSlotRule(TUESDAY_BEEF, 'rule-1', WINDOW, [
+      slot({ id: 'manual', date: '2025-01-14', rule_id: null }),
+      slot({ id: 'pork', date: '2025-01-21', animal_type: 'pork', rule_id: null }),
+    ])
+
+    expect(plan.conflicts).toEqual([{ id: 'manual', date: '2025-01-14' }])
+    expect(plan.create.map(s => s.date)).toEqual(['2025-01-07', '2025-01-21', '2025-01-28'])
+  })
+
+  it('should update empty slots and leave booked ones alone when edited', () => {
+    const edited = { ...TUESDAY_BEEF, capacity: 8 }
+    const plan = planSlotRule(edited, 'rule-1', WINDOW, [
+      slot({ id: 'a', date: '2025-01-07' }),
+      slot({ id: 'b', date: '2025-01-14', booked_count: 3 }),
+      slot({ id: 'c', date: '2025-01-21', capacity: 8 }),
+    ])
+
+    expect(plan.update).toEqual([{ id: 'a', date: '2025-01-07', changes: { capacity: 8 } }])
+    expect(plan.keptBooked).toEqual([{ id: 'b', date: '2025-01-14', booked: 3 }])
+    expect(plan.create.map(s => s.date)).toEqual(['2025-01-28'])
+  })
+
+  it('should remove empty slots the rule no longer covers but keep booked ones', () => {
+    const moved = { ...TUESDAY_BEEF, days_of_week: [4] }
+    const plan = planSlotRule(moved, 'rule-1', WINDOW, [
+      slot({ id: 'a', date: '2025-01-07' }),
+      slot({ id: 'b', date: '2025-01-14', booked_count: 1 }),
+    ])
+
+    expect(plan.remove).toEqual([{ id: 'a', date: '2025-01-07' }])
+    expect(plan.keptBooked).toEqual([{ id: 'b', date: '2025-01-14', booked: 1 }])
+    expect(plan.create.map(s => s.date)).toEqual(['2025-01-09', '2025-01-16', '2025-01-23', '2025-01-30'])
+  })
+
+  it('should remove empty slots on a newly closed date', () => {
+    const plan = planSlotRule(TUESDAY_BEEF, 'rule-1', WINDOW, [slot({ id: 'a', date: '2025-01-14' })], [
+      { date: '2025-01-14', rule_id: null, reason: 'Closed for inventory' },
+    ])
+
+    expect(plan.remove).toEqual([{ id: 'a', date: '2025-01-14' }])
+    expect(plan.skipped).toEqual([{ date: '2025-01-14', reason: 'Closed for inventory' }])
+  })
+
+  it('should only remove slots once the rule has ended', () => {
+    const plan = planSlotRule(TUESDAY_BEEF, 'rule-1', null, [slot({ id: 'a' })])
+
+    expect(plan.create).toEqual([])
+    expect(plan.remove).toEqual([])
+  })
+})
+
+describe('planSlotRuleRemoval', () => {
+  it('should remove upcoming empty slots and keep booked and past ones', () => {
+    const plan = planSlotRuleRemoval('rule-1', [
+      slot({ id: 'past', date: '2025-01-01' }),
+      slot({ id: 'empty', date: '2025-01-14' }),
+      slot({ id: 'booked', date: '2025-01-21', booked_count: 2 }),
+      slot({ id: 'other', date: '2025-01-28', rule_id: 'rule-2' }),
+    ], '2025-01-10')
+
+    expect(plan.remove).toEqual([{ id: 'empty', date: '2025-01-14' }])
+    expect(plan.keptBooked).toEqual([{ id: 'booked', date: '2025-01-21', booked: 2 }])
+  })
+})
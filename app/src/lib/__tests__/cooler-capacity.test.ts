@@ -0,0 +1,149 @@
+/**
+ * Tests for Cooler Capacity
+ *
+ * Covers:
+ * - Config normalization
+ * - Which days each order stage occupies a rail
+ * - Day-by-day occupancy in head and rail feet, with species limits
+ * - Warning about and blocking bookings that overflow the cooler
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseCoolerConfig,
+  getOrderHangWindow,
+  projectCoolerOccupancy,
+  checkCoolerBooking,
+  DEFAULT_COOLER_CONFIG,
+  type CoolerConfig,
+  type CoolerOrder,
+} from '../cooler-capacity'
+
+const TODAY = '2025-03-10'
+
+const CONFIG: CoolerConfig = {
+  ...DEFAULT_COOLER_CONFIG,
+  capacity: 4,
+  hangDays: { beef: 14, pork: 3, lamb: 7, goat: 5 },
+}
+
+function order(overrides: Partial<CoolerOrder>): CoolerOrder {
+  return {
+    animal_type: 'beef',
+    status: 'confirmed',
+    processing_stage: 'pending',
+    scheduled_drop_off: '2025-03-12T00:00:00.000Z',
+    actual_drop_off: null,
+    hang_started_at: null,
+    ...overrides,
+  }
+}
+
+describe('parseCoolerConfig', () => {
+  it('should fall back to defaults for missing or bad values', () => {
+    expect(parseCoolerConfig(null)).toEqual(DEFAULT_COOLER_CONFIG)
+    const config = parseCoolerConfig({ unit: 'rail_feet', capacity: 120, hangDays: { beef: 21, pork: -1 }, enforce: 'nope' })
+
+    expect(config.unit).toBe('rail_feet')
+    expect(config.capacity).toBe(120)
+    expect(config.hangDays).toEqual({ beef: 21, pork: 3, lamb: 7, goat: 5 })
+    expect(config.enforce).toBe('warn')
+  })
+
+  it('should drop empty species limits', () => {
+    expect(parseCoolerConfig({ speciesLimits: { beef: 10, pork: 0 } }).speciesLimits).toEqual({ beef: 10 })
+  })
+})
+
+describe('getOrderHangWindow', () => {
+  it('should start pending orders at their drop-off', () => {
+    expect(getOrderHangWindow(order({}), CONFIG, TODAY)).toEqual({ start: '2025-03-12', end: '2025-03-26' })
+  })
+
+  it('should move late drop-offs to today', () => {
+    const late = order({ scheduled_drop_off: '2025-03-01T00:00:00.000Z' })
+    expect(getOrderHangWindow(late, CONFIG, TODAY)).toEqual({ start: TODAY, end: '2025-03-24' })
+  })
+
+  it('should count hanging orders from when they went on the rail', () => {
+    const hanging = order({ processing_stage: 'hanging', hang_started_at: '2025-03-05T15:30:00.000Z' })
+    expect(getOrderHangWindow(hanging, CONFIG, TODAY)).toEqual({ start: '2025-03-05', end: '2025-03-19' })
+  })
+
+  it('should keep overdue carcasses on the rail today', () => {
+    const overdue = order({ processing_stage: 'hanging', hang_started_at: '2025-02-01T00:00:00.000Z' })
+    expect(getOrderHangWindow(overdue, CONFIG, TODAY)).toEqual({ start: '2025-02-01', end: '2025-03-11' })
+  })
+
+  it('should skip orders off the rail, unscheduled or not yet submitted', () => {
+    expect(getOrderHangWindow(order({ processing_stage: 'cutting' }), CONFIG, TODAY)).toBeNull()
+    expect(getOrderHangWindow(order({ scheduled_drop_off: null }), CONFIG, TODAY)).toBeNull()
+    expect(getOrderHangWindow(order({ status: 'draft' }), CONFIG, TODAY)).toBeNull()
+    expect(getOrderHangWindow(order({ animal_type: null }), CONFIG, TODAY)).toBeNull()
+  })
+})
+
+describe('projectCoolerOccupancy', () => {
+  it('should count head per day', () => {
+    const days = projectCoolerOccupancy([
+      order({}),
+      order({ animal_type: 'pork' }),
+    ], CONFIG, TODAY, 6)
+
+    expect(days.map(d => d.used)).toEqual([0, 0, 2, 2, 2, 1])
+    expect(days[2]).toEqual({ date: '2025-03-12', used: 2, percent: 50, bySpecies: { beef: 1, pork: 1 }, status: 'ok' })
+  })
+
+  it('should convert head to rail feet', () => {
+    const config = { ...CONFIG, unit: 'rail_feet' as const, capacity: 10 }
+    const [day] = projectCoolerOccupancy([order({}), order({ animal_type: 'pork' })], config, '2025-03-12', 1)
+
+    expect(day.used).toBe(4)
+    expect(day.bySpecies).toEqual({ beef: 2.5, pork: 1.5 })
+  })
+
+  it('should flag warn and over days, including species limits', () => {
+    const orders = [order({}), order({}), order({}), order({ scheduled_drop_off: '2025-03-13T00:00:00.000Z' })]
+
+    expect(projectCoolerOccupancy(orders, CONFIG, '2025-03-12', 2).map(d => d.status)).toEqual(['ok', 'warn'])
+    expect(projectCoolerOccupancy(orders, { ...CONFIG, speciesLimits: { beef: 3 } }, '2025-03-13', 1)[0].status)
+      .toBe('over')
+  })
+})
+
+describe('checkCoolerBooking', () => {
+  const orders = [order({}), order({}), order({})]
+
+  it('should pass when the cooler is not set up', () => {
+    const result = checkCoolerBooking({ ...CONFIG, capacity: 0 }, orders, [{ animal_type: 'beef', date: '2025-03-12', head: 10 }], TODAY)
+    expect(result.status).toBe('ok')
+    expect(result.message).toBeNull()
+  })
+
+  it('should warn when a booking fills the cooler', () => {
+    const result = checkCoolerBooking(CONFIG, orders, [{ animal_type: 'beef', date: '2025-03-14', head: 1 }], TODAY)
+
+    expect(result.status).toBe('warn')
+    expect(result.peakPercent).toBe(100)
+    expect(result.blocked).toBe(false)
+  })
+
+  it('should report overflow days and block when enforced', () => {
+    const booking = [{ animal_type: 'beef' as const, date: '2025-03-20', head: 2 }]
+
+    const warned = checkCoolerBooking(CONFIG, orders, booking, TODAY)
+    expect(warned.status).toBe('over')
+    expect(warned.overDates[0]).toBe('2025-03-20')
+    expect(warned.overDates).toHaveLength(6)
+    expect(warned.message).toBe('Cooler would be over capacity on 6 days starting 2025-03-20 (peak 125% on 2025-03-20)')
+    expect(warned.blocked).toBe(false)
+
+    expect(checkCoolerBooking({ ...CONFIG, enforce: 'block' }, orders, booking, TODAY).blocked).toBe(true)
+  })
+
+  it('should ignore days the booking is not hanging', () => {
+    // The cooler is full the week before, but the pork is gone before the beef arrives
+    const result = checkCoolerBooking(CONFIG, orders, [{ animal_type: 'pork', date: '2025-03-26', head: 3 }], TODAY)
+    expect(result.status).toBe('ok')
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * Tests for Cut Sheet Import
+ *
+ * Covers:
+ * - CSV and JSON parsing into sheets
+ * - Mapping free-text cut names by alias and fuzzy match
+ * - Organ, ground and sausage lines
+ * - Review issues: unmapped, fuzzy, duplicate and conflicting cuts
+ * - Building cut sheet records
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  detectImportFormat,
+  parseCutSheetCsv,
+  parseCutSheetJson,
+  matchCutName,
+  resolveImportEntry,
+  setImportAnimal,
+  reviewImportedCutSheet,
+  buildCutSheetImportRecord,
+} from '../cut-sheet-import'
+
+const CSV = [
+  'Customer,Animal,Cut,Thickness,Per Package,Weight (lbs),Notes',
+  'Smith,Beef,Ribeyes,"1""",2,,',
+  'Smith,Beef,NY Strip,1 1/4,2,,"Trim fat, please"',
+  'Smith,Beef,Pot Roast,,,3,',
+  'Smith,Beef,Liver,,,,',
+  'Jones,Pork,Pork Chops,3/4,4,,',
+  'Jones,Pork,Hot Italian Sausage,,,10,',
+].join('\r\n')
+
+describe('detectImportFormat', () => {
+  it('should use the file extension, then the content', () => {
+    expect(detectImportFormat('a,b', 'sheet.json')).toBe('json')
+    expect(detectImportFormat('{"cuts": []}')).toBe('json')
+    expect(detectImportFormat('Cut,Thickness')).toBe('csv')
+  })
+})
+
+describe('parseCutSheetCsv', () => {
+  it('should group rows into sheets by customer', () => {
+    const { sheets, errors } = parseCutSheetCsv(CSV)
+
+    expect(errors).toEqual([])
+    expect(sheets.map(s => [s.name, s.animalType, s.entries.length])).toEqual([
+      ['Smith', 'beef', 4],
+      ['Jones', 'pork', 2],
+    ])
+  })
+
+  it('should read quoted fields and parameters', () => {
+    const [smith] = parseCutSheetCsv(CSV).sheets
+
+    expect(smith.entries[0]).toMatchObject({ source: 'Ribeyes', thickness: '1', piecesPerPackage: 2, line: 2 })
+    expect(smith.entries[1]).toMatchObject({ thickness: '1.25', notes: 'Trim fat, please' })
+    expect(smith.entries[2]).toMatchObject({ weightLbs: 3 })
+  })
+
+  it('should require a cut column', () => {
+    const { sheets, errors } = parseCutSheetCsv('Name,Animal\nSmith,Beef')
+
+    expect(sheets).toEqual([])
+    expect(errors[0]).toContain('cut column')
+  })
+
+  it('should keep unrecognised animals for review', () => {
+    const [sheet] = parseCutSheetCsv('Animal,Cut\nBison,Ribeye').sheets
+
+    expect(sheet.animalType).toBeNull()
+    expect(sheet.animalSource).toBe('Bison')
+    expect(reviewImportedCutSheet(sheet).issues[0]).toMatchObject({ kind: 'animal', severity: 'error' })
+
+    const fixed = setImportAnimal(sheet, 'beef')
+    expect(fixed.entries[0].match).toMatchObject({ kind: 'cut', cutId: 'ribeye' })
+  })
+})
+
+describe('parseCutSheetJson', () => {
+  it('should read the interchange shape', () => {
+    const { sheets, errors } = parseCutSheetJson(JSON.stringify({
+      version: '1.0',
+      cutSheets: [{
+        name: 'Standard Beef',
+        animal: 'beef',
+        hangingWeight: 600,
+        cuts: [
+          { id: 'ribeye', parameters: { thickness: 1.25, perPackage: 2 } },
+          { name: 'Chuck Roast', parameters: { weight: 3 } },
+        ],
+        ground: { type: 'patties', packageSize: 1, pattySize: '1/3' },
+        organs: { liver: true, heart: false },
+        sausages: [{ flavor: 'breakfast', pounds: 5 }],
+        specialInstructions: 'Extra lean',
+      }],
+    }))
+
+    expect(errors).toEqual([])
+    const [sheet] = sheets
+    expect(sheet).toMatchObject({ name: 'Standard Beef', animalType: 'beef', hangingWeight: 600, pattySize: '1/3' })
+    expect(sheet.entries.map(e => e.match.kind)).toEqual(['cut', 'cut', 'ground', 'organ', 'sausage'])
+    expect(sheet.entries[0]).toMatchObject({ thickness: '1.25', piecesPerPackage: 2 })
+  })
+
+  it('should accept a bare sheet and report bad ones', () => {
+    expect(parseCutSheetJson('{"animal": "pork", "cuts": [{"name": "bacon"}]}').sheets).toHaveLength(1)
+    expect(parseCutSheetJson('[{"animal": "pork"}]').errors[0]).toContain('no "cuts" list')
+    expect(parseCutSheetJson('not json').errors).toEqual(['The file is not valid JSON'])
+  })
+})
+
+describe('matchCutName', () => {
+  it('should match schema names and aliases exactly', () => {
+    expect(matchCutName('Rib-Eye Steaks', 'beef')).toMatchObject({ cutId: 'ribeye', exact: true })
+    expect(matchCutName('delmonico', 'beef')).toMatchObject({ cutId: 'ribeye', exact: true })
+    expect(matchCutName('Pot Roast', 'beef')).toMatchObject({ cutId: 'chuck_roast', exact: true })
+    expect(matchCutName('Baby Backs', 'pork')).toMatchObject({ cutId: 'baby_back_ribs', exact: true })
+  })
+
+  it('should fuzzy match typos', () => {
+    expect(matchCutName('Riebye Steak', 'beef')).toMatchObject({ kind: 'cut', cutId: 'ribeye', exact: false })
+    expect(matchCutName('porterhose', 'beef')).toMatchObject({ kind: 'cut', cutId: 'porterhouse', exact: false })
+  })
+
+  it('should leave unknown names unmapped with suggestions', () => {
+    const match = matchCutName('Ribe', 'beef')
+
+    expect(match.kind).toBe('unmapped')
+    expect(matchCutName('zzzz', 'beef')).toEqual({ kind: 'unmapped', suggestions: [] })
+  })
+
+  it('should map organ, ground and sausage lines', () => {
+    expect(matchCutName('Tongue', 'beef')).toEqual({ kind: 'organ', organ: 'tongue' })
+    expect(matchCutName('Soup Bones', 'beef')).toEqual({ kind: 'organ', organ: 'bones' })
+    expect(matchCutName('Ground Beef Patties', 'beef')).toEqual({ kind: 'ground', groundType: 'patties' })
+    expect(matchCutName('Breakfast Sausage', 'pork')).toEqual({ kind: 'sausage', flavor: 'breakfast' })
+  })
+
+  it('should not guess between primals for shared names', () => {
+    // Every beef primal has a "Ground to Hamburger" choice
+    expect(matchCutName('Ground to Hamburger', 'beef')).toMatchObject({ kind: 'ground' })
+    expect(matchCutName('Chuck Ground', 'beef')).toMatchObject({ kind: 'cut', cutId: 'chuck_ground' })
+  })
+})
+
+describe('reviewImportedCutSheet', () => {
+  function beefSheet(cuts: string[]) {
+    return parseCutSheetCsv(['Animal,Cut,Thickness', ...cuts.map(c => `Beef,${c}`)].join('\n')).sheets[0]
+  }
+
+  it('should pass a clean sheet', () => {
+    const review = reviewImportedCutSheet(beefSheet(['Ribeye,1', 'Chuck Roast,']))
+
+    expect(review.issues).toEqual([])
+    expect(review.canImport).toBe(true)
+    expect(review.selections).toEqual([{ cutId: 'ribeye' }, { cutId: 'chuck_roast' }])
+  })
+
+  it('should block unmapped entries until resolved or skipped', () => {
+    const sheet = beefSheet(['Ribeye,1', 'Mystery Meat,'])
+    const review = reviewImportedCutSheet(sheet)
+
+    expect(review.canImport).toBe(false)
+    expect(review.issues[0]).toMatchObject({ kind: 'unmapped', entries: [1] })
+
+    expect(reviewImportedCutSheet(resolveImportEntry(sheet, 1, null)).canImport).toBe(true)
+    const resolved = resolveImportEntry(sheet, 1, 'stew_meat')
+    expect(resolved.entries[1].match).toMatchObject({ kind: 'cut', cutId: 'stew_meat' })
+    expect(reviewImportedCutSheet(resolved).canImport).toBe(true)
+  })
+
+  it('should report conflicting cuts once', () => {
+    const review = reviewImportedCutSheet(beefSheet(['T-Bone,1', 'Porterhouse,1.25']))
+    const conflicts = review.issues.filter(i => i.kind === 'conflict')
+
+    expect(review.canImport).toBe(false)
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0].entries.sort()).toEqual([0, 1])
+  })
+
+  it('should warn about fuzzy matches, duplicates and odd parameters', () => {
+    const review = reviewImportedCutSheet(beefSheet(['Riebye Steak,1', 'Ribeye,1', 'Chuck Steak,3']))
+    const kinds = review.issues.map(i => i.kind)
+
+    expect(review.canImport).toBe(true)
+    expect(kinds).toEqual(['fuzzy', 'duplicate', 'parameter'])
+    expect(review.issues[1].entries).toEqual([0, 1])
+  })
+})
+
+describe('buildCutSheetImportRecord', () => {
+  it('should build cut sheet columns, items and sausages', () => {
+    const [smith, jones] = parseCutSheetCsv(CSV).sheets
+    const beef = buildCutSheetImportRecord(smith)!
+    const pork = buildCutSheetImportRecord(jones)!
+
+    expect(beef).toMatchObject({ animal_type: 'beef', keep_liver: true, keep_heart: false })
+    expect(beef.items.map(i => [i.cut_id, i.cut_category, i.thickness, i.sort_order])).toEqual([
+      ['ribeye', 'steak', '1', 0],
+      ['nystrip', 'steak', '1.25', 1],
+      ['chuck_roast', 'roast', null, 2],
+    ])
+    expect(beef.items[2].weight_lbs).toBe(3)
+    expect(pork.sausages).toEqual([{ flavor: 'hot_italian', pounds: 10 }])
+  })
+
+  it('should leave out skipped entries and set ground options', () => {
+    const [sheet] = parseCutSheetJson(JSON.stringify({
+      animal: 'beef',
+      cuts: [{ id: 'ribeye' }, { id: 'filet' }],
+      ground: { type: 'vacuum', packageSize: 2 },
+    })).sheets
+    const record = buildCutSheetImportRecord(resolveImportEntry(sheet, 1, null))!
+
+    expect(record.items.map(i => i.cut_id)).toEqual(['ribeye'])
+    expect(record).toMatchObject({ ground_type: 'vacuum', ground_package_weight_lbs: 2 })
+  })
+})
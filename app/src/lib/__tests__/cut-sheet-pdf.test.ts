@@ -0,0 +1,149 @@
+/**
+ * Tests for the Cut Sheet PDF
+ *
+ * Covers:
+ * - Cuts grouped by primal with processor changes marked
+ * - Order header, ground, sausage, organ and instruction sections
+ * - PDF structure and page breaks
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildCutSheetPrintout,
+  renderCutSheetPdf,
+  getCutSheetPdfFilename,
+  type CutSheetPdfSource,
+  type CutSheetPdfOrder,
+} from '../cut-sheet-pdf'
+import { wrapText } from '../pdf'
+
+function beefSheet(overrides: Partial<CutSheetPdfSource> = {}): CutSheetPdfSource {
+  return {
+    animal_type: 'beef',
+    hanging_weight_lbs: 610,
+    ground_type: 'vacuum',
+    ground_package_weight_lbs: 1,
+    patty_size: null,
+    keep_liver: true,
+    keep_heart: false,
+    keep_tongue: true,
+    keep_kidneys: false,
+    keep_oxtail: false,
+    keep_bones: false,
+    special_instructions: 'Extra lean ground please',
+    cut_sheet_items: [
+      { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', thickness: '1', weight_lbs: null, pieces_per_package: 2, notes: null },
+      { cut_id: 'nystrip', cut_name: 'NY Strip', thickness: '1', weight_lbs: null, pieces_per_package: 2, notes: 'Trim fat' },
+      { cut_id: 'chuck_roast', cut_name: 'Chuck Roast', thickness: null, weight_lbs: 3, pieces_per_package: null, notes: null },
+    ],
+    cut_sheet_sausages: [{ flavor: 'hot_italian', pounds: 10 }],
+    ...overrides,
+  }
+}
+
+const ORDER: CutSheetPdfOrder = {
+  order_number: 1042,
+  producer_name: 'Hilltop Farm',
+  tracking_id: 'STK-2025-00042',
+  livestock_tag: '17',
+  drop_off_date: '2025-01-17',
+  hanging_weight_lbs: 620,
+}
+
+describe('buildCutSheetPrintout', () => {
+  it('should fill the order header', () => {
+    const printout = buildCutSheetPrintout(beefSheet(), ORDER)
+    const header = Object.fromEntries(printout.header.map(f => [f.label, f.value]))
+
+    expect(printout.title).toBe('Cut Sheet - Order #1042')
+    expect(header).toMatchObject({
+      Order: '#1042',
+      Producer: 'Hilltop Farm',
+      Animal: 'Beef Tag #17',
+      'Tracking ID': 'STK-2025-00042',
+      'Drop-off': 'Jan 17, 2025',
+      'Hanging Weight': '620 lbs',
+    })
+  })
+
+  it('should group cuts by primal with their parameters', () => {
+    const printout = buildCutSheetPrintout(beefSheet(), ORDER)
+    const cuts = printout.primals.flatMap(p => p.cuts)
+
+    expect(printout.primals).toHaveLength(3)
+    expect(cuts[0]).toMatchObject({ name: 'Rib-Eye Steaks', details: ['1"', '2/pkg'], mark: null })
+    expect(cuts[1]).toMatchObject({ name: 'NY Strip', notes: 'Trim fat' })
+    expect(cuts[2]).toMatchObject({ name: 'Chuck Roast', details: ['3 lb'] })
+  })
+
+  it('should mark processor modifications, removals and additions', () => {
+    const printout = buildCutSheetPrintout(beefSheet({
+      processor_modifications: { ribeye: { thickness: '1.5' } },
+      removed_cuts: [{ cut_id: 'nystrip', cut_name: 'NY Strip', reason: 'Went to T-bones' }],
+      added_cuts: [{ cut_id: 'soup_bones', cut_name: 'Soup Bones', params: { pieces_per_package: 3 } }],
+    }), ORDER)
+    const cuts = Object.fromEntries(printout.primals.flatMap(p => p.cuts).map(c => [c.name, c]))
+
+    expect(cuts['Rib-Eye Steaks']).toMatchObject({
+      mark: 'modified',
+      details: ['1.5"', '2/pkg'],
+      change: 'Changed by processor: thickness was 1"',
+    })
+    expect(cuts['NY Strip']).toMatchObject({ mark: 'removed', change: 'Removed by processor: Went to T-bones' })
+    expect(cuts['Soup Bones']).toMatchObject({ mark: 'added', details: ['3/pkg'] })
+  })
+
+  it('should list ground, sausage, organs and instructions', () => {
+    const printout = buildCutSheetPrintout(beefSheet({ processor_notes: 'Hang 14 days' }), ORDER)
+    const sections = Object.fromEntries(printout.sections.map(s => [s.title, s.lines]))
+
+    expect(sections['Ground Meat']).toEqual(['Type: vacuum', 'Package weight: 1 lbs'])
+    expect(sections['Sausage']).toEqual(['Hot Italian: 10 lbs'])
+    expect(sections['Keep']).toEqual(['Liver, Tongue'])
+    expect(sections['Special Instructions']).toEqual(['Extra lean ground please'])
+    expect(sections['Processor Notes']).toEqual(['Hang 14 days'])
+  })
+})
+
+describe('renderCutSheetPdf', () => {
+  it('should write a Letter-size PDF', () => {
+    const pdf = renderCutSheetPdf(beefSheet(), ORDER)
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('/MediaBox [0 0 612 792]')
+    expect(pdf).toContain('(Cut Sheet - Order #1042)')
+    expect(pdf).toContain('(STK-2025-00042)')
+  })
+
+  it('should break long cut sheets across pages', () => {
+    const items = Array.from({ length: 80 }, (_, i) => ({
+      cut_id: `custom_${i}`,
+      cut_name: `Custom Cut ${i}`,
+      thickness: null,
+      weight_lbs: null,
+      pieces_per_package: 2,
+      notes: null,
+    }))
+    const pdf = renderCutSheetPdf(beefSheet({ cut_sheet_items: items }), ORDER)
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1])
+
+    expect(pageCount).toBeGreaterThan(1)
+    expect(pdf).toContain(`Page ${pageCount} of ${pageCount}`)
+    expect(pdf).toContain('(Custom Cut 79)')
+  })
+
+  it('should name the file after the order', () => {
+    expect(getCutSheetPdfFilename(1042)).toBe('cutsheet-order-1042.pdf')
+  })
+})
+
+describe('wrapText', () => {
+  it('should wrap on words and keep line breaks', () => {
+    const lines = wrapText('one two three four five\nsix', 60, 10, 'F1')
+
+    expect(lines.length).toBeGreaterThan(2)
+    expect(lines[lines.length - 1]).toBe('six')
+    expect(lines.join(' ')).toBe('one two three four five six')
+  })
+})
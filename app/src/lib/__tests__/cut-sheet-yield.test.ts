@@ -0,0 +1,278 @@
+/**
+ * Tests for Cut Sheet Yield Engine
+ *
+ * Covers:
+ * - Take-home weight per species
+ * - Split allocations between cuts in a primal
+ * - Co-product cuts (reducesYield, independent, requires)
+ * - Thickness and per-package parameters
+ * - Ground, patties and sausage pooling
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  projectCutSheetYield,
+  formatCutYield,
+  YIELD_PROFILES,
+  type YieldInput,
+} from '../cut-sheet-yield'
+
+function beefInput(overrides: Partial<YieldInput> = {}): YieldInput {
+  return {
+    animalType: 'beef',
+    hangingWeight: 600,
+    selectedCuts: [],
+    ...overrides,
+  }
+}
+
+describe('projectCutSheetYield', () => {
+  describe('Basics', () => {
+    it('should return null without a hanging weight', () => {
+      expect(projectCutSheetYield(beefInput({ hangingWeight: null }))).toBeNull()
+      expect(projectCutSheetYield(beefInput({ hangingWeight: 0 }))).toBeNull()
+    })
+
+    it('should project take-home weight from the species profile', () => {
+      const result = projectCutSheetYield(beefInput())!
+
+      expect(result.takeHomeRange).toEqual({ min: 360, max: 390 })
+      expect(result.takeHomePounds).toBe(375)
+    })
+
+    it('should send everything to ground when no cuts are selected', () => {
+      const result = projectCutSheetYield(beefInput())!
+
+      expect(result.cuts).toHaveLength(0)
+      expect(result.ground.pounds).toBeCloseTo(375, 0)
+    })
+
+    it('should use different profiles per species', () => {
+      const beef = projectCutSheetYield(beefInput({ hangingWeight: 200 }))!
+      const pork = projectCutSheetYield({ animalType: 'pork', hangingWeight: 200, selectedCuts: [] })!
+
+      expect(pork.takeHomePounds).toBeGreaterThan(beef.takeHomePounds)
+    })
+
+    it('should have primal and trim shares summing to 100% for every species', () => {
+      for (const profile of Object.values(YIELD_PROFILES)) {
+        const total = Object.values(profile.primalPercents).reduce((sum, p) => sum + p, 0) + profile.trimPercent
+        expect(total).toBe(100)
+      }
+    })
+  })
+
+  describe('Split allocations (conflictsWith)', () => {
+    it('should give a single cut the whole primal', () => {
+      const result = projectCutSheetYield(beefInput({ selectedCuts: [{ cutId: 'ribeye' }] }))!
+      const ribeye = result.cuts.find(c => c.cutId === 'ribeye')!
+
+      // 9% of 375 lbs take-home
+      expect(ribeye.pounds).toBeCloseTo(33.8, 1)
+    })
+
+    it('should share the primal between soft-conflicting cuts', () => {
+      const result = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye' }, { cutId: 'primerib' }],
+      }))!
+
+      const ribeye = result.cuts.find(c => c.cutId === 'ribeye')!
+      const primeRib = result.cuts.find(c => c.cutId === 'primerib')!
+      expect(ribeye.pounds).toBeCloseTo(primeRib.pounds, 1)
+      expect(ribeye.pounds + primeRib.pounds).toBeCloseTo(33.8, 0)
+    })
+
+    it('should honor split allocation percentages', () => {
+      const result = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye' }, { cutId: 'primerib' }],
+        splitAllocations: { rib: { ribeye: 75, primerib: 25 } },
+      }))!
+
+      const ribeye = result.cuts.find(c => c.cutId === 'ribeye')!
+      const primeRib = result.cuts.find(c => c.cutId === 'primerib')!
+      expect(ribeye.pounds / primeRib.pounds).toBeCloseTo(3, 1)
+    })
+
+    it('should send ground-to-hamburger choices into the ground pool', () => {
+      const withSteaks = projectCutSheetYield(beefInput({ selectedCuts: [{ cutId: 'ribeye' }] }))!
+      const ground = projectCutSheetYield(beefInput({ selectedCuts: [{ cutId: 'rib_ground' }] }))!
+
+      expect(ground.cuts).toHaveLength(0)
+      expect(ground.ground.pounds).toBeGreaterThan(withSteaks.ground.pounds)
+    })
+  })
+
+  describe('Co-product cuts', () => {
+    it('should take a fixed share for reducesYield cuts', () => {
+      const result = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'sirloin_steak' }, { cutId: 'tritip' }],
+      }))!
+
+      const sirloin = result.cuts.find(c => c.cutId === 'sirloin_steak')!
+      const tritip = result.cuts.find(c => c.cutId === 'tritip')!
+      expect(tritip.pounds / (tritip.pounds + sirloin.pounds)).toBeCloseTo(0.2, 2)
+    })
+
+    it('should reduce the affected cut when a reducesYield cut is added', () => {
+      const alone = projectCutSheetYield(beefInput({ selectedCuts: [{ cutId: 'sirloin_steak' }] }))!
+      const reduced = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'sirloin_steak' }, { cutId: 'tritip' }],
+      }))!
+
+      const before = alone.cuts.find(c => c.cutId === 'sirloin_steak')!
+      const after = reduced.cuts.find(c => c.cutId === 'sirloin_steak')!
+      expect(after.pounds).toBeLessThan(before.pounds)
+    })
+
+    it('should split required pairs between both muscles', () => {
+      const result = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'nystrip' }, { cutId: 'filet' }],
+      }))!
+
+      const strip = result.cuts.find(c => c.cutId === 'nystrip')!
+      const filet = result.cuts.find(c => c.cutId === 'filet')!
+      expect(strip.pounds).toBeGreaterThan(filet.pounds)
+      expect(strip.pounds + filet.pounds).toBeCloseTo(30, 0)
+    })
+
+    it('should keep independent cuts alongside the main choice', () => {
+      const result = projectCutSheetYield({
+        animalType: 'pork',
+        hangingWeight: 200,
+        selectedCuts: [{ cutId: 'pork_chops' }, { cutId: 'tenderloin' }],
+      })!
+
+      const tenderloin = result.cuts.find(c => c.cutId === 'tenderloin')!
+      expect(tenderloin.pieces).toBe(2)
+      expect(result.cuts.find(c => c.cutId === 'pork_chops')!.pounds).toBeGreaterThan(tenderloin.pounds)
+    })
+  })
+
+  describe('Cut parameters', () => {
+    it('should produce fewer steaks when cut thicker', () => {
+      const thin = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye' }],
+        cutParameters: { ribeye: { thickness: 0.75 } },
+      }))!
+      const thick = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye' }],
+        cutParameters: { ribeye: { thickness: '1.5' } },
+      }))!
+
+      expect(thick.cuts[0].pieces).toBeLessThan(thin.cuts[0].pieces)
+      expect(thick.cuts[0].thickness).toBe(1.5)
+    })
+
+    it('should package steaks by pieces per package', () => {
+      const twoPerPack = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye' }],
+        cutParameters: { ribeye: { perPackage: 2 } },
+      }))!
+      const fourPerPack = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye' }],
+        cutParameters: { ribeye: { perPackage: 4 } },
+      }))!
+
+      expect(twoPerPack.cuts[0].pieces).toBe(fourPerPack.cuts[0].pieces)
+      expect(twoPerPack.cuts[0].packages).toBe(Math.ceil(twoPerPack.cuts[0].pieces / 2))
+      expect(fourPerPack.cuts[0].packages).toBe(Math.ceil(fourPerPack.cuts[0].pieces / 4))
+    })
+
+    it('should use schema defaults when no parameters are set', () => {
+      const result = projectCutSheetYield(beefInput({ selectedCuts: [{ cutId: 'ribeye' }] }))!
+
+      expect(result.cuts[0].thickness).toBe(1)
+      expect(result.cuts[0].perPackage).toBe(2)
+    })
+
+    it('should size roasts by their weight parameter', () => {
+      const result = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'chuck_roast' }],
+        cutParameters: { chuck_roast: { weight: 4 } },
+      }))!
+
+      const roast = result.cuts[0]
+      expect(roast.pieces).toBe(Math.round(roast.pounds / 4))
+    })
+
+    it('should read parameters from the selection itself', () => {
+      const result = projectCutSheetYield(beefInput({
+        selectedCuts: [{ cutId: 'ribeye', parameters: { thickness: 2 } }],
+      }))!
+
+      expect(result.cuts[0].thickness).toBe(2)
+    })
+  })
+
+  describe('Ground and sausage', () => {
+    it('should package ground by the chosen package weight', () => {
+      const result = projectCutSheetYield(beefInput({ groundPackageWeight: 2 }))!
+
+      expect(result.ground.packageSize).toBe(2)
+      expect(result.ground.packages).toBe(Math.ceil(result.ground.pounds / 2))
+    })
+
+    it('should count patties when ground is made into patties', () => {
+      const result = projectCutSheetYield(beefInput({ groundType: 'patties', pattySize: '1/4' }))!
+
+      expect(result.ground.patties).not.toBeNull()
+      expect(result.ground.patties!.count).toBe(Math.floor(result.ground.pounds / 0.25))
+    })
+
+    it('should take sausage pounds out of the ground pool', () => {
+      const plain = projectCutSheetYield({ animalType: 'pork', hangingWeight: 200, selectedCuts: [] })!
+      const withSausage = projectCutSheetYield({
+        animalType: 'pork',
+        hangingWeight: 200,
+        selectedCuts: [],
+        sausages: [{ flavor: 'hot', pounds: 10 }],
+      })!
+
+      expect(withSausage.sausages).toEqual([{ flavor: 'hot', pounds: 10, packages: 10 }])
+      expect(withSausage.ground.pounds).toBeCloseTo(plain.ground.pounds - 10, 1)
+    })
+  })
+
+  describe('Custom profiles', () => {
+    it('should accept a tuned profile in place of the default', () => {
+      const tuned = { ...YIELD_PROFILES.beef, takeHomePercent: { min: 70, max: 70 } }
+      const result = projectCutSheetYield(beefInput(), tuned)!
+
+      expect(result.takeHomePounds).toBe(420)
+    })
+  })
+})
+
+describe('formatCutYield', () => {
+  it('should describe steak packages with thickness and pack size', () => {
+    const text = formatCutYield({
+      cutId: 'ribeye',
+      cutName: 'Rib-Eye Steaks',
+      primalId: 'rib',
+      type: 'steak',
+      pounds: 30,
+      pieces: 28,
+      perPackage: 2,
+      packages: 14,
+      thickness: 1,
+    })
+
+    expect(text).toBe('~14 packages of 1" Rib-Eye Steaks, 2 per pack')
+  })
+
+  it('should omit thickness and pack size when not applicable', () => {
+    const text = formatCutYield({
+      cutId: 'stew_meat',
+      cutName: 'Stew Meat',
+      primalId: 'chuck',
+      type: 'cubed',
+      pounds: 1,
+      pieces: 1,
+      perPackage: 1,
+      packages: 1,
+      thickness: null,
+    })
+
+    expect(text).toBe('~1 package of Stew Meat')
+  })
+})
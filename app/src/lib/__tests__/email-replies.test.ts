@@ -0,0 +1,277 @@
+/**
+ * Tests for Email Replies
+ *
+ * Covers:
+ * - Signed per-recipient reply addresses
+ * - Stripping quoted history and signatures from replies
+ * - Resend, SendGrid and stub inbound payloads
+ * - Rejecting senders their domain doesn't vouch for
+ * - Resend (Svix) webhook signatures
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import {
+  createReplyAddress,
+  extractReplyText,
+  findReplyAddress,
+  htmlToText,
+  isSenderAuthenticated,
+  parseAuthenticationResults,
+  parseEmailAddress,
+  parseReplyAddress,
+  parseResendInbound,
+  parseSendGridInbound,
+  parseStubInbound,
+  verifyReplySignature,
+  verifySvixSignature,
+  REPLY_ABOVE_LINE,
+  type InboundAuth,
+} from '../email-replies'
+
+const SECRET = 'test-reply-secret'
+const DOMAIN = 'reply.steakholders.test'
+const THREAD = '3f2a9c1e-8b4d-4e6f-a1b2-c3d4e5f60718'
+const USER = '11111111-2222-3333-4444-555555555555'
+const OTHER_USER = '99999999-2222-3333-4444-555555555555'
+
+const NO_AUTH: InboundAuth = { dmarc: null, spf: null, spfDomain: null, dkim: [] }
+
+describe('reply addresses', () => {
+  it('should round-trip the target', () => {
+    const address = createReplyAddress({ kind: 'thread', id: THREAD }, USER, SECRET, DOMAIN)
+    expect(address).toMatch(/^r-t3f2a9c1e8b4d4e6fa1b2c3d4e5f60718-[0-9a-f]{16}@reply\.steakholders\.test$/)
+
+    const parsed = parseReplyAddress(address, DOMAIN)
+    expect(parsed?.target).toEqual({ kind: 'thread', id: THREAD })
+    expect(verifyReplySignature(parsed!.target, parsed!.signature, USER, SECRET)).toBe(true)
+  })
+
+  it('should sign each recipient separately', () => {
+    const mine = parseReplyAddress(createReplyAddress({ kind: 'order', id: THREAD }, USER, SECRET, DOMAIN), DOMAIN)!
+    expect(verifyReplySignature(mine.target, mine.signature, OTHER_USER, SECRET)).toBe(false)
+    expect(verifyReplySignature(mine.target, mine.signature, USER, 'another-secret')).toBe(false)
+  })
+
+  it('should reject a signature moved to another target', () => {
+    const mine = parseReplyAddress(createReplyAddress({ kind: 'thread', id: THREAD }, USER, SECRET, DOMAIN), DOMAIN)!
+    const moved = { kind: 'conversation' as const, id: THREAD }
+    expect(verifyReplySignature(moved, mine.signature, USER, SECRET)).toBe(false)
+  })
+
+  it('should accept addresses in any case, with a display name', () => {
+    const address = createReplyAddress({ kind: 'conversation', id: THREAD }, USER, SECRET, DOMAIN)
+    const parsed = parseReplyAddress(`"Steakholders" <${address.toUpperCase()}>`, DOMAIN)
+    expect(parsed?.target.kind).toBe('conversation')
+    expect(verifyReplySignature(parsed!.target, parsed!.signature, USER, SECRET)).toBe(true)
+  })
+
+  it('should ignore other addresses', () => {
+    expect(parseReplyAddress('orders@steakholders.test', DOMAIN)).toBeNull()
+    expect(parseReplyAddress(`r-t${'0'.repeat(32)}-${'0'.repeat(16)}@elsewhere.test`, DOMAIN)).toBeNull()
+    expect(parseReplyAddress(`r-x${'0'.repeat(32)}-${'0'.repeat(16)}@${DOMAIN}`, DOMAIN)).toBeNull()
+  })
+
+  it('should find the reply address among the recipients', () => {
+    const address = createReplyAddress({ kind: 'thread', id: THREAD }, USER, SECRET, DOMAIN)
+    expect(findReplyAddress(['partner@farm.test', `Steakholders <${address}>, other@farm.test`], DOMAIN)?.target.id).toBe(THREAD)
+    expect(findReplyAddress(['partner@farm.test'], DOMAIN)).toBeNull()
+  })
+
+  it('should parse sender addresses', () => {
+    expect(parseEmailAddress('Jane Smith <Jane@Farm.test>')).toEqual({ email: 'jane@farm.test', name: 'Jane Smith' })
+    expect(parseEmailAddress('"Smith, Jane" <jane@farm.test>')).toEqual({ email: 'jane@farm.test', name: 'Smith, Jane' })
+    expect(parseEmailAddress('jane@farm.test')).toEqual({ email: 'jane@farm.test', name: null })
+    expect(parseEmailAddress('not an address')).toBeNull()
+  })
+})
+
+describe('extractReplyText', () => {
+  it('should drop the quoted Gmail history', () => {
+    const text = [
+      'Yes, Tuesday works. Hang it 14 days please.',
+      '',
+      'On Mon, Jan 6, 2025 at 9:14 AM Steakholders <r-t123@reply.steakholders.test> wrote:',
+      '> Can we move drop-off to Tuesday?',
+    ].join('\n')
+    expect(extractReplyText(text)).toBe('Yes, Tuesday works. Hang it 14 days please.')
+  })
+
+  it('should handle a quote header wrapped onto two lines', () => {
+    const text = 'Sounds good\r\n\r\nOn Mon, Jan 6, 2025 at 9:14 AM Steakholders <\r\nr-t123@reply.steakholders.test> wrote:\r\n> earlier'
+    expect(extractReplyText(text)).toBe('Sounds good')
+  })
+
+  it('should drop Outlook headers and signatures', () => {
+    expect(extractReplyText('Ok\n\nFrom: Steakholders\nSent: Monday\nTo: Jane\nSubject: Order #1042')).toBe('Ok')
+    expect(extractReplyText('Ok\n-----Original Message-----\nFrom: x')).toBe('Ok')
+    expect(extractReplyText('Ok\n\nSent from my iPhone')).toBe('Ok')
+    expect(extractReplyText('Ok\n\nGet Outlook for Android')).toBe('Ok')
+    expect(extractReplyText('Ok\n-- \nJane Smith\nSmith Family Farm\n555-0100')).toBe('Ok')
+  })
+
+  it('should stop at the reply marker', () => {
+    expect(extractReplyText(`Thanks!\n\n${REPLY_ABOVE_LINE}\nReply to this email to respond`)).toBe('Thanks!')
+  })
+
+  it('should keep a reply spread over paragraphs', () => {
+    expect(extractReplyText('First line\n\n\n\nSecond paragraph  \n')).toBe('First line\n\nSecond paragraph')
+  })
+
+  it('should be empty when only quotes remain', () => {
+    expect(extractReplyText('> quoted only\n> more')).toBe('')
+  })
+
+  it('should turn HTML replies into text without the quote', () => {
+    const html = '<div dir="ltr">See you <b>Tuesday</b> &amp; thanks<br></div><div class="gmail_quote">On Mon ... wrote:<blockquote>old</blockquote></div>'
+    expect(htmlToText(html)).toBe('See you Tuesday & thanks')
+  })
+})
+
+describe('sender authentication', () => {
+  const from = 'Jane <jane@farm.test>'
+
+  it('should trust a DMARC pass', () => {
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, dmarc: 'pass' } })).toBe(true)
+  })
+
+  it('should accept aligned DKIM or SPF', () => {
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, dkim: [{ domain: 'farm.test', result: 'pass' }] } })).toBe(true)
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, spf: 'pass', spfDomain: 'mail.farm.test' } })).toBe(true)
+  })
+
+  it('should reject unaligned or failed checks', () => {
+    expect(isSenderAuthenticated({ from, auth: NO_AUTH })).toBe(false)
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, spf: 'pass', spfDomain: 'attacker.test' } })).toBe(false)
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, dkim: [{ domain: 'attacker.test', result: 'pass' }] } })).toBe(false)
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, dkim: [{ domain: 'farm.test', result: 'fail' }] } })).toBe(false)
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, dmarc: 'fail', spf: 'pass', spfDomain: 'farm.test' } })).toBe(false)
+  })
+
+  it('should not treat a lookalike domain as aligned', () => {
+    expect(isSenderAuthenticated({ from, auth: { ...NO_AUTH, spf: 'pass', spfDomain: 'evilfarm.test' } })).toBe(false)
+  })
+
+  it('should read Authentication-Results', () => {
+    const auth = parseAuthenticationResults(
+      'mx.resend.test; spf=pass smtp.mailfrom=bounce@mail.farm.test; dkim=pass header.d=farm.test header.s=s1; dmarc=pass header.from=farm.test'
+    )
+    expect(auth).toEqual({
+      dmarc: 'pass',
+      spf: 'pass',
+      spfDomain: 'mail.farm.test',
+      dkim: [{ domain: 'farm.test', result: 'pass' }],
+    })
+    expect(parseAuthenticationResults(null)).toEqual(NO_AUTH)
+  })
+})
+
+describe('inbound payloads', () => {
+  const reply = createReplyAddress({ kind: 'thread', id: THREAD }, USER, SECRET, DOMAIN)
+
+  it('should read a Resend email.received event', () => {
+    const email = parseResendInbound({
+      type: 'email.received',
+      data: {
+        from: 'Jane <jane@farm.test>',
+        to: [reply],
+        subject: 'Re: Order #1042',
+        text: 'Tuesday works\n\nOn Mon wrote:\n> hi',
+        headers: {
+          'Message-ID': '<abc@farm.test>',
+          'Authentication-Results': 'mx; dmarc=pass header.from=farm.test',
+        },
+        attachments: [
+          { filename: 'carcass.jpg', content_type: 'image/jpeg', content: Buffer.from('jpeg').toString('base64') },
+          { filename: 'no-content.pdf', content_type: 'application/pdf' },
+        ],
+      },
+    })
+
+    expect(email?.from).toBe('Jane <jane@farm.test>')
+    expect(email?.to).toEqual([reply])
+    expect(email?.messageId).toBe('<abc@farm.test>')
+    expect(email?.auth.dmarc).toBe('pass')
+    expect(email?.attachments).toHaveLength(1)
+    expect(email?.attachments[0].content.toString()).toBe('jpeg')
+  })
+
+  it('should ignore other Resend events', () => {
+    expect(parseResendInbound({ type: 'email.delivered', data: {} })).toBeNull()
+    expect(parseResendInbound(null)).toBeNull()
+  })
+
+  it('should read a SendGrid Inbound Parse post', () => {
+    const email = parseSendGridInbound({
+      from: 'Jane <jane@farm.test>',
+      to: reply,
+      subject: 'Re: Order #1042',
+      html: '<p>Tuesday works</p>',
+      SPF: 'pass',
+      dkim: '{@farm.test : pass, @mailer.test : fail}',
+      envelope: JSON.stringify({ to: [reply], from: 'bounce@farm.test' }),
+      headers: 'Message-ID: <abc@farm.test>\nSubject: Re: Order #1042',
+      'attachment-info': JSON.stringify({ attachment1: { filename: 'USDA form.pdf', type: 'application/pdf' } }),
+    }, {
+      attachment1: { filename: 'blob', contentType: 'application/octet-stream', content: Buffer.from('%PDF') },
+    })
+
+    expect(email?.text).toBe('Tuesday works')
+    expect(email?.to).toContain(reply)
+    expect(email?.messageId).toBe('<abc@farm.test>')
+    expect(email?.auth.spf).toBe('pass')
+    expect(email?.auth.spfDomain).toBe('farm.test')
+    expect(email?.auth.dkim).toEqual([
+      { domain: 'farm.test', result: 'pass' },
+      { domain: 'mailer.test', result: 'fail' },
+    ])
+    expect(email?.attachments[0]).toMatchObject({ filename: 'USDA form.pdf', contentType: 'application/pdf' })
+    expect(isSenderAuthenticated(email!)).toBe(true)
+  })
+
+  it('should read the stub format', () => {
+    const email = parseStubInbound({
+      from: 'jane@farm.test',
+      to: [reply],
+      text: 'Tuesday works',
+      auth: { dmarc: 'pass' },
+      attachments: [{ filename: 'a.txt', contentType: 'text/plain', content: Buffer.from('hi').toString('base64') }],
+    })
+
+    expect(email?.messageId).toBeNull()
+    expect(email?.auth).toEqual({ ...NO_AUTH, dmarc: 'pass' })
+    expect(email?.attachments[0].content.toString()).toBe('hi')
+    expect(parseStubInbound({ to: [reply] })).toBeNull()
+  })
+
+  it('should leave a stub sender unauthenticated unless it says otherwise', () => {
+    const email = parseStubInbound({ from: 'jane@farm.test', to: [reply], text: 'hi' })
+    expect(isSenderAuthenticated(email!)).toBe(false)
+  })
+})
+
+describe('verifySvixSignature', () => {
+  const secret = `whsec_${Buffer.from('webhook-secret').toString('base64')}`
+  const body = '{"type":"email.received"}'
+  const now = Date.UTC(2025, 0, 6, 12, 0, 0)
+  const timestamp = String(now / 1000)
+
+  function sign(id: string, ts: string, payload: string): string {
+    return createHmac('sha256', Buffer.from('webhook-secret')).update(`${id}.${ts}.${payload}`).digest('base64')
+  }
+
+  it('should accept a valid signature among several', () => {
+    const signature = `v1,bm90LXRoaXMtb25l v1,${sign('msg_1', timestamp, body)}`
+    expect(verifySvixSignature({ id: 'msg_1', timestamp, signature }, body, secret, now)).toBe(true)
+  })
+
+  it('should reject a changed body or a stale delivery', () => {
+    const signature = `v1,${sign('msg_1', timestamp, body)}`
+    expect(verifySvixSignature({ id: 'msg_1', timestamp, signature }, `${body} `, secret, now)).toBe(false)
+    expect(verifySvixSignature({ id: 'msg_1', timestamp, signature }, body, secret, now + 10 * 60 * 1000)).toBe(false)
+  })
+
+  it('should reject missing headers', () => {
+    expect(verifySvixSignature({ id: null, timestamp, signature: 'v1,x' }, body, secret, now)).toBe(false)
+  })
+})
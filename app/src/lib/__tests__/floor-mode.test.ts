@@ -0,0 +1,126 @@
+/**
+ * Tests for Cut Room Floor Mode
+ *
+ * Covers:
+ * - Grouping cuts into primal steps with processor changes applied
+ * - Package tallies against projected packages
+ * - Keypad weight entry
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildFloorSteps,
+  getFloorTally,
+  pressKeypadKey,
+  parseKeypadWeight,
+  type FloorCutSheet,
+  type KeypadKey,
+} from '../floor-mode'
+
+function beefSheet(overrides: Partial<FloorCutSheet> = {}): FloorCutSheet {
+  return {
+    animal_type: 'beef',
+    hanging_weight_lbs: 600,
+    cut_sheet_items: [
+      { cut_id: 'chuck_roast', cut_name: 'Chuck Roast', thickness: null, pieces_per_package: null },
+      { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', thickness: '1', pieces_per_package: 2 },
+      { cut_id: 'nystrip', cut_name: 'NY Strip', thickness: '1', pieces_per_package: 2 },
+    ],
+    ...overrides,
+  }
+}
+
+function type(keys: KeypadKey[], start = ''): string {
+  return keys.reduce((value, key) => pressKeypadKey(value, key), start)
+}
+
+describe('buildFloorSteps', () => {
+  it('should group cuts by primal in schema order', () => {
+    const steps = buildFloorSteps(beefSheet())
+
+    expect(steps.map(s => s.primalId)).toEqual(['shortLoin', 'rib', 'chuck'])
+    expect(steps[1].primalName).toBeTruthy()
+    expect(steps[1].cuts[0]).toMatchObject({ cutId: 'ribeye', thickness: '1', piecesPerPackage: 2 })
+  })
+
+  it('should project requested packages once the carcass is weighed', () => {
+    const weighed = buildFloorSteps(beefSheet())
+    const unweighed = buildFloorSteps(beefSheet({ hanging_weight_lbs: null }))
+
+    expect(weighed[1].cuts[0].requestedPackages).toBeGreaterThan(0)
+    expect(unweighed[1].cuts[0].requestedPackages).toBeNull()
+  })
+
+  it('should apply processor modifications, removals and additions', () => {
+    const steps = buildFloorSteps(beefSheet({
+      processor_modifications: { ribeye: { thickness: '1.5', notes: 'Bone in' } },
+      removed_cuts: [{ cut_id: 'nystrip' }],
+      added_cuts: [{ cut_id: 'soup_bones', cut_name: 'Soup Bones', params: { pieces_per_package: 3 } }],
+    }))
+    const cuts = steps.flatMap(s => s.cuts)
+
+    expect(cuts.find(c => c.cutId === 'ribeye')).toMatchObject({ thickness: '1.5', notes: 'Bone in' })
+    expect(cuts.some(c => c.cutId === 'nystrip')).toBe(false)
+    expect(steps[steps.length - 1]).toMatchObject({ primalId: 'other', primalName: 'Other Cuts' })
+    expect(steps[steps.length - 1].cuts[0]).toMatchObject({ cutId: 'soup_bones', piecesPerPackage: 3 })
+  })
+
+  it('should count logged packages, including cuts not on the sheet', () => {
+    const steps = buildFloorSteps(beefSheet({
+      produced_packages: [
+        { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', actual_weight_lbs: 1.2 },
+        { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', actual_weight_lbs: 1.15 },
+        { cut_id: 'marrow', cut_name: 'Marrow Bones', actual_weight_lbs: null },
+      ],
+    }))
+    const cuts = steps.flatMap(s => s.cuts)
+
+    expect(cuts.find(c => c.cutId === 'ribeye')).toMatchObject({ loggedPackages: 2, loggedPounds: 2.35 })
+    expect(cuts.find(c => c.cutId === 'marrow')).toMatchObject({ primalId: 'other', loggedPackages: 1, requestedPackages: null })
+  })
+})
+
+describe('getFloorTally', () => {
+  it('should not let extra packages on one cut cover another', () => {
+    const tally = getFloorTally([
+      { cutId: 'a', cutName: 'A', primalId: 'rib', thickness: null, piecesPerPackage: null, notes: null, requestedPackages: 4, loggedPackages: 6, loggedPounds: 7 },
+      { cutId: 'b', cutName: 'B', primalId: 'rib', thickness: null, piecesPerPackage: null, notes: null, requestedPackages: 3, loggedPackages: 1, loggedPounds: 1.5 },
+    ])
+
+    expect(tally).toEqual({ requestedPackages: 7, loggedPackages: 7, loggedPounds: 8.5, remainingPackages: 2 })
+  })
+
+  it('should leave requested counts unknown without projections', () => {
+    const tally = getFloorTally(buildFloorSteps(beefSheet({ hanging_weight_lbs: null })).flatMap(s => s.cuts))
+
+    expect(tally.requestedPackages).toBeNull()
+    expect(tally.remainingPackages).toBeNull()
+  })
+})
+
+describe('pressKeypadKey', () => {
+  it('should build a decimal weight', () => {
+    expect(type(['1', '.', '2', '5'])).toBe('1.25')
+    expect(type(['.', '5'])).toBe('0.5')
+  })
+
+  it('should cap decimals and whole digits', () => {
+    expect(type(['1', '.', '2', '5', '9'])).toBe('1.25')
+    expect(type(['1', '2', '3', '4'])).toBe('123')
+    expect(type(['1', '.', '.'])).toBe('1.')
+  })
+
+  it('should replace a leading zero and support back and clear', () => {
+    expect(type(['0', '7'])).toBe('7')
+    expect(type(['back'], '1.2')).toBe('1.')
+    expect(type(['clear'], '1.2')).toBe('')
+  })
+})
+
+describe('parseKeypadWeight', () => {
+  it('should only accept positive weights', () => {
+    expect(parseKeypadWeight('1.5')).toBe(1.5)
+    expect(parseKeypadWeight('0.')).toBeNull()
+    expect(parseKeypadWeight('')).toBeNull()
+  })
+})
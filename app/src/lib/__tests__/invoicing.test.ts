@@ -0,0 +1,205 @@
+/**
+ * Tests for Invoicing Engine
+ *
+ * Covers:
+ * - Kill and cut & wrap fees, including minimums
+ * - Per-cut surcharges by pound, package and flat rate
+ * - Patty, sausage and storage fees
+ * - Warnings for charges missing data
+ * - Status transitions and stored schedule parsing
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  generateInvoice,
+  getStorageDays,
+  canTransitionInvoice,
+  formatInvoiceNumber,
+  parseFeeSchedule,
+  DEFAULT_FEE_SCHEDULE,
+  type FeeSchedule,
+  type InvoiceInput,
+} from '../invoicing'
+
+function schedule(overrides: Partial<FeeSchedule> = {}): FeeSchedule {
+  return {
+    ...DEFAULT_FEE_SCHEDULE,
+    killFee: { beef: 85, pork: 50 },
+    cutAndWrapPerLb: { beef: 0.95, pork: 0.85 },
+    ...overrides,
+  }
+}
+
+function porkOrder(overrides: Partial<InvoiceInput> = {}): InvoiceInput {
+  return {
+    animalType: 'pork',
+    hangingWeight: 200,
+    groundType: null,
+    cutItems: [],
+    sausages: [],
+    packages: [],
+    actualReadyDate: null,
+    pickupDate: null,
+    ...overrides,
+  }
+}
+
+describe('generateInvoice', () => {
+  describe('Kill and cut & wrap', () => {
+    it('should charge the per-head kill fee and per-lb cut & wrap', () => {
+      const invoice = generateInvoice(porkOrder(), schedule())
+
+      expect(invoice.lineItems).toEqual([
+        { category: 'kill', description: 'Pork kill fee', quantity: 1, unit: 'head', unitPrice: 50, amount: 50 },
+        { category: 'cut_and_wrap', description: 'Cut & wrap', quantity: 200, unit: 'lb', unitPrice: 0.85, amount: 170 },
+      ])
+      expect(invoice.total).toBe(220)
+    })
+
+    it('should apply the cut & wrap minimum to light carcasses', () => {
+      const invoice = generateInvoice(porkOrder({ hangingWeight: 80 }), schedule({ cutAndWrapMinimum: 100 }))
+      const cutAndWrap = invoice.lineItems.find(i => i.category === 'cut_and_wrap')!
+
+      expect(cutAndWrap.amount).toBe(100)
+      expect(cutAndWrap.description).toContain('minimum')
+    })
+
+    it('should warn instead of charging cut & wrap without a hanging weight', () => {
+      const invoice = generateInvoice(porkOrder({ hangingWeight: null }), schedule())
+
+      expect(invoice.lineItems.map(i => i.category)).toEqual(['kill'])
+      expect(invoice.warnings).toHaveLength(1)
+    })
+
+    it('should skip fees the schedule leaves at zero', () => {
+      const invoice = generateInvoice({ ...porkOrder(), animalType: 'goat' }, schedule())
+
+      expect(invoice.lineItems).toHaveLength(0)
+      expect(invoice.total).toBe(0)
+    })
+  })
+
+  describe('Cut surcharges', () => {
+    const bacon = { cut_id: 'bacon', cut_name: 'Bacon (Cured/Smoked)' }
+
+    it('should charge per-lb surcharges on weighed packages', () => {
+      const invoice = generateInvoice(porkOrder({
+        cutItems: [bacon],
+        packages: [
+          { ...bacon, actual_weight_lbs: 1.2 },
+          { ...bacon, actual_weight_lbs: 1.3 },
+        ],
+      }), schedule({ cutSurcharges: { bacon: { amount: 2, unit: 'per_lb' } } }))
+
+      const surcharge = invoice.lineItems.find(i => i.category === 'surcharge')!
+      expect(surcharge).toMatchObject({ cutId: 'bacon', quantity: 2.5, unit: 'lb', amount: 5 })
+    })
+
+    it('should charge per-package and flat surcharges', () => {
+      const input = porkOrder({
+        cutItems: [bacon],
+        packages: [{ ...bacon, actual_weight_lbs: null }, { ...bacon, actual_weight_lbs: null }],
+      })
+
+      const perPackage = generateInvoice(input, schedule({ cutSurcharges: { bacon: { amount: 1.5, unit: 'per_package' } } }))
+      const flat = generateInvoice(input, schedule({ cutSurcharges: { bacon: { amount: 25, unit: 'flat' } } }))
+
+      expect(perPackage.lineItems.find(i => i.category === 'surcharge')!.amount).toBe(3)
+      expect(flat.lineItems.find(i => i.category === 'surcharge')!.amount).toBe(25)
+    })
+
+    it('should warn when per-lb surcharge packages are not weighed', () => {
+      const invoice = generateInvoice(porkOrder({
+        cutItems: [bacon],
+        packages: [{ ...bacon, actual_weight_lbs: null }],
+      }), schedule({ cutSurcharges: { bacon: { amount: 2, unit: 'per_lb' } } }))
+
+      expect(invoice.lineItems.find(i => i.category === 'surcharge')).toBeUndefined()
+      expect(invoice.warnings[0]).toContain('Bacon')
+    })
+
+    it('should warn about additional-fee cuts with no surcharge set', () => {
+      const invoice = generateInvoice(porkOrder({ cutItems: [bacon] }), schedule())
+
+      expect(invoice.warnings).toEqual([expect.stringContaining('none is set')])
+    })
+  })
+
+  describe('Patties, sausage and storage', () => {
+    it('should charge patties on weighed ground packages', () => {
+      const invoice = generateInvoice({
+        ...porkOrder(),
+        animalType: 'beef',
+        hangingWeight: 600,
+        groundType: 'patties',
+        packages: [
+          { cut_id: 'ground_beef', cut_name: 'Ground Beef', actual_weight_lbs: 40 },
+          { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', actual_weight_lbs: 2 },
+        ],
+      }, schedule({ pattyFeePerLb: 0.5 }))
+
+      expect(invoice.lineItems.find(i => i.category === 'patties')).toMatchObject({ quantity: 40, amount: 20 })
+    })
+
+    it('should charge sausage per flavor', () => {
+      const invoice = generateInvoice(porkOrder({
+        sausages: [{ flavor: 'hot_italian', pounds: 10 }, { flavor: 'breakfast', pounds: 5 }],
+      }), schedule({ sausageFeePerLb: 2.25 }))
+
+      const sausage = invoice.lineItems.filter(i => i.category === 'sausage')
+      expect(sausage.map(s => s.description)).toEqual(['Sausage - Hot Italian', 'Sausage - Breakfast'])
+      expect(sausage.map(s => s.amount)).toEqual([22.5, 11.25])
+    })
+
+    it('should charge daily storage after the free days', () => {
+      const invoice = generateInvoice(porkOrder({
+        actualReadyDate: '2025-03-01T00:00:00Z',
+        pickupDate: '2025-03-11T00:00:00Z',
+      }), schedule({ storageFeePerDay: 5, storageFreeDays: 3 }))
+
+      expect(invoice.lineItems.find(i => i.category === 'storage')).toMatchObject({ quantity: 7, amount: 35 })
+    })
+
+    it('should accrue storage up to today when not picked up', () => {
+      const invoice = generateInvoice(porkOrder({
+        actualReadyDate: '2025-03-01T00:00:00Z',
+        asOf: new Date('2025-03-05T15:00:00Z'),
+      }), schedule({ storageFeePerDay: 5 }))
+
+      expect(invoice.lineItems.find(i => i.category === 'storage')!.quantity).toBe(4)
+    })
+  })
+})
+
+describe('getStorageDays', () => {
+  it('should never go negative', () => {
+    expect(getStorageDays('2025-03-01', '2025-03-02', 7)).toBe(0)
+  })
+})
+
+describe('canTransitionInvoice', () => {
+  it('should follow draft -> issued -> paid, with void as an exit', () => {
+    expect(canTransitionInvoice('draft', 'issued')).toBe(true)
+    expect(canTransitionInvoice('issued', 'paid')).toBe(true)
+    expect(canTransitionInvoice('issued', 'void')).toBe(true)
+    expect(canTransitionInvoice('draft', 'paid')).toBe(false)
+    expect(canTransitionInvoice('paid', 'void')).toBe(false)
+    expect(canTransitionInvoice('void', 'draft')).toBe(false)
+  })
+})
+
+describe('formatInvoiceNumber', () => {
+  it('should zero-pad invoice numbers', () => {
+    expect(formatInvoiceNumber(42)).toBe('INV-00042')
+  })
+})
+
+describe('parseFeeSchedule', () => {
+  it('should fill missing fields with defaults', () => {
+    expect(parseFeeSchedule(null)).toEqual(DEFAULT_FEE_SCHEDULE)
+    expect(parseFeeSchedule({ pattyFeePerLb: 0.4, storageFeePerDay: 'x' })).toEqual({
+      ...DEFAULT_FEE_SCHEDULE,
+      pattyFeePerLb: 0.4,
+    })
+  })
+})
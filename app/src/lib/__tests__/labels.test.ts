@@ -0,0 +1,175 @@
+/**
+ * Tests for Package Labels
+ *
+ * Covers:
+ * - Code 128 set B encoding and checksums
+ * - Label fields and inspection legends
+ * - ZPL output for Zebra printers
+ * - PDF structure and page sizing
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  encodeCode128,
+  encodeCode128Values,
+  getCode128Width,
+  buildPackageLabel,
+  getInspectionLegend,
+  parseLabelSize,
+  renderLabelZpl,
+  renderLabelsZpl,
+  renderLabelsPdf,
+  type PackageLabel,
+} from '../labels'
+
+const PACKAGE_ID = '3f2a9c1e-7b4d-4e8a-9c2f-1a2b3c4d5e6f'
+
+function baseLabel(): PackageLabel {
+  return buildPackageLabel(
+    {
+      id: PACKAGE_ID,
+      cut_name: 'Rib-Eye Steaks',
+      package_number: 3,
+      actual_weight_lbs: 1.256,
+      created_at: '2025-03-04T18:30:00Z',
+      livestock_tracking_id: 'STK-2025-00012',
+    },
+    {
+      order_number: 1042,
+      producer_name: 'Smith Cattle Co',
+      farm_name: 'Willow Creek Farm',
+      tracking_id: null,
+      license_type: 'usda',
+      license_number: '12345',
+    }
+  )
+}
+
+function label(overrides: Partial<PackageLabel> = {}): PackageLabel {
+  return { ...baseLabel(), ...overrides }
+}
+
+describe('Code 128', () => {
+  it('should compute the set B checksum', () => {
+    // Start B (104) + 'A' (33 * 1) = 137 % 103 = 34
+    expect(encodeCode128Values('A')).toEqual([104, 33, 34, 106])
+  })
+
+  it('should weight each data character by its position', () => {
+    // 104 + 33*1 + 34*2 = 205 % 103 = 102
+    expect(encodeCode128Values('AB')).toEqual([104, 33, 34, 102, 106])
+  })
+
+  it('should produce 11 modules per symbol and 13 for stop', () => {
+    const widths = encodeCode128(PACKAGE_ID)
+    const total = widths.reduce((sum, w) => sum + w, 0)
+
+    expect(total).toBe(getCode128Width(PACKAGE_ID))
+    expect(widths.length % 2).toBe(1) // Starts and ends with a bar
+  })
+
+  it('should reject characters outside set B', () => {
+    expect(() => encodeCode128('é')).toThrow()
+  })
+})
+
+describe('buildPackageLabel', () => {
+  it('should fill the printed fields from the package and order', () => {
+    expect(baseLabel()).toEqual({
+      packageId: PACKAGE_ID,
+      cutName: 'Rib-Eye Steaks',
+      weight: 'Net Wt 1.26 lb',
+      packageNumber: 'Pkg #3',
+      orderNumber: 'Order #1042',
+      farmName: 'Willow Creek Farm',
+      trackingId: 'STK-2025-00012',
+      processedDate: 'Packed 03/04/2025',
+      inspectionLegend: 'USDA Inspected and Passed - EST. 12345',
+    })
+  })
+
+  it('should leave a blank for unweighed packages', () => {
+    const unweighed = buildPackageLabel(
+      { id: 'p1', cut_name: 'Brisket', package_number: 1, actual_weight_lbs: null, created_at: '2025-03-04T00:00:00Z', livestock_tracking_id: null },
+      { order_number: 1, producer_name: 'Smith Cattle Co', farm_name: null, tracking_id: 'STK-2025-00001', license_type: null, license_number: null }
+    )
+
+    expect(unweighed.weight).toBe('Net Wt ______ lb')
+    expect(unweighed.farmName).toBe('Smith Cattle Co')
+    expect(unweighed.trackingId).toBe('STK-2025-00001')
+  })
+})
+
+describe('getInspectionLegend', () => {
+  it('should mark custom exempt meat not for sale', () => {
+    expect(getInspectionLegend('custom_exempt', '999')).toBe('NOT FOR SALE - Custom Exempt')
+  })
+
+  it('should include the establishment number for inspected plants', () => {
+    expect(getInspectionLegend('state', '77')).toBe('State Inspected and Passed - EST. 77')
+    expect(getInspectionLegend(null, null)).toBe('')
+  })
+})
+
+describe('parseLabelSize', () => {
+  it('should default to 4x2 stock', () => {
+    expect(parseLabelSize('4x3')).toBe('4x3')
+    expect(parseLabelSize('6x4')).toBe('4x2')
+    expect(parseLabelSize(null)).toBe('4x2')
+  })
+})
+
+describe('renderLabelZpl', () => {
+  it('should size the label at 203 dpi and encode the package ID as Code 128', () => {
+    const zpl = renderLabelZpl(label(), '4x3')
+
+    expect(zpl.startsWith('^XA')).toBe(true)
+    expect(zpl.endsWith('^XZ')).toBe(true)
+    expect(zpl).toContain('^PW812')
+    expect(zpl).toContain('^LL609')
+    expect(zpl).toContain(`^BCN,200,Y,N,N^FD${PACKAGE_ID}^FS`)
+    expect(zpl).toContain('Order #1042 - Willow Creek Farm')
+  })
+
+  it('should strip ZPL control characters from field data', () => {
+    const zpl = renderLabelZpl(label({ cutName: 'Ribs ^XZ~JA' }), '4x2')
+
+    expect(zpl).toContain('^FDRibs  XZ JA^FS')
+    expect(zpl.match(/\^XZ/g)).toHaveLength(1)
+  })
+
+  it('should emit one format per label in a batch', () => {
+    const zpl = renderLabelsZpl([label(), label({ packageNumber: 'Pkg #4' })], '4x2')
+
+    expect(zpl.match(/\^XA/g)).toHaveLength(2)
+  })
+})
+
+describe('renderLabelsPdf', () => {
+  it('should produce one page per label sized to the stock', () => {
+    const pdf = renderLabelsPdf([label(), label()], '4x2')
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('/Count 2')
+    expect(pdf.match(/\/MediaBox \[0 0 288 144\]/g)).toHaveLength(2)
+  })
+
+  it('should point the xref table at each object', () => {
+    const pdf = renderLabelsPdf([label()], '4x3')
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1])
+    const offsets = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)))
+
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+  })
+
+  it('should escape text and draw the barcode bars', () => {
+    const pdf = renderLabelsPdf([label({ cutName: 'Chops (thick)' })], '4x2')
+    const bars = pdf.match(/ re f/g)!.length
+
+    expect(pdf).toContain('(Chops \\(thick\\)) Tj')
+    expect(bars).toBe((encodeCode128(PACKAGE_ID).length + 1) / 2)
+  })
+})
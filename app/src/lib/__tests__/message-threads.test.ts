@@ -0,0 +1,107 @@
+/**
+ * Tests for Message Threads
+ *
+ * Covers:
+ * - Thread titles and the other organization in a thread
+ * - Which files can be attached
+ * - Storage paths that keep attachments between two organizations
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  formatFileSize,
+  getAttachmentPath,
+  getThreadPartnerOrgId,
+  getThreadTitle,
+  isAttachmentPathFor,
+  isImageAttachment,
+  sanitizeFileName,
+  validateAttachment,
+  validateAttachments,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+} from '../message-threads'
+
+const PRODUCER = '11111111-1111-1111-1111-111111111111'
+const PROCESSOR = '22222222-2222-2222-2222-222222222222'
+
+function file(name: string, type: string, size: number = 2048) {
+  return { name, type, size }
+}
+
+describe('threads', () => {
+  it('should title a thread by order and cut', () => {
+    expect(getThreadTitle({ cut_name: null }, 1042)).toBe('Order #1042')
+    expect(getThreadTitle({ cut_name: 'Ribeye' }, 1042)).toBe('Order #1042 - Ribeye')
+    expect(getThreadTitle({ cut_name: null }, null)).toBe('Order')
+  })
+
+  it('should find the other organization', () => {
+    const thread = { producer_org_id: PRODUCER, processor_org_id: PROCESSOR }
+    expect(getThreadPartnerOrgId(thread, PRODUCER)).toBe(PROCESSOR)
+    expect(getThreadPartnerOrgId(thread, PROCESSOR)).toBe(PRODUCER)
+  })
+})
+
+describe('validateAttachment', () => {
+  it('should accept photos, PDFs and documents', () => {
+    expect(validateAttachment(file('carcass.jpg', 'image/jpeg'))).toBeNull()
+    expect(validateAttachment(file('IMG_0042.HEIC', 'image/heic'))).toBeNull()
+    expect(validateAttachment(file('usda-form.pdf', 'application/pdf'))).toBeNull()
+    expect(validateAttachment(file('weights.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'))).toBeNull()
+  })
+
+  it('should reject other types, empty files and large files', () => {
+    expect(validateAttachment(file('run.exe', 'application/x-msdownload'))).toContain("isn't a photo")
+    expect(validateAttachment(file('unknown', ''))).toContain("isn't a photo")
+    expect(validateAttachment(file('empty.pdf', 'application/pdf', 0))).toBe('empty.pdf is empty')
+    expect(validateAttachment(file('huge.jpg', 'image/jpeg', MAX_ATTACHMENT_BYTES + 1))).toBe('huge.jpg is larger than 10 MB')
+    expect(validateAttachment(file('limit.jpg', 'image/jpeg', MAX_ATTACHMENT_BYTES))).toBeNull()
+  })
+
+  it('should limit the files per message', () => {
+    const photos = Array.from({ length: MAX_ATTACHMENTS_PER_MESSAGE }, (_, i) => file(`${i}.jpg`, 'image/jpeg'))
+    expect(validateAttachments(photos)).toBeNull()
+    expect(validateAttachments([...photos, file('extra.jpg', 'image/jpeg')])).toBe('Attach up to 5 files per message')
+    expect(validateAttachments([photos[0], file('bad.zip', 'application/zip')])).toContain('bad.zip')
+  })
+})
+
+describe('attachment paths', () => {
+  it('should make file names safe for storage', () => {
+    expect(sanitizeFileName('Carcass photo (left side).JPG')).toBe('Carcass-photo-left-side.jpg')
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd')
+    expect(sanitizeFileName('C:\\Users\\me\\USDA form #7.pdf')).toBe('USDA-form-7.pdf')
+    expect(sanitizeFileName('Étiquette.pdf')).toBe('Etiquette.pdf')
+    expect(sanitizeFileName('.pdf')).toBe('pdf')
+    expect(sanitizeFileName('???.png')).toBe('file.png')
+  })
+
+  it('should put files under the sender then the recipient', () => {
+    const path = getAttachmentPath(PRODUCER, PROCESSOR, 'abc', 'carcass photo.jpg')
+    expect(path).toBe(`${PRODUCER}/${PROCESSOR}/abc/carcass-photo.jpg`)
+    expect(isAttachmentPathFor(path, PRODUCER, PROCESSOR)).toBe(true)
+  })
+
+  it('should reject paths for another conversation', () => {
+    const path = getAttachmentPath(PRODUCER, PROCESSOR, 'abc', 'a.jpg')
+    expect(isAttachmentPathFor(path, PROCESSOR, PRODUCER)).toBe(false)
+    expect(isAttachmentPathFor(`${PRODUCER}/${PROCESSOR}/a.jpg`, PRODUCER, PROCESSOR)).toBe(false)
+    expect(isAttachmentPathFor(`${PRODUCER}/${PROCESSOR}//a.jpg`, PRODUCER, PROCESSOR)).toBe(false)
+  })
+})
+
+describe('display helpers', () => {
+  it('should show browser-viewable images inline', () => {
+    expect(isImageAttachment('image/png')).toBe(true)
+    expect(isImageAttachment('image/heic')).toBe(false)
+    expect(isImageAttachment('application/pdf')).toBe(false)
+  })
+
+  it('should format file sizes', () => {
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(2048)).toBe('2 KB')
+    expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5 MB')
+    expect(formatFileSize(10 * 1024 * 1024)).toBe('10 MB')
+  })
+})
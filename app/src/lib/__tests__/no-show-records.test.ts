@@ -0,0 +1,123 @@
+/**
+ * Tests for keeping the reliability record in Postgres
+ *
+ * Runs apply_order_reliability against a local Supabase (`supabase start`
+ * with the migrations applied). Skipped unless these are set:
+ *
+ *   SUPABASE_TEST_URL=http://127.0.0.1:54321
+ *   SUPABASE_TEST_ANON_KEY=...
+ *   SUPABASE_TEST_SERVICE_ROLE_KEY=...
+ *
+ * Covers:
+ * - A producer can't reopen a no-show or cancelled order
+ * - A producer can't rewrite how their cancellation was recorded
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+const url = process.env.SUPABASE_TEST_URL
+const anonKey = process.env.SUPABASE_TEST_ANON_KEY
+const serviceKey = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY
+const runDbTests = Boolean(url && anonKey && serviceKey)
+
+const RUN_ID = Date.now().toString(36)
+const HOUR = 3600000
+
+describe.skipIf(!runDbTests)('reliability record against Postgres', () => {
+  let admin: SupabaseClient
+  let producer: SupabaseClient
+  let processorId: string
+  let producerId: string
+  let authId: string
+
+  async function createOrg(name: string, type: 'producer' | 'processor'): Promise<string> {
+    const { data, error } = await admin
+      .from('organizations')
+      .insert({ name: `${name} ${RUN_ID}`, type })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id
+  }
+
+  async function createOrder(dropOffInHours: number): Promise<string> {
+    const { data, error } = await admin
+      .from('processing_orders')
+      .insert({
+        producer_id: producerId,
+        processor_id: processorId,
+        status: 'confirmed',
+        scheduled_drop_off: new Date(Date.now() + dropOffInHours * HOUR).toISOString(),
+      })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id
+  }
+
+  async function getRecord(orderId: string) {
+    const { data } = await admin
+      .from('processing_orders')
+      .select('status, no_show_at, late_cancellation, cancelled_at, cancelled_by')
+      .eq('id', orderId)
+      .single()
+    return data
+  }
+
+  beforeAll(async () => {
+    admin = createClient(url!, serviceKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+    processorId = await createOrg('processor', 'processor')
+    producerId = await createOrg('producer', 'producer')
+
+    const email = `producer-${RUN_ID}@example.test`
+    const password = `pw-${RUN_ID}-producer`
+    const { data: auth, error: authError } = await admin.auth.admin.createUser({ email, password, email_confirm: true })
+    if (authError) throw authError
+    authId = auth.user.id
+    const { error: userError } = await admin
+      .from('users')
+      .insert({ auth_id: authId, email, organization_id: producerId, role: 'owner' })
+    if (userError) throw userError
+
+    producer = createClient(url!, anonKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+    const { error: signInError } = await producer.auth.signInWithPassword({ email, password })
+    if (signInError) throw signInError
+  }, 30000)
+
+  afterAll(async () => {
+    if (!admin) return
+    await admin.from('processing_orders').delete().eq('processor_id', processorId)
+    if (authId) await admin.auth.admin.deleteUser(authId)
+    await admin.from('organizations').delete().in('id', [processorId, producerId])
+  })
+
+  it('should not let the producer reopen a no-show', async () => {
+    const orderId = await createOrder(-2)
+    await admin.from('processing_orders').update({ status: 'cancelled', no_show_at: new Date().toISOString() }).eq('id', orderId)
+    const marked = await getRecord(orderId)
+
+    const { error } = await producer.from('processing_orders').update({ status: 'draft' }).eq('id', orderId)
+    expect(error?.message).toBe('order_cancelled')
+
+    const { error: deleteError } = await producer.from('processing_orders').delete().eq('id', orderId)
+    expect(deleteError).toBeNull()
+    expect(await getRecord(orderId)).toEqual(marked)
+  })
+
+  it('should not let the producer rewrite a late cancellation', async () => {
+    const orderId = await createOrder(2)
+    const { error: cancelError } = await producer.from('processing_orders').update({ status: 'cancelled' }).eq('id', orderId)
+    expect(cancelError).toBeNull()
+
+    const cancelled = await getRecord(orderId)
+    expect(cancelled).toMatchObject({ late_cancellation: true, cancelled_by: producerId })
+
+    const { error } = await producer
+      .from('processing_orders')
+      .update({ late_cancellation: false, cancelled_at: null, cancelled_by: null })
+      .eq('id', orderId)
+    expect(error).toBeNull()
+    expect(await getRecord(orderId)).toEqual(cancelled)
+  })
+})
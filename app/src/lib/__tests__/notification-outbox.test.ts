@@ -0,0 +1,209 @@
+/**
+ * Tests for the Notification Outbox
+ *
+ * Covers:
+ * - Exponential backoff and the dead letter state
+ * - Resend and Twilio delivery webhooks
+ * - The worker: sending, recording provider message IDs, retrying failures
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  getFailureUpdate,
+  getRetryDelay,
+  OUTBOX_MAX_ATTEMPTS,
+  parseResendDeliveryEvent,
+  parseTwilioDeliveryStatus,
+  summarizeOutbox,
+  type OutboxEmailPayload,
+  type OutboxJob,
+} from '../notification-outbox'
+import { processOutbox, type EmailSender } from '../notifications/outbox'
+import { createFakeSmsProvider } from '../sms'
+
+const NOW = new Date('2025-01-15T12:00:00Z')
+const MINUTE = 60 * 1000
+
+describe('getRetryDelay', () => {
+  it('should double the wait after each failure, up to 4 hours', () => {
+    expect(getRetryDelay(1)).toBe(5 * MINUTE)
+    expect(getRetryDelay(2)).toBe(10 * MINUTE)
+    expect(getRetryDelay(4)).toBe(40 * MINUTE)
+    expect(getRetryDelay(20)).toBe(240 * MINUTE)
+  })
+})
+
+describe('getFailureUpdate', () => {
+  it('should retry until the last attempt', () => {
+    expect(getFailureUpdate(1, 'Timed out', NOW)).toEqual({
+      status: 'failed',
+      next_attempt_at: '2025-01-15T12:05:00.000Z',
+      last_error: 'Timed out',
+    })
+  })
+
+  it('should give up after the last attempt', () => {
+    expect(getFailureUpdate(OUTBOX_MAX_ATTEMPTS, 'Timed out', NOW).status).toBe('dead')
+  })
+})
+
+describe('summarizeOutbox', () => {
+  it('should count deliveries by status', () => {
+    expect(summarizeOutbox([{ status: 'sent' }, { status: 'sent' }, { status: 'dead' }]))
+      .toEqual({ queued: 0, sent: 2, bounced: 0, failed: 0, dead: 1 })
+  })
+})
+
+describe('delivery webhooks', () => {
+  it('should read Resend bounces and complaints', () => {
+    expect(parseResendDeliveryEvent({
+      type: 'email.bounced',
+      data: { email_id: 'em_1', bounce: { message: 'Mailbox does not exist' } },
+    })).toEqual({ providerMessageId: 'em_1', reason: 'Mailbox does not exist' })
+    expect(parseResendDeliveryEvent({ type: 'email.complained', data: { email_id: 'em_2' } })?.reason)
+      .toBe('Marked as spam by the recipient')
+  })
+
+  it('should ignore other Resend events', () => {
+    expect(parseResendDeliveryEvent({ type: 'email.delivered', data: { email_id: 'em_1' } })).toBeNull()
+    expect(parseResendDeliveryEvent(null)).toBeNull()
+  })
+
+  it('should read undelivered texts from Twilio status callbacks', () => {
+    expect(parseTwilioDeliveryStatus({ MessageSid: 'SM1', MessageStatus: 'undelivered', ErrorCode: '30003' }))
+      .toEqual({ providerMessageId: 'SM1', reason: 'Twilio error 30003' })
+    expect(parseTwilioDeliveryStatus({ MessageSid: 'SM1', MessageStatus: 'delivered' })).toBeNull()
+  })
+})
+
+describe('processOutbox', () => {
+  function job(overrides: Partial<OutboxJob>): OutboxJob {
+    return {
+      id: 'job',
+      created_at: '2025-01-15T11:00:00Z',
+      organization_id: 'org-1',
+      user_id: 'user-1',
+      channel: 'email',
+      recipient: 'sam@example.com',
+      notification_type: 'order_ready',
+      payload: { subject: 'Order #1042: Order Ready', html: '<p>Ready</p>', text: 'Ready' },
+      status: 'queued',
+      attempts: 0,
+      next_attempt_at: '2025-01-15T11:00:00.000Z',
+      last_error: null,
+      provider: null,
+      provider_message_id: null,
+      sent_at: null,
+      ...overrides,
+    }
+  }
+
+  // Enough of the query builder for the worker, over rows in memory
+  function fakeAdmin(rows: OutboxJob[]) {
+    return {
+      from: () => {
+        const filters: ((row: OutboxJob) => boolean)[] = []
+        let changes: Partial<OutboxJob> | null = null
+        const builder = {
+          select: () => builder,
+          update: (update: Partial<OutboxJob>) => { changes = update; return builder },
+          eq: (column: keyof OutboxJob, value: unknown) => { filters.push(row => row[column] === value); return builder },
+          in: (column: keyof OutboxJob, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder },
+          lte: (column: keyof OutboxJob, value: string) => { filters.push(row => String(row[column]) <= value); return builder },
+          order: () => builder,
+          limit: () => builder,
+          then: (resolve: (result: { data: unknown[]; error: null }) => void) => {
+            const matched = rows.filter(row => filters.every(filter => filter(row)))
+            if (changes) matched.forEach(row => Object.assign(row, changes))
+            resolve({ data: matched.map(row => ({ ...row })), error: null })
+          },
+        }
+        return builder
+      },
+    } as unknown as SupabaseClient
+  }
+
+  function emailSender(fail: boolean = false): EmailSender & { sent: string[] } {
+    const sent: string[] = []
+    return {
+      name: 'fake-email',
+      sent,
+      async send(to) {
+        if (fail) throw new Error('Resend 503')
+        sent.push(to)
+        return { id: `email-${sent.length}` }
+      },
+    }
+  }
+
+  it('should send due deliveries and record the provider message ID', async () => {
+    const rows = [
+      job({ id: 'email' }),
+      job({ id: 'text', channel: 'sms', recipient: '+15550100100', payload: { body: 'Steakholders: Ready' } }),
+      job({ id: 'later', next_attempt_at: '2025-01-15T13:00:00.000Z' }),
+    ]
+    const sms = createFakeSmsProvider()
+
+    const result = await processOutbox(fakeAdmin(rows), { senders: { email: emailSender(), sms }, now: NOW })
+
+    expect(result).toEqual({ sent: 2, failed: 0, dead: 0 })
+    expect(rows[0]).toMatchObject({ status: 'sent', attempts: 1, provider: 'fake-email', provider_message_id: 'email-1' })
+    expect(rows[1]).toMatchObject({ status: 'sent', provider: 'fake', provider_message_id: 'fake-1' })
+    expect(sms.sent.map(text => text.body)).toEqual(['Steakholders: Ready'])
+    expect(rows[2]).toMatchObject({ status: 'queued', attempts: 0 })
+  })
+
+  it('should send attachments with the email', async () => {
+    const attachments = [{ filename: 'cut-sheet-1042.pdf', content: Buffer.from('%PDF-1.4').toString('base64') }]
+    const rows = [job({ payload: { subject: 'Cut sheet', html: '<p>Attached</p>', text: 'Attached', attachments } })]
+    const sent: OutboxEmailPayload[] = []
+    const email: EmailSender = {
+      name: 'fake-email',
+      async send(_to, payload) {
+        sent.push(payload)
+        return { id: 'email-1' }
+      },
+    }
+
+    await processOutbox(fakeAdmin(rows), { senders: { email, sms: null }, now: NOW })
+
+    expect(sent[0].attachments).toEqual(attachments)
+  })
+
+  it('should retry a failed send later, then give up', async () => {
+    const rows = [
+      job({ id: 'first' }),
+      job({ id: 'last', status: 'failed', attempts: OUTBOX_MAX_ATTEMPTS - 1 }),
+    ]
+
+    const result = await processOutbox(fakeAdmin(rows), { senders: { email: emailSender(true), sms: null }, now: NOW })
+
+    expect(result).toEqual({ sent: 0, failed: 1, dead: 1 })
+    expect(rows[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      next_attempt_at: '2025-01-15T12:05:00.000Z',
+      last_error: 'Resend 503',
+    })
+    expect(rows[1]).toMatchObject({ status: 'dead', attempts: OUTBOX_MAX_ATTEMPTS })
+  })
+
+  it('should only send the given deliveries, on channels with a sender', async () => {
+    const rows = [
+      job({ id: 'email' }),
+      job({ id: 'other' }),
+      job({ id: 'text', channel: 'sms', recipient: '+15550100100', payload: { body: 'Hi' } }),
+    ]
+    const email = emailSender()
+
+    const result = await processOutbox(fakeAdmin(rows), {
+      ids: ['email', 'text'],
+      senders: { email, sms: null },
+      now: NOW,
+    })
+
+    expect(result.sent).toBe(1)
+    expect(rows.map(row => row.status)).toEqual(['sent', 'queued', 'queued'])
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Tests for Notification Preferences
+ *
+ * Covers:
+ * - Built-in defaults, organization defaults and user choices, in that order
+ * - The on/off switches saved before per-type preferences
+ * - Routing a notification to in-app, email and text recipients
+ * - Saving only the choices that differ from the defaults
+ * - Grouping the daily digest
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_PREFERENCE_MATRIX,
+  getDigestTypes,
+  getLegacyOverrides,
+  getOrganizationDefaults,
+  groupDigestNotifications,
+  parsePreferenceOverrides,
+  resolvePreferenceMatrix,
+  routeNotification,
+  setPreference,
+} from '../notification-preferences'
+
+describe('DEFAULT_PREFERENCE_MATRIX', () => {
+  it('should cover every notification type, including waitlist openings', () => {
+    expect(DEFAULT_PREFERENCE_MATRIX.waitlist_available).toEqual({ in_app: 'immediate', email: 'immediate', sms: 'immediate' })
+    expect(DEFAULT_PREFERENCE_MATRIX.slot_available.sms).toBe('immediate')
+  })
+
+  it('should keep announcements and messages out of email and texts by default', () => {
+    expect(DEFAULT_PREFERENCE_MATRIX.system).toEqual({ in_app: 'immediate', email: 'off', sms: 'off' })
+    expect(DEFAULT_PREFERENCE_MATRIX.new_message.sms).toBe('off')
+    expect(DEFAULT_PREFERENCE_MATRIX.order_status_update.sms).toBe('off')
+  })
+})
+
+describe('parsePreferenceOverrides', () => {
+  it('should drop unknown types, channels and frequencies a channel does not allow', () => {
+    expect(parsePreferenceOverrides({
+      order_ready: { email: 'daily_digest', sms: 'daily_digest', fax: 'immediate' },
+      made_up: { email: 'off' },
+      system: 'off',
+    })).toEqual({ order_ready: { email: 'daily_digest' } })
+    expect(parsePreferenceOverrides(null)).toEqual({})
+    expect(parsePreferenceOverrides([])).toEqual({})
+  })
+
+  it('should read organization defaults from the settings column', () => {
+    expect(getOrganizationDefaults({ notification_defaults: { new_message: { email: 'off' } }, other: 1 }))
+      .toEqual({ new_message: { email: 'off' } })
+    expect(getOrganizationDefaults(null)).toEqual({})
+  })
+})
+
+describe('resolvePreferenceMatrix', () => {
+  const orgDefaults = { order_status_update: { email: 'daily_digest' as const } }
+
+  it('should put organization defaults over the built-in ones', () => {
+    const matrix = resolvePreferenceMatrix(null, orgDefaults)
+    expect(matrix.order_status_update.email).toBe('daily_digest')
+    expect(matrix.order_ready.email).toBe('immediate')
+  })
+
+  it('should put a user\'s own choices over their organization\'s', () => {
+    const matrix = resolvePreferenceMatrix({ overrides: { order_status_update: { email: 'off' } } }, orgDefaults)
+    expect(matrix.order_status_update.email).toBe('off')
+  })
+
+  it('should keep digest types in the app', () => {
+    const matrix = resolvePreferenceMatrix({ overrides: { new_message: { in_app: 'off', email: 'daily_digest' } } })
+    expect(matrix.new_message.in_app).toBe('immediate')
+    expect(getDigestTypes(matrix)).toEqual(['new_message'])
+  })
+
+  it('should honour the switches saved before per-type preferences', () => {
+    const matrix = resolvePreferenceMatrix({ email_order_updates: false, email_system: true, sms_messages: true })
+    expect(matrix.order_ready.email).toBe('off')
+    expect(matrix.waitlist_available.email).toBe('off')
+    expect(matrix.new_message.email).toBe('immediate')
+    expect(matrix.system.email).toBe('immediate')
+    expect(matrix.new_message.sms).toBe('immediate')
+  })
+
+  it('should ignore old switches once per-type preferences are saved', () => {
+    expect(getLegacyOverrides({ email_order_updates: false, overrides: {} })).toEqual({})
+    expect(getLegacyOverrides({ email_order_updates: true, email_messages: true })).toEqual({})
+  })
+})
+
+describe('routeNotification', () => {
+  const users = [
+    { id: 'default', notification_preferences: null },
+    { id: 'digest', notification_preferences: { overrides: { order_ready: { email: 'daily_digest' } } } },
+    { id: 'quiet', notification_preferences: { overrides: { order_ready: { in_app: 'off', email: 'off', sms: 'off' } } } },
+  ]
+
+  it('should send each channel to the users who want it right away', () => {
+    const route = routeNotification(users, {}, 'order_ready')
+    expect(route.inApp.map(u => u.id)).toEqual(['default', 'digest'])
+    expect(route.email.map(u => u.id)).toEqual(['default'])
+    expect(route.sms.map(u => u.id)).toEqual(['default', 'digest'])
+  })
+
+  it('should follow the organization\'s defaults for users without their own', () => {
+    const route = routeNotification(users, { order_ready: { sms: 'off' } }, 'order_ready')
+    expect(route.sms.map(u => u.id)).toEqual([])
+  })
+})
+
+describe('setPreference', () => {
+  it('should store only choices that differ from the defaults underneath', () => {
+    const changed = setPreference({}, DEFAULT_PREFERENCE_MATRIX, 'new_message', 'email', 'daily_digest')
+    expect(changed).toEqual({ new_message: { email: 'daily_digest' } })
+    expect(setPreference(changed, DEFAULT_PREFERENCE_MATRIX, 'new_message', 'email', 'immediate')).toEqual({})
+  })
+
+  it('should keep a user\'s other choices for the type', () => {
+    const changed = setPreference({ system: { email: 'immediate' } }, DEFAULT_PREFERENCE_MATRIX, 'system', 'sms', 'immediate')
+    expect(changed).toEqual({ system: { email: 'immediate', sms: 'immediate' } })
+  })
+})
+
+describe('groupDigestNotifications', () => {
+  it('should group by type in settings order, oldest first', () => {
+    const notification = (type: string, title: string, created_at: string) =>
+      ({ type, title, body: null, created_at, processing_order_id: null })
+
+    const groups = groupDigestNotifications([
+      notification('new_message', 'Message 2', '2025-01-15T12:00:00Z'),
+      notification('order_status_update', 'Order #1042: Processing Update', '2025-01-15T09:00:00Z'),
+      notification('new_message', 'Message 1', '2025-01-15T08:00:00Z'),
+    ])
+
+    expect(groups.map(g => g.label)).toEqual(['Processing Updates', 'New Messages'])
+    expect(groups[1].notifications.map(n => n.title)).toEqual(['Message 1', 'Message 2'])
+  })
+})
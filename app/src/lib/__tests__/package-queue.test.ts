@@ -0,0 +1,245 @@
+/**
+ * Tests for the Offline Package Queue
+ *
+ * Covers:
+ * - Queuing package and weight entry while offline
+ * - Replay order and temp ID hand-off when connectivity returns
+ * - Conflicts for packages deleted on the server
+ * - Optimistic package lists for the editor
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  createPackageQueue,
+  createMemoryQueueStorage,
+  applyQueuedEntries,
+  TEMP_PACKAGE_PREFIX,
+  type PackageQueueActions,
+  type QueuedPackageData,
+} from '../offline/package-queue'
+
+const CUT_SHEET_ID = 'sheet-1'
+
+/**
+ * Stand-in for the processor cut sheet server actions. Offline calls throw
+ * like a failed fetch; online calls behave like the real actions.
+ */
+function createFakeServer() {
+  const packages = new Map<string, { cut_id: string; actual_weight_lbs: number | null }>()
+  const calls: string[] = []
+  let nextId = 1
+
+  const server = {
+    online: false,
+    packages,
+    calls,
+    // Lets a test act while a request is on its way to the server
+    beforeResponse: null as null | (() => Promise<void>),
+  }
+
+  const reachServer = async (call: string) => {
+    if (!server.online) throw new TypeError('Failed to fetch')
+    calls.push(call)
+    if (server.beforeResponse) {
+      const hook = server.beforeResponse
+      server.beforeResponse = null
+      await hook()
+    }
+  }
+
+  const actions: PackageQueueActions = {
+    async createProducedPackage(cutSheetId: string, data: QueuedPackageData) {
+      await reachServer(`create:${data.cut_id}`)
+      if (cutSheetId !== CUT_SHEET_ID) return { success: false, error: 'Cut sheet not found' }
+      const id = `pkg-${nextId++}`
+      packages.set(id, { cut_id: data.cut_id, actual_weight_lbs: data.actual_weight_lbs ?? null })
+      return { success: true, packageId: id }
+    },
+    async updatePackageWeight(packageId: string, weight: number) {
+      await reachServer(`weight:${packageId}:${weight}`)
+      const pkg = packages.get(packageId)
+      if (!pkg) return { success: false, error: 'Package not found' }
+      pkg.actual_weight_lbs = weight
+      return { success: true }
+    },
+  }
+
+  return { server, actions }
+}
+
+function ribeye(weight?: number): QueuedPackageData {
+  return { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', actual_weight_lbs: weight }
+}
+
+describe('package queue', () => {
+  let fake: ReturnType<typeof createFakeServer>
+  let queue: ReturnType<typeof createPackageQueue>
+
+  beforeEach(() => {
+    fake = createFakeServer()
+    queue = createPackageQueue(createMemoryQueueStorage(), fake.actions)
+  })
+
+  it('should keep entries queued while offline', async () => {
+    const entry = await queue.enqueueCreate(CUT_SHEET_ID, ribeye(1.2))
+    const result = await queue.replay()
+
+    expect(entry.tempPackageId.startsWith(TEMP_PACKAGE_PREFIX)).toBe(true)
+    expect(result).toMatchObject({ synced: 0, offline: true })
+    expect(await queue.list()).toHaveLength(1)
+    expect((await queue.list())[0].attempts).toBe(1)
+    expect(fake.server.packages.size).toBe(0)
+  })
+
+  it('should replay in order once back online', async () => {
+    fake.server.packages.set('pkg-existing', { cut_id: 'brisket', actual_weight_lbs: null })
+    await queue.enqueueCreate(CUT_SHEET_ID, ribeye(1.2))
+    await queue.enqueueWeight('pkg-existing', 11.4)
+    await queue.enqueueCreate(CUT_SHEET_ID, { cut_id: 'chuck_roast', cut_name: 'Chuck Roast' })
+    await queue.replay()
+
+    fake.server.online = true
+    const result = await queue.replay()
+
+    expect(result).toMatchObject({ synced: 3, conflicts: 0, failed: 0, offline: false })
+    expect(fake.server.calls).toEqual(['create:ribeye', 'weight:pkg-existing:11.4', 'create:chuck_roast'])
+    expect(await queue.list()).toEqual([])
+  })
+
+  it('should send later weights for a synced package to its real ID', async () => {
+    const created = await queue.enqueueCreate(CUT_SHEET_ID, ribeye())
+    fake.server.online = true
+    const first = await queue.replay()
+
+    // The editor keeps showing the temp ID until it reloads
+    await queue.enqueueWeight(created.tempPackageId, 1.3)
+    await queue.replay()
+
+    const realId = first.packageIds[created.tempPackageId]
+    expect(fake.server.calls).toEqual(['create:ribeye', `weight:${realId}:1.3`])
+    expect(fake.server.packages.get(realId)?.actual_weight_lbs).toBe(1.3)
+  })
+
+  it('should keep a weight entered while its package was being created', async () => {
+    const created = await queue.enqueueCreate(CUT_SHEET_ID, ribeye(1))
+    fake.server.online = true
+    fake.server.beforeResponse = async () => {
+      await queue.enqueueWeight(created.tempPackageId, 1.3)
+    }
+
+    const first = await queue.replay()
+    await queue.replay()
+
+    expect(fake.server.packages.get(first.packageIds[created.tempPackageId])?.actual_weight_lbs).toBe(1.3)
+    expect(await queue.list()).toEqual([])
+  })
+
+  it('should fold weights into a create that has not synced', async () => {
+    const created = await queue.enqueueCreate(CUT_SHEET_ID, ribeye())
+    await queue.enqueueWeight(created.tempPackageId, 2.05)
+
+    const entries = await queue.list()
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ kind: 'create_package', packageData: { actual_weight_lbs: 2.05 } })
+  })
+
+  it('should collapse repeated weight edits into one entry', async () => {
+    await queue.enqueueWeight('pkg-9', 1)
+    await queue.enqueueWeight('pkg-9', 1.5)
+
+    const entries = await queue.list()
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ kind: 'update_weight', weight: 1.5 })
+  })
+
+  it('should report weights for deleted packages as conflicts', async () => {
+    await queue.enqueueWeight('pkg-deleted', 1.7)
+    fake.server.online = true
+
+    const result = await queue.replay()
+    const [entry] = await queue.list()
+
+    expect(result).toMatchObject({ synced: 0, conflicts: 1 })
+    expect(entry).toMatchObject({ status: 'conflict', error: 'This package was deleted before the weight could sync' })
+  })
+
+  it('should not retry conflicts until asked', async () => {
+    await queue.enqueueWeight('pkg-deleted', 1.7)
+    fake.server.online = true
+    await queue.replay()
+    await queue.replay()
+
+    expect(fake.server.calls).toHaveLength(1)
+
+    const [entry] = await queue.list()
+    await queue.retry(entry.id)
+    await queue.replay()
+    expect(fake.server.calls).toHaveLength(2)
+
+    await queue.discard(entry.id)
+    expect(await queue.list()).toEqual([])
+  })
+
+  it('should stop at a dropped connection and finish later', async () => {
+    await queue.enqueueCreate(CUT_SHEET_ID, ribeye(1))
+    await queue.enqueueCreate(CUT_SHEET_ID, ribeye(1.1))
+    fake.server.online = true
+    fake.server.beforeResponse = async () => {
+      fake.server.online = false
+    }
+
+    const interrupted = await queue.replay()
+    expect(interrupted).toMatchObject({ synced: 1, offline: true })
+    expect(await queue.list()).toHaveLength(1)
+
+    fake.server.online = true
+    const resumed = await queue.replay()
+    expect(resumed).toMatchObject({ synced: 1, offline: false })
+    expect(fake.server.packages.size).toBe(2)
+  })
+
+  it('should keep a weight edited while its request was in flight', async () => {
+    fake.server.packages.set('pkg-1', { cut_id: 'ribeye', actual_weight_lbs: null })
+    await queue.enqueueWeight('pkg-1', 1)
+    fake.server.online = true
+    fake.server.beforeResponse = async () => {
+      await queue.enqueueWeight('pkg-1', 1.25)
+    }
+
+    await queue.replay()
+    await queue.replay()
+
+    expect(fake.server.packages.get('pkg-1')?.actual_weight_lbs).toBe(1.25)
+    expect(await queue.list()).toEqual([])
+  })
+
+  it('should run overlapping replays one after another', async () => {
+    await queue.enqueueCreate(CUT_SHEET_ID, ribeye(1))
+    fake.server.online = true
+
+    await Promise.all([queue.replay(), queue.replay()])
+
+    expect(fake.server.calls).toEqual(['create:ribeye'])
+  })
+})
+
+describe('applyQueuedEntries', () => {
+  it('should show queued packages and weights on top of server data', async () => {
+    const { actions } = createFakeServer()
+    const queue = createPackageQueue(createMemoryQueueStorage(), actions)
+    const created = await queue.enqueueCreate(CUT_SHEET_ID, { ...ribeye(1.4), package_number: 2 })
+    await queue.enqueueCreate('other-sheet', ribeye(1))
+    await queue.enqueueWeight('pkg-1', 0.9)
+
+    const packages = applyQueuedEntries(
+      [{ id: 'pkg-1', cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', package_number: 1, actual_weight_lbs: null }],
+      await queue.list(),
+      CUT_SHEET_ID
+    )
+
+    expect(packages).toEqual([
+      { id: 'pkg-1', cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', package_number: 1, actual_weight_lbs: 0.9, sync_status: 'pending' },
+      { id: created.tempPackageId, cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', package_number: 2, actual_weight_lbs: 1.4, sync_status: 'pending' },
+    ])
+  })
+})
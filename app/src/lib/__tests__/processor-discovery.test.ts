@@ -0,0 +1,166 @@
+/**
+ * Tests for Processor Discovery
+ *
+ * Covers:
+ * - Attaching distances and next open slots to processors
+ * - Radius and availability filters alongside search, service and license
+ * - Nearest-first ordering
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildDiscoveryProcessors,
+  filterProcessors,
+  formatDistance,
+  hasActiveDiscoveryFilters,
+  hasAvailabilityBefore,
+  EMPTY_DISCOVERY_FILTERS,
+  type DiscoveryFilters,
+  type NextOpenSlot,
+} from '../processor-discovery'
+import type { Organization } from '@/types/database'
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function processor(id: string, overrides: Partial<Organization> = {}): Organization {
+  return {
+    id,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    name: `Processor ${id}`,
+    type: 'processor',
+    email: null,
+    phone: null,
+    website: null,
+    address_line1: null,
+    address_line2: null,
+    city: 'Ames',
+    state: 'IA',
+    zip: '50010',
+    location: null,
+    license_number: null,
+    license_type: 'usda',
+    certifications: [],
+    services_offered: ['beef', 'pork'],
+    capacity_per_week: null,
+    lead_time_days: null,
+    farm_name: null,
+    is_active: true,
+    ...overrides,
+  } as Organization
+}
+
+function slot(processorId: string, animal: NextOpenSlot['animal_type'], date: string): NextOpenSlot {
+  return { processor_id: processorId, animal_type: animal, date, available_slots: 2, kill_fee: 75 }
+}
+
+function filters(overrides: Partial<DiscoveryFilters> = {}): DiscoveryFilters {
+  return { ...EMPTY_DISCOVERY_FILTERS, ...overrides }
+}
+
+const processors = buildDiscoveryProcessors(
+  [
+    processor('near', { name: 'Zephyr Meats' }),
+    processor('far', { name: 'Acme Packing', city: 'Des Moines', license_type: 'state' }),
+    processor('unknown', { name: 'Nowhere Locker', zip: null, services_offered: ['lamb'] }),
+    processor('mid', { name: 'Midway Custom', license_type: 'custom_exempt' }),
+  ],
+  [
+    { processor_id: 'near', distance_miles: 12.4 },
+    { processor_id: 'far', distance_miles: 140 },
+    { processor_id: 'mid', distance_miles: 48.9 },
+  ],
+  [
+    slot('near', 'pork', '2025-03-20'),
+    slot('near', 'beef', '2025-04-15'),
+    slot('far', 'beef', '2025-03-10'),
+    slot('unknown', 'beef', '2025-03-01'),
+  ]
+)
+
+const ids = (list: { id: string }[]) => list.map(p => p.id)
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('buildDiscoveryProcessors', () => {
+  it('should attach distances, leaving unknown ones null', () => {
+    expect(processors.map(p => p.distanceMiles)).toEqual([12.4, 140, null, 48.9])
+  })
+
+  it('should list next open slots beef first', () => {
+    expect(processors[0].nextOpenSlots.map(s => s.animal_type)).toEqual(['beef', 'pork'])
+    expect(processors[3].nextOpenSlots).toEqual([])
+  })
+
+  it('should read numeric distances sent as strings', () => {
+    const [built] = buildDiscoveryProcessors(
+      [processor('a')],
+      [{ processor_id: 'a', distance_miles: '7.5' as unknown as number }],
+      []
+    )
+    expect(built.distanceMiles).toBe(7.5)
+  })
+})
+
+describe('filterProcessors', () => {
+  it('should list everything nearest first, unknown distances last', () => {
+    expect(ids(filterProcessors(processors, filters()))).toEqual(['near', 'mid', 'far', 'unknown'])
+  })
+
+  it('should sort by name when no distances are known', () => {
+    const unlocated = processors.map(p => ({ ...p, distanceMiles: null }))
+    expect(ids(filterProcessors(unlocated, filters()))).toEqual(['far', 'mid', 'unknown', 'near'])
+  })
+
+  it('should keep processors within the radius', () => {
+    expect(ids(filterProcessors(processors, filters({ radiusMiles: 50 })))).toEqual(['near', 'mid'])
+    expect(ids(filterProcessors(processors, filters({ radiusMiles: 12.4 })))).toEqual(['near'])
+    expect(ids(filterProcessors(processors, filters({ radiusMiles: 200 })))).toEqual(['near', 'mid', 'far'])
+  })
+
+  it('should keep processors with an open slot for the animal before the date', () => {
+    expect(ids(filterProcessors(processors, filters({ availableAnimal: 'beef', availableBefore: '2025-03-31' }))))
+      .toEqual(['far', 'unknown'])
+    expect(ids(filterProcessors(processors, filters({ availableAnimal: 'beef', availableBefore: '2025-04-15' }))))
+      .toEqual(['near', 'far', 'unknown'])
+    expect(ids(filterProcessors(processors, filters({ availableAnimal: 'pork' })))).toEqual(['near'])
+    expect(ids(filterProcessors(processors, filters({ availableBefore: '2025-03-05' })))).toEqual(['unknown'])
+  })
+
+  it('should combine radius and availability with the other filters', () => {
+    expect(ids(filterProcessors(processors, filters({
+      radiusMiles: 200,
+      availableAnimal: 'beef',
+      availableBefore: '2025-03-31',
+    })))).toEqual(['far'])
+    expect(ids(filterProcessors(processors, filters({ query: 'des moines' })))).toEqual(['far'])
+    expect(ids(filterProcessors(processors, filters({ service: 'lamb' })))).toEqual(['unknown'])
+    expect(ids(filterProcessors(processors, filters({ license: 'custom_exempt', radiusMiles: 25 })))).toEqual([])
+  })
+})
+
+describe('hasAvailabilityBefore', () => {
+  it('should include slots on the date itself', () => {
+    expect(hasAvailabilityBefore(processors[1], 'beef', '2025-03-10')).toBe(true)
+    expect(hasAvailabilityBefore(processors[1], 'beef', '2025-03-09')).toBe(false)
+    expect(hasAvailabilityBefore(processors[3], '', '')).toBe(false)
+  })
+})
+
+describe('display helpers', () => {
+  it('should tell when filters are set', () => {
+    expect(hasActiveDiscoveryFilters(filters())).toBe(false)
+    expect(hasActiveDiscoveryFilters(filters({ radiusMiles: 25 }))).toBe(true)
+    expect(hasActiveDiscoveryFilters(filters({ availableBefore: '2025-03-01' }))).toBe(true)
+  })
+
+  it('should round distances to whole miles', () => {
+    expect(formatDistance(0.4)).toBe('Under 1 mi')
+    expect(formatDistance(12.4)).toBe('12 mi')
+    expect(formatDistance(48.9)).toBe('49 mi')
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Tests for Producer Reliability
+ *
+ * Covers:
+ * - Scores from kept orders, no-shows and late cancellations
+ * - Deposits for producers below the processor's threshold
+ * - Which cancellations count as late
+ * - Which orders can be marked a no-show or cancelled by the producer
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getReliabilityScore,
+  getReliabilityLevel,
+  describeReliability,
+  getRequiredDeposit,
+  isLateCancellation,
+  canMarkNoShow,
+  canProducerCancel,
+  EMPTY_RELIABILITY,
+  type ProducerReliability,
+} from '../reliability'
+import { DEFAULT_BOOKING_POLICY, type BookingPolicy } from '../booking-policy'
+
+const NOW = Date.parse('2025-03-10T12:00:00.000Z')
+const HOUR = 3600000
+
+function record(overrides: Partial<ProducerReliability> = {}): ProducerReliability {
+  return { ...EMPTY_RELIABILITY, ...overrides }
+}
+
+function policy(overrides: Partial<BookingPolicy> = {}): BookingPolicy {
+  return { ...DEFAULT_BOOKING_POLICY, ...overrides }
+}
+
+describe('getReliabilityScore', () => {
+  it('should have no score without a record', () => {
+    expect(getReliabilityScore(EMPTY_RELIABILITY)).toBeNull()
+    expect(getReliabilityLevel(null)).toBe('new')
+  })
+
+  it('should score kept orders out of every booking', () => {
+    expect(getReliabilityScore(record({ keptOrders: 4 }))).toBe(100)
+    expect(getReliabilityScore(record({ keptOrders: 3, noShows: 1 }))).toBe(75)
+    expect(getReliabilityScore(record({ noShows: 2 }))).toBe(0)
+  })
+
+  it('should count a late cancellation as half a no-show', () => {
+    expect(getReliabilityScore(record({ keptOrders: 8, noShows: 1, lateCancellations: 1 }))).toBe(85)
+    expect(getReliabilityScore(record({ keptOrders: 1, lateCancellations: 1 }))).toBe(75)
+  })
+
+  it('should grade scores', () => {
+    expect(getReliabilityLevel(100)).toBe('good')
+    expect(getReliabilityLevel(90)).toBe('good')
+    expect(getReliabilityLevel(80)).toBe('fair')
+    expect(getReliabilityLevel(60)).toBe('poor')
+  })
+
+  it('should describe a record', () => {
+    expect(describeReliability(record({ keptOrders: 5 }))).toBe('5 kept')
+    expect(describeReliability(record({ keptOrders: 8, noShows: 1, lateCancellations: 2 })))
+      .toBe('8 kept, 1 no-show, 2 late cancellations')
+  })
+})
+
+describe('getRequiredDeposit', () => {
+  const deposits = policy({ depositBelowScore: 80, depositAmount: 50 })
+
+  it('should ask nothing when deposits are off', () => {
+    expect(getRequiredDeposit(policy(), record({ noShows: 3 }))).toBeNull()
+    expect(getRequiredDeposit(policy({ depositBelowScore: 80 }), record({ noShows: 3 }))).toBeNull()
+  })
+
+  it('should ask producers below the threshold', () => {
+    expect(getRequiredDeposit(deposits, record({ keptOrders: 3, noShows: 1 }))).toBe(50)
+    expect(getRequiredDeposit(deposits, record({ keptOrders: 4, noShows: 1 }))).toBeNull()
+  })
+
+  it('should not ask producers with no record yet', () => {
+    expect(getRequiredDeposit(deposits, EMPTY_RELIABILITY)).toBeNull()
+  })
+})
+
+describe('isLateCancellation', () => {
+  it('should count cancellations inside the window', () => {
+    const dropOff = new Date(NOW + 24 * HOUR).toISOString()
+    expect(isLateCancellation(policy({ lateCancelHours: 48 }), dropOff, NOW)).toBe(true)
+    expect(isLateCancellation(policy({ lateCancelHours: 12 }), dropOff, NOW)).toBe(false)
+  })
+
+  it('should count cancelling after the drop-off passed', () => {
+    expect(isLateCancellation(policy(), new Date(NOW - HOUR).toISOString(), NOW)).toBe(true)
+  })
+
+  it('should never count when turned off or without a drop-off', () => {
+    expect(isLateCancellation(policy({ lateCancelHours: 0 }), new Date(NOW).toISOString(), NOW)).toBe(false)
+    expect(isLateCancellation(policy(), null, NOW)).toBe(false)
+  })
+})
+
+describe('orders', () => {
+  const booked = { status: 'confirmed' as const, processing_stage: 'pending' as const }
+
+  it('should mark no-shows from the drop-off day on', () => {
+    expect(canMarkNoShow({ ...booked, scheduled_drop_off: '2025-03-10T16:00:00.000Z' }, NOW)).toBe(true)
+    expect(canMarkNoShow({ ...booked, scheduled_drop_off: '2025-03-08' }, NOW)).toBe(true)
+    expect(canMarkNoShow({ ...booked, scheduled_drop_off: '2025-03-11' }, NOW)).toBe(false)
+    expect(canMarkNoShow({ ...booked, scheduled_drop_off: null }, NOW)).toBe(false)
+  })
+
+  it('should not mark drafts or orders already dropped off', () => {
+    expect(canMarkNoShow({ ...booked, status: 'draft', scheduled_drop_off: '2025-03-08' }, NOW)).toBe(false)
+    expect(canMarkNoShow({ status: 'in_progress', processing_stage: 'received', scheduled_drop_off: '2025-03-08' }, NOW)).toBe(false)
+  })
+
+  it('should let producers cancel until drop-off', () => {
+    expect(canProducerCancel(booked)).toBe(true)
+    expect(canProducerCancel({ status: 'draft', processing_stage: 'pending' })).toBe(true)
+    expect(canProducerCancel({ status: 'in_progress', processing_stage: 'received' })).toBe(false)
+    expect(canProducerCancel({ status: 'cancelled', processing_stage: 'pending' })).toBe(false)
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Tests for Scale Input
+ *
+ * Covers:
+ * - Parsing Mettler Toledo continuous, SMA and plain weight frames
+ * - Unit conversion to pounds
+ * - Stable weight detection and software tare
+ * - Reading from a simulated scale
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  parseToledoFrame,
+  parseSmaFrame,
+  parseGenericFrame,
+  splitScaleFrames,
+  encodeToledoFrame,
+  encodeSmaFrame,
+  type ScaleReading,
+} from '../scale/formats'
+import { createScaleReader, createStabilityDetector, toPounds } from '../scale/reader'
+import { createSimulatedScaleDriver } from '../scale/drivers'
+
+function reading(overrides: Partial<ScaleReading> = {}): ScaleReading {
+  return { weight: 2.46, unit: 'lb', net: false, tare: 0, motion: false, status: 'ok', ...overrides }
+}
+
+describe('parseToledoFrame', () => {
+  it('should round-trip encoded frames', () => {
+    const samples = [
+      reading(),
+      reading({ weight: 1.12, unit: 'kg', net: true, tare: 0.25 }),
+      reading({ weight: 3.5, motion: true }),
+      reading({ weight: -0.4 }),
+    ]
+    for (const sample of samples) {
+      expect(parseToledoFrame(encodeToledoFrame(sample))).toEqual(sample)
+    }
+  })
+
+  it('should read a frame from the spec layout', () => {
+    // Status A 0x24: two decimals. Status B 0x30: kg, no motion.
+    const frame = '\x02\x24\x30\x20001234000000'
+
+    expect(parseToledoFrame(frame)).toMatchObject({ weight: 12.34, unit: 'kg', motion: false, status: 'ok' })
+  })
+
+  it('should mark over-range weights', () => {
+    expect(parseToledoFrame(encodeToledoFrame(reading({ status: 'overload' })))?.status).toBe('overload')
+  })
+
+  it('should ignore frames without STX', () => {
+    expect(parseToledoFrame('garbage')).toBeNull()
+  })
+})
+
+describe('parseSmaFrame', () => {
+  it('should round-trip encoded frames', () => {
+    const sample = reading({ weight: 12.345, tare: null })
+    expect(parseSmaFrame(encodeSmaFrame(sample))).toEqual(sample)
+  })
+
+  it('should read motion, net and error states', () => {
+    expect(parseSmaFrame('\n 1NM    1.250lb ')).toMatchObject({ weight: 1.25, net: true, motion: true })
+    expect(parseSmaFrame('\nO1G     0.000lb ')).toMatchObject({ status: 'overload' })
+  })
+
+  it('should skip tare responses', () => {
+    expect(parseSmaFrame('\n 1T     0.500lb ')).toBeNull()
+  })
+})
+
+describe('parseGenericFrame', () => {
+  it('should read A&D style lines', () => {
+    expect(parseGenericFrame('ST,GS,+0012.34lb')).toMatchObject({ weight: 12.34, unit: 'lb', motion: false })
+    expect(parseGenericFrame('US,NT,+0001.10kg')).toMatchObject({ weight: 1.1, unit: 'kg', motion: true, net: true })
+  })
+
+  it('should read plain weights', () => {
+    expect(parseGenericFrame('  2.50 lbs')).toMatchObject({ weight: 2.5, unit: 'lb' })
+    expect(parseGenericFrame('hello')).toBeNull()
+  })
+})
+
+describe('splitScaleFrames', () => {
+  it('should keep partial frames for the next chunk', () => {
+    expect(splitScaleFrames('ST,GS,1.00lb\r\nST,GS,1.')).toEqual({ frames: ['ST,GS,1.00lb'], rest: '\nST,GS,1.' })
+  })
+})
+
+describe('toPounds', () => {
+  it('should convert common units', () => {
+    expect(toPounds(1, 'kg')).toBeCloseTo(2.2046, 4)
+    expect(toPounds(8, 'oz')).toBe(0.5)
+    expect(toPounds(453.59237, 'g')).toBeCloseTo(1, 4)
+  })
+})
+
+describe('createStabilityDetector', () => {
+  it('should report a weight once it holds steady', () => {
+    const detector = createStabilityDetector({ requiredReadings: 3 })
+
+    expect(detector.push(1.2, true).settled).toBeNull()
+    expect(detector.push(1.2, true).settled).toBeNull()
+    expect(detector.push(1.205, true).settled).toBe(1.21)
+    expect(detector.push(1.2, true).settled).toBeNull()
+  })
+
+  it('should start over on motion', () => {
+    const detector = createStabilityDetector({ requiredReadings: 2 })
+
+    detector.push(1.2, true)
+    detector.push(1.2, false)
+    expect(detector.push(1.2, true).settled).toBeNull()
+    expect(detector.push(1.2, true).settled).toBe(1.2)
+  })
+
+  it('should report again after the platform is cleared', () => {
+    const detector = createStabilityDetector({ requiredReadings: 1 })
+
+    expect(detector.push(1.5, true).settled).toBe(1.5)
+    expect(detector.push(0, true).settled).toBeNull()
+    expect(detector.push(1.5, true).settled).toBe(1.5)
+  })
+})
+
+describe('createScaleReader', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should fill in the settled weight from a continuous scale', async () => {
+    const scale = createSimulatedScaleDriver('toledo')
+    const weights: number[] = []
+    const reader = createScaleReader(scale, { format: 'toledo', onStableWeight: w => weights.push(w) })
+    await reader.start()
+
+    scale.place(2.46)
+    scale.place(3.1, { unit: 'kg' })
+
+    expect(weights).toEqual([2.46, 6.83])
+  })
+
+  it('should subtract the tare', async () => {
+    const scale = createSimulatedScaleDriver('generic')
+    const weights: number[] = []
+    const reader = createScaleReader(scale, { format: 'generic', onStableWeight: w => weights.push(w) })
+    await reader.start()
+
+    scale.place(0.15)
+    expect(reader.tare()).toBe(0.15)
+    scale.place(2.4)
+    reader.clearTare()
+    scale.place(2.5)
+
+    expect(weights).toEqual([0.15, 2.25, 2.5])
+  })
+
+  it('should poll SMA scales', async () => {
+    vi.useFakeTimers()
+    const scale = createSimulatedScaleDriver('sma')
+    const weights: number[] = []
+    const reader = createScaleReader(scale, { format: 'sma', pollIntervalMs: 100, onStableWeight: w => weights.push(w) })
+    await reader.start()
+
+    scale.place(1.75)
+    await vi.advanceTimersByTimeAsync(500)
+    await reader.stop()
+
+    expect(weights).toEqual([1.75])
+  })
+
+  it('should join frames split across chunks', async () => {
+    const scale = createSimulatedScaleDriver('generic')
+    const readings: number[] = []
+    const reader = createScaleReader(scale, { format: 'generic', onReading: r => readings.push(r.weightLbs) })
+    await reader.start()
+
+    scale.emit('ST,GS,1.')
+    scale.emit('25lb\r\n')
+
+    expect(readings).toEqual([1.25])
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Tests for Floor Scanning
+ *
+ * Covers:
+ * - Classifying scanned tags, package labels and order numbers
+ * - Stage advances triggered from a scan
+ */
+
+import { describe, it, expect } from 'vitest'
+import { classifyScanCode, getScanPath } from '../scan'
+import { getStageAdvance } from '../processing-stages'
+
+const PACKAGE_ID = '3f2a9c1e-7b4d-4e8a-9c2f-1a2b3c4d5e6f'
+
+describe('classifyScanCode', () => {
+  it('should recognize livestock tracking IDs regardless of case', () => {
+    expect(classifyScanCode('stk-2025-00012')).toEqual({ kind: 'tracking_id', value: 'STK-2025-00012' })
+  })
+
+  it('should treat label barcodes as package IDs', () => {
+    expect(classifyScanCode(` ${PACKAGE_ID.toUpperCase()}\n`)).toEqual({ kind: 'package', value: PACKAGE_ID })
+  })
+
+  it('should accept order numbers with common prefixes', () => {
+    expect(classifyScanCode('1042')).toEqual({ kind: 'order_number', value: '1042' })
+    expect(classifyScanCode('#1042')).toEqual({ kind: 'order_number', value: '1042' })
+    expect(classifyScanCode('Order #01042')).toEqual({ kind: 'order_number', value: '1042' })
+  })
+
+  it('should read the code from a scanned resolver link', () => {
+    expect(classifyScanCode('https://app.example.com/dashboard/scan/STK-2025-00012')).toEqual({
+      kind: 'tracking_id',
+      value: 'STK-2025-00012',
+    })
+  })
+
+  it('should report anything else as unknown', () => {
+    expect(classifyScanCode('hello').kind).toBe('unknown')
+    expect(classifyScanCode('   ').kind).toBe('unknown')
+  })
+
+  it('should build resolver paths that round-trip', () => {
+    const path = getScanPath('Order #7')
+    expect(path).toBe('/dashboard/scan/Order%20%237')
+    expect(classifyScanCode(decodeURIComponent(path.split('/').pop()!)).value).toBe('7')
+  })
+})
+
+describe('getStageAdvance', () => {
+  it('should start a confirmed order when the animal is received', () => {
+    expect(getStageAdvance('pending', 'confirmed')).toEqual({
+      nextStage: 'received',
+      newStatus: 'in_progress',
+      statusChanged: true,
+    })
+  })
+
+  it('should keep the status for intermediate stages', () => {
+    expect(getStageAdvance('hanging', 'in_progress')).toEqual({
+      nextStage: 'cutting',
+      newStatus: 'in_progress',
+      statusChanged: false,
+    })
+  })
+
+  it('should complete the order on pickup and stop at the last stage', () => {
+    expect(getStageAdvance('ready', 'ready')?.newStatus).toBe('complete')
+    expect(getStageAdvance('picked_up', 'complete')).toBeNull()
+  })
+})
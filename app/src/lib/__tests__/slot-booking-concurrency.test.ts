@@ -0,0 +1,244 @@
+/**
+ * Concurrency tests for Slot Booking
+ *
+ * Runs book_calendar_slot and hold_calendar_slot against a local Supabase
+ * (`supabase start` with the migrations applied) with two producers racing
+ * for the same places. Skipped unless these are set:
+ *
+ *   SUPABASE_TEST_URL=http://127.0.0.1:54321
+ *   SUPABASE_TEST_ANON_KEY=...
+ *   SUPABASE_TEST_SERVICE_ROLE_KEY=...
+ *
+ * Covers:
+ * - Only one producer gets the last place
+ * - Many simultaneous bookings never exceed capacity
+ * - A multi-animal booking that doesn't fit creates nothing
+ * - Holds keep places for the holder until they expire
+ * - Cancelling an order gives its place back
+ * - Orders inserted from the app never hold a place
+ * - Confirming an order linked to a full slot is refused
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+const url = process.env.SUPABASE_TEST_URL
+const anonKey = process.env.SUPABASE_TEST_ANON_KEY
+const serviceKey = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY
+const runDbTests = Boolean(url && anonKey && serviceKey)
+
+interface Producer {
+  client: SupabaseClient
+  orgId: string
+  authId: string
+  livestock: string[]
+}
+
+const RUN_ID = Date.now().toString(36)
+
+describe.skipIf(!runDbTests)('slot booking against Postgres', () => {
+  let admin: SupabaseClient
+  let processorId: string
+  let producerA: Producer
+  let producerB: Producer
+  let dayOffset = 1
+
+  async function createOrg(name: string, type: 'producer' | 'processor'): Promise<string> {
+    const { data, error } = await admin
+      .from('organizations')
+      .insert({ name: `${name} ${RUN_ID}`, type })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id
+  }
+
+  async function createProducer(name: string, animals: number): Promise<Producer> {
+    const email = `${name}-${RUN_ID}@example.test`
+    const password = `pw-${RUN_ID}-${name}`
+    const orgId = await createOrg(name, 'producer')
+
+    const { data: auth, error: authError } = await admin.auth.admin.createUser({ email, password, email_confirm: true })
+    if (authError) throw authError
+    const { error: userError } = await admin
+      .from('users')
+      .insert({ auth_id: auth.user.id, email, organization_id: orgId, role: 'owner' })
+    if (userError) throw userError
+
+    const { data: livestock, error: livestockError } = await admin
+      .from('livestock')
+      .insert(Array.from({ length: animals }, (_, i) => ({ producer_id: orgId, animal_type: 'beef', name: `${name} ${i}` })))
+      .select('id')
+    if (livestockError) throw livestockError
+
+    const client = createClient(url!, anonKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+    const { error: signInError } = await client.auth.signInWithPassword({ email, password })
+    if (signInError) throw signInError
+
+    return { client, orgId, authId: auth.user.id, livestock: livestock.map(l => l.id) }
+  }
+
+  // Each slot gets its own future date (slots are unique per processor, date and animal)
+  async function createSlot(capacity: number): Promise<string> {
+    const date = new Date(Date.now() + (30 + dayOffset++) * 86400000).toISOString().split('T')[0]
+    const { data, error } = await admin
+      .from('calendar_slots')
+      .insert({ processor_id: processorId, date, animal_type: 'beef', capacity, is_available: true })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id
+  }
+
+  async function getSlot(slotId: string): Promise<{ booked_count: number; orders: number }> {
+    const [{ data: slot }, { count }] = await Promise.all([
+      admin.from('calendar_slots').select('booked_count').eq('id', slotId).single(),
+      admin.from('processing_orders').select('id', { count: 'exact', head: true }).eq('calendar_slot_id', slotId).neq('status', 'cancelled'),
+    ])
+    return { booked_count: slot?.booked_count ?? 0, orders: count ?? 0 }
+  }
+
+  function book(producer: Producer, slotId: string, livestockIds: string[]) {
+    return producer.client.rpc('book_calendar_slot', { p_slot_id: slotId, p_livestock_ids: livestockIds })
+  }
+
+  function hold(producer: Producer, slotId: string, head: number) {
+    return producer.client.rpc('hold_calendar_slot', { p_slot_id: slotId, p_head: head })
+  }
+
+  beforeAll(async () => {
+    admin = createClient(url!, serviceKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+    processorId = await createOrg('processor', 'processor')
+    producerA = await createProducer('producer-a', 8)
+    producerB = await createProducer('producer-b', 8)
+  }, 30000)
+
+  afterAll(async () => {
+    if (!admin) return
+    const orgIds = [processorId, producerA?.orgId, producerB?.orgId].filter(Boolean)
+    await admin.from('processing_orders').delete().in('processor_id', [processorId])
+    for (const producer of [producerA, producerB]) {
+      if (producer) await admin.auth.admin.deleteUser(producer.authId)
+    }
+    await admin.from('organizations').delete().in('id', orgIds)
+  })
+
+  it('should give the last place to exactly one producer', async () => {
+    const slotId = await createSlot(1)
+
+    const results = await Promise.all([
+      book(producerA, slotId, [producerA.livestock[0]]),
+      book(producerB, slotId, [producerB.livestock[0]]),
+    ])
+
+    expect(results.filter(r => !r.error)).toHaveLength(1)
+    expect(results.filter(r => r.error?.message === 'slot_full')).toHaveLength(1)
+    expect(await getSlot(slotId)).toEqual({ booked_count: 1, orders: 1 })
+  })
+
+  it('should never overbook under many simultaneous bookings', async () => {
+    const slotId = await createSlot(3)
+
+    const results = await Promise.all([1, 2, 3].flatMap(i => [
+      book(producerA, slotId, [producerA.livestock[i]]),
+      book(producerB, slotId, [producerB.livestock[i]]),
+    ]))
+
+    expect(results.filter(r => !r.error)).toHaveLength(3)
+    expect(await getSlot(slotId)).toEqual({ booked_count: 3, orders: 3 })
+  })
+
+  it('should reject a multi-animal booking that does not fit without creating any order', async () => {
+    const slotId = await createSlot(2)
+
+    const { error } = await book(producerA, slotId, producerA.livestock.slice(4, 7))
+
+    expect(error?.message).toBe('slot_full')
+    expect(error?.details).toBe('2')
+    expect(await getSlot(slotId)).toEqual({ booked_count: 0, orders: 0 })
+  })
+
+  it('should keep held places for the holder', async () => {
+    const slotId = await createSlot(2)
+
+    const { error: holdError } = await hold(producerB, slotId, 2)
+    expect(holdError).toBeNull()
+
+    const { error: blocked } = await book(producerA, slotId, [producerA.livestock[4]])
+    expect(blocked?.message).toBe('slot_full')
+
+    const { data: orderIds, error } = await book(producerB, slotId, producerB.livestock.slice(4, 6))
+    expect(error).toBeNull()
+    expect(orderIds).toHaveLength(2)
+    expect(await getSlot(slotId)).toEqual({ booked_count: 2, orders: 2 })
+
+    const { count } = await admin.from('calendar_slot_holds').select('id', { count: 'exact', head: true }).eq('slot_id', slotId)
+    expect(count).toBe(0)
+  })
+
+  it('should not let simultaneous holds exceed capacity', async () => {
+    const slotId = await createSlot(3)
+
+    const results = await Promise.all([hold(producerA, slotId, 2), hold(producerB, slotId, 2)])
+
+    expect(results.filter(r => !r.error)).toHaveLength(1)
+    expect(results.filter(r => r.error?.message === 'slot_full')).toHaveLength(1)
+  })
+
+  it('should free the places of an expired hold', async () => {
+    const slotId = await createSlot(1)
+
+    const { data: held } = await hold(producerB, slotId, 1)
+    await admin.from('calendar_slot_holds').update({ expires_at: new Date(Date.now() - 1000).toISOString() }).eq('id', held.id)
+
+    const { error } = await book(producerA, slotId, [producerA.livestock[7]])
+    expect(error).toBeNull()
+  })
+
+  it('should give the place back when an order is cancelled', async () => {
+    const slotId = await createSlot(1)
+
+    const { data: orderIds } = await book(producerB, slotId, [producerB.livestock[7]])
+    const { error: cancelError } = await producerB.client
+      .from('processing_orders')
+      .update({ status: 'cancelled' })
+      .eq('id', orderIds[0])
+    expect(cancelError).toBeNull()
+    expect(await getSlot(slotId)).toEqual({ booked_count: 0, orders: 0 })
+
+    const { error } = await book(producerA, slotId, [producerA.livestock[6]])
+    expect(error).toBeNull()
+  })
+
+  it('should not let an order inserted from the app hold a place', async () => {
+    const slotId = await createSlot(1)
+    await book(producerB, slotId, [])
+
+    const { data: order, error } = await producerA.client
+      .from('processing_orders')
+      .insert({ producer_id: producerA.orgId, processor_id: processorId, calendar_slot_id: slotId, status: 'draft', slot_reserved: true })
+      .select('id, slot_reserved')
+      .single()
+    expect(error).toBeNull()
+    expect(order!.slot_reserved).toBe(false)
+
+    await producerA.client.from('processing_orders').update({ status: 'cancelled' }).eq('id', order!.id)
+    await producerA.client.from('processing_orders').delete().eq('id', order!.id)
+    expect((await getSlot(slotId)).booked_count).toBe(1)
+  })
+
+  it('should refuse to confirm an order linked to a full slot', async () => {
+    const slotId = await createSlot(1)
+    await book(producerB, slotId, [])
+
+    const { data: order } = await admin
+      .from('processing_orders')
+      .insert({ producer_id: producerA.orgId, processor_id: processorId, calendar_slot_id: slotId, status: 'submitted' })
+      .select('id')
+      .single()
+    const { error } = await admin.from('processing_orders').update({ status: 'confirmed' }).eq('id', order!.id)
+
+    expect(error?.message).toBe('slot_full')
+    expect(await getSlot(slotId)).toEqual({ booked_count: 1, orders: 2 })
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Tests for Slot Booking helpers
+ *
+ * Covers:
+ * - Turning booking function errors into producer-facing text
+ * - Hold countdowns
+ *
+ * The booking functions themselves are exercised against Postgres in
+ * slot-booking-concurrency.test.ts
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseSlotBookingError,
+  describeSlotBookingError,
+  getHoldSecondsLeft,
+  formatHoldTimer,
+} from '../slot-booking'
+
+describe('parseSlotBookingError', () => {
+  it('should read the places left from a full slot', () => {
+    expect(parseSlotBookingError({ message: 'slot_full', details: '2' })).toEqual({
+      code: 'slot_full',
+      remaining: 2,
+      message: 'Only 2 places left on this slot',
+    })
+    expect(parseSlotBookingError({ message: 'slot_full', details: '0' }).message).toContain('waitlist')
+  })
+
+  it('should recognize each raised error', () => {
+    expect(parseSlotBookingError({ message: 'slot_unavailable' }).code).toBe('slot_unavailable')
+    expect(parseSlotBookingError({ message: 'invalid_livestock' }).code).toBe('invalid_livestock')
+    expect(parseSlotBookingError({ message: 'not_authorized' }).code).toBe('not_authorized')
+  })
+
+  it('should explain the processor\'s booking limits', () => {
+    expect(parseSlotBookingError({ message: 'order_limit', details: '2' })).toEqual({
+      code: 'order_limit',
+      remaining: null,
+      message: 'This processor allows 2 open orders per producer. Wait for one to finish or cancel one before booking more.',
+    })
+    expect(parseSlotBookingError({ message: 'head_limit', details: '12' }).message).toContain('12 head')
+  })
+
+  it('should fall back for anything else', () => {
+    expect(parseSlotBookingError({ message: 'connection reset' })).toEqual({
+      code: 'unknown',
+      remaining: null,
+      message: 'Failed to book the slot',
+    })
+    expect(parseSlotBookingError(null).code).toBe('unknown')
+  })
+})
+
+describe('describeSlotBookingError', () => {
+  it('should use the singular for one place', () => {
+    expect(describeSlotBookingError('slot_full', 1)).toBe('Only 1 place left on this slot')
+  })
+})
+
+describe('hold timers', () => {
+  const now = Date.parse('2025-03-10T12:00:00.000Z')
+
+  it('should count down to zero', () => {
+    expect(getHoldSecondsLeft('2025-03-10T12:14:05.500Z', now)).toBe(845)
+    expect(getHoldSecondsLeft('2025-03-10T11:59:00.000Z', now)).toBe(0)
+  })
+
+  it('should format minutes and seconds', () => {
+    expect(formatHoldTimer(845)).toBe('14:05')
+    expect(formatHoldTimer(9)).toBe('0:09')
+  })
+})
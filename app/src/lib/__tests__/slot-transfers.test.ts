@@ -0,0 +1,144 @@
+/**
+ * Tests for Slot Transfers
+ *
+ * Covers:
+ * - Which orders and waitlist entries can change hands
+ * - Transfer deadlines from the processor's booking policy
+ * - Picking the next in line, and cascading past those who passed
+ * - Transfer errors
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  canTransferOrder,
+  canTransferEntry,
+  isTransferOpen,
+  getTransferDeadline,
+  isTransferExpired,
+  pickNextInLine,
+  parseSlotTransferError,
+} from '../slot-transfers'
+import { DEFAULT_BOOKING_POLICY } from '../booking-policy'
+import type { WaitlistCandidate } from '../waitlist-matching'
+
+const NOW = Date.parse('2025-03-10T12:00:00.000Z')
+
+type Entry = WaitlistCandidate & { producer_id: string }
+
+function entry(id: string, producerId: string, overrides: Partial<Entry> = {}): Entry {
+  return {
+    id,
+    producer_id: producerId,
+    created_at: '2025-03-01T00:00:00.000Z',
+    preferred_date: '2025-03-20',
+    flexible_range_days: 3,
+    animal_type: 'beef',
+    head_count: 1,
+    priority_tier: 0,
+    is_active: true,
+    converted_to_order_id: null,
+    notified_at: null,
+    offer_expires_at: null,
+    offered_slot_id: null,
+    offered_date: null,
+    ...overrides,
+  }
+}
+
+const OPENING = { date: '2025-03-21', animalType: 'beef' as const, slotId: 'slot-1' }
+
+describe('canTransferOrder', () => {
+  it('should allow orders until the animal is dropped off', () => {
+    expect(canTransferOrder({ status: 'draft', processing_stage: 'pending' })).toBe(true)
+    expect(canTransferOrder({ status: 'submitted', processing_stage: 'pending' })).toBe(true)
+    expect(canTransferOrder({ status: 'confirmed', processing_stage: 'pending' })).toBe(true)
+    expect(canTransferOrder({ status: 'confirmed', processing_stage: 'received' })).toBe(false)
+  })
+
+  it('should refuse finished and cancelled orders', () => {
+    expect(canTransferOrder({ status: 'cancelled', processing_stage: 'pending' })).toBe(false)
+    expect(canTransferOrder({ status: 'complete', processing_stage: 'picked_up' })).toBe(false)
+  })
+})
+
+describe('canTransferEntry', () => {
+  it('should only allow active, unclaimed entries', () => {
+    expect(canTransferEntry({ is_active: true, converted_to_order_id: null })).toBe(true)
+    expect(canTransferEntry({ is_active: false, converted_to_order_id: null })).toBe(false)
+    expect(canTransferEntry({ is_active: false, converted_to_order_id: 'order-1' })).toBe(false)
+  })
+})
+
+describe('isTransferOpen', () => {
+  it('should treat pending and awaiting approval as open', () => {
+    expect(isTransferOpen({ status: 'pending' })).toBe(true)
+    expect(isTransferOpen({ status: 'awaiting_approval' })).toBe(true)
+    expect(isTransferOpen({ status: 'completed' })).toBe(false)
+    expect(isTransferOpen({ status: 'declined' })).toBe(false)
+  })
+})
+
+describe('transfer deadlines', () => {
+  it('should give the recipient the policy window', () => {
+    expect(getTransferDeadline({ ...DEFAULT_BOOKING_POLICY, transferWindowHours: 24 }, NOW))
+      .toBe('2025-03-11T12:00:00.000Z')
+  })
+
+  it('should only expire transfers still waiting on the recipient', () => {
+    const lapsed = '2025-03-10T11:00:00.000Z'
+    expect(isTransferExpired({ status: 'pending', expires_at: lapsed }, NOW)).toBe(true)
+    expect(isTransferExpired({ status: 'pending', expires_at: '2025-03-10T13:00:00.000Z' }, NOW)).toBe(false)
+    expect(isTransferExpired({ status: 'awaiting_approval', expires_at: lapsed }, NOW)).toBe(false)
+  })
+})
+
+describe('pickNextInLine', () => {
+  it('should pick the highest ranked entry that would take the slot', () => {
+    const entries = [
+      entry('newer', 'farm-b', { created_at: '2025-03-05T00:00:00.000Z' }),
+      entry('older', 'farm-c', { created_at: '2025-03-02T00:00:00.000Z' }),
+      entry('priority', 'farm-d', { created_at: '2025-03-08T00:00:00.000Z', priority_tier: 1 }),
+    ]
+    expect(pickNextInLine(entries, OPENING, 'farm-a')?.id).toBe('priority')
+  })
+
+  it('should skip the sender and entries that don\'t fit the slot', () => {
+    const entries = [
+      entry('own', 'farm-a', { created_at: '2025-03-01T00:00:00.000Z' }),
+      entry('pork', 'farm-b', { animal_type: 'pork' }),
+      entry('too-many', 'farm-c', { head_count: 2 }),
+      entry('later-dates', 'farm-d', { preferred_date: '2025-04-20' }),
+      entry('fits', 'farm-e', { created_at: '2025-03-06T00:00:00.000Z' }),
+    ]
+    expect(pickNextInLine(entries, OPENING, 'farm-a')?.id).toBe('fits')
+  })
+
+  it('should cascade past entries that already passed', () => {
+    const entries = [
+      entry('first', 'farm-b', { created_at: '2025-03-02T00:00:00.000Z' }),
+      entry('second', 'farm-c', { created_at: '2025-03-03T00:00:00.000Z' }),
+    ]
+    expect(pickNextInLine(entries, OPENING, 'farm-a', ['first'])?.id).toBe('second')
+    expect(pickNextInLine(entries, OPENING, 'farm-a', ['first', 'second'])).toBeNull()
+  })
+})
+
+describe('parseSlotTransferError', () => {
+  it('should recognize the transfer errors', () => {
+    expect(parseSlotTransferError({ message: 'transfer_expired' })).toEqual({
+      code: 'transfer_expired',
+      message: 'This transfer offer has expired',
+    })
+    expect(parseSlotTransferError({ message: 'transfer_unavailable' }).code).toBe('transfer_unavailable')
+    expect(parseSlotTransferError({ message: 'transfer_not_found' }).code).toBe('transfer_not_found')
+  })
+
+  it('should explain when the recipient is at a booking limit', () => {
+    expect(parseSlotTransferError({ message: 'order_limit', details: '3' }).message).toContain('3 open orders')
+  })
+
+  it('should fall back for anything else', () => {
+    expect(parseSlotTransferError({ message: 'connection reset' }).code).toBe('unknown')
+    expect(parseSlotTransferError(null).message).toBe('Failed to update the transfer')
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * Tests for SMS Notifications
+ *
+ * Covers:
+ * - Whether someone has texting turned on
+ * - Quiet hours, including overnight ones
+ * - Phone numbers in E.164, and checking verification codes
+ * - Text commands: STOP/START/HELP, status questions and CONFIRM
+ * - Twilio webhook signatures and TwiML replies
+ * - Queueing texts in the outbox, holding texts for quiet hours
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  checkPhoneCode,
+  describeOrderStatus,
+  formatNotificationSms,
+  getQuietHoursEnd,
+  isSmsEnabled,
+  normalizePhoneNumber,
+  parseSmsCommand,
+  PHONE_CODE_MAX_ATTEMPTS,
+  renderSmsReply,
+  SMS_MAX_LENGTH,
+  type SmsOrderSummary,
+} from '../sms-notifications'
+import { createFakeSmsProvider, verifyTwilioSignature } from '../sms'
+import { queueNotificationSms } from '../notifications/sms'
+
+const CHICAGO_QUIET = {
+  sms_enabled: true,
+  sms_quiet_start: '21:00',
+  sms_quiet_end: '07:00',
+  sms_timezone: 'America/Chicago',
+}
+
+// Chicago is UTC-6 in January
+function chicago(time: string): Date {
+  return new Date(`2025-01-15T${time}:00-06:00`)
+}
+
+describe('isSmsEnabled', () => {
+  it('should only text people who turned texting on', () => {
+    expect(isSmsEnabled(null)).toBe(false)
+    expect(isSmsEnabled({ email_order_updates: true })).toBe(false)
+    expect(isSmsEnabled({ sms_enabled: false })).toBe(false)
+    expect(isSmsEnabled({ sms_enabled: true })).toBe(true)
+  })
+})
+
+describe('getQuietHoursEnd', () => {
+  it('should hold overnight texts until the morning', () => {
+    expect(getQuietHoursEnd(CHICAGO_QUIET, chicago('22:30'))?.toISOString()).toBe('2025-01-16T13:00:00.000Z')
+    expect(getQuietHoursEnd(CHICAGO_QUIET, chicago('05:15'))?.toISOString()).toBe('2025-01-15T13:00:00.000Z')
+  })
+
+  it('should send outside quiet hours', () => {
+    expect(getQuietHoursEnd(CHICAGO_QUIET, chicago('07:00'))).toBeNull()
+    expect(getQuietHoursEnd(CHICAGO_QUIET, chicago('20:59'))).toBeNull()
+  })
+
+  it('should handle quiet hours within a day', () => {
+    const nap = { ...CHICAGO_QUIET, sms_quiet_start: '12:00', sms_quiet_end: '13:30' }
+    expect(getQuietHoursEnd(nap, chicago('12:45'))?.toISOString()).toBe('2025-01-15T19:30:00.000Z')
+    expect(getQuietHoursEnd(nap, chicago('14:00'))).toBeNull()
+  })
+
+  it('should send right away without usable quiet hours', () => {
+    expect(getQuietHoursEnd({ ...CHICAGO_QUIET, sms_timezone: null }, chicago('23:00'))).toBeNull()
+    expect(getQuietHoursEnd({ ...CHICAGO_QUIET, sms_timezone: 'Not/AZone' }, chicago('23:00'))).toBeNull()
+    expect(getQuietHoursEnd({ ...CHICAGO_QUIET, sms_quiet_start: '' }, chicago('23:00'))).toBeNull()
+    expect(getQuietHoursEnd({ ...CHICAGO_QUIET, sms_quiet_end: '21:00' }, chicago('23:00'))).toBeNull()
+  })
+})
+
+describe('normalizePhoneNumber', () => {
+  it('should put US numbers in E.164', () => {
+    expect(normalizePhoneNumber('(555) 010-0100')).toBe('+15550100100')
+    expect(normalizePhoneNumber('1-555-010-0100')).toBe('+15550100100')
+    expect(normalizePhoneNumber('+1 555 010 0100')).toBe('+15550100100')
+  })
+
+  it('should keep other country codes and reject partial numbers', () => {
+    expect(normalizePhoneNumber('+44 20 7946 0958')).toBe('+442079460958')
+    expect(normalizePhoneNumber('555-0100')).toBeNull()
+    expect(normalizePhoneNumber('')).toBeNull()
+    expect(normalizePhoneNumber(null)).toBeNull()
+  })
+})
+
+describe('checkPhoneCode', () => {
+  const pending = { phone_e164: '+15550100100', code_hash: 'hash-123456', expires_at: '2025-01-15T12:10:00Z', attempts: 0 }
+  const now = new Date('2025-01-15T12:05:00Z')
+
+  it('should accept the code texted to the current number', () => {
+    expect(checkPhoneCode(pending, '+15550100100', 'hash-123456', now)).toBe('verified')
+    expect(checkPhoneCode(pending, '+15550100100', 'hash-654321', now)).toBe('wrong_code')
+  })
+
+  it('should reject a code for another number, an expired code or too many guesses', () => {
+    expect(checkPhoneCode(pending, '+15550100101', 'hash-123456', now)).toBe('no_code')
+    expect(checkPhoneCode(null, '+15550100100', 'hash-123456', now)).toBe('no_code')
+    expect(checkPhoneCode(pending, '+15550100100', 'hash-123456', new Date('2025-01-15T12:10:00Z'))).toBe('expired')
+    expect(checkPhoneCode({ ...pending, attempts: PHONE_CODE_MAX_ATTEMPTS }, '+15550100100', 'hash-123456', now)).toBe('too_many_attempts')
+  })
+})
+
+describe('parseSmsCommand', () => {
+  it('should recognize carrier keywords on their own', () => {
+    expect(parseSmsCommand('STOP')).toEqual({ kind: 'stop' })
+    expect(parseSmsCommand(' stop. ')).toEqual({ kind: 'stop' })
+    expect(parseSmsCommand('Unsubscribe')).toEqual({ kind: 'stop' })
+    expect(parseSmsCommand('start')).toEqual({ kind: 'start' })
+    expect(parseSmsCommand('HELP')).toEqual({ kind: 'help' })
+  })
+
+  it('should not opt out on a longer text', () => {
+    expect(parseSmsCommand('cancel 1042').kind).toBe('unknown')
+    expect(parseSmsCommand("don't stop").kind).toBe('unknown')
+  })
+
+  it('should read status questions', () => {
+    expect(parseSmsCommand('READY?')).toEqual({ kind: 'status', orderNumber: null })
+    expect(parseSmsCommand('ready? 1042')).toEqual({ kind: 'status', orderNumber: 1042 })
+    expect(parseSmsCommand('Status #1042')).toEqual({ kind: 'status', orderNumber: 1042 })
+    expect(parseSmsCommand('1042?')).toEqual({ kind: 'status', orderNumber: 1042 })
+    expect(parseSmsCommand('where is order 1042')).toEqual({ kind: 'status', orderNumber: 1042 })
+  })
+
+  it('should read confirmations', () => {
+    expect(parseSmsCommand('CONFIRM 1042')).toEqual({ kind: 'confirm', orderNumber: 1042 })
+    expect(parseSmsCommand('confirm order #1042')).toEqual({ kind: 'confirm', orderNumber: 1042 })
+    expect(parseSmsCommand('confirm')).toEqual({ kind: 'confirm', orderNumber: null })
+  })
+
+  it('should not guess at anything else', () => {
+    expect(parseSmsCommand('Thanks, see you Tuesday').kind).toBe('unknown')
+    expect(parseSmsCommand('').kind).toBe('unknown')
+  })
+})
+
+describe('outbound text', () => {
+  const order: SmsOrderSummary = {
+    order_number: 1042,
+    status: 'in_progress',
+    processing_stage: 'hanging',
+    estimated_ready_date: '2025-01-24',
+    livestock: { animal_type: 'beef', tag_number: '17' },
+  }
+
+  it('should describe where an order is', () => {
+    expect(describeOrderStatus(order)).toBe('Order #1042 (beef #17): Hanging, est. ready Jan 24')
+    expect(describeOrderStatus({ ...order, status: 'ready', processing_stage: 'ready' })).toBe('Order #1042 (beef #17): Ready for pickup')
+    expect(describeOrderStatus({ ...order, status: 'submitted', livestock: null })).toBe('Order #1042: Waiting for the processor to confirm')
+  })
+
+  it('should fit a notification in two segments', () => {
+    expect(formatNotificationSms('Order #1042: Order Ready', 'Your order is ready for pickup!'))
+      .toBe('Steakholders: Order #1042: Order Ready - Your order is ready for pickup!')
+    expect(formatNotificationSms('Title', 'x'.repeat(500))).toHaveLength(SMS_MAX_LENGTH)
+  })
+
+  it('should escape TwiML replies', () => {
+    expect(renderSmsReply('Beef & pork <3')).toContain('<Message>Beef &amp; pork &lt;3</Message>')
+    expect(renderSmsReply(null)).toContain('<Response></Response>')
+  })
+})
+
+describe('verifyTwilioSignature', () => {
+  const url = 'https://app.steakholders.test/api/sms/inbound'
+  const params = { From: '+15550100100', Body: 'READY?', To: '+15550199999' }
+
+  function sign(token: string): string {
+    return createHmac('sha1', token).update(`${url}Body${params.Body}From${params.From}To${params.To}`).digest('base64')
+  }
+
+  it('should accept Twilio\'s signature', () => {
+    expect(verifyTwilioSignature(url, params, sign('token'), 'token')).toBe(true)
+  })
+
+  it('should reject a changed body, another token or no signature', () => {
+    expect(verifyTwilioSignature(url, { ...params, Body: 'CONFIRM 1042' }, sign('token'), 'token')).toBe(false)
+    expect(verifyTwilioSignature(url, params, sign('other'), 'token')).toBe(false)
+    expect(verifyTwilioSignature(url, params, null, 'token')).toBe(false)
+  })
+})
+
+describe('queueNotificationSms', () => {
+  function fakeAdmin() {
+    const inserted: Record<string, unknown[]> = {}
+    const admin = {
+      from: (table: string) => ({
+        insert: (rows: unknown[]) => {
+          inserted[table] = [...(inserted[table] || []), ...rows]
+          return Object.assign(Promise.resolve({ error: null }), {
+            select: async () => ({ data: rows.map((_, i) => ({ id: `${table}-${i}` })), error: null }),
+          })
+        },
+      }),
+    } as unknown as SupabaseClient
+    return { admin, inserted }
+  }
+
+  const notification = { type: 'order_ready' as const, title: 'Order #1042: Order Ready', body: 'Ready for pickup' }
+
+  it('should queue texts for verified numbers that want them and hold texts during quiet hours', async () => {
+    const { admin, inserted } = fakeAdmin()
+
+    const result = await queueNotificationSms(admin, 'org-1', [
+      { id: 'awake', phone_e164: '+15550100100', phone_verified_at: '2025-01-01T00:00:00Z', notification_preferences: { ...CHICAGO_QUIET, sms_timezone: 'Asia/Tokyo' } },
+      { id: 'asleep', phone_e164: '+15550100101', phone_verified_at: '2025-01-01T00:00:00Z', notification_preferences: CHICAGO_QUIET },
+      { id: 'unverified', phone_e164: '+15550100103', phone_verified_at: null, notification_preferences: { sms_enabled: true } },
+      { id: 'email-only', phone_e164: '+15550100102', phone_verified_at: '2025-01-01T00:00:00Z', notification_preferences: { email_order_updates: true } },
+      { id: 'no-phone', phone_e164: null, phone_verified_at: null, notification_preferences: CHICAGO_QUIET },
+    ], notification, createFakeSmsProvider(), chicago('23:00'))
+
+    expect(result).toEqual({ queued: ['notification_outbox-0'], scheduled: 1 })
+    expect(inserted.notification_outbox).toEqual([{
+      organization_id: 'org-1',
+      user_id: 'awake',
+      channel: 'sms',
+      recipient: '+15550100100',
+      notification_type: 'order_ready',
+      payload: { body: 'Steakholders: Order #1042: Order Ready - Ready for pickup' },
+    }])
+    expect(inserted.scheduled_sms).toEqual([{
+      user_id: 'asleep',
+      body: 'Steakholders: Order #1042: Order Ready - Ready for pickup',
+      notification_type: 'order_ready',
+      send_after: '2025-01-16T13:00:00.000Z',
+    }])
+  })
+
+  it('should do nothing without a provider', async () => {
+    const { admin, inserted } = fakeAdmin()
+    const result = await queueNotificationSms(admin, 'org-1', [
+      { id: 'u', phone_e164: '+15550100100', phone_verified_at: '2025-01-01T00:00:00Z', notification_preferences: { sms_enabled: true } },
+    ], notification, null)
+
+    expect(result).toEqual({ queued: [], scheduled: 0 })
+    expect(inserted).toEqual({})
+  })
+})
@@ -0,0 +1,294 @@
+/**
+ * Tests for claiming Waitlist offers
+ *
+ * Runs claim_waitlist_offer against a local Supabase (`supabase start` with
+ * the migrations applied). Skipped unless these are set:
+ *
+ *   SUPABASE_TEST_URL=http://127.0.0.1:54321
+ *   SUPABASE_TEST_ANON_KEY=...
+ *   SUPABASE_TEST_SERVICE_ROLE_KEY=...
+ *
+ * Covers:
+ * - A live offer becomes a draft order on the slot with its place reserved
+ * - Multi-head entries get one order per head
+ * - Expired, unoffered, other producers' and already claimed entries create nothing
+ * - A slot that filled up first keeps the producer on the waitlist
+ * - Cancelling the draft gives its place back
+ * - Claimed drafts must be submitted within WAITLIST_SUBMIT_HOURS, which
+ *   the producer can't move or clear
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { WAITLIST_SUBMIT_HOURS } from '../waitlist-matching'
+
+const url = process.env.SUPABASE_TEST_URL
+const anonKey = process.env.SUPABASE_TEST_ANON_KEY
+const serviceKey = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY
+const runDbTests = Boolean(url && anonKey && serviceKey)
+
+interface Producer {
+  client: SupabaseClient
+  orgId: string
+  authId: string
+  livestock: string[]
+}
+
+interface Slot {
+  id: string
+  date: string
+}
+
+const RUN_ID = Date.now().toString(36)
+const HOUR = 3600000
+
+describe.skipIf(!runDbTests)('claiming waitlist offers against Postgres', () => {
+  let admin: SupabaseClient
+  let processorId: string
+  let producerA: Producer
+  let producerB: Producer
+  let dayOffset = 1
+
+  async function createOrg(name: string, type: 'producer' | 'processor'): Promise<string> {
+    const { data, error } = await admin
+      .from('organizations')
+      .insert({ name: `${name} ${RUN_ID}`, type })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id
+  }
+
+  async function createProducer(name: string, animals: number): Promise<Producer> {
+    const email = `${name}-${RUN_ID}@example.test`
+    const password = `pw-${RUN_ID}-${name}`
+    const orgId = await createOrg(name, 'producer')
+
+    const { data: auth, error: authError } = await admin.auth.admin.createUser({ email, password, email_confirm: true })
+    if (authError) throw authError
+    const { error: userError } = await admin
+      .from('users')
+      .insert({ auth_id: auth.user.id, email, organization_id: orgId, role: 'owner' })
+    if (userError) throw userError
+
+    const { data: livestock, error: livestockError } = await admin
+      .from('livestock')
+      .insert(Array.from({ length: animals }, (_, i) => ({ producer_id: orgId, animal_type: 'beef', name: `${name} ${i}` })))
+      .select('id')
+    if (livestockError) throw livestockError
+
+    const client = createClient(url!, anonKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+    const { error: signInError } = await client.auth.signInWithPassword({ email, password })
+    if (signInError) throw signInError
+
+    return { client, orgId, authId: auth.user.id, livestock: livestock.map(l => l.id) }
+  }
+
+  // Each slot gets its own future date (slots are unique per processor, date and animal)
+  async function createSlot(capacity: number, bookedCount = 0): Promise<Slot> {
+    const date = new Date(Date.now() + (60 + dayOffset++) * 86400000).toISOString().split('T')[0]
+    const { data, error } = await admin
+      .from('calendar_slots')
+      .insert({ processor_id: processorId, date, animal_type: 'beef', capacity, booked_count: bookedCount, is_available: true })
+      .select('id, date')
+      .single()
+    if (error) throw error
+    return data
+  }
+
+  // Offers are written by the server with the service role, as expireWaitlistOffers does
+  async function createOffer(
+    producer: Producer,
+    slot: Slot | null,
+    overrides: Record<string, unknown> = {}
+  ): Promise<string> {
+    const { data, error } = await admin
+      .from('waitlist_entries')
+      .insert({
+        producer_id: producer.orgId,
+        processor_id: processorId,
+        preferred_date: slot?.date ?? new Date(Date.now() + 90 * 86400000).toISOString().split('T')[0],
+        animal_type: 'beef',
+        notes: 'Hang 14 days please',
+        notified_at: slot ? new Date().toISOString() : null,
+        offer_expires_at: slot ? new Date(Date.now() + 24 * HOUR).toISOString() : null,
+        offered_slot_id: slot?.id ?? null,
+        offered_date: slot?.date ?? null,
+        ...overrides,
+      })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id
+  }
+
+  function claim(producer: Producer, entryId: string) {
+    return producer.client.rpc('claim_waitlist_offer', { p_entry_id: entryId })
+  }
+
+  async function getBookedCount(slotId: string): Promise<number> {
+    const { data } = await admin.from('calendar_slots').select('booked_count').eq('id', slotId).single()
+    return data?.booked_count ?? 0
+  }
+
+  async function countOrders(slotId: string): Promise<number> {
+    const { count } = await admin
+      .from('processing_orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('calendar_slot_id', slotId)
+      .neq('status', 'cancelled')
+    return count ?? 0
+  }
+
+  beforeAll(async () => {
+    admin = createClient(url!, serviceKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+    processorId = await createOrg('processor', 'processor')
+    producerA = await createProducer('producer-a', 4)
+    producerB = await createProducer('producer-b', 2)
+  }, 30000)
+
+  afterAll(async () => {
+    if (!admin) return
+    const orgIds = [processorId, producerA?.orgId, producerB?.orgId].filter(Boolean)
+    await admin.from('waitlist_events').delete().eq('processor_id', processorId)
+    await admin.from('waitlist_entries').delete().eq('processor_id', processorId)
+    await admin.from('processing_orders').delete().in('processor_id', [processorId])
+    for (const producer of [producerA, producerB]) {
+      if (producer) await admin.auth.admin.deleteUser(producer.authId)
+    }
+    await admin.from('organizations').delete().in('id', orgIds)
+  })
+
+  it('should turn a live offer into a draft order on the slot', async () => {
+    const slot = await createSlot(2, 1)
+    const entryId = await createOffer(producerA, slot, { livestock_id: producerA.livestock[0] })
+
+    const { data: orderIds, error } = await claim(producerA, entryId)
+    expect(error).toBeNull()
+    expect(orderIds).toHaveLength(1)
+
+    const { data: order } = await admin
+      .from('processing_orders')
+      .select('producer_id, processor_id, status, calendar_slot_id, scheduled_drop_off, livestock_id, producer_notes, slot_reserved, claim_expires_at')
+      .eq('id', orderIds[0])
+      .single()
+    expect(order).toMatchObject({
+      producer_id: producerA.orgId,
+      processor_id: processorId,
+      status: 'draft',
+      calendar_slot_id: slot.id,
+      livestock_id: producerA.livestock[0],
+      producer_notes: 'Hang 14 days please',
+      slot_reserved: true,
+    })
+    expect(order?.scheduled_drop_off.split('T')[0]).toBe(slot.date)
+    expect(new Date(order!.claim_expires_at!).getTime() - Date.now()).toBeGreaterThan(WAITLIST_SUBMIT_HOURS * HOUR - 60000)
+    expect(await getBookedCount(slot.id)).toBe(2)
+
+    const { data: entry } = await admin
+      .from('waitlist_entries')
+      .select('is_active, converted_to_order_id')
+      .eq('id', entryId)
+      .single()
+    expect(entry).toEqual({ is_active: false, converted_to_order_id: orderIds[0] })
+
+    const { data: events } = await admin.from('waitlist_events').select('event, order_id').eq('entry_id', entryId)
+    expect(events).toEqual([{ event: 'claimed', order_id: orderIds[0] }])
+  })
+
+  it('should create one order per head with the animal on the first', async () => {
+    const slot = await createSlot(3)
+    const entryId = await createOffer(producerA, slot, { head_count: 3, livestock_id: producerA.livestock[1] })
+
+    const { data: orderIds, error } = await claim(producerA, entryId)
+    expect(error).toBeNull()
+    expect(orderIds).toHaveLength(3)
+
+    const { data: first } = await admin.from('processing_orders').select('livestock_id').eq('id', orderIds[0]).single()
+    expect(first?.livestock_id).toBe(producerA.livestock[1])
+    expect(await getBookedCount(slot.id)).toBe(3)
+    expect(await countOrders(slot.id)).toBe(3)
+  })
+
+  it('should refuse an expired offer without creating an order', async () => {
+    const slot = await createSlot(1)
+    const entryId = await createOffer(producerA, slot, {
+      offer_expires_at: new Date(Date.now() - HOUR).toISOString(),
+    })
+
+    const { error } = await claim(producerA, entryId)
+    expect(error?.message).toBe('offer_expired')
+    expect(await getBookedCount(slot.id)).toBe(0)
+    expect(await countOrders(slot.id)).toBe(0)
+  })
+
+  it('should refuse an entry that has not been offered a slot', async () => {
+    const entryId = await createOffer(producerA, null)
+
+    const { error } = await claim(producerA, entryId)
+    expect(error?.message).toBe('not_offered')
+  })
+
+  it('should not let a producer claim another producer\'s offer', async () => {
+    const slot = await createSlot(1)
+    const entryId = await createOffer(producerA, slot)
+
+    const { error } = await claim(producerB, entryId)
+    expect(error?.message).toBe('entry_not_found')
+    expect(await countOrders(slot.id)).toBe(0)
+  })
+
+  it('should not claim the same offer twice', async () => {
+    const slot = await createSlot(2)
+    const entryId = await createOffer(producerB, slot)
+
+    const results = await Promise.all([claim(producerB, entryId), claim(producerB, entryId)])
+    expect(results.filter(r => !r.error)).toHaveLength(1)
+    expect(results.filter(r => r.error?.message === 'entry_not_found')).toHaveLength(1)
+    expect(await getBookedCount(slot.id)).toBe(1)
+  })
+
+  it('should keep the entry on the waitlist when the slot filled first', async () => {
+    const slot = await createSlot(1, 1)
+    const entryId = await createOffer(producerB, slot)
+
+    const { error } = await claim(producerB, entryId)
+    expect(error?.message).toBe('slot_full')
+
+    const { data: entry } = await admin.from('waitlist_entries').select('is_active, converted_to_order_id').eq('id', entryId).single()
+    expect(entry).toEqual({ is_active: true, converted_to_order_id: null })
+  })
+
+  it('should give the place back when the draft is cancelled', async () => {
+    const slot = await createSlot(1)
+    const entryId = await createOffer(producerA, slot)
+
+    const { data: orderIds } = await claim(producerA, entryId)
+    expect(await getBookedCount(slot.id)).toBe(1)
+
+    const { error } = await producerA.client
+      .from('processing_orders')
+      .update({ status: 'cancelled' })
+      .eq('id', orderIds[0])
+    expect(error).toBeNull()
+    expect(await getBookedCount(slot.id)).toBe(0)
+  })
+
+  it('should not let the producer move or clear the submit deadline', async () => {
+    const slot = await createSlot(1)
+    const entryId = await createOffer(producerA, slot)
+    const { data: orderIds } = await claim(producerA, entryId)
+
+    const { data: claimed } = await admin.from('processing_orders').select('claim_expires_at').eq('id', orderIds[0]).single()
+    for (const claimExpiresAt of [null, new Date(Date.now() + 365 * 24 * HOUR).toISOString()]) {
+      const { error } = await producerA.client
+        .from('processing_orders')
+        .update({ claim_expires_at: claimExpiresAt, producer_notes: 'Updated' })
+        .eq('id', orderIds[0])
+      expect(error).toBeNull()
+    }
+
+    const { data: order } = await admin.from('processing_orders').select('claim_expires_at, producer_notes').eq('id', orderIds[0]).single()
+    expect(order).toEqual({ claim_expires_at: claimed!.claim_expires_at, producer_notes: 'Updated' })
+  })
+})
@@ -0,0 +1,305 @@
+/**
+ * Tests for Waitlist Matching
+ *
+ * Covers:
+ * - Date windows from preferred date and flexible days
+ * - Matching on animal type and head count
+ * - Priority tiers ahead of first come, first served
+ * - Live offers holding places, and cascading past expired offers
+ * - Places in line, loyalty tiers, booking limits and the reasons given
+ * - Claim errors and where a claim leads
+ *
+ * The claim itself is exercised against Postgres in waitlist-claim.test.ts
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getWaitlistWindow,
+  matchesOpening,
+  getWaitlistRank,
+  getWaitlistStanding,
+  applyLoyaltyTiers,
+  getOfferableEntries,
+  getOfferExpiry,
+  hasLiveOffer,
+  isOfferExpired,
+  getPlacesOnOffer,
+  planWaitlistOffers,
+  parseWaitlistClaimError,
+  getClaimRedirect,
+  type WaitlistCandidate,
+  type WaitlistOpening,
+} from '../waitlist-matching'
+import { DEFAULT_BOOKING_POLICY, type ProducerBookingHistory } from '../booking-policy'
+
+const NOW = Date.parse('2025-03-10T12:00:00.000Z')
+
+function entry(id: string, overrides: Partial<WaitlistCandidate> = {}): WaitlistCandidate {
+  return {
+    id,
+    created_at: '2025-03-01T00:00:00.000Z',
+    preferred_date: '2025-03-20',
+    flexible_range_days: 3,
+    animal_type: 'beef',
+    head_count: 1,
+    priority_tier: 0,
+    is_active: true,
+    converted_to_order_id: null,
+    notified_at: null,
+    offer_expires_at: null,
+    offered_slot_id: null,
+    offered_date: null,
+    ...overrides,
+  }
+}
+
+const OPENING: WaitlistOpening = { date: '2025-03-22', animalType: 'beef', slotId: 'slot-1', places: 1 }
+
+describe('getWaitlistWindow', () => {
+  it('should span the flexible days either side of the preferred date', () => {
+    expect(getWaitlistWindow({ preferred_date: '2025-03-01', flexible_range_days: 3 })).toEqual({
+      start: '2025-02-26',
+      end: '2025-03-04',
+    })
+  })
+
+  it('should treat a missing range as the preferred date only', () => {
+    expect(getWaitlistWindow({ preferred_date: '2025-03-01', flexible_range_days: null })).toEqual({
+      start: '2025-03-01',
+      end: '2025-03-01',
+    })
+  })
+})
+
+describe('matchesOpening', () => {
+  it('should match dates before and after the preferred date within the range', () => {
+    expect(matchesOpening(entry('a'), { ...OPENING, date: '2025-03-17' })).toBe(true)
+    expect(matchesOpening(entry('a'), { ...OPENING, date: '2025-03-23' })).toBe(true)
+    expect(matchesOpening(entry('a'), { ...OPENING, date: '2025-03-24' })).toBe(false)
+    expect(matchesOpening(entry('a'), { ...OPENING, date: '2025-03-16' })).toBe(false)
+  })
+
+  it('should require the same animal type and enough places', () => {
+    expect(matchesOpening(entry('a', { animal_type: 'pork' }), OPENING)).toBe(false)
+    expect(matchesOpening(entry('a', { head_count: 2 }), OPENING)).toBe(false)
+    expect(matchesOpening(entry('a', { head_count: 2 }), { ...OPENING, places: 2 })).toBe(true)
+  })
+
+  it('should skip inactive and converted entries', () => {
+    expect(matchesOpening(entry('a', { is_active: false }), OPENING)).toBe(false)
+    expect(matchesOpening(entry('a', { converted_to_order_id: 'order-1' }), OPENING)).toBe(false)
+  })
+})
+
+describe('planWaitlistOffers', () => {
+  it('should offer the oldest matching entry first', () => {
+    const entries = [
+      entry('newer', { created_at: '2025-03-05T00:00:00.000Z' }),
+      entry('older', { created_at: '2025-03-02T00:00:00.000Z' }),
+    ]
+    expect(planWaitlistOffers(entries, OPENING, [], NOW).map(e => e.id)).toEqual(['older'])
+  })
+
+  it('should put higher priority tiers ahead of older entries', () => {
+    const entries = [
+      entry('older', { created_at: '2025-03-02T00:00:00.000Z' }),
+      entry('priority', { created_at: '2025-03-08T00:00:00.000Z', priority_tier: 1 }),
+    ]
+    expect(planWaitlistOffers(entries, OPENING, [], NOW).map(e => e.id)).toEqual(['priority'])
+  })
+
+  it('should skip an entry that needs more places for the next one that fits', () => {
+    const entries = [
+      entry('big', { created_at: '2025-03-02T00:00:00.000Z', head_count: 3 }),
+      entry('small', { created_at: '2025-03-03T00:00:00.000Z', head_count: 2 }),
+      entry('single', { created_at: '2025-03-04T00:00:00.000Z' }),
+    ]
+    expect(planWaitlistOffers(entries, { ...OPENING, places: 2 }, [], NOW).map(e => e.id)).toEqual(['small'])
+  })
+
+  it('should fill several places in order', () => {
+    const entries = [
+      entry('a', { created_at: '2025-03-02T00:00:00.000Z' }),
+      entry('b', { created_at: '2025-03-03T00:00:00.000Z' }),
+      entry('c', { created_at: '2025-03-04T00:00:00.000Z' }),
+    ]
+    expect(planWaitlistOffers(entries, { ...OPENING, places: 2 }, [], NOW).map(e => e.id)).toEqual(['a', 'b'])
+  })
+
+  it('should count places already on offer against the opening', () => {
+    const entries = [
+      entry('offered', {
+        notified_at: '2025-03-10T08:00:00.000Z',
+        offer_expires_at: '2025-03-11T08:00:00.000Z',
+        offered_slot_id: 'slot-1',
+        offered_date: '2025-03-22',
+      }),
+      entry('waiting'),
+    ]
+    expect(getPlacesOnOffer(entries, OPENING, NOW)).toBe(1)
+    expect(planWaitlistOffers(entries, OPENING, [], NOW)).toEqual([])
+    expect(planWaitlistOffers(entries, { ...OPENING, places: 2 }, [], NOW).map(e => e.id)).toEqual(['waiting'])
+  })
+
+  it('should cascade past entries already offered the opening', () => {
+    const entries = [
+      entry('first', { created_at: '2025-03-02T00:00:00.000Z' }),
+      entry('second', { created_at: '2025-03-03T00:00:00.000Z' }),
+    ]
+    expect(planWaitlistOffers(entries, OPENING, ['first'], NOW).map(e => e.id)).toEqual(['second'])
+    expect(planWaitlistOffers(entries, OPENING, ['first', 'second'], NOW)).toEqual([])
+  })
+
+  it('should not offer a second opening to an entry holding a live offer', () => {
+    const entries = [
+      entry('busy', {
+        notified_at: '2025-03-10T08:00:00.000Z',
+        offer_expires_at: '2025-03-11T08:00:00.000Z',
+        offered_slot_id: 'slot-other',
+        offered_date: '2025-03-19',
+      }),
+    ]
+    expect(planWaitlistOffers(entries, OPENING, [], NOW)).toEqual([])
+  })
+})
+
+describe('offer expiry', () => {
+  it('should fall back to 24 hours after the notification', () => {
+    expect(getOfferExpiry({ notified_at: '2025-03-09T10:00:00.000Z', offer_expires_at: null })).toBe('2025-03-10T10:00:00.000Z')
+    expect(getOfferExpiry({ notified_at: null, offer_expires_at: null })).toBeNull()
+  })
+
+  it('should tell live offers from lapsed ones', () => {
+    const live = entry('a', { notified_at: '2025-03-10T08:00:00.000Z', offer_expires_at: '2025-03-11T08:00:00.000Z' })
+    const lapsed = entry('b', { notified_at: '2025-03-09T08:00:00.000Z', offer_expires_at: '2025-03-10T08:00:00.000Z' })
+
+    expect(hasLiveOffer(live, NOW)).toBe(true)
+    expect(isOfferExpired(live, NOW)).toBe(false)
+    expect(hasLiveOffer(lapsed, NOW)).toBe(false)
+    expect(isOfferExpired(lapsed, NOW)).toBe(true)
+    expect(isOfferExpired(entry('c'), NOW)).toBe(false)
+  })
+})
+
+describe('getWaitlistRank', () => {
+  it('should count entries ahead with overlapping windows', () => {
+    const mine = entry('mine', { created_at: '2025-03-05T00:00:00.000Z' })
+    const entries = [
+      mine,
+      entry('earlier', { created_at: '2025-03-02T00:00:00.000Z' }),
+      entry('priority', { created_at: '2025-03-09T00:00:00.000Z', priority_tier: 1 }),
+      entry('later', { created_at: '2025-03-08T00:00:00.000Z' }),
+      entry('other-dates', { created_at: '2025-03-01T00:00:00.000Z', preferred_date: '2025-04-20' }),
+      entry('other-animal', { created_at: '2025-03-01T00:00:00.000Z', animal_type: 'pork' }),
+    ]
+    expect(getWaitlistRank(mine, entries)).toBe(3)
+  })
+})
+
+describe('waitlist standing', () => {
+  const loyal = { ...DEFAULT_BOOKING_POLICY, loyaltyPriorityOrders: 3, loyaltyTopPriorityOrders: 8, loyaltyLookbackMonths: 0 }
+
+  function producerEntry(id: string, producerId: string, overrides: Partial<WaitlistCandidate> = {}) {
+    return { ...entry(id, overrides), producer_id: producerId }
+  }
+
+  function histories(byProducer: Record<string, Partial<ProducerBookingHistory>>): Record<string, ProducerBookingHistory> {
+    const result: Record<string, ProducerBookingHistory> = {}
+    for (const id of Object.keys(byProducer)) {
+      result[id] = { completedOrders: 0, openOrders: 0, bookedDates: [], activeWaitlistEntries: 0, noShows: 0, ...byProducer[id] }
+    }
+    return result
+  }
+
+  it('should raise tiers to what completed orders earn, keeping higher manual tiers', () => {
+    const entries = [
+      producerEntry('regular', 'farm-a'),
+      producerEntry('loyal', 'farm-b'),
+      producerEntry('manual', 'farm-c', { priority_tier: 2 }),
+    ]
+    const ranked = applyLoyaltyTiers(entries, histories({ 'farm-b': { completedOrders: 4 }, 'farm-c': { completedOrders: 4 } }), loyal)
+    expect(ranked.map(e => e.priority_tier)).toEqual([0, 1, 2])
+  })
+
+  it('should put loyal producers ahead and say why', () => {
+    const mine = producerEntry('mine', 'farm-a', { created_at: '2025-03-02T00:00:00.000Z' })
+    const entries = [
+      mine,
+      producerEntry('loyal', 'farm-b', { created_at: '2025-03-08T00:00:00.000Z' }),
+      producerEntry('earlier', 'farm-c', { created_at: '2025-03-01T00:00:00.000Z' }),
+    ]
+    const standing = getWaitlistStanding(mine, entries, histories({ 'farm-a': { completedOrders: 1 }, 'farm-b': { completedOrders: 9 } }), loyal)
+
+    expect(standing).toMatchObject({ position: 3, tier: 0, aheadWithHigherTier: 1, aheadJoinedEarlier: 1, heldBy: null })
+    expect(standing.reasons).toEqual([
+      'Standard: 1 completed order, 3 needed for Priority',
+      'Behind 1 with a higher tier and 1 who joined earlier',
+    ])
+  })
+
+  it('should credit the tier a producer earned', () => {
+    const mine = producerEntry('mine', 'farm-a')
+    const standing = getWaitlistStanding(mine, [mine], histories({ 'farm-a': { completedOrders: 8 } }), loyal)
+    expect(standing.reasons).toEqual(['Top priority for 8 completed orders', 'First in line for matching openings'])
+  })
+
+  it('should skip producers at a booking limit when ranking and offering', () => {
+    const limited = { ...DEFAULT_BOOKING_POLICY, maxOpenOrders: 2 }
+    const mine = producerEntry('mine', 'farm-a', { created_at: '2025-03-05T00:00:00.000Z' })
+    const busy = producerEntry('busy', 'farm-b', { created_at: '2025-03-01T00:00:00.000Z' })
+    const byProducer = histories({ 'farm-b': { openOrders: 2 } })
+
+    expect(getWaitlistStanding(mine, [mine, busy], byProducer, limited).position).toBe(1)
+    expect(getOfferableEntries([mine, busy], byProducer, limited, OPENING.date).map(e => e.id)).toEqual(['mine'])
+
+    const held = getWaitlistStanding(busy, [mine, busy], byProducer, limited)
+    expect(held.heldBy).toEqual({ code: 'order_limit', limit: 2 })
+    expect(held.reasons).toContain('Skipped for offers: 2 of 2 open orders in use')
+  })
+
+  it('should leave held entries out of offers but count their live offers', () => {
+    const held = entry('held', {
+      notified_at: '2025-03-10T08:00:00.000Z',
+      offer_expires_at: '2025-03-11T08:00:00.000Z',
+      offered_slot_id: 'slot-1',
+      offered_date: '2025-03-22',
+    })
+    const entries = [held, entry('blocked'), entry('free', { created_at: '2025-03-05T00:00:00.000Z' })]
+    const plan = planWaitlistOffers(entries, { ...OPENING, places: 2 }, [], NOW, e => e.id !== 'blocked')
+    expect(plan.map(e => e.id)).toEqual(['free'])
+  })
+})
+
+describe('parseWaitlistClaimError', () => {
+  it('should recognize the claim errors', () => {
+    expect(parseWaitlistClaimError({ message: 'entry_not_found' }).code).toBe('entry_not_found')
+    expect(parseWaitlistClaimError({ message: 'not_offered' }).code).toBe('not_offered')
+    expect(parseWaitlistClaimError({ message: 'offer_expired' }).message).toContain('24-hour')
+  })
+
+  it('should keep producers on the waitlist when the slot filled first', () => {
+    expect(parseWaitlistClaimError({ message: 'slot_full', details: '0' })).toEqual({
+      code: 'slot_full',
+      message: 'This slot was booked before you claimed it. You are still on the waitlist.',
+    })
+  })
+
+  it('should read slot errors the same as bookings', () => {
+    expect(parseWaitlistClaimError({ message: 'invalid_livestock' }).code).toBe('invalid_livestock')
+    expect(parseWaitlistClaimError({ message: 'slot_unavailable' }).message).toBe('This slot is no longer open for booking')
+  })
+
+  it('should fall back for anything else', () => {
+    expect(parseWaitlistClaimError({ message: 'connection reset' })).toEqual({
+      code: 'unknown',
+      message: 'Failed to claim the slot',
+    })
+    expect(parseWaitlistClaimError(null).code).toBe('unknown')
+  })
+})
+
+describe('getClaimRedirect', () => {
+  it('should open the new order\'s cut sheet', () => {
+    expect(getClaimRedirect('order-1')).toBe('/dashboard/orders/order-1/cut-sheet')
+  })
+})
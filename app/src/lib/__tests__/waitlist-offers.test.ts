@@ -0,0 +1,203 @@
+/**
+ * Tests for Waitlist offers on the server
+ *
+ * claim_waitlist_offer itself runs in Postgres (waitlist-claim.test.ts); these
+ * cover what happens around it, over tables in memory:
+ * - A claim sends the producer to the first draft order
+ * - A claim that lost the race leaves the offer alone
+ * - A lapsed offer is passed on to the next entry when claimed
+ * - Claimed drafts not submitted in time are cancelled and their places offered on
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { claimOffer, releaseUnsubmittedClaims } from '../waitlist-offers'
+import { parseWaitlistClaimError } from '../waitlist-matching'
+
+type Row = Record<string, unknown>
+type RpcResult = { data: unknown; error: { message: string; details?: string | null } | null }
+
+const HOUR = 60 * 60 * 1000
+const SLOT_DATE = '2030-06-01'
+
+// Enough of the query builder for the waitlist, over rows in memory. Triggers
+// don't run, so slots are seeded with their places already given back.
+function fakeDatabase(tables: Record<string, Row[]>, rpc: (fn: string) => RpcResult = () => ({ data: [], error: null })) {
+  return {
+    rpc: async (fn: string) => rpc(fn),
+    from: (table: string) => {
+      const rows = (tables[table] ||= [])
+      const filters: ((row: Row) => boolean)[] = []
+      let changes: Row | null = null
+      let inserted: Row[] | null = null
+      let single = false
+
+      const value = (row: Row, column: string) => row[column] ?? null
+      const run = () => {
+        if (inserted) return { data: inserted, error: null }
+        const matched = rows.filter(row => filters.every(filter => filter(row)))
+        if (changes) matched.forEach(row => Object.assign(row, changes))
+        const data = matched.map(row => ({ ...row }))
+        return { data: single ? data[0] ?? null : data, error: null }
+      }
+
+      const builder = {
+        select: () => builder,
+        insert: (values: Row | Row[]) => {
+          inserted = (Array.isArray(values) ? values : [values]).map(row => ({ id: `${table}-${rows.length + 1}`, ...row }))
+          rows.push(...inserted)
+          return builder
+        },
+        update: (update: Row) => { changes = update; return builder },
+        eq: (column: string, expected: unknown) => { filters.push(row => value(row, column) === expected); return builder },
+        neq: (column: string, expected: unknown) => { filters.push(row => value(row, column) !== expected); return builder },
+        is: (column: string, expected: unknown) => { filters.push(row => value(row, column) === expected); return builder },
+        in: (column: string, expected: unknown[]) => { filters.push(row => expected.includes(value(row, column))); return builder },
+        lte: (column: string, bound: string) => { filters.push(row => value(row, column) !== null && String(row[column]) <= bound); return builder },
+        gt: (column: string, bound: string) => { filters.push(row => value(row, column) !== null && String(row[column]) > bound); return builder },
+        or: () => builder,
+        order: () => builder,
+        limit: () => builder,
+        maybeSingle: () => { single = true; return builder },
+        single: () => { single = true; return builder },
+        then: (resolve: (result: unknown) => void) => resolve(run()),
+      }
+      return builder
+    },
+  } as unknown as SupabaseClient
+}
+
+function entry(overrides: Row): Row {
+  return {
+    created_at: '2030-01-01T00:00:00Z',
+    processor_id: 'processor-1',
+    preferred_date: SLOT_DATE,
+    flexible_range_days: 7,
+    animal_type: 'beef',
+    livestock_id: null,
+    is_active: true,
+    notified_at: null,
+    converted_to_order_id: null,
+    notes: null,
+    head_count: 1,
+    priority_tier: 0,
+    offer_expires_at: null,
+    offered_slot_id: null,
+    offered_date: null,
+    ...overrides,
+  }
+}
+
+// A slot with one place free, the producer next in line and an earlier offer
+// of the slot that entry-a already had
+function waitlistTables(): Record<string, Row[]> {
+  return {
+    calendar_slots: [{
+      id: 'slot-1',
+      processor_id: 'processor-1',
+      date: SLOT_DATE,
+      animal_type: 'beef',
+      capacity: 2,
+      booked_count: 1,
+      is_available: true,
+    }],
+    waitlist_entries: [entry({ id: 'entry-b', producer_id: 'producer-b', created_at: '2030-01-02T00:00:00Z' })],
+    waitlist_events: [{ entry_id: 'entry-a', processor_id: 'processor-1', event: 'offered', slot_id: 'slot-1' }],
+  }
+}
+
+describe('claimOffer', () => {
+  it('should send the producer to the first draft order', async () => {
+    const supabase = fakeDatabase({}, () => ({ data: ['order-1', 'order-2'], error: null }))
+
+    const result = await claimOffer(supabase, fakeDatabase({}), 'entry-a')
+
+    expect(result).toEqual({ success: true, orderId: 'order-1', redirectTo: '/dashboard/orders/order-1/cut-sheet' })
+  })
+
+  it('should keep the offer when the slot filled up first', async () => {
+    const tables = waitlistTables()
+    const offer = entry({
+      id: 'entry-a',
+      producer_id: 'producer-a',
+      notified_at: new Date(Date.now() - HOUR).toISOString(),
+      offer_expires_at: new Date(Date.now() + HOUR).toISOString(),
+      offered_slot_id: 'slot-1',
+      offered_date: SLOT_DATE,
+    })
+    tables.waitlist_entries.push(offer)
+    const error = { message: 'slot_full', details: '0' }
+    const database = fakeDatabase(tables, () => ({ data: null, error }))
+
+    const result = await claimOffer(database, database, 'entry-a')
+
+    expect(result).toEqual({ success: false, error: parseWaitlistClaimError(error).message })
+    expect(offer.offered_slot_id).toBe('slot-1')
+    expect(tables.waitlist_events).toHaveLength(1)
+  })
+
+  it('should pass a lapsed offer on to the next entry', async () => {
+    const tables = waitlistTables()
+    const lapsed = entry({
+      id: 'entry-a',
+      producer_id: 'producer-a',
+      notified_at: new Date(Date.now() - 25 * HOUR).toISOString(),
+      offer_expires_at: new Date(Date.now() - HOUR).toISOString(),
+      offered_slot_id: 'slot-1',
+      offered_date: SLOT_DATE,
+    })
+    tables.waitlist_entries.push(lapsed)
+    const database = fakeDatabase(tables, fn => fn === 'claim_waitlist_offer'
+      ? { data: null, error: { message: 'offer_expired' } }
+      : { data: [], error: null })
+
+    const result = await claimOffer(database, database, 'entry-a')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatch(/claim window has expired/)
+    expect(lapsed).toMatchObject({ is_active: true, offer_expires_at: null, offered_slot_id: null })
+    expect(tables.waitlist_entries[0]).toMatchObject({ id: 'entry-b', offered_slot_id: 'slot-1', offered_date: SLOT_DATE })
+    expect(tables.waitlist_events.slice(1).map(event => [event.entry_id, event.event]))
+      .toEqual([['entry-a', 'expired'], ['entry-b', 'offered']])
+  })
+})
+
+describe('releaseUnsubmittedClaims', () => {
+  function draft(id: string, overrides: Row): Row {
+    return {
+      id,
+      order_number: Number(id.replace('order-', '')),
+      producer_id: 'producer-a',
+      processor_id: 'processor-1',
+      calendar_slot_id: 'slot-1',
+      status: 'draft',
+      claim_expires_at: null,
+      ...overrides,
+    }
+  }
+
+  it('should cancel claimed drafts past their deadline and offer the places on', async () => {
+    const past = new Date(Date.now() - HOUR).toISOString()
+    const tables = waitlistTables()
+    tables.processing_orders = [
+      draft('order-1', { claim_expires_at: past }),
+      draft('order-2', { claim_expires_at: new Date(Date.now() + HOUR).toISOString() }),
+      draft('order-3', { claim_expires_at: past, status: 'submitted' }),
+      draft('order-4', {}),
+    ]
+
+    const result = await releaseUnsubmittedClaims(fakeDatabase(tables))
+
+    expect(result).toEqual({ success: true, released: 1, offered: 1 })
+    expect(tables.processing_orders.map(order => order.status)).toEqual(['cancelled', 'draft', 'submitted', 'draft'])
+    expect(tables.waitlist_entries[0]).toMatchObject({ id: 'entry-b', offered_slot_id: 'slot-1' })
+  })
+
+  it('should do nothing when every claim was submitted', async () => {
+    const tables = waitlistTables()
+    tables.processing_orders = [draft('order-1', { claim_expires_at: new Date(Date.now() - HOUR).toISOString(), status: 'submitted' })]
+
+    expect(await releaseUnsubmittedClaims(fakeDatabase(tables))).toEqual({ success: true, released: 0, offered: 0 })
+    expect(tables.waitlist_entries[0].offered_slot_id).toBeNull()
+  })
+})
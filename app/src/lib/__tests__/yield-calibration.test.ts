@@ -0,0 +1,202 @@
+/**
+ * Tests for Processor Yield Calibration
+ *
+ * Covers:
+ * - Learned take-home, primal and cut yields
+ * - Skipping incomplete orders
+ * - Implausible and statistical outliers
+ * - Applying calibration to a species profile
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  calibrateYields,
+  applyYieldCalibration,
+  getYieldProfileForProcessor,
+  parseYieldCalibration,
+  MIN_CALIBRATION_SAMPLES,
+  type CalibrationSample,
+} from '../yield-calibration'
+import { YIELD_PROFILES, projectCutSheetYield } from '../cut-sheet-yield'
+import type { ProcessorCutConfig } from '@/types/database'
+
+// A beef order whose packages total `takeHome` lbs: 20% ribeye, 80% ground
+function beefOrder(id: number, hangingWeight: number | null, takeHome: number): CalibrationSample {
+  return {
+    orderId: `order-${id}`,
+    orderNumber: 1000 + id,
+    animalType: 'beef',
+    hangingWeight,
+    packages: [
+      { cut_id: 'ribeye', cut_name: 'Rib-Eye Steaks', primal_id: 'rib', actual_weight_lbs: takeHome * 0.2 },
+      { cut_id: 'ground_beef', cut_name: 'Ground Beef', primal_id: null, actual_weight_lbs: takeHome * 0.8 },
+    ],
+  }
+}
+
+describe('calibrateYields', () => {
+  it('should compute take-home yield from hanging and package weights', () => {
+    const result = calibrateYields([
+      beefOrder(1, 600, 360),
+      beefOrder(2, 600, 390),
+      beefOrder(3, 600, 375),
+    ])
+
+    expect(result.beef!.sampleSize).toBe(3)
+    expect(result.beef!.takeHomePercent.mean).toBeCloseTo(62.5, 1)
+  })
+
+  it('should report cut yields as a percent of hanging weight', () => {
+    const result = calibrateYields([beefOrder(1, 600, 360)])
+    const ribeye = result.beef!.cuts.find(c => c.cutId === 'ribeye')!
+
+    expect(ribeye.yieldPercent).toBe(12)
+    expect(ribeye.sampleSize).toBe(1)
+  })
+
+  it('should report primal shares of take-home and resolve primals from cut IDs', () => {
+    const sample = beefOrder(1, 600, 360)
+    sample.packages[0].primal_id = null
+
+    const result = calibrateYields([sample])
+    const rib = result.beef!.primals.find(p => p.primalId === 'rib')!
+
+    expect(rib.percentOfTakeHome).toBe(20)
+  })
+
+  it('should group results by animal type', () => {
+    const pork: CalibrationSample = {
+      orderId: 'pork-1',
+      orderNumber: 2001,
+      animalType: 'pork',
+      hangingWeight: 200,
+      packages: [{ cut_id: 'pork_chops', cut_name: 'Pork Chops', primal_id: 'loin', actual_weight_lbs: 140 }],
+    }
+
+    const result = calibrateYields([beefOrder(1, 600, 360), pork])
+
+    expect(result.beef!.sampleSize).toBe(1)
+    expect(result.pork!.takeHomePercent.mean).toBe(70)
+  })
+
+  it('should skip orders missing a hanging weight or package weights', () => {
+    const unweighed = beefOrder(3, 600, 360)
+    unweighed.packages[1].actual_weight_lbs = null
+
+    const result = calibrateYields([
+      beefOrder(1, 600, 360),
+      beefOrder(2, null, 360),
+      unweighed,
+    ])
+
+    expect(result.beef!.sampleSize).toBe(1)
+    expect(result.beef!.skippedOrders).toBe(2)
+  })
+
+  it('should flag implausible yields as outliers', () => {
+    const result = calibrateYields([
+      beefOrder(1, 600, 360),
+      beefOrder(2, 60, 360), // hanging weight typo
+    ])
+
+    expect(result.beef!.sampleSize).toBe(1)
+    expect(result.beef!.outliers).toHaveLength(1)
+    expect(result.beef!.outliers[0].orderNumber).toBe(1002)
+  })
+
+  it('should flag statistical outliers once there are enough orders', () => {
+    const result = calibrateYields([
+      beefOrder(1, 600, 372),
+      beefOrder(2, 600, 375),
+      beefOrder(3, 600, 378),
+      beefOrder(4, 600, 374),
+      beefOrder(5, 600, 376),
+      beefOrder(6, 600, 373),
+      beefOrder(7, 600, 480), // 80% - plausible, but far from the rest
+    ])
+
+    expect(result.beef!.outliers.map(o => o.orderId)).toEqual(['order-7'])
+    expect(result.beef!.sampleSize).toBe(6)
+    expect(result.beef!.takeHomePercent.mean).toBeCloseTo(62.4, 1)
+  })
+})
+
+describe('applyYieldCalibration', () => {
+  const calibration = calibrateYields([
+    beefOrder(1, 600, 420),
+    beefOrder(2, 600, 420),
+    beefOrder(3, 600, 420),
+  ]).beef!
+
+  it('should keep the generic profile until there are enough samples', () => {
+    const few = calibrateYields([beefOrder(1, 600, 420)]).beef!
+
+    expect(few.sampleSize).toBeLessThan(MIN_CALIBRATION_SAMPLES)
+    expect(applyYieldCalibration(YIELD_PROFILES.beef, few)).toBe(YIELD_PROFILES.beef)
+    expect(applyYieldCalibration(YIELD_PROFILES.beef, null)).toBe(YIELD_PROFILES.beef)
+  })
+
+  it('should replace take-home percent with the learned figure', () => {
+    const profile = applyYieldCalibration(YIELD_PROFILES.beef, calibration)
+
+    expect(profile.takeHomePercent).toEqual({ min: 70, max: 70 })
+  })
+
+  it('should replace primal shares and keep the total at 100%', () => {
+    const profile = applyYieldCalibration(YIELD_PROFILES.beef, calibration)
+    const total = Object.values(profile.primalPercents).reduce((sum, p) => sum + p, 0) + profile.trimPercent
+
+    expect(profile.primalPercents.rib).toBe(20)
+    expect(total).toBeCloseTo(100, 5)
+  })
+
+  it('should divide a primal between its cuts by their learned yields', () => {
+    // Of the 20% from the rib, three quarters was rib-eye and a quarter prime rib
+    const split = [1, 2, 3].map(id => {
+      const order = beefOrder(id, 600, 420)
+      order.packages[0].actual_weight_lbs = 420 * 0.15
+      order.packages.push({ cut_id: 'primerib', cut_name: 'Prime Rib', primal_id: 'rib', actual_weight_lbs: 420 * 0.05 })
+      return order
+    })
+    const profile = applyYieldCalibration(YIELD_PROFILES.beef, calibrateYields(split).beef!)
+
+    expect(profile.cutShares.ribeye).toBeCloseTo(0.75, 2)
+    expect(profile.cutShares.primerib).toBeCloseTo(0.25, 2)
+
+    const result = projectCutSheetYield({
+      animalType: 'beef',
+      hangingWeight: 600,
+      selectedCuts: [{ cutId: 'ribeye' }, { cutId: 'primerib' }],
+    }, profile)!
+    const pounds = (cutId: string) => result.cuts.find(c => c.cutId === cutId)!.pounds
+
+    expect(pounds('ribeye') / pounds('primerib')).toBeCloseTo(3, 1)
+  })
+})
+
+describe('getYieldProfileForProcessor', () => {
+  it('should fall back to the generic profile without a config', () => {
+    expect(getYieldProfileForProcessor('beef', null)).toBe(YIELD_PROFILES.beef)
+  })
+
+  it('should use the calibration stored on the processor config', () => {
+    const config = {
+      yield_calibration: calibrateYields([
+        beefOrder(1, 600, 420),
+        beefOrder(2, 600, 420),
+        beefOrder(3, 600, 420),
+      ]),
+    } as unknown as ProcessorCutConfig
+
+    expect(getYieldProfileForProcessor('beef', config).takeHomePercent.min).toBe(70)
+    expect(getYieldProfileForProcessor('pork', config)).toBe(YIELD_PROFILES.pork)
+  })
+})
+
+describe('parseYieldCalibration', () => {
+  it('should tolerate empty or malformed values', () => {
+    expect(parseYieldCalibration(null)).toEqual({})
+    expect(parseYieldCalibration([])).toEqual({})
+    expect(parseYieldCalibration('oops')).toEqual({})
+  })
+})
@@ -0,0 +1,82 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { parseBookingPolicy, type BookingPolicy } from '@/lib/booking-policy'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+// ============================================
+// Helper Functions
+// ============================================
+
+async function getProcessorOrgId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { organization_id: string; organization: { type: string } | null } | null
+  if (!profile || profile.organization?.type !== 'processor') return null
+  return profile.organization_id
+}
+
+// ============================================
+// Policy
+// ============================================
+
+/**
+ * Get the current processor's booking policy
+ */
+export async function getBookingPolicy(): Promise<BookingPolicy> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId(supabase)
+  if (!orgId) return parseBookingPolicy(null)
+
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('processor_cut_config' as any)
+    .select('booking_policy')
+    .eq('processor_id', orgId)
+    .single()
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching booking policy:', error)
+  }
+
+  return parseBookingPolicy((data as { booking_policy: unknown } | null)?.booking_policy)
+}
+
+/**
+ * Save the current processor's booking policy
+ */
+export async function saveBookingPolicy(
+  policy: BookingPolicy
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId(supabase)
+  if (!orgId) return { success: false, error: 'Only processors can set a booking policy' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('processor_cut_config')
+    .upsert({
+      processor_id: orgId,
+      booking_policy: parseBookingPolicy(policy),
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'processor_id',
+    })
+
+  if (error) {
+    console.error('Error saving booking policy:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true }
+}
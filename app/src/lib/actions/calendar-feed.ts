@@ -0,0 +1,117 @@
+'use server'
+
+import { randomBytes } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { getCalendarFeedUrl } from '@/lib/calendar-feed'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+export interface CalendarFeedInfo {
+  url: string | null              // null until the organization turns the feed on
+  lastFetchedAt: string | null
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+async function getOrgId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('auth_id', user.id)
+    .single()
+
+  return (userData as { organization_id: string | null } | null)?.organization_id ?? null
+}
+
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+}
+
+// ============================================
+// Feed
+// ============================================
+
+/**
+ * The current organization's calendar feed URL
+ */
+export async function getCalendarFeed(): Promise<CalendarFeedInfo> {
+  const supabase = await createClient()
+  const orgId = await getOrgId(supabase)
+  if (!orgId) return { url: null, lastFetchedAt: null }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('calendar_feeds')
+    .select('token, last_fetched_at')
+    .eq('organization_id', orgId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching calendar feed:', error)
+  }
+
+  const feed = data as { token: string; last_fetched_at: string | null } | null
+  return {
+    url: feed ? getCalendarFeedUrl(getAppUrl(), feed.token) : null,
+    lastFetchedAt: feed?.last_fetched_at ?? null,
+  }
+}
+
+/**
+ * Turn the feed on, or replace its token so the old URL stops working
+ */
+export async function regenerateCalendarFeedToken(): Promise<{ success: boolean; url?: string; error?: string }> {
+  const supabase = await createClient()
+  const orgId = await getOrgId(supabase)
+  if (!orgId) return { success: false, error: 'Not authenticated' }
+
+  const token = randomBytes(24).toString('base64url')
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('calendar_feeds')
+    .upsert({
+      organization_id: orgId,
+      token,
+      last_fetched_at: null,
+    }, {
+      onConflict: 'organization_id',
+    })
+
+  if (error) {
+    console.error('Error regenerating calendar feed token:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true, url: getCalendarFeedUrl(getAppUrl(), token) }
+}
+
+/**
+ * Turn the feed off
+ */
+export async function disableCalendarFeed(): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const orgId = await getOrgId(supabase)
+  if (!orgId) return { success: false, error: 'Not authenticated' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('calendar_feeds')
+    .delete()
+    .eq('organization_id', orgId)
+
+  if (error) {
+    console.error('Error disabling calendar feed:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true }
+}
@@ -0,0 +1,376 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { CalendarSlotRule, CalendarSlotException } from '@/types/database'
+import {
+  validateSlotRule,
+  getRuleWindow,
+  planSlotRule,
+  planSlotRuleRemoval,
+  type SlotRuleInput,
+  type SlotRulePlan,
+  type ExistingSlot,
+} from '@/lib/calendar-rules'
+import type { CoolerCheck } from '@/lib/cooler-capacity'
+import { checkCoolerForSlots } from '@/lib/actions/cooler-capacity'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+interface PlanResult {
+  success: boolean
+  error?: string
+  plan?: SlotRulePlan
+  cooler?: CoolerCheck | null
+}
+
+const SLOT_COLUMNS = 'id, date, animal_type, capacity, booked_count, kill_fee, notes, rule_id'
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function getToday(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+async function getProcessorId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single() as { data: { organization_id: string | null; organization: { type: string } | null } | null }
+
+  if (!profile?.organization_id || profile.organization?.type !== 'processor') return null
+  return profile.organization_id
+}
+
+async function getExceptions(supabase: SupabaseClient, processorId: string, from: string): Promise<CalendarSlotException[]> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data } = await (supabase as any)
+    .from('calendar_slot_exceptions')
+    .select('*')
+    .eq('processor_id', processorId)
+    .gte('date', from)
+    .order('date')
+
+  return (data as CalendarSlotException[] | null) || []
+}
+
+// Slots a rule could collide with or already owns from today onwards
+async function getSlotsForRule(
+  supabase: SupabaseClient,
+  processorId: string,
+  rule: SlotRuleInput,
+  ruleId: string | null,
+  from: string
+): Promise<ExistingSlot[]> {
+  const filter = ruleId ? `animal_type.eq.${rule.animal_type},rule_id.eq.${ruleId}` : `animal_type.eq.${rule.animal_type}`
+
+  const { data, error } = await supabase
+    .from('calendar_slots')
+    .select(SLOT_COLUMNS)
+    .eq('processor_id', processorId)
+    .gte('date', from)
+    .or(filter) as { data: ExistingSlot[] | null; error: Error | null }
+
+  if (error) console.error('Error loading slots for rule:', error)
+  return data || []
+}
+
+async function planRule(
+  supabase: SupabaseClient,
+  processorId: string,
+  rule: SlotRuleInput,
+  ruleId: string | null
+): Promise<SlotRulePlan> {
+  const today = getToday()
+  const [existing, exceptions] = await Promise.all([
+    getSlotsForRule(supabase, processorId, rule, ruleId, today),
+    getExceptions(supabase, processorId, today),
+  ])
+  return planSlotRule(rule, ruleId, getRuleWindow(rule, today), existing, exceptions)
+}
+
+// New slots, and empty slots getting a new capacity, checked against the
+// cooler as if they were fully booked
+async function checkPlanCooler(rule: SlotRuleInput, plan: SlotRulePlan): Promise<CoolerCheck | null> {
+  const slots = [
+    ...plan.create.map(slot => ({ animal_type: slot.animal_type, date: slot.date, head: slot.capacity })),
+    ...plan.update
+      .filter(slot => slot.changes.capacity !== undefined)
+      .map(slot => ({ animal_type: rule.animal_type, date: slot.date, head: slot.changes.capacity! })),
+  ]
+  return slots.length > 0 ? checkCoolerForSlots(slots) : null
+}
+
+async function applyPlan(
+  supabase: SupabaseClient,
+  processorId: string,
+  ruleId: string,
+  plan: SlotRulePlan
+): Promise<string | null> {
+  if (plan.create.length > 0) {
+    const { error } = await supabase
+      .from('calendar_slots')
+      .insert(plan.create.map(slot => ({ ...slot, processor_id: processorId, rule_id: ruleId, is_available: true })) as never)
+
+    if (error) {
+      console.error('Error creating slots from rule:', error)
+      return error.message
+    }
+  }
+
+  for (const { id, changes } of plan.update) {
+    // booked_count guard: a booking may have landed since the plan was made
+    const { error } = await supabase
+      .from('calendar_slots')
+      .update(changes as never)
+      .eq('id', id)
+      .eq('booked_count', 0)
+
+    if (error) console.error('Error updating slot from rule:', error)
+  }
+
+  if (plan.remove.length > 0) {
+    const { error } = await supabase
+      .from('calendar_slots')
+      .delete()
+      .in('id', plan.remove.map(slot => slot.id))
+      .eq('booked_count', 0)
+
+    if (error) {
+      console.error('Error removing slots from rule:', error)
+      return error.message
+    }
+  }
+
+  return null
+}
+
+async function reapplyRules(supabase: SupabaseClient, processorId: string, ruleIds?: string[]): Promise<void> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let query = (supabase as any)
+    .from('calendar_slot_rules')
+    .select('*')
+    .eq('processor_id', processorId)
+    .eq('is_active', true)
+  if (ruleIds) query = query.in('id', ruleIds)
+
+  const { data: rules } = await query as { data: CalendarSlotRule[] | null }
+  for (const rule of rules || []) {
+    const plan = await planRule(supabase, processorId, rule, rule.id)
+    await applyPlan(supabase, processorId, rule.id, plan)
+  }
+}
+
+// ============================================
+// Rules
+// ============================================
+
+export async function getSlotRules(): Promise<{ rules: CalendarSlotRule[]; exceptions: CalendarSlotException[] }> {
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { rules: [], exceptions: [] }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: rules } = await (supabase as any)
+    .from('calendar_slot_rules')
+    .select('*')
+    .eq('processor_id', processorId)
+    .order('created_at')
+
+  return {
+    rules: (rules as CalendarSlotRule[] | null) || [],
+    exceptions: await getExceptions(supabase, processorId, getToday()),
+  }
+}
+
+/**
+ * Show what saving a rule would create, change and leave alone, without
+ * saving anything
+ */
+export async function previewSlotRule(rule: SlotRuleInput, ruleId?: string): Promise<PlanResult> {
+  const invalid = validateSlotRule(rule)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { success: false, error: 'Not authorized' }
+
+  const plan = await planRule(supabase, processorId, rule, ruleId || null)
+  return { success: true, plan, cooler: await checkPlanCooler(rule, plan) }
+}
+
+/**
+ * Create or edit a rule and bring its slots up to date. Slots with
+ * bookings are never changed. Refused when the processor blocks bookings
+ * that would overflow the cooler and the new slots would.
+ */
+export async function saveSlotRule(rule: SlotRuleInput, ruleId?: string): Promise<PlanResult & { ruleId?: string }> {
+  const invalid = validateSlotRule(rule)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { success: false, error: 'Not authorized' }
+
+  const cooler = await checkPlanCooler(rule, await planRule(supabase, processorId, rule, ruleId || null))
+  if (cooler?.blocked) return { success: false, error: cooler.message || 'Not enough cooler space', cooler }
+
+  const values = {
+    animal_type: rule.animal_type,
+    days_of_week: [...rule.days_of_week].sort((a, b) => a - b),
+    interval_weeks: rule.interval_weeks,
+    starts_on: rule.starts_on,
+    ends_on: rule.ends_on,
+    capacity: rule.capacity,
+    kill_fee: rule.kill_fee,
+    notes: rule.notes,
+  }
+
+  let savedId = ruleId
+  if (ruleId) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase as any)
+      .from('calendar_slot_rules')
+      .update(values)
+      .eq('id', ruleId)
+      .eq('processor_id', processorId)
+
+    if (error) {
+      console.error('Error updating slot rule:', error)
+      return { success: false, error: 'Failed to save rule' }
+    }
+  } else {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data, error } = await (supabase as any)
+      .from('calendar_slot_rules')
+      .insert({ ...values, processor_id: processorId })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      console.error('Error creating slot rule:', error)
+      return { success: false, error: 'Failed to save rule' }
+    }
+    savedId = data.id as string
+  }
+
+  const plan = await planRule(supabase, processorId, values, savedId!)
+  const applyError = await applyPlan(supabase, processorId, savedId!, plan)
+  if (applyError) return { success: false, error: applyError, ruleId: savedId }
+
+  return { success: true, plan, ruleId: savedId }
+}
+
+/**
+ * Delete a rule and its empty upcoming slots. Booked slots stay on the
+ * calendar as one-off slots.
+ */
+export async function deleteSlotRule(ruleId: string): Promise<PlanResult> {
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { success: false, error: 'Not authorized' }
+
+  const today = getToday()
+  const { data: slots } = await supabase
+    .from('calendar_slots')
+    .select(SLOT_COLUMNS)
+    .eq('processor_id', processorId)
+    .eq('rule_id', ruleId)
+    .gte('date', today) as { data: ExistingSlot[] | null }
+
+  const plan = planSlotRuleRemoval(ruleId, slots || [], today)
+  const applyError = await applyPlan(supabase, processorId, ruleId, plan)
+  if (applyError) return { success: false, error: applyError }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('calendar_slot_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('processor_id', processorId)
+
+  if (error) {
+    console.error('Error deleting slot rule:', error)
+    return { success: false, error: 'Failed to delete rule' }
+  }
+
+  return { success: true, plan }
+}
+
+/**
+ * Top up every active rule to the rolling horizon. Called when the
+ * processor opens the calendar.
+ */
+export async function extendSlotRules(): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { success: false, error: 'Not authorized' }
+
+  await reapplyRules(supabase, processorId)
+  return { success: true }
+}
+
+// ============================================
+// Exceptions
+// ============================================
+
+/**
+ * Close a date for one rule, or for every rule when ruleId is null. Empty
+ * slots the rules already generated on that date are removed.
+ */
+export async function addSlotException(
+  date: string,
+  ruleId: string | null,
+  reason: string | null
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { success: false, error: 'Not authorized' }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return { success: false, error: 'Invalid date' }
+  if (date < getToday()) return { success: false, error: 'Date is in the past' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('calendar_slot_exceptions')
+    .insert({ processor_id: processorId, rule_id: ruleId, date, reason: reason || null })
+
+  if (error) {
+    console.error('Error adding slot exception:', error)
+    return { success: false, error: error.code === '23505' ? 'That date is already closed' : 'Failed to add closure' }
+  }
+
+  await reapplyRules(supabase, processorId, ruleId ? [ruleId] : undefined)
+  return { success: true }
+}
+
+/**
+ * Reopen a closed date; rules generate their slots for it again
+ */
+export async function removeSlotException(exceptionId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const processorId = await getProcessorId(supabase)
+  if (!processorId) return { success: false, error: 'Not authorized' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: exception, error } = await (supabase as any)
+    .from('calendar_slot_exceptions')
+    .delete()
+    .eq('id', exceptionId)
+    .eq('processor_id', processorId)
+    .select('rule_id')
+    .single()
+
+  if (error || !exception) {
+    console.error('Error removing slot exception:', error)
+    return { success: false, error: 'Failed to remove closure' }
+  }
+
+  await reapplyRules(supabase, processorId, exception.rule_id ? [exception.rule_id] : undefined)
+  return { success: true }
+}
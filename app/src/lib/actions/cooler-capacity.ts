@@ -0,0 +1,170 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { AnimalType } from '@/types/database'
+import {
+  parseCoolerConfig,
+  projectCoolerOccupancy,
+  checkCoolerBooking,
+  type CoolerBooking,
+  type CoolerCheck,
+  type CoolerConfig,
+  type CoolerDay,
+  type CoolerOrder,
+} from '@/lib/cooler-capacity'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function getToday(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+async function getProcessorOrgId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { organization_id: string; organization: { type: string } | null } | null
+  if (!profile || profile.organization?.type !== 'processor') return null
+  return profile.organization_id
+}
+
+async function loadCoolerConfig(supabase: SupabaseClient, processorId: string): Promise<CoolerConfig> {
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('processor_cut_config' as any)
+    .select('cooler_capacity')
+    .eq('processor_id', processorId)
+    .single()
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching cooler capacity:', error)
+  }
+
+  return parseCoolerConfig((data as { cooler_capacity: unknown } | null)?.cooler_capacity)
+}
+
+// Goes through get_cooler_load so producers can check a processor they
+// can't read the orders of
+async function loadCoolerOrders(supabase: SupabaseClient, processorId: string): Promise<CoolerOrder[]> {
+  const { data, error } = await supabase.rpc('get_cooler_load', { p_processor_id: processorId } as never)
+
+  if (error) {
+    console.error('Error fetching cooler load:', error)
+    return []
+  }
+
+  return (data as CoolerOrder[] | null) || []
+}
+
+// ============================================
+// Config
+// ============================================
+
+/**
+ * Get the current processor's cooler capacity and hang times
+ */
+export async function getCoolerConfig(): Promise<CoolerConfig> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId(supabase)
+  if (!orgId) return parseCoolerConfig(null)
+
+  return loadCoolerConfig(supabase, orgId)
+}
+
+/**
+ * Save the current processor's cooler capacity and hang times
+ */
+export async function saveCoolerConfig(
+  config: CoolerConfig
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId(supabase)
+  if (!orgId) return { success: false, error: 'Only processors can set cooler capacity' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('processor_cut_config')
+    .upsert({
+      processor_id: orgId,
+      cooler_capacity: parseCoolerConfig(config),
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'processor_id',
+    })
+
+  if (error) {
+    console.error('Error saving cooler capacity:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  revalidatePath('/dashboard/calendar')
+  return { success: true }
+}
+
+// ============================================
+// Projection
+// ============================================
+
+/**
+ * Day-by-day cooler use for the current processor, starting today
+ */
+export async function getCoolerProjection(days = 42): Promise<{ config: CoolerConfig; days: CoolerDay[] }> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId(supabase)
+  if (!orgId) return { config: parseCoolerConfig(null), days: [] }
+
+  const [config, orders] = await Promise.all([
+    loadCoolerConfig(supabase, orgId),
+    loadCoolerOrders(supabase, orgId),
+  ])
+
+  return { config, days: projectCoolerOccupancy(orders, config, getToday(), days) }
+}
+
+/**
+ * Check a producer's booking against the processor's cooler: one head per
+ * animal, dropped off on `date`
+ */
+export async function checkCoolerForBooking(
+  processorId: string,
+  date: string,
+  animalTypes: AnimalType[]
+): Promise<CoolerCheck> {
+  const supabase = await createClient()
+  const [config, orders] = await Promise.all([
+    loadCoolerConfig(supabase, processorId),
+    loadCoolerOrders(supabase, processorId),
+  ])
+
+  const bookings: CoolerBooking[] = animalTypes.map(animal_type => ({ animal_type, date, head: 1 }))
+  return checkCoolerBooking(config, orders, bookings, getToday())
+}
+
+/**
+ * Check new kill slots against the current processor's cooler, as if every
+ * slot were fully booked
+ */
+export async function checkCoolerForSlots(slots: CoolerBooking[]): Promise<CoolerCheck | null> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId(supabase)
+  if (!orgId) return null
+
+  const [config, orders] = await Promise.all([
+    loadCoolerConfig(supabase, orgId),
+    loadCoolerOrders(supabase, orgId),
+  ])
+
+  return checkCoolerBooking(config, orders, slots, getToday())
+}
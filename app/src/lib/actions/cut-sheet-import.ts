@@ -0,0 +1,173 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  reviewImportedCutSheet,
+  buildCutSheetImportRecord,
+  type ImportedCutSheet,
+  type CutSheetImportRecord,
+} from '@/lib/cut-sheet-import'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+interface ImportTemplatesResult {
+  success: boolean
+  error?: string
+  templateIds?: string[]
+  failed?: { name: string; error: string }[]
+}
+
+async function getOrganizationId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('auth_id', user.id)
+    .single() as { data: { organization_id: string | null } | null }
+
+  return profile?.organization_id || null
+}
+
+// Sheets come back from the review screen; check them again before saving
+function prepareSheet(sheet: ImportedCutSheet): { record?: CutSheetImportRecord; error?: string } {
+  const review = reviewImportedCutSheet(sheet)
+  const record = buildCutSheetImportRecord(sheet)
+  if (!review.canImport || !record) {
+    const firstError = review.issues.find(issue => issue.severity === 'error')
+    return { error: firstError?.message || 'Cut sheet has unresolved issues' }
+  }
+  return { record }
+}
+
+async function insertCutSheet(
+  supabase: SupabaseClient,
+  record: CutSheetImportRecord,
+  fields: Record<string, unknown>
+): Promise<{ id?: string; error?: string }> {
+  const { items, sausages, ...columns } = record
+
+  const { data: cutSheet, error: cutSheetError } = await supabase
+    .from('cut_sheets')
+    .insert({ ...columns, ...fields, status: 'draft' } as never)
+    .select('id')
+    .single() as { data: { id: string } | null; error: Error | null }
+
+  if (cutSheetError || !cutSheet) {
+    console.error('Error creating imported cut sheet:', cutSheetError)
+    return { error: cutSheetError?.message || 'Failed to create cut sheet' }
+  }
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('cut_sheet_items')
+      .insert(items.map(item => ({ ...item, cut_sheet_id: cutSheet.id, pounds: null })) as never)
+
+    if (itemsError) {
+      console.error('Error inserting imported cut items:', itemsError)
+    }
+  }
+
+  if (sausages.length > 0) {
+    const { error: sausageError } = await supabase
+      .from('cut_sheet_sausages')
+      .insert(sausages.map(s => ({ ...s, cut_sheet_id: cutSheet.id })) as never)
+
+    if (sausageError) {
+      console.error('Error inserting imported sausages:', sausageError)
+    }
+  }
+
+  return { id: cutSheet.id }
+}
+
+/**
+ * Save reviewed sheets as cut sheet templates for the signed-in user's
+ * organization. Producers use this to bootstrap their templates; processors
+ * to bring over customer history, one template per customer.
+ */
+export async function importCutSheetTemplates(sheets: ImportedCutSheet[]): Promise<ImportTemplatesResult> {
+  const supabase = await createClient()
+
+  const organizationId = await getOrganizationId(supabase)
+  if (!organizationId) return { success: false, error: 'Not authenticated' }
+
+  const templateIds: string[] = []
+  const failed: { name: string; error: string }[] = []
+
+  for (const sheet of sheets) {
+    const { record, error } = prepareSheet(sheet)
+    if (!record) {
+      failed.push({ name: sheet.name, error: error! })
+      continue
+    }
+
+    const created = await insertCutSheet(supabase, record, {
+      producer_id: organizationId,
+      processing_order_id: null,
+      is_template: true,
+      template_name: sheet.name,
+      hanging_weight_lbs: null, // Templates don't carry a weight
+    })
+
+    if (created.id) {
+      templateIds.push(created.id)
+    } else {
+      failed.push({ name: sheet.name, error: created.error! })
+    }
+  }
+
+  return {
+    success: templateIds.length > 0,
+    error: templateIds.length === 0 ? 'No cut sheets were imported' : undefined,
+    templateIds,
+    failed,
+  }
+}
+
+/**
+ * Create a draft cut sheet on an order from an imported sheet. Only for the
+ * producer on the order, and only while the order has no cut sheet.
+ */
+export async function importCutSheetIntoOrder(
+  orderId: string,
+  sheet: ImportedCutSheet
+): Promise<{ success: boolean; error?: string; cutSheetId?: string }> {
+  const supabase = await createClient()
+
+  const organizationId = await getOrganizationId(supabase)
+  if (!organizationId) return { success: false, error: 'Not authenticated' }
+
+  const { data: order } = await supabase
+    .from('processing_orders')
+    .select('id, producer_id')
+    .eq('id', orderId)
+    .single() as { data: { id: string; producer_id: string } | null }
+
+  if (!order || order.producer_id !== organizationId) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  const { data: existing } = await supabase
+    .from('cut_sheets')
+    .select('id')
+    .eq('processing_order_id', orderId)
+    .maybeSingle() as { data: { id: string } | null }
+
+  if (existing) {
+    return { success: false, error: 'This order already has a cut sheet' }
+  }
+
+  const { record, error } = prepareSheet(sheet)
+  if (!record) return { success: false, error }
+
+  const created = await insertCutSheet(supabase, record, {
+    producer_id: organizationId,
+    processing_order_id: orderId,
+    is_template: false,
+  })
+
+  if (!created.id) return { success: false, error: created.error }
+  return { success: true, cutSheetId: created.id }
+}
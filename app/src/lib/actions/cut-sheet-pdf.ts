@@ -0,0 +1,186 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { getNotificationEmailTemplate } from '@/lib/email'
+import { deliverNow, queueEmails } from '@/lib/notifications/outbox'
+import {
+  renderCutSheetPdf,
+  getCutSheetPdfFilename,
+  type CutSheetPdfSource,
+} from '@/lib/cut-sheet-pdf'
+
+interface CutSheetPdfOrderRow {
+  id: string
+  order_number: number
+  producer_id: string
+  processor_id: string
+  hanging_weight: number | null
+  scheduled_drop_off: string | null
+  actual_drop_off: string | null
+  producer: { name: string } | null
+  processor: { name: string } | null
+  livestock: { tracking_id: string | null; tag_number: string | null; name: string | null } | null
+}
+
+interface CutSheetPdfResult {
+  success: boolean
+  error?: string
+  pdf?: string
+  filename?: string
+  orderNumber?: number
+}
+
+/**
+ * Render the order's submitted cut sheet as a PDF. Available to the
+ * producer and processor on the order.
+ */
+export async function getCutSheetPdf(orderId: string): Promise<CutSheetPdfResult> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { success: false, error: 'Not authenticated' }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { organization_id: string | null } | null
+  if (!profile?.organization_id) return { success: false, error: 'No organization found' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: order, error: orderError } = await (supabase as any)
+    .from('processing_orders')
+    .select(`
+      id,
+      order_number,
+      producer_id,
+      processor_id,
+      hanging_weight,
+      scheduled_drop_off,
+      actual_drop_off,
+      producer:organizations!producer_id (name),
+      processor:organizations!processor_id (name),
+      livestock (tracking_id, tag_number, name)
+    `)
+    .eq('id', orderId)
+    .single() as { data: CutSheetPdfOrderRow | null; error: Error | null }
+
+  if (orderError || !order) {
+    console.error('Error fetching order for cut sheet PDF:', orderError)
+    return { success: false, error: 'Order not found' }
+  }
+
+  if (order.producer_id !== profile.organization_id && order.processor_id !== profile.organization_id) {
+    return { success: false, error: 'You do not have access to this order' }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: cutSheet, error: cutSheetError } = await (supabase as any)
+    .from('cut_sheets')
+    .select(`
+      status,
+      animal_type,
+      hanging_weight_lbs,
+      ground_type,
+      ground_package_weight_lbs,
+      patty_size,
+      keep_liver,
+      keep_heart,
+      keep_tongue,
+      keep_kidneys,
+      keep_oxtail,
+      keep_bones,
+      special_instructions,
+      processor_notes,
+      processor_modifications,
+      removed_cuts,
+      added_cuts,
+      cut_sheet_items (cut_id, cut_name, thickness, weight_lbs, pieces_per_package, notes),
+      cut_sheet_sausages (flavor, pounds)
+    `)
+    .eq('processing_order_id', orderId)
+    .single() as { data: (CutSheetPdfSource & { status: string }) | null; error: Error | null }
+
+  if (cutSheetError || !cutSheet) {
+    return { success: false, error: 'No cut sheet for this order' }
+  }
+  if (cutSheet.status === 'draft') {
+    return { success: false, error: 'Cut sheet has not been submitted yet' }
+  }
+
+  const pdf = renderCutSheetPdf(cutSheet, {
+    order_number: order.order_number,
+    producer_name: order.producer?.name || '',
+    processor_name: order.processor?.name || null,
+    tracking_id: order.livestock?.tracking_id || null,
+    livestock_tag: order.livestock?.tag_number || null,
+    livestock_name: order.livestock?.name || null,
+    drop_off_date: order.actual_drop_off || order.scheduled_drop_off,
+    hanging_weight_lbs: order.hanging_weight,
+  })
+
+  return {
+    success: true,
+    pdf,
+    filename: getCutSheetPdfFilename(order.order_number),
+    orderNumber: order.order_number,
+  }
+}
+
+/**
+ * Email the cut sheet PDF to the signed-in user, e.g. to print from
+ * another machine. Goes through the outbox like other notification emails,
+ * so a failed send is retried.
+ */
+export async function emailCutSheetPdf(orderId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user?.email) return { success: false, error: 'Not authenticated' }
+
+  const result = await getCutSheetPdf(orderId)
+  if (!result.success || !result.pdf || !result.filename) {
+    return { success: false, error: result.error }
+  }
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('id, organization_id, full_name')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { id: string; organization_id: string | null; full_name: string | null } | null
+  if (!profile) return { success: false, error: 'User not found' }
+
+  const template = getNotificationEmailTemplate(
+    'system',
+    `Cut sheet for Order #${result.orderNumber}`,
+    'The cut sheet for this order is attached as a PDF.',
+    orderId,
+    profile.full_name || undefined
+  )
+  if (!template) return { success: false, error: 'Failed to send email' }
+
+  // The outbox is written with the service role only
+  const admin = createServiceClient()
+  const queued = await queueEmails(admin, [{
+    organizationId: profile.organization_id,
+    userId: profile.id,
+    to: user.email,
+    type: 'cut_sheet_pdf',
+    email: {
+      ...template,
+      attachments: [{ filename: result.filename, content: Buffer.from(result.pdf, 'latin1').toString('base64') }],
+    },
+  }])
+
+  if (queued.length === 0) {
+    return { success: false, error: 'Failed to send email' }
+  }
+
+  deliverNow(admin, queued)
+  return { success: true }
+}
@@ -0,0 +1,354 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { createServiceClient } from '@/lib/supabase/service'
+import { notifyOrganizationAsSystem } from '@/lib/notifications/system'
+import type { AnimalType, Invoice } from '@/types/database'
+import {
+  generateInvoice,
+  parseFeeSchedule,
+  canTransitionInvoice,
+  formatInvoiceNumber,
+  formatCurrency,
+  type FeeSchedule,
+  type InvoiceLineItem,
+  type InvoiceStatus,
+} from '@/lib/invoicing'
+
+interface OrderForInvoice {
+  id: string
+  order_number: number
+  processor_id: string
+  producer_id: string
+  hanging_weight: number | null
+  actual_ready_date: string | null
+  pickup_date: string | null
+  livestock: { animal_type: AnimalType } | null
+  cut_sheets: {
+    animal_type: AnimalType
+    hanging_weight_lbs: number | null
+    ground_type: string | null
+    cut_sheet_items: { cut_id: string; cut_name: string; weight_lbs: number | null }[]
+    cut_sheet_sausages: { flavor: string; pounds: number }[]
+    produced_packages: { cut_id: string; cut_name: string; actual_weight_lbs: number | null }[]
+  }[]
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+async function getCurrentUserAndOrg() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('id, organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { id: string; organization_id: string; organization: { type: string } | null } | null
+  if (!profile) return null
+  return {
+    userId: profile.id,
+    orgId: profile.organization_id,
+    isProcessor: profile.organization?.type === 'processor',
+  }
+}
+
+async function getInvoiceForProcessor(invoiceId: string, processorId: string): Promise<Invoice | null> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data } = await (supabase as any)
+    .from('invoices')
+    .select('*')
+    .eq('id', invoiceId)
+    .eq('processor_id', processorId)
+    .single()
+
+  return (data as Invoice | null) || null
+}
+
+// ============================================
+// Fee Schedule
+// ============================================
+
+/**
+ * Get the current processor's fee schedule
+ */
+export async function getFeeSchedule(): Promise<FeeSchedule> {
+  const supabase = await createClient()
+  const userInfo = await getCurrentUserAndOrg()
+  if (!userInfo?.isProcessor) return parseFeeSchedule(null)
+
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('processor_cut_config' as any)
+    .select('fee_schedule')
+    .eq('processor_id', userInfo.orgId)
+    .single()
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching fee schedule:', error)
+  }
+
+  return parseFeeSchedule((data as { fee_schedule: unknown } | null)?.fee_schedule)
+}
+
+/**
+ * Save the current processor's fee schedule
+ */
+export async function saveFeeSchedule(
+  schedule: FeeSchedule
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const userInfo = await getCurrentUserAndOrg()
+  if (!userInfo?.isProcessor) return { success: false, error: 'Only processors can set fees' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('processor_cut_config')
+    .upsert({
+      processor_id: userInfo.orgId,
+      fee_schedule: parseFeeSchedule(schedule),
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'processor_id',
+    })
+
+  if (error) {
+    console.error('Error saving fee schedule:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true }
+}
+
+// ============================================
+// Invoices
+// ============================================
+
+/**
+ * Get invoices for an order, newest first.
+ * RLS hides drafts from producers.
+ */
+export async function getOrderInvoices(orderId: string): Promise<Invoice[]> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('invoices')
+    .select('*')
+    .eq('processing_order_id', orderId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching invoices:', error)
+    return []
+  }
+
+  return (data || []) as Invoice[]
+}
+
+/**
+ * Generate (or regenerate) the draft invoice for an order from the
+ * processor's fee schedule. Issued or paid invoices must be voided first.
+ */
+export async function generateOrderInvoice(
+  orderId: string
+): Promise<{ success: boolean; error?: string; invoice?: Invoice; warnings?: string[] }> {
+  const supabase = await createClient()
+  const userInfo = await getCurrentUserAndOrg()
+  if (!userInfo) return { success: false, error: 'Not authenticated' }
+  if (!userInfo.isProcessor) return { success: false, error: 'Only processors can create invoices' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: orderData, error: orderError } = await (supabase as any)
+    .from('processing_orders')
+    .select(`
+      id,
+      order_number,
+      processor_id,
+      producer_id,
+      hanging_weight,
+      actual_ready_date,
+      pickup_date,
+      livestock:livestock_id (animal_type),
+      cut_sheets (
+        animal_type,
+        hanging_weight_lbs,
+        ground_type,
+        cut_sheet_items (cut_id, cut_name, weight_lbs),
+        cut_sheet_sausages (flavor, pounds),
+        produced_packages (cut_id, cut_name, actual_weight_lbs)
+      )
+    `)
+    .eq('id', orderId)
+    .eq('processor_id', userInfo.orgId)
+    .single()
+
+  if (orderError || !orderData) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  const order = orderData as OrderForInvoice
+  const cutSheet = order.cut_sheets?.[0]
+  const animalType = cutSheet?.animal_type || order.livestock?.animal_type
+  if (!animalType) {
+    return { success: false, error: 'Order has no animal type to price' }
+  }
+
+  const existing = (await getOrderInvoices(orderId)).filter(inv => inv.status !== 'void')
+  const draft = existing.find(inv => inv.status === 'draft')
+  if (existing.length > 0 && !draft) {
+    return { success: false, error: 'This order already has an issued invoice. Void it to generate a new one.' }
+  }
+
+  const schedule = await getFeeSchedule()
+  const result = generateInvoice({
+    animalType,
+    // Processors enter hanging weight on the cut sheet; fall back to the order
+    hangingWeight: Number(cutSheet?.hanging_weight_lbs ?? order.hanging_weight) || null,
+    groundType: cutSheet?.ground_type || null,
+    cutItems: cutSheet?.cut_sheet_items || [],
+    sausages: (cutSheet?.cut_sheet_sausages || []).map(s => ({ ...s, pounds: Number(s.pounds) })),
+    packages: (cutSheet?.produced_packages || []).map(p => ({
+      ...p,
+      actual_weight_lbs: p.actual_weight_lbs === null ? null : Number(p.actual_weight_lbs),
+    })),
+    actualReadyDate: order.actual_ready_date,
+    pickupDate: order.pickup_date,
+  }, schedule)
+
+  const invoiceData = {
+    line_items: result.lineItems,
+    subtotal: result.subtotal,
+    total: result.total,
+    fee_schedule: schedule,
+    warnings: result.warnings,
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const invoices = (supabase as any).from('invoices')
+  const { data: saved, error: saveError } = await (draft
+    ? invoices.update(invoiceData).eq('id', draft.id)
+    : invoices.insert({
+      ...invoiceData,
+      processing_order_id: order.id,
+      processor_id: order.processor_id,
+      producer_id: order.producer_id,
+      status: 'draft',
+      created_by: userInfo.userId,
+    }))
+    .select()
+    .single()
+
+  if (saveError) {
+    console.error('Error saving invoice:', saveError)
+    return { success: false, error: saveError.message }
+  }
+
+  revalidatePath(`/dashboard/orders/${orderId}`)
+  return { success: true, invoice: saved as Invoice, warnings: result.warnings }
+}
+
+/**
+ * Change an invoice's status: issue a draft, mark it paid, or void it.
+ * Issuing copies the totals onto the order and notifies the producer.
+ */
+export async function updateInvoiceStatus(
+  invoiceId: string,
+  status: Exclude<InvoiceStatus, 'draft'>,
+  details: { notes?: string; paymentReference?: string; voidReason?: string } = {}
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const userInfo = await getCurrentUserAndOrg()
+  if (!userInfo) return { success: false, error: 'Not authenticated' }
+  if (!userInfo.isProcessor) return { success: false, error: 'Only processors can update invoices' }
+
+  const invoice = await getInvoiceForProcessor(invoiceId, userInfo.orgId)
+  if (!invoice) return { success: false, error: 'Invoice not found' }
+
+  if (!canTransitionInvoice(invoice.status, status)) {
+    return { success: false, error: `A ${invoice.status} invoice cannot be marked ${status}` }
+  }
+
+  const now = new Date()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const updateData: Record<string, any> = { status }
+
+  if (status === 'issued') {
+    const schedule = parseFeeSchedule(invoice.fee_schedule)
+    const due = new Date(now.getTime() + schedule.paymentTermsDays * 24 * 60 * 60 * 1000)
+    updateData.issued_at = now.toISOString()
+    updateData.due_date = due.toISOString().split('T')[0]
+    if (details.notes !== undefined) updateData.notes = details.notes || null
+  } else if (status === 'paid') {
+    updateData.paid_at = now.toISOString()
+    updateData.payment_reference = details.paymentReference || null
+  } else {
+    updateData.voided_at = now.toISOString()
+    updateData.void_reason = details.voidReason || null
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('invoices')
+    .update(updateData)
+    .eq('id', invoiceId)
+
+  if (error) {
+    console.error('Error updating invoice status:', error)
+    return { success: false, error: error.message }
+  }
+
+  if (status === 'issued') {
+    await syncOrderCharges(invoice)
+
+    const { data: order } = await supabase
+      .from('processing_orders')
+      .select('order_number')
+      .eq('id', invoice.processing_order_id)
+      .single()
+    const orderNumber = (order as { order_number: number } | null)?.order_number
+
+    await notifyOrganizationAsSystem(createServiceClient(), invoice.producer_id, {
+      type: 'order_status_update',
+      title: `Order #${orderNumber}: Invoice ${formatInvoiceNumber(invoice.invoice_number)}`,
+      body: `An invoice for ${formatCurrency(Number(invoice.total))} has been issued, due ${updateData.due_date}.`,
+      processingOrderId: invoice.processing_order_id,
+    })
+  }
+
+  revalidatePath(`/dashboard/orders/${invoice.processing_order_id}`)
+  return { success: true }
+}
+
+// Copy the issued invoice's totals onto the order's fee columns
+async function syncOrderCharges(invoice: Invoice) {
+  const supabase = await createClient()
+  const lineItems = (invoice.line_items || []) as unknown as InvoiceLineItem[]
+  const sumOf = (categories: string[]) => lineItems
+    .filter(item => categories.includes(item.category))
+    .reduce((sum, item) => sum + item.amount, 0)
+
+  const { error } = await supabase
+    .from('processing_orders')
+    .update({
+      kill_fee: sumOf(['kill']),
+      processing_fee: sumOf(['cut_and_wrap']),
+      storage_fee: sumOf(['storage']),
+      additional_charges: lineItems.filter(item => ['surcharge', 'patties', 'sausage'].includes(item.category)),
+      total_amount: Number(invoice.total),
+    } as never)
+    .eq('id', invoice.processing_order_id)
+
+  if (error) {
+    console.error('Error syncing order charges:', error)
+  }
+}
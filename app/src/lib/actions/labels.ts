@@ -0,0 +1,152 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import {
+  buildPackageLabel,
+  type PackageLabel,
+  type LabelPackageSource,
+} from '@/lib/labels'
+
+export interface LabelBatchQuery {
+  orderId?: string
+  date?: string             // YYYY-MM-DD, packages produced that day
+  unprintedOnly?: boolean
+}
+
+interface LabelPackageRow extends LabelPackageSource {
+  cut_sheet: {
+    processing_order: {
+      id: string
+      order_number: number
+      producer: { name: string; farm_name: string | null } | null
+      processor: { license_type: string | null; license_number: string | null } | null
+      livestock: { tracking_id: string | null } | null
+    }
+  }
+}
+
+async function getProcessorOrgId(): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { organization_id: string; organization: { type: string } | null } | null
+  if (!profile || profile.organization?.type !== 'processor') return null
+  return profile.organization_id
+}
+
+/**
+ * Build labels for a whole order or for every package produced on a day
+ */
+export async function getPackageLabels(query: LabelBatchQuery): Promise<{
+  success: boolean
+  error?: string
+  labels?: PackageLabel[]
+}> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId()
+  if (!orgId) return { success: false, error: 'Only processors can print labels' }
+  if (!query.orderId && !query.date) return { success: false, error: 'An order or a date is required' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let request = (supabase as any)
+    .from('produced_packages')
+    .select(`
+      id,
+      cut_name,
+      package_number,
+      actual_weight_lbs,
+      created_at,
+      livestock_tracking_id,
+      cut_sheet:cut_sheets!inner (
+        processing_order:processing_orders!inner (
+          id,
+          order_number,
+          processor_id,
+          producer:organizations!producer_id (name, farm_name),
+          processor:organizations!processor_id (license_type, license_number),
+          livestock (tracking_id)
+        )
+      )
+    `)
+    .eq('cut_sheet.processing_order.processor_id', orgId)
+
+  if (query.orderId) {
+    request = request.eq('cut_sheet.processing_order.id', query.orderId)
+  }
+  if (query.date) {
+    const start = new Date(`${query.date}T00:00:00.000Z`)
+    if (isNaN(start.getTime())) return { success: false, error: 'Invalid date' }
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+    request = request.gte('created_at', start.toISOString()).lt('created_at', end.toISOString())
+  }
+  if (query.unprintedOnly) {
+    request = request.eq('label_printed', false)
+  }
+
+  const { data, error } = await request
+
+  if (error) {
+    console.error('Error fetching packages for labels:', error)
+    return { success: false, error: error.message }
+  }
+
+  const rows = ((data || []) as LabelPackageRow[]).sort((a, b) =>
+    a.cut_sheet.processing_order.order_number - b.cut_sheet.processing_order.order_number ||
+    a.cut_name.localeCompare(b.cut_name) ||
+    a.package_number - b.package_number
+  )
+
+  const labels = rows.map(row => {
+    const order = row.cut_sheet.processing_order
+    return buildPackageLabel(row, {
+      order_number: order.order_number,
+      producer_name: order.producer?.name || '',
+      farm_name: order.producer?.farm_name || null,
+      tracking_id: order.livestock?.tracking_id || null,
+      license_type: order.processor?.license_type || null,
+      license_number: order.processor?.license_number || null,
+    })
+  })
+
+  return { success: true, labels }
+}
+
+/**
+ * Record that labels were printed for these packages
+ */
+export async function markLabelsPrinted(
+  packageIds: string[]
+): Promise<{ success: boolean; error?: string }> {
+  if (packageIds.length === 0) return { success: true }
+
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId()
+  if (!orgId) return { success: false, error: 'Only processors can print labels' }
+
+  // RLS limits updates to packages on this processor's orders
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('produced_packages')
+    .update({
+      label_printed: true,
+      label_printed_at: new Date().toISOString(),
+    })
+    .in('id', packageIds)
+
+  if (error) {
+    console.error('Error marking labels printed:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/orders')
+  return { success: true }
+}
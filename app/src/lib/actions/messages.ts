@@ -1,12 +1,84 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
-import type { Organization, Message } from '@/types/database'
+import { createServiceClient } from '@/lib/supabase/service'
+import { notifyMessageRecipients } from '@/lib/notifications/system'
+import { revalidatePath } from 'next/cache'
+import type { Organization, MessageThread } from '@/types/database'
+import {
+  ATTACHMENT_URL_SECONDS,
+  MESSAGE_ATTACHMENT_BUCKET,
+  getThreadPartnerOrgId,
+  isAttachmentPathFor,
+  type MessageWithSender,
+  type ThreadSummary,
+  type ThreadWithOrder,
+  type UploadedAttachment,
+} from '@/lib/message-threads'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+const MESSAGE_SELECT = `
+  *,
+  sender:users!sender_id(full_name),
+  attachments:message_attachments(*)
+`
+
+const THREAD_SELECT = `
+  *,
+  order:processing_orders(
+    id, order_number, status, processing_stage, scheduled_drop_off, estimated_ready_date,
+    livestock(animal_type, tag_number, name),
+    producer:organizations!producer_id(id, name),
+    processor:organizations!processor_id(id, name)
+  )
+`
+
+// ============================================
+// Helper Functions
+// ============================================
+
+// Signs every attachment in one request; the bucket is private
+async function withAttachmentUrls(supabase: SupabaseClient, messages: MessageWithSender[]): Promise<MessageWithSender[]> {
+  const paths = messages.flatMap(msg => (msg.attachments || []).map(a => a.storage_path))
+  if (paths.length === 0) {
+    return messages.map(msg => ({ ...msg, attachments: msg.attachments || [] }))
+  }
+
+  const { data, error } = await supabase.storage
+    .from(MESSAGE_ATTACHMENT_BUCKET)
+    .createSignedUrls(paths, ATTACHMENT_URL_SECONDS)
+
+  if (error) {
+    console.error('Error signing message attachments:', error)
+  }
+
+  const urls = new Map((data || []).map(d => [d.path, d.signedUrl]))
+  return messages.map(msg => ({
+    ...msg,
+    attachments: (msg.attachments || [])
+      .map(a => ({ ...a, url: urls.get(a.storage_path) ?? null }))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  }))
+}
 
-interface MessageWithSender extends Message {
-  sender: { full_name: string } | null
+async function markIncomingAsRead(supabase: SupabaseClient, messages: MessageWithSender[], myOrgId: string): Promise<void> {
+  const incomingMessageIds = messages
+    .filter(msg => msg.recipient_org_id === myOrgId && !msg.read_at)
+    .map(msg => msg.id)
+
+  if (incomingMessageIds.length > 0) {
+    await supabase
+      .from('messages')
+      .update({ read_at: new Date().toISOString() } as never)
+      .in('id', incomingMessageIds)
+  }
 }
 
+// ============================================
+// Conversations
+// ============================================
+
 export async function getOrganizationById(orgId: string): Promise<Organization | null> {
   const supabase = await createClient()
 
@@ -40,13 +112,12 @@ export async function getConversationMessages(
 ): Promise<MessageWithSender[]> {
   const supabase = await createClient()
 
+  // Order threads have their own pages
   const { data, error } = await supabase
     .from('messages')
-    .select(`
-      *,
-      sender:users!sender_id(full_name)
-    `)
+    .select(MESSAGE_SELECT)
     .or(`and(sender_org_id.eq.${myOrgId},recipient_org_id.eq.${partnerOrgId}),and(sender_org_id.eq.${partnerOrgId},recipient_org_id.eq.${myOrgId})`)
+    .is('thread_id', null)
     .order('created_at', { ascending: true })
 
   if (error) {
@@ -54,7 +125,7 @@ export async function getConversationMessages(
     return []
   }
 
-  return (data || []) as MessageWithSender[]
+  return withAttachmentUrls(supabase, (data || []) as unknown as MessageWithSender[])
 }
 
 export async function getUserProfile(): Promise<{ id: string; organization_id: string } | null> {
@@ -84,36 +155,71 @@ export async function getUserProfile(): Promise<{ id: string; organization_id: s
   return { id: data.id, organization_id: data.organization_id }
 }
 
+/**
+ * Send a message, to the general conversation or an order thread, with any
+ * files the browser has already uploaded
+ */
 export async function sendMessage(
   senderId: string,
   senderOrgId: string,
   recipientOrgId: string,
-  content: string
+  content: string,
+  attachments: UploadedAttachment[] = [],
+  threadId: string | null = null
 ): Promise<MessageWithSender | null> {
   const supabase = await createClient()
 
+  if (!content.trim() && attachments.length === 0) return null
+  if (attachments.some(a => !isAttachmentPathFor(a.storage_path, senderOrgId, recipientOrgId))) {
+    console.error('Error sending message: attachment uploaded for another conversation')
+    return null
+  }
+
   const messageData = {
     sender_id: senderId,
     sender_org_id: senderOrgId,
     recipient_org_id: recipientOrgId,
+    thread_id: threadId,
     content: content.trim(),
   }
 
   const { data, error } = await supabase
     .from('messages')
     .insert(messageData as never)
-    .select(`
-      *,
-      sender:users!sender_id(full_name)
-    `)
+    .select(MESSAGE_SELECT)
     .single() as { data: MessageWithSender | null; error: Error | null }
 
-  if (error) {
+  if (error || !data) {
     console.error('Error sending message:', error)
     return null
   }
 
-  return data
+  notifyMessageRecipients(createServiceClient(), data, attachments.length).catch(err => {
+    console.error('Error notifying message recipients:', err)
+  })
+
+  if (attachments.length > 0) {
+    const { error: attachError } = await supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from('message_attachments' as any)
+      .insert(attachments.map(a => ({ ...a, message_id: data.id })) as never)
+
+    if (attachError) {
+      console.error('Error attaching files to message:', attachError)
+    }
+
+    const { data: withFiles } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('id', data.id)
+      .single() as { data: MessageWithSender | null }
+
+    const [message] = await withAttachmentUrls(supabase, [withFiles || data])
+    return message
+  }
+
+  const [message] = await withAttachmentUrls(supabase, [data])
+  return message
 }
 
 export async function markMessagesAsRead(
@@ -127,6 +233,7 @@ export async function markMessagesAsRead(
     .update({ read_at: new Date().toISOString() } as never)
     .eq('sender_org_id', senderOrgId)
     .eq('recipient_org_id', recipientOrgId)
+    .is('thread_id', null)
     .is('read_at', null)
 }
 
@@ -139,11 +246,9 @@ export async function getNewMessages(
 
   const { data, error } = await supabase
     .from('messages')
-    .select(`
-      *,
-      sender:users!sender_id(full_name)
-    `)
+    .select(MESSAGE_SELECT)
     .or(`and(sender_org_id.eq.${myOrgId},recipient_org_id.eq.${partnerOrgId}),and(sender_org_id.eq.${partnerOrgId},recipient_org_id.eq.${myOrgId})`)
+    .is('thread_id', null)
     .gt('created_at', afterTimestamp)
     .order('created_at', { ascending: true })
 
@@ -152,21 +257,233 @@ export async function getNewMessages(
     return []
   }
 
-  const messages = (data || []) as MessageWithSender[]
+  const messages = (data || []) as unknown as MessageWithSender[]
 
   // Mark incoming messages as read
-  if (messages.length > 0) {
-    const incomingMessageIds = messages
-      .filter(msg => msg.sender_org_id === partnerOrgId && !msg.read_at)
-      .map(msg => msg.id)
-
-    if (incomingMessageIds.length > 0) {
-      await supabase
-        .from('messages')
-        .update({ read_at: new Date().toISOString() } as never)
-        .in('id', incomingMessageIds)
+  await markIncomingAsRead(supabase, messages, myOrgId)
+
+  return withAttachmentUrls(supabase, messages)
+}
+
+// ============================================
+// Order Threads
+// ============================================
+
+/**
+ * Open the thread about an order, or about one cut on its cut sheet,
+ * starting it if there isn't one yet
+ */
+export async function startOrderThread(
+  orderId: string,
+  cut?: { cutId: string; cutName: string }
+): Promise<{ success: boolean; threadId?: string; error?: string }> {
+  const supabase = await createClient()
+  const profile = await getUserProfile()
+  if (!profile) return { success: false, error: 'Not authenticated' }
+
+  const findThread = async () => {
+    let query = supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from('message_threads' as any)
+      .select('id')
+      .eq('processing_order_id', orderId)
+    query = cut ? query.eq('cut_id', cut.cutId) : query.is('cut_id', null)
+    const { data } = await query.maybeSingle()
+    return (data as { id: string } | null)?.id ?? null
+  }
+
+  const existing = await findThread()
+  if (existing) return { success: true, threadId: existing }
+
+  // producer_org_id and processor_org_id are filled in from the order
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('message_threads' as any)
+    .insert({
+      processing_order_id: orderId,
+      cut_id: cut?.cutId ?? null,
+      cut_name: cut?.cutName ?? null,
+      created_by: profile.id,
+    } as never)
+    .select('id')
+    .single()
+
+  if (error) {
+    // Someone else started it first
+    if (error.code === '23505') {
+      const threadId = await findThread()
+      if (threadId) return { success: true, threadId }
     }
+    console.error('Error starting order thread:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath(`/dashboard/orders/${orderId}`)
+  return { success: true, threadId: (data as unknown as { id: string }).id }
+}
+
+/**
+ * A thread with its order, for the pinned context at the top
+ */
+export async function getThread(threadId: string): Promise<ThreadWithOrder | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('message_threads' as any)
+    .select(THREAD_SELECT)
+    .eq('id', threadId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching thread:', error)
+    return null
+  }
+
+  return data as unknown as ThreadWithOrder | null
+}
+
+async function summarizeThreads(
+  supabase: SupabaseClient,
+  threads: ThreadWithOrder[],
+  myOrgId: string
+): Promise<ThreadSummary[]> {
+  if (threads.length === 0) return []
+
+  const { data: unread } = await supabase
+    .from('messages')
+    .select('thread_id')
+    .in('thread_id', threads.map(t => t.id))
+    .eq('recipient_org_id', myOrgId)
+    .is('read_at', null)
+
+  const unreadCounts = new Map<string, number>()
+  for (const row of (unread || []) as { thread_id: string }[]) {
+    unreadCounts.set(row.thread_id, (unreadCounts.get(row.thread_id) || 0) + 1)
+  }
+
+  return threads.map(thread => ({ ...thread, unreadCount: unreadCounts.get(thread.id) || 0 }))
+}
+
+/**
+ * Threads on one order, the whole-order thread first
+ */
+export async function getOrderThreads(orderId: string): Promise<ThreadSummary[]> {
+  const supabase = await createClient()
+  const profile = await getUserProfile()
+  if (!profile) return []
+
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('message_threads' as any)
+    .select(THREAD_SELECT)
+    .eq('processing_order_id', orderId)
+    .order('last_message_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching order threads:', error)
+    return []
+  }
+
+  const threads = ((data || []) as unknown as ThreadWithOrder[])
+    .sort((a, b) => Number(a.cut_id !== null) - Number(b.cut_id !== null))
+  return summarizeThreads(supabase, threads, profile.organization_id)
+}
+
+/**
+ * The organization's most recently active order threads
+ */
+export async function getRecentThreads(limit: number = 20): Promise<ThreadSummary[]> {
+  const supabase = await createClient()
+  const profile = await getUserProfile()
+  if (!profile) return []
+
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('message_threads' as any)
+    .select(THREAD_SELECT)
+    .or(`producer_org_id.eq.${profile.organization_id},processor_org_id.eq.${profile.organization_id}`)
+    .order('last_message_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching threads:', error)
+    return []
+  }
+
+  return summarizeThreads(supabase, (data || []) as unknown as ThreadWithOrder[], profile.organization_id)
+}
+
+export async function getThreadMessages(threadId: string): Promise<MessageWithSender[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching thread messages:', error)
+    return []
+  }
+
+  return withAttachmentUrls(supabase, (data || []) as unknown as MessageWithSender[])
+}
+
+export async function getNewThreadMessages(
+  threadId: string,
+  myOrgId: string,
+  afterTimestamp: string
+): Promise<MessageWithSender[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('thread_id', threadId)
+    .gt('created_at', afterTimestamp)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching new thread messages:', error)
+    return []
   }
 
-  return messages
+  const messages = (data || []) as unknown as MessageWithSender[]
+  await markIncomingAsRead(supabase, messages, myOrgId)
+
+  return withAttachmentUrls(supabase, messages)
+}
+
+export async function markThreadAsRead(threadId: string, myOrgId: string): Promise<void> {
+  const supabase = await createClient()
+
+  await supabase
+    .from('messages')
+    .update({ read_at: new Date().toISOString() } as never)
+    .eq('thread_id', threadId)
+    .eq('recipient_org_id', myOrgId)
+    .is('read_at', null)
+}
+
+/**
+ * Send to an order thread; the recipient is whichever side of the order
+ * the sender isn't
+ */
+export async function sendThreadMessage(
+  thread: Pick<MessageThread, 'id' | 'producer_org_id' | 'processor_org_id'>,
+  senderId: string,
+  senderOrgId: string,
+  content: string,
+  attachments: UploadedAttachment[] = []
+): Promise<MessageWithSender | null> {
+  return sendMessage(
+    senderId,
+    senderOrgId,
+    getThreadPartnerOrgId(thread, senderOrgId),
+    content,
+    attachments,
+    thread.id
+  )
 }
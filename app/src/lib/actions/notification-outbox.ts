@@ -0,0 +1,133 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { revalidatePath } from 'next/cache'
+import { processOutbox } from '@/lib/notifications/outbox'
+import { summarizeOutbox, type OutboxChannel, type OutboxStatus } from '@/lib/notification-outbox'
+import type { UserRole } from '@/types/database'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+export interface DeliveryFailure {
+  id: string
+  created_at: string
+  channel: OutboxChannel
+  recipient: string
+  notification_type: string
+  subject: string | null
+  status: OutboxStatus
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+}
+
+export interface DeliveryReport {
+  summary: Record<OutboxStatus, number>      // the last 7 days
+  failures: DeliveryFailure[]
+}
+
+const REPORT_DAYS = 7
+
+// ============================================
+// Helper Functions
+// ============================================
+
+async function getManagerOrgId(supabase: SupabaseClient): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data } = await supabase
+    .from('users')
+    .select('organization_id, role')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = data as { organization_id: string | null; role: UserRole } | null
+  if (!profile || (profile.role !== 'owner' && profile.role !== 'manager')) return null
+  return profile.organization_id
+}
+
+// ============================================
+// Delivery Failures
+// ============================================
+
+/**
+ * Notification emails and texts to the current organization that failed,
+ * bounced or were given up on, for owners and managers
+ */
+export async function getDeliveryReport(): Promise<DeliveryReport | null> {
+  const supabase = await createClient()
+  const orgId = await getManagerOrgId(supabase)
+  if (!orgId) return null
+
+  const since = new Date(Date.now() - REPORT_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: recent, error: recentError } = await (supabase as any)
+    .from('notification_outbox')
+    .select('status')
+    .eq('organization_id', orgId)
+    .gte('created_at', since)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: failures, error } = await (supabase as any)
+    .from('notification_outbox')
+    .select('id, created_at, channel, recipient, notification_type, subject:payload->>subject, status, attempts, next_attempt_at, last_error')
+    .eq('organization_id', orgId)
+    .in('status', ['failed', 'dead', 'bounced'])
+    .order('created_at', { ascending: false })
+    .limit(50)
+
+  if (recentError || error) {
+    console.error('Error fetching delivery failures:', recentError || error)
+  }
+
+  return {
+    summary: summarizeOutbox((recent || []) as { status: OutboxStatus }[]),
+    failures: (failures || []) as DeliveryFailure[],
+  }
+}
+
+/**
+ * Try a failed or given-up delivery again now, with a fresh set of attempts
+ */
+export async function retryDelivery(
+  deliveryId: string
+): Promise<{ success: boolean; sent?: boolean; error?: string }> {
+  const supabase = await createClient()
+  const orgId = await getManagerOrgId(supabase)
+  if (!orgId) return { success: false, error: 'Only owners and managers can retry deliveries' }
+
+  // Visible only if it's this organization's
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: job } = await (supabase as any)
+    .from('notification_outbox')
+    .select('id, status')
+    .eq('id', deliveryId)
+    .eq('organization_id', orgId)
+    .maybeSingle()
+
+  if (!job) return { success: false, error: 'Delivery not found' }
+  if (job.status !== 'failed' && job.status !== 'dead') {
+    return { success: false, error: 'Only failed deliveries can be retried' }
+  }
+
+  // The outbox is written with the service role only
+  const admin = createServiceClient()
+  const { error } = await admin
+    .from('notification_outbox')
+    .update({ status: 'queued', attempts: 0, next_attempt_at: new Date().toISOString(), last_error: null } as never)
+    .eq('id', deliveryId)
+    .eq('status', job.status)
+
+  if (error) {
+    console.error('Error retrying delivery:', error)
+    return { success: false, error: error.message }
+  }
+
+  const result = await processOutbox(admin, { ids: [deliveryId] })
+
+  revalidatePath('/dashboard/settings')
+  return { success: true, sent: result.sent > 0 }
+}
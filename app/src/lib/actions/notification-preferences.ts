@@ -0,0 +1,165 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import {
+  getLegacyOverrides,
+  getOrganizationDefaults,
+  getUserOverrides,
+  parsePreferenceOverrides,
+  type PreferenceOverrides,
+} from '@/lib/notification-preferences'
+import type { SmsPreferences } from '@/lib/sms-notifications'
+import type { Json, UserRole } from '@/types/database'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+interface PreferenceProfile {
+  id: string
+  role: UserRole
+  organization_id: string | null
+  notification_preferences: Json | null
+  organization: { settings: Json | null } | null
+}
+
+export interface NotificationPreferenceSettings {
+  overrides: PreferenceOverrides
+  organizationDefaults: PreferenceOverrides
+  canEditDefaults: boolean       // owners and managers set the organization's defaults
+}
+
+// Replaced by overrides the first time someone saves
+const LEGACY_KEYS = ['email_order_updates', 'email_messages', 'email_system', 'sms_order_updates', 'sms_messages', 'sms_system']
+
+// ============================================
+// Helper Functions
+// ============================================
+
+async function getProfile(supabase: SupabaseClient): Promise<PreferenceProfile | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data } = await supabase
+    .from('users')
+    .select('id, role, organization_id, notification_preferences, organization:organizations(settings)')
+    .eq('auth_id', user.id)
+    .single()
+
+  return data as PreferenceProfile | null
+}
+
+function asObject(value: Json | null): Record<string, Json | undefined> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+}
+
+async function updatePreferences(
+  supabase: SupabaseClient,
+  profile: PreferenceProfile,
+  changes: Record<string, Json>
+): Promise<{ success: boolean; error?: string }> {
+  const preferences = { ...asObject(profile.notification_preferences), ...changes }
+
+  const { error } = await supabase
+    .from('users')
+    .update({ notification_preferences: preferences } as never)
+    .eq('id', profile.id)
+
+  if (error) {
+    console.error('Error saving notification preferences:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true }
+}
+
+// ============================================
+// Preferences
+// ============================================
+
+/**
+ * The current user's notification choices and their organization's defaults
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreferenceSettings> {
+  const supabase = await createClient()
+  const profile = await getProfile(supabase)
+  if (!profile) return { overrides: {}, organizationDefaults: {}, canEditDefaults: false }
+
+  const preferences = profile.notification_preferences
+  return {
+    overrides: asObject(preferences).overrides ? getUserOverrides(preferences) : getLegacyOverrides(preferences),
+    organizationDefaults: getOrganizationDefaults(profile.organization?.settings ?? null),
+    canEditDefaults: profile.role === 'owner' || profile.role === 'manager',
+  }
+}
+
+/**
+ * Save the current user's choices that differ from their organization's
+ * defaults
+ */
+export async function saveNotificationPreferences(
+  overrides: PreferenceOverrides
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const profile = await getProfile(supabase)
+  if (!profile) return { success: false, error: 'Not authenticated' }
+
+  const current = { ...asObject(profile.notification_preferences) }
+  for (const key of LEGACY_KEYS) delete current[key]
+
+  return updatePreferences(supabase, { ...profile, notification_preferences: current }, {
+    overrides: parsePreferenceOverrides(overrides) as Json,
+  })
+}
+
+/**
+ * Save the current user's texting switch and quiet hours. Quiet hours are
+ * kept in the time zone of the browser that saved them.
+ */
+export async function saveSmsPreferences(
+  changes: Partial<SmsPreferences>
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const profile = await getProfile(supabase)
+  if (!profile) return { success: false, error: 'Not authenticated' }
+
+  const allowed: Record<string, Json> = {}
+  if (typeof changes.sms_enabled === 'boolean') allowed.sms_enabled = changes.sms_enabled
+  if (changes.sms_quiet_start !== undefined) allowed.sms_quiet_start = changes.sms_quiet_start || null
+  if (changes.sms_quiet_end !== undefined) allowed.sms_quiet_end = changes.sms_quiet_end || null
+  if (changes.sms_timezone) allowed.sms_timezone = changes.sms_timezone
+
+  return updatePreferences(supabase, profile, allowed)
+}
+
+/**
+ * Save the defaults for everyone in the current user's organization
+ */
+export async function saveOrganizationNotificationDefaults(
+  defaults: PreferenceOverrides
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const profile = await getProfile(supabase)
+  if (!profile?.organization_id) return { success: false, error: 'Not authenticated' }
+  if (profile.role !== 'owner' && profile.role !== 'manager') {
+    return { success: false, error: 'Only owners and managers can change organization defaults' }
+  }
+
+  const settings = {
+    ...asObject(profile.organization?.settings ?? null),
+    notification_defaults: parsePreferenceOverrides(defaults) as Json,
+  }
+
+  const { error } = await supabase
+    .from('organizations')
+    .update({ settings } as never)
+    .eq('id', profile.organization_id)
+
+  if (error) {
+    console.error('Error saving organization notification defaults:', error)
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true }
+}
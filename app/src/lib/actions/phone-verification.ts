@@ -0,0 +1,152 @@
+'use server'
+
+import { createHash, randomInt } from 'crypto'
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { smsProvider } from '@/lib/sms'
+import {
+  checkPhoneCode,
+  describePhoneCodeResult,
+  formatPhoneVerificationSms,
+  PHONE_CODE_MINUTES,
+  type PendingPhoneCode,
+} from '@/lib/sms-notifications'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+interface PhoneProfile {
+  id: string
+  phone_e164: string | null
+  phone_verified_at: string | null
+}
+
+// Wait between texting codes to the same user
+const RESEND_SECONDS = 60
+
+// ============================================
+// Helper Functions
+// ============================================
+
+async function getProfile(supabase: SupabaseClient): Promise<PhoneProfile | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data } = await supabase
+    .from('users')
+    .select('id, phone_e164, phone_verified_at')
+    .eq('auth_id', user.id)
+    .single()
+
+  return data as PhoneProfile | null
+}
+
+// Salted with the user so equal codes don't hash alike
+function hashCode(userId: string, code: string): string {
+  return createHash('sha256').update(`${userId}:${code}`).digest('hex')
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Text a code to the number on the current user's profile
+ */
+export async function sendPhoneVerificationCode(): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const profile = await getProfile(supabase)
+  if (!profile) return { success: false, error: 'Not authenticated' }
+  if (!profile.phone_e164) return { success: false, error: 'Add a mobile number to your profile first' }
+  if (profile.phone_verified_at) return { success: false, error: 'Your number is already verified' }
+  if (!smsProvider) return { success: false, error: 'Texting is not set up' }
+
+  // Codes are never readable by clients - the service role writes and checks them
+  const admin = createServiceClient()
+
+  const { data: pending } = await admin
+    .from('phone_verifications')
+    .select('created_at')
+    .eq('user_id', profile.id)
+    .maybeSingle()
+  if (pending && Date.now() - new Date(pending.created_at).getTime() < RESEND_SECONDS * 1000) {
+    return { success: false, error: 'A code was just sent. Wait a minute before sending another.' }
+  }
+
+  const code = randomInt(0, 1000000).toString().padStart(6, '0')
+  const now = new Date()
+
+  const { error } = await admin
+    .from('phone_verifications')
+    .upsert({
+      user_id: profile.id,
+      created_at: now.toISOString(),
+      phone_e164: profile.phone_e164,
+      code_hash: hashCode(profile.id, code),
+      expires_at: new Date(now.getTime() + PHONE_CODE_MINUTES * 60000).toISOString(),
+      attempts: 0,
+    })
+
+  if (error) {
+    console.error('Error saving phone verification code:', error)
+    return { success: false, error: error.message }
+  }
+
+  try {
+    await smsProvider.send({ to: profile.phone_e164, body: formatPhoneVerificationSms(code) })
+  } catch (sendError) {
+    console.error('Error texting phone verification code:', sendError)
+    return { success: false, error: "We couldn't text that number. Check it and try again." }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Check the code the current user typed. A matching code marks their number
+ * verified; wrong guesses count towards the limit.
+ */
+export async function verifyPhoneCode(code: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const profile = await getProfile(supabase)
+  if (!profile) return { success: false, error: 'Not authenticated' }
+
+  const admin = createServiceClient()
+
+  const { data } = await admin
+    .from('phone_verifications')
+    .select('phone_e164, code_hash, expires_at, attempts')
+    .eq('user_id', profile.id)
+    .maybeSingle()
+
+  const result = checkPhoneCode(
+    data as PendingPhoneCode | null,
+    profile.phone_e164,
+    hashCode(profile.id, code.replace(/\D/g, ''))
+  )
+
+  if (result === 'wrong_code') {
+    await admin
+      .from('phone_verifications')
+      .update({ attempts: (data as PendingPhoneCode).attempts + 1 })
+      .eq('user_id', profile.id)
+  }
+  if (result !== 'verified') return { success: false, error: describePhoneCodeResult(result) }
+
+  // Only if the number is still the one the code went to
+  const { error } = await admin
+    .from('users')
+    .update({ phone_verified_at: new Date().toISOString() })
+    .eq('id', profile.id)
+    .eq('phone_e164', profile.phone_e164!)
+
+  if (error) {
+    console.error('Error marking phone verified:', error)
+    return { success: false, error: error.message }
+  }
+
+  await admin.from('phone_verifications').delete().eq('user_id', profile.id)
+
+  revalidatePath('/dashboard/settings')
+  return { success: true }
+}
@@ -0,0 +1,316 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { revalidatePath } from 'next/cache'
+import { loadBookingPolicy, loadReliability } from '@/lib/booking-history'
+import { notifyOrderStatusChange } from '@/lib/notifications/actions'
+import { notifyOrganizationAsSystem } from '@/lib/notifications/system'
+import { notifyNextInWaitlist } from '@/lib/actions/waitlist'
+import {
+  canMarkNoShow,
+  canProducerCancel,
+  getReliabilityScore,
+  isLateCancellation,
+  type NoShowCandidate,
+  type ProducerReliability,
+} from '@/lib/reliability'
+import type { AnimalType } from '@/types/database'
+
+// Types
+export interface ReliabilityRecord {
+  reliability: ProducerReliability
+  score: number | null
+}
+
+export interface CancellationTerms {
+  lateCancelHours: number       // 0 when the processor doesn't count late cancellations
+  late: boolean                 // Cancelling now would count as late
+}
+
+interface ReliabilityOrder extends NoShowCandidate {
+  id: string
+  order_number: number
+  producer_id: string
+  processor_id: string
+  slot_reserved: boolean
+  no_show_at: string | null
+  deposit_amount: number | null
+  deposit_paid_at: string | null
+  livestock: { animal_type: AnimalType } | null
+}
+
+const ORDER_SELECT = `
+  id, order_number, producer_id, processor_id, status, processing_stage, scheduled_drop_off,
+  slot_reserved, no_show_at, deposit_amount, deposit_paid_at,
+  livestock:livestock(animal_type)
+`
+
+// Helper to get current user's organization
+async function getCurrentOrg(): Promise<{ id: string; type: 'producer' | 'processor' } | null> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const userData = profile as { organization_id: string | null; organization: { type: 'producer' | 'processor' } | null } | null
+  if (!userData?.organization_id || !userData.organization) return null
+  return { id: userData.organization_id, type: userData.organization.type }
+}
+
+// An order at the current processor (RLS lets producers read theirs too)
+async function getOrder(orderId: string): Promise<ReliabilityOrder | null> {
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from('processing_orders')
+    .select(ORDER_SELECT)
+    .eq('id', orderId)
+    .maybeSingle()
+
+  return data as ReliabilityOrder | null
+}
+
+function revalidateOrder(orderId: string) {
+  revalidatePath(`/dashboard/orders/${orderId}`)
+  revalidatePath('/dashboard/orders')
+  revalidatePath('/dashboard')
+}
+
+// ============================================
+// Records
+// ============================================
+
+/**
+ * A producer's reliability record over the last year: the current producer's
+ * own, or any producer's for a processor
+ */
+export async function getProducerReliability(producerId?: string): Promise<ReliabilityRecord | null> {
+  const org = await getCurrentOrg()
+  if (!org) return null
+
+  const id = producerId ?? org.id
+  if (org.type === 'producer' && id !== org.id) return null
+
+  const supabase = await createClient()
+  const records = await loadReliability(supabase, [id])
+  const reliability = records[id]
+  return { reliability, score: getReliabilityScore(reliability) }
+}
+
+// ============================================
+// No-shows
+// ============================================
+
+/**
+ * Mark an order whose animal never arrived as a no-show, cancelling it
+ * (Processor only)
+ */
+export async function markOrderNoShow(
+  orderId: string
+): Promise<{ success: boolean; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org || org.type !== 'processor') {
+    return { success: false, error: 'Only processors can mark no-shows' }
+  }
+
+  const order = await getOrder(orderId)
+  if (!order || order.processor_id !== org.id) {
+    return { success: false, error: 'Order not found' }
+  }
+  if (!canMarkNoShow(order)) {
+    return { success: false, error: 'Only booked orders can be marked a no-show, from their drop-off day on' }
+  }
+
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('processing_orders')
+    .update({ status: 'cancelled', no_show_at: new Date().toISOString() } as never)
+    .eq('id', orderId)
+    .eq('processor_id', org.id)
+
+  if (error) {
+    console.error('Error marking no-show:', error)
+    return { success: false, error: error.message }
+  }
+
+  await notifyOrganizationAsSystem(createServiceClient(), order.producer_id, {
+    type: 'order_status_update',
+    title: `Order #${order.order_number}: Marked as a no-show`,
+    body: 'The processor marked this order as a no-show and cancelled it. It counts against your reliability record for a year.',
+    processingOrderId: orderId,
+  })
+
+  revalidateOrder(orderId)
+  return { success: true }
+}
+
+/**
+ * Take back a no-show marked by mistake. The order stays cancelled.
+ * (Processor only)
+ */
+export async function clearOrderNoShow(
+  orderId: string
+): Promise<{ success: boolean; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org || org.type !== 'processor') {
+    return { success: false, error: 'Only processors can clear no-shows' }
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('processing_orders')
+    .update({ no_show_at: null } as never)
+    .eq('id', orderId)
+    .eq('processor_id', org.id)
+    .not('no_show_at', 'is', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error clearing no-show:', error)
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'This order is not marked as a no-show' }
+  }
+
+  revalidateOrder(orderId)
+  return { success: true }
+}
+
+// ============================================
+// Cancellations
+// ============================================
+
+/**
+ * Whether cancelling an order now would count as late, for the producer to
+ * see before they cancel
+ */
+export async function getCancellationTerms(orderId: string): Promise<CancellationTerms | null> {
+  const org = await getCurrentOrg()
+  const order = await getOrder(orderId)
+  if (!org || !order || order.producer_id !== org.id) return null
+
+  // Producers can't read the processor's settings. A draft that never held a
+  // place isn't late, as in apply_order_reliability.
+  const policy = await loadBookingPolicy(createServiceClient(), order.processor_id)
+  return {
+    lateCancelHours: policy.lateCancelHours,
+    late: (order.status !== 'draft' || order.slot_reserved) && isLateCancellation(policy, order.scheduled_drop_off),
+  }
+}
+
+/**
+ * Cancel an order before drop-off and offer its place to the waitlist. Within
+ * the processor's late-cancellation window it counts as late. (Producer only)
+ */
+export async function cancelOrder(
+  orderId: string
+): Promise<{ success: boolean; lateCancellation?: boolean; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org || org.type !== 'producer') {
+    return { success: false, error: 'Only producers can cancel their orders here' }
+  }
+
+  const order = await getOrder(orderId)
+  if (!order || order.producer_id !== org.id) {
+    return { success: false, error: 'Order not found' }
+  }
+  if (!canProducerCancel(order)) {
+    return { success: false, error: 'This order can no longer be cancelled. Contact the processor.' }
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('processing_orders')
+    .update({ status: 'cancelled' } as never)
+    .eq('id', orderId)
+    .eq('producer_id', org.id)
+    .select('late_cancellation')
+    .single()
+
+  if (error) {
+    console.error('Error cancelling order:', error)
+    return { success: false, error: error.message }
+  }
+
+  await notifyOrderStatusChange(orderId, 'cancelled')
+  await notifyNextInWaitlist(orderId)
+
+  revalidateOrder(orderId)
+  return { success: true, lateCancellation: (data as { late_cancellation: boolean }).late_cancellation }
+}
+
+// ============================================
+// Deposits
+// ============================================
+
+/**
+ * Record whether the deposit on an order has been paid (Processor only)
+ */
+export async function setDepositPaid(
+  orderId: string,
+  paid: boolean
+): Promise<{ success: boolean; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org || org.type !== 'processor') {
+    return { success: false, error: 'Only processors can record deposits' }
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('processing_orders')
+    .update({ deposit_paid_at: paid ? new Date().toISOString() : null } as never)
+    .eq('id', orderId)
+    .eq('processor_id', org.id)
+    .not('deposit_amount', 'is', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error recording deposit:', error)
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'This order has no deposit' }
+  }
+
+  revalidateOrder(orderId)
+  return { success: true }
+}
+
+/**
+ * Drop an unpaid deposit from an order (Processor only)
+ */
+export async function waiveDeposit(
+  orderId: string
+): Promise<{ success: boolean; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org || org.type !== 'processor') {
+    return { success: false, error: 'Only processors can waive deposits' }
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('processing_orders')
+    .update({ deposit_amount: null } as never)
+    .eq('id', orderId)
+    .eq('processor_id', org.id)
+    .is('deposit_paid_at', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error waiving deposit:', error)
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'A paid deposit can\'t be waived' }
+  }
+
+  revalidateOrder(orderId)
+  return { success: true }
+}
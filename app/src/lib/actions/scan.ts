@@ -0,0 +1,363 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { classifyScanCode, type ScanCodeKind } from '@/lib/scan'
+import { getStageAdvance, STAGE_LABELS } from '@/lib/processing-stages'
+import { updateHangingWeight } from '@/lib/actions/processor-cut-sheet'
+import { notifyOrderStatusChange, notifyProcessingStageChange } from '@/lib/notifications/actions'
+import type { OrderStatus, ProcessingStage } from '@/types/database'
+
+export interface ScanResult {
+  kind: Exclude<ScanCodeKind, 'unknown'>
+  code: string
+  href: string                    // Where the scanned item lives in the dashboard
+  isProcessor: boolean
+  order: {
+    id: string
+    orderNumber: number
+    status: OrderStatus
+    processingStage: ProcessingStage
+    hangingWeight: number | null
+    animalType: string | null
+    producerName: string
+  } | null
+  livestock: {
+    id: string
+    trackingId: string | null
+    tagNumber: string | null
+    name: string | null
+  } | null
+  package: {
+    id: string
+    cutName: string
+    packageNumber: number
+    actualWeightLbs: number | null
+  } | null
+  cutSheetId: string | null
+}
+
+interface ScanUser {
+  userId: string
+  orgId: string
+  role: 'producer' | 'processor'
+}
+
+interface ScanOrderRow {
+  id: string
+  order_number: number
+  status: OrderStatus
+  processing_stage: ProcessingStage
+  hanging_weight: number | null
+  producer_id: string
+  processor_id: string
+  producer: { name: string } | null
+  livestock: { id: string; tracking_id: string | null; tag_number: string | null; name: string | null; animal_type: string } | null
+  cut_sheets: { id: string }[] | null
+}
+
+const ORDER_COLUMNS = `
+  id,
+  order_number,
+  status,
+  processing_stage,
+  hanging_weight,
+  producer_id,
+  processor_id,
+  producer:organizations!producer_id (name),
+  cut_sheets (id)
+`
+const LIVESTOCK_COLUMNS = 'id, tracking_id, tag_number, name, animal_type'
+const ORDER_SELECT = `${ORDER_COLUMNS}, livestock (${LIVESTOCK_COLUMNS})`
+
+async function getScanUser(): Promise<ScanUser | null> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('id, organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { id: string; organization_id: string; organization: { type: string } | null } | null
+  if (!profile?.organization) return null
+  return {
+    userId: profile.id,
+    orgId: profile.organization_id,
+    role: profile.organization.type === 'processor' ? 'processor' : 'producer',
+  }
+}
+
+async function recordScanHistory(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  scanUser: ScanUser,
+  cutSheetId: string,
+  orderId: string,
+  changeType: 'updated' | 'status_changed',
+  changeSummary: string,
+  previousState: object | null,
+  newState: object,
+  changedFields: string[],
+  affectedPackageId?: string
+) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any).from('cut_sheet_history').insert({
+    cut_sheet_id: cutSheetId,
+    processing_order_id: orderId,
+    changed_by_user_id: scanUser.userId,
+    changed_by_org_id: scanUser.orgId,
+    changed_by_role: scanUser.role,
+    change_type: changeType,
+    change_category: 'scanned',
+    change_summary: changeSummary,
+    previous_state: previousState,
+    new_state: newState,
+    changed_fields: changedFields,
+    affected_package_id: affectedPackageId || null,
+  })
+
+  if (error) {
+    console.error('Error recording scan history:', error)
+  }
+}
+
+/**
+ * Look up a scanned tag, package label or order number. Queries run as the
+ * signed-in user, so anything outside their organization's orders resolves
+ * as not found.
+ */
+export async function resolveScanCode(rawCode: string): Promise<{
+  success: boolean
+  error?: string
+  result?: ScanResult
+}> {
+  const supabase = await createClient()
+  const scanUser = await getScanUser()
+  if (!scanUser) return { success: false, error: 'Not authenticated' }
+
+  const scan = classifyScanCode(rawCode)
+  if (scan.kind === 'unknown') {
+    return { success: false, error: `Unrecognized code "${scan.value}"` }
+  }
+
+  let order: ScanOrderRow | null = null
+  let livestock: ScanResult['livestock'] = null
+  let pkg: ScanResult['package'] = null
+  let cutSheetId: string | null = null
+
+  if (scan.kind === 'tracking_id') {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: animal } = await (supabase as any)
+      .from('livestock')
+      .select('id, tracking_id, tag_number, name')
+      .eq('tracking_id', scan.value)
+      .maybeSingle()
+
+    // Processors can't read livestock directly, so fall back to the order it is on
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: orders } = await (supabase as any)
+      .from('processing_orders')
+      .select(`${ORDER_COLUMNS}, livestock!inner (${LIVESTOCK_COLUMNS})`)
+      .eq('livestock.tracking_id', scan.value)
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    order = (orders?.[0] as ScanOrderRow) || null
+    const source = animal || order?.livestock
+    if (source) {
+      livestock = { id: source.id, trackingId: source.tracking_id, tagNumber: source.tag_number, name: source.name }
+    }
+  } else if (scan.kind === 'package') {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: packageRow } = await (supabase as any)
+      .from('produced_packages')
+      .select('id, cut_name, package_number, actual_weight_lbs, cut_sheet_id, cut_sheets!inner(processing_order_id)')
+      .eq('id', scan.value)
+      .maybeSingle()
+
+    if (packageRow) {
+      pkg = {
+        id: packageRow.id,
+        cutName: packageRow.cut_name,
+        packageNumber: packageRow.package_number,
+        actualWeightLbs: packageRow.actual_weight_lbs,
+      }
+      cutSheetId = packageRow.cut_sheet_id
+      order = await fetchOrder(supabase, 'id', packageRow.cut_sheets.processing_order_id)
+    }
+  } else {
+    order = await fetchOrder(supabase, 'order_number', Number(scan.value))
+  }
+
+  if (!order && !livestock) {
+    return { success: false, error: 'Nothing found for this code' }
+  }
+
+  if (order) {
+    cutSheetId = cutSheetId || order.cut_sheets?.[0]?.id || null
+    if (!livestock && order.livestock) {
+      livestock = {
+        id: order.livestock.id,
+        trackingId: order.livestock.tracking_id,
+        tagNumber: order.livestock.tag_number,
+        name: order.livestock.name,
+      }
+    }
+  }
+
+  // History hangs off the cut sheet, so scans before one exists go unlogged
+  if (order && cutSheetId) {
+    const summary = pkg
+      ? `Scanned package label: ${pkg.cutName} #${pkg.packageNumber}`
+      : scan.kind === 'tracking_id'
+        ? `Scanned tag ${scan.value}`
+        : `Scanned order #${order.order_number}`
+    await recordScanHistory(
+      supabase, scanUser, cutSheetId, order.id, 'updated', summary,
+      null, { kind: scan.kind, code: scan.value }, [], pkg?.id
+    )
+  }
+
+  // Producers see their animals on the livestock page; everything else opens the order
+  const href = scan.kind === 'tracking_id' && scanUser.role === 'producer' && livestock
+    ? `/dashboard/livestock/${livestock.id}`
+    : order
+      ? `/dashboard/orders/${order.id}`
+      : `/dashboard/livestock/${livestock!.id}`
+
+  return {
+    success: true,
+    result: {
+      kind: scan.kind,
+      code: scan.value,
+      href,
+      isProcessor: scanUser.role === 'processor',
+      order: order
+        ? {
+            id: order.id,
+            orderNumber: order.order_number,
+            status: order.status,
+            processingStage: order.processing_stage,
+            hangingWeight: order.hanging_weight,
+            animalType: order.livestock?.animal_type || null,
+            producerName: order.producer?.name || '',
+          }
+        : null,
+      livestock,
+      package: pkg,
+      cutSheetId,
+    },
+  }
+}
+
+async function fetchOrder(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  column: 'id' | 'order_number',
+  value: string | number
+): Promise<ScanOrderRow | null> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data } = await (supabase as any)
+    .from('processing_orders')
+    .select(ORDER_SELECT)
+    .eq(column, value)
+    .maybeSingle()
+
+  return (data as ScanOrderRow) || null
+}
+
+/**
+ * Move a scanned order to its next processing stage
+ */
+export async function advanceStageFromScan(orderId: string): Promise<{
+  success: boolean
+  error?: string
+  processingStage?: ProcessingStage
+}> {
+  const supabase = await createClient()
+  const scanUser = await getScanUser()
+  if (scanUser?.role !== 'processor') return { success: false, error: 'Only processors can advance orders' }
+
+  const order = await fetchOrder(supabase, 'id', orderId)
+  if (!order || order.processor_id !== scanUser.orgId) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  const advance = getStageAdvance(order.processing_stage, order.status)
+  if (!advance) return { success: false, error: 'Order is already at the last stage' }
+  const { nextStage, newStatus, statusChanged } = advance
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('processing_orders')
+    .update({ processing_stage: nextStage, status: newStatus })
+    .eq('id', orderId)
+
+  if (error) {
+    console.error('Error advancing stage from scan:', error)
+    return { success: false, error: error.message }
+  }
+
+  if (statusChanged) {
+    await notifyOrderStatusChange(order.id, newStatus)
+  } else {
+    await notifyProcessingStageChange(order.id, nextStage)
+  }
+
+  const cutSheetId = order.cut_sheets?.[0]?.id
+  if (cutSheetId) {
+    await recordScanHistory(
+      supabase, scanUser, cutSheetId, order.id, 'status_changed',
+      `Advanced to ${STAGE_LABELS[nextStage]} from scan`,
+      { processing_stage: order.processing_stage, status: order.status },
+      { processing_stage: nextStage, status: newStatus },
+      newStatus !== order.status ? ['processing_stage', 'status'] : ['processing_stage']
+    )
+  }
+
+  revalidatePath('/dashboard/orders')
+  revalidatePath(`/dashboard/orders/${orderId}`)
+  return { success: true, processingStage: nextStage }
+}
+
+/**
+ * Enter hanging weight for a scanned carcass. Sets the order's weight and,
+ * when a cut sheet exists, the cut sheet's so yields and history pick it up.
+ */
+export async function recordHangingWeightFromScan(
+  orderId: string,
+  weight: number
+): Promise<{ success: boolean; error?: string }> {
+  if (!(weight > 0)) return { success: false, error: 'Enter a weight greater than zero' }
+
+  const supabase = await createClient()
+  const scanUser = await getScanUser()
+  if (scanUser?.role !== 'processor') return { success: false, error: 'Only processors can enter weights' }
+
+  const order = await fetchOrder(supabase, 'id', orderId)
+  if (!order || order.processor_id !== scanUser.orgId) {
+    return { success: false, error: 'Order not found' }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('processing_orders')
+    .update({ hanging_weight: weight })
+    .eq('id', orderId)
+
+  if (error) {
+    console.error('Error recording hanging weight from scan:', error)
+    return { success: false, error: error.message }
+  }
+
+  const cutSheetId = order.cut_sheets?.[0]?.id
+  if (cutSheetId) {
+    const result = await updateHangingWeight(cutSheetId, weight)
+    if (!result.success) return result
+  }
+
+  revalidatePath(`/dashboard/orders/${orderId}`)
+  return { success: true }
+}
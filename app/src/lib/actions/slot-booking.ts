@@ -0,0 +1,171 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { notifyOrderStatusChange } from '@/lib/notifications/actions'
+import type { AnimalType, CalendarSlotHold } from '@/types/database'
+import { parseSlotBookingError, SLOT_HOLD_MINUTES } from '@/lib/slot-booking'
+
+interface BookableSlot {
+  id: string
+  date: string
+  animal_type: AnimalType
+  capacity: number
+  kill_fee: number | null
+  remaining: number
+}
+
+/**
+ * Open slots a processor has on a date, with the places left after
+ * bookings and other producers' holds
+ */
+export async function getBookableSlots(processorId: string, date: string): Promise<BookableSlot[]> {
+  const supabase = await createClient()
+
+  const { data: slots, error } = await supabase
+    .from('calendar_slots')
+    .select('id, date, animal_type, capacity, kill_fee')
+    .eq('processor_id', processorId)
+    .eq('date', date)
+    .eq('is_available', true) as { data: Omit<BookableSlot, 'remaining'>[] | null; error: Error | null }
+
+  if (error) {
+    console.error('Error fetching bookable slots:', error)
+    return []
+  }
+
+  return Promise.all((slots || []).map(async slot => {
+    const { data: remaining } = await supabase.rpc('get_slot_remaining', { p_slot_id: slot.id } as never)
+    return { ...slot, remaining: (remaining as number | null) ?? 0 }
+  }))
+}
+
+/**
+ * Hold places on a slot while the producer finishes their order. Holding
+ * again replaces the producer's previous hold on the slot.
+ */
+export async function holdSlot(
+  slotId: string,
+  head: number
+): Promise<{ success: boolean; error?: string; remaining?: number | null; hold?: CalendarSlotHold }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('hold_calendar_slot', {
+    p_slot_id: slotId,
+    p_head: head,
+    p_minutes: SLOT_HOLD_MINUTES,
+  } as never)
+
+  if (error) {
+    const parsed = parseSlotBookingError(error)
+    if (parsed.code === 'unknown') console.error('Error holding slot:', error)
+    return { success: false, error: parsed.message, remaining: parsed.remaining }
+  }
+
+  return { success: true, hold: data as CalendarSlotHold }
+}
+
+/**
+ * Give held places back early
+ */
+export async function releaseSlotHold(holdId: string): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from('calendar_slot_holds')
+    .delete()
+    .eq('id', holdId)
+
+  if (error) {
+    console.error('Error releasing slot hold:', error)
+    return { success: false, error: 'Failed to release hold' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Book a slot for the selected animals (or one order with no animal). Every
+ * order is created or none are.
+ */
+export async function bookSlot(
+  slotId: string,
+  livestockIds: string[],
+  notes: string | null
+): Promise<{ success: boolean; error?: string; remaining?: number | null; orderIds?: string[] }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('book_calendar_slot', {
+    p_slot_id: slotId,
+    p_livestock_ids: livestockIds,
+    p_notes: notes,
+  } as never)
+
+  if (error) {
+    const parsed = parseSlotBookingError(error)
+    if (parsed.code === 'unknown') console.error('Error booking slot:', error)
+    return { success: false, error: parsed.message, remaining: parsed.remaining }
+  }
+
+  // Booked orders start out submitted, so the processor hears about them now
+  const orderIds = (data as string[] | null) || []
+  for (const orderId of orderIds) {
+    await notifyOrderStatusChange(orderId, 'submitted')
+  }
+
+  revalidatePath('/dashboard/orders')
+  revalidatePath('/dashboard/calendar')
+  return { success: true, orderIds }
+}
+
+/**
+ * Ask a processor to schedule the selected animals (or one order with no
+ * animal) on a date without a calendar slot. The orders go in as one insert,
+ * so if a booking limit stops any of them, none are created.
+ */
+export async function requestOrders(
+  processorId: string,
+  livestockIds: string[],
+  scheduledDate: string | null,
+  notes: string | null
+): Promise<{ success: boolean; error?: string; orderIds?: string[] }> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return { success: false, error: 'Not authenticated' }
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('auth_id', user.id)
+    .single() as { data: { organization_id: string | null } | null }
+
+  if (!profile?.organization_id) return { success: false, error: 'No organization found' }
+
+  const animals = livestockIds.length > 0 ? livestockIds : [null]
+  const { data, error } = await supabase
+    .from('processing_orders')
+    .insert(animals.map(livestockId => ({
+      producer_id: profile.organization_id,
+      processor_id: processorId,
+      livestock_id: livestockId,
+      status: 'draft',
+      scheduled_drop_off: scheduledDate ? new Date(scheduledDate).toISOString() : null,
+      producer_notes: notes,
+    })) as never)
+    .select('id') as { data: { id: string }[] | null; error: { message: string; details?: string } | null }
+
+  if (error || !data) {
+    // Requests count against the processor's booking limits too
+    const parsed = parseSlotBookingError(error)
+    if (parsed.code === 'order_limit' || parsed.code === 'head_limit') {
+      return { success: false, error: parsed.message }
+    }
+    console.error('Error requesting orders:', error)
+    return { success: false, error: error?.message || 'Failed to create order' }
+  }
+
+  revalidatePath('/dashboard/orders')
+  return { success: true, orderIds: data.map(order => order.id) }
+}
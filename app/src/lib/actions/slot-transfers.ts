@@ -0,0 +1,379 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { revalidatePath } from 'next/cache'
+import { notifyOrganizationAsSystem } from '@/lib/notifications/system'
+import {
+  describeTransferSubject,
+  expireTransfers,
+  findNextInLine,
+  insertTransfer,
+  notifyTransferCompleted,
+  notifyTransferOffered,
+  offerToNextInLine,
+  ORDER_SELECT,
+  type TransferOrder,
+} from '@/lib/slot-transfer-offers'
+import { canTransferEntry, canTransferOrder, parseSlotTransferError } from '@/lib/slot-transfers'
+import type { AnimalType, SlotTransfer } from '@/types/database'
+import type { WaitlistEntry } from './waitlist'
+
+// Types
+export interface SlotTransferWithDetails extends SlotTransfer {
+  from_producer?: { id: string; name: string } | null
+  to_producer?: { id: string; name: string } | null
+  order?: { id: string; order_number: number | null; scheduled_drop_off: string | null } | null
+  entry?: { id: string; preferred_date: string; animal_type: AnimalType; head_count: number } | null
+}
+
+export interface CreateSlotTransferInput {
+  orderId?: string
+  entryId?: string
+  recipientEmail?: string       // A specific producer
+  nextInLine?: boolean          // The processor's next waitlist entry (claimed slots only)
+  note?: string | null
+}
+
+// Helper to get current user's organization
+async function getCurrentOrg(): Promise<{ id: string; type: 'producer' | 'processor' } | null> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const userData = profile as { organization_id: string | null; organization: { type: 'producer' | 'processor' } | null } | null
+  if (!userData?.organization_id || !userData.organization) return null
+  return { id: userData.organization_id, type: userData.organization.type }
+}
+
+/**
+ * Offer a claimed slot (an order not yet dropped off) or a waitlist position
+ * to another producer (Producer only)
+ */
+export async function createSlotTransfer(
+  input: CreateSlotTransferInput
+): Promise<{ success: boolean; transfer?: SlotTransfer; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org || org.type !== 'producer') {
+    return { success: false, error: 'Only producers can transfer slots' }
+  }
+  if (!input.orderId === !input.entryId) {
+    return { success: false, error: 'Choose a slot or waitlist position to transfer' }
+  }
+  if (!input.nextInLine && !input.recipientEmail?.trim()) {
+    return { success: false, error: 'Enter the email of the producer to transfer to' }
+  }
+
+  const supabase = await createClient()
+  const admin = createServiceClient()
+
+  let processorId: string
+  let order: TransferOrder | null = null
+
+  if (input.orderId) {
+    const { data, error } = await supabase
+      .from('processing_orders')
+      .select(ORDER_SELECT)
+      .eq('id', input.orderId)
+      .single()
+
+    order = data as unknown as TransferOrder | null
+    if (error || !order || order.producer_id !== org.id) {
+      return { success: false, error: 'Order not found' }
+    }
+    if (!canTransferOrder(order)) {
+      return { success: false, error: 'Only orders that haven\'t been dropped off can be transferred' }
+    }
+    processorId = order.processor_id
+  } else {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select('*')
+      .eq('id', input.entryId!)
+      .single()
+
+    const entry = data as WaitlistEntry | null
+    if (error || !entry || entry.producer_id !== org.id) {
+      return { success: false, error: 'Waitlist entry not found' }
+    }
+    if (!canTransferEntry(entry)) {
+      return { success: false, error: 'This waitlist entry is no longer active' }
+    }
+    if (input.nextInLine) {
+      return { success: false, error: 'Waitlist positions can only go to a specific producer' }
+    }
+    processorId = entry.processor_id
+  }
+
+  let toProducerId: string
+  let recipientEntryId: string | null = null
+
+  if (input.nextInLine) {
+    const next = await findNextInLine(admin, order!, [])
+    if (!next) {
+      return { success: false, error: 'No one on the waitlist can take this slot' }
+    }
+    toProducerId = next.producer_id
+    recipientEntryId = next.id
+  } else {
+    const { data: recipient } = await admin
+      .from('users')
+      .select('organization_id, organization:organizations(type)')
+      .ilike('email', input.recipientEmail!.trim())
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle()
+
+    const recipientOrg = recipient as { organization_id: string | null; organization: { type: string } | null } | null
+    if (!recipientOrg?.organization_id || recipientOrg.organization?.type !== 'producer') {
+      return { success: false, error: 'No producer account found for that email' }
+    }
+    if (recipientOrg.organization_id === org.id) {
+      return { success: false, error: 'You can\'t transfer a slot to yourself' }
+    }
+    toProducerId = recipientOrg.organization_id
+  }
+
+  const { data: transfer, error } = await insertTransfer(admin, {
+    processorId,
+    fromProducerId: org.id,
+    toProducerId,
+    orderId: input.orderId || null,
+    entryId: input.entryId || null,
+    recipientEntryId,
+    note: input.note?.trim() || null,
+  })
+
+  if (error || !transfer) {
+    if (error?.code === '23505') {
+      return { success: false, error: 'This slot already has a transfer in progress' }
+    }
+    console.error('Error creating slot transfer:', error)
+    return { success: false, error: error?.message || 'Failed to create transfer' }
+  }
+
+  await notifyTransferOffered(admin, transfer)
+
+  revalidatePath('/dashboard/waitlist')
+  if (transfer.order_id) revalidatePath(`/dashboard/orders/${transfer.order_id}`)
+  return { success: true, transfer }
+}
+
+/**
+ * Withdraw a transfer that hasn't completed yet (Sender only)
+ */
+export async function cancelSlotTransfer(
+  transferId: string
+): Promise<{ success: boolean; error?: string }> {
+  const org = await getCurrentOrg()
+  if (!org) return { success: false, error: 'Not authenticated' }
+
+  const admin = createServiceClient()
+  const { data, error } = await admin
+    .from('slot_transfers')
+    .update({ status: 'cancelled' })
+    .eq('id', transferId)
+    .eq('from_producer_id', org.id)
+    .in('status', ['pending', 'awaiting_approval'])
+    .select('*')
+
+  if (error) {
+    console.error('Error cancelling slot transfer:', error)
+    return { success: false, error: error.message }
+  }
+
+  const transfer = (data || [])[0] as SlotTransfer | undefined
+  if (!transfer) return { success: false, error: 'This transfer can no longer be cancelled' }
+
+  const subject = await describeTransferSubject(admin, transfer)
+  await notifyOrganizationAsSystem(admin, transfer.to_producer_id, {
+    type: 'system',
+    title: 'Slot Transfer Withdrawn',
+    body: `The offer of ${subject} was withdrawn.`,
+  })
+
+  revalidateTransfer(transfer)
+  return { success: true }
+}
+
+/**
+ * Accept or decline a transfer offered to you (Recipient only). Accepting
+ * moves ownership right away unless the processor approves transfers.
+ */
+export async function respondToSlotTransfer(
+  transferId: string,
+  accept: boolean
+): Promise<{ success: boolean; transfer?: SlotTransfer; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('respond_slot_transfer', {
+    p_transfer_id: transferId,
+    p_accept: accept,
+  } as never)
+
+  if (error) {
+    const parsed = parseSlotTransferError(error)
+    const admin = createServiceClient()
+
+    if (parsed.code === 'transfer_expired') {
+      // Pass it on now rather than waiting for the scheduled job
+      await expireTransfers(admin, [transferId])
+    } else if (parsed.code === 'transfer_unavailable' && accept) {
+      // The sender's order moved on (dropped off or cancelled) - close it out
+      await admin
+        .from('slot_transfers')
+        .update({ status: 'cancelled' })
+        .eq('id', transferId)
+        .eq('status', 'pending')
+    } else if (parsed.code === 'unknown') {
+      console.error('Error responding to slot transfer:', error)
+    }
+    revalidatePath('/dashboard/waitlist')
+    return { success: false, error: parsed.message }
+  }
+
+  const transfer = data as unknown as SlotTransfer
+  const admin = createServiceClient()
+  const subject = await describeTransferSubject(admin, transfer)
+
+  if (transfer.status === 'declined') {
+    await notifyOrganizationAsSystem(admin, transfer.from_producer_id, {
+      type: 'system',
+      title: 'Slot Transfer Declined',
+      body: `Your offer of ${subject} was declined.`,
+    })
+    if (transfer.to_next_in_line) await offerToNextInLine(admin, transfer)
+  } else if (transfer.status === 'awaiting_approval') {
+    await notifyOrganizationAsSystem(admin, transfer.from_producer_id, {
+      type: 'system',
+      title: 'Slot Transfer Accepted',
+      body: `Your offer of ${subject} was accepted and is waiting for the processor's approval.`,
+    })
+    await notifyOrganizationAsSystem(admin, transfer.processor_id, {
+      type: 'system',
+      title: 'Slot Transfer Needs Approval',
+      body: `A producer accepted ${subject}. Approve or reject the transfer from your waitlist.`,
+      processingOrderId: transfer.order_id,
+    })
+  } else if (transfer.status === 'completed') {
+    await notifyTransferCompleted(admin, transfer, subject)
+  }
+
+  revalidateTransfer(transfer)
+  return { success: true, transfer }
+}
+
+/**
+ * Approve or reject a transfer the recipient accepted (Processor only)
+ */
+export async function decideSlotTransfer(
+  transferId: string,
+  approve: boolean
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('decide_slot_transfer', {
+    p_transfer_id: transferId,
+    p_approve: approve,
+  } as never)
+
+  if (error) {
+    const parsed = parseSlotTransferError(error)
+    if (parsed.code === 'unknown') {
+      console.error('Error deciding slot transfer:', error)
+    }
+    return { success: false, error: parsed.message }
+  }
+
+  const transfer = data as unknown as SlotTransfer
+  const admin = createServiceClient()
+  const subject = await describeTransferSubject(admin, transfer)
+
+  if (transfer.status === 'rejected') {
+    for (const producerId of [transfer.from_producer_id, transfer.to_producer_id]) {
+      await notifyOrganizationAsSystem(admin, producerId, {
+        type: 'system',
+        title: 'Slot Transfer Rejected',
+        body: `The processor did not approve the transfer of ${subject}. Nothing has changed hands.`,
+      })
+    }
+  } else {
+    await notifyTransferCompleted(admin, transfer, subject)
+  }
+
+  revalidateTransfer(transfer)
+  return { success: true }
+}
+
+/**
+ * Transfers the current organization sent, received or (for processors)
+ * oversees, newest first
+ */
+export async function getSlotTransfers(
+  options: { orderId?: string; limit?: number } = {}
+): Promise<SlotTransferWithDetails[]> {
+  const supabase = await createClient()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let query = (supabase as any)
+    .from('slot_transfers')
+    .select(`
+      *,
+      order:processing_orders!order_id(id, order_number, scheduled_drop_off),
+      entry:waitlist_entries!entry_id(id, preferred_date, animal_type, head_count)
+    `)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50)
+
+  if (options.orderId) {
+    query = query.eq('order_id', options.orderId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching slot transfers:', error)
+    return []
+  }
+
+  const transfers = (data || []) as SlotTransferWithDetails[]
+  if (transfers.length === 0) return []
+
+  // Producers can't read each other's organizations, but both sides of a
+  // transfer (and the processor) should see who is involved
+  const orgIds = Array.from(new Set(transfers.flatMap(t => [t.from_producer_id, t.to_producer_id])))
+  const { data: orgs } = await createServiceClient()
+    .from('organizations')
+    .select('id, name')
+    .in('id', orgIds)
+
+  const names: Record<string, { id: string; name: string }> = {}
+  for (const org of (orgs || []) as { id: string; name: string }[]) {
+    names[org.id] = org
+  }
+
+  return transfers.map(transfer => ({
+    ...transfer,
+    from_producer: names[transfer.from_producer_id] || null,
+    to_producer: names[transfer.to_producer_id] || null,
+  }))
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function revalidateTransfer(transfer: SlotTransfer): void {
+  revalidatePath('/dashboard/waitlist')
+  if (transfer.order_id) {
+    revalidatePath(`/dashboard/orders/${transfer.order_id}`)
+    revalidatePath('/dashboard/orders')
+  }
+}
@@ -1,8 +1,20 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
 import { revalidatePath } from 'next/cache'
-import type { AnimalType } from '@/types/database'
+import { claimOffer, getSlotOpening, offerOpening } from '@/lib/waitlist-offers'
+import { loadBookingHistories, loadBookingPolicy, loadReliability } from '@/lib/booking-history'
+import { describeBookingLimit } from '@/lib/booking-policy'
+import type { ProducerReliability } from '@/lib/reliability'
+import type { AnimalType, WaitlistEvent } from '@/types/database'
+import {
+  compareWaitlistEntries,
+  getWaitlistStanding,
+  getWaitlistWindow,
+  WAITLIST_PRIORITY_TIERS,
+  type WaitlistStanding,
+} from '@/lib/waitlist-matching'
 
 // Types
 export interface WaitlistEntry {
@@ -18,6 +30,11 @@ export interface WaitlistEntry {
   notified_at: string | null
   converted_to_order_id: string | null
   notes: string | null
+  head_count: number
+  priority_tier: number
+  offer_expires_at: string | null
+  offered_slot_id: string | null
+  offered_date: string | null
 }
 
 export interface WaitlistEntryWithDetails extends WaitlistEntry {
@@ -34,6 +51,8 @@ export interface WaitlistEntryWithDetails extends WaitlistEntry {
     name: string | null
     tag_number: string | null
   }
+  standing?: WaitlistStanding     // Active entries, for the processor
+  reliability?: ProducerReliability
 }
 
 export interface CreateWaitlistEntryInput {
@@ -41,10 +60,18 @@ export interface CreateWaitlistEntryInput {
   preferred_date: string
   flexible_range_days?: number
   animal_type: AnimalType
+  head_count?: number
   livestock_id?: string | null
   notes?: string | null
 }
 
+export interface WaitlistEventWithDetails extends WaitlistEvent {
+  producer?: {
+    id: string
+    name: string
+  }
+}
+
 // Helper to get current user's org ID
 async function getCurrentUserOrgId(): Promise<string | null> {
   const supabase = await createClient()
@@ -119,6 +146,11 @@ export async function createWaitlistEntry(
     return { success: false, error: 'Processor not found' }
   }
 
+  const headCount = input.head_count ?? 1
+  if (!Number.isInteger(headCount) || headCount < 1) {
+    return { success: false, error: 'Head count must be at least 1' }
+  }
+
   // Check if already on waitlist for this processor/date/animal combo
   const { data: existing } = await supabase
     .from('waitlist_entries')
@@ -143,6 +175,7 @@ export async function createWaitlistEntry(
       preferred_date: input.preferred_date,
       flexible_range_days: input.flexible_range_days ?? 7,
       animal_type: input.animal_type,
+      head_count: headCount,
       livestock_id: input.livestock_id || null,
       notes: input.notes || null,
       is_active: true,
@@ -151,6 +184,10 @@ export async function createWaitlistEntry(
     .single()
 
   if (error) {
+    // Raised by the processor's booking policy
+    if (error.message === 'waitlist_limit') {
+      return { success: false, error: describeBookingLimit('waitlist_limit', parseInt(error.details, 10) || null) }
+    }
     console.error('Error creating waitlist entry:', error)
     return { success: false, error: error.message }
   }
@@ -187,7 +224,8 @@ export async function getProducerWaitlistEntries(): Promise<WaitlistEntryWithDet
 }
 
 /**
- * Get waitlist entries for a processor (their incoming waitlist)
+ * Get waitlist entries for a processor (their incoming waitlist), in the
+ * order openings are offered, with where each active entry stands and why
  */
 export async function getProcessorWaitlistEntries(
   options?: {
@@ -210,13 +248,6 @@ export async function getProcessorWaitlistEntries(
     `)
     .eq('processor_id', processorId)
 
-  if (options?.date) {
-    // Find entries where preferred_date +/- flexible_range includes the target date
-    query = query
-      .lte('preferred_date', options.date)
-      .gte('preferred_date', options.date)
-  }
-
   if (options?.animalType) {
     query = query.eq('animal_type', options.animalType)
   }
@@ -232,11 +263,50 @@ export async function getProcessorWaitlistEntries(
     return []
   }
 
-  return (data || []) as WaitlistEntryWithDetails[]
+  let entries = (data || []) as WaitlistEntryWithDetails[]
+
+  if (options?.date) {
+    // Entries whose preferred_date +/- flexible range includes the target date
+    const date = options.date
+    entries = entries.filter(entry => {
+      const { start, end } = getWaitlistWindow(entry)
+      return date >= start && date <= end
+    })
+  }
+
+  // Rank against the whole active waitlist, not just the filtered entries
+  const admin = createServiceClient()
+  const { data: active } = await admin
+    .from('waitlist_entries')
+    .select('*')
+    .eq('processor_id', processorId)
+    .eq('is_active', true)
+    .is('converted_to_order_id', null)
+
+  const competing = (active || []) as WaitlistEntry[]
+  const policy = await loadBookingPolicy(admin, processorId)
+  const [histories, reliability] = await Promise.all([
+    loadBookingHistories(admin, processorId, competing.map(e => e.producer_id), policy),
+    loadReliability(admin, entries.map(e => e.producer_id)),
+  ])
+
+  entries = entries.map(entry => ({
+    ...entry,
+    reliability: reliability[entry.producer_id],
+    ...(entry.is_active && !entry.converted_to_order_id
+      ? { standing: getWaitlistStanding(entry, competing, histories, policy) }
+      : {}),
+  }))
+
+  return entries.sort((a, b) => compareWaitlistEntries(
+    { ...a, priority_tier: a.standing?.tier ?? a.priority_tier },
+    { ...b, priority_tier: b.standing?.tier ?? b.priority_tier }
+  ))
 }
 
 /**
- * Get waitlist count for a specific processor/date/animal combo
+ * Get the number of active entries that would take a processor's opening on
+ * a date for an animal type
  */
 export async function getWaitlistCount(
   processorId: string,
@@ -245,20 +315,24 @@ export async function getWaitlistCount(
 ): Promise<number> {
   const supabase = await createClient()
 
-  const { count, error } = await supabase
+  const { data, error } = await supabase
     .from('waitlist_entries')
-    .select('*', { count: 'exact', head: true })
+    .select('preferred_date, flexible_range_days')
     .eq('processor_id', processorId)
-    .eq('preferred_date', date)
     .eq('animal_type', animalType)
     .eq('is_active', true)
+    .is('converted_to_order_id', null)
 
   if (error) {
     console.error('Error counting waitlist entries:', error)
     return 0
   }
 
-  return count || 0
+  const entries = (data || []) as Pick<WaitlistEntry, 'preferred_date' | 'flexible_range_days'>[]
+  return entries.filter(entry => {
+    const { start, end } = getWaitlistWindow(entry)
+    return date >= start && date <= end
+  }).length
 }
 
 /**
@@ -355,201 +429,199 @@ export async function cancelWaitlistEntry(
 }
 
 /**
- * Notify the next person on the waitlist (called when a slot opens)
- * This is typically triggered by order cancellation
+ * Set an entry's priority tier (Processor only). Higher tiers are offered
+ * openings before everyone in lower tiers.
  */
-export async function notifyNextInWaitlist(
-  processorId: string,
-  date: string,
-  animalType: AnimalType
-): Promise<{ success: boolean; notifiedEntryId?: string; error?: string }> {
+export async function setWaitlistPriority(
+  entryId: string,
+  tier: number
+): Promise<{ success: boolean; error?: string }> {
   const supabase = await createClient()
 
-  // Find the first active, unnotified waitlist entry matching criteria
-  // FIFO order (oldest first by created_at)
-  const { data: entry, error: fetchError } = await supabase
-    .from('waitlist_entries')
-    .select('*')
-    .eq('processor_id', processorId)
-    .eq('animal_type', animalType)
-    .eq('is_active', true)
-    .is('notified_at', null)
-    .lte('preferred_date', date) // Date is within their preferred range
-    .order('created_at', { ascending: true })
-    .limit(1)
-    .maybeSingle()
-
-  if (fetchError) {
-    console.error('Error finding waitlist entry to notify:', fetchError)
-    return { success: false, error: fetchError.message }
+  const processorId = await getCurrentUserOrgId()
+  if (!processorId) {
+    return { success: false, error: 'Not authenticated' }
   }
 
-  if (!entry) {
-    return { success: true } // No one to notify, that's okay
+  if (!WAITLIST_PRIORITY_TIERS.some(t => t.value === tier)) {
+    return { success: false, error: 'Unknown priority tier' }
   }
 
-  const waitlistEntry = entry as WaitlistEntry
-
-  // Mark as notified
-  const { error: updateError } = await supabase
+  const { data: entry } = await supabase
     .from('waitlist_entries')
-    .update({ notified_at: new Date().toISOString() } as never)
-    .eq('id', waitlistEntry.id)
+    .select('id')
+    .eq('id', entryId)
+    .eq('processor_id', processorId)
+    .maybeSingle()
 
-  if (updateError) {
-    console.error('Error marking waitlist entry as notified:', updateError)
-    return { success: false, error: updateError.message }
+  if (!entry) {
+    return { success: false, error: 'Entry not found or not authorized' }
   }
 
-  // Create a notification for the producer
-  const { error: notifyError } = await supabase
-    .from('notifications')
-    .insert({
-      user_id: null, // We'll need to look up the user
-      organization_id: waitlistEntry.producer_id,
-      type: 'waitlist_available',
-      title: 'Processing Slot Available!',
-      message: `A slot has opened up for ${animalType} processing on ${date}. Claim it within 24 hours!`,
-      link: `/dashboard/waitlist?claim=${waitlistEntry.id}`,
-      metadata: {
-        waitlist_entry_id: waitlistEntry.id,
-        processor_id: processorId,
-        date,
-        animal_type: animalType,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-      },
-    } as never)
+  const { error } = await createServiceClient()
+    .from('waitlist_entries')
+    .update({ priority_tier: tier })
+    .eq('id', entryId)
 
-  if (notifyError) {
-    console.error('Error creating waitlist notification:', notifyError)
-    // Don't fail the whole operation, notification is secondary
+  if (error) {
+    console.error('Error setting waitlist priority:', error)
+    return { success: false, error: error.message }
   }
 
-  return { success: true, notifiedEntryId: waitlistEntry.id }
+  revalidatePath('/dashboard/waitlist')
+  return { success: true }
 }
 
+// ============================================
+// Offers
+// ============================================
+
 /**
- * Claim a waitlist slot (convert to order)
- * Called when producer responds to notification
+ * Offer the place a cancelled order gave back to the waitlist. Called by
+ * either party to the order after cancelling it.
  */
-export async function claimWaitlistSlot(
-  entryId: string
-): Promise<{ success: boolean; orderId?: string; error?: string }> {
+export async function notifyNextInWaitlist(
+  orderId: string
+): Promise<{ success: boolean; notifiedEntryIds?: string[]; error?: string }> {
   const supabase = await createClient()
 
-  const producerId = await getCurrentUserOrgId()
-  if (!producerId) {
-    return { success: false, error: 'Not authenticated' }
-  }
-
-  // Fetch the entry and verify ownership + eligibility
-  const { data: entry, error: fetchError } = await supabase
-    .from('waitlist_entries')
-    .select('*')
-    .eq('id', entryId)
-    .eq('producer_id', producerId)
-    .eq('is_active', true)
-    .single()
+  // RLS limits this to the order's producer and processor
+  const { data, error: fetchError } = await supabase
+    .from('processing_orders')
+    .select(`
+      id, status, processor_id, scheduled_drop_off,
+      calendar_slot:calendar_slots(date, animal_type),
+      livestock:livestock(animal_type)
+    `)
+    .eq('id', orderId)
+    .maybeSingle()
 
-  if (fetchError || !entry) {
-    return { success: false, error: 'Waitlist entry not found or not eligible' }
+  if (fetchError || !data) {
+    return { success: false, error: 'Order not found' }
   }
 
-  const claimEntry = entry as WaitlistEntry
-
-  // Check if notified and within 24-hour window
-  if (!claimEntry.notified_at) {
-    return { success: false, error: 'This slot has not been offered to you yet' }
+  const order = data as {
+    status: string
+    processor_id: string
+    scheduled_drop_off: string | null
+    calendar_slot: { date: string; animal_type: AnimalType } | null
+    livestock: { animal_type: AnimalType } | null
   }
 
-  const notifiedAt = new Date(claimEntry.notified_at)
-  const now = new Date()
-  const hoursSinceNotification = (now.getTime() - notifiedAt.getTime()) / (1000 * 60 * 60)
-
-  if (hoursSinceNotification > 24) {
-    // Mark as inactive (expired) and notify next person
-    await supabase
-      .from('waitlist_entries')
-      .update({ is_active: false } as never)
-      .eq('id', entryId)
+  if (order.status !== 'cancelled') {
+    return { success: false, error: 'Only a cancelled order frees a place' }
+  }
 
-    return { success: false, error: 'The 24-hour claim window has expired' }
+  const date = order.calendar_slot?.date || order.scheduled_drop_off?.split('T')[0]
+  const animalType = order.calendar_slot?.animal_type || order.livestock?.animal_type
+  if (!date || !animalType) {
+    return { success: true, notifiedEntryIds: [] } // Nothing to match on
   }
 
-  // Create the order
-  const { data: order, error: orderError } = await supabase
-    .from('processing_orders')
-    .insert({
-      producer_id: producerId,
-      processor_id: claimEntry.processor_id,
-      scheduled_date: claimEntry.preferred_date,
-      animal_type: claimEntry.animal_type,
-      livestock_id: claimEntry.livestock_id,
-      head_count: 1,
-      status: 'pending',
-      notes: claimEntry.notes,
-    } as never)
-    .select('id')
-    .single()
+  const admin = createServiceClient()
+  const opening = await getSlotOpening(admin, order.processor_id, date, animalType)
+    // Processors without calendar slots free the one place
+    ?? { date, animalType, slotId: null, places: 1 }
 
-  if (orderError || !order) {
-    console.error('Error creating order from waitlist:', orderError)
-    return { success: false, error: 'Failed to create order' }
-  }
+  const notifiedEntryIds = await offerOpening(admin, order.processor_id, opening)
 
-  const newOrder = order as { id: string }
+  revalidatePath('/dashboard/waitlist')
+  return { success: true, notifiedEntryIds }
+}
 
-  // Update waitlist entry as converted
-  await supabase
-    .from('waitlist_entries')
-    .update({
-      is_active: false,
-      converted_to_order_id: newOrder.id,
-    } as never)
-    .eq('id', entryId)
+/**
+ * Claim a waitlist offer: reserve the entry's places on the calendar slot and
+ * create draft orders, then send the producer to the first order's cut sheet
+ */
+export async function claimWaitlistSlot(
+  entryId: string
+): Promise<{ success: boolean; orderId?: string; redirectTo?: string; error?: string }> {
+  const supabase = await createClient()
+  const result = await claimOffer(supabase, createServiceClient(), entryId)
 
   revalidatePath('/dashboard/waitlist')
-  revalidatePath('/dashboard/orders')
+  if (result.success) {
+    revalidatePath('/dashboard/orders')
+    revalidatePath('/dashboard/calendar')
+  }
 
-  return { success: true, orderId: newOrder.id }
+  return result
 }
 
 /**
- * Get position in waitlist for a specific entry
+ * Get position in waitlist for a specific entry, counting the active entries
+ * that compete for the same openings under the processor's booking policy
  */
 export async function getWaitlistPosition(entryId: string): Promise<number | null> {
+  const standing = await getEntryStanding(entryId)
+  return standing?.position ?? null
+}
+
+/**
+ * Where an entry stands in line and why (its producer or processor)
+ */
+export async function getEntryStanding(entryId: string): Promise<WaitlistStanding | null> {
   const supabase = await createClient()
 
-  // First get the entry details
+  // First get the entry details (RLS: only its producer or processor)
   const { data: entry, error: fetchError } = await supabase
     .from('waitlist_entries')
-    .select('processor_id, preferred_date, animal_type, created_at')
+    .select('*')
     .eq('id', entryId)
     .single()
 
   if (fetchError || !entry) return null
 
-  const posEntry = entry as {
-    processor_id: string
-    preferred_date: string
-    animal_type: string
-    created_at: string
-  }
+  const posEntry = entry as WaitlistEntry
 
-  // Count how many active entries were created before this one
-  const { count, error } = await supabase
+  // Producers can't see each other's entries, so rank with the service role
+  const admin = createServiceClient()
+  const { data: others, error } = await admin
     .from('waitlist_entries')
-    .select('*', { count: 'exact', head: true })
+    .select('*')
     .eq('processor_id', posEntry.processor_id)
-    .eq('preferred_date', posEntry.preferred_date)
     .eq('animal_type', posEntry.animal_type)
     .eq('is_active', true)
-    .lt('created_at', posEntry.created_at)
+    .is('converted_to_order_id', null)
 
   if (error) {
     console.error('Error getting waitlist position:', error)
     return null
   }
 
-  return (count || 0) + 1 // 1-indexed position
+  const competing = (others || []) as WaitlistEntry[]
+  const policy = await loadBookingPolicy(admin, posEntry.processor_id)
+  const histories = await loadBookingHistories(
+    admin,
+    posEntry.processor_id,
+    [posEntry.producer_id, ...competing.map(e => e.producer_id)],
+    policy
+  )
+
+  return getWaitlistStanding(posEntry, competing, histories, policy)
+}
+
+/**
+ * Offers, expiries and claims on the current processor's waitlist, newest first
+ */
+export async function getWaitlistEvents(limit = 50): Promise<WaitlistEventWithDetails[]> {
+  const supabase = await createClient()
+
+  const processorId = await getCurrentUserOrgId()
+  if (!processorId) return []
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('waitlist_events')
+    .select('*, producer:organizations!producer_id(id, name)')
+    .eq('processor_id', processorId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching waitlist events:', error)
+    return []
+  }
+
+  return (data || []) as WaitlistEventWithDetails[]
 }
@@ -0,0 +1,151 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { AnimalType } from '@/types/database'
+import {
+  calibrateYields,
+  parseYieldCalibration,
+  type CalibrationSample,
+  type YieldCalibration,
+} from '@/lib/yield-calibration'
+
+interface CompletedOrderRow {
+  id: string
+  order_number: number
+  hanging_weight: number | null
+  livestock: { animal_type: AnimalType } | null
+  cut_sheets: {
+    animal_type: AnimalType
+    hanging_weight_lbs: number | null
+    produced_packages: {
+      cut_id: string
+      cut_name: string
+      primal_id: string | null
+      actual_weight_lbs: number | null
+    }[]
+  }[]
+}
+
+async function getProcessorOrgId(): Promise<string | null> {
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data: userData } = await supabase
+    .from('users')
+    .select('organization_id, organization:organizations(type)')
+    .eq('auth_id', user.id)
+    .single()
+
+  const profile = userData as { organization_id: string; organization: { type: string } | null } | null
+  if (!profile || profile.organization?.type !== 'processor') return null
+  return profile.organization_id
+}
+
+/**
+ * Get the processor's stored yield calibration
+ */
+export async function getYieldCalibration(): Promise<{
+  calibration: YieldCalibration
+  calibratedAt: string | null
+}> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId()
+  if (!orgId) return { calibration: {}, calibratedAt: null }
+
+  const { data, error } = await supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('processor_cut_config' as any)
+    .select('yield_calibration, yield_calibrated_at')
+    .eq('processor_id', orgId)
+    .single()
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching yield calibration:', error)
+  }
+
+  const row = data as { yield_calibration: unknown; yield_calibrated_at: string | null } | null
+  return {
+    calibration: parseYieldCalibration(row?.yield_calibration),
+    calibratedAt: row?.yield_calibrated_at ?? null,
+  }
+}
+
+/**
+ * Recompute learned yields from the processor's completed orders
+ * and store them on processor_cut_config
+ */
+export async function refreshYieldCalibration(): Promise<{
+  success: boolean
+  error?: string
+  calibration?: YieldCalibration
+}> {
+  const supabase = await createClient()
+  const orgId = await getProcessorOrgId()
+  if (!orgId) return { success: false, error: 'Only processors can calibrate yields' }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any)
+    .from('processing_orders')
+    .select(`
+      id,
+      order_number,
+      hanging_weight,
+      livestock:livestock_id (animal_type),
+      cut_sheets (
+        animal_type,
+        hanging_weight_lbs,
+        produced_packages (cut_id, cut_name, primal_id, actual_weight_lbs)
+      )
+    `)
+    .eq('processor_id', orgId)
+    .in('status', ['ready', 'complete'])
+
+  if (error) {
+    console.error('Error fetching completed orders for calibration:', error)
+    return { success: false, error: error.message }
+  }
+
+  const samples: CalibrationSample[] = []
+  for (const order of (data || []) as CompletedOrderRow[]) {
+    const cutSheet = order.cut_sheets?.[0]
+    const animalType = cutSheet?.animal_type || order.livestock?.animal_type
+    if (!cutSheet || !animalType) continue
+
+    samples.push({
+      orderId: order.id,
+      orderNumber: order.order_number,
+      animalType,
+      // Processors enter hanging weight on the cut sheet; fall back to the order
+      hangingWeight: Number(cutSheet.hanging_weight_lbs ?? order.hanging_weight) || null,
+      packages: (cutSheet.produced_packages || []).map(p => ({
+        ...p,
+        actual_weight_lbs: p.actual_weight_lbs === null ? null : Number(p.actual_weight_lbs),
+      })),
+    })
+  }
+
+  const calibration = calibrateYields(samples)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error: saveError } = await (supabase as any)
+    .from('processor_cut_config')
+    .upsert({
+      processor_id: orgId,
+      yield_calibration: calibration,
+      yield_calibrated_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'processor_id',
+    })
+
+  if (saveError) {
+    console.error('Error saving yield calibration:', saveError)
+    return { success: false, error: saveError.message }
+  }
+
+  revalidatePath('/dashboard/settings')
+  return { success: true, calibration }
+}
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  getBookedDate,
+  getLoyaltySince,
+  parseBookingPolicy,
+  EMPTY_BOOKING_HISTORY,
+  type BookingPolicy,
+  type ProducerBookingHistory,
+} from '@/lib/booking-policy'
+import { EMPTY_RELIABILITY, type ProducerReliability } from '@/lib/reliability'
+
+/**
+ * A processor's booking policy, read with a service role client for server
+ * code acting for producers or scheduled jobs
+ */
+export async function loadBookingPolicy(admin: SupabaseClient, processorId: string): Promise<BookingPolicy> {
+  const { data } = await admin
+    .from('processor_cut_config')
+    .select('booking_policy')
+    .eq('processor_id', processorId)
+    .maybeSingle()
+
+  return parseBookingPolicy((data as { booking_policy: unknown } | null)?.booking_policy)
+}
+
+/**
+ * Each producer's reliability record (get_producer_reliability): kept orders,
+ * no-shows and late cancellations across every processor
+ */
+export async function loadReliability(
+  supabase: SupabaseClient,
+  producerIds: string[]
+): Promise<Record<string, ProducerReliability>> {
+  const records: Record<string, ProducerReliability> = {}
+  const ids = Array.from(new Set(producerIds))
+  if (ids.length === 0) return records
+
+  for (const id of ids) {
+    records[id] = { ...EMPTY_RELIABILITY }
+  }
+
+  const { data, error } = await supabase.rpc('get_producer_reliability', { p_producer_ids: ids } as never)
+  if (error) {
+    console.error('Error loading reliability:', error)
+    return records
+  }
+
+  for (const row of (data || []) as { producer_id: string; kept_orders: number; no_shows: number; late_cancellations: number }[]) {
+    records[row.producer_id] = {
+      keptOrders: row.kept_orders,
+      noShows: row.no_shows,
+      lateCancellations: row.late_cancellations,
+    }
+  }
+
+  return records
+}
+
+/**
+ * Each producer's orders and waitlist entries at a processor, for booking
+ * limits and loyalty tiers, plus their no-shows anywhere. Producers can't
+ * read each other's orders, so this takes a service role client.
+ */
+export async function loadBookingHistories(
+  admin: SupabaseClient,
+  processorId: string,
+  producerIds: string[],
+  policy: BookingPolicy,
+  now: number = Date.now()
+): Promise<Record<string, ProducerBookingHistory>> {
+  const histories: Record<string, ProducerBookingHistory> = {}
+  const ids = Array.from(new Set(producerIds))
+  if (ids.length === 0) return histories
+
+  for (const id of ids) {
+    histories[id] = { ...EMPTY_BOOKING_HISTORY, bookedDates: [] }
+  }
+
+  const [{ data: orders, error: ordersError }, { data: entries, error: entriesError }, reliability] = await Promise.all([
+    admin
+      .from('processing_orders')
+      .select('producer_id, status, scheduled_drop_off, created_at, pickup_date, updated_at')
+      .eq('processor_id', processorId)
+      .in('producer_id', ids)
+      .neq('status', 'cancelled'),
+    admin
+      .from('waitlist_entries')
+      .select('producer_id')
+      .eq('processor_id', processorId)
+      .in('producer_id', ids)
+      .eq('is_active', true)
+      .is('converted_to_order_id', null),
+    loadReliability(admin, ids),
+  ])
+
+  if (ordersError || entriesError) {
+    console.error('Error loading booking history:', ordersError || entriesError)
+  }
+
+  const loyaltySince = getLoyaltySince(policy, now)
+
+  for (const order of (orders || []) as {
+    producer_id: string
+    status: string
+    scheduled_drop_off: string | null
+    created_at: string
+    pickup_date: string | null
+    updated_at: string
+  }[]) {
+    const history = histories[order.producer_id]
+    history.bookedDates.push(getBookedDate(order))
+
+    if (order.status === 'complete') {
+      const completedAt = order.pickup_date || order.updated_at
+      if (!loyaltySince || completedAt >= loyaltySince) history.completedOrders++
+    } else {
+      history.openOrders++
+    }
+  }
+
+  for (const entry of (entries || []) as { producer_id: string }[]) {
+    histories[entry.producer_id].activeWaitlistEntries++
+  }
+
+  for (const id of ids) {
+    histories[id].noShows = reliability[id].noShows
+  }
+
+  return histories
+}
@@ -0,0 +1,238 @@
+/**
+ * Booking Policy
+ *
+ * Rules a processor sets for how producers book and trade their slots,
+ * stored as processor_cut_config.booking_policy:
+ * - slot transfers: how long a recipient has to accept, and whether the
+ *   processor approves each one
+ * - limits per producer, so one large operation can't take every slot: open
+ *   orders at a time, head per season, and active waitlist entries. Postgres
+ *   enforces them whenever a producer gets an order or waitlist entry
+ *   (booking, claiming an offer, requesting a date, receiving a transfer).
+ * - loyalty: producers with enough completed orders move up the waitlist's
+ *   priority tiers, on top of any tier the processor sets by hand
+ * - reliability (lib/reliability.ts): when a producer's cancellation counts
+ *   as late, how many no-shows stop them booking, and the deposit asked of
+ *   producers scoring low
+ *
+ * Each head is its own order, so head and order counts use the same rows.
+ *
+ * Pure functions only - lib/actions/booking-policy.ts loads and saves it and
+ * lib/booking-history.ts counts each producer's orders.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BookingPolicy {
+  requireTransferApproval: boolean    // Slot transfers wait for the processor once accepted
+  transferWindowHours: number         // How long a recipient has to accept a transfer
+  maxOpenOrders: number               // Orders not yet complete, per producer (0 = no limit)
+  maxHeadPerSeason: number            // Head booked per producer per season (0 = no limit)
+  seasonStartMonth: number            // 1-12; each season runs a year from this month
+  maxWaitlistEntries: number          // Active waitlist entries per producer (0 = no limit)
+  loyaltyPriorityOrders: number       // Completed orders to reach Priority (0 = off)
+  loyaltyTopPriorityOrders: number    // Completed orders to reach Top priority (0 = off)
+  loyaltyLookbackMonths: number       // Completed orders counted for loyalty (0 = all time)
+  lateCancelHours: number             // Producer cancellations this close to drop-off are late (0 = off)
+  maxNoShows: number                  // No-shows in the last year that stop a producer booking (0 = no limit)
+  depositBelowScore: number           // Reliability score below which new orders need a deposit (0 = off)
+  depositAmount: number               // Deposit per order
+}
+
+export type BookingLimitCode = 'order_limit' | 'head_limit' | 'waitlist_limit' | 'no_show_limit'
+
+export interface BookingLimit {
+  code: BookingLimitCode
+  limit: number
+}
+
+// A producer's orders and waitlist entries at one processor
+export interface ProducerBookingHistory {
+  completedOrders: number             // Within the loyalty lookback
+  openOrders: number                  // Not complete or cancelled
+  bookedDates: string[]               // Drop-off (or order) date of every order not cancelled
+  activeWaitlistEntries: number
+  noShows: number                     // At any processor, over the last year
+}
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  requireTransferApproval: false,
+  transferWindowHours: 48,
+  maxOpenOrders: 0,
+  maxHeadPerSeason: 0,
+  seasonStartMonth: 1,
+  maxWaitlistEntries: 0,
+  loyaltyPriorityOrders: 0,
+  loyaltyTopPriorityOrders: 0,
+  loyaltyLookbackMonths: 24,
+  lateCancelHours: 48,
+  maxNoShows: 0,
+  depositBelowScore: 0,
+  depositAmount: 0,
+}
+
+export const EMPTY_BOOKING_HISTORY: ProducerBookingHistory = {
+  completedOrders: 0,
+  openOrders: 0,
+  bookedDates: [],
+  activeWaitlistEntries: 0,
+  noShows: 0,
+}
+
+const MAX_TRANSFER_WINDOW_HOURS = 14 * 24
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/**
+ * Normalize a stored booking_policy value, filling in defaults
+ */
+export function parseBookingPolicy(value: unknown): BookingPolicy {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_BOOKING_POLICY }
+  }
+  const raw = value as Partial<BookingPolicy>
+
+  const hours = typeof raw.transferWindowHours === 'number' && raw.transferWindowHours >= 1
+    ? Math.min(Math.round(raw.transferWindowHours), MAX_TRANSFER_WINDOW_HOURS)
+    : DEFAULT_BOOKING_POLICY.transferWindowHours
+
+  const month = toCount(raw.seasonStartMonth)
+
+  return {
+    requireTransferApproval: raw.requireTransferApproval === true,
+    transferWindowHours: hours,
+    maxOpenOrders: toCount(raw.maxOpenOrders),
+    maxHeadPerSeason: toCount(raw.maxHeadPerSeason),
+    seasonStartMonth: month >= 1 && month <= 12 ? month : DEFAULT_BOOKING_POLICY.seasonStartMonth,
+    maxWaitlistEntries: toCount(raw.maxWaitlistEntries),
+    loyaltyPriorityOrders: toCount(raw.loyaltyPriorityOrders),
+    loyaltyTopPriorityOrders: toCount(raw.loyaltyTopPriorityOrders),
+    loyaltyLookbackMonths: raw.loyaltyLookbackMonths === undefined
+      ? DEFAULT_BOOKING_POLICY.loyaltyLookbackMonths
+      : toCount(raw.loyaltyLookbackMonths),
+    lateCancelHours: raw.lateCancelHours === undefined
+      ? DEFAULT_BOOKING_POLICY.lateCancelHours
+      : toCount(raw.lateCancelHours),
+    maxNoShows: toCount(raw.maxNoShows),
+    depositBelowScore: Math.min(toCount(raw.depositBelowScore), 100),
+    depositAmount: typeof raw.depositAmount === 'number' && isFinite(raw.depositAmount) && raw.depositAmount > 0
+      ? Math.round(raw.depositAmount * 100) / 100
+      : 0,
+  }
+}
+
+function toCount(value: unknown): number {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? Math.floor(value) : 0
+}
+
+// ============================================================================
+// Seasons
+// ============================================================================
+
+/**
+ * The season a date falls in: from its first day up to (not including) the
+ * next season's first day. Matches booking_season_start in Postgres.
+ */
+export function getSeasonRange(policy: BookingPolicy, date: string): { start: string; end: string } {
+  const [year, month] = date.split('T')[0].split('-').map(Number)
+  const startYear = month < policy.seasonStartMonth ? year - 1 : year
+  const pad = (m: number) => String(m).padStart(2, '0')
+
+  return {
+    start: `${startYear}-${pad(policy.seasonStartMonth)}-01`,
+    end: `${startYear + 1}-${pad(policy.seasonStartMonth)}-01`,
+  }
+}
+
+/**
+ * Head a producer has booked in the season of the given date
+ */
+export function countSeasonHead(policy: BookingPolicy, history: ProducerBookingHistory, date: string): number {
+  const { start, end } = getSeasonRange(policy, date)
+  return history.bookedDates.filter(d => d >= start && d < end).length
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+/**
+ * The first limit booking this many more head on the date would break, or
+ * null if it fits
+ */
+export function getBookingLimitReached(
+  policy: BookingPolicy,
+  history: ProducerBookingHistory,
+  head: number,
+  date: string
+): BookingLimit | null {
+  if (policy.maxNoShows > 0 && history.noShows >= policy.maxNoShows) {
+    return { code: 'no_show_limit', limit: policy.maxNoShows }
+  }
+  if (policy.maxOpenOrders > 0 && history.openOrders + head > policy.maxOpenOrders) {
+    return { code: 'order_limit', limit: policy.maxOpenOrders }
+  }
+  if (policy.maxHeadPerSeason > 0 && countSeasonHead(policy, history, date) + head > policy.maxHeadPerSeason) {
+    return { code: 'head_limit', limit: policy.maxHeadPerSeason }
+  }
+  return null
+}
+
+/**
+ * Whether the producer can add another active waitlist entry
+ */
+export function getWaitlistLimitReached(policy: BookingPolicy, history: ProducerBookingHistory): BookingLimit | null {
+  if (policy.maxWaitlistEntries > 0 && history.activeWaitlistEntries >= policy.maxWaitlistEntries) {
+    return { code: 'waitlist_limit', limit: policy.maxWaitlistEntries }
+  }
+  return null
+}
+
+export function describeBookingLimit(code: BookingLimitCode, limit: number | null): string {
+  const count = limit ?? 0
+  switch (code) {
+    case 'order_limit':
+      return `This processor allows ${count} open order${count === 1 ? '' : 's'} per producer. Wait for one to finish or cancel one before booking more.`
+    case 'head_limit':
+      return `This processor allows ${count} head per producer each season. This booking would go over it.`
+    case 'waitlist_limit':
+      return `This processor allows ${count} active waitlist entr${count === 1 ? 'y' : 'ies'} per producer. Cancel one to join again.`
+    case 'no_show_limit':
+      return `This processor doesn't take bookings from producers with ${count} or more no-shows in the last year.`
+  }
+}
+
+// ============================================================================
+// Loyalty
+// ============================================================================
+
+/**
+ * Earliest completion that still counts towards loyalty, or null for all time
+ */
+export function getLoyaltySince(policy: BookingPolicy, now: number = Date.now()): string | null {
+  if (policy.loyaltyLookbackMonths <= 0) return null
+  const since = new Date(now)
+  since.setUTCMonth(since.getUTCMonth() - policy.loyaltyLookbackMonths)
+  return since.toISOString()
+}
+
+/**
+ * The waitlist priority tier a producer's completed orders earn (0-2)
+ */
+export function getLoyaltyTier(policy: BookingPolicy, completedOrders: number): number {
+  if (policy.loyaltyTopPriorityOrders > 0 && completedOrders >= policy.loyaltyTopPriorityOrders) return 2
+  if (policy.loyaltyPriorityOrders > 0 && completedOrders >= policy.loyaltyPriorityOrders) return 1
+  return 0
+}
+
+/**
+ * The date an order counts towards a season: its drop-off, or when it was
+ * requested if there isn't one yet
+ */
+export function getBookedDate(order: { scheduled_drop_off: string | null; created_at: string }): string {
+  return (order.scheduled_drop_off || order.created_at).split('T')[0]
+}
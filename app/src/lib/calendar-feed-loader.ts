@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  buildProcessorFeedEvents,
+  buildProducerFeedEvents,
+  getFeedSince,
+  type FeedOrder,
+  type FeedSlot,
+} from '@/lib/calendar-feed'
+import type { IcsCalendar } from '@/lib/ics'
+import type { OrganizationType } from '@/types/database'
+
+const ORDER_SELECT = `
+  id, order_number, status, slot_reserved, scheduled_drop_off, estimated_ready_date,
+  actual_ready_date, pickup_date, updated_at,
+  livestock(animal_type, tag_number, name),
+  producer:organizations!producer_id(name),
+  processor:organizations!processor_id(name, address_line1, city, state, zip)
+`
+
+/**
+ * The calendar behind a feed token, or null if no organization has it.
+ * Calendar apps fetch without signing in, so this takes a service role
+ * client; the token is the only credential.
+ */
+export async function loadCalendarFeed(
+  admin: SupabaseClient,
+  token: string,
+  appUrl: string,
+  now: number = Date.now()
+): Promise<IcsCalendar | null> {
+  if (!token) return null
+
+  const { data: feed } = await admin
+    .from('calendar_feeds')
+    .select('organization_id, organization:organizations(name, type)')
+    .eq('token', token)
+    .maybeSingle()
+
+  const row = feed as { organization_id: string; organization: { name: string; type: OrganizationType } | null } | null
+  if (!row?.organization) return null
+
+  await admin
+    .from('calendar_feeds')
+    .update({ last_fetched_at: new Date(now).toISOString() })
+    .eq('organization_id', row.organization_id)
+
+  const since = getFeedSince(now)
+  const orgId = row.organization_id
+
+  if (row.organization.type === 'producer') {
+    const { data: orders, error } = await admin
+      .from('processing_orders')
+      .select(ORDER_SELECT)
+      .eq('producer_id', orgId)
+      .neq('status', 'cancelled')
+      .or(`scheduled_drop_off.gte.${since},estimated_ready_date.gte.${since},actual_ready_date.gte.${since},pickup_date.gte.${since}`)
+
+    if (error) console.error('Error loading calendar feed orders:', error)
+
+    return {
+      name: `${row.organization.name} - Processing`,
+      description: 'Drop-off, ready and pickup days for your processing orders',
+      events: buildProducerFeedEvents((orders || []) as unknown as FeedOrder[], appUrl),
+    }
+  }
+
+  const [{ data: slots, error: slotsError }, { data: orders, error: ordersError }] = await Promise.all([
+    admin
+      .from('calendar_slots')
+      .select('id, date, animal_type, capacity, booked_count, is_available, notes, updated_at')
+      .eq('processor_id', orgId)
+      .gte('date', since),
+    admin
+      .from('processing_orders')
+      .select(ORDER_SELECT)
+      .eq('processor_id', orgId)
+      .neq('status', 'cancelled')
+      .gte('scheduled_drop_off', since),
+  ])
+
+  if (slotsError || ordersError) {
+    console.error('Error loading calendar feed:', slotsError || ordersError)
+  }
+
+  return {
+    name: `${row.organization.name} - Kill Days`,
+    description: 'Kill days with places booked, and each order\'s drop-off',
+    events: buildProcessorFeedEvents(
+      (slots || []) as FeedSlot[],
+      (orders || []) as unknown as FeedOrder[],
+      appUrl
+    ),
+  }
+}
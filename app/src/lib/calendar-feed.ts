@@ -0,0 +1,219 @@
+/**
+ * Calendar Feeds
+ *
+ * What each organization's ICS feed shows:
+ * - producers: drop-off, ready and pickup days for their orders
+ * - processors: kill days (calendar slots) with places booked, and each
+ *   order's drop-off
+ *
+ * Cancelled orders and drafts that don't hold a place are left out, so their
+ * events disappear from subscribed calendars. UIDs come from row ids and
+ * never change; the feed keeps the last FEED_HISTORY_DAYS days.
+ *
+ * Pure functions only - lib/calendar-feed-loader.ts reads the rows by feed
+ * token and lib/ics.ts serializes the events.
+ */
+
+import { addIcsDays, formatIcsDate, type IcsEvent, type IcsEventStatus } from './ics'
+import type { AnimalType, OrderStatus } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FeedEventKind = 'dropoff' | 'ready' | 'pickup'
+
+export interface FeedAddress {
+  name: string
+  address_line1: string | null
+  city: string | null
+  state: string | null
+  zip: string | null
+}
+
+export interface FeedOrder {
+  id: string
+  order_number: number
+  status: OrderStatus
+  slot_reserved: boolean
+  scheduled_drop_off: string | null
+  estimated_ready_date: string | null
+  actual_ready_date: string | null
+  pickup_date: string | null
+  updated_at: string
+  livestock: { animal_type: AnimalType; tag_number: string | null; name: string | null } | null
+  producer: { name: string } | null
+  processor: FeedAddress | null
+}
+
+export interface FeedSlot {
+  id: string
+  date: string
+  animal_type: AnimalType
+  capacity: number
+  booked_count: number
+  is_available: boolean
+  notes: string | null
+  updated_at: string
+}
+
+export const FEED_HISTORY_DAYS = 60
+
+const UID_DOMAIN = 'steakholders'
+
+const ANIMAL_LABELS: Record<AnimalType, string> = {
+  beef: 'Beef',
+  pork: 'Pork',
+  lamb: 'Lamb',
+  goat: 'Goat',
+}
+
+const EVENT_LABELS: Record<FeedEventKind, string> = {
+  dropoff: 'Drop-off',
+  ready: 'Ready',
+  pickup: 'Pickup',
+}
+
+// ============================================================================
+// Feed URLs
+// ============================================================================
+
+/**
+ * The URL calendar apps subscribe to
+ */
+export function getCalendarFeedUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, '')}/api/calendar/${token}.ics`
+}
+
+/**
+ * The token from the route segment, with or without the .ics extension
+ */
+export function parseFeedToken(segment: string): string {
+  return segment.replace(/\.ics$/i, '')
+}
+
+/**
+ * The earliest date the feed includes
+ */
+export function getFeedSince(now: number = Date.now()): string {
+  return addIcsDays(new Date(now).toISOString(), -FEED_HISTORY_DAYS)
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Stable UID for an order's event or a kill day
+ */
+export function getFeedUid(kind: FeedEventKind | 'slot', id: string): string {
+  return kind === 'slot' ? `slot-${id}@${UID_DOMAIN}` : `order-${id}-${kind}@${UID_DOMAIN}`
+}
+
+/**
+ * Orders that hold a place on the calendar
+ */
+export function isFeedOrder(order: Pick<FeedOrder, 'status' | 'slot_reserved'>): boolean {
+  if (order.status === 'cancelled') return false
+  return order.status !== 'draft' || order.slot_reserved
+}
+
+/**
+ * A producer's drop-off, ready and pickup days
+ */
+export function buildProducerFeedEvents(orders: FeedOrder[], appUrl: string): IcsEvent[] {
+  const events: IcsEvent[] = []
+
+  for (const order of orders.filter(isFeedOrder)) {
+    const where = order.processor?.name ? ` at ${order.processor.name}` : ''
+    const base = {
+      description: `Order #${order.order_number}${describeAnimal(order) ? ` - ${describeAnimal(order)}` : ''}`,
+      location: formatAddress(order.processor),
+      url: getOrderUrl(appUrl, order.id),
+      status: getOrderEventStatus(order.status),
+      revisedAt: order.updated_at,
+    }
+    const dates: [FeedEventKind, string | null][] = [
+      ['dropoff', order.scheduled_drop_off],
+      ['ready', order.actual_ready_date || order.estimated_ready_date],
+      ['pickup', order.pickup_date],
+    ]
+
+    for (const [kind, date] of dates) {
+      if (!date) continue
+      events.push({
+        ...base,
+        uid: getFeedUid(kind, order.id),
+        date,
+        summary: `${EVENT_LABELS[kind]}: ${describeAnimal(order) || `Order #${order.order_number}`}${where}`,
+        categories: [EVENT_LABELS[kind]],
+      })
+    }
+  }
+
+  return sortEvents(events)
+}
+
+/**
+ * A processor's kill days and the drop-offs booked on them
+ */
+export function buildProcessorFeedEvents(slots: FeedSlot[], orders: FeedOrder[], appUrl: string): IcsEvent[] {
+  const events: IcsEvent[] = []
+
+  for (const slot of slots) {
+    if (!slot.is_available && slot.booked_count === 0) continue
+    events.push({
+      uid: getFeedUid('slot', slot.id),
+      date: slot.date,
+      summary: `Kill day: ${ANIMAL_LABELS[slot.animal_type]} - ${slot.booked_count} of ${slot.capacity} booked${slot.is_available ? '' : ' (closed)'}`,
+      description: slot.notes,
+      url: `${appUrl.replace(/\/$/, '')}/dashboard/calendar`,
+      status: 'CONFIRMED',
+      categories: ['Kill day'],
+      revisedAt: slot.updated_at,
+    })
+  }
+
+  for (const order of orders.filter(isFeedOrder)) {
+    if (!order.scheduled_drop_off) continue
+    const animal = describeAnimal(order)
+    events.push({
+      uid: getFeedUid('dropoff', order.id),
+      date: order.scheduled_drop_off,
+      summary: `Drop-off: Order #${order.order_number}${order.producer ? ` - ${order.producer.name}` : ''}${animal ? ` (${animal})` : ''}`,
+      url: getOrderUrl(appUrl, order.id),
+      status: getOrderEventStatus(order.status),
+      categories: ['Drop-off'],
+      revisedAt: order.updated_at,
+    })
+  }
+
+  return sortEvents(events)
+}
+
+function describeAnimal(order: FeedOrder): string {
+  if (!order.livestock) return ''
+  const label = ANIMAL_LABELS[order.livestock.animal_type]
+  if (order.livestock.tag_number) return `${label} #${order.livestock.tag_number}`
+  return order.livestock.name ? `${label} "${order.livestock.name}"` : label
+}
+
+function formatAddress(org: FeedAddress | null): string | null {
+  if (!org) return null
+  const cityLine = [org.city, [org.state, org.zip].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  return [org.name, org.address_line1, cityLine].filter(Boolean).join(', ')
+}
+
+function getOrderUrl(appUrl: string, orderId: string): string {
+  return `${appUrl.replace(/\/$/, '')}/dashboard/orders/${orderId}`
+}
+
+function getOrderEventStatus(status: OrderStatus): IcsEventStatus {
+  return status === 'draft' || status === 'submitted' ? 'TENTATIVE' : 'CONFIRMED'
+}
+
+function sortEvents(events: IcsEvent[]): IcsEvent[] {
+  return events.sort((a, b) =>
+    formatIcsDate(a.date).localeCompare(formatIcsDate(b.date)) || a.uid.localeCompare(b.uid)
+  )
+}
@@ -0,0 +1,281 @@
+/**
+ * Recurring Calendar Slots
+ *
+ * Expands a processor's recurrence rules ("weekly on Tue, beef, capacity 6,
+ * until Dec 31") into calendar_slots over a rolling horizon, skipping
+ * holiday and closure exceptions.
+ *
+ * Planning never touches a slot that has bookings (booked_count > 0) or a
+ * slot the processor added by hand: editing a rule updates or removes only
+ * its own empty slots, and a date already taken by another slot for the
+ * same animal is reported as a conflict instead of overwritten.
+ *
+ * Pure functions only - lib/actions/calendar-rules.ts loads rules, slots
+ * and exceptions and applies the plans.
+ */
+
+import type { AnimalType } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SlotRuleInput {
+  animal_type: AnimalType
+  days_of_week: number[]      // 0 = Sunday ... 6 = Saturday
+  interval_weeks: number      // 1 = every week, 2 = every other week...
+  starts_on: string           // YYYY-MM-DD
+  ends_on: string | null
+  capacity: number
+  kill_fee: number | null
+  notes: string | null
+}
+
+export interface SlotRule extends SlotRuleInput {
+  id: string
+  is_active: boolean
+}
+
+export interface SlotException {
+  date: string
+  rule_id: string | null      // null = closed for every rule
+  reason: string | null
+}
+
+export interface ExistingSlot {
+  id: string
+  date: string
+  animal_type: AnimalType
+  capacity: number
+  booked_count: number
+  kill_fee: number | null
+  notes: string | null
+  rule_id: string | null
+}
+
+export interface SlotDraft {
+  date: string
+  animal_type: AnimalType
+  capacity: number
+  kill_fee: number | null
+  notes: string | null
+}
+
+export interface SlotRulePlan {
+  create: SlotDraft[]
+  update: { id: string; date: string; changes: Partial<SlotDraft> }[]
+  remove: { id: string; date: string }[]
+  keptBooked: { id: string; date: string; booked: number }[]   // Left untouched
+  conflicts: { id: string; date: string }[]                    // Date already has a slot
+  skipped: { date: string; reason: string }[]                  // Exceptions
+}
+
+export const SLOT_RULE_HORIZON_WEEKS = 12
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Check a rule before saving; returns an error message or null
+ */
+export function validateSlotRule(rule: SlotRuleInput): string | null {
+  if (rule.days_of_week.length === 0) return 'Pick at least one day of the week'
+  if (rule.days_of_week.some(day => !Number.isInteger(day) || day < 0 || day > 6)) return 'Invalid day of the week'
+  if (!Number.isInteger(rule.interval_weeks) || rule.interval_weeks < 1 || rule.interval_weeks > 4) {
+    return 'Repeat every 1 to 4 weeks'
+  }
+  if (!isDate(rule.starts_on)) return 'Start date is required'
+  if (rule.ends_on && !isDate(rule.ends_on)) return 'Invalid end date'
+  if (rule.ends_on && rule.ends_on < rule.starts_on) return 'End date must be after the start date'
+  if (!Number.isInteger(rule.capacity) || rule.capacity < 1) return 'Capacity must be at least 1'
+  if (rule.kill_fee !== null && rule.kill_fee < 0) return 'Kill fee cannot be negative'
+  return null
+}
+
+/**
+ * The window a rule is materialized over: from today (or its start) to the
+ * rolling horizon (or its end)
+ */
+export function getRuleWindow(
+  rule: Pick<SlotRuleInput, 'starts_on' | 'ends_on'>,
+  today: string,
+  horizonWeeks = SLOT_RULE_HORIZON_WEEKS
+): { from: string; through: string } | null {
+  const from = rule.starts_on > today ? rule.starts_on : today
+  const horizon = addDays(today, horizonWeeks * 7)
+  const through = rule.ends_on && rule.ends_on < horizon ? rule.ends_on : horizon
+  return from <= through ? { from, through } : null
+}
+
+/**
+ * Dates a rule falls on between from and through (inclusive), less any
+ * exceptions that apply to it
+ */
+export function getRuleDates(
+  rule: SlotRuleInput & { id?: string },
+  from: string,
+  through: string,
+  exceptions: SlotException[] = []
+): { dates: string[]; skipped: { date: string; reason: string }[] } {
+  const dates: string[] = []
+  const skipped: { date: string; reason: string }[] = []
+  const start = from > rule.starts_on ? from : rule.starts_on
+  const end = rule.ends_on && rule.ends_on < through ? rule.ends_on : through
+
+  // Weeks count from the Sunday of the rule's start week
+  const anchor = addDays(rule.starts_on, -dayOfWeek(rule.starts_on))
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (!rule.days_of_week.includes(dayOfWeek(date))) continue
+    const week = Math.floor(daysBetween(anchor, date) / 7)
+    if (week % rule.interval_weeks !== 0) continue
+
+    const exception = exceptions.find(e => e.date === date && (e.rule_id === null || e.rule_id === rule.id))
+    if (exception) {
+      skipped.push({ date, reason: exception.reason || 'Closed' })
+    } else {
+      dates.push(date)
+    }
+  }
+
+  return { dates, skipped }
+}
+
+/**
+ * Work out what saving a rule does to the calendar between from and through.
+ *
+ * `existing` should hold every slot in the window for the rule's animal type
+ * plus every slot the rule generated before (it may have changed animal).
+ * Pass ruleId null when previewing a rule that hasn't been saved.
+ */
+export function planSlotRule(
+  rule: SlotRuleInput,
+  ruleId: string | null,
+  window: { from: string; through: string } | null,
+  existing: ExistingSlot[],
+  exceptions: SlotException[] = []
+): SlotRulePlan {
+  const plan: SlotRulePlan = { create: [], update: [], remove: [], keptBooked: [], conflicts: [], skipped: [] }
+  const inWindow = existing.filter(slot => window && slot.date >= window.from && slot.date <= window.through)
+
+  const { dates, skipped } = window
+    ? getRuleDates({ ...rule, id: ruleId || undefined }, window.from, window.through, exceptions)
+    : { dates: [], skipped: [] }
+  plan.skipped = skipped
+
+  const wanted = new Set(dates)
+  const draft = (date: string): SlotDraft => ({
+    date,
+    animal_type: rule.animal_type,
+    capacity: rule.capacity,
+    kill_fee: rule.kill_fee,
+    notes: rule.notes,
+  })
+
+  for (const date of dates) {
+    const slot = inWindow.find(s => s.date === date && s.animal_type === rule.animal_type)
+    if (!slot) {
+      plan.create.push(draft(date))
+    } else if (ruleId === null || slot.rule_id !== ruleId) {
+      plan.conflicts.push({ id: slot.id, date })
+    } else if (slot.booked_count > 0) {
+      plan.keptBooked.push({ id: slot.id, date, booked: slot.booked_count })
+    } else {
+      const changes = diffSlot(slot, draft(date))
+      if (changes) plan.update.push({ id: slot.id, date, changes })
+    }
+  }
+
+  // The rule's own slots that it no longer covers
+  if (ruleId !== null) {
+    for (const slot of inWindow) {
+      if (slot.rule_id !== ruleId) continue
+      if (wanted.has(slot.date) && slot.animal_type === rule.animal_type) continue
+      if (slot.booked_count > 0) {
+        plan.keptBooked.push({ id: slot.id, date: slot.date, booked: slot.booked_count })
+      } else {
+        plan.remove.push({ id: slot.id, date: slot.date })
+      }
+    }
+  }
+
+  plan.keptBooked.sort((a, b) => a.date.localeCompare(b.date))
+  return plan
+}
+
+/**
+ * Deleting a rule removes its empty upcoming slots and keeps the booked ones
+ */
+export function planSlotRuleRemoval(ruleId: string, existing: ExistingSlot[], today: string): SlotRulePlan {
+  const plan: SlotRulePlan = { create: [], update: [], remove: [], keptBooked: [], conflicts: [], skipped: [] }
+  for (const slot of existing) {
+    if (slot.rule_id !== ruleId || slot.date < today) continue
+    if (slot.booked_count > 0) {
+      plan.keptBooked.push({ id: slot.id, date: slot.date, booked: slot.booked_count })
+    } else {
+      plan.remove.push({ id: slot.id, date: slot.date })
+    }
+  }
+  return plan
+}
+
+/**
+ * "Weekly on Tue, Thu - Beef - capacity 6 - $85 kill fee - until Dec 31, 2025"
+ */
+export function describeSlotRule(rule: SlotRuleInput): string {
+  const days = [...rule.days_of_week].sort((a, b) => a - b).map(day => DAY_NAMES[day]).join(', ')
+  const repeat = rule.interval_weeks === 1 ? 'Weekly' : `Every ${rule.interval_weeks} weeks`
+  const parts = [
+    `${repeat} on ${days}`,
+    rule.animal_type.charAt(0).toUpperCase() + rule.animal_type.slice(1),
+    `capacity ${rule.capacity}`,
+  ]
+  if (rule.kill_fee !== null) parts.push(`$${rule.kill_fee} kill fee`)
+  parts.push(rule.ends_on ? `until ${formatShortDate(rule.ends_on)}` : `from ${formatShortDate(rule.starts_on)}`)
+  return parts.join(' - ')
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function diffSlot(slot: ExistingSlot, draft: SlotDraft): Partial<SlotDraft> | null {
+  const changes: Partial<SlotDraft> = {}
+  if (slot.capacity !== draft.capacity) changes.capacity = draft.capacity
+  if ((slot.kill_fee ?? null) !== draft.kill_fee) changes.kill_fee = draft.kill_fee
+  if ((slot.notes || null) !== (draft.notes || null)) changes.notes = draft.notes
+  return Object.keys(changes).length > 0 ? changes : null
+}
+
+// Dates are handled as YYYY-MM-DD strings in UTC so they never shift with
+// the viewer's timezone
+
+function toUtc(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(toUtc(date) + days * 86400000).toISOString().split('T')[0]
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to) - toUtc(from)) / 86400000)
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(toUtc(date)).getUTCDay()
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(toUtc(value))
+}
+
+function formatShortDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return `${MONTHS[month - 1]} ${day}, ${year}`
+}
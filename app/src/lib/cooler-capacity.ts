@@ -0,0 +1,312 @@
+/**
+ * Cooler Capacity
+ *
+ * Kill slots limit how many head a processor can take in a day, but the
+ * real bottleneck is rail space: carcasses hang in the cooler for 10-21
+ * days before cutting. Processors declare cooler capacity (in head or rail
+ * feet) and a default hang time per animal type, and every order still
+ * headed for or hanging in the cooler is projected onto the days it will
+ * occupy a rail.
+ *
+ * An order occupies the cooler from the day it starts hanging for its
+ * animal's hang time:
+ * - hanging: from hang_started_at (or the drop-off); if it is past its hang
+ *   time it is still on the rail today
+ * - pending / received: from the drop-off, or today if the drop-off has
+ *   passed; orders without a drop-off date are left out
+ * - cutting onwards: off the rail
+ *
+ * Pure functions only - lib/actions/cooler-capacity.ts loads the config and
+ * orders.
+ */
+
+import type { AnimalType, OrderStatus, ProcessingStage } from '@/types/database'
+import { addDays } from '@/lib/calendar-rules'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CoolerUnit = 'head' | 'rail_feet'
+export type CoolerEnforcement = 'warn' | 'block'
+export type CoolerStatus = 'ok' | 'warn' | 'over'
+
+export interface CoolerConfig {
+  unit: CoolerUnit
+  capacity: number                                      // 0 = not set up, no checks
+  railFeetPerHead: Record<AnimalType, number>           // Only used for rail_feet
+  hangDays: Record<AnimalType, number>
+  speciesLimits: Partial<Record<AnimalType, number>>    // Optional caps in the same unit
+  warnAtPercent: number
+  enforce: CoolerEnforcement
+}
+
+export interface CoolerOrder {
+  animal_type: AnimalType | null
+  status: OrderStatus
+  processing_stage: ProcessingStage
+  scheduled_drop_off: string | null
+  actual_drop_off: string | null
+  hang_started_at: string | null
+}
+
+export interface CoolerBooking {
+  animal_type: AnimalType
+  date: string                // Drop-off / kill date, YYYY-MM-DD
+  head: number
+}
+
+export interface CoolerDay {
+  date: string
+  used: number
+  percent: number
+  bySpecies: Partial<Record<AnimalType, number>>
+  status: CoolerStatus
+}
+
+export interface CoolerCheck {
+  status: CoolerStatus
+  blocked: boolean
+  peakPercent: number
+  peakDate: string | null
+  overDates: string[]
+  message: string | null
+}
+
+export const DEFAULT_COOLER_CONFIG: CoolerConfig = {
+  unit: 'head',
+  capacity: 0,
+  railFeetPerHead: { beef: 2.5, pork: 1.5, lamb: 1, goat: 1 },
+  hangDays: { beef: 14, pork: 3, lamb: 7, goat: 5 },
+  speciesLimits: {},
+  warnAtPercent: 90,
+  enforce: 'warn',
+}
+
+const ANIMAL_TYPES: AnimalType[] = ['beef', 'pork', 'lamb', 'goat']
+const ACTIVE_STATUSES: OrderStatus[] = ['submitted', 'confirmed', 'in_progress']
+const COOLER_STAGES: ProcessingStage[] = ['pending', 'received', 'hanging']
+
+// ============================================================================
+// Config
+// ============================================================================
+
+/**
+ * Normalize a stored cooler_capacity value, filling in defaults
+ */
+export function parseCoolerConfig(value: unknown): CoolerConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return cloneDefaults()
+  }
+  const raw = value as Partial<CoolerConfig>
+  const defaults = cloneDefaults()
+
+  const speciesLimits: Partial<Record<AnimalType, number>> = {}
+  for (const animal of ANIMAL_TYPES) {
+    const limit = raw.speciesLimits?.[animal]
+    if (typeof limit === 'number' && limit > 0) speciesLimits[animal] = limit
+  }
+
+  return {
+    unit: raw.unit === 'rail_feet' ? 'rail_feet' : 'head',
+    capacity: positiveOr(raw.capacity, 0),
+    railFeetPerHead: perAnimal(raw.railFeetPerHead, defaults.railFeetPerHead),
+    hangDays: perAnimal(raw.hangDays, defaults.hangDays),
+    speciesLimits,
+    warnAtPercent: Math.min(100, positiveOr(raw.warnAtPercent, defaults.warnAtPercent)),
+    enforce: raw.enforce === 'block' ? 'block' : 'warn',
+  }
+}
+
+export function isCoolerConfigured(config: CoolerConfig): boolean {
+  return config.capacity > 0
+}
+
+/**
+ * Cooler space one head of an animal takes, in the config's unit
+ */
+export function getHeadLoad(config: CoolerConfig, animal: AnimalType): number {
+  return config.unit === 'head' ? 1 : config.railFeetPerHead[animal]
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+/**
+ * The days an order will be on the rail, as [start, end) dates, or null if
+ * it won't take up cooler space
+ */
+export function getOrderHangWindow(
+  order: CoolerOrder,
+  config: CoolerConfig,
+  today: string
+): { start: string; end: string } | null {
+  if (!order.animal_type) return null
+  if (!ACTIVE_STATUSES.includes(order.status) || !COOLER_STAGES.includes(order.processing_stage)) return null
+
+  const hangDays = config.hangDays[order.animal_type]
+
+  if (order.processing_stage === 'hanging') {
+    const start = toDate(order.hang_started_at || order.actual_drop_off || order.scheduled_drop_off) || today
+    const end = addDays(start, hangDays)
+    // Past its hang time but not cut yet: still on the rail today
+    return { start, end: end > today ? end : addDays(today, 1) }
+  }
+
+  const dropOff = toDate(order.actual_drop_off || order.scheduled_drop_off)
+  if (!dropOff) return null
+  const start = dropOff < today ? today : dropOff
+  return { start, end: addDays(start, hangDays) }
+}
+
+/**
+ * Project cooler use for each day from `from` for `days` days. `today` only
+ * matters when projecting from a later date: late drop-offs and overdue
+ * carcasses are placed relative to it.
+ */
+export function projectCoolerOccupancy(
+  orders: CoolerOrder[],
+  config: CoolerConfig,
+  from: string,
+  days: number,
+  bookings: CoolerBooking[] = [],
+  today = from
+): CoolerDay[] {
+  const loads: { animal: AnimalType; start: string; end: string; amount: number }[] = []
+
+  for (const order of orders) {
+    const window = getOrderHangWindow(order, config, today)
+    if (window) loads.push({ animal: order.animal_type!, ...window, amount: getHeadLoad(config, order.animal_type!) })
+  }
+  for (const booking of bookings) {
+    loads.push({
+      animal: booking.animal_type,
+      start: booking.date,
+      end: addDays(booking.date, config.hangDays[booking.animal_type]),
+      amount: getHeadLoad(config, booking.animal_type) * booking.head,
+    })
+  }
+
+  const result: CoolerDay[] = []
+  for (let i = 0; i < days; i++) {
+    const date = addDays(from, i)
+    const bySpecies: Partial<Record<AnimalType, number>> = {}
+    let used = 0
+
+    for (const load of loads) {
+      if (load.start > date || load.end <= date) continue
+      used += load.amount
+      bySpecies[load.animal] = (bySpecies[load.animal] || 0) + load.amount
+    }
+
+    used = round(used)
+    const percent = config.capacity > 0 ? round((used / config.capacity) * 100) : 0
+    result.push({ date, used, percent, bySpecies, status: getDayStatus(config, used, percent, bySpecies) })
+  }
+
+  return result
+}
+
+/**
+ * Check whether new bookings (a producer's order, or a processor's new kill
+ * slots treated as fully booked) would overflow the cooler on any day they
+ * hang
+ */
+export function checkCoolerBooking(
+  config: CoolerConfig,
+  orders: CoolerOrder[],
+  bookings: CoolerBooking[],
+  today: string
+): CoolerCheck {
+  const ok: CoolerCheck = { status: 'ok', blocked: false, peakPercent: 0, peakDate: null, overDates: [], message: null }
+  const relevant = bookings.filter(b => b.head > 0 && b.date >= today)
+  if (!isCoolerConfigured(config) || relevant.length === 0) return ok
+
+  const from = relevant.reduce((min, b) => (b.date < min ? b.date : min), relevant[0].date)
+  const through = relevant.reduce((max, b) => {
+    const end = addDays(b.date, config.hangDays[b.animal_type])
+    return end > max ? end : max
+  }, from)
+
+  const days = projectCoolerOccupancy(orders, config, from, daysBetween(from, through), relevant, today)
+    // Only the days at least one of the new bookings is hanging
+    .filter(day => relevant.some(b => b.date <= day.date && addDays(b.date, config.hangDays[b.animal_type]) > day.date))
+
+  if (days.length === 0) return ok
+
+  const peak = days.reduce((max, day) => (day.percent > max.percent ? day : max), days[0])
+  const overDates = days.filter(day => day.status === 'over').map(day => day.date)
+  const status: CoolerStatus = overDates.length > 0 ? 'over' : days.some(day => day.status === 'warn') ? 'warn' : 'ok'
+
+  let message: string | null = null
+  if (status === 'over') {
+    const when = overDates.length === 1 ? overDates[0] : `${overDates.length} days starting ${overDates[0]}`
+    message = `Cooler would be over capacity on ${when} (peak ${peak.percent}% on ${peak.date})`
+  } else if (status === 'warn') {
+    message = `Cooler would reach ${peak.percent}% on ${peak.date}`
+  }
+
+  return {
+    status,
+    blocked: status === 'over' && config.enforce === 'block',
+    peakPercent: peak.percent,
+    peakDate: peak.date,
+    overDates,
+    message,
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getDayStatus(
+  config: CoolerConfig,
+  used: number,
+  percent: number,
+  bySpecies: Partial<Record<AnimalType, number>>
+): CoolerStatus {
+  if (config.capacity <= 0) return 'ok'
+  const speciesOver = ANIMAL_TYPES.some(animal => {
+    const limit = config.speciesLimits[animal]
+    return limit !== undefined && (bySpecies[animal] || 0) > limit
+  })
+  if (used > config.capacity || speciesOver) return 'over'
+  return percent >= config.warnAtPercent ? 'warn' : 'ok'
+}
+
+function cloneDefaults(): CoolerConfig {
+  return {
+    ...DEFAULT_COOLER_CONFIG,
+    railFeetPerHead: { ...DEFAULT_COOLER_CONFIG.railFeetPerHead },
+    hangDays: { ...DEFAULT_COOLER_CONFIG.hangDays },
+    speciesLimits: {},
+  }
+}
+
+function perAnimal(value: unknown, defaults: Record<AnimalType, number>): Record<AnimalType, number> {
+  const raw = value && typeof value === 'object' ? (value as Record<string, unknown>) : {}
+  const result = { ...defaults }
+  for (const animal of ANIMAL_TYPES) {
+    result[animal] = positiveOr(raw[animal], defaults[animal])
+  }
+  return result
+}
+
+function positiveOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// Timestamps are compared by their UTC date
+function toDate(value: string | null): string | null {
+  return value ? value.slice(0, 10) : null
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000)
+}
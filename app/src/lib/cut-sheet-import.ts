@@ -0,0 +1,900 @@
+/**
+ * Cut Sheet Import
+ *
+ * Reads cut sheets kept outside the app - spreadsheets exported as CSV, or
+ * JSON in the interchange shape of cutsheet/logic/cut_sheet_schema.json -
+ * and maps the free-text cut names people actually wrote ("rib eyes",
+ * "NY strip", "pot roast") to CUT_SHEET_SCHEMA cut IDs.
+ *
+ * Matching runs in order: exact names and aliases, then organ / ground /
+ * sausage lines, then fuzzy matching. Anything fuzzy is flagged for review;
+ * anything below the threshold is left unmapped with suggestions. The review
+ * step runs the mapped cuts through validateCutSheet so conflicts show up
+ * before anything is saved.
+ *
+ * CSV: one cut per row, with a header. Recognised columns (case and spacing
+ * don't matter): sheet/customer/template, animal, cut, thickness, pieces per
+ * package, weight, notes, hanging weight, special instructions. Rows with
+ * the same sheet name make up one cut sheet.
+ *
+ * JSON: { "version": "1.0", "cutSheets": [ { "name", "animal",
+ * "hangingWeight", "cuts": [ { "id" | "name", "parameters": { "thickness",
+ * "perPackage", "weight" }, "notes" } ], "ground": { "type", "packageSize",
+ * "pattySize" }, "organs": ["liver"], "sausages": [ { "flavor", "pounds" } ],
+ * "specialInstructions" } ] }. A bare sheet or an array of sheets also works.
+ */
+
+import type { AnimalType, CutCategory, GroundType, PattySize, SausageFlavor } from '@/types/database'
+import { CUT_SHEET_SCHEMA, getAllCuts, getCutById, type CutChoice } from './cut-sheet-schema'
+import { validateCutSheet, type CutSelection } from './cut-sheet-validation'
+import { SAUSAGE_FLAVORS, PATTY_SIZE_OPTIONS } from './cut-sheet-data'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ImportFormat = 'csv' | 'json'
+
+export type OrganKey = 'liver' | 'heart' | 'tongue' | 'kidneys' | 'oxtail' | 'bones'
+
+export interface CutSuggestion {
+  cutId: string
+  cutName: string
+  score: number
+}
+
+export type CutMatch =
+  | { kind: 'cut'; cutId: string; cutName: string; score: number; exact: boolean }
+  | { kind: 'organ'; organ: OrganKey }
+  | { kind: 'ground'; groundType: GroundType }
+  | { kind: 'sausage'; flavor: SausageFlavor }
+  | { kind: 'unmapped'; suggestions: CutSuggestion[] }
+
+export interface ImportedCutEntry {
+  source: string              // Cut name as written
+  line: number | null         // CSV line, for pointing people back at the file
+  match: CutMatch
+  thickness: string | null
+  piecesPerPackage: number | null
+  weightLbs: number | null
+  notes: string | null
+  skip: boolean               // Left out on the review screen
+}
+
+export interface ImportedCutSheet {
+  name: string
+  animalType: AnimalType | null
+  animalSource: string | null // Animal as written, when it wasn't recognised
+  hangingWeight: number | null
+  entries: ImportedCutEntry[]
+  groundPackageWeight: number | null
+  pattySize: PattySize | null
+  specialInstructions: string | null
+}
+
+export interface ImportParseResult {
+  sheets: ImportedCutSheet[]
+  errors: string[]            // Problems with the file itself
+}
+
+export type ImportIssueKind = 'animal' | 'unmapped' | 'fuzzy' | 'duplicate' | 'conflict' | 'parameter'
+
+export interface ImportIssue {
+  severity: 'error' | 'warning'
+  kind: ImportIssueKind
+  message: string
+  entries: number[]           // Indexes into sheet.entries
+}
+
+export interface ImportReview {
+  issues: ImportIssue[]
+  selections: CutSelection[]
+  canImport: boolean
+}
+
+export interface CutSheetImportRecord {
+  animal_type: AnimalType
+  hanging_weight_lbs: number | null
+  ground_type: GroundType | null
+  ground_package_weight_lbs: number | null
+  patty_size: PattySize | null
+  keep_liver: boolean
+  keep_heart: boolean
+  keep_tongue: boolean
+  keep_kidneys: boolean
+  keep_oxtail: boolean
+  keep_bones: boolean
+  special_instructions: string | null
+  items: {
+    cut_id: string
+    cut_name: string
+    cut_category: CutCategory
+    thickness: string | null
+    weight_lbs: number | null
+    pieces_per_package: number | null
+    notes: string | null
+    sort_order: number
+  }[]
+  sausages: { flavor: SausageFlavor; pounds: number }[]
+}
+
+const FUZZY_THRESHOLD = 0.8
+const AMBIGUOUS_MARGIN = 0.05
+const SUGGESTION_THRESHOLD = 0.4
+const DEFAULT_SHEET_NAME = 'Imported cut sheet'
+
+// Names people write for cuts, beyond what the schema's own names cover
+const CUT_ALIASES: Record<AnimalType, Record<string, string[]>> = {
+  beef: {
+    ribeye: ['rib eye', 'delmonico', 'scotch fillet'],
+    nystrip: ['new york strip', 'ny strip', 'strip steak', 'strip', 'kansas city strip'],
+    filet: ['tenderloin', 'filet mignon', 'fillet', 'tenderloin steak'],
+    tbone: ['t bone'],
+    primerib: ['standing rib roast', 'rib roast'],
+    chuck_roast: ['pot roast', 'chuck roast'],
+    stew_meat: ['stew', 'stew beef'],
+    tritip: ['tri tip'],
+    top_round_steak: ['round steak'],
+    whole_brisket: ['brisket', 'packer brisket'],
+    short_ribs_bone: ['short ribs', 'short rib'],
+    skirt_steak: ['skirt', 'fajita meat'],
+    flank_steak: ['flank'],
+    cube_steak: ['cubed steak', 'minute steak'],
+    sirloin_steak: ['sirloin', 'top sirloin'],
+    picanha: ['coulotte', 'rump cap'],
+  },
+  pork: {
+    pork_chops: ['chops', 'loin chops', 'center cut chops'],
+    tenderloin: ['pork tenderloin'],
+    baby_back_ribs: ['baby backs', 'back ribs', 'loin back ribs'],
+    spare_ribs: ['spareribs', 'st louis ribs'],
+    boston_butt_whole: ['boston butt', 'pork butt'],
+    boston_butt_roasts: ['butt roast', 'shoulder roast'],
+    boston_butt_steaks: ['blade steaks', 'pork steaks', 'shoulder steaks'],
+    picnic_roast: ['picnic', 'picnic shoulder'],
+    cured_ham: ['ham', 'smoked ham'],
+    fresh_ham: ['leg roast'],
+    ham_steaks: ['ham slices'],
+    bacon: ['smoked bacon', 'side bacon'],
+    fresh_belly: ['pork belly', 'belly'],
+  },
+  lamb: {
+    rib_chops: ['rack chops'],
+    loin_chops: ['lamb chops'],
+    whole_leg: ['leg of lamb', 'leg roast'],
+    foreshank: ['shanks', 'lamb shanks'],
+    lamb_stew: ['stew', 'stew meat'],
+  },
+  goat: {
+    curry_meat: ['curry', 'curry cubes'],
+    whole_shank: ['shanks'],
+  },
+}
+
+const ANIMAL_NAMES: Record<string, AnimalType> = {
+  beef: 'beef',
+  cattle: 'beef',
+  cow: 'beef',
+  steer: 'beef',
+  heifer: 'beef',
+  pork: 'pork',
+  pig: 'pork',
+  hog: 'pork',
+  swine: 'pork',
+  lamb: 'lamb',
+  sheep: 'lamb',
+  mutton: 'lamb',
+  goat: 'goat',
+  chevon: 'goat',
+}
+
+const ORGAN_NAMES: Record<string, OrganKey> = {
+  liver: 'liver',
+  heart: 'heart',
+  tongue: 'tongue',
+  kidney: 'kidneys',
+  oxtail: 'oxtail',
+  bone: 'bones',
+  'soup bone': 'bones',
+  'marrow bone': 'bones',
+}
+
+const CSV_COLUMNS = {
+  sheet: ['sheet', 'cut sheet', 'customer', 'name', 'template', 'template name', 'producer'],
+  animal: ['animal', 'species', 'animal type'],
+  cut: ['cut', 'cut name', 'item', 'product', 'description'],
+  thickness: ['thickness', 'thick'],
+  pieces: ['pieces', 'per package', 'pieces per package', 'per pkg', 'pieces per pkg', 'qty per package'],
+  weight: ['weight', 'weight lbs', 'roast weight', 'lbs', 'pounds', 'package weight'],
+  notes: ['notes', 'note', 'comments'],
+  hanging: ['hanging weight', 'hanging', 'hanging weight lbs', 'hanging wt'],
+  instructions: ['special instructions', 'instructions'],
+} as const
+
+type CsvColumn = keyof typeof CSV_COLUMNS
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Guess the format from a file name, falling back to the content
+ */
+export function detectImportFormat(text: string, fileName?: string): ImportFormat {
+  if (fileName?.toLowerCase().endsWith('.json')) return 'json'
+  if (fileName?.toLowerCase().endsWith('.csv')) return 'csv'
+  const first = text.trimStart()[0]
+  return first === '{' || first === '[' ? 'json' : 'csv'
+}
+
+export function parseCutSheetImport(text: string, format: ImportFormat): ImportParseResult {
+  return format === 'json' ? parseCutSheetJson(text) : parseCutSheetCsv(text)
+}
+
+export function parseCutSheetCsv(text: string): ImportParseResult {
+  const rows = parseCsvRows(text)
+  if (rows.length === 0) return { sheets: [], errors: ['The file is empty'] }
+
+  const header = rows[0].map(normalizeHeader)
+  const columns: Partial<Record<CsvColumn, number>> = {}
+  ;(Object.keys(CSV_COLUMNS) as CsvColumn[]).forEach(column => {
+    const index = header.findIndex(h => (CSV_COLUMNS[column] as readonly string[]).includes(h))
+    if (index >= 0) columns[column] = index
+  })
+
+  if (columns.cut === undefined) {
+    return { sheets: [], errors: ['No cut column found. Add a header row with a "Cut" column.'] }
+  }
+
+  const sheets = new Map<string, { sheet: ImportedCutSheet; animal: string | null }>()
+  const cell = (row: string[], column: CsvColumn) => {
+    const index = columns[column]
+    const value = index === undefined ? '' : (row[index] || '').trim()
+    return value || null
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    const source = cell(row, 'cut')
+    if (!source) return
+
+    const name = cell(row, 'sheet') || DEFAULT_SHEET_NAME
+    let current = sheets.get(name)
+    if (!current) {
+      current = { sheet: emptySheet(name), animal: null }
+      sheets.set(name, current)
+    }
+
+    // Sheet-level values come from the first row that has them
+    current.animal = current.animal || cell(row, 'animal')
+    current.sheet.hangingWeight = current.sheet.hangingWeight ?? parseNumber(cell(row, 'hanging'))
+    current.sheet.specialInstructions = current.sheet.specialInstructions || cell(row, 'instructions')
+
+    current.sheet.entries.push(rawEntry(source, index + 2, {
+      thickness: cell(row, 'thickness'),
+      pieces: cell(row, 'pieces'),
+      weight: cell(row, 'weight'),
+      notes: cell(row, 'notes'),
+    }))
+  })
+
+  const result = Array.from(sheets.values()).map(({ sheet, animal }) => finishSheet(sheet, animal))
+  return { sheets: result, errors: result.length === 0 ? ['No cut rows found'] : [] }
+}
+
+export function parseCutSheetJson(text: string): ImportParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { sheets: [], errors: ['The file is not valid JSON'] }
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.cutSheets)
+      ? data.cutSheets
+      : [data]
+
+  const errors: string[] = []
+  const sheets: ImportedCutSheet[] = []
+
+  list.forEach((value, index) => {
+    if (!isRecord(value) || !Array.isArray(value.cuts)) {
+      errors.push(`Cut sheet ${index + 1} has no "cuts" list`)
+      return
+    }
+
+    const sheet = emptySheet(stringOrNull(value.name) || stringOrNull(value.templateName) || `${DEFAULT_SHEET_NAME} ${index + 1}`)
+    sheet.hangingWeight = parseNumber(value.hangingWeight)
+    sheet.specialInstructions = stringOrNull(value.specialInstructions)
+
+    for (const cut of value.cuts) {
+      if (!isRecord(cut)) continue
+      const source = stringOrNull(cut.name) || stringOrNull(cut.id)
+      if (!source) continue
+      const parameters = isRecord(cut.parameters) ? cut.parameters : {}
+      const entry = rawEntry(source, null, {
+        thickness: parameters.thickness ?? cut.thickness,
+        pieces: parameters.perPackage ?? cut.perPackage,
+        weight: parameters.weight ?? cut.weight,
+        notes: cut.notes,
+      })
+      // Schema IDs are trusted as-is and skip name matching
+      if (typeof cut.id === 'string') entry.source = cut.id
+      sheet.entries.push(entry)
+    }
+
+    if (isRecord(value.ground)) {
+      const groundType = stringOrNull(value.ground.type)
+      sheet.entries.push({
+        ...rawEntry(`ground ${groundType || ''}`.trim(), null, { weight: value.ground.packageSize ?? value.ground.packageWeight }),
+        match: { kind: 'ground', groundType: parseGroundType(groundType) },
+      })
+      sheet.pattySize = parsePattySize(value.ground.pattySize)
+    }
+
+    const organs = Array.isArray(value.organs)
+      ? value.organs
+      : isRecord(value.organs)
+        ? Object.keys(value.organs).filter(key => (value.organs as Record<string, unknown>)[key] === true)
+        : []
+    for (const organ of organs) {
+      if (typeof organ === 'string') sheet.entries.push(rawEntry(organ, null, {}))
+    }
+
+    if (Array.isArray(value.sausages)) {
+      for (const sausage of value.sausages) {
+        if (!isRecord(sausage)) continue
+        const flavor = stringOrNull(sausage.flavor)
+        if (flavor) sheet.entries.push(rawEntry(`${flavor} sausage`, null, { weight: sausage.pounds }))
+      }
+    }
+
+    sheets.push(finishSheet(sheet, stringOrNull(value.animal) || stringOrNull(value.animalType)))
+  })
+
+  return { sheets, errors }
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Map a free-text cut name to a schema cut, organ, ground or sausage line
+ */
+export function matchCutName(source: string, animalType: AnimalType): CutMatch {
+  const cuts = getAllCuts(animalType)
+
+  // Schema IDs, as written in JSON files or by people who know them
+  const byId = cuts.find(cut => cut.id === source.trim())
+  if (byId) return { kind: 'cut', cutId: byId.id, cutName: byId.name, score: 1, exact: true }
+
+  const normalized = normalizeName(source)
+  const candidates = getMatchCandidates(animalType)
+
+  const exact = new Set(candidates.filter(c => c.phrase === normalized).map(c => c.cutId))
+  if (exact.size === 1) {
+    const cutId = Array.from(exact)[0]
+    return { kind: 'cut', cutId, cutName: getCutById(animalType, cutId)!.name, score: 1, exact: true }
+  }
+
+  const special = matchSpecialLine(normalized)
+  if (special) return special
+
+  // Best score per cut
+  const scores = new Map<string, number>()
+  for (const candidate of candidates) {
+    const score = similarity(normalized, candidate.phrase)
+    if (score > (scores.get(candidate.cutId) || 0)) scores.set(candidate.cutId, score)
+  }
+
+  const ranked = Array.from(scores.entries())
+    .map(([cutId, score]) => ({ cutId, cutName: getCutById(animalType, cutId)!.name, score: round2(score) }))
+    .sort((a, b) => b.score - a.score)
+
+  const [best, second] = ranked
+  const ambiguous = exact.size > 1 || (second && best.score - second.score < AMBIGUOUS_MARGIN)
+  if (best && best.score >= FUZZY_THRESHOLD && !ambiguous) {
+    return { kind: 'cut', cutId: best.cutId, cutName: best.cutName, score: best.score, exact: false }
+  }
+
+  return {
+    kind: 'unmapped',
+    suggestions: ranked.filter(r => r.score >= SUGGESTION_THRESHOLD).slice(0, 3),
+  }
+}
+
+/**
+ * Point an entry at a cut chosen on the review screen
+ */
+export function resolveImportEntry(sheet: ImportedCutSheet, index: number, cutId: string | null): ImportedCutSheet {
+  return {
+    ...sheet,
+    entries: sheet.entries.map((entry, i) => {
+      if (i !== index) return entry
+      if (!cutId) return { ...entry, skip: true }
+      const cut = sheet.animalType ? getCutById(sheet.animalType, cutId) : null
+      if (!cut) return entry
+      return { ...entry, skip: false, match: { kind: 'cut', cutId: cut.id, cutName: cut.name, score: 1, exact: true } }
+    }),
+  }
+}
+
+/**
+ * Set the animal for a sheet whose animal wasn't recognised, re-matching
+ * every line against that animal's cuts
+ */
+export function setImportAnimal(sheet: ImportedCutSheet, animalType: AnimalType): ImportedCutSheet {
+  return finishSheet({ ...sheet, animalType: null, animalSource: null }, animalType)
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+/**
+ * List what needs attention before a sheet can be imported. Errors block
+ * the import; warnings are shown but don't.
+ */
+export function reviewImportedCutSheet(sheet: ImportedCutSheet): ImportReview {
+  const issues: ImportIssue[] = []
+
+  if (!sheet.animalType) {
+    issues.push({
+      severity: 'error',
+      kind: 'animal',
+      message: sheet.animalSource
+        ? `Unknown animal "${sheet.animalSource}"`
+        : 'No animal given for this cut sheet',
+      entries: [],
+    })
+    return { issues, selections: [], canImport: false }
+  }
+
+  const firstByCut = new Map<string, number>()
+  const selections: CutSelection[] = []
+
+  sheet.entries.forEach((entry, index) => {
+    if (entry.skip) return
+    const match = entry.match
+
+    if (match.kind === 'unmapped') {
+      const hint = match.suggestions.length > 0
+        ? ` Did you mean ${match.suggestions.map(s => `"${s.cutName}"`).join(' or ')}?`
+        : ''
+      issues.push({ severity: 'error', kind: 'unmapped', message: `"${entry.source}" doesn't match a known cut.${hint}`, entries: [index] })
+      return
+    }
+    if (match.kind !== 'cut') return
+
+    const cut = getCutById(sheet.animalType!, match.cutId)
+    if (!cut) {
+      issues.push({ severity: 'error', kind: 'unmapped', message: `"${entry.source}" isn't a ${sheet.animalType} cut`, entries: [index] })
+      return
+    }
+
+    if (!match.exact) {
+      issues.push({
+        severity: 'warning',
+        kind: 'fuzzy',
+        message: `"${entry.source}" was matched to ${match.cutName}`,
+        entries: [index],
+      })
+    }
+
+    const first = firstByCut.get(match.cutId)
+    if (first !== undefined) {
+      issues.push({
+        severity: 'warning',
+        kind: 'duplicate',
+        message: `${match.cutName} is listed more than once; only the first is kept`,
+        entries: [first, index],
+      })
+      return
+    }
+    firstByCut.set(match.cutId, index)
+    selections.push({ cutId: match.cutId })
+
+    const parameterIssue = checkParameters(entry, cut)
+    if (parameterIssue) {
+      issues.push({ severity: 'warning', kind: 'parameter', message: parameterIssue, entries: [index] })
+    }
+  })
+
+  // validateCutSheet reports each conflict from both sides; show it once
+  const validation = validateCutSheet(sheet.animalType, selections)
+  const reported = new Set<string>()
+  for (const error of validation.errors) {
+    const key = [error.cutId, error.conflictingCutId].sort().join('|')
+    if (reported.has(key)) continue
+    reported.add(key)
+    issues.push({
+      severity: 'error',
+      kind: 'conflict',
+      message: error.message,
+      entries: [error.cutId, error.conflictingCutId]
+        .map(cutId => firstByCut.get(cutId))
+        .filter((i): i is number => i !== undefined),
+    })
+  }
+  for (const warning of validation.warnings) {
+    issues.push({
+      severity: 'warning',
+      kind: 'conflict',
+      message: warning.message,
+      entries: [warning.cutId, warning.affectedCutId]
+        .map(cutId => firstByCut.get(cutId))
+        .filter((i): i is number => i !== undefined),
+    })
+  }
+
+  return {
+    issues,
+    selections,
+    canImport: !issues.some(issue => issue.severity === 'error'),
+  }
+}
+
+/**
+ * Turn a reviewed sheet into cut sheet columns, items and sausages
+ */
+export function buildCutSheetImportRecord(sheet: ImportedCutSheet): CutSheetImportRecord | null {
+  if (!sheet.animalType) return null
+
+  const organs = new Set<OrganKey>()
+  const sausages: { flavor: SausageFlavor; pounds: number }[] = []
+  const items: CutSheetImportRecord['items'] = []
+  const seen = new Set<string>()
+  let groundType: GroundType | null = null
+  let groundPackageWeight = sheet.groundPackageWeight
+
+  for (const entry of sheet.entries) {
+    if (entry.skip) continue
+    const match = entry.match
+
+    switch (match.kind) {
+      case 'organ':
+        organs.add(match.organ)
+        break
+      case 'ground':
+        groundType = groundType || match.groundType
+        groundPackageWeight = groundPackageWeight ?? entry.weightLbs
+        break
+      case 'sausage':
+        if (entry.weightLbs) sausages.push({ flavor: match.flavor, pounds: entry.weightLbs })
+        break
+      case 'cut': {
+        if (seen.has(match.cutId)) break
+        seen.add(match.cutId)
+        const cut = getCutById(sheet.animalType, match.cutId)
+        items.push({
+          cut_id: match.cutId,
+          cut_name: match.cutName,
+          cut_category: getCutCategory(cut),
+          thickness: entry.thickness,
+          weight_lbs: entry.weightLbs,
+          pieces_per_package: entry.piecesPerPackage,
+          notes: entry.notes,
+          sort_order: items.length,
+        })
+        break
+      }
+    }
+  }
+
+  return {
+    animal_type: sheet.animalType,
+    hanging_weight_lbs: sheet.hangingWeight,
+    ground_type: groundType || (sheet.pattySize ? 'patties' : null),
+    ground_package_weight_lbs: groundPackageWeight,
+    patty_size: sheet.pattySize,
+    keep_liver: organs.has('liver'),
+    keep_heart: organs.has('heart'),
+    keep_tongue: organs.has('tongue'),
+    keep_kidneys: organs.has('kidneys'),
+    keep_oxtail: organs.has('oxtail'),
+    keep_bones: organs.has('bones'),
+    special_instructions: sheet.specialInstructions,
+    items,
+    sausages,
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function emptySheet(name: string): ImportedCutSheet {
+  return {
+    name,
+    animalType: null,
+    animalSource: null,
+    hangingWeight: null,
+    entries: [],
+    groundPackageWeight: null,
+    pattySize: null,
+    specialInstructions: null,
+  }
+}
+
+function rawEntry(
+  source: string,
+  line: number | null,
+  values: { thickness?: unknown; pieces?: unknown; weight?: unknown; notes?: unknown }
+): ImportedCutEntry {
+  const pieces = parseNumber(values.pieces)
+  return {
+    source,
+    line,
+    match: { kind: 'unmapped', suggestions: [] },
+    thickness: parseThickness(values.thickness),
+    piecesPerPackage: pieces ? Math.round(pieces) : null,
+    weightLbs: parseNumber(values.weight),
+    notes: stringOrNull(values.notes),
+    skip: false,
+  }
+}
+
+// Recognise the animal and match every line not already matched
+function finishSheet(sheet: ImportedCutSheet, animal: string | AnimalType | null): ImportedCutSheet {
+  const animalType = animal ? ANIMAL_NAMES[normalizeName(animal)] || null : null
+  if (!animalType) {
+    return { ...sheet, animalType: null, animalSource: animal }
+  }
+
+  return {
+    ...sheet,
+    animalType,
+    animalSource: null,
+    entries: sheet.entries.map(entry =>
+      entry.match.kind === 'ground' ? entry : { ...entry, match: matchCutName(entry.source, animalType) }
+    ),
+  }
+}
+
+function matchSpecialLine(normalized: string): CutMatch | null {
+  const organ = ORGAN_NAMES[normalized]
+  if (organ) return { kind: 'organ', organ }
+
+  const words = normalized.split(' ')
+  const flavor = SAUSAGE_FLAVORS.find(f => {
+    const name = normalizeName(f.name)
+    const id = normalizeName(f.id.replace(/_/g, ' '))
+    return normalized === name || normalized === id || normalized === `${id} sausage` || normalized === `${name} sausage`
+  })
+  if (flavor) return { kind: 'sausage', flavor: flavor.id }
+
+  if (words.some(w => w === 'ground' || w === 'hamburger' || w === 'burger' || w === 'patty')) {
+    return { kind: 'ground', groundType: parseGroundType(normalized) }
+  }
+
+  return null
+}
+
+const candidateCache = new Map<AnimalType, { cutId: string; phrase: string }[]>()
+
+// Every phrase a cut can be matched by: its name and the pieces of it,
+// its ID, its primal plus name, and aliases
+function getMatchCandidates(animalType: AnimalType): { cutId: string; phrase: string }[] {
+  const cached = candidateCache.get(animalType)
+  if (cached) return cached
+
+  const candidates: { cutId: string; phrase: string }[] = []
+  const add = (cutId: string, phrase: string) => {
+    const normalized = normalizeName(phrase)
+    if (normalized) candidates.push({ cutId, phrase: normalized })
+  }
+
+  const animal = CUT_SHEET_SCHEMA.animals[animalType]
+  const addChoice = (cut: CutChoice, primalName: string) => {
+    add(cut.id, cut.name)
+    add(cut.id, cut.id.replace(/_/g, ' '))
+    add(cut.id, `${primalName} ${cut.name}`)
+    add(cut.id, cut.name.replace(/\(.*?\)/g, ''))
+    cut.name.split('/').forEach(part => add(cut.id, part))
+    if (cut.type === 'ground') add(cut.id, `${primalName} ground`)
+  }
+
+  for (const primal of Object.values(animal.primals)) {
+    primal.choices.forEach(cut => addChoice(cut, primal.displayName))
+    for (const sub of Object.values(primal.subSections || {})) {
+      sub.choices.forEach(cut => addChoice(cut, sub.displayName))
+    }
+  }
+  for (const [cutId, aliases] of Object.entries(CUT_ALIASES[animalType])) {
+    aliases.forEach(alias => add(cutId, alias))
+  }
+
+  candidateCache.set(animalType, candidates)
+  return candidates
+}
+
+/**
+ * Lowercase, drop punctuation and quantities, and singularise so "Rib-Eye
+ * Steaks" and "ribeye steak" compare equal after spacing is removed
+ */
+export function normalizeName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ')
+}
+
+// Best of whole-string edit distance (ignoring spaces) and word overlap
+function similarity(a: string, b: string): number {
+  const compactA = a.replace(/ /g, '')
+  const compactB = b.replace(/ /g, '')
+  if (compactA === compactB) return 1
+
+  const longest = Math.max(compactA.length, compactB.length)
+  const editScore = longest === 0 ? 0 : 1 - levenshtein(compactA, compactB) / longest
+
+  const wordsA = a.split(' ')
+  const wordsB = b.split(' ')
+  const shared = wordsA.filter(word =>
+    wordsB.some(other => other === word || (word.length >= 4 && 1 - levenshtein(word, other) / Math.max(word.length, other.length) >= 0.8))
+  ).length
+  const wordScore = (2 * shared) / (wordsA.length + wordsB.length)
+
+  return Math.max(editScore, wordScore)
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function checkParameters(entry: ImportedCutEntry, cut: CutChoice | null): string | null {
+  const thicknessOptions = cut?.parameters?.thickness?.options as (number | string)[] | undefined
+  if (entry.thickness && thicknessOptions && !thicknessOptions.some(option => String(option) === entry.thickness)) {
+    return `${cut!.name}: ${entry.thickness}" isn't a standard thickness (${thicknessOptions.join(', ')})`
+  }
+
+  const pieceOptions = cut?.parameters?.perPackage?.options
+  if (entry.piecesPerPackage && pieceOptions && !pieceOptions.includes(entry.piecesPerPackage)) {
+    return `${cut!.name}: ${entry.piecesPerPackage} per package isn't a standard option (${pieceOptions.join(', ')})`
+  }
+
+  return null
+}
+
+function getCutCategory(cut: CutChoice | null): CutCategory {
+  switch (cut?.type) {
+    case 'steak':
+    case 'chop':
+      return 'steak'
+    case 'roast':
+      return 'roast'
+    case 'ground':
+      return 'ground'
+    case 'ribs':
+      return 'ribs'
+    case 'bacon':
+      return 'bacon'
+    default:
+      return 'other'
+  }
+}
+
+/**
+ * Thickness as the builder stores it: inches as a plain number ("0.75"),
+ * or a named size ("thick") as written
+ */
+function parseThickness(value: unknown): string | null {
+  if (typeof value === 'number') return String(value)
+  const text = stringOrNull(value)
+  if (!text) return null
+
+  const cleaned = text.toLowerCase().replace(/("|''|inches|inch|in\b)/g, '').trim()
+  const mixed = cleaned.match(/^(\d+)\s+(\d+)\/(\d+)$/)
+  if (mixed) return String(Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]))
+  const fraction = cleaned.match(/^(\d+)\/(\d+)$/)
+  if (fraction) return String(Number(fraction[1]) / Number(fraction[2]))
+  if (/^\d*\.?\d+$/.test(cleaned)) return String(Number(cleaned))
+  return cleaned || null
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null
+  const text = stringOrNull(value)
+  if (!text) return null
+  const match = text.match(/\d*\.?\d+/)
+  return match ? Number(match[0]) : null
+}
+
+function parseGroundType(value: string | null): GroundType {
+  const text = (value || '').toLowerCase()
+  if (text.includes('patt')) return 'patties'
+  if (text.includes('bulk')) return 'bulk'
+  return 'vacuum'
+}
+
+function parsePattySize(value: unknown): PattySize | null {
+  const text = typeof value === 'number' ? String(value) : stringOrNull(value)
+  if (!text) return null
+  const size = PATTY_SIZE_OPTIONS.find(option => option === text.replace(/\s*lbs?$/i, ''))
+  if (size) return size
+  // Decimal pounds, e.g. 0.25
+  const pounds = Number(text)
+  return PATTY_SIZE_OPTIONS.find(option => {
+    const [n, d] = option.split('/').map(Number)
+    return Math.abs(n / d - pounds) < 0.01
+  }) || null
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may hold commas, quotes ("") and newlines
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function stringOrNull(value: unknown): string | null {
+  if (typeof value === 'number') return String(value)
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,422 @@
+/**
+ * Cut Sheet PDF
+ *
+ * Renders a submitted cut sheet as a Letter-size PDF laid out like the
+ * paper sheets processors keep on the cutting table: order header, cuts by
+ * primal with a check box each, then ground, sausage, organs and notes.
+ * Processor changes are marked inline so the cutter sees what differs from
+ * what the customer asked for.
+ *
+ * Built from the same data the cut sheet viewer uses.
+ */
+
+import type { AnimalType } from '@/types/database'
+import { groupCutsByPrimal, getCutDisplayName } from './cut-sheet-schema'
+import { SAUSAGE_FLAVORS } from './cut-sheet-data'
+import {
+  writePdf,
+  textOp,
+  estimateTextWidth,
+  fitText,
+  wrapText,
+  pdfNumber as num,
+  POINTS_PER_INCH,
+  type PdfFont,
+  type PdfPage,
+} from './pdf'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CutSheetPdfItem {
+  cut_id: string
+  cut_name: string
+  thickness: string | null
+  weight_lbs: number | null
+  pieces_per_package: number | null
+  notes: string | null
+}
+
+export interface CutSheetPdfSource {
+  animal_type: AnimalType
+  hanging_weight_lbs: number | null
+  ground_type: string | null
+  ground_package_weight_lbs: number | null
+  patty_size: string | null
+  keep_liver: boolean
+  keep_heart: boolean
+  keep_tongue: boolean
+  keep_kidneys: boolean
+  keep_oxtail: boolean
+  keep_bones: boolean
+  special_instructions: string | null
+  processor_notes?: string | null
+  processor_modifications?: Record<string, { thickness?: string; pieces_per_package?: number; notes?: string }> | null
+  removed_cuts?: { cut_id: string; cut_name: string; reason: string }[] | null
+  added_cuts?: { cut_id: string; cut_name: string; params: { thickness?: string; pieces_per_package?: number; notes?: string } }[] | null
+  cut_sheet_items: CutSheetPdfItem[]
+  cut_sheet_sausages?: { flavor: string; pounds: number }[] | null
+}
+
+export interface CutSheetPdfOrder {
+  order_number: number
+  producer_name: string
+  processor_name?: string | null
+  tracking_id?: string | null
+  livestock_tag?: string | null
+  livestock_name?: string | null
+  drop_off_date?: string | null       // ISO date or timestamp
+  hanging_weight_lbs?: number | null  // Order hanging weight; falls back to the cut sheet's
+}
+
+export type CutChangeMark = 'modified' | 'removed' | 'added'
+
+export interface PrintedCut {
+  name: string
+  details: string[]                   // Thickness, pieces per package, roast size
+  notes: string | null
+  mark: CutChangeMark | null
+  change: string | null               // What the processor changed, or why it was removed
+}
+
+export interface PrintedPrimal {
+  primalName: string
+  cuts: PrintedCut[]
+}
+
+export interface PrintedSection {
+  title: string
+  lines: string[]
+}
+
+export interface CutSheetPrintout {
+  title: string
+  header: { label: string; value: string }[]
+  primals: PrintedPrimal[]
+  sections: PrintedSection[]
+}
+
+const ANIMAL_LABELS: Record<AnimalType, string> = {
+  beef: 'Beef',
+  pork: 'Pork',
+  lamb: 'Lamb',
+  goat: 'Goat',
+}
+
+const MARK_LABELS: Record<CutChangeMark, string> = {
+  modified: 'CHANGED',
+  removed: 'REMOVED',
+  added: 'ADDED',
+}
+
+const PAGE_WIDTH = 8.5 * POINTS_PER_INCH
+const PAGE_HEIGHT = 11 * POINTS_PER_INCH
+const MARGIN = 40
+const FOOTER_HEIGHT = 20
+
+// ============================================================================
+// Printout
+// ============================================================================
+
+/**
+ * Arrange a cut sheet into what gets printed. Removed cuts stay in place
+ * (struck through) and added cuts join their primal, so the printout
+ * follows the customer's sheet.
+ */
+export function buildCutSheetPrintout(cutSheet: CutSheetPdfSource, order: CutSheetPdfOrder): CutSheetPrintout {
+  const animalType = cutSheet.animal_type
+  const modifications = cutSheet.processor_modifications || {}
+  const removed = new Map((cutSheet.removed_cuts || []).map(r => [r.cut_id, r]))
+  const added = (cutSheet.added_cuts || [])
+    .filter(a => !cutSheet.cut_sheet_items.some(item => item.cut_id === a.cut_id))
+
+  const rows: (CutSheetPdfItem & { printed: PrintedCut })[] = [
+    ...cutSheet.cut_sheet_items.map(item => ({ ...item, printed: printItem(item, animalType, modifications, removed) })),
+    ...added.map(a => {
+      const item: CutSheetPdfItem = {
+        cut_id: a.cut_id,
+        cut_name: a.cut_name,
+        thickness: a.params.thickness || null,
+        weight_lbs: null,
+        pieces_per_package: a.params.pieces_per_package || null,
+        notes: a.params.notes || null,
+      }
+      return {
+        ...item,
+        printed: {
+          name: a.cut_name || getCutDisplayName(a.cut_id, animalType),
+          details: describeCut(item),
+          notes: item.notes,
+          mark: 'added' as const,
+          change: 'Added by processor',
+        },
+      }
+    }),
+  ]
+
+  const primals = Object.values(groupCutsByPrimal(rows, animalType)).map(group => ({
+    primalName: group.primalName,
+    cuts: group.cuts.map(row => row.printed),
+  }))
+
+  const hangingWeight = order.hanging_weight_lbs ?? cutSheet.hanging_weight_lbs
+  const animal = [
+    ANIMAL_LABELS[animalType],
+    order.livestock_tag && `Tag #${order.livestock_tag}`,
+    order.livestock_name && `"${order.livestock_name}"`,
+  ].filter(Boolean).join(' ')
+
+  const header = [
+    { label: 'Order', value: `#${order.order_number}` },
+    { label: 'Producer', value: order.producer_name },
+    { label: 'Animal', value: animal },
+    { label: 'Tracking ID', value: order.tracking_id || '' },
+    { label: 'Drop-off', value: order.drop_off_date ? formatDate(order.drop_off_date) : '' },
+    { label: 'Hanging Weight', value: hangingWeight ? `${hangingWeight} lbs` : '' },
+  ]
+  if (order.processor_name) header.push({ label: 'Processor', value: order.processor_name })
+
+  return {
+    title: `Cut Sheet - Order #${order.order_number}`,
+    header,
+    primals,
+    sections: buildSections(cutSheet),
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a cut sheet as a PDF document
+ */
+export function renderCutSheetPdf(cutSheet: CutSheetPdfSource, order: CutSheetPdfOrder): string {
+  return renderPrintoutPdf(buildCutSheetPrintout(cutSheet, order))
+}
+
+export function renderPrintoutPdf(printout: CutSheetPrintout): string {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2
+  const bottom = MARGIN + FOOTER_HEIGHT
+  const pages: string[][] = []
+  let ops: string[] = []
+  let y = 0
+
+  const newPage = () => {
+    ops = []
+    pages.push(ops)
+    y = PAGE_HEIGHT - MARGIN
+  }
+  const ensureSpace = (height: number) => {
+    if (y - height < bottom) newPage()
+  }
+  const text = (value: string, font: PdfFont, size: number, x: number) => {
+    ops.push(textOp(value, font, size, x, y))
+  }
+
+  newPage()
+
+  // Title and header fields, two per row
+  y -= 18
+  text(printout.title, 'F2', 18, MARGIN)
+  y -= 14
+
+  const columnWidth = contentWidth / 2
+  for (let i = 0; i < printout.header.length; i += 2) {
+    y -= 14
+    printout.header.slice(i, i + 2).forEach((field, column) => {
+      const x = MARGIN + column * columnWidth
+      text(`${field.label}:`, 'F2', 10, x)
+      const labelWidth = estimateTextWidth(`${field.label}: `, 10, 'F2')
+      text(fitText(field.value || '-', columnWidth - labelWidth - 8, 10, 'F1'), 'F1', 10, x + labelWidth)
+    })
+  }
+  y -= 8
+  ops.push(`${num(MARGIN)} ${num(y)} m ${num(PAGE_WIDTH - MARGIN)} ${num(y)} l S`)
+
+  const heading = (title: string) => {
+    ensureSpace(40)
+    y -= 22
+    text(title, 'F2', 12, MARGIN)
+    y -= 4
+    ops.push(`0.5 w ${num(MARGIN)} ${num(y)} m ${num(PAGE_WIDTH - MARGIN)} ${num(y)} l S 1 w`)
+  }
+
+  // Cuts, one check box per row
+  const boxSize = 9
+  const nameX = MARGIN + boxSize + 8
+  const detailX = MARGIN + contentWidth * 0.45
+  const wrapWidth = PAGE_WIDTH - MARGIN - nameX
+
+  for (const primal of printout.primals) {
+    heading(primal.primalName)
+
+    for (const cut of primal.cuts) {
+      const extraLines = [
+        ...(cut.change ? wrapText(cut.change, wrapWidth, 8, 'F1') : []),
+        ...(cut.notes ? wrapText(`Note: ${cut.notes}`, wrapWidth, 8, 'F1') : []),
+      ]
+      ensureSpace(16 + extraLines.length * 10)
+
+      y -= 16
+      ops.push(`${num(MARGIN)} ${num(y - 1)} ${boxSize} ${boxSize} re S`)
+
+      const markLabel = cut.mark ? `[${MARK_LABELS[cut.mark]}] ` : ''
+      const markWidth = estimateTextWidth(markLabel, 9, 'F2')
+      if (markLabel) text(markLabel, 'F2', 9, nameX)
+
+      const name = fitText(cut.name, detailX - nameX - markWidth - 6, 10, 'F2')
+      text(name, 'F2', 10, nameX + markWidth)
+      if (cut.mark === 'removed') {
+        const strikeY = y + 3.5
+        const strikeEnd = nameX + markWidth + estimateTextWidth(name, 10, 'F2')
+        ops.push(`${num(nameX + markWidth)} ${num(strikeY)} m ${num(strikeEnd)} ${num(strikeY)} l S`)
+      }
+
+      text(fitText(cut.details.join('  |  '), PAGE_WIDTH - MARGIN - detailX, 10, 'F1'), 'F1', 10, detailX)
+
+      for (const line of extraLines) {
+        y -= 10
+        text(line, 'F1', 8, nameX)
+      }
+    }
+  }
+
+  // Ground, sausage, organs and free-text notes
+  for (const section of printout.sections) {
+    heading(section.title)
+    y -= 2
+    for (const line of section.lines.flatMap(l => wrapText(l, contentWidth, 10, 'F1'))) {
+      ensureSpace(14)
+      y -= 14
+      text(line, 'F1', 10, MARGIN)
+    }
+  }
+
+  return writePdf(pages.map((pageOps, index): PdfPage => {
+    const footer = `${printout.title} - Page ${index + 1} of ${pages.length}`
+    const footerX = PAGE_WIDTH - MARGIN - estimateTextWidth(footer, 8, 'F1')
+    return {
+      width: PAGE_WIDTH,
+      height: PAGE_HEIGHT,
+      content: [...pageOps, textOp(footer, 'F1', 8, footerX, MARGIN)].join('\n'),
+    }
+  }))
+}
+
+/**
+ * File name for downloads and email attachments
+ */
+export function getCutSheetPdfFilename(orderNumber: number): string {
+  return `cutsheet-order-${orderNumber}.pdf`
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function printItem(
+  item: CutSheetPdfItem,
+  animalType: AnimalType,
+  modifications: NonNullable<CutSheetPdfSource['processor_modifications']>,
+  removed: Map<string, { reason: string }>
+): PrintedCut {
+  const name = item.cut_name || getCutDisplayName(item.cut_id, animalType)
+  const removal = removed.get(item.cut_id)
+  if (removal) {
+    return {
+      name,
+      details: describeCut(item),
+      notes: item.notes,
+      mark: 'removed',
+      change: removal.reason ? `Removed by processor: ${removal.reason}` : 'Removed by processor',
+    }
+  }
+
+  const modification = modifications[item.cut_id]
+  if (!modification) {
+    return { name, details: describeCut(item), notes: item.notes, mark: null, change: null }
+  }
+
+  const changes: string[] = []
+  if (modification.thickness && modification.thickness !== item.thickness) {
+    changes.push(`thickness was ${item.thickness ? formatThickness(item.thickness) : 'not set'}`)
+  }
+  if (modification.pieces_per_package && modification.pieces_per_package !== item.pieces_per_package) {
+    changes.push(`pieces per package was ${item.pieces_per_package ?? 'not set'}`)
+  }
+  if (modification.notes) changes.push(`processor note: ${modification.notes}`)
+
+  return {
+    name,
+    details: describeCut({
+      ...item,
+      thickness: modification.thickness ?? item.thickness,
+      pieces_per_package: modification.pieces_per_package ?? item.pieces_per_package,
+    }),
+    notes: item.notes,
+    mark: changes.length > 0 ? 'modified' : null,
+    change: changes.length > 0 ? `Changed by processor: ${changes.join('; ')}` : null,
+  }
+}
+
+function describeCut(item: CutSheetPdfItem): string[] {
+  const details: string[] = []
+  if (item.thickness) details.push(formatThickness(item.thickness))
+  if (item.weight_lbs) details.push(`${item.weight_lbs} lb`)
+  if (item.pieces_per_package) details.push(`${item.pieces_per_package}/pkg`)
+  return details
+}
+
+function buildSections(cutSheet: CutSheetPdfSource): PrintedSection[] {
+  const sections: PrintedSection[] = []
+
+  if (cutSheet.ground_type) {
+    const lines = [`Type: ${cutSheet.ground_type}`]
+    if (cutSheet.ground_package_weight_lbs) lines.push(`Package weight: ${cutSheet.ground_package_weight_lbs} lbs`)
+    if (cutSheet.patty_size) lines.push(`Patty size: ${cutSheet.patty_size} lb`)
+    sections.push({ title: 'Ground Meat', lines })
+  }
+
+  const sausages = cutSheet.cut_sheet_sausages || []
+  if (sausages.length > 0) {
+    sections.push({
+      title: 'Sausage',
+      lines: sausages.map(s => {
+        const flavor = SAUSAGE_FLAVORS.find(f => f.id === s.flavor)?.name || s.flavor
+        return `${flavor}: ${s.pounds} lbs`
+      }),
+    })
+  }
+
+  const organs = [
+    cutSheet.keep_liver && 'Liver',
+    cutSheet.keep_heart && 'Heart',
+    cutSheet.keep_tongue && 'Tongue',
+    cutSheet.keep_kidneys && 'Kidneys',
+    cutSheet.keep_oxtail && 'Oxtail',
+    cutSheet.keep_bones && 'Bones',
+  ].filter((organ): organ is string => !!organ)
+  sections.push({ title: 'Keep', lines: [organs.length > 0 ? organs.join(', ') : 'None'] })
+
+  if (cutSheet.special_instructions) {
+    sections.push({ title: 'Special Instructions', lines: [cutSheet.special_instructions] })
+  }
+  if (cutSheet.processor_notes) {
+    sections.push({ title: 'Processor Notes', lines: [cutSheet.processor_notes] })
+  }
+
+  return sections
+}
+
+// Bare numbers are inches
+function formatThickness(thickness: string): string {
+  return /^\d+(\.\d+)?$/.test(thickness.trim()) ? `${thickness.trim()}"` : thickness
+}
+
+function formatDate(date: string): string {
+  const d = new Date(date.length === 10 ? `${date}T00:00:00Z` : date)
+  if (isNaN(d.getTime())) return date
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+}
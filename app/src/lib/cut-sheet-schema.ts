@@ -909,3 +909,48 @@ export function getPrimalForCut(animalType: AnimalType, cutId: string): { primal
 
   return null
 }
+
+/**
+ * Group cut sheet items by primal, in the order they appear. Cuts that
+ * aren't in the schema go under 'other'.
+ */
+export function groupCutsByPrimal<T extends { cut_id: string }>(
+  items: T[],
+  animalType: AnimalType
+): Record<string, { primalId: string; primalName: string; cuts: T[] }> {
+  const schema = CUT_SHEET_SCHEMA.animals[animalType]
+  const grouped: Record<string, { primalId: string; primalName: string; cuts: T[] }> = {}
+  const cutToPrimal: Record<string, string> = {}
+
+  for (const [primalId, primal] of Object.entries(schema.primals)) {
+    for (const cut of primal.choices) {
+      cutToPrimal[cut.id] = primalId
+    }
+    if (primal.subSections) {
+      for (const sub of Object.values(primal.subSections)) {
+        for (const cut of sub.choices) {
+          cutToPrimal[cut.id] = primalId
+        }
+      }
+    }
+  }
+
+  for (const item of items) {
+    const primalId = cutToPrimal[item.cut_id] || 'other'
+    const primalName = schema.primals[primalId]?.displayName || 'Other Cuts'
+
+    if (!grouped[primalId]) {
+      grouped[primalId] = { primalId, primalName, cuts: [] }
+    }
+    grouped[primalId].cuts.push(item)
+  }
+
+  return grouped
+}
+
+/**
+ * Display name for a cut, falling back to a title-cased cut ID
+ */
+export function getCutDisplayName(cutId: string, animalType: AnimalType): string {
+  return getCutById(animalType, cutId)?.name || cutId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+}
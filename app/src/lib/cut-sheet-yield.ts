@@ -0,0 +1,579 @@
+/**
+ * Cut Sheet Yield Engine
+ *
+ * Projects pounds and package counts for each selected cut from a hanging weight.
+ * Works on the primal-based schema: take-home meat is divided between primals,
+ * each primal's meat is divided between its selected cuts (honoring split
+ * allocations and yield relationships), and cut parameters turn pounds into
+ * pieces and packages.
+ *
+ * Like the validation engine this is a pure function with no side effects.
+ * Figures are estimates - the cut sheet is instructions, not a guaranteed
+ * shopping list (see cutsheet/logic/cut-sheet-split-analysis.md).
+ */
+
+import type { AnimalType, GroundType, PattySize } from '@/types/database'
+import {
+  CUT_SHEET_SCHEMA,
+  type CutChoice,
+  type CutType,
+  type Primal,
+} from './cut-sheet-schema'
+import type { CutSelection } from './cut-sheet-validation'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Tunable yield figures for one species.
+ * Primal and trim shares are percentages of take-home meat and sum to 100.
+ */
+export interface SpeciesYieldProfile {
+  takeHomePercent: { min: number; max: number }
+
+  // Share of take-home meat from each primal (by schema primal ID)
+  primalPercents: Record<string, number>
+  // Neck, shank and plate trim that always goes to ground
+  trimPercent: number
+  // How a primal's meat divides between its sub-sections (fractions summing to 1)
+  subSectionShares: Record<string, Record<string, number>>
+
+  // Fixed fraction of a primal taken by co-product cuts
+  // (independent muscles, reducesYield cuts, required pairs). Calibration
+  // adds learned shares for other cuts, which weight an unsplit primal.
+  cutShares: Record<string, number>
+  defaultCutShare: number
+
+  // Piece sizing
+  steakLbsPerInch: number
+  cutLbsPerInch: Record<string, number>
+  pieceWeights: Record<string, number>     // Fixed piece weight for cuts without thickness
+  wholePieces: Record<string, number>      // Cuts that come out as a fixed number of pieces
+  roastLbs: number
+  roastLbsPerRib: number
+  typePackageLbs: Partial<Record<CutType, number>>
+
+  pattiesPerPackage: number
+}
+
+export interface YieldInput {
+  animalType: AnimalType
+  hangingWeight: number | null
+  selectedCuts: CutSelection[]
+  cutParameters?: Record<string, Record<string, unknown>>
+  splitAllocations?: Record<string, Record<string, number>>
+  groundType?: GroundType | null
+  groundPackageWeight?: number | null
+  pattySize?: PattySize | null
+  sausages?: { flavor: string; pounds: number }[]
+}
+
+export interface CutYieldProjection {
+  cutId: string
+  cutName: string
+  primalId: string
+  type: CutType
+  pounds: number
+  pieces: number
+  perPackage: number
+  packages: number
+  thickness: number | string | null
+}
+
+export interface GroundYieldProjection {
+  pounds: number
+  packageSize: number
+  packages: number
+  patties: { size: PattySize; count: number; packages: number } | null
+}
+
+export interface SausageYieldProjection {
+  flavor: string
+  pounds: number
+  packages: number
+}
+
+export interface YieldProjection {
+  animalType: AnimalType
+  hangingWeight: number
+  takeHomePounds: number
+  takeHomeRange: { min: number; max: number }
+  cuts: CutYieldProjection[]
+  ground: GroundYieldProjection
+  sausages: SausageYieldProjection[]
+  totalPackages: number
+}
+
+// ============================================================================
+// Species Profiles
+// ============================================================================
+
+const BEEF_PROFILE: SpeciesYieldProfile = {
+  takeHomePercent: { min: 60, max: 65 },
+  primalPercents: {
+    chuck: 28,
+    rib: 9,
+    shortLoin: 8,
+    sirloin: 8,
+    round: 22,
+    brisket: 5,
+    shortRibs: 5,
+    flank: 3,
+    skirt: 2,
+  },
+  trimPercent: 10,
+  subSectionShares: {
+    round: { topRound: 0.35, bottomRound: 0.3, eyeRound: 0.1, sirloinTip: 0.25 },
+  },
+  cutShares: {
+    nystrip: 0.65,
+    filet: 0.35,
+    tritip: 0.2,
+    picanha: 0.15,
+  },
+  defaultCutShare: 0.2,
+  steakLbsPerInch: 1,
+  cutLbsPerInch: {
+    filet: 0.5,
+    nystrip: 0.8,
+    tbone: 1.2,
+    porterhouse: 1.4,
+    ribeye: 1,
+    chuck_steak: 0.9,
+    denver_steak: 0.5,
+    flat_iron: 0.6,
+    sirloin_steak: 1,
+  },
+  pieceWeights: {
+    flank_steak: 1.5,
+    skirt_steak: 1,
+    cube_steak: 0.33,
+    london_broil: 2,
+    top_round_steak: 0.75,
+    eye_round_steak: 0.33,
+    sirloin_tip_steak: 0.6,
+  },
+  wholePieces: {
+    whole_brisket: 2,
+    split_brisket: 4,
+    corned_beef: 2,
+  },
+  roastLbs: 3,
+  roastLbsPerRib: 2.5,
+  typePackageLbs: { ribs: 2.5, shank: 2, cubed: 1, meat: 1, cured: 3 },
+  pattiesPerPackage: 4,
+}
+
+const PORK_PROFILE: SpeciesYieldProfile = {
+  takeHomePercent: { min: 68, max: 75 },
+  primalPercents: {
+    loin: 26,
+    ham: 28,
+    shoulder: 26,
+    belly: 14,
+  },
+  trimPercent: 6,
+  subSectionShares: {
+    shoulder: { bostonButt: 0.55, picnicShoulder: 0.45 },
+  },
+  cutShares: {
+    tenderloin: 0.1,
+    baby_back_ribs: 0.15,
+    ham_steaks: 0.3,
+    spare_ribs: 0.3,
+  },
+  defaultCutShare: 0.2,
+  steakLbsPerInch: 0.5,
+  cutLbsPerInch: {
+    pork_chops: 0.5,
+  },
+  pieceWeights: {
+    boston_butt_steaks: 0.75,
+    ham_steaks: 1,
+  },
+  wholePieces: {
+    loin_roast_whole: 2,
+    boston_butt_whole: 2,
+    tenderloin: 2,
+  },
+  roastLbs: 3,
+  roastLbsPerRib: 1,
+  typePackageLbs: { ribs: 2.5, shank: 1.5, cubed: 1, meat: 1, cured: 1 },
+  pattiesPerPackage: 4,
+}
+
+const LAMB_PROFILE: SpeciesYieldProfile = {
+  takeHomePercent: { min: 70, max: 78 },
+  primalPercents: {
+    rack: 9,
+    loin: 12,
+    leg: 34,
+    shoulder: 30,
+    breast: 7,
+  },
+  trimPercent: 8,
+  subSectionShares: {},
+  cutShares: {
+    leg_steaks: 0.3,
+  },
+  defaultCutShare: 0.2,
+  steakLbsPerInch: 0.25,
+  cutLbsPerInch: {
+    loin_chops: 0.3,
+  },
+  pieceWeights: {
+    rib_chops: 0.2,
+    lamb_lollipops: 0.15,
+    shoulder_chops: 0.4,
+    leg_steaks: 0.5,
+  },
+  wholePieces: {
+    whole_rack: 2,
+    crown_roast: 1,
+    saddle: 1,
+    whole_leg: 2,
+    butterflied_leg: 2,
+    shoulder_roast: 2,
+  },
+  roastLbs: 2.5,
+  roastLbsPerRib: 0.5,
+  typePackageLbs: { ribs: 1.5, shank: 1, cubed: 1, meat: 1, cured: 1 },
+  pattiesPerPackage: 4,
+}
+
+const GOAT_PROFILE: SpeciesYieldProfile = {
+  takeHomePercent: { min: 65, max: 75 },
+  primalPercents: {
+    rack: 8,
+    loin: 12,
+    leg: 35,
+    shoulder: 33,
+    shank: 6,
+  },
+  trimPercent: 6,
+  subSectionShares: {},
+  cutShares: {},
+  defaultCutShare: 0.2,
+  steakLbsPerInch: 0.2,
+  cutLbsPerInch: {
+    loin_chops: 0.25,
+  },
+  pieceWeights: {
+    rib_chops: 0.15,
+    shoulder_chops: 0.35,
+    leg_steaks: 0.4,
+  },
+  wholePieces: {
+    whole_rack: 2,
+    whole_leg: 2,
+    whole_shank: 4,
+  },
+  roastLbs: 2,
+  roastLbsPerRib: 0.4,
+  typePackageLbs: { ribs: 1.5, shank: 1, cubed: 1, meat: 1, cured: 1 },
+  pattiesPerPackage: 4,
+}
+
+/**
+ * Default yield profiles by species. Callers can pass their own profile
+ * (e.g. one calibrated from a processor's real packages) instead.
+ */
+export const YIELD_PROFILES: Record<AnimalType, SpeciesYieldProfile> = {
+  beef: BEEF_PROFILE,
+  pork: PORK_PROFILE,
+  lamb: LAMB_PROFILE,
+  goat: GOAT_PROFILE,
+}
+
+// Cut types that are sold by the piece (pieces derived from thickness/weight)
+const PIECE_TYPES = new Set<CutType>(['steak', 'chop', 'roast'])
+
+const PATTY_SIZE_LBS: Record<PattySize, number> = {
+  '1/4': 0.25,
+  '1/3': 0.33,
+  '1/2': 0.5,
+}
+
+// ============================================================================
+// Main Projection Function
+// ============================================================================
+
+/**
+ * Projects pounds and package counts for every selected cut.
+ * Returns null when there is no hanging weight to work from.
+ */
+export function projectCutSheetYield(
+  input: YieldInput,
+  profile: SpeciesYieldProfile = YIELD_PROFILES[input.animalType]
+): YieldProjection | null {
+  const animal = CUT_SHEET_SCHEMA.animals[input.animalType]
+  if (!animal || !input.hangingWeight || input.hangingWeight <= 0) return null
+
+  const hangingWeight = input.hangingWeight
+  const takeHomeRange = {
+    min: hangingWeight * profile.takeHomePercent.min / 100,
+    max: hangingWeight * profile.takeHomePercent.max / 100,
+  }
+  const takeHomePounds = (takeHomeRange.min + takeHomeRange.max) / 2
+
+  const selectedIds = new Set(input.selectedCuts.map(s => s.cutId))
+  const selectionParams = new Map(input.selectedCuts.map(s => [s.cutId, s.parameters || {}]))
+
+  const cuts: CutYieldProjection[] = []
+  let groundPounds = takeHomePounds * profile.trimPercent / 100
+
+  for (const [primalId, primal] of Object.entries(animal.primals)) {
+    const primalPounds = takeHomePounds * (profile.primalPercents[primalId] || 0) / 100
+    const splits = input.splitAllocations?.[primalId]
+
+    // Each sub-section is allocated like its own primal
+    const units: { primal: Primal; pounds: number }[] = primal.subSections
+      ? Object.entries(primal.subSections).map(([subId, sub]) => ({
+          primal: sub,
+          pounds: primalPounds * subSectionShare(profile, primalId, subId, primal),
+        }))
+      : [{ primal, pounds: primalPounds }]
+
+    for (const unit of units) {
+      const selected = unit.primal.choices.filter(c => selectedIds.has(c.id))
+      const allocation = allocatePrimal(unit.primal, selected, unit.pounds, profile, splits)
+
+      groundPounds += allocation.unallocated
+
+      for (const [cut, pounds] of allocation.cuts) {
+        if (cut.type === 'ground') {
+          groundPounds += pounds
+          continue
+        }
+
+        const params = {
+          ...(selectionParams.get(cut.id) || {}),
+          ...(input.cutParameters?.[cut.id] || {}),
+        }
+        cuts.push(projectCut(cut, primalId, pounds, params, profile))
+      }
+    }
+  }
+
+  // Sausage is made from ground pork
+  const sausages: SausageYieldProjection[] = []
+  for (const sausage of input.sausages || []) {
+    const pounds = Math.min(sausage.pounds, groundPounds)
+    if (pounds <= 0) continue
+    groundPounds -= pounds
+    sausages.push({ flavor: sausage.flavor, pounds: round1(pounds), packages: Math.ceil(pounds) })
+  }
+
+  const ground = projectGround(animal.groundOptions?.parameters.packageSize.default ?? 1, groundPounds, input, profile)
+
+  const totalPackages =
+    cuts.reduce((sum, c) => sum + c.packages, 0) +
+    ground.packages +
+    (ground.patties?.packages || 0) +
+    sausages.reduce((sum, s) => sum + s.packages, 0)
+
+  return {
+    animalType: input.animalType,
+    hangingWeight,
+    takeHomePounds: Math.round(takeHomePounds),
+    takeHomeRange: { min: Math.round(takeHomeRange.min), max: Math.round(takeHomeRange.max) },
+    cuts,
+    ground,
+    sausages,
+    totalPackages,
+  }
+}
+
+/**
+ * Human-readable summary for a single cut,
+ * e.g. `~14 packages of 1" Rib-Eye Steaks, 2 per pack`
+ */
+export function formatCutYield(cut: CutYieldProjection): string {
+  const thickness = typeof cut.thickness === 'number' ? `${cut.thickness}" ` : ''
+  const packages = `~${cut.packages} ${cut.packages === 1 ? 'package' : 'packages'}`
+  const perPack = cut.perPackage > 1 ? `, ${cut.perPackage} per pack` : ''
+  return `${packages} of ${thickness}${cut.cutName}${perPack}`
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function subSectionShare(
+  profile: SpeciesYieldProfile,
+  primalId: string,
+  subId: string,
+  primal: Primal
+): number {
+  const share = profile.subSectionShares[primalId]?.[subId]
+  if (share !== undefined) return share
+  return 1 / Object.keys(primal.subSections || {}).length
+}
+
+/**
+ * Divide a primal's meat between its selected cuts.
+ *
+ * Co-product cuts (independent muscles, reducesYield cuts and required pairs)
+ * take a fixed share off the top. What remains is split between the other
+ * cuts by the producer's split allocation, by their cut shares when every
+ * one has a share, or evenly - so soft conflicts
+ * (conflictsWith) share the meat rather than each getting all of it.
+ * Anything not claimed by a cut goes to ground.
+ */
+function allocatePrimal(
+  primal: Primal,
+  selected: CutChoice[],
+  pounds: number,
+  profile: SpeciesYieldProfile,
+  splits?: Record<string, number>
+): { cuts: [CutChoice, number][]; unallocated: number } {
+  if (selected.length === 0) {
+    return { cuts: [], unallocated: pounds }
+  }
+
+  const isCoProduct = (cut: CutChoice) =>
+    Boolean(cut.independent || cut.reducesYield || cut.requires?.length)
+
+  const result: [CutChoice, number][] = []
+  let remaining = pounds
+
+  for (const cut of selected.filter(isCoProduct)) {
+    const share = Math.min(profile.cutShares[cut.id] ?? profile.defaultCutShare, 1)
+    const cutPounds = Math.min(pounds * share, remaining)
+    result.push([cut, cutPounds])
+    remaining -= cutPounds
+  }
+
+  const main = selected.filter(c => !isCoProduct(c))
+  if (main.length === 0) {
+    return { cuts: result, unallocated: remaining }
+  }
+
+  // Without a split from the producer, known shares (learned at the processor) weight the cuts
+  const useShares = main.every(cut => splits?.[cut.id] === undefined && cut.id in profile.cutShares)
+  const weights = main.map(cut => {
+    const allocation = splits?.[cut.id]
+    if (main.length === 1) return 1
+    if (useShares) return profile.cutShares[cut.id]
+    return allocation !== undefined ? allocation : 1
+  })
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+
+  main.forEach((cut, i) => {
+    result.push([cut, totalWeight > 0 ? remaining * weights[i] / totalWeight : 0])
+  })
+
+  return { cuts: result, unallocated: 0 }
+}
+
+/**
+ * Turn a cut's pounds into pieces and packages using its parameters.
+ */
+function projectCut(
+  cut: CutChoice,
+  primalId: string,
+  pounds: number,
+  params: Record<string, unknown>,
+  profile: SpeciesYieldProfile
+): CutYieldProjection {
+  const thickness = readParam(params.thickness, cut.parameters?.thickness?.default)
+  const perPackage = Math.max(1, Number(readParam(params.perPackage, cut.parameters?.perPackage?.default) ?? 1))
+
+  let pieces: number
+  let packages: number
+
+  if (cut.id in profile.wholePieces || params.keepWhole === true) {
+    pieces = profile.wholePieces[cut.id] ?? 1
+    packages = pieces
+  } else if (PIECE_TYPES.has(cut.type)) {
+    const pieceWeight = getPieceWeight(cut, thickness, params, pounds, profile)
+    pieces = Math.max(1, Math.round(pounds / pieceWeight))
+    packages = Math.ceil(pieces / perPackage)
+  } else {
+    const packageLbs = Number(readParam(params.packageSize, cut.parameters?.packageSize?.default)) ||
+      profile.typePackageLbs[cut.type] || 1
+    pieces = Math.max(1, Math.round(pounds / packageLbs))
+    packages = pieces
+  }
+
+  return {
+    cutId: cut.id,
+    cutName: cut.name,
+    primalId,
+    type: cut.type,
+    pounds: round1(pounds),
+    pieces,
+    perPackage: PIECE_TYPES.has(cut.type) ? perPackage : 1,
+    packages,
+    thickness: typeof thickness === 'number' || typeof thickness === 'string' ? thickness : null,
+  }
+}
+
+function getPieceWeight(
+  cut: CutChoice,
+  thickness: number | string | undefined,
+  params: Record<string, unknown>,
+  pounds: number,
+  profile: SpeciesYieldProfile
+): number {
+  if (cut.type === 'roast') {
+    const weight = Number(readParam(params.weight, cut.parameters?.weight?.default))
+    if (weight > 0) return weight
+
+    const size = readParam(params.size, cut.parameters?.size?.default)
+    if (size === 'whole') return pounds
+    const ribs = typeof size === 'string' ? parseInt(size, 10) : NaN
+    if (ribs > 0) return ribs * profile.roastLbsPerRib
+
+    return profile.pieceWeights[cut.id] ?? profile.roastLbs
+  }
+
+  if (typeof thickness === 'number') {
+    return thickness * (profile.cutLbsPerInch[cut.id] ?? profile.steakLbsPerInch)
+  }
+
+  return profile.pieceWeights[cut.id] ?? profile.steakLbsPerInch
+}
+
+function projectGround(
+  defaultPackageSize: number,
+  pounds: number,
+  input: YieldInput,
+  profile: SpeciesYieldProfile
+): GroundYieldProjection {
+  const packageSize = input.groundPackageWeight || defaultPackageSize
+
+  if (input.groundType === 'patties' && pounds > 0) {
+    const size = input.pattySize || '1/4'
+    const count = Math.floor(pounds / PATTY_SIZE_LBS[size])
+    return {
+      pounds: round1(pounds),
+      packageSize,
+      packages: 0,
+      patties: { size, count, packages: Math.ceil(count / profile.pattiesPerPackage) },
+    }
+  }
+
+  return {
+    pounds: round1(pounds),
+    packageSize,
+    packages: Math.ceil(pounds / packageSize),
+    patties: null,
+  }
+}
+
+// Parameters come from <select> values, so numbers may arrive as strings
+function readParam(value: unknown, fallback: number | string | undefined): number | string | undefined {
+  const raw = value ?? fallback
+  if (typeof raw === 'number') return raw
+  if (typeof raw === 'string') {
+    const parsed = Number(raw)
+    return raw.trim() !== '' && !Number.isNaN(parsed) ? parsed : raw
+  }
+  return undefined
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
@@ -0,0 +1,462 @@
+/**
+ * Email Replies
+ *
+ * Notification emails about a message or an order carry a Reply-To address
+ * unique to the conversation and the recipient:
+ *
+ *   r-<kind><target id>-<signature>@<INBOUND_EMAIL_DOMAIN>
+ *
+ * kind is t (order thread), o (order - replies go to its thread) or c (the
+ * general conversation with an organization), the id is the target's UUID
+ * without dashes and the signature is an HMAC of the target and the
+ * recipient's user id. The address doesn't name the user: a reply is
+ * accepted only from the email of the user it was signed for, and only when
+ * the sending domain vouches for that address (DMARC, or SPF/DKIM aligned
+ * with the From domain) - so forwarding the address, or forging the From
+ * line, gets nothing posted.
+ *
+ * The email provider posts inbound mail to /api/email/inbound in its own
+ * format (Resend or SendGrid Inbound Parse, or the stub format for local
+ * testing); each is normalized to an InboundEmail here. Quoted history and
+ * signatures are stripped before the reply is posted.
+ *
+ * Pure functions only - lib/email-reply-handler.ts posts the reply.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReplyTargetKind = 'thread' | 'order' | 'conversation'
+
+export interface ReplyTarget {
+  kind: ReplyTargetKind
+  id: string
+}
+
+export interface InboundAttachment {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+export type AuthResult = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'temperror' | 'permerror'
+
+// What the receiving server found when checking the sender
+export interface InboundAuth {
+  dmarc: AuthResult | null
+  spf: AuthResult | null
+  spfDomain: string | null        // envelope sender's domain
+  dkim: { domain: string; result: AuthResult }[]
+}
+
+export interface InboundEmail {
+  messageId: string | null
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  attachments: InboundAttachment[]
+  auth: InboundAuth
+}
+
+export type InboundRejection =
+  | 'no_reply_address'    // not sent to a reply address
+  | 'bad_signature'       // address forged, or not issued to this sender
+  | 'unknown_sender'      // From isn't an active user
+  | 'spoofed_sender'      // the sending domain doesn't vouch for From
+  | 'not_a_participant'   // sender's organization isn't in the conversation
+  | 'empty_reply'         // nothing left after stripping quotes
+  | 'duplicate'           // the same email delivered again
+
+export const REPLY_ABOVE_LINE = '## Reply above this line ##'
+
+const KIND_CODES: Record<ReplyTargetKind, string> = {
+  thread: 't',
+  order: 'o',
+  conversation: 'c',
+}
+
+const SIGNATURE_LENGTH = 16
+
+// Svix (Resend webhooks) rejects deliveries older than this
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+const NO_AUTH: InboundAuth = { dmarc: null, spf: null, spfDomain: null, dkim: [] }
+
+// ============================================================================
+// Reply Addresses
+// ============================================================================
+
+export function signReplyTarget(target: ReplyTarget, userId: string, secret: string): string {
+  return createHmac('sha256', secret)
+    .update(`${target.kind}:${target.id.toLowerCase()}:${userId.toLowerCase()}`)
+    .digest('hex')
+    .slice(0, SIGNATURE_LENGTH)
+}
+
+export function createReplyAddress(target: ReplyTarget, userId: string, secret: string, domain: string): string {
+  const id = target.id.toLowerCase().replace(/-/g, '')
+  return `r-${KIND_CODES[target.kind]}${id}-${signReplyTarget(target, userId, secret)}@${domain.toLowerCase()}`
+}
+
+/**
+ * The target and signature in a reply address, or null if it isn't one of
+ * ours. Case-insensitive, since mail servers may change the case.
+ */
+export function parseReplyAddress(address: string, domain: string): { target: ReplyTarget; signature: string } | null {
+  const parsed = parseEmailAddress(address)
+  if (!parsed) return null
+
+  const [local, host] = parsed.email.split('@')
+  if (host !== domain.toLowerCase()) return null
+
+  const match = local.match(new RegExp(`^r-([toc])([0-9a-f]{32})-([0-9a-f]{${SIGNATURE_LENGTH}})$`))
+  if (!match) return null
+
+  const kind = (Object.keys(KIND_CODES) as ReplyTargetKind[]).find(k => KIND_CODES[k] === match[1])!
+  const hex = match[2]
+  const id = `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+
+  return { target: { kind, id }, signature: match[3] }
+}
+
+export function verifyReplySignature(target: ReplyTarget, signature: string, userId: string, secret: string): boolean {
+  const expected = Buffer.from(signReplyTarget(target, userId, secret))
+  const actual = Buffer.from(signature.toLowerCase())
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * The first of the recipients that is a reply address
+ */
+export function findReplyAddress(recipients: string[], domain: string): { target: ReplyTarget; signature: string } | null {
+  for (const recipient of recipients) {
+    for (const address of splitAddressList(recipient)) {
+      const parsed = parseReplyAddress(address, domain)
+      if (parsed) return parsed
+    }
+  }
+  return null
+}
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+/**
+ * "Jane Smith <Jane@Example.com>" or "jane@example.com" -> jane@example.com
+ */
+export function parseEmailAddress(value: string): { email: string; name: string | null } | null {
+  const trimmed = value.trim()
+  const angle = trimmed.match(/^(.*?)\s*<([^<>\s]+@[^<>\s]+)>$/)
+  const email = (angle ? angle[2] : trimmed).toLowerCase()
+  if (!/^[^@\s<>"]+@[a-z0-9.-]+\.[a-z]{2,}$/.test(email)) return null
+
+  const name = angle ? angle[1].replace(/^"|"$/g, '').trim() || null : null
+  return { email, name }
+}
+
+function splitAddressList(value: string): string[] {
+  return value.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(s => s.trim()).filter(Boolean)
+}
+
+function getDomain(email: string): string {
+  return email.split('@')[1] || ''
+}
+
+// Relaxed DMARC alignment: the same organizational domain either way round
+function isAligned(domain: string, fromDomain: string): boolean {
+  const a = domain.toLowerCase()
+  const b = fromDomain.toLowerCase()
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`)
+}
+
+/**
+ * Whether the sending domain vouches for the From address
+ */
+export function isSenderAuthenticated(email: Pick<InboundEmail, 'from' | 'auth'>): boolean {
+  const from = parseEmailAddress(email.from)
+  if (!from) return false
+  const fromDomain = getDomain(from.email)
+
+  if (email.auth.dmarc === 'pass') return true
+  if (email.auth.dmarc === 'fail') return false
+  if (email.auth.dkim.some(d => d.result === 'pass' && isAligned(d.domain, fromDomain))) return true
+  return email.auth.spf === 'pass' && !!email.auth.spfDomain && isAligned(email.auth.spfDomain, fromDomain)
+}
+
+// ============================================================================
+// Reply Text
+// ============================================================================
+
+const QUOTE_HEADER_PATTERNS = [
+  /^On\s.+wrote:\s*$/i,                         // Gmail, Apple Mail
+  /^-{2,}\s*Original Message\s*-{2,}/i,        // Outlook (older)
+  /^_{10,}\s*$/,                               // Outlook
+  /^-{2,}\s*Forwarded message\s*-{2,}/i,
+  /^Le\s.+a écrit\s*:\s*$/i,
+  /^Am\s.+schrieb.*:\s*$/i,
+]
+
+const SIGNATURE_PATTERNS = [
+  /^--\s*$/,                                   // standard signature delimiter
+  /^Sent from my\s/i,
+  /^Sent from (Mail|Outlook|Yahoo Mail|AOL)/i,
+  /^Get Outlook for\s/i,
+]
+
+/**
+ * Just what the person wrote: everything above the quoted email they're
+ * replying to and their signature
+ */
+export function extractReplyText(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const kept: string[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    if (trimmed.includes(REPLY_ABOVE_LINE)) break
+    if (trimmed.startsWith('>')) break
+    if (SIGNATURE_PATTERNS.some(p => p.test(trimmed))) break
+    if (QUOTE_HEADER_PATTERNS.some(p => p.test(trimmed))) break
+
+    // "On Mon, Jan 6, 2025 at 9:14 AM Steakholders <" wraps onto a second line
+    const next = lines[i + 1]?.trim()
+    if (next !== undefined && /^On\s/i.test(trimmed) && QUOTE_HEADER_PATTERNS[0].test(`${trimmed} ${next}`)) break
+
+    // Outlook: From:/Sent:/To: block
+    if (/^From:\s/i.test(trimmed) && lines.slice(i + 1, i + 4).some(l => /^(Sent|Date|To|Subject):\s/i.test(l.trim()))) break
+
+    kept.push(line.replace(/\s+$/, ''))
+  }
+
+  return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Plain text from an HTML email body, without quoted history
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<div[^>]*class="[^"]*gmail_quote[^"]*"[\s\S]*$/i, '')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// ============================================================================
+// Inbound Formats
+// ============================================================================
+
+function toAuthResult(value: string | null | undefined): AuthResult | null {
+  const result = value?.trim().toLowerCase()
+  const known: AuthResult[] = ['pass', 'fail', 'softfail', 'neutral', 'none', 'temperror', 'permerror']
+  return result && (known as string[]).includes(result) ? result as AuthResult : null
+}
+
+/**
+ * Results from an Authentication-Results header, e.g.
+ * "mx.example.net; spf=pass smtp.mailfrom=farm.com; dkim=pass header.d=farm.com; dmarc=pass"
+ */
+export function parseAuthenticationResults(header: string | null | undefined): InboundAuth {
+  if (!header) return NO_AUTH
+  const auth: InboundAuth = { dmarc: null, spf: null, spfDomain: null, dkim: [] }
+
+  for (const part of header.split(';').slice(1)) {
+    const method = part.trim().match(/^(dmarc|spf|dkim)=(\w+)(.*)$/i)
+    if (!method) continue
+    const result = toAuthResult(method[2])
+    const props = method[3]
+
+    if (method[1].toLowerCase() === 'dmarc') {
+      auth.dmarc = result
+    } else if (method[1].toLowerCase() === 'spf') {
+      auth.spf = result
+      const mailFrom = props.match(/smtp\.mailfrom=(\S+)/i)?.[1]
+      auth.spfDomain = mailFrom ? getDomain(mailFrom.includes('@') ? mailFrom : `x@${mailFrom}`).toLowerCase() : null
+    } else if (result) {
+      const domain = props.match(/header\.d=(\S+)/i)?.[1]
+      if (domain) auth.dkim.push({ domain: domain.toLowerCase(), result })
+    }
+  }
+
+  return auth
+}
+
+function getHeader(headers: unknown, name: string): string | null {
+  if (Array.isArray(headers)) {
+    const header = headers.find(h => typeof h?.name === 'string' && h.name.toLowerCase() === name.toLowerCase())
+    return typeof header?.value === 'string' ? header.value : null
+  }
+  if (headers && typeof headers === 'object') {
+    const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())
+    return typeof entry?.[1] === 'string' ? entry[1] : null
+  }
+  if (typeof headers === 'string') {
+    const match = headers.match(new RegExp(`^${name}:\\s*(.+(?:\\r?\\n[ \\t].+)*)`, 'im'))
+    return match ? match[1].replace(/\r?\n[ \t]+/g, ' ').trim() : null
+  }
+  return null
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function bodyText(text: unknown, html: unknown): string {
+  return asString(text) || (typeof html === 'string' ? htmlToText(html) : '')
+}
+
+/**
+ * Resend's email.received webhook. Attachments are included when the
+ * payload carries their base64 content.
+ */
+export function parseResendInbound(payload: unknown): InboundEmail | null {
+  const event = payload as { type?: string; data?: Record<string, unknown> } | null
+  if (event?.type !== 'email.received' || !event.data) return null
+  const data = event.data
+
+  const to = Array.isArray(data.to) ? data.to.filter((t): t is string => typeof t === 'string') : [asString(data.to)]
+  const attachments = (Array.isArray(data.attachments) ? data.attachments : [])
+    .filter((a: Record<string, unknown>) => typeof a?.content === 'string')
+    .map((a: Record<string, unknown>) => ({
+      filename: asString(a.filename) || 'attachment',
+      contentType: asString(a.content_type) || 'application/octet-stream',
+      content: Buffer.from(a.content as string, 'base64'),
+    }))
+
+  return {
+    messageId: asString(data.message_id) || getHeader(data.headers, 'Message-ID'),
+    from: asString(data.from),
+    to: to.filter(Boolean),
+    subject: asString(data.subject),
+    text: bodyText(data.text, data.html),
+    attachments,
+    auth: parseAuthenticationResults(getHeader(data.headers, 'Authentication-Results')),
+  }
+}
+
+/**
+ * SendGrid Inbound Parse: multipart form fields, with attachments as files
+ * attachment1..N described by attachment-info
+ */
+export function parseSendGridInbound(fields: Record<string, string>, files: Record<string, InboundAttachment>): InboundEmail | null {
+  if (!fields.from) return null
+
+  let envelope: { to?: string[]; from?: string } = {}
+  try {
+    envelope = JSON.parse(fields.envelope || '{}')
+  } catch {
+    envelope = {}
+  }
+
+  let info: Record<string, { filename?: string; type?: string }> = {}
+  try {
+    info = JSON.parse(fields['attachment-info'] || '{}')
+  } catch {
+    info = {}
+  }
+
+  // dkim: "{@farm.com : pass, @mailer.net : fail}"
+  const dkim = Array.from((fields.dkim || '').matchAll(/@([a-z0-9.-]+)\s*:\s*(\w+)/gi))
+    .map(m => ({ domain: m[1].toLowerCase(), result: toAuthResult(m[2]) }))
+    .filter((d): d is { domain: string; result: AuthResult } => d.result !== null)
+
+  const attachments = Object.entries(files).map(([field, file]) => ({
+    ...file,
+    filename: info[field]?.filename || file.filename,
+    contentType: info[field]?.type || file.contentType,
+  }))
+
+  return {
+    messageId: getHeader(fields.headers || '', 'Message-ID'),
+    from: fields.from,
+    to: [...(envelope.to || []), ...splitAddressList(fields.to || '')],
+    subject: fields.subject || '',
+    text: bodyText(fields.text, fields.html),
+    attachments,
+    auth: {
+      ...parseAuthenticationResults(getHeader(fields.headers || '', 'Authentication-Results')),
+      spf: toAuthResult(fields.SPF),
+      spfDomain: envelope.from ? getDomain(envelope.from.toLowerCase()) : null,
+      dkim,
+    },
+  }
+}
+
+/**
+ * The stub format for local testing: an InboundEmail as JSON, with base64
+ * attachment content
+ */
+export function parseStubInbound(payload: unknown): InboundEmail | null {
+  const data = payload as Record<string, unknown> | null
+  if (!data || typeof data.from !== 'string') return null
+
+  const auth = (data.auth || {}) as Partial<InboundAuth>
+  return {
+    messageId: asString(data.messageId) || null,
+    from: data.from,
+    to: Array.isArray(data.to) ? data.to.filter((t): t is string => typeof t === 'string') : [],
+    subject: asString(data.subject),
+    text: bodyText(data.text, data.html),
+    attachments: (Array.isArray(data.attachments) ? data.attachments : []).map((a: Record<string, unknown>) => ({
+      filename: asString(a.filename) || 'attachment',
+      contentType: asString(a.contentType) || 'application/octet-stream',
+      content: Buffer.from(asString(a.content), 'base64'),
+    })),
+    auth: {
+      dmarc: toAuthResult(auth.dmarc),
+      spf: toAuthResult(auth.spf),
+      spfDomain: auth.spfDomain || null,
+      dkim: Array.isArray(auth.dkim) ? auth.dkim : [],
+    },
+  }
+}
+
+// ============================================================================
+// Webhook Signatures
+// ============================================================================
+
+/**
+ * Resend signs webhooks with Svix: base64 HMAC-SHA256 of
+ * "<svix-id>.<svix-timestamp>.<body>" keyed with the whsec_ secret
+ */
+export function verifySvixSignature(
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  body: string,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  if (!headers.id || !headers.timestamp || !headers.signature) return false
+
+  const timestamp = Number(headers.timestamp)
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) return false
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = Buffer.from(
+    createHmac('sha256', key).update(`${headers.id}.${headers.timestamp}.${body}`).digest('base64')
+  )
+
+  return headers.signature.split(' ').some(part => {
+    const [version, signature] = part.split(',')
+    if (version !== 'v1' || !signature) return false
+    const actual = Buffer.from(signature)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  })
+}
@@ -0,0 +1,244 @@
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  extractReplyText,
+  findReplyAddress,
+  isSenderAuthenticated,
+  parseEmailAddress,
+  verifyReplySignature,
+  type InboundAttachment,
+  type InboundEmail,
+  type InboundRejection,
+  type ReplyTarget,
+} from '@/lib/email-replies'
+import {
+  MESSAGE_ATTACHMENT_BUCKET,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  getAttachmentPath,
+  getThreadPartnerOrgId,
+  validateAttachment,
+} from '@/lib/message-threads'
+import { notifyMessageRecipients } from '@/lib/notifications/system'
+import type { MessageThread } from '@/types/database'
+
+export type InboundEmailResult =
+  | { status: 'accepted'; messageId: string; attachments: number; skippedAttachments: number }
+  | { status: 'rejected'; reason: InboundRejection }
+
+interface ReplySender {
+  id: string
+  email: string
+  organization_id: string
+}
+
+/**
+ * Post an email reply as the user the reply address was issued to. The
+ * email provider calls in without a user session, so this takes a service
+ * role client; the signed address and the sender's authentication are the
+ * only credentials.
+ */
+export async function handleInboundEmail(
+  admin: SupabaseClient,
+  email: InboundEmail,
+  config: { secret: string; domain: string }
+): Promise<InboundEmailResult> {
+  const address = findReplyAddress(email.to, config.domain)
+  if (!address) return { status: 'rejected', reason: 'no_reply_address' }
+
+  const from = parseEmailAddress(email.from)
+  if (!from) return { status: 'rejected', reason: 'unknown_sender' }
+
+  const sender = await findSender(admin, from.email)
+  if (!sender) return { status: 'rejected', reason: 'unknown_sender' }
+
+  if (!verifyReplySignature(address.target, address.signature, sender.id, config.secret)) {
+    return { status: 'rejected', reason: 'bad_signature' }
+  }
+  if (!isSenderAuthenticated(email)) {
+    return { status: 'rejected', reason: 'spoofed_sender' }
+  }
+
+  const destination = await resolveTarget(admin, address.target, sender)
+  if (!destination) return { status: 'rejected', reason: 'not_a_participant' }
+
+  // Files the app wouldn't take are dropped
+  const content = extractReplyText(email.text)
+  const files = email.attachments.slice(0, MAX_ATTACHMENTS_PER_MESSAGE).filter(file => {
+    const invalid = validateAttachment({ name: file.filename, size: file.content.length, type: file.contentType })
+    if (invalid) console.log('[Inbound Email] Skipping attachment:', invalid)
+    return !invalid
+  })
+  if (!content && files.length === 0) return { status: 'rejected', reason: 'empty_reply' }
+
+  // Providers retry deliveries they didn't see acknowledged
+  if (email.messageId) {
+    const { data: existing } = await admin
+      .from('messages')
+      .select('id')
+      .eq('sender_id', sender.id)
+      .eq('metadata->>email_message_id', email.messageId)
+      .limit(1)
+    if (existing && existing.length > 0) return { status: 'rejected', reason: 'duplicate' }
+  }
+
+  const { data: message, error } = await admin
+    .from('messages')
+    .insert({
+      sender_id: sender.id,
+      sender_org_id: sender.organization_id,
+      recipient_org_id: destination.recipientOrgId,
+      thread_id: destination.threadId,
+      content,
+      metadata: { source: 'email', email_message_id: email.messageId },
+    })
+    .select('id, sender_org_id, recipient_org_id, processing_order_id, thread_id, content')
+    .single()
+
+  if (error || !message) {
+    throw new Error(`Failed to post email reply: ${error?.message}`)
+  }
+
+  const saved = await saveAttachments(admin, files, message.id, sender.organization_id, destination.recipientOrgId)
+
+  await notifyMessageRecipients(admin, message, saved)
+
+  return {
+    status: 'accepted',
+    messageId: message.id,
+    attachments: saved,
+    skippedAttachments: email.attachments.length - saved,
+  }
+}
+
+async function findSender(admin: SupabaseClient, email: string): Promise<ReplySender | null> {
+  // ilike for case; the exact comparison below keeps _ and % literal
+  const { data } = await admin
+    .from('users')
+    .select('id, email, organization_id')
+    .ilike('email', email)
+    .eq('is_active', true)
+
+  const users = ((data || []) as { id: string; email: string; organization_id: string | null }[])
+    .filter(user => user.email.toLowerCase() === email && user.organization_id)
+
+  // An address shared by more than one account can't say who replied
+  return users.length === 1 ? users[0] as ReplySender : null
+}
+
+/**
+ * The thread and organization a reply goes to, or null if the sender's
+ * organization isn't part of the conversation
+ */
+async function resolveTarget(
+  admin: SupabaseClient,
+  target: ReplyTarget,
+  sender: ReplySender
+): Promise<{ threadId: string | null; recipientOrgId: string } | null> {
+  if (target.kind === 'conversation') {
+    if (target.id === sender.organization_id) return null
+    const { data: org } = await admin
+      .from('organizations')
+      .select('id')
+      .eq('id', target.id)
+      .maybeSingle()
+    return org ? { threadId: null, recipientOrgId: target.id } : null
+  }
+
+  const thread = target.kind === 'thread'
+    ? await findThread(admin, 'id', target.id)
+    : await findOrderThread(admin, target.id, sender)
+
+  if (!thread) return null
+  if (thread.producer_org_id !== sender.organization_id && thread.processor_org_id !== sender.organization_id) {
+    return null
+  }
+
+  return { threadId: thread.id, recipientOrgId: getThreadPartnerOrgId(thread, sender.organization_id) }
+}
+
+type ThreadOrgs = Pick<MessageThread, 'id' | 'producer_org_id' | 'processor_org_id'>
+
+async function findThread(admin: SupabaseClient, column: 'id' | 'processing_order_id', value: string): Promise<ThreadOrgs | null> {
+  let query = admin
+    .from('message_threads')
+    .select('id, producer_org_id, processor_org_id')
+    .eq(column, value)
+  if (column === 'processing_order_id') query = query.is('cut_id', null)
+
+  const { data } = await query.maybeSingle()
+  return data as ThreadOrgs | null
+}
+
+// Replies to an order notification go to the order's thread, started if need be
+async function findOrderThread(admin: SupabaseClient, orderId: string, sender: ReplySender): Promise<ThreadOrgs | null> {
+  const existing = await findThread(admin, 'processing_order_id', orderId)
+  if (existing) return existing
+
+  const { data: order } = await admin
+    .from('processing_orders')
+    .select('producer_id, processor_id')
+    .eq('id', orderId)
+    .maybeSingle()
+
+  const parties = order as { producer_id: string; processor_id: string } | null
+  if (!parties || ![parties.producer_id, parties.processor_id].includes(sender.organization_id)) return null
+
+  // producer_org_id and processor_org_id are filled in from the order
+  const { data, error } = await admin
+    .from('message_threads')
+    .insert({ processing_order_id: orderId, created_by: sender.id })
+    .select('id, producer_org_id, processor_org_id')
+    .single()
+
+  // Someone else started it first
+  if (error?.code === '23505') return findThread(admin, 'processing_order_id', orderId)
+  if (error) {
+    console.error('Error starting order thread from email:', error)
+    return null
+  }
+  return data as ThreadOrgs
+}
+
+/**
+ * Store the files where the app would have uploaded them. Returns how many
+ * were saved.
+ */
+async function saveAttachments(
+  admin: SupabaseClient,
+  files: InboundAttachment[],
+  messageId: string,
+  senderOrgId: string,
+  recipientOrgId: string
+): Promise<number> {
+  let saved = 0
+
+  for (const file of files) {
+    const path = getAttachmentPath(senderOrgId, recipientOrgId, randomUUID(), file.filename)
+    const { error: uploadError } = await admin.storage
+      .from(MESSAGE_ATTACHMENT_BUCKET)
+      .upload(path, file.content, { contentType: file.contentType })
+
+    if (uploadError) {
+      console.error('Error uploading email attachment:', uploadError)
+      continue
+    }
+
+    const { error } = await admin
+      .from('message_attachments')
+      .insert({
+        message_id: messageId,
+        storage_path: path,
+        file_name: file.filename,
+        content_type: file.contentType,
+        size_bytes: file.content.length,
+      })
+
+    if (error) {
+      console.error('Error attaching email file to message:', error)
+      continue
+    }
+    saved++
+  }
+
+  return saved
+}
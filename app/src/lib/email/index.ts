@@ -1,3 +1,4 @@
 export { resend, defaultFrom, isEmailConfigured } from './resend'
-export { sendNotificationEmail, sendBulkNotificationEmails } from './actions'
-export { getNotificationEmailTemplate, orderNotificationEmail, messageNotificationEmail } from './templates'
+export { sendEmail, type EmailAttachment, type EmailMessage } from './send'
+export { getNotificationEmailTemplate, orderNotificationEmail, messageNotificationEmail, digestEmail, withReplyHint } from './templates'
+export { getInboundEmailConfig, getReplyAddress } from './reply'
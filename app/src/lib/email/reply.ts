@@ -0,0 +1,17 @@
+import { createReplyAddress, type ReplyTarget } from '@/lib/email-replies'
+
+/**
+ * Reply addresses need a domain whose inbound mail reaches
+ * /api/email/inbound, and a secret to sign them with. Without both,
+ * notification emails go out without a Reply-To.
+ */
+export function getInboundEmailConfig(): { secret: string; domain: string } | null {
+  const secret = process.env.EMAIL_REPLY_SECRET
+  const domain = process.env.INBOUND_EMAIL_DOMAIN
+  return secret && domain ? { secret, domain } : null
+}
+
+export function getReplyAddress(target: ReplyTarget, userId: string): string | undefined {
+  const config = getInboundEmailConfig()
+  return config ? createReplyAddress(target, userId, config.secret, config.domain) : undefined
+}
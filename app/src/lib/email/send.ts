@@ -0,0 +1,59 @@
+import { resend, defaultFrom, isEmailConfigured } from './resend'
+
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+}
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+  attachments?: EmailAttachment[]
+}
+
+export interface SendEmailResult {
+  success: boolean
+  messageId?: string
+  error?: string
+}
+
+/**
+ * Send one email through Resend. Server-only: notification emails are
+ * queued in the outbox (lib/notifications/outbox.ts), which sends them
+ * with this.
+ */
+export async function sendEmail(message: EmailMessage): Promise<SendEmailResult> {
+  if (!isEmailConfigured()) {
+    console.log('[Email] Resend not configured, skipping email')
+    return { success: true } // Consider it a success if email isn't configured
+  }
+
+  try {
+    const result = await resend!.emails.send({
+      from: defaultFrom,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      attachments: message.attachments,
+      replyTo: message.replyTo,
+    })
+
+    if (result.error) {
+      console.error('[Email] Failed to send:', result.error)
+      return { success: false, error: result.error.message }
+    }
+
+    console.log('[Email] Sent successfully:', result.data?.id)
+    return { success: true, messageId: result.data?.id }
+  } catch (error) {
+    console.error('[Email] Error sending email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
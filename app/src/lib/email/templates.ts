@@ -1,4 +1,6 @@
 import type { NotificationType } from '@/types/database'
+import { REPLY_ABOVE_LINE } from '@/lib/email-replies'
+import type { DigestNotification } from '@/lib/notification-preferences'
 
 interface EmailTemplate {
   subject: string
@@ -21,6 +23,11 @@ interface MessageEmailParams {
   recipientName?: string
 }
 
+interface DigestEmailParams {
+  sections: { label: string; notifications: DigestNotification[] }[]
+  recipientName?: string
+}
+
 const baseStyles = `
   font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
   line-height: 1.6;
@@ -232,3 +239,82 @@ This is an automated notification from Steakholders.
     text,
   }
 }
+
+function getDigestLink(notification: DigestNotification, appUrl: string): string {
+  if (notification.processing_order_id) return `${appUrl}/dashboard/orders/${notification.processing_order_id}`
+  if (notification.type === 'new_message') return `${appUrl}/dashboard/messages`
+  if (notification.type === 'waitlist_available') return `${appUrl}/dashboard/waitlist`
+  return `${appUrl}/dashboard/notifications`
+}
+
+/**
+ * One email with the day's notifications for the types a user gets as a
+ * daily digest, grouped by type
+ */
+export function digestEmail(params: DigestEmailParams): EmailTemplate {
+  const { sections, recipientName } = params
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+  const greeting = recipientName ? `Hi ${recipientName},` : 'Hello,'
+  const count = sections.reduce((sum, section) => sum + section.notifications.length, 0)
+  const subject = `Your Steakholders digest: ${count} ${count === 1 ? 'update' : 'updates'}`
+
+  const html = wrapInLayout(`
+    <p style="margin: 0 0 16px;">${greeting}</p>
+    <p style="margin: 0 0 24px;">Here's what happened in the last day.</p>
+
+    ${sections.map(section => `
+      <h2 style="margin: 0 0 8px; font-size: 16px; color: #111;">${section.label}</h2>
+      <div style="background: #f8fafc; border-radius: 8px; padding: 4px 16px; margin-bottom: 24px;">
+        ${section.notifications.map(n => `
+          <p style="margin: 12px 0;">
+            <a href="${getDigestLink(n, appUrl)}" style="color: #2563eb; font-weight: 500; text-decoration: none;">${n.title}</a>
+            ${n.body ? `<br><span style="color: #4b5563;">${n.body}</span>` : ''}
+          </p>
+        `).join('')}
+      </div>
+    `).join('')}
+
+    <div style="text-align: center;">
+      <a href="${appUrl}/dashboard/notifications" style="${buttonStyles}">
+        View All Notifications
+      </a>
+    </div>
+  `, subject)
+
+  const text = `
+${greeting}
+
+Here's what happened in the last day.
+
+${sections.map(section => `${section.label}\n${section.notifications
+    .map(n => `- ${n.title}${n.body ? `: ${n.body}` : ''}\n  ${getDigestLink(n, appUrl)}`)
+    .join('\n')}`).join('\n\n')}
+
+View all notifications: ${appUrl}/dashboard/notifications
+
+---
+This is an automated notification from Steakholders.
+  `.trim()
+
+  return { subject, html, text }
+}
+
+/**
+ * For emails with a reply address: replies are posted to the conversation,
+ * and everything below the marker (the quoted email) is dropped
+ */
+export function withReplyHint(template: EmailTemplate): EmailTemplate {
+  const hint = `
+    <p style="margin: 0 0 24px; color: #9ca3af; font-size: 12px; text-align: center;">
+      ${REPLY_ABOVE_LINE}<br>
+      Reply to this email to respond - your reply is posted to the conversation.
+    </p>
+  `
+
+  return {
+    subject: template.subject,
+    html: template.html.replace('<!-- Content -->', `<!-- Content -->\n${hint}`),
+    text: `${REPLY_ABOVE_LINE}\nReply to this email to respond - your reply is posted to the conversation.\n\n${template.text}`,
+  }
+}
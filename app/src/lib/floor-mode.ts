@@ -0,0 +1,266 @@
+/**
+ * Cut Room Floor Mode
+ *
+ * Turns a cut sheet into the steps a cutter works through on the floor: one
+ * primal at a time, each cut showing how many packages the customer asked
+ * for and how many have been logged. Also holds the keypad logic for entering
+ * weights on a gloved touchscreen.
+ *
+ * Pure functions only - the floor pages load data and call the existing
+ * processor cut sheet actions.
+ */
+
+import type { AnimalType } from '@/types/database'
+import { CUT_SHEET_SCHEMA } from './cut-sheet-schema'
+import { projectCutSheetYield, type YieldProjection } from './cut-sheet-yield'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FloorCutSheetItem {
+  cut_id: string
+  cut_name: string
+  thickness: string | null
+  pieces_per_package: number | null
+}
+
+export interface FloorPackage {
+  cut_id: string
+  cut_name: string
+  actual_weight_lbs: number | null
+}
+
+export interface FloorCutSheet {
+  animal_type: AnimalType
+  hanging_weight_lbs: number | null
+  cut_sheet_items: FloorCutSheetItem[]
+  processor_modifications?: Record<string, { thickness?: string; pieces_per_package?: number; notes?: string }>
+  removed_cuts?: { cut_id: string }[]
+  added_cuts?: { cut_id: string; cut_name: string; params: { thickness?: string; pieces_per_package?: number; notes?: string } }[]
+  produced_packages?: FloorPackage[]
+}
+
+export interface FloorCut {
+  cutId: string
+  cutName: string
+  primalId: string
+  thickness: string | null
+  piecesPerPackage: number | null
+  notes: string | null
+  requestedPackages: number | null    // Projected from hanging weight; null until weighed
+  loggedPackages: number
+  loggedPounds: number
+}
+
+export interface FloorPrimalStep {
+  primalId: string
+  primalName: string
+  cuts: FloorCut[]
+}
+
+export interface FloorTally {
+  requestedPackages: number | null    // Null when no cut has a projection
+  loggedPackages: number
+  loggedPounds: number
+  remainingPackages: number | null
+}
+
+export type KeypadKey = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '.' | 'back' | 'clear'
+
+const OTHER_PRIMAL_ID = 'other'
+const KEYPAD_MAX_WHOLE_DIGITS = 3      // Packages over 999 lbs are a typo
+const KEYPAD_MAX_DECIMALS = 2
+
+// ============================================================================
+// Walkthrough
+// ============================================================================
+
+/**
+ * Group the cuts still on the sheet into primal steps in schema order, with
+ * packages logged so far. Processor-added cuts and packages for cuts not on
+ * the sheet land in a final "Other" step.
+ */
+export function buildFloorSteps(cutSheet: FloorCutSheet): FloorPrimalStep[] {
+  const schema = CUT_SHEET_SCHEMA.animals[cutSheet.animal_type]
+  const cutToPrimal = getCutPrimals(cutSheet.animal_type)
+  const removed = new Set((cutSheet.removed_cuts || []).map(r => r.cut_id))
+  const modifications = cutSheet.processor_modifications || {}
+
+  const items: FloorCutSheetItem[] = [
+    ...cutSheet.cut_sheet_items.filter(item => !removed.has(item.cut_id)),
+    ...(cutSheet.added_cuts || [])
+      .filter(added => !cutSheet.cut_sheet_items.some(item => item.cut_id === added.cut_id))
+      .map(added => ({
+        cut_id: added.cut_id,
+        cut_name: added.cut_name,
+        thickness: added.params.thickness || null,
+        pieces_per_package: added.params.pieces_per_package || null,
+      })),
+  ]
+
+  const projection = projectFloorYield(cutSheet, items)
+  const logged = tallyPackagesByCut(cutSheet.produced_packages || [])
+
+  const steps = new Map<string, FloorPrimalStep>()
+  const stepFor = (primalId: string) => {
+    let step = steps.get(primalId)
+    if (!step) {
+      step = {
+        primalId,
+        primalName: schema?.primals[primalId]?.displayName || 'Other Cuts',
+        cuts: [],
+      }
+      steps.set(primalId, step)
+    }
+    return step
+  }
+
+  for (const item of items) {
+    const modification = modifications[item.cut_id] || {}
+    const primalId = cutToPrimal[item.cut_id] || OTHER_PRIMAL_ID
+    const projected = projection?.cuts.find(c => c.cutId === item.cut_id)
+    const packages = logged.get(item.cut_id)
+
+    stepFor(primalId).cuts.push({
+      cutId: item.cut_id,
+      cutName: item.cut_name,
+      primalId,
+      thickness: modification.thickness ?? item.thickness,
+      piecesPerPackage: modification.pieces_per_package ?? item.pieces_per_package,
+      notes: modification.notes || null,
+      requestedPackages: projected ? projected.packages : null,
+      loggedPackages: packages?.count || 0,
+      loggedPounds: packages?.pounds || 0,
+    })
+    logged.delete(item.cut_id)
+  }
+
+  // Packages logged against cuts that aren't on the sheet still count
+  logged.forEach((packages, cutId) => {
+    stepFor(OTHER_PRIMAL_ID).cuts.push({
+      cutId,
+      cutName: packages.cutName,
+      primalId: OTHER_PRIMAL_ID,
+      thickness: null,
+      piecesPerPackage: null,
+      notes: null,
+      requestedPackages: null,
+      loggedPackages: packages.count,
+      loggedPounds: packages.pounds,
+    })
+  })
+
+  const primalOrder = [...Object.keys(schema?.primals || {}), OTHER_PRIMAL_ID]
+  return Array.from(steps.values()).sort(
+    (a, b) => primalOrder.indexOf(a.primalId) - primalOrder.indexOf(b.primalId)
+  )
+}
+
+/**
+ * Running totals across a set of cuts, e.g. one primal step or the whole sheet
+ */
+export function getFloorTally(cuts: FloorCut[]): FloorTally {
+  const projected = cuts.filter(c => c.requestedPackages !== null)
+  const requestedPackages = projected.length > 0
+    ? projected.reduce((sum, c) => sum + (c.requestedPackages || 0), 0)
+    : null
+  const loggedPackages = cuts.reduce((sum, c) => sum + c.loggedPackages, 0)
+  const loggedPounds = round2(cuts.reduce((sum, c) => sum + c.loggedPounds, 0))
+
+  // Extra packages on one cut don't make up for missing packages on another
+  const remainingPackages = requestedPackages === null
+    ? null
+    : projected.reduce((sum, c) => sum + Math.max(0, (c.requestedPackages || 0) - c.loggedPackages), 0)
+
+  return { requestedPackages, loggedPackages, loggedPounds, remainingPackages }
+}
+
+// ============================================================================
+// Keypad
+// ============================================================================
+
+/**
+ * Apply a keypad press to the weight being entered
+ */
+export function pressKeypadKey(value: string, key: KeypadKey): string {
+  if (key === 'clear') return ''
+  if (key === 'back') return value.slice(0, -1)
+
+  const [whole, decimals] = value.split('.')
+
+  if (key === '.') {
+    if (decimals !== undefined) return value
+    return value === '' ? '0.' : `${value}.`
+  }
+
+  if (decimals !== undefined) {
+    return decimals.length < KEYPAD_MAX_DECIMALS ? `${value}${key}` : value
+  }
+  if (whole === '0') return key
+  return whole.length < KEYPAD_MAX_WHOLE_DIGITS ? `${value}${key}` : value
+}
+
+/**
+ * Weight entered on the keypad, or null if it isn't a usable weight yet
+ */
+export function parseKeypadWeight(value: string): number | null {
+  const weight = parseFloat(value)
+  return Number.isFinite(weight) && weight > 0 ? weight : null
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getCutPrimals(animalType: AnimalType): Record<string, string> {
+  const cutToPrimal: Record<string, string> = {}
+  const schema = CUT_SHEET_SCHEMA.animals[animalType]
+  if (!schema) return cutToPrimal
+
+  for (const [primalId, primal] of Object.entries(schema.primals)) {
+    for (const cut of primal.choices) {
+      cutToPrimal[cut.id] = primalId
+    }
+    for (const sub of Object.values(primal.subSections || {})) {
+      for (const cut of sub.choices) {
+        cutToPrimal[cut.id] = primalId
+      }
+    }
+  }
+
+  return cutToPrimal
+}
+
+function projectFloorYield(cutSheet: FloorCutSheet, items: FloorCutSheetItem[]): YieldProjection | null {
+  const modifications = cutSheet.processor_modifications || {}
+
+  return projectCutSheetYield({
+    animalType: cutSheet.animal_type,
+    hangingWeight: cutSheet.hanging_weight_lbs,
+    selectedCuts: items.map(item => {
+      const modification = modifications[item.cut_id] || {}
+      const parameters: Record<string, unknown> = {}
+      const thickness = modification.thickness ?? item.thickness
+      const perPackage = modification.pieces_per_package ?? item.pieces_per_package
+      if (thickness) parameters.thickness = thickness.replace(/"/g, '')
+      if (perPackage) parameters.perPackage = perPackage
+      return { cutId: item.cut_id, parameters }
+    }),
+  })
+}
+
+function tallyPackagesByCut(packages: FloorPackage[]) {
+  const tally = new Map<string, { cutName: string; count: number; pounds: number }>()
+  for (const pkg of packages) {
+    const entry = tally.get(pkg.cut_id) || { cutName: pkg.cut_name, count: 0, pounds: 0 }
+    entry.count += 1
+    entry.pounds = round2(entry.pounds + (pkg.actual_weight_lbs || 0))
+    tally.set(pkg.cut_id, entry)
+  }
+  return tally
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,163 @@
+/**
+ * iCalendar (RFC 5545)
+ *
+ * Serializes calendar feeds for Google, Apple and Outlook calendars:
+ * - all-day events only - drop-offs, ready dates and kill days are days, and
+ *   a DATE value shows on the right day in every time zone
+ * - content lines end in CRLF and are folded at 75 octets without splitting
+ *   a UTF-8 character
+ * - TEXT values escape backslashes, semicolons, commas and newlines
+ *
+ * There is no METHOD, so each event's DTSTAMP is when it was last revised.
+ * Calendar apps match events by UID, so UIDs must stay the same across
+ * fetches for updates to replace the old event.
+ *
+ * Pure functions only - lib/calendar-feed.ts builds the events.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'
+
+export interface IcsEvent {
+  uid: string
+  date: string                 // YYYY-MM-DD (or an ISO timestamp; the date part is used)
+  days?: number                // Length in days, default 1
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  status?: IcsEventStatus
+  categories?: string[]
+  revisedAt: string            // ISO timestamp of the last change, for DTSTAMP and LAST-MODIFIED
+}
+
+export interface IcsCalendar {
+  name: string
+  description?: string
+  refreshMinutes?: number      // How often calendar apps should fetch again
+  events: IcsEvent[]
+}
+
+export const ICS_PRODUCT_ID = '-//Steakholders//Calendar Feed//EN'
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8'
+
+const MAX_LINE_OCTETS = 75
+const DEFAULT_REFRESH_MINUTES = 60
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * Escape a TEXT value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+/**
+ * A DATE value (YYYYMMDD) from a date or ISO timestamp
+ */
+export function formatIcsDate(date: string): string {
+  return date.split('T')[0].replace(/-/g, '')
+}
+
+/**
+ * A UTC DATE-TIME value (YYYYMMDDTHHMMSSZ)
+ */
+export function formatIcsDateTime(timestamp: string | number | Date): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * The date a number of days after a date (YYYY-MM-DD)
+ */
+export function addIcsDays(date: string, days: number): string {
+  const d = new Date(`${date.split('T')[0]}T00:00:00.000Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, each continuation
+ * starting with a space
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder()
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    // Continuation lines spend one octet on the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  lines.push(current)
+
+  return lines.join('\r\n ')
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * The whole feed as an iCalendar object
+ */
+export function renderIcsCalendar(calendar: IcsCalendar): string {
+  const refresh = `PT${calendar.refreshMinutes ?? DEFAULT_REFRESH_MINUTES}M`
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `NAME:${escapeIcsText(calendar.name)}`,
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+    ...(calendar.description
+      ? [`DESCRIPTION:${escapeIcsText(calendar.description)}`, `X-WR-CALDESC:${escapeIcsText(calendar.description)}`]
+      : []),
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+    ...calendar.events.flatMap(renderIcsEvent),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+function renderIcsEvent(event: IcsEvent): string[] {
+  const start = event.date.split('T')[0]
+  const revised = formatIcsDateTime(event.revisedAt)
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${revised}`,
+    `LAST-MODIFIED:${revised}`,
+    `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+    `DTEND;VALUE=DATE:${formatIcsDate(addIcsDays(start, Math.max(1, event.days ?? 1)))}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    ...(event.url ? [`URL;VALUE=URI:${event.url}`] : []),
+    ...(event.status ? [`STATUS:${event.status}`] : []),
+    ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+}
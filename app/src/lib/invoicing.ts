@@ -0,0 +1,339 @@
+/**
+ * Invoicing Engine
+ *
+ * Turns a processor's fee schedule and an order's facts - hanging weight,
+ * cut sheet, produced packages and ready/pickup dates - into an itemized
+ * invoice.
+ *
+ * Pure functions only - the server actions in lib/actions/invoices.ts load
+ * the order, store the fee schedule on processor_cut_config.fee_schedule
+ * and persist invoices.
+ */
+
+import type { AnimalType } from '@/types/database'
+import { getCutById } from './cut-sheet-schema'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SurchargeUnit = 'per_lb' | 'per_package' | 'flat'
+
+export interface CutSurcharge {
+  amount: number
+  unit: SurchargeUnit
+}
+
+export interface FeeSchedule {
+  killFee: Partial<Record<AnimalType, number>>          // Per head
+  cutAndWrapPerLb: Partial<Record<AnimalType, number>>  // Per lb hanging weight
+  cutAndWrapMinimum: number                             // Minimum cut & wrap charge
+  cutSurcharges: Record<string, CutSurcharge>           // Keyed by cut ID (smoking, curing...)
+  pattyFeePerLb: number
+  sausageFeePerLb: number
+  storageFeePerDay: number
+  storageFreeDays: number                               // Days after ready before storage accrues
+  paymentTermsDays: number
+}
+
+export type InvoiceStatus = 'draft' | 'issued' | 'paid' | 'void'
+
+export type InvoiceLineCategory =
+  | 'kill'
+  | 'cut_and_wrap'
+  | 'surcharge'
+  | 'patties'
+  | 'sausage'
+  | 'storage'
+
+export type InvoiceLineUnit = 'head' | 'lb' | 'package' | 'day' | 'each'
+
+export interface InvoiceLineItem {
+  category: InvoiceLineCategory
+  description: string
+  quantity: number
+  unit: InvoiceLineUnit
+  unitPrice: number
+  amount: number
+  cutId?: string
+}
+
+export interface InvoicePackage {
+  cut_id: string
+  cut_name: string
+  actual_weight_lbs: number | null
+}
+
+export interface InvoiceInput {
+  animalType: AnimalType
+  hangingWeight: number | null
+  groundType: string | null
+  cutItems: { cut_id: string; cut_name: string; weight_lbs?: number | null }[]
+  sausages: { flavor: string; pounds: number }[]
+  packages: InvoicePackage[]
+  actualReadyDate: string | null
+  pickupDate: string | null
+  asOf?: Date                       // End of storage when not yet picked up
+}
+
+export interface GeneratedInvoice {
+  lineItems: InvoiceLineItem[]
+  subtotal: number
+  total: number
+  warnings: string[]                // Charges that could not be computed
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  killFee: {},
+  cutAndWrapPerLb: {},
+  cutAndWrapMinimum: 0,
+  cutSurcharges: {},
+  pattyFeePerLb: 0,
+  sausageFeePerLb: 0,
+  storageFeePerDay: 0,
+  storageFreeDays: 0,
+  paymentTermsDays: 14,
+}
+
+// Allowed status changes; paid and void invoices are final
+export const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['issued', 'void'],
+  issued: ['paid', 'void'],
+  paid: [],
+  void: [],
+}
+
+const ANIMAL_LABELS: Record<AnimalType, string> = {
+  beef: 'Beef',
+  pork: 'Pork',
+  lamb: 'Lamb',
+  goat: 'Goat',
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// Invoice Generation
+// ============================================================================
+
+/**
+ * Build an itemized invoice for one order.
+ *
+ * Weight-based charges use actual package weights where they exist. Charges
+ * that need data the order doesn't have yet (hanging weight, weighed
+ * packages) are left off and reported in `warnings`.
+ */
+export function generateInvoice(input: InvoiceInput, schedule: FeeSchedule): GeneratedInvoice {
+  const lineItems: InvoiceLineItem[] = []
+  const warnings: string[] = []
+  const animal = ANIMAL_LABELS[input.animalType]
+
+  // Kill fee
+  const killFee = schedule.killFee[input.animalType] || 0
+  if (killFee > 0) {
+    lineItems.push(lineItem('kill', `${animal} kill fee`, 1, 'head', killFee))
+  }
+
+  // Cut & wrap on hanging weight
+  const cutAndWrapRate = schedule.cutAndWrapPerLb[input.animalType] || 0
+  if (cutAndWrapRate > 0) {
+    if (!input.hangingWeight || input.hangingWeight <= 0) {
+      warnings.push('Cut & wrap not charged: hanging weight has not been entered')
+    } else {
+      const item = lineItem('cut_and_wrap', 'Cut & wrap', input.hangingWeight, 'lb', cutAndWrapRate)
+      if (item.amount < schedule.cutAndWrapMinimum) {
+        lineItems.push(lineItem('cut_and_wrap', 'Cut & wrap (minimum charge)', 1, 'each', schedule.cutAndWrapMinimum))
+      } else {
+        lineItems.push(item)
+      }
+    }
+  }
+
+  // Per-cut surcharges (smoking, curing, tenderizing...)
+  const surchargedCuts = new Map<string, string>()
+  for (const item of input.cutItems) surchargedCuts.set(item.cut_id, item.cut_name)
+  for (const pkg of input.packages) {
+    if (!surchargedCuts.has(pkg.cut_id)) surchargedCuts.set(pkg.cut_id, pkg.cut_name)
+  }
+
+  for (const [cutId, cutName] of Array.from(surchargedCuts.entries())) {
+    const surcharge = schedule.cutSurcharges[cutId]
+    if (!surcharge || surcharge.amount <= 0) {
+      if (getCutById(input.animalType, cutId)?.additionalFee) {
+        warnings.push(`${cutName} normally carries a surcharge, but none is set in the fee schedule`)
+      }
+      continue
+    }
+
+    const cutPackages = input.packages.filter(p => p.cut_id === cutId)
+    if (surcharge.unit === 'flat') {
+      lineItems.push({ ...lineItem('surcharge', cutName, 1, 'each', surcharge.amount), cutId })
+    } else if (surcharge.unit === 'per_package') {
+      if (cutPackages.length === 0) {
+        warnings.push(`${cutName} surcharge not charged: no packages recorded yet`)
+        continue
+      }
+      lineItems.push({ ...lineItem('surcharge', cutName, cutPackages.length, 'package', surcharge.amount), cutId })
+    } else {
+      const pounds = weighedPounds(cutPackages)
+      if (pounds === null) {
+        warnings.push(`${cutName} surcharge not charged: packages have not all been weighed`)
+        continue
+      }
+      lineItems.push({ ...lineItem('surcharge', cutName, pounds, 'lb', surcharge.amount), cutId })
+    }
+  }
+
+  // Patties, priced on weighed ground packages
+  if (input.groundType === 'patties' && schedule.pattyFeePerLb > 0) {
+    const groundPackages = input.packages.filter(p => isGroundCut(input.animalType, p.cut_id))
+    const pounds = weighedPounds(groundPackages)
+    if (pounds === null) {
+      warnings.push('Patty fee not charged: ground packages have not all been weighed')
+    } else {
+      lineItems.push(lineItem('patties', 'Patty making', pounds, 'lb', schedule.pattyFeePerLb))
+    }
+  }
+
+  // Sausage, priced on the pounds ordered per flavor
+  if (schedule.sausageFeePerLb > 0) {
+    for (const sausage of input.sausages) {
+      if (sausage.pounds <= 0) continue
+      lineItems.push(lineItem(
+        'sausage',
+        `Sausage - ${formatFlavor(sausage.flavor)}`,
+        sausage.pounds,
+        'lb',
+        schedule.sausageFeePerLb
+      ))
+    }
+  }
+
+  // Storage after the order is ready
+  if (schedule.storageFeePerDay > 0 && input.actualReadyDate) {
+    const days = getStorageDays(
+      input.actualReadyDate,
+      input.pickupDate || (input.asOf || new Date()).toISOString(),
+      schedule.storageFreeDays
+    )
+    if (days > 0) {
+      const free = schedule.storageFreeDays > 0 ? ` (after ${schedule.storageFreeDays} free days)` : ''
+      lineItems.push(lineItem('storage', `Storage${free}`, days, 'day', schedule.storageFeePerDay))
+    }
+  }
+
+  const subtotal = sumLineItems(lineItems)
+  return { lineItems, subtotal, total: subtotal, warnings }
+}
+
+/**
+ * Billable storage days between ready and pickup, after the free period.
+ */
+export function getStorageDays(readyDate: string, endDate: string, freeDays: number): number {
+  const ready = startOfDay(readyDate)
+  const end = startOfDay(endDate)
+  const days = Math.floor((end - ready) / MS_PER_DAY) - freeDays
+  return Math.max(0, days)
+}
+
+export function sumLineItems(lineItems: InvoiceLineItem[]): number {
+  return roundCents(lineItems.reduce((sum, item) => sum + item.amount, 0))
+}
+
+// ============================================================================
+// Status & Formatting
+// ============================================================================
+
+export function canTransitionInvoice(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  return INVOICE_TRANSITIONS[from].includes(to)
+}
+
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `INV-${String(invoiceNumber).padStart(5, '0')}`
+}
+
+export function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+/**
+ * Read the stored JSONB fee schedule, filling anything missing with defaults.
+ */
+export function parseFeeSchedule(value: unknown): FeeSchedule {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ...DEFAULT_FEE_SCHEDULE }
+  }
+  const raw = value as Partial<FeeSchedule>
+
+  return {
+    killFee: isRecord(raw.killFee) ? raw.killFee : {},
+    cutAndWrapPerLb: isRecord(raw.cutAndWrapPerLb) ? raw.cutAndWrapPerLb : {},
+    cutAndWrapMinimum: numberOr(raw.cutAndWrapMinimum, DEFAULT_FEE_SCHEDULE.cutAndWrapMinimum),
+    cutSurcharges: isRecord(raw.cutSurcharges) ? raw.cutSurcharges : {},
+    pattyFeePerLb: numberOr(raw.pattyFeePerLb, DEFAULT_FEE_SCHEDULE.pattyFeePerLb),
+    sausageFeePerLb: numberOr(raw.sausageFeePerLb, DEFAULT_FEE_SCHEDULE.sausageFeePerLb),
+    storageFeePerDay: numberOr(raw.storageFeePerDay, DEFAULT_FEE_SCHEDULE.storageFeePerDay),
+    storageFreeDays: numberOr(raw.storageFreeDays, DEFAULT_FEE_SCHEDULE.storageFreeDays),
+    paymentTermsDays: numberOr(raw.paymentTermsDays, DEFAULT_FEE_SCHEDULE.paymentTermsDays),
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function lineItem(
+  category: InvoiceLineCategory,
+  description: string,
+  quantity: number,
+  unit: InvoiceLineUnit,
+  unitPrice: number
+): InvoiceLineItem {
+  const roundedQuantity = Math.round(quantity * 100) / 100
+  return {
+    category,
+    description,
+    quantity: roundedQuantity,
+    unit,
+    unitPrice,
+    amount: roundCents(roundedQuantity * unitPrice),
+  }
+}
+
+// Total weight of the packages, or null if any is unweighed (or there are none)
+function weighedPounds(packages: InvoicePackage[]): number | null {
+  if (packages.length === 0) return null
+  if (packages.some(p => p.actual_weight_lbs === null || p.actual_weight_lbs <= 0)) return null
+  return packages.reduce((sum, p) => sum + (p.actual_weight_lbs || 0), 0)
+}
+
+function isGroundCut(animalType: AnimalType, cutId: string): boolean {
+  const cut = getCutById(animalType, cutId)
+  if (cut) return cut.type === 'ground'
+  return cutId.includes('ground')
+}
+
+function formatFlavor(flavor: string): string {
+  return flavor
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+function startOfDay(date: string): number {
+  const d = new Date(date)
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate())
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
@@ -0,0 +1,73 @@
+/**
+ * Code 128 Barcode Encoder
+ *
+ * Encodes printable ASCII with code set B and returns bar/space module widths
+ * so the PDF renderer can draw the bars itself. Zebra printers encode Code 128
+ * natively, so the ZPL renderer doesn't need this.
+ */
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+// Bar/space widths for symbol values 0-105, alternating bar, space, bar...
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+]
+
+const START_B = 104
+const STOP = 106
+const STOP_PATTERN = '2331112'
+
+// Quiet zone required on each side, in modules
+export const CODE128_QUIET_ZONE = 10
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Symbol values for `text` in code set B: start, data, checksum, stop.
+ */
+export function encodeCode128Values(text: string): number[] {
+  const values = [START_B]
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 32 || code > 126) {
+      throw new Error(`Code 128 set B cannot encode character code ${code}`)
+    }
+    values.push(code - 32)
+  }
+
+  // The start symbol and first data symbol both have weight 1
+  const checksum = values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) % 103
+  values.push(checksum, STOP)
+  return values
+}
+
+/**
+ * Module widths for `text`, starting with a bar. Quiet zones are not included.
+ */
+export function encodeCode128(text: string): number[] {
+  return encodeCode128Values(text).flatMap(value => {
+    const pattern = value === STOP ? STOP_PATTERN : PATTERNS[value]
+    return pattern.split('').map(Number)
+  })
+}
+
+/**
+ * Total width in modules, excluding quiet zones: 11 per symbol, 13 for stop.
+ */
+export function getCode128Width(text: string): number {
+  return (text.length + 2) * 11 + 13
+}
@@ -0,0 +1,5 @@
+export { encodeCode128, encodeCode128Values, getCode128Width, CODE128_QUIET_ZONE } from './code128'
+export { buildPackageLabel, getInspectionLegend, parseLabelSize, LABEL_STOCK } from './package-label'
+export type { LabelSize, LabelStock, PackageLabel, LabelPackageSource, LabelOrderSource } from './package-label'
+export { renderLabelZpl, renderLabelsZpl } from './zpl'
+export { renderLabelsPdf } from './pdf'
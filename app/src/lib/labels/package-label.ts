@@ -0,0 +1,114 @@
+/**
+ * Package Label Content
+ *
+ * Builds the text printed on each produced package label, independent of
+ * output format. The PDF and ZPL renderers lay these fields out for the
+ * chosen label stock.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LabelSize = '4x2' | '4x3'
+
+export interface LabelStock {
+  widthIn: number
+  heightIn: number
+  label: string
+}
+
+export interface LabelPackageSource {
+  id: string
+  cut_name: string
+  package_number: number
+  actual_weight_lbs: number | null
+  created_at: string
+  livestock_tracking_id: string | null
+}
+
+export interface LabelOrderSource {
+  order_number: number
+  producer_name: string
+  farm_name: string | null
+  tracking_id: string | null
+  license_type: string | null
+  license_number: string | null
+}
+
+export interface PackageLabel {
+  packageId: string               // Encoded in the barcode
+  cutName: string
+  weight: string                  // "Net Wt 1.25 lb" or blank line for weighing later
+  packageNumber: string
+  orderNumber: string
+  farmName: string
+  trackingId: string | null
+  processedDate: string
+  inspectionLegend: string
+}
+
+export const LABEL_STOCK: Record<LabelSize, LabelStock> = {
+  '4x2': { widthIn: 4, heightIn: 2, label: '4" x 2"' },
+  '4x3': { widthIn: 4, heightIn: 3, label: '4" x 3"' },
+}
+
+// ============================================================================
+// Label Building
+// ============================================================================
+
+/**
+ * Build the printed fields for one produced package.
+ */
+export function buildPackageLabel(pkg: LabelPackageSource, order: LabelOrderSource): PackageLabel {
+  return {
+    packageId: pkg.id,
+    cutName: pkg.cut_name,
+    weight: pkg.actual_weight_lbs
+      ? `Net Wt ${Number(pkg.actual_weight_lbs).toFixed(2)} lb`
+      : 'Net Wt ______ lb',
+    packageNumber: `Pkg #${pkg.package_number}`,
+    orderNumber: `Order #${order.order_number}`,
+    farmName: order.farm_name || order.producer_name,
+    trackingId: pkg.livestock_tracking_id || order.tracking_id,
+    processedDate: formatLabelDate(pkg.created_at),
+    inspectionLegend: getInspectionLegend(order.license_type, order.license_number),
+  }
+}
+
+/**
+ * Legend required by the processor's inspection status. Custom exempt meat
+ * must be marked not for sale.
+ */
+export function getInspectionLegend(licenseType: string | null, licenseNumber: string | null): string {
+  const est = licenseNumber ? ` - EST. ${licenseNumber}` : ''
+
+  switch (licenseType) {
+    case 'usda':
+      return `USDA Inspected and Passed${est}`
+    case 'state':
+      return `State Inspected and Passed${est}`
+    case 'custom_exempt':
+      return 'NOT FOR SALE - Custom Exempt'
+    default:
+      return licenseNumber ? `EST. ${licenseNumber}` : ''
+  }
+}
+
+/**
+ * Parse a size query value, defaulting to 4x2 stock.
+ */
+export function parseLabelSize(value: string | null | undefined): LabelSize {
+  return value && value in LABEL_STOCK ? value as LabelSize : '4x2'
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function formatLabelDate(date: string): string {
+  const d = new Date(date)
+  const month = String(d.getUTCMonth() + 1).padStart(2, '0')
+  const day = String(d.getUTCDate()).padStart(2, '0')
+  return `Packed ${month}/${day}/${d.getUTCFullYear()}`
+}
@@ -0,0 +1,87 @@
+/**
+ * PDF Label Renderer
+ *
+ * Writes a minimal print-ready PDF with one page per label, sized to the
+ * label stock so thermal printers print at 100% scale. Uses the built-in
+ * Helvetica fonts and draws Code 128 bars as filled rectangles, so no PDF
+ * library is needed.
+ */
+
+import { encodeCode128, getCode128Width, CODE128_QUIET_ZONE } from './code128'
+import { LABEL_STOCK, type LabelSize, type PackageLabel } from './package-label'
+import {
+  writePdf,
+  textOp,
+  estimateTextWidth,
+  fitText,
+  pdfNumber as num,
+  POINTS_PER_INCH,
+  type PdfFont,
+} from '@/lib/pdf'
+
+const MARGIN = 10
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render labels as a PDF document, one page per label
+ */
+export function renderLabelsPdf(labels: PackageLabel[], size: LabelSize): string {
+  const stock = LABEL_STOCK[size]
+  const width = stock.widthIn * POINTS_PER_INCH
+  const height = stock.heightIn * POINTS_PER_INCH
+
+  return writePdf(labels.map(label => ({
+    width,
+    height,
+    content: renderLabelContent(label, width, height),
+  })))
+}
+
+function renderLabelContent(label: PackageLabel, width: number, height: number): string {
+  const ops: string[] = []
+  const textWidth = width - MARGIN * 2
+  let y = height - MARGIN
+
+  const line = (text: string, font: PdfFont, size: number, gap = 3) => {
+    y -= size
+    ops.push(textOp(fitText(text, textWidth, size, font), font, size, MARGIN, y))
+    y -= gap
+  }
+
+  line(label.cutName, 'F2', 15, 4)
+
+  // Weight on the left, package number right-aligned on the same line
+  y -= 12
+  ops.push(textOp(label.weight, 'F2', 12, MARGIN, y))
+  const pkgWidth = estimateTextWidth(label.packageNumber, 12, 'F2')
+  ops.push(textOp(label.packageNumber, 'F2', 12, width - MARGIN - pkgWidth, y))
+  y -= 5
+
+  line(`${label.orderNumber} - ${label.farmName}`, 'F1', 8)
+  line([label.trackingId, label.processedDate].filter(Boolean).join(' - '), 'F1', 8)
+  if (label.inspectionLegend) line(label.inspectionLegend, 'F2', 7)
+
+  // Barcode fills the remaining space above the human-readable package ID
+  const captionSize = 6
+  const barcodeBottom = MARGIN + captionSize + 3
+  const barcodeHeight = Math.min(80, y - 4 - barcodeBottom)
+  const modules = getCode128Width(label.packageId) + CODE128_QUIET_ZONE * 2
+  const moduleWidth = textWidth / modules
+  let x = MARGIN + CODE128_QUIET_ZONE * moduleWidth
+
+  encodeCode128(label.packageId).forEach((widthInModules, index) => {
+    const barWidth = widthInModules * moduleWidth
+    if (index % 2 === 0) {
+      ops.push(`${num(x)} ${num(barcodeBottom)} ${num(barWidth)} ${num(barcodeHeight)} re f`)
+    }
+    x += barWidth
+  })
+
+  const captionWidth = estimateTextWidth(label.packageId, captionSize, 'F1')
+  ops.push(textOp(label.packageId, 'F1', captionSize, (width - captionWidth) / 2, MARGIN))
+
+  return ops.join('\n')
+}
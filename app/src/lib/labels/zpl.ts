@@ -0,0 +1,59 @@
+/**
+ * ZPL Label Renderer
+ *
+ * Renders package labels as ZPL II for Zebra thermal printers at 203 dpi.
+ * The printer draws the Code 128 barcode itself from the package ID.
+ */
+
+import { getCode128Width, CODE128_QUIET_ZONE } from './code128'
+import { LABEL_STOCK, type LabelSize, type PackageLabel } from './package-label'
+
+const DOTS_PER_INCH = 203
+const MARGIN = 20
+
+/**
+ * Render one label as a complete ^XA...^XZ format.
+ */
+export function renderLabelZpl(label: PackageLabel, size: LabelSize): string {
+  const stock = LABEL_STOCK[size]
+  const width = Math.round(stock.widthIn * DOTS_PER_INCH)
+  const height = Math.round(stock.heightIn * DOTS_PER_INCH)
+  const textWidth = width - MARGIN * 2
+
+  // Widest module that still fits the barcode and its quiet zones
+  const modules = getCode128Width(label.packageId) + CODE128_QUIET_ZONE * 2
+  const moduleWidth = Math.min(3, Math.max(1, Math.floor(textWidth / modules)))
+  const barcodeX = Math.max(MARGIN, Math.round((width - getCode128Width(label.packageId) * moduleWidth) / 2))
+  const barcodeY = 196
+  const barcodeHeight = Math.min(200, height - barcodeY - 50)
+
+  const details = [label.trackingId, label.processedDate].filter(Boolean).join(' - ')
+
+  return [
+    '^XA',
+    `^PW${width}`,
+    `^LL${height}`,
+    '^LH0,0',
+    `^FO${MARGIN},${MARGIN}^A0N,40,40^FB${textWidth},1,0,L^FD${zplText(label.cutName)}^FS`,
+    `^FO${MARGIN},70^A0N,32,32^FD${zplText(label.weight)}^FS`,
+    `^FO${MARGIN},70^A0N,32,32^FB${textWidth},1,0,R^FD${zplText(label.packageNumber)}^FS`,
+    `^FO${MARGIN},112^A0N,24,24^FB${textWidth},1,0,L^FD${zplText(`${label.orderNumber} - ${label.farmName}`)}^FS`,
+    `^FO${MARGIN},140^A0N,24,24^FD${zplText(details)}^FS`,
+    `^FO${MARGIN},168^A0N,22,22^FB${textWidth},1,0,L^FD${zplText(label.inspectionLegend)}^FS`,
+    `^BY${moduleWidth},2,${barcodeHeight}`,
+    `^FO${barcodeX},${barcodeY}^BCN,${barcodeHeight},Y,N,N^FD${zplText(label.packageId)}^FS`,
+    '^XZ',
+  ].join('\n')
+}
+
+/**
+ * Render a batch of labels as one ZPL document, one format per label.
+ */
+export function renderLabelsZpl(labels: PackageLabel[], size: LabelSize): string {
+  return labels.map(label => renderLabelZpl(label, size)).join('\n') + '\n'
+}
+
+// ^ and ~ are ZPL command prefixes; anything outside printable ASCII is dropped
+function zplText(text: string): string {
+  return text.replace(/[\^~]/g, ' ').replace(/[^\x20-\x7E]/g, '')
+}
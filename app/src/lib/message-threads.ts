@@ -0,0 +1,170 @@
+/**
+ * Message Threads
+ *
+ * Messages between two organizations are either their general conversation
+ * or belong to a thread about one order - optionally about one cut on its
+ * cut sheet. A thread is always between the order's producer and processor
+ * (Postgres fills those in from the order, and checks each message).
+ *
+ * Messages can carry photos and files (a carcass photo, a USDA form). The
+ * browser uploads them to the private message-attachments bucket at
+ * <sender org>/<recipient org>/<id>/<file name>; storage policies let only
+ * those two organizations read them, and the app shows them through signed
+ * URLs.
+ *
+ * Pure functions only - lib/actions/messages.ts loads and sends messages.
+ */
+
+import type { Message, MessageAttachment, MessageThread, OrderStatus } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const MESSAGE_ATTACHMENT_BUCKET = 'message-attachments'
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024   // matches the bucket's file_size_limit
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+export const ATTACHMENT_URL_SECONDS = 60 * 60
+
+// Matches the bucket's allowed_mime_types
+export const ATTACHMENT_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/heic',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+]
+
+export interface MessageAttachmentWithUrl extends MessageAttachment {
+  url: string | null              // signed URL, null if signing failed
+}
+
+export interface MessageWithSender extends Message {
+  sender: { full_name: string } | null
+  attachments: MessageAttachmentWithUrl[]
+}
+
+// A file uploaded to storage, waiting to be attached to the message it's sent with
+export interface UploadedAttachment {
+  storage_path: string
+  file_name: string
+  content_type: string
+  size_bytes: number
+}
+
+export interface ThreadOrderContext {
+  id: string
+  order_number: number
+  status: OrderStatus
+  processing_stage: string
+  scheduled_drop_off: string | null
+  estimated_ready_date: string | null
+  livestock: { animal_type: string; tag_number: string | null; name: string | null } | null
+  producer: { id: string; name: string } | null
+  processor: { id: string; name: string } | null
+}
+
+export interface ThreadWithOrder extends MessageThread {
+  order: ThreadOrderContext | null
+}
+
+export interface ThreadSummary extends ThreadWithOrder {
+  unreadCount: number
+}
+
+// ============================================================================
+// Threads
+// ============================================================================
+
+export function getThreadTitle(thread: { cut_name: string | null }, orderNumber: number | null | undefined): string {
+  const order = orderNumber ? `Order #${orderNumber}` : 'Order'
+  return thread.cut_name ? `${order} - ${thread.cut_name}` : order
+}
+
+/**
+ * The other organization in a thread
+ */
+export function getThreadPartnerOrgId(
+  thread: Pick<MessageThread, 'producer_org_id' | 'processor_org_id'>,
+  myOrgId: string
+): string {
+  return thread.producer_org_id === myOrgId ? thread.processor_org_id : thread.producer_org_id
+}
+
+// ============================================================================
+// Attachments
+// ============================================================================
+
+/**
+ * Why a file can't be attached, or null if it can
+ */
+export function validateAttachment(file: { name: string; size: number; type: string }): string | null {
+  if (file.size <= 0) return `${file.name} is empty`
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`
+  }
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return `${file.name} isn't a photo, PDF or document that can be attached`
+  }
+  return null
+}
+
+export function validateAttachments(files: { name: string; size: number; type: string }[]): string | null {
+  if (files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return `Attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`
+  }
+  for (const file of files) {
+    const error = validateAttachment(file)
+    if (error) return error
+  }
+  return null
+}
+
+/**
+ * A file name safe for a storage path, keeping its extension
+ */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() || ''
+  const dot = base.lastIndexOf('.')
+  const stem = dot > 0 ? base.slice(0, dot) : base
+  const extension = dot > 0 ? base.slice(dot + 1).replace(/[^A-Za-z0-9]/g, '').toLowerCase().slice(0, 10) : ''
+
+  const safeStem = stem
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, 80) || 'file'
+
+  return extension ? `${safeStem}.${extension}` : safeStem
+}
+
+export function getAttachmentPath(senderOrgId: string, recipientOrgId: string, id: string, fileName: string): string {
+  return `${senderOrgId}/${recipientOrgId}/${id}/${sanitizeFileName(fileName)}`
+}
+
+/**
+ * Whether an upload's path puts it between these two organizations
+ */
+export function isAttachmentPathFor(path: string, senderOrgId: string, recipientOrgId: string): boolean {
+  const parts = path.split('/')
+  return parts.length === 4 && parts[0] === senderOrgId && parts[1] === recipientOrgId && parts.every(Boolean)
+}
+
+export function isImageAttachment(contentType: string): boolean {
+  return contentType.startsWith('image/') && contentType !== 'image/heic'
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(/\.0$/, '')} MB`
+}
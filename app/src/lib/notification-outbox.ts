@@ -0,0 +1,152 @@
+/**
+ * Notification Outbox
+ *
+ * Notification emails and texts aren't sent where they happen: each one is
+ * queued as a notification_outbox row and sent by a worker
+ * (lib/notifications/outbox.ts), so a provider outage or a crashed request
+ * doesn't lose them.
+ *
+ * Delivery status:
+ * - queued: waiting for its first try
+ * - sent: the provider accepted it (with the provider's message ID)
+ * - failed: the last try failed - retried with exponential backoff
+ * - dead: gave up after OUTBOX_MAX_ATTEMPTS tries (the dead letter state)
+ *   until an owner or manager retries it
+ * - bounced: the provider reported it undeliverable afterwards - not retried
+ *
+ * Pure functions only - lib/notifications/outbox.ts queues and sends.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutboxChannel = 'email' | 'sms'
+export type OutboxStatus = 'queued' | 'sent' | 'bounced' | 'failed' | 'dead'
+
+export interface OutboxEmailPayload {
+  subject: string
+  html: string
+  text: string
+  reply_to?: string | null
+  attachments?: OutboxAttachment[]
+}
+
+// Stored in the JSON payload, so the content is base64
+export interface OutboxAttachment {
+  filename: string
+  content: string
+}
+
+export interface OutboxSmsPayload {
+  body: string
+}
+
+export interface OutboxJob {
+  id: string
+  created_at: string
+  organization_id: string | null
+  user_id: string | null
+  channel: OutboxChannel
+  recipient: string
+  notification_type: string
+  payload: OutboxEmailPayload | OutboxSmsPayload
+  status: OutboxStatus
+  attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  provider: string | null
+  provider_message_id: string | null
+  sent_at: string | null
+}
+
+// A bounce or complaint reported by a provider's webhook
+export interface DeliveryEvent {
+  providerMessageId: string
+  reason: string
+}
+
+export const OUTBOX_MAX_ATTEMPTS = 6
+
+// How long a worker has to finish a send before another may try it
+export const OUTBOX_LEASE_MS = 10 * 60 * 1000
+
+const RETRY_BASE_MS = 5 * 60 * 1000
+const RETRY_MAX_MS = 4 * 60 * 60 * 1000
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  bounced: 'Bounced',
+  failed: 'Retrying',
+  dead: 'Gave up',
+}
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+/**
+ * The wait after a failed try: 5, 10, 20, 40 minutes... up to 4 hours
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS)
+}
+
+/**
+ * What to record after a failed try: retry later, or give up after the
+ * last attempt
+ */
+export function getFailureUpdate(
+  attempts: number,
+  error: string,
+  now: Date = new Date()
+): { status: OutboxStatus; next_attempt_at: string; last_error: string } {
+  const dead = attempts >= OUTBOX_MAX_ATTEMPTS
+  return {
+    status: dead ? 'dead' : 'failed',
+    next_attempt_at: new Date(now.getTime() + (dead ? 0 : getRetryDelay(attempts))).toISOString(),
+    last_error: error.slice(0, 1000),
+  }
+}
+
+export function summarizeOutbox(jobs: Pick<OutboxJob, 'status'>[]): Record<OutboxStatus, number> {
+  const summary: Record<OutboxStatus, number> = { queued: 0, sent: 0, bounced: 0, failed: 0, dead: 0 }
+  for (const job of jobs) summary[job.status]++
+  return summary
+}
+
+// ============================================================================
+// Provider Webhooks
+// ============================================================================
+
+/**
+ * Resend's email.bounced and email.complained webhooks; delivered and
+ * delayed emails don't change anything
+ */
+export function parseResendDeliveryEvent(payload: unknown): DeliveryEvent | null {
+  const event = payload as { type?: string; data?: { email_id?: string; bounce?: { message?: string } } } | null
+  const id = event?.data?.email_id
+  if (!id) return null
+
+  if (event.type === 'email.bounced') {
+    return { providerMessageId: id, reason: event.data?.bounce?.message || 'Bounced' }
+  }
+  if (event.type === 'email.complained') {
+    return { providerMessageId: id, reason: 'Marked as spam by the recipient' }
+  }
+  return null
+}
+
+/**
+ * Twilio's status callback for a text that couldn't be delivered
+ */
+export function parseTwilioDeliveryStatus(params: Record<string, string>): DeliveryEvent | null {
+  if (!params.MessageSid) return null
+  if (params.MessageStatus !== 'undelivered' && params.MessageStatus !== 'failed') return null
+
+  return {
+    providerMessageId: params.MessageSid,
+    reason: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : `Text ${params.MessageStatus}`,
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Notification Preferences
+ *
+ * How each kind of notification reaches someone, per channel:
+ * - in-app: the bell and notifications page - on or off
+ * - email: right away, in one daily digest, or not at all
+ * - text: on or off, and only once the user has turned texting on
+ *   (lib/sms-notifications.ts) - quiet hours still apply
+ *
+ * Built-in defaults, then the organization's defaults
+ * (organizations.settings.notification_defaults), then the user's own
+ * choices (users.notification_preferences.overrides). Only the settings that
+ * differ are stored, so a later change to a default still reaches everyone
+ * who didn't choose otherwise.
+ *
+ * The daily digest gathers a day's unread notifications, so a type emailed
+ * as a digest always stays on in the app.
+ *
+ * Pure functions only - lib/notifications/ routes and sends notifications
+ * and lib/actions/notification-preferences.ts loads and saves preferences.
+ */
+
+import type { Json, NotificationType } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationChannel = 'in_app' | 'email' | 'sms'
+export type DeliveryFrequency = 'immediate' | 'daily_digest' | 'off'
+
+export type ChannelPreferences = Record<NotificationChannel, DeliveryFrequency>
+export type PreferenceMatrix = Record<NotificationType, ChannelPreferences>
+export type PreferenceOverrides = Partial<Record<NotificationType, Partial<ChannelPreferences>>>
+
+export interface NotificationTypeInfo {
+  type: NotificationType
+  label: string
+  description: string
+}
+
+export interface DigestNotification {
+  type: string
+  title: string
+  body: string | null
+  created_at: string
+  processing_order_id: string | null
+}
+
+export const NOTIFICATION_TYPES: NotificationTypeInfo[] = [
+  { type: 'order_submitted', label: 'New Orders', description: 'An order is submitted' },
+  { type: 'order_confirmed', label: 'Order Confirmed', description: 'The processor confirms an order' },
+  { type: 'order_status_update', label: 'Processing Updates', description: 'An order moves through processing' },
+  { type: 'order_ready', label: 'Ready for Pickup', description: 'An order is ready to pick up' },
+  { type: 'order_complete', label: 'Order Complete', description: 'An order is picked up or cancelled' },
+  { type: 'new_message', label: 'New Messages', description: 'Someone sends you a message' },
+  { type: 'slot_available', label: 'Slot Offers', description: 'Another producer offers you their slot' },
+  { type: 'waitlist_available', label: 'Waitlist Openings', description: 'A slot opens up for your waitlist entry' },
+  { type: 'system', label: 'Account & Announcements', description: 'Reliability, invoices and platform notices' },
+]
+
+export const NOTIFICATION_CHANNELS: { channel: NotificationChannel; label: string }[] = [
+  { channel: 'in_app', label: 'In App' },
+  { channel: 'email', label: 'Email' },
+  { channel: 'sms', label: 'Text' },
+]
+
+export const CHANNEL_FREQUENCIES: Record<NotificationChannel, DeliveryFrequency[]> = {
+  in_app: ['immediate', 'off'],
+  email: ['immediate', 'daily_digest', 'off'],
+  sms: ['immediate', 'off'],
+}
+
+export const FREQUENCY_LABELS: Record<DeliveryFrequency, string> = {
+  immediate: 'Right away',
+  daily_digest: 'Daily digest',
+  off: 'Off',
+}
+
+const TIME_SENSITIVE: NotificationType[] = ['order_ready', 'slot_available', 'waitlist_available']
+
+function buildDefaults(): PreferenceMatrix {
+  const matrix = {} as PreferenceMatrix
+  for (const { type } of NOTIFICATION_TYPES) {
+    matrix[type] = {
+      in_app: 'immediate',
+      email: type === 'system' ? 'off' : 'immediate',
+      sms: TIME_SENSITIVE.includes(type) ? 'immediate' : 'off',
+    }
+  }
+  return matrix
+}
+
+export const DEFAULT_PREFERENCE_MATRIX: PreferenceMatrix = buildDefaults()
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {}
+}
+
+/**
+ * Keep only known types, channels and the frequencies each channel allows
+ */
+export function parsePreferenceOverrides(value: unknown): PreferenceOverrides {
+  const raw = asObject(value)
+  const overrides: PreferenceOverrides = {}
+
+  for (const { type } of NOTIFICATION_TYPES) {
+    const channels = asObject(raw[type])
+    for (const { channel } of NOTIFICATION_CHANNELS) {
+      const frequency = channels[channel] as DeliveryFrequency
+      if (CHANNEL_FREQUENCIES[channel].includes(frequency)) {
+        overrides[type] = { ...overrides[type], [channel]: frequency }
+      }
+    }
+  }
+
+  return overrides
+}
+
+export function getOrganizationDefaults(settings: Json | null): PreferenceOverrides {
+  return parsePreferenceOverrides(asObject(settings).notification_defaults)
+}
+
+export function getUserOverrides(preferences: Json | null): PreferenceOverrides {
+  return parsePreferenceOverrides(asObject(preferences).overrides)
+}
+
+/**
+ * The on/off switches saved before per-type preferences, for users who
+ * haven't saved since. Only choices that differ from the old defaults count.
+ */
+export function getLegacyOverrides(preferences: Json | null): PreferenceOverrides {
+  const prefs = asObject(preferences)
+  if (prefs.overrides) return {}
+
+  const overrides: PreferenceOverrides = {}
+  const set = (types: NotificationType[], channel: NotificationChannel, frequency: DeliveryFrequency) => {
+    for (const type of types) overrides[type] = { ...overrides[type], [channel]: frequency }
+  }
+  const orderTypes = NOTIFICATION_TYPES
+    .map(t => t.type)
+    .filter(type => type.startsWith('order_') || type === 'slot_available' || type === 'waitlist_available')
+
+  if (prefs.email_order_updates === false) set(orderTypes, 'email', 'off')
+  if (prefs.email_messages === false) set(['new_message'], 'email', 'off')
+  if (prefs.email_system === true) set(['system'], 'email', 'immediate')
+  if (prefs.sms_order_updates === false) set(orderTypes, 'sms', 'off')
+  if (prefs.sms_order_updates === true) set(orderTypes, 'sms', 'immediate')
+  if (prefs.sms_messages === true) set(['new_message'], 'sms', 'immediate')
+  if (prefs.sms_system === true) set(['system'], 'sms', 'immediate')
+
+  return overrides
+}
+
+// ============================================================================
+// Resolving
+// ============================================================================
+
+function applyOverrides(matrix: PreferenceMatrix, overrides: PreferenceOverrides): PreferenceMatrix {
+  const result = { ...matrix }
+  for (const [type, channels] of Object.entries(overrides) as [NotificationType, Partial<ChannelPreferences>][]) {
+    result[type] = { ...result[type], ...channels }
+  }
+  return result
+}
+
+/**
+ * Everything a user gets, with their organization's defaults under their
+ * own choices
+ */
+export function resolvePreferenceMatrix(
+  userPreferences: Json | null,
+  organizationDefaults: PreferenceOverrides = {}
+): PreferenceMatrix {
+  let matrix = applyOverrides(DEFAULT_PREFERENCE_MATRIX, organizationDefaults)
+  matrix = applyOverrides(matrix, getLegacyOverrides(userPreferences))
+  matrix = applyOverrides(matrix, getUserOverrides(userPreferences))
+
+  // The digest is built from the in-app notifications
+  for (const { type } of NOTIFICATION_TYPES) {
+    if (matrix[type].email === 'daily_digest') matrix[type] = { ...matrix[type], in_app: 'immediate' }
+  }
+  return matrix
+}
+
+/**
+ * Who in an organization gets a notification on each channel, right away.
+ * Daily digests are sent later from the in-app notifications.
+ */
+export function routeNotification<T extends { notification_preferences: Json | null }>(
+  users: T[],
+  organizationDefaults: PreferenceOverrides,
+  type: NotificationType
+): { inApp: T[]; email: T[]; sms: T[] } {
+  const route = { inApp: [] as T[], email: [] as T[], sms: [] as T[] }
+
+  for (const user of users) {
+    const channels = resolvePreferenceMatrix(user.notification_preferences, organizationDefaults)[type]
+      ?? DEFAULT_PREFERENCE_MATRIX.system
+    if (channels.in_app === 'immediate') route.inApp.push(user)
+    if (channels.email === 'immediate') route.email.push(user)
+    if (channels.sms === 'immediate') route.sms.push(user)
+  }
+
+  return route
+}
+
+export function getDigestTypes(matrix: PreferenceMatrix): NotificationType[] {
+  return NOTIFICATION_TYPES.map(t => t.type).filter(type => matrix[type].email === 'daily_digest')
+}
+
+/**
+ * The overrides after changing one setting. Settings matching the defaults
+ * underneath are dropped, so they keep following those defaults.
+ */
+export function setPreference(
+  overrides: PreferenceOverrides,
+  underlying: PreferenceMatrix,
+  type: NotificationType,
+  channel: NotificationChannel,
+  frequency: DeliveryFrequency
+): PreferenceOverrides {
+  const channels: Partial<ChannelPreferences> = { ...overrides[type], [channel]: frequency }
+  if (underlying[type][channel] === frequency) delete channels[channel]
+
+  const result = { ...overrides, [type]: channels }
+  if (Object.keys(channels).length === 0) delete result[type]
+  return result
+}
+
+// ============================================================================
+// Digest
+// ============================================================================
+
+/**
+ * A day's notifications grouped by type, in settings order, oldest first
+ */
+export function groupDigestNotifications<T extends DigestNotification>(
+  notifications: T[]
+): { label: string; notifications: T[] }[] {
+  return NOTIFICATION_TYPES
+    .map(({ type, label }) => ({
+      label,
+      notifications: notifications
+        .filter(n => n.type === type)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+    .filter(group => group.notifications.length > 0)
+}
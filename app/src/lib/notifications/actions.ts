@@ -2,38 +2,9 @@
 
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
-import { sendBulkNotificationEmails } from '@/lib/email'
-import type { NotificationType, NotificationWithRelations, Json } from '@/types/database'
-
-interface NotificationPreferences {
-  email_order_updates?: boolean
-  email_messages?: boolean
-  email_system?: boolean
-}
-
-function getDefaultPreferences(): NotificationPreferences {
-  return {
-    email_order_updates: true,
-    email_messages: true,
-    email_system: false,
-  }
-}
-
-function shouldSendEmail(type: NotificationType, preferences: Json | null): boolean {
-  const prefs = (preferences as NotificationPreferences) || getDefaultPreferences()
-
-  if (type.startsWith('order_')) {
-    return prefs.email_order_updates !== false
-  }
-  if (type === 'new_message') {
-    return prefs.email_messages !== false
-  }
-  if (type === 'slot_available') {
-    return prefs.email_order_updates !== false
-  }
-  // system notifications
-  return prefs.email_system === true
-}
+import { createServiceClient } from '@/lib/supabase/service'
+import { notifyOrderStatus, notifyProcessingStage, type OrderNotificationSubject } from './system'
+import type { NotificationType, NotificationWithRelations } from '@/types/database'
 
 export async function getNotifications(limit = 10): Promise<NotificationWithRelations[]> {
   const supabase = await createClient()
@@ -176,195 +147,78 @@ export async function createNotification(params: CreateNotificationParams): Prom
   return {}
 }
 
-// Helper to create notifications for all users in an organization
-export async function notifyOrganization(
-  organizationId: string,
-  type: NotificationType,
-  title: string,
-  body?: string,
-  processingOrderId?: string
-): Promise<{ error?: string }> {
-  const supabase = await createClient()
-
-  // Get all users in the organization with email and preferences
-  const { data: users } = await supabase
-    .from('users')
-    .select('id, email, full_name, notification_preferences')
-    .eq('organization_id', organizationId)
-    .eq('is_active', true) as { data: { id: string; email: string; full_name: string | null; notification_preferences: Json | null }[] | null }
-
-  if (!users || users.length === 0) {
-    return { error: 'No users found in organization' }
-  }
+// ============================================
+// Order notifications
+// ============================================
 
-  // Create notifications for all users
-  const notifications = users.map(user => ({
-    user_id: user.id,
-    type,
-    title,
-    body: body || null,
-    processing_order_id: processingOrderId || null,
-  }))
+// The order, if the signed-in user's organization is its producer or processor
+async function getOrderForNotification(orderId: string): Promise<(OrderNotificationSubject & { status: string; processingStage: string }) | null> {
+  const supabase = await createClient()
 
-  const { error } = await supabase
-    .from('notifications')
-    .insert(notifications as never)
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
 
-  if (error) {
-    return { error: error.message }
+  const { data: profile } = await supabase
+    .from('users')
+    .select('organization_id')
+    .eq('auth_id', user.id)
+    .single() as { data: { organization_id: string | null } | null }
+
+  if (!profile?.organization_id) return null
+
+  const { data: order } = await supabase
+    .from('processing_orders')
+    .select('id, order_number, status, processing_stage, producer_id, processor_id, livestock:livestock_id (animal_type)')
+    .eq('id', orderId)
+    .single() as {
+      data: {
+        id: string
+        order_number: number
+        status: string
+        processing_stage: string
+        producer_id: string
+        processor_id: string
+        livestock: { animal_type: string } | null
+      } | null
+    }
+
+  if (!order || (order.producer_id !== profile.organization_id && order.processor_id !== profile.organization_id)) {
+    return null
   }
 
-  // Send emails to users who have email notifications enabled
-  const emailRecipients = users
-    .filter(user => shouldSendEmail(type, user.notification_preferences))
-    .map(user => ({
-      email: user.email,
-      name: user.full_name || undefined,
-    }))
-
-  if (emailRecipients.length > 0) {
-    // Send emails in the background (don't await)
-    sendBulkNotificationEmails({
-      recipients: emailRecipients,
-      type,
-      title,
-      body: body || '',
-      orderId: processingOrderId,
-    }).catch(err => {
-      console.error('[Notifications] Failed to send emails:', err)
-    })
+  return {
+    orderId: order.id,
+    orderNumber: order.order_number,
+    producerOrgId: order.producer_id,
+    processorOrgId: order.processor_id,
+    animalType: order.livestock?.animal_type,
+    status: order.status,
+    processingStage: order.processing_stage,
   }
-
-  return {}
 }
 
-// Order status change notification helper
-interface OrderNotificationParams {
-  orderId: string
-  orderNumber: number
-  newStatus: string
-  processingStage?: string
-  producerOrgId: string
-  processorOrgId: string
-  animalType?: string
-}
+/**
+ * Tell the parties on an order the signed-in user is on that it moved to the
+ * status it now has
+ */
+export async function notifyOrderStatusChange(orderId: string, newStatus: string): Promise<{ error?: string }> {
+  const order = await getOrderForNotification(orderId)
+  if (!order) return { error: 'Order not found' }
+  if (order.status !== newStatus) return { error: `Order is not ${newStatus}` }
 
-const STATUS_MESSAGES: Record<string, { producer: { title: string; body: string }; processor?: { title: string; body: string } }> = {
-  submitted: {
-    producer: { title: 'Order Submitted', body: 'Your order has been submitted and is awaiting confirmation.' },
-    processor: { title: 'New Order Received', body: 'A new processing order has been submitted.' },
-  },
-  confirmed: {
-    producer: { title: 'Order Confirmed', body: 'Your order has been confirmed by the processor.' },
-  },
-  in_progress: {
-    producer: { title: 'Processing Started', body: 'Your order is now being processed.' },
-  },
-  ready: {
-    producer: { title: 'Order Ready', body: 'Your order is ready for pickup!' },
-  },
-  complete: {
-    producer: { title: 'Order Complete', body: 'Your order has been completed and picked up.' },
-    processor: { title: 'Order Completed', body: 'The order has been marked as complete.' },
-  },
-  cancelled: {
-    producer: { title: 'Order Cancelled', body: 'Your order has been cancelled.' },
-    processor: { title: 'Order Cancelled', body: 'The order has been cancelled.' },
-  },
-}
-
-export async function notifyOrderStatusChange(params: OrderNotificationParams): Promise<{ error?: string }> {
-  const messages = STATUS_MESSAGES[params.newStatus]
-  if (!messages) return {}
-
-  const results: { error?: string }[] = []
-
-  // Notify producer
-  if (messages.producer) {
-    const title = `Order #${params.orderNumber}: ${messages.producer.title}`
-    const body = messages.producer.body + (params.animalType ? ` (${params.animalType})` : '')
-
-    const result = await notifyOrganization(
-      params.producerOrgId,
-      params.newStatus === 'ready' ? 'order_ready' :
-      params.newStatus === 'complete' ? 'order_complete' :
-      params.newStatus === 'submitted' ? 'order_submitted' :
-      params.newStatus === 'confirmed' ? 'order_confirmed' :
-      'order_status_update',
-      title,
-      body,
-      params.orderId
-    )
-    results.push(result)
-  }
-
-  // Notify processor
-  if (messages.processor) {
-    const title = `Order #${params.orderNumber}: ${messages.processor.title}`
-    const body = messages.processor.body + (params.animalType ? ` (${params.animalType})` : '')
-
-    const result = await notifyOrganization(
-      params.processorOrgId,
-      params.newStatus === 'submitted' ? 'order_submitted' : 'order_status_update',
-      title,
-      body,
-      params.orderId
-    )
-    results.push(result)
-  }
-
-  const errors = results.filter(r => r.error).map(r => r.error)
-  return errors.length > 0 ? { error: errors.join(', ') } : {}
+  await notifyOrderStatus(createServiceClient(), order, newStatus)
+  return {}
 }
 
-// Processing stage notification
-export async function notifyProcessingStageChange(
-  orderId: string,
-  orderNumber: number,
-  producerOrgId: string,
-  newStage: string,
-  animalType?: string
-): Promise<{ error?: string }> {
-  const stageLabels: Record<string, string> = {
-    pending: 'Pending',
-    received: 'Received at Facility',
-    hanging: 'Hanging/Aging',
-    cutting: 'Being Cut',
-    wrapping: 'Being Wrapped',
-    freezing: 'In Freezer',
-    ready: 'Ready for Pickup',
-    picked_up: 'Picked Up',
-  }
+/**
+ * Tell the producer on an order the signed-in user is on that it moved to
+ * the processing stage it now has
+ */
+export async function notifyProcessingStageChange(orderId: string, newStage: string): Promise<{ error?: string }> {
+  const order = await getOrderForNotification(orderId)
+  if (!order) return { error: 'Order not found' }
+  if (order.processingStage !== newStage) return { error: `Order is not at the ${newStage} stage` }
 
-  const label = stageLabels[newStage] || newStage
-  const title = `Order #${orderNumber}: Processing Update`
-  const body = `Your order is now in "${label}" stage.` + (animalType ? ` (${animalType})` : '')
-
-  return notifyOrganization(
-    producerOrgId,
-    'order_status_update',
-    title,
-    body,
-    orderId
-  )
-}
-
-// New message notification
-export async function notifyNewMessage(
-  senderOrgId: string,
-  receiverOrgId: string,
-  senderOrgName: string,
-  messagePreview: string,
-  orderId?: string
-): Promise<{ error?: string }> {
-  const title = `New message from ${senderOrgName}`
-  const body = messagePreview.length > 100 ? messagePreview.substring(0, 100) + '...' : messagePreview
-
-  return notifyOrganization(
-    receiverOrgId,
-    'new_message',
-    title,
-    body,
-    orderId
-  )
+  await notifyProcessingStage(createServiceClient(), order, newStage)
+  return {}
 }
@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { digestEmail } from '@/lib/email'
+import {
+  getDigestTypes,
+  getOrganizationDefaults,
+  groupDigestNotifications,
+  resolvePreferenceMatrix,
+  type DigestNotification,
+} from '@/lib/notification-preferences'
+import { deliverNow, queueEmails } from './outbox'
+import type { Json } from '@/types/database'
+
+interface DigestUser {
+  id: string
+  email: string
+  full_name: string | null
+  organization_id: string | null
+  notification_preferences: Json | null
+  organization: { settings: Json | null } | null
+}
+
+interface DigestRow extends DigestNotification {
+  id: string
+}
+
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Queue one email for each user who gets some notifications as a daily
+ * digest, with the last day's unread ones. Those notifications are stamped
+ * with email_sent_at so a rerun doesn't send them again; the outbox retries
+ * the email if it fails. Runs for every user, so this takes a service role
+ * client.
+ */
+export async function queueDailyDigests(
+  admin: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ queued: number; failed: number }> {
+  const result = { queued: 0, failed: 0 }
+  const queued: string[] = []
+
+  const { data, error } = await admin
+    .from('users')
+    .select('id, email, full_name, organization_id, notification_preferences, organization:organizations(settings)')
+    .eq('is_active', true)
+
+  if (error) {
+    console.error('[Digest] Error loading users:', error)
+    return result
+  }
+
+  const since = new Date(now.getTime() - DIGEST_WINDOW_MS).toISOString()
+
+  for (const user of (data || []) as unknown as DigestUser[]) {
+    const types = getDigestTypes(resolvePreferenceMatrix(
+      user.notification_preferences,
+      getOrganizationDefaults(user.organization?.settings ?? null)
+    ))
+    if (types.length === 0) continue
+
+    const { data: rows } = await admin
+      .from('notifications')
+      .select('id, type, title, body, created_at, processing_order_id')
+      .eq('user_id', user.id)
+      .in('type', types)
+      .is('read_at', null)
+      .is('email_sent_at', null)
+      .gte('created_at', since)
+
+    const notifications = (rows || []) as DigestRow[]
+    if (notifications.length === 0) continue
+
+    const ids = await queueEmails(admin, [{
+      organizationId: user.organization_id,
+      userId: user.id,
+      to: user.email,
+      type: 'daily_digest',
+      email: digestEmail({
+        sections: groupDigestNotifications(notifications),
+        recipientName: user.full_name || undefined,
+      }),
+    }])
+
+    if (ids.length === 0) {
+      result.failed++
+      continue    // retried on the next run, while still within the day
+    }
+
+    await admin
+      .from('notifications')
+      .update({ email_sent_at: now.toISOString() })
+      .in('id', notifications.map(n => n.id))
+    queued.push(...ids)
+    result.queued++
+  }
+
+  deliverNow(admin, queued)
+  return result
+}
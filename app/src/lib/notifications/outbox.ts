@@ -0,0 +1,275 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getNotificationEmailTemplate, getReplyAddress, isEmailConfigured, sendEmail, withReplyHint } from '@/lib/email'
+import type { ReplyTarget } from '@/lib/email-replies'
+import {
+  getFailureUpdate,
+  OUTBOX_LEASE_MS,
+  type DeliveryEvent,
+  type OutboxChannel,
+  type OutboxEmailPayload,
+  type OutboxJob,
+  type OutboxSmsPayload,
+} from '@/lib/notification-outbox'
+import { smsProvider, type SmsProvider } from '@/lib/sms'
+import type { NotificationType } from '@/types/database'
+
+export interface EmailSender {
+  name: string
+  send(to: string, email: OutboxEmailPayload): Promise<{ id: string | null }>
+}
+
+// Channels without a configured sender stay queued
+export interface OutboxSenders {
+  email: EmailSender | null
+  sms: SmsProvider | null
+}
+
+export interface QueuedEmail {
+  organizationId: string | null
+  userId: string | null
+  to: string
+  type: string
+  email: OutboxEmailPayload
+}
+
+export interface QueuedText {
+  organizationId: string | null
+  userId: string | null
+  to: string
+  type: string
+  body: string
+}
+
+interface EmailRecipient {
+  email: string
+  name?: string
+  userId?: string              // needed for a reply address
+}
+
+interface NotificationEmail {
+  type: NotificationType
+  title: string
+  body: string
+  orderId?: string
+  replyTarget?: ReplyTarget      // where email replies are posted
+}
+
+const resendSender: EmailSender = {
+  name: 'resend',
+  async send(to, email) {
+    const result = await sendEmail({
+      to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      replyTo: email.reply_to || undefined,
+      attachments: email.attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content, 'base64'),
+      })),
+    })
+    if (!result.success) throw new Error(result.error || 'Email not sent')
+    return { id: result.messageId ?? null }
+  },
+}
+
+export function getOutboxSenders(): OutboxSenders {
+  return { email: isEmailConfigured() ? resendSender : null, sms: smsProvider }
+}
+
+// ============================================
+// Queueing
+// ============================================
+
+async function enqueue(admin: SupabaseClient, rows: Record<string, unknown>[]): Promise<string[]> {
+  if (rows.length === 0) return []
+
+  const { data, error } = await admin
+    .from('notification_outbox')
+    .insert(rows)
+    .select('id')
+
+  if (error) {
+    console.error('[Outbox] Error queueing deliveries:', error)
+    return []
+  }
+  return ((data || []) as { id: string }[]).map(row => row.id)
+}
+
+export async function queueEmails(admin: SupabaseClient, emails: QueuedEmail[]): Promise<string[]> {
+  return enqueue(admin, emails.map(email => ({
+    organization_id: email.organizationId,
+    user_id: email.userId,
+    channel: 'email',
+    recipient: email.to,
+    notification_type: email.type,
+    payload: email.email,
+  })))
+}
+
+export async function queueTexts(admin: SupabaseClient, texts: QueuedText[]): Promise<string[]> {
+  return enqueue(admin, texts.map(text => ({
+    organization_id: text.organizationId,
+    user_id: text.userId,
+    channel: 'sms',
+    recipient: text.to,
+    notification_type: text.type,
+    payload: { body: text.body } satisfies OutboxSmsPayload,
+  })))
+}
+
+/**
+ * Queue a notification email for each recipient, rendered now with their
+ * name and reply address
+ */
+export async function queueNotificationEmails(
+  admin: SupabaseClient,
+  organizationId: string,
+  recipients: EmailRecipient[],
+  notification: NotificationEmail
+): Promise<string[]> {
+  const emails: QueuedEmail[] = []
+
+  for (const recipient of recipients) {
+    const template = getNotificationEmailTemplate(
+      notification.type,
+      notification.title,
+      notification.body,
+      notification.orderId,
+      recipient.name
+    )
+    if (!template) continue
+
+    const replyTo = notification.replyTarget && recipient.userId
+      ? getReplyAddress(notification.replyTarget, recipient.userId)
+      : undefined
+
+    emails.push({
+      organizationId,
+      userId: recipient.userId ?? null,
+      to: recipient.email,
+      type: notification.type,
+      email: { ...(replyTo ? withReplyHint(template) : template), reply_to: replyTo ?? null },
+    })
+  }
+
+  return queueEmails(admin, emails)
+}
+
+// ============================================
+// Sending
+// ============================================
+
+async function deliver(job: OutboxJob, senders: OutboxSenders): Promise<{ provider: string; id: string | null }> {
+  if (job.channel === 'email') {
+    const { id } = await senders.email!.send(job.recipient, job.payload as OutboxEmailPayload)
+    return { provider: senders.email!.name, id }
+  }
+
+  const { id } = await senders.sms!.send({ to: job.recipient, body: (job.payload as OutboxSmsPayload).body })
+  return { provider: senders.sms!.name, id }
+}
+
+/**
+ * Send queued and retrying deliveries that are due - all of them, or just
+ * the given ones right after queueing. Each is claimed first by pushing its
+ * next attempt ahead, so a row being sent isn't picked up twice; a worker
+ * that dies mid-send leaves it to be retried once the lease runs out.
+ */
+export async function processOutbox(
+  admin: SupabaseClient,
+  options: { ids?: string[]; senders?: OutboxSenders; now?: Date; limit?: number } = {}
+): Promise<{ sent: number; failed: number; dead: number }> {
+  const result = { sent: 0, failed: 0, dead: 0 }
+  const senders = options.senders ?? getOutboxSenders()
+  const now = options.now ?? new Date()
+
+  const channels = (['email', 'sms'] as OutboxChannel[]).filter(channel => senders[channel])
+  if (channels.length === 0 || options.ids?.length === 0) return result
+
+  let query = admin
+    .from('notification_outbox')
+    .select('*')
+    .in('status', ['queued', 'failed'])
+    .in('channel', channels)
+    .lte('next_attempt_at', now.toISOString())
+  if (options.ids) query = query.in('id', options.ids)
+
+  const { data, error } = await query
+    .order('next_attempt_at')
+    .limit(options.limit ?? 100)
+
+  if (error) {
+    console.error('[Outbox] Error loading deliveries:', error)
+    return result
+  }
+
+  for (const job of (data || []) as OutboxJob[]) {
+    const attempts = job.attempts + 1
+
+    const { data: claimed } = await admin
+      .from('notification_outbox')
+      .update({ attempts, next_attempt_at: new Date(now.getTime() + OUTBOX_LEASE_MS).toISOString() })
+      .eq('id', job.id)
+      .eq('attempts', job.attempts)
+      .in('status', ['queued', 'failed'])
+      .select('id')
+    if (!claimed || claimed.length === 0) continue    // another worker has it
+
+    try {
+      const { provider, id } = await deliver(job, senders)
+      await admin
+        .from('notification_outbox')
+        .update({
+          status: 'sent',
+          sent_at: now.toISOString(),
+          provider,
+          provider_message_id: id,
+          last_error: null,
+        })
+        .eq('id', job.id)
+      result.sent++
+    } catch (sendError) {
+      const failure = getFailureUpdate(attempts, sendError instanceof Error ? sendError.message : String(sendError), now)
+      console.error(`[Outbox] ${job.channel} to ${job.recipient} failed (attempt ${attempts}):`, failure.last_error)
+
+      await admin
+        .from('notification_outbox')
+        .update(failure)
+        .eq('id', job.id)
+      if (failure.status === 'dead') result.dead++
+      else result.failed++
+    }
+  }
+
+  return result
+}
+
+/**
+ * Send newly queued deliveries now, in the background. Anything that fails
+ * is left for the outbox worker to retry.
+ */
+export function deliverNow(admin: SupabaseClient, ids: string[]): void {
+  if (ids.length === 0) return
+  processOutbox(admin, { ids }).catch(err => {
+    console.error('[Outbox] Failed to deliver:', err)
+  })
+}
+
+/**
+ * Mark a sent delivery bounced, from the provider's webhook. Returns false
+ * if no delivery has that provider message ID.
+ */
+export async function recordDeliveryEvent(admin: SupabaseClient, event: DeliveryEvent): Promise<boolean> {
+  const { data, error } = await admin
+    .from('notification_outbox')
+    .update({ status: 'bounced', last_error: event.reason })
+    .eq('provider_message_id', event.providerMessageId)
+    .select('id')
+
+  if (error) {
+    console.error('[Outbox] Error recording bounce:', error)
+    return false
+  }
+  return !!data && data.length > 0
+}
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { smsProvider, type SmsProvider } from '@/lib/sms'
+import { formatNotificationSms, getQuietHoursEnd, isPhoneVerified, isSmsEnabled } from '@/lib/sms-notifications'
+import { queueTexts, type QueuedText } from './outbox'
+import type { Json, NotificationType } from '@/types/database'
+
+export interface SmsRecipient {
+  id: string
+  phone_e164: string | null
+  phone_verified_at: string | null
+  notification_preferences: Json | null
+}
+
+interface SmsNotification {
+  type: NotificationType
+  title: string
+  body: string | null
+}
+
+interface ScheduledSmsRow {
+  id: string
+  body: string
+  notification_type: string
+  user_id: string
+  user: {
+    organization_id: string | null
+    phone_e164: string | null
+    phone_verified_at: string | null
+    notification_preferences: Json | null
+    is_active: boolean
+  } | null
+}
+
+/**
+ * Queue a notification text in the outbox for recipients who have texting
+ * turned on and a verified number - routing by type is up to the caller (routeNotification). A
+ * text due during someone's quiet hours goes into scheduled_sms for
+ * queueScheduledSms instead. Takes a service role client.
+ */
+export async function queueNotificationSms(
+  admin: SupabaseClient,
+  organizationId: string,
+  recipients: SmsRecipient[],
+  notification: SmsNotification,
+  provider: SmsProvider | null = smsProvider,
+  now: Date = new Date()
+): Promise<{ queued: string[]; scheduled: number }> {
+  const result = { queued: [] as string[], scheduled: 0 }
+  if (!provider) return result
+
+  const body = formatNotificationSms(notification.title, notification.body)
+  const texts: QueuedText[] = []
+  const held: { user_id: string; body: string; notification_type: string; send_after: string }[] = []
+
+  for (const user of recipients) {
+    if (!user.phone_e164 || !isPhoneVerified(user) || !isSmsEnabled(user.notification_preferences)) continue
+
+    const quietUntil = getQuietHoursEnd(user.notification_preferences, now)
+    if (quietUntil) {
+      held.push({ user_id: user.id, body, notification_type: notification.type, send_after: quietUntil.toISOString() })
+    } else {
+      texts.push({ organizationId, userId: user.id, to: user.phone_e164, type: notification.type, body })
+    }
+  }
+
+  result.queued = await queueTexts(admin, texts)
+
+  if (held.length > 0) {
+    const { error } = await admin.from('scheduled_sms').insert(held)
+    if (error) {
+      console.error('[SMS] Error holding texts for quiet hours:', error)
+    } else {
+      result.scheduled = held.length
+    }
+  }
+
+  return result
+}
+
+/**
+ * Queue the texts whose quiet hours have ended. Texts for people who have
+ * since turned texting off (or texted STOP) or changed their number are
+ * dropped.
+ */
+export async function queueScheduledSms(
+  admin: SupabaseClient,
+  provider: SmsProvider | null = smsProvider,
+  now: Date = new Date()
+): Promise<{ queued: number; dropped: number }> {
+  const result = { queued: 0, dropped: 0 }
+  if (!provider) return result
+
+  const { data, error } = await admin
+    .from('scheduled_sms')
+    .select('id, body, notification_type, user_id, user:users(organization_id, phone_e164, phone_verified_at, notification_preferences, is_active)')
+    .is('sent_at', null)
+    .lte('send_after', now.toISOString())
+    .order('send_after')
+    .limit(200)
+
+  if (error) {
+    console.error('[SMS] Error loading scheduled texts:', error)
+    return result
+  }
+
+  for (const row of (data || []) as unknown as ScheduledSmsRow[]) {
+    const user = row.user
+    const wanted = !!user?.is_active && isPhoneVerified(user) && isSmsEnabled(user.notification_preferences)
+
+    if (wanted) {
+      const queued = await queueTexts(admin, [{
+        organizationId: user!.organization_id,
+        userId: row.user_id,
+        to: user!.phone_e164!,
+        type: row.notification_type,
+        body: row.body,
+      }])
+      if (queued.length === 0) continue    // retried on the next run
+      result.queued++
+    } else {
+      result.dropped++
+    }
+
+    await admin
+      .from('scheduled_sms')
+      .update({ sent_at: now.toISOString() })
+      .eq('id', row.id)
+  }
+
+  return result
+}
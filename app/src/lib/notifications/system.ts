@@ -0,0 +1,215 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ReplyTarget } from '@/lib/email-replies'
+import { getOrganizationDefaults, routeNotification } from '@/lib/notification-preferences'
+import { deliverNow, queueNotificationEmails } from './outbox'
+import { queueNotificationSms } from './sms'
+import type { Json, Message, NotificationType } from '@/types/database'
+
+interface SystemNotification {
+  type: NotificationType
+  title: string
+  body: string
+  processingOrderId?: string | null
+  messageId?: string | null
+  replyTarget?: ReplyTarget | null    // defaults to the order's thread
+}
+
+/**
+ * Notify every active user of an organization from server code acting for
+ * someone else (another organization, or a scheduled job). Users can only
+ * create their own notifications, so this takes a service role client.
+ */
+export async function notifyOrganizationAsSystem(
+  admin: SupabaseClient,
+  organizationId: string,
+  notification: SystemNotification
+): Promise<void> {
+  const { data } = await admin
+    .from('users')
+    .select('id, email, full_name, phone_e164, phone_verified_at, notification_preferences')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+
+  const users = (data || []) as { id: string; email: string; full_name: string | null; phone_e164: string | null; phone_verified_at: string | null; notification_preferences: Json | null }[]
+  if (users.length === 0) return
+
+  const { data: organization } = await admin
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  // Each user's preferences for this type, over the organization's defaults
+  const route = routeNotification(
+    users,
+    getOrganizationDefaults((organization as { settings: Json | null } | null)?.settings ?? null),
+    notification.type
+  )
+
+  if (route.inApp.length > 0) {
+    const { error } = await admin
+      .from('notifications')
+      .insert(route.inApp.map(user => ({
+        user_id: user.id,
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        processing_order_id: notification.processingOrderId || null,
+        message_id: notification.messageId || null,
+      })))
+
+    if (error) {
+      console.error('Error creating system notification:', error)
+    }
+  }
+
+  // Sent right away; anything that fails is retried by the outbox worker
+  const emails = await queueNotificationEmails(admin, organizationId, route.email.map(user => ({
+    email: user.email,
+    name: user.full_name || undefined,
+    userId: user.id,
+  })), {
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    orderId: notification.processingOrderId || undefined,
+    replyTarget: notification.replyTarget
+      || (notification.processingOrderId ? { kind: 'order', id: notification.processingOrderId } : undefined),
+  })
+  const texts = await queueNotificationSms(admin, organizationId, route.sms, notification)
+  deliverNow(admin, [...emails, ...texts.queued])
+}
+
+/**
+ * Tell the recipient organization about a new message. Its email carries a
+ * reply address for the same thread, or the same conversation with the
+ * sender's organization.
+ */
+export async function notifyMessageRecipients(
+  admin: SupabaseClient,
+  message: Pick<Message, 'id' | 'sender_org_id' | 'recipient_org_id' | 'processing_order_id' | 'thread_id' | 'content'>,
+  attachmentCount: number = 0
+): Promise<void> {
+  const { data: sender } = await admin
+    .from('organizations')
+    .select('name')
+    .eq('id', message.sender_org_id)
+    .single()
+
+  const files = attachmentCount === 1 ? '1 file' : `${attachmentCount} files`
+  const preview = message.content || `Sent ${files}`
+
+  await notifyOrganizationAsSystem(admin, message.recipient_org_id, {
+    type: 'new_message',
+    title: `New message from ${(sender as { name: string } | null)?.name || 'a partner'}`,
+    body: preview.length > 100 ? preview.substring(0, 100) + '...' : preview,
+    processingOrderId: message.processing_order_id,
+    messageId: message.id,
+    replyTarget: message.thread_id
+      ? { kind: 'thread', id: message.thread_id }
+      : { kind: 'conversation', id: message.sender_org_id },
+  })
+}
+
+// ============================================
+// Orders
+// ============================================
+
+export interface OrderNotificationSubject {
+  orderId: string
+  orderNumber: number
+  producerOrgId: string
+  processorOrgId: string
+  animalType?: string | null
+}
+
+const STATUS_MESSAGES: Record<string, { producer: { title: string; body: string }; processor?: { title: string; body: string } }> = {
+  submitted: {
+    producer: { title: 'Order Submitted', body: 'Your order has been submitted and is awaiting confirmation.' },
+    processor: { title: 'New Order Received', body: 'A new processing order has been submitted.' },
+  },
+  confirmed: {
+    producer: { title: 'Order Confirmed', body: 'Your order has been confirmed by the processor.' },
+  },
+  in_progress: {
+    producer: { title: 'Processing Started', body: 'Your order is now being processed.' },
+  },
+  ready: {
+    producer: { title: 'Order Ready', body: 'Your order is ready for pickup!' },
+  },
+  complete: {
+    producer: { title: 'Order Complete', body: 'Your order has been completed and picked up.' },
+    processor: { title: 'Order Completed', body: 'The order has been marked as complete.' },
+  },
+  cancelled: {
+    producer: { title: 'Order Cancelled', body: 'Your order has been cancelled.' },
+    processor: { title: 'Order Cancelled', body: 'The order has been cancelled.' },
+  },
+}
+
+const PRODUCER_STATUS_TYPES: Record<string, NotificationType> = {
+  ready: 'order_ready',
+  complete: 'order_complete',
+  submitted: 'order_submitted',
+  confirmed: 'order_confirmed',
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  received: 'Received at Facility',
+  hanging: 'Hanging/Aging',
+  cutting: 'Being Cut',
+  wrapping: 'Being Wrapped',
+  freezing: 'In Freezer',
+  ready: 'Ready for Pickup',
+  picked_up: 'Picked Up',
+}
+
+/**
+ * Tell the order's producer, and the processor for some statuses, that the
+ * order moved to a new status
+ */
+export async function notifyOrderStatus(
+  admin: SupabaseClient,
+  order: OrderNotificationSubject,
+  newStatus: string
+): Promise<void> {
+  const messages = STATUS_MESSAGES[newStatus]
+  if (!messages) return
+
+  const animal = order.animalType ? ` (${order.animalType})` : ''
+
+  await notifyOrganizationAsSystem(admin, order.producerOrgId, {
+    type: PRODUCER_STATUS_TYPES[newStatus] || 'order_status_update',
+    title: `Order #${order.orderNumber}: ${messages.producer.title}`,
+    body: messages.producer.body + animal,
+    processingOrderId: order.orderId,
+  })
+
+  if (messages.processor) {
+    await notifyOrganizationAsSystem(admin, order.processorOrgId, {
+      type: newStatus === 'submitted' ? 'order_submitted' : 'order_status_update',
+      title: `Order #${order.orderNumber}: ${messages.processor.title}`,
+      body: messages.processor.body + animal,
+      processingOrderId: order.orderId,
+    })
+  }
+}
+
+/**
+ * Tell the order's producer that it moved to a new processing stage
+ */
+export async function notifyProcessingStage(
+  admin: SupabaseClient,
+  order: OrderNotificationSubject,
+  newStage: string
+): Promise<void> {
+  const label = STAGE_LABELS[newStage] || newStage
+
+  await notifyOrganizationAsSystem(admin, order.producerOrgId, {
+    type: 'order_status_update',
+    title: `Order #${order.orderNumber}: Processing Update`,
+    body: `Your order is now in "${label}" stage.` + (order.animalType ? ` (${order.animalType})` : ''),
+    processingOrderId: order.orderId,
+  })
+}
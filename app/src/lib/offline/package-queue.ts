@@ -0,0 +1,391 @@
+/**
+ * Offline Package Queue
+ *
+ * Cut rooms and coolers lose connectivity, so processor package and weight
+ * entry is written to a local queue first and replayed against the server
+ * actions once the connection is back. Entries survive reloads when backed
+ * by IndexedDB.
+ *
+ * Replay stops at the first network failure and leaves the rest queued.
+ * Entries the server rejects because the package or cut sheet is gone are
+ * kept as conflicts for the processor to review instead of being dropped.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QueuedPackageData {
+  cut_id: string
+  cut_name: string
+  primal_id?: string
+  package_number?: number
+  quantity_in_package?: number
+  actual_weight_lbs?: number
+  thickness?: string
+  processor_notes?: string
+  livestock_tracking_id?: string
+}
+
+export type QueueEntryStatus = 'pending' | 'conflict' | 'failed'
+
+interface QueueEntryBase {
+  id: string
+  queuedAt: number
+  status: QueueEntryStatus
+  attempts: number
+  error?: string
+}
+
+export interface QueuedCreatePackage extends QueueEntryBase {
+  kind: 'create_package'
+  cutSheetId: string
+  tempPackageId: string           // Stands in for the package ID until the server assigns one
+  packageData: QueuedPackageData
+}
+
+export interface QueuedWeightUpdate extends QueueEntryBase {
+  kind: 'update_weight'
+  packageId: string               // Real ID, or a temp ID from a queued create
+  weight: number
+}
+
+export type QueuedPackageEntry = QueuedCreatePackage | QueuedWeightUpdate
+
+export interface QueueStorage {
+  getAll(): Promise<QueuedPackageEntry[]>
+  put(entry: QueuedPackageEntry): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+type ActionResult = { success: boolean; error?: string }
+
+// Matches the processor cut sheet server actions
+export interface PackageQueueActions {
+  createProducedPackage(cutSheetId: string, data: QueuedPackageData): Promise<ActionResult & { packageId?: string }>
+  updatePackageWeight(packageId: string, weight: number): Promise<ActionResult>
+}
+
+export interface ReplayResult {
+  synced: number
+  conflicts: number
+  failed: number
+  offline: boolean                // Stopped early because the server couldn't be reached
+  packageIds: Record<string, string>  // Temp package ID -> server package ID
+}
+
+export interface OptimisticPackage {
+  id: string
+  cut_id: string
+  cut_name: string
+  package_number: number
+  actual_weight_lbs: number | null
+  sync_status?: QueueEntryStatus
+}
+
+export const TEMP_PACKAGE_PREFIX = 'offline-'
+
+// Action errors that mean the record changed underneath the queued entry
+const CONFLICT_MESSAGES: Record<string, string> = {
+  'Package not found': 'This package was deleted before the weight could sync',
+  'Cut sheet not found': 'This cut sheet no longer exists',
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const DB_NAME = 'steakholders-offline'
+const STORE_NAME = 'package-queue'
+
+/**
+ * Queue storage in the browser's IndexedDB so entries survive reloads
+ */
+export function createIndexedDbQueueStorage(dbName = DB_NAME): QueueStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const openDb = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return dbPromise
+  }
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await openDb()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+
+  return {
+    getAll: () => run('readonly', store => store.getAll() as IDBRequest<QueuedPackageEntry[]>),
+    put: async (entry) => { await run('readwrite', store => store.put(entry)) },
+    remove: async (id) => { await run('readwrite', store => store.delete(id)) },
+  }
+}
+
+/**
+ * In-memory queue storage, for browsers without IndexedDB and for tests
+ */
+export function createMemoryQueueStorage(): QueueStorage {
+  const entries = new Map<string, QueuedPackageEntry>()
+  return {
+    getAll: async () => Array.from(entries.values()).map(entry => ({ ...entry })),
+    put: async (entry) => { entries.set(entry.id, { ...entry }) },
+    remove: async (id) => { entries.delete(id) },
+  }
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+export function createPackageQueue(storage: QueueStorage, actions: PackageQueueActions) {
+  let replayChain: Promise<unknown> = Promise.resolve()
+  // Temp IDs already created on the server; the editor may still show them until it reloads
+  const syncedPackageIds: Record<string, string> = {}
+
+  const list = async () => (await storage.getAll()).sort((a, b) => a.queuedAt - b.queuedAt)
+
+  /**
+   * Queue a new package. Returns the temp package ID shown until it syncs.
+   */
+  const enqueueCreate = async (cutSheetId: string, packageData: QueuedPackageData): Promise<QueuedCreatePackage> => {
+    const entry: QueuedCreatePackage = {
+      ...newEntryBase(),
+      kind: 'create_package',
+      cutSheetId,
+      tempPackageId: `${TEMP_PACKAGE_PREFIX}${randomId()}`,
+      packageData,
+    }
+    await storage.put(entry)
+    return entry
+  }
+
+  /**
+   * Queue a weight change. Repeated edits to the same package collapse into
+   * one entry, and weights for packages still waiting to be created are
+   * folded into the create.
+   */
+  const enqueueWeight = async (tempOrPackageId: string, weight: number): Promise<QueuedPackageEntry> => {
+    const packageId = syncedPackageIds[tempOrPackageId] || tempOrPackageId
+    const entries = await list()
+
+    const pendingCreate = entries.find(
+      (e): e is QueuedCreatePackage => e.kind === 'create_package' && e.tempPackageId === packageId && e.status === 'pending'
+    )
+    if (pendingCreate) {
+      const updated = { ...pendingCreate, packageData: { ...pendingCreate.packageData, actual_weight_lbs: weight } }
+      await storage.put(updated)
+      return updated
+    }
+
+    const pendingWeight = entries.find(
+      (e): e is QueuedWeightUpdate => e.kind === 'update_weight' && e.packageId === packageId && e.status === 'pending'
+    )
+    const entry: QueuedWeightUpdate = pendingWeight
+      ? { ...pendingWeight, weight }
+      : { ...newEntryBase(), kind: 'update_weight', packageId, weight }
+    await storage.put(entry)
+    return entry
+  }
+
+  /**
+   * Drop an entry, along with weight updates waiting on a package it would have created
+   */
+  const discard = async (id: string) => {
+    const entries = await list()
+    const entry = entries.find(e => e.id === id)
+    if (!entry) return
+
+    await storage.remove(id)
+    if (entry.kind === 'create_package') {
+      for (const dependent of entries) {
+        if (dependent.kind === 'update_weight' && dependent.packageId === entry.tempPackageId) {
+          await storage.remove(dependent.id)
+        }
+      }
+    }
+  }
+
+  /**
+   * Put a failed entry back in line for the next replay
+   */
+  const retry = async (id: string) => {
+    const entry = (await list()).find(e => e.id === id)
+    if (!entry || entry.status === 'pending') return
+    await storage.put({ ...entry, status: 'pending', error: undefined })
+  }
+
+  // Reload an entry before writing so edits queued mid-request aren't overwritten
+  const updateStored = async (entry: QueuedPackageEntry, changes: Partial<QueueEntryBase>) => {
+    const latest = (await storage.getAll()).find(e => e.id === entry.id) || entry
+    await storage.put({ ...latest, ...changes })
+  }
+
+  // The weight may have been edited again while the request was in flight;
+  // keep the newer value queued instead of dropping it with the entry
+  const settleSynced = async (sent: QueuedPackageEntry, packageId?: string) => {
+    const stored = await storage.getAll()
+    const latest = stored.find(e => e.id === sent.id)
+
+    if (latest?.kind === 'update_weight' && sent.kind === 'update_weight' && latest.weight !== sent.weight) {
+      await storage.put({ ...latest, packageId: sent.packageId })
+      return
+    }
+
+    await storage.remove(sent.id)
+    if (sent.kind !== 'create_package' || !packageId) return
+
+    // Point weight updates queued against the temp ID at the real package
+    for (const dependent of stored) {
+      if (dependent.kind === 'update_weight' && dependent.packageId === sent.tempPackageId) {
+        await storage.put({ ...dependent, packageId })
+      }
+    }
+    if (
+      latest?.kind === 'create_package' &&
+      latest.packageData.actual_weight_lbs !== undefined &&
+      latest.packageData.actual_weight_lbs !== sent.packageData.actual_weight_lbs
+    ) {
+      await storage.put({ ...newEntryBase(), kind: 'update_weight', packageId, weight: latest.packageData.actual_weight_lbs })
+    }
+  }
+
+  const replayOnce = async (): Promise<ReplayResult> => {
+    const result: ReplayResult = { synced: 0, conflicts: 0, failed: 0, offline: false, packageIds: {} }
+    const entries = (await list()).filter(e => e.status === 'pending')
+
+    for (const queued of entries) {
+      // Weight updates loaded before their package was created follow it to the real ID
+      let entry = queued
+      if (entry.kind === 'update_weight' && syncedPackageIds[entry.packageId]) {
+        entry = { ...entry, packageId: syncedPackageIds[entry.packageId] }
+      }
+
+      if (entry.kind === 'update_weight' && entry.packageId.startsWith(TEMP_PACKAGE_PREFIX)) {
+        await updateStored(entry, { status: 'conflict', error: 'The package this weight belongs to was never created' })
+        result.conflicts++
+        continue
+      }
+
+      let response: ActionResult & { packageId?: string }
+      try {
+        response = entry.kind === 'create_package'
+          ? await actions.createProducedPackage(entry.cutSheetId, entry.packageData)
+          : await actions.updatePackageWeight(entry.packageId, entry.weight)
+      } catch {
+        // Thrown errors are network failures - keep this and everything after it for later
+        await updateStored(entry, { attempts: entry.attempts + 1 })
+        result.offline = true
+        break
+      }
+
+      if (response.success) {
+        if (entry.kind === 'create_package' && response.packageId) {
+          result.packageIds[entry.tempPackageId] = response.packageId
+          syncedPackageIds[entry.tempPackageId] = response.packageId
+        }
+        await settleSynced(entry, response.packageId)
+        result.synced++
+        continue
+      }
+
+      const error = response.error || 'Sync failed'
+      const conflict = CONFLICT_MESSAGES[error]
+      await updateStored(entry, {
+        attempts: entry.attempts + 1,
+        status: conflict ? 'conflict' : 'failed',
+        error: conflict || error,
+      })
+      if (conflict) result.conflicts++
+      else result.failed++
+    }
+
+    return result
+  }
+
+  /**
+   * Send pending entries to the server in the order they were queued.
+   * Overlapping calls run one after another so no entry is sent twice.
+   */
+  const replay = (): Promise<ReplayResult> => {
+    const run = replayChain.then(replayOnce)
+    replayChain = run.catch(() => undefined)
+    return run
+  }
+
+  return { list, enqueueCreate, enqueueWeight, discard, retry, replay }
+}
+
+export type PackageQueue = ReturnType<typeof createPackageQueue>
+
+// ============================================================================
+// Optimistic View
+// ============================================================================
+
+/**
+ * Overlay queued entries on the packages loaded from the server, so the
+ * editor shows offline work right away
+ */
+export function applyQueuedEntries(
+  packages: OptimisticPackage[],
+  entries: QueuedPackageEntry[],
+  cutSheetId: string
+): OptimisticPackage[] {
+  const merged = packages.map(pkg => ({ ...pkg }))
+
+  for (const entry of entries) {
+    if (entry.kind === 'create_package') {
+      if (entry.cutSheetId !== cutSheetId) continue
+      merged.push({
+        id: entry.tempPackageId,
+        cut_id: entry.packageData.cut_id,
+        cut_name: entry.packageData.cut_name,
+        package_number: entry.packageData.package_number
+          ?? merged.filter(p => p.cut_id === entry.packageData.cut_id).length + 1,
+        actual_weight_lbs: entry.packageData.actual_weight_lbs ?? null,
+        sync_status: entry.status,
+      })
+    } else {
+      const pkg = merged.find(p => p.id === entry.packageId)
+      if (!pkg) continue
+      pkg.actual_weight_lbs = entry.weight
+      pkg.sync_status = entry.status
+    }
+  }
+
+  return merged
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+let entrySequence = 0
+
+function newEntryBase(): QueueEntryBase {
+  return {
+    id: randomId(),
+    // Sequence breaks ties between entries queued in the same millisecond
+    queuedAt: Date.now() + (entrySequence++ % 1000) / 1000,
+    status: 'pending',
+    attempts: 0,
+  }
+}
+
+// crypto.randomUUID needs a secure context, which LAN tablets often aren't
+function randomId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
+import { createProducedPackage, updatePackageWeight } from '@/lib/actions/processor-cut-sheet'
+import {
+  createPackageQueue,
+  createIndexedDbQueueStorage,
+  createMemoryQueueStorage,
+  type QueuedPackageData,
+  type QueuedPackageEntry,
+} from './package-queue'
+
+interface UsePackageQueueOptions {
+  onSynced?: () => void           // Called after a replay sends anything to the server
+}
+
+/**
+ * Offline-first package and weight entry for the processor cut sheet editor.
+ * Entries are saved locally, then replayed now if online or when the
+ * browser reconnects.
+ */
+export function usePackageQueue({ onSynced }: UsePackageQueueOptions = {}) {
+  const [entries, setEntries] = useState<QueuedPackageEntry[]>([])
+  const [online, setOnline] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const queue = useMemo(() => {
+    const storage = typeof indexedDB !== 'undefined'
+      ? createIndexedDbQueueStorage()
+      : createMemoryQueueStorage()
+    return createPackageQueue(storage, { createProducedPackage, updatePackageWeight })
+  }, [])
+
+  const refresh = useCallback(async () => {
+    setEntries(await queue.list())
+  }, [queue])
+
+  const sync = useCallback(async () => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return
+    setSyncing(true)
+    const result = await queue.replay()
+    setSyncing(false)
+    setOnline(!result.offline)
+    await refresh()
+    if (result.synced > 0) onSyncedRef.current?.()
+  }, [queue, refresh])
+
+  useEffect(() => {
+    setOnline(navigator.onLine)
+    // Anything left from an earlier session goes out as soon as we can
+    refresh().then(sync)
+
+    const handleOnline = () => {
+      setOnline(true)
+      sync()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [refresh, sync])
+
+  const queueCreate = useCallback(async (cutSheetId: string, data: QueuedPackageData) => {
+    await queue.enqueueCreate(cutSheetId, data)
+    await refresh()
+    sync()
+  }, [queue, refresh, sync])
+
+  const queueWeight = useCallback(async (packageId: string, weight: number) => {
+    await queue.enqueueWeight(packageId, weight)
+    await refresh()
+    sync()
+  }, [queue, refresh, sync])
+
+  const discard = useCallback(async (id: string) => {
+    await queue.discard(id)
+    await refresh()
+  }, [queue, refresh])
+
+  const retry = useCallback(async (id: string) => {
+    await queue.retry(id)
+    await refresh()
+    sync()
+  }, [queue, refresh, sync])
+
+  return { entries, online, syncing, queueCreate, queueWeight, discard, retry, sync }
+}
@@ -0,0 +1,135 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Shared by the label and cut sheet renderers. Writes PDF 1.4 documents
+ * using the built-in Helvetica fonts, so no PDF library or font embedding
+ * is needed. Callers draw each page with raw content stream operators.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PdfFont = 'F1' | 'F2' // F1 = Helvetica, F2 = Helvetica-Bold
+
+export interface PdfPage {
+  width: number             // Points
+  height: number
+  content: string           // Content stream operators
+}
+
+export const POINTS_PER_INCH = 72
+
+// Rough Helvetica advance widths (em) for fitting text
+const AVG_CHAR_WIDTH = { regular: 0.52, bold: 0.58 }
+
+// ============================================================================
+// Document
+// ============================================================================
+
+/**
+ * Assemble pages into a PDF document. Everything written is ASCII, so the
+ * string can be sent as-is.
+ */
+export function writePdf(pages: PdfPage[]): string {
+  const objects: string[] = []
+  const addObject = (body: string) => {
+    objects.push(body)
+    return objects.length
+  }
+
+  const catalogId = addObject('') // Filled in once page IDs are known
+  const pagesId = addObject('')
+  const regularId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  const boldId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+  const pageIds: number[] = []
+  for (const page of pages) {
+    const contentId = addObject(`<< /Length ${page.content.length} >>\nstream\n${page.content}\nendstream`)
+    pageIds.push(addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    ))
+  }
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+  // String length equals byte length for offsets since the content is ASCII
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return pdf
+}
+
+// ============================================================================
+// Drawing
+// ============================================================================
+
+export function textOp(text: string, font: PdfFont, size: number, x: number, y: number): string {
+  return `BT /${font} ${size} Tf ${pdfNumber(x)} ${pdfNumber(y)} Td (${pdfString(text)}) Tj ET`
+}
+
+export function estimateTextWidth(text: string, size: number, font: PdfFont): number {
+  return text.length * size * (font === 'F2' ? AVG_CHAR_WIDTH.bold : AVG_CHAR_WIDTH.regular)
+}
+
+/**
+ * Truncate with an ellipsis when text would run past `maxWidth`
+ */
+export function fitText(text: string, maxWidth: number, size: number, font: PdfFont): string {
+  if (estimateTextWidth(text, size, font) <= maxWidth) return text
+  let fitted = text
+  while (fitted.length > 1 && estimateTextWidth(`${fitted}...`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}...`
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`, keeping the text's own
+ * line breaks. Words longer than a line are cut.
+ */
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word
+      if (estimateTextWidth(candidate, size, font) <= maxWidth) {
+        current = candidate
+        continue
+      }
+      if (current) lines.push(current)
+      current = estimateTextWidth(word, size, font) <= maxWidth ? word : fitText(word, maxWidth, size, font)
+    }
+    lines.push(current)
+  }
+
+  return lines
+}
+
+// Escape PDF string delimiters and drop anything outside printable ASCII
+export function pdfString(text: string): string {
+  return text
+    .replace(/[^\x20-\x7E]/g, '')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+}
+
+export function pdfNumber(value: number): string {
+  return (Math.round(value * 100) / 100).toString()
+}
@@ -0,0 +1,53 @@
+/**
+ * Processing Stages
+ *
+ * The order a carcass moves through the plant, and how advancing a stage
+ * updates the order status. Shared by the order page and floor scan actions.
+ */
+
+import type { OrderStatus, ProcessingStage } from '@/types/database'
+
+export const STAGES_ORDER: ProcessingStage[] = ['pending', 'received', 'hanging', 'cutting', 'wrapping', 'freezing', 'ready', 'picked_up']
+
+export const STAGE_LABELS: Record<ProcessingStage, string> = {
+  pending: 'Pending',
+  received: 'Received',
+  hanging: 'Hanging',
+  cutting: 'Cutting',
+  wrapping: 'Wrapping',
+  freezing: 'Freezing',
+  ready: 'Ready for Pickup',
+  picked_up: 'Picked Up',
+}
+
+export interface StageAdvance {
+  nextStage: ProcessingStage
+  newStatus: OrderStatus
+  statusChanged: boolean       // Notify as a status change rather than a stage update
+}
+
+/**
+ * Next stage for an order and the status it implies, or null at the last stage.
+ */
+export function getStageAdvance(stage: ProcessingStage, status: OrderStatus): StageAdvance | null {
+  const currentIndex = STAGES_ORDER.indexOf(stage)
+  if (currentIndex >= STAGES_ORDER.length - 1) return null
+
+  const nextStage = STAGES_ORDER[currentIndex + 1]
+
+  let newStatus = status
+  if (nextStage === 'received' && status === 'confirmed') {
+    newStatus = 'in_progress'
+  } else if (nextStage === 'ready') {
+    newStatus = 'ready'
+  } else if (nextStage === 'picked_up') {
+    newStatus = 'complete'
+  }
+
+  // Ready and picked-up always announce as status changes, even if the status already matched
+  const statusChanged = nextStage === 'received' && status === 'confirmed' ||
+                        nextStage === 'ready' ||
+                        nextStage === 'picked_up'
+
+  return { nextStage, newStatus, statusChanged }
+}
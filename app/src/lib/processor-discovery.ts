@@ -0,0 +1,171 @@
+/**
+ * Processor Discovery
+ *
+ * Producers search processors by name or place, service and license, and
+ * narrow the list to:
+ * - processors within a radius of their farm
+ * - processors with an open slot for an animal type before a date
+ *
+ * Distances come from get_processor_distances, which measures between
+ * organizations.location points geocoded from ZIP codes (zip_centroids), so
+ * no map or geocoding service is involved. A processor with no known
+ * location has no distance: it drops out of radius searches and is listed
+ * after the ones that have one. Open slots come from the
+ * processor_availability view through get_next_processor_availability.
+ *
+ * Pure functions only - the discover page loads processors, distances and
+ * availability.
+ */
+
+import type { AnimalType, Organization } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DISCOVERY_RADIUS_MILES = [25, 50, 100, 200]
+
+const ANIMAL_ORDER: AnimalType[] = ['beef', 'pork', 'lamb', 'goat']
+
+// A processor's earliest open slot for one animal type
+export interface NextOpenSlot {
+  processor_id: string
+  animal_type: AnimalType
+  date: string
+  available_slots: number
+  kill_fee: number | null
+}
+
+export interface ProcessorDistance {
+  processor_id: string
+  distance_miles: number
+}
+
+export interface DiscoveryProcessor extends Organization {
+  distanceMiles: number | null
+  nextOpenSlots: NextOpenSlot[]   // one per animal type, beef first
+}
+
+export interface DiscoveryFilters {
+  query: string
+  service: string
+  license: string
+  radiusMiles: number | null
+  availableAnimal: AnimalType | ''
+  availableBefore: string         // YYYY-MM-DD, '' for any date
+}
+
+export const EMPTY_DISCOVERY_FILTERS: DiscoveryFilters = {
+  query: '',
+  service: '',
+  license: '',
+  radiusMiles: null,
+  availableAnimal: '',
+  availableBefore: '',
+}
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Attach each processor's distance and next open slots
+ */
+export function buildDiscoveryProcessors(
+  processors: Organization[],
+  distances: ProcessorDistance[],
+  openSlots: NextOpenSlot[]
+): DiscoveryProcessor[] {
+  const distanceById = new Map(distances.map(d => [d.processor_id, Number(d.distance_miles)]))
+  const slotsById = new Map<string, NextOpenSlot[]>()
+  for (const slot of openSlots) {
+    const slots = slotsById.get(slot.processor_id) || []
+    slots.push(slot)
+    slotsById.set(slot.processor_id, slots)
+  }
+
+  return processors.map(processor => ({
+    ...processor,
+    distanceMiles: distanceById.get(processor.id) ?? null,
+    nextOpenSlots: (slotsById.get(processor.id) || [])
+      .sort((a, b) => ANIMAL_ORDER.indexOf(a.animal_type) - ANIMAL_ORDER.indexOf(b.animal_type)),
+  }))
+}
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+/**
+ * Whether a processor has an open slot for the animal type on or before the date
+ */
+export function hasAvailabilityBefore(
+  processor: DiscoveryProcessor,
+  animal: AnimalType | '',
+  before: string
+): boolean {
+  return processor.nextOpenSlots.some(slot =>
+    (!animal || slot.animal_type === animal) && (!before || slot.date <= before)
+  )
+}
+
+export function matchesDiscoveryFilters(processor: DiscoveryProcessor, filters: DiscoveryFilters): boolean {
+  // Search query - match name, city, or state
+  if (filters.query) {
+    const query = filters.query.toLowerCase()
+    const matchesName = processor.name.toLowerCase().includes(query)
+    const matchesCity = processor.city?.toLowerCase().includes(query)
+    const matchesState = processor.state?.toLowerCase().includes(query)
+    if (!matchesName && !matchesCity && !matchesState) return false
+  }
+
+  if (filters.service) {
+    const services = processor.services_offered as string[] | null
+    if (!Array.isArray(services) || !services.includes(filters.service)) return false
+  }
+
+  if (filters.license && processor.license_type !== filters.license) return false
+
+  if (filters.radiusMiles !== null) {
+    if (processor.distanceMiles === null || processor.distanceMiles > filters.radiusMiles) return false
+  }
+
+  if (filters.availableAnimal || filters.availableBefore) {
+    if (!hasAvailabilityBefore(processor, filters.availableAnimal, filters.availableBefore)) return false
+  }
+
+  return true
+}
+
+/**
+ * The processors matching the filters, nearest first (then by name). Without
+ * any distances the list stays in name order.
+ */
+export function filterProcessors(processors: DiscoveryProcessor[], filters: DiscoveryFilters): DiscoveryProcessor[] {
+  return processors
+    .filter(processor => matchesDiscoveryFilters(processor, filters))
+    .sort((a, b) => {
+      if (a.distanceMiles !== b.distanceMiles) {
+        if (a.distanceMiles === null) return 1
+        if (b.distanceMiles === null) return -1
+        return a.distanceMiles - b.distanceMiles
+      }
+      return a.name.localeCompare(b.name)
+    })
+}
+
+export function hasActiveDiscoveryFilters(filters: DiscoveryFilters): boolean {
+  return Boolean(
+    filters.query || filters.service || filters.license || filters.radiusMiles !== null ||
+    filters.availableAnimal || filters.availableBefore
+  )
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+export function formatDistance(miles: number): string {
+  if (miles < 1) return 'Under 1 mi'
+  return `${Math.round(miles)} mi`
+}
@@ -0,0 +1,135 @@
+/**
+ * Producer Reliability
+ *
+ * How dependably a producer shows up for the slots they book:
+ * - kept: orders dropped off
+ * - no-shows: orders a processor marked as a no-show (cancelled, with no_show_at)
+ * - late cancellations: orders the producer cancelled within the processor's
+ *   lateCancelHours of drop-off
+ *
+ * A record covers the last 12 months at every processor, counted by
+ * get_producer_reliability in Postgres. The score weighs a late cancellation
+ * as half a no-show and feeds the booking policy: processors can block
+ * producers with too many no-shows and ask a deposit of those scoring low.
+ *
+ * Pure functions only - lib/actions/reliability.ts loads records and marks
+ * no-shows, deposits and cancellations.
+ */
+
+import type { BookingPolicy } from './booking-policy'
+import type { OrderStatus, ProcessingStage } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProducerReliability {
+  keptOrders: number
+  noShows: number
+  lateCancellations: number
+}
+
+export type ReliabilityLevel = 'new' | 'good' | 'fair' | 'poor'
+
+export interface NoShowCandidate {
+  status: OrderStatus
+  processing_stage: ProcessingStage
+  scheduled_drop_off: string | null
+}
+
+export const EMPTY_RELIABILITY: ProducerReliability = {
+  keptOrders: 0,
+  noShows: 0,
+  lateCancellations: 0,
+}
+
+export const RELIABILITY_LOOKBACK_MONTHS = 12
+
+const GOOD_SCORE = 90
+const FAIR_SCORE = 75
+
+// ============================================================================
+// Score
+// ============================================================================
+
+/**
+ * 0-100, or null for a producer with no record yet. Matches
+ * producer_reliability_score in Postgres.
+ */
+export function getReliabilityScore(reliability: ProducerReliability): number | null {
+  const { keptOrders, noShows, lateCancellations } = reliability
+  const total = keptOrders + noShows + lateCancellations
+  if (total === 0) return null
+  return Math.round((100 * (keptOrders + lateCancellations * 0.5)) / total)
+}
+
+export function getReliabilityLevel(score: number | null): ReliabilityLevel {
+  if (score === null) return 'new'
+  if (score >= GOOD_SCORE) return 'good'
+  if (score >= FAIR_SCORE) return 'fair'
+  return 'poor'
+}
+
+/**
+ * e.g. "8 kept, 1 no-show, 2 late cancellations"
+ */
+export function describeReliability(reliability: ProducerReliability): string {
+  const parts = [`${reliability.keptOrders} kept`]
+  if (reliability.noShows > 0) {
+    parts.push(`${reliability.noShows} no-show${reliability.noShows === 1 ? '' : 's'}`)
+  }
+  if (reliability.lateCancellations > 0) {
+    parts.push(`${reliability.lateCancellations} late cancellation${reliability.lateCancellations === 1 ? '' : 's'}`)
+  }
+  return parts.join(', ')
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * The deposit a processor asks of a producer on new orders, or null.
+ * Producers with no record yet don't owe one. Matches get_required_deposit.
+ */
+export function getRequiredDeposit(policy: BookingPolicy, reliability: ProducerReliability): number | null {
+  if (policy.depositBelowScore <= 0 || policy.depositAmount <= 0) return null
+  const score = getReliabilityScore(reliability)
+  if (score === null || score >= policy.depositBelowScore) return null
+  return policy.depositAmount
+}
+
+/**
+ * Whether the producer cancelling now would count as a late cancellation
+ */
+export function isLateCancellation(
+  policy: BookingPolicy,
+  scheduledDropOff: string | null,
+  now: number = Date.now()
+): boolean {
+  if (policy.lateCancelHours <= 0 || !scheduledDropOff) return false
+  return new Date(scheduledDropOff).getTime() <= now + policy.lateCancelHours * 3600000
+}
+
+// ============================================================================
+// Orders
+// ============================================================================
+
+/**
+ * A booked order whose drop-off day has come without the animal arriving
+ */
+export function canMarkNoShow(order: NoShowCandidate, now: number = Date.now()): boolean {
+  if (order.status !== 'submitted' && order.status !== 'confirmed') return false
+  if (order.processing_stage !== 'pending' || !order.scheduled_drop_off) return false
+
+  const dropOffDay = order.scheduled_drop_off.split('T')[0]
+  const today = new Date(now).toISOString().split('T')[0]
+  return dropOffDay <= today
+}
+
+/**
+ * Producers can cancel until the animal is dropped off
+ */
+export function canProducerCancel(order: Omit<NoShowCandidate, 'scheduled_drop_off'>): boolean {
+  return ['draft', 'submitted', 'confirmed'].includes(order.status) && order.processing_stage === 'pending'
+}
@@ -0,0 +1,215 @@
+/**
+ * Scale Drivers
+ *
+ * Transports that deliver raw scale text to the reader: the browser's Web
+ * Serial API for USB/serial scales, and a simulated scale for tests and
+ * demos without hardware.
+ */
+
+import {
+  encodeSmaFrame,
+  encodeToledoFrame,
+  SCALE_FORMATS,
+  type ScaleFormat,
+  type ScaleReading,
+  type WeightUnit,
+} from './formats'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScaleDriver {
+  connect(): Promise<void>
+  disconnect(): Promise<void>
+  onData(listener: (chunk: string) => void): void
+  write(data: string): Promise<void>
+}
+
+export interface SerialOptions {
+  baudRate?: number
+  dataBits?: 7 | 8
+  parity?: 'none' | 'even' | 'odd'
+  stopBits?: 1 | 2
+}
+
+// Just the parts of Web Serial we use; the DOM lib doesn't ship these yet
+interface SerialPortLike {
+  open(options: { baudRate: number; dataBits?: number; parity?: string; stopBits?: number }): Promise<void>
+  close(): Promise<void>
+  readable: ReadableStream<Uint8Array> | null
+  writable: WritableStream<Uint8Array> | null
+}
+
+interface SerialLike {
+  getPorts(): Promise<SerialPortLike[]>
+  requestPort(): Promise<SerialPortLike>
+}
+
+// ============================================================================
+// Web Serial
+// ============================================================================
+
+export function isWebSerialSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serial' in navigator
+}
+
+/**
+ * Connect to a scale through Web Serial. Reuses a port the user already
+ * granted, otherwise shows the browser's port picker, so `connect` must run
+ * from a click. Most bench scales default to 9600 8N1.
+ */
+export function createWebSerialDriver(options: SerialOptions = {}): ScaleDriver {
+  let port: SerialPortLike | null = null
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+  let listener: ((chunk: string) => void) | null = null
+
+  const readLoop = async (activeReader: ReadableStreamDefaultReader<Uint8Array>) => {
+    const decoder = new TextDecoder()
+    try {
+      while (true) {
+        const { value, done } = await activeReader.read()
+        if (done) break
+        if (value) listener?.(decoder.decode(value, { stream: true }))
+      }
+    } catch (error) {
+      // Unplugging the scale ends the stream with an error
+      console.error('Error reading from scale:', error)
+    } finally {
+      activeReader.releaseLock()
+    }
+  }
+
+  return {
+    async connect() {
+      if (!isWebSerialSupported()) {
+        throw new Error('This browser cannot connect to serial scales')
+      }
+      const serial = (navigator as unknown as { serial: SerialLike }).serial
+      const [granted] = await serial.getPorts()
+      port = granted || await serial.requestPort()
+
+      await port.open({
+        baudRate: options.baudRate ?? 9600,
+        dataBits: options.dataBits ?? 8,
+        parity: options.parity ?? 'none',
+        stopBits: options.stopBits ?? 1,
+      })
+
+      if (!port.readable) throw new Error('Scale port is not readable')
+      reader = port.readable.getReader()
+      readLoop(reader)
+    },
+
+    async disconnect() {
+      if (reader) {
+        await reader.cancel().catch(() => undefined)
+        reader = null
+      }
+      if (port) {
+        await port.close().catch(() => undefined)
+        port = null
+      }
+    },
+
+    onData(next) {
+      listener = next
+    },
+
+    async write(data) {
+      if (!port?.writable) return
+      const writer = port.writable.getWriter()
+      try {
+        await writer.write(new TextEncoder().encode(data))
+      } finally {
+        writer.releaseLock()
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Simulated scale
+// ============================================================================
+
+export interface PlaceOptions {
+  unit?: WeightUnit
+  motionReadings?: number       // Frames sent in motion before settling
+  settledReadings?: number      // Frames sent once settled
+}
+
+/**
+ * A scale that sends frames in the chosen format. Continuous formats send
+ * on `place`; polled formats (SMA) answer each poll with the current weight.
+ */
+export function createSimulatedScaleDriver(format: ScaleFormat) {
+  let listener: ((chunk: string) => void) | null = null
+  let connected = false
+  let current: ScaleReading = { weight: 0, unit: 'lb', net: false, tare: null, motion: false, status: 'ok' }
+  const polled = SCALE_FORMATS[format].pollCommand !== null
+
+  const encode = (reading: ScaleReading) => {
+    switch (format) {
+      case 'toledo':
+        return encodeToledoFrame(reading)
+      case 'sma':
+        return encodeSmaFrame(reading)
+      default:
+        return `${reading.motion ? 'US' : 'ST'},${reading.net ? 'NT' : 'GS'},${reading.weight.toFixed(2)}${reading.unit}\r\n`
+    }
+  }
+
+  const send = (reading: ScaleReading) => {
+    if (connected) listener?.(encode(reading))
+  }
+
+  const driver = {
+    async connect() {
+      connected = true
+    },
+
+    async disconnect() {
+      connected = false
+    },
+
+    onData(next: (chunk: string) => void) {
+      listener = next
+    },
+
+    async write(data: string) {
+      if (polled && data.includes('W')) send(current)
+    },
+
+    /**
+     * Put a weight on the platform. Drifts toward it while in motion, then
+     * holds steady.
+     */
+    place(weight: number, options: PlaceOptions = {}) {
+      const unit = options.unit ?? 'lb'
+      const motionReadings = options.motionReadings ?? 2
+      const settledReadings = options.settledReadings ?? 5
+      const start = current.weight
+
+      for (let i = 1; i <= motionReadings; i++) {
+        current = { ...current, unit, weight: start + ((weight - start) * i) / (motionReadings + 1), motion: true }
+        if (!polled) send(current)
+      }
+
+      current = { ...current, unit, weight, motion: false }
+      if (!polled) {
+        for (let i = 0; i < settledReadings; i++) send(current)
+      }
+    },
+
+    /**
+     * Send raw text, for partial or malformed frames
+     */
+    emit(chunk: string) {
+      if (connected) listener?.(chunk)
+    },
+  }
+
+  return driver satisfies ScaleDriver
+}
+
+export type SimulatedScaleDriver = ReturnType<typeof createSimulatedScaleDriver>
@@ -0,0 +1,197 @@
+/**
+ * Scale Output Formats
+ *
+ * Parsers for the data formats common bench scales send over serial, plus
+ * encoders used by the simulated scale. Each parser takes one frame (the
+ * text between carriage returns) and returns a reading, or null for frames
+ * that don't carry a weight.
+ *
+ * - Mettler Toledo continuous: STX, three status bytes, 6-digit weight,
+ *   6-digit tare. The scale streams frames without being asked.
+ * - SMA (used by NCI / Avery Weigh-Tronix): LF, status, range, gross/net,
+ *   motion and reserved flags, 10-character weight, unit. Sent in reply to
+ *   a `W` request.
+ * - Generic: any line with a number and a unit, with A&D-style ST/US
+ *   stability prefixes.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScaleFormat = 'toledo' | 'sma' | 'generic'
+
+export type WeightUnit = 'lb' | 'kg' | 'oz' | 'g'
+
+export type ScaleStatus = 'ok' | 'overload' | 'underload' | 'error'
+
+export interface ScaleReading {
+  weight: number            // In `unit`, net if `net` is set
+  unit: WeightUnit
+  net: boolean              // Scale subtracted its own tare
+  tare: number | null       // Tare held by the scale, when reported
+  motion: boolean
+  status: ScaleStatus
+}
+
+export const SCALE_FORMATS: Record<ScaleFormat, { label: string; pollCommand: string | null }> = {
+  toledo: { label: 'Mettler Toledo (continuous)', pollCommand: null },
+  sma: { label: 'NCI / Avery (SMA)', pollCommand: '\nW\r' },
+  generic: { label: 'Other (weight and unit per line)', pollCommand: null },
+}
+
+const STX = '\x02'
+
+// Toledo status word A bits 0-2: where the decimal point sits
+const TOLEDO_DECIMAL_FACTORS = [100, 10, 1, 0.1, 0.01, 0.001, 0.0001, 0.00001]
+
+const TOLEDO_B = {
+  net: 0x01,
+  negative: 0x02,
+  overRange: 0x04,
+  motion: 0x08,
+  kg: 0x10,
+  powerUp: 0x40,            // Zero not yet captured after power-up
+}
+
+const SMA_STATUS: Record<string, ScaleStatus> = {
+  ' ': 'ok',
+  Z: 'ok',                  // Center of zero
+  O: 'overload',
+  U: 'underload',
+  E: 'error',               // Zero error
+  I: 'error',               // Initial zero error
+  T: 'error',               // Tare error
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function parseScaleFrame(frame: string, format: ScaleFormat): ScaleReading | null {
+  switch (format) {
+    case 'toledo':
+      return parseToledoFrame(frame)
+    case 'sma':
+      return parseSmaFrame(frame)
+    default:
+      return parseGenericFrame(frame)
+  }
+}
+
+/**
+ * Mettler Toledo continuous output. A checksum byte may follow the CR that
+ * ends each frame; anything before the STX is ignored.
+ */
+export function parseToledoFrame(frame: string): ScaleReading | null {
+  const start = frame.lastIndexOf(STX)
+  if (start < 0) return null
+
+  const body = frame.slice(start + 1)
+  const match = body.match(/^([\s\S])([\s\S])([\s\S])(\d{6})(\d{6})/)
+  if (!match) return null
+
+  const [, statusA, statusB] = match
+  const factor = TOLEDO_DECIMAL_FACTORS[statusA.charCodeAt(0) & 0x07]
+  const bits = statusB.charCodeAt(0)
+  const sign = bits & TOLEDO_B.negative ? -1 : 1
+
+  return {
+    weight: roundTo(Number(match[4]) * factor * sign, factor),
+    unit: bits & TOLEDO_B.kg ? 'kg' : 'lb',
+    net: (bits & TOLEDO_B.net) !== 0,
+    tare: roundTo(Number(match[5]) * factor, factor),
+    motion: (bits & (TOLEDO_B.motion | TOLEDO_B.powerUp)) !== 0,
+    status: bits & TOLEDO_B.overRange ? (sign < 0 ? 'underload' : 'overload') : 'ok',
+  }
+}
+
+/**
+ * SMA weight response. Tare-only responses (`T` in the gross/net position)
+ * are skipped.
+ */
+export function parseSmaFrame(frame: string): ScaleReading | null {
+  const match = frame
+    .replace(/^[\r\n]+/, '')
+    .match(/^([ ZOUEIT])([1-8 ])([GNT])([M ])(.)\s*([-+]?\s*\d*\.?\d+)\s*(lb|kg|oz|g)\s*$/i)
+  if (!match) return null
+
+  const [, status, , grossNet, motion, , weight, unit] = match
+  if (grossNet === 'T') return null
+
+  return {
+    weight: Number(weight.replace(/\s/g, '')),
+    unit: unit.toLowerCase() as WeightUnit,
+    net: grossNet === 'N',
+    tare: null,
+    motion: motion === 'M',
+    status: SMA_STATUS[status] || 'error',
+  }
+}
+
+/**
+ * Fallback for scales that print a plain weight, e.g. `ST,GS,+0012.34lb`
+ * or `  1.25 kg`. `US` (unstable) or `?` marks motion.
+ */
+export function parseGenericFrame(frame: string): ScaleReading | null {
+  const text = frame.trim()
+  const match = text.match(/([-+]?\s*\d*\.?\d+)\s*(lbs?|kg|oz|g)\b/i)
+  if (!match) return null
+
+  const unit = match[2].toLowerCase()
+  return {
+    weight: Number(match[1].replace(/\s/g, '')),
+    unit: (unit === 'lbs' ? 'lb' : unit) as WeightUnit,
+    net: /\bNT\b/i.test(text),
+    tare: null,
+    motion: /^US\b/i.test(text) || text.includes('?'),
+    status: /^OL\b/i.test(text) ? 'overload' : 'ok',
+  }
+}
+
+/**
+ * Split buffered serial text into complete frames, keeping any partial
+ * frame for the next chunk
+ */
+export function splitScaleFrames(buffer: string): { frames: string[]; rest: string } {
+  const parts = buffer.split('\r')
+  const rest = parts.pop() || ''
+  return { frames: parts.filter(part => part.trim() !== ''), rest }
+}
+
+// ============================================================================
+// Encoding (simulated scales)
+// ============================================================================
+
+export function encodeToledoFrame(reading: ScaleReading, decimals = 2): string {
+  const factor = Math.pow(10, decimals)
+  const statusA = String.fromCharCode(0x20 | 0x08 | (2 + decimals))
+  const statusB = String.fromCharCode(
+    0x20 |
+    (reading.net ? TOLEDO_B.net : 0) |
+    (reading.weight < 0 ? TOLEDO_B.negative : 0) |
+    (reading.status === 'overload' || reading.status === 'underload' ? TOLEDO_B.overRange : 0) |
+    (reading.motion ? TOLEDO_B.motion : 0) |
+    (reading.unit === 'kg' ? TOLEDO_B.kg : 0)
+  )
+  const statusC = String.fromCharCode(0x20)
+  const digits = (value: number) => String(Math.round(Math.abs(value) * factor)).padStart(6, '0').slice(-6)
+
+  return `${STX}${statusA}${statusB}${statusC}${digits(reading.weight)}${digits(reading.tare || 0)}\r`
+}
+
+export function encodeSmaFrame(reading: ScaleReading): string {
+  const status = { ok: ' ', overload: 'O', underload: 'U', error: 'E' }[reading.status]
+  const weight = reading.weight.toFixed(3).padStart(10, ' ')
+  return `\n${status}1${reading.net ? 'N' : 'G'}${reading.motion ? 'M' : ' '} ${weight}${reading.unit.padEnd(3, ' ')}\r`
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Avoid float noise like 12.340000000000002 from the decimal factor
+function roundTo(value: number, factor: number): number {
+  const decimals = Math.max(0, Math.round(-Math.log10(factor)))
+  return Number(value.toFixed(decimals))
+}
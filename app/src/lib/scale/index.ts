@@ -0,0 +1,6 @@
+export { parseScaleFrame, parseToledoFrame, parseSmaFrame, parseGenericFrame, splitScaleFrames, encodeToledoFrame, encodeSmaFrame, SCALE_FORMATS } from './formats'
+export type { ScaleFormat, ScaleReading, ScaleStatus, WeightUnit } from './formats'
+export { createScaleReader, createStabilityDetector, toPounds, fromPounds, roundPackageWeight, DEFAULT_STABILITY } from './reader'
+export type { ScaleReader, ScaleReaderOptions, StabilityOptions, LiveWeight } from './reader'
+export { createWebSerialDriver, createSimulatedScaleDriver, isWebSerialSupported } from './drivers'
+export type { ScaleDriver, SerialOptions, SimulatedScaleDriver, PlaceOptions } from './drivers'
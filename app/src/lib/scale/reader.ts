@@ -0,0 +1,205 @@
+/**
+ * Scale Reader
+ *
+ * Turns a stream of raw scale frames into package weights: converts to
+ * pounds, subtracts a software tare (the tray or bag on the platform), and
+ * reports a weight once the reading has settled. A settled weight is only
+ * reported once; the next one comes after the platform changes.
+ */
+
+import {
+  parseScaleFrame,
+  splitScaleFrames,
+  SCALE_FORMATS,
+  type ScaleFormat,
+  type ScaleReading,
+  type WeightUnit,
+} from './formats'
+import type { ScaleDriver } from './drivers'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StabilityOptions {
+  requiredReadings: number    // Consecutive motion-free readings before a weight counts
+  toleranceLbs: number        // How far those readings may drift
+  minimumLbs: number          // Below this the platform is treated as empty
+}
+
+export interface LiveWeight {
+  weightLbs: number           // After tare
+  grossLbs: number            // Before software tare
+  stable: boolean
+  status: ScaleReading['status']
+}
+
+export interface ScaleReaderOptions {
+  format: ScaleFormat
+  stability?: Partial<StabilityOptions>
+  pollIntervalMs?: number
+  onReading?: (weight: LiveWeight) => void
+  onStableWeight?: (weightLbs: number) => void
+}
+
+export const DEFAULT_STABILITY: StabilityOptions = {
+  requiredReadings: 4,
+  toleranceLbs: 0.01,
+  minimumLbs: 0.02,
+}
+
+const LBS_PER_UNIT: Record<WeightUnit, number> = {
+  lb: 1,
+  kg: 2.20462262,
+  oz: 1 / 16,
+  g: 0.00220462262,
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+export function toPounds(weight: number, unit: WeightUnit): number {
+  return weight * LBS_PER_UNIT[unit]
+}
+
+export function fromPounds(pounds: number, unit: WeightUnit): number {
+  return pounds / LBS_PER_UNIT[unit]
+}
+
+/**
+ * Package weights are recorded to the hundredth of a pound
+ */
+export function roundPackageWeight(pounds: number): number {
+  return Math.round(pounds * 100) / 100
+}
+
+// ============================================================================
+// Stability
+// ============================================================================
+
+/**
+ * Tracks recent readings and decides when the platform has settled
+ */
+export function createStabilityDetector(options: Partial<StabilityOptions> = {}) {
+  const config = { ...DEFAULT_STABILITY, ...options }
+  let recent: number[] = []
+  let reported: number | null = null
+
+  return {
+    /**
+     * Add a reading (in pounds, after tare). Returns the settled weight the
+     * first time it settles, otherwise null.
+     */
+    push(weightLbs: number, usable: boolean): { stable: boolean; settled: number | null } {
+      if (!usable) {
+        recent = []
+        return { stable: false, settled: null }
+      }
+
+      // Emptying the platform or moving well away re-arms reporting
+      if (reported !== null && (weightLbs < config.minimumLbs || Math.abs(weightLbs - reported) > config.toleranceLbs)) {
+        reported = null
+      }
+
+      recent = [...recent, weightLbs].slice(-config.requiredReadings)
+      const stable = recent.length === config.requiredReadings &&
+        Math.max(...recent) - Math.min(...recent) <= config.toleranceLbs
+
+      if (!stable || reported !== null || weightLbs < config.minimumLbs) {
+        return { stable, settled: null }
+      }
+
+      reported = weightLbs
+      return { stable, settled: roundPackageWeight(weightLbs) }
+    },
+
+    reset() {
+      recent = []
+      reported = null
+    },
+  }
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+/**
+ * Read weights from a connected scale driver
+ */
+export function createScaleReader(driver: ScaleDriver, options: ScaleReaderOptions) {
+  const stability = createStabilityDetector(options.stability)
+  const pollCommand = SCALE_FORMATS[options.format].pollCommand
+  let buffer = ''
+  let tareLbs = 0
+  let latestGrossLbs: number | null = null
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+
+  const handleReading = (reading: ScaleReading) => {
+    const grossLbs = toPounds(reading.weight, reading.unit)
+    latestGrossLbs = grossLbs
+
+    const weightLbs = grossLbs - tareLbs
+    const usable = !reading.motion && reading.status === 'ok'
+    const { stable, settled } = stability.push(weightLbs, usable)
+
+    options.onReading?.({
+      weightLbs: roundPackageWeight(weightLbs),
+      grossLbs: roundPackageWeight(grossLbs),
+      stable,
+      status: reading.status,
+    })
+    if (settled !== null) options.onStableWeight?.(settled)
+  }
+
+  const handleData = (chunk: string) => {
+    const { frames, rest } = splitScaleFrames(buffer + chunk)
+    buffer = rest
+    for (const frame of frames) {
+      const reading = parseScaleFrame(frame, options.format)
+      if (reading) handleReading(reading)
+    }
+  }
+
+  return {
+    async start() {
+      driver.onData(handleData)
+      await driver.connect()
+      if (pollCommand) {
+        pollTimer = setInterval(() => {
+          driver.write(pollCommand).catch(() => undefined)
+        }, options.pollIntervalMs ?? 250)
+      }
+    },
+
+    async stop() {
+      if (pollTimer) clearInterval(pollTimer)
+      pollTimer = null
+      await driver.disconnect()
+    },
+
+    /**
+     * Treat whatever is on the platform now (tray, bag) as zero
+     */
+    tare() {
+      tareLbs = latestGrossLbs ?? 0
+      stability.reset()
+      return roundPackageWeight(tareLbs)
+    },
+
+    clearTare() {
+      tareLbs = 0
+      stability.reset()
+    },
+
+    get tareLbs() {
+      return roundPackageWeight(tareLbs)
+    },
+
+    // Exposed for drivers that push data directly
+    handleData,
+  }
+}
+
+export type ScaleReader = ReturnType<typeof createScaleReader>
@@ -0,0 +1,66 @@
+/**
+ * Scan Codes
+ *
+ * Classifies what a floor scanner read: a livestock tracking ID from an ear
+ * tag or carcass tag, a produced package ID from a package label barcode, or
+ * an order number. Keyboard-wedge scanners and camera QR reads both land here,
+ * so input may carry whitespace, prefixes or a full URL.
+ */
+
+export type ScanCodeKind = 'tracking_id' | 'package' | 'order_number' | 'unknown'
+
+export interface ScanCode {
+  kind: ScanCodeKind
+  value: string              // Normalized code to look up
+}
+
+const TRACKING_ID_PATTERN = /^STK-\d{4}-\d{5}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const ORDER_NUMBER_PATTERN = /^(?:ORDER|ORD)?[-\s#]*(\d{1,9})$/
+
+/**
+ * Work out what kind of code was scanned
+ */
+export function classifyScanCode(raw: string): ScanCode {
+  const code = stripUrl(raw.trim())
+  if (!code) return { kind: 'unknown', value: '' }
+
+  const upper = code.toUpperCase()
+  if (TRACKING_ID_PATTERN.test(upper)) {
+    return { kind: 'tracking_id', value: upper }
+  }
+
+  const lower = code.toLowerCase()
+  if (UUID_PATTERN.test(lower)) {
+    return { kind: 'package', value: lower }
+  }
+
+  const orderMatch = upper.match(ORDER_NUMBER_PATTERN)
+  if (orderMatch) {
+    return { kind: 'order_number', value: String(Number(orderMatch[1])) }
+  }
+
+  return { kind: 'unknown', value: code }
+}
+
+/**
+ * Path to the scan resolver for a code, used by scan inputs and printed QR codes
+ */
+export function getScanPath(code: string): string {
+  return `/dashboard/scan/${encodeURIComponent(code.trim())}`
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// QR codes may hold a link to the resolver; the code is the last path segment
+function stripUrl(code: string): string {
+  if (!/^https?:\/\//i.test(code)) return code
+  try {
+    const segments = new URL(code).pathname.split('/').filter(Boolean)
+    return decodeURIComponent(segments[segments.length - 1] || '')
+  } catch {
+    return code
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Slot Booking
+ *
+ * Booking a calendar slot happens in Postgres (book_calendar_slot), which
+ * locks the slot row, checks remaining capacity against bookings and other
+ * producers' live holds, and creates every order for the booking in one
+ * transaction - so two producers can't both take the last place, and a
+ * multi-animal booking either fits completely or creates nothing.
+ *
+ * While a producer fills in the order form they can hold places on the slot
+ * for a few minutes (hold_calendar_slot). Holds expire on their own; orders
+ * give their place back when they are cancelled or deleted.
+ *
+ * Bookings also count against the processor's per-producer limits (see
+ * lib/booking-policy.ts), raised as order_limit, head_limit or
+ * no_show_limit.
+ *
+ * Helpers here turn the functions' errors into text for the producer and
+ * track hold timers.
+ */
+
+import { describeBookingLimit } from '@/lib/booking-policy'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SlotBookingErrorCode =
+  | 'not_authorized'
+  | 'invalid_head'
+  | 'invalid_livestock'
+  | 'slot_unavailable'
+  | 'slot_full'
+  | 'order_limit'
+  | 'head_limit'
+  | 'no_show_limit'
+  | 'unknown'
+
+export interface SlotBookingError {
+  code: SlotBookingErrorCode
+  remaining: number | null    // Places left, for slot_full
+  message: string
+}
+
+export const SLOT_HOLD_MINUTES = 15
+
+const ERROR_CODES: SlotBookingErrorCode[] = [
+  'not_authorized',
+  'invalid_head',
+  'invalid_livestock',
+  'slot_unavailable',
+  'slot_full',
+  'order_limit',
+  'head_limit',
+  'no_show_limit',
+]
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Read an error raised by hold_calendar_slot or book_calendar_slot
+ */
+export function parseSlotBookingError(error: { message?: string; details?: string | null } | null): SlotBookingError {
+  const code = ERROR_CODES.find(c => error?.message === c) || 'unknown'
+  const parsed = error?.details ? parseInt(error.details, 10) : NaN
+  const detail = isNaN(parsed) ? null : parsed
+
+  return {
+    code,
+    remaining: code === 'slot_full' ? detail : null,
+    message: describeSlotBookingError(code, detail),
+  }
+}
+
+/**
+ * The detail is the places left for slot_full, or the limit for order_limit,
+ * head_limit and no_show_limit
+ */
+export function describeSlotBookingError(code: SlotBookingErrorCode, detail: number | null = null): string {
+  switch (code) {
+    case 'not_authorized':
+      return 'Only producers can book processing slots'
+    case 'invalid_head':
+      return 'Choose at least one animal'
+    case 'invalid_livestock':
+      return 'Some of the selected animals can\'t be booked on this slot. Check they are on the farm and match the slot\'s animal type.'
+    case 'slot_unavailable':
+      return 'This slot is no longer open for booking'
+    case 'slot_full':
+      if (detail === 0 || detail === null) return 'This slot is full. Join the waitlist or pick another date.'
+      return `Only ${detail} place${detail === 1 ? '' : 's'} left on this slot`
+    case 'order_limit':
+    case 'head_limit':
+    case 'no_show_limit':
+      return describeBookingLimit(code, detail)
+    default:
+      return 'Failed to book the slot'
+  }
+}
+
+// ============================================================================
+// Holds
+// ============================================================================
+
+/**
+ * Whole seconds until a hold expires, never below zero
+ */
+export function getHoldSecondsLeft(expiresAt: string, now: number = Date.now()): number {
+  return Math.max(0, Math.floor((Date.parse(expiresAt) - now) / 1000))
+}
+
+/**
+ * "14:05"
+ */
+export function formatHoldTimer(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,271 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { notifyOrganizationAsSystem } from '@/lib/notifications/system'
+import { loadBookingHistories, loadBookingPolicy } from '@/lib/booking-history'
+import { getOfferableEntries } from '@/lib/waitlist-matching'
+import {
+  canTransferOrder,
+  getTransferDeadline,
+  pickNextInLine,
+  type TransferableOrder,
+} from '@/lib/slot-transfers'
+import type { AnimalType, SlotTransfer } from '@/types/database'
+import type { WaitlistEntry } from '@/lib/actions/waitlist'
+
+export interface TransferOrder extends TransferableOrder {
+  id: string
+  order_number: number | null
+  producer_id: string
+  processor_id: string
+  scheduled_drop_off: string | null
+  calendar_slot: { id: string; date: string; animal_type: AnimalType } | null
+  livestock: { animal_type: AnimalType } | null
+}
+
+export const ORDER_SELECT = `
+  id, order_number, producer_id, processor_id, status, processing_stage, scheduled_drop_off,
+  calendar_slot:calendar_slots(id, date, animal_type),
+  livestock:livestock(animal_type)
+`
+
+/**
+ * Expire transfers nobody accepted in time, passing next-in-line offers to
+ * the entry after. Runs for every processor, so this takes a service role
+ * client; called on a schedule by /api/cron/waitlist.
+ */
+export async function expireSlotTransfers(
+  admin: SupabaseClient
+): Promise<{ success: boolean; expired: number; error?: string }> {
+  const { data, error } = await admin
+    .from('slot_transfers')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('expires_at', new Date().toISOString())
+
+  if (error) {
+    console.error('Error finding expired slot transfers:', error)
+    return { success: false, expired: 0, error: error.message }
+  }
+
+  const expired = await expireTransfers(admin, ((data || []) as { id: string }[]).map(t => t.id))
+  return { success: true, expired }
+}
+
+export async function insertTransfer(
+  admin: SupabaseClient,
+  details: {
+    processorId: string
+    fromProducerId: string
+    toProducerId: string
+    orderId: string | null
+    entryId: string | null
+    recipientEntryId: string | null
+    note: string | null
+  }
+): Promise<{ data: SlotTransfer | null; error: { code?: string; message: string } | null }> {
+  const policy = await loadBookingPolicy(admin, details.processorId)
+
+  const { data, error } = await admin
+    .from('slot_transfers')
+    .insert({
+      processor_id: details.processorId,
+      from_producer_id: details.fromProducerId,
+      to_producer_id: details.toProducerId,
+      order_id: details.orderId,
+      entry_id: details.entryId,
+      to_next_in_line: !!details.recipientEntryId,
+      recipient_entry_id: details.recipientEntryId,
+      requires_approval: policy.requireTransferApproval,
+      note: details.note,
+      expires_at: getTransferDeadline(policy),
+    })
+    .select('*')
+    .single()
+
+  return { data: data as SlotTransfer | null, error }
+}
+
+// The first waitlist entry that would take the order's slot, skipping the
+// sender, anyone who already turned it down and producers at a booking limit
+export async function findNextInLine(
+  admin: SupabaseClient,
+  order: TransferOrder,
+  previousRecipientEntryIds: string[]
+): Promise<WaitlistEntry | null> {
+  const date = order.calendar_slot?.date || order.scheduled_drop_off?.split('T')[0]
+  const animalType = order.calendar_slot?.animal_type || order.livestock?.animal_type
+  if (!date || !animalType) return null
+
+  const { data: entries, error } = await admin
+    .from('waitlist_entries')
+    .select('*')
+    .eq('processor_id', order.processor_id)
+    .eq('animal_type', animalType)
+    .eq('is_active', true)
+    .is('converted_to_order_id', null)
+
+  if (error) {
+    console.error('Error loading waitlist for slot transfer:', error)
+    return null
+  }
+
+  const waiting = (entries || []) as WaitlistEntry[]
+  const policy = await loadBookingPolicy(admin, order.processor_id)
+  const histories = await loadBookingHistories(admin, order.processor_id, waiting.map(e => e.producer_id), policy)
+
+  return pickNextInLine(
+    getOfferableEntries(waiting, histories, policy, date),
+    { date, animalType, slotId: order.calendar_slot?.id || null },
+    order.producer_id,
+    previousRecipientEntryIds
+  )
+}
+
+// After a next-in-line offer is declined or lapses, offer the slot to the
+// entry after. Tells the sender if nobody is left.
+export async function offerToNextInLine(admin: SupabaseClient, previous: SlotTransfer): Promise<void> {
+  if (!previous.order_id) return
+
+  const { data } = await admin
+    .from('processing_orders')
+    .select(ORDER_SELECT)
+    .eq('id', previous.order_id)
+    .single()
+
+  const order = data as unknown as TransferOrder | null
+  if (!order || order.producer_id !== previous.from_producer_id || !canTransferOrder(order)) return
+
+  const { data: earlier } = await admin
+    .from('slot_transfers')
+    .select('recipient_entry_id')
+    .eq('order_id', order.id)
+    .eq('to_next_in_line', true)
+
+  const skip = ((earlier || []) as { recipient_entry_id: string | null }[])
+    .map(t => t.recipient_entry_id)
+    .filter((id): id is string => !!id)
+
+  const next = await findNextInLine(admin, order, skip)
+  if (!next) {
+    await notifyOrganizationAsSystem(admin, previous.from_producer_id, {
+      type: 'system',
+      title: 'No One Left to Take Your Slot',
+      body: `Nobody else on the waitlist can take order #${order.order_number}. It is still yours.`,
+      processingOrderId: order.id,
+    })
+    return
+  }
+
+  const { data: transfer, error } = await insertTransfer(admin, {
+    processorId: order.processor_id,
+    fromProducerId: previous.from_producer_id,
+    toProducerId: next.producer_id,
+    orderId: order.id,
+    entryId: null,
+    recipientEntryId: next.id,
+    note: previous.note,
+  })
+
+  if (error || !transfer) {
+    // A new transfer for the order was started in the meantime
+    if (error?.code !== '23505') console.error('Error passing slot transfer on:', error)
+    return
+  }
+
+  await notifyTransferOffered(admin, transfer)
+}
+
+export async function expireTransfers(admin: SupabaseClient, transferIds: string[]): Promise<number> {
+  let expired = 0
+
+  for (const id of transferIds) {
+    const { data, error } = await admin
+      .from('slot_transfers')
+      .update({ status: 'expired' })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .lte('expires_at', new Date().toISOString())
+      .select('*')
+
+    if (error) {
+      console.error('Error expiring slot transfer:', error)
+      continue
+    }
+
+    const transfer = (data || [])[0] as SlotTransfer | undefined
+    if (!transfer) continue
+    expired++
+
+    const subject = await describeTransferSubject(admin, transfer)
+    await notifyOrganizationAsSystem(admin, transfer.from_producer_id, {
+      type: 'system',
+      title: 'Slot Transfer Expired',
+      body: `Your offer of ${subject} wasn't accepted in time.`,
+      processingOrderId: transfer.order_id,
+    })
+
+    if (transfer.to_next_in_line) await offerToNextInLine(admin, transfer)
+  }
+
+  return expired
+}
+
+// "order #123 (drop-off 2025-03-20)" or "a beef waitlist spot around 2025-03-20"
+export async function describeTransferSubject(admin: SupabaseClient, transfer: SlotTransfer): Promise<string> {
+  if (transfer.order_id) {
+    const { data } = await admin
+      .from('processing_orders')
+      .select('order_number, scheduled_drop_off')
+      .eq('id', transfer.order_id)
+      .single()
+
+    const order = data as { order_number: number | null; scheduled_drop_off: string | null } | null
+    const dropOff = order?.scheduled_drop_off ? ` (drop-off ${order.scheduled_drop_off.split('T')[0]})` : ''
+    return `order #${order?.order_number ?? ''}${dropOff}`
+  }
+
+  const { data } = await admin
+    .from('waitlist_entries')
+    .select('animal_type, preferred_date')
+    .eq('id', transfer.entry_id!)
+    .single()
+
+  const entry = data as { animal_type: AnimalType; preferred_date: string } | null
+  return entry ? `a ${entry.animal_type} waitlist spot around ${entry.preferred_date}` : 'a waitlist spot'
+}
+
+export async function notifyTransferOffered(admin: SupabaseClient, transfer: SlotTransfer): Promise<void> {
+  const subject = await describeTransferSubject(admin, transfer)
+  const reason = transfer.to_next_in_line ? ' because you\'re next on the waitlist' : ''
+
+  await notifyOrganizationAsSystem(admin, transfer.to_producer_id, {
+    type: 'slot_available',
+    title: 'Slot Offered to You',
+    body: `Another producer is offering you ${subject}${reason}. Accept it from your waitlist by ${new Date(transfer.expires_at).toLocaleString()}.`,
+  })
+}
+
+export async function notifyTransferCompleted(admin: SupabaseClient, transfer: SlotTransfer, subject: string): Promise<void> {
+  await notifyOrganizationAsSystem(admin, transfer.to_producer_id, {
+    type: 'slot_available',
+    title: 'Slot Transferred to You',
+    body: transfer.order_id
+      ? `${capitalize(subject)} is now yours. Add your animal and cut sheet before drop-off.`
+      : `${capitalize(subject)} is now yours and keeps its place in line.`,
+    processingOrderId: transfer.order_id,
+  })
+  await notifyOrganizationAsSystem(admin, transfer.from_producer_id, {
+    type: 'system',
+    title: 'Slot Transfer Complete',
+    body: `${capitalize(subject)} now belongs to the producer you offered it to.`,
+  })
+  await notifyOrganizationAsSystem(admin, transfer.processor_id, {
+    type: 'order_status_update',
+    title: 'Slot Changed Hands',
+    body: `${capitalize(subject)} was transferred to another producer.`,
+    processingOrderId: transfer.order_id,
+  })
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
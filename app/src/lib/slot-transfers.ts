@@ -0,0 +1,167 @@
+/**
+ * Slot Transfers
+ *
+ * A producer who can't use a claimed slot (an order still waiting for
+ * drop-off) or a place on the waitlist can hand it to another producer:
+ * - to a specific producer, found by the email they sign in with
+ * - for claimed slots, to the processor's next in line: the first waitlist
+ *   entry that would take the slot's date and animal type. If they decline
+ *   or let it lapse, the slot goes to the entry after them.
+ *
+ * The recipient accepts within the processor's transfer window. Processors
+ * can require their approval before ownership moves. Moving ownership
+ * happens in Postgres (respond_slot_transfer / decide_slot_transfer) so the
+ * order or entry, its cut sheet and the recipient's waitlist entry change
+ * together. Waitlist positions keep their place in line.
+ *
+ * Pure functions only - lib/actions/slot-transfers.ts creates transfers and
+ * notifies everyone involved.
+ */
+
+import type { OrderStatus, ProcessingStage, SlotTransfer, SlotTransferStatus } from '@/types/database'
+import { describeBookingLimit, type BookingLimitCode, type BookingPolicy } from '@/lib/booking-policy'
+import { compareWaitlistEntries, matchesOpening, type WaitlistCandidate, type WaitlistOpening } from '@/lib/waitlist-matching'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SlotTransferErrorCode =
+  | 'not_authorized'
+  | 'transfer_not_found'
+  | 'transfer_expired'
+  | 'transfer_unavailable'
+  | BookingLimitCode
+  | 'unknown'
+
+export interface TransferableOrder {
+  status: OrderStatus
+  processing_stage: ProcessingStage
+}
+
+const TRANSFERABLE_STATUSES: OrderStatus[] = ['draft', 'submitted', 'confirmed']
+const OPEN_STATUSES: SlotTransferStatus[] = ['pending', 'awaiting_approval']
+
+const ERROR_CODES: SlotTransferErrorCode[] = [
+  'not_authorized',
+  'transfer_not_found',
+  'transfer_expired',
+  'transfer_unavailable',
+  'order_limit',
+  'head_limit',
+  'waitlist_limit',
+  'no_show_limit',
+]
+
+export const TRANSFER_STATUS_LABELS: Record<SlotTransferStatus, string> = {
+  pending: 'Waiting for recipient',
+  awaiting_approval: 'Waiting for processor approval',
+  completed: 'Transferred',
+  declined: 'Declined',
+  rejected: 'Rejected by processor',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+}
+
+// ============================================================================
+// Eligibility
+// ============================================================================
+
+/**
+ * Orders can change hands until the animal is dropped off
+ */
+export function canTransferOrder(order: TransferableOrder): boolean {
+  return TRANSFERABLE_STATUSES.includes(order.status) && order.processing_stage === 'pending'
+}
+
+export function canTransferEntry(entry: Pick<WaitlistCandidate, 'is_active' | 'converted_to_order_id'>): boolean {
+  return entry.is_active && !entry.converted_to_order_id
+}
+
+export function isTransferOpen(transfer: Pick<SlotTransfer, 'status'>): boolean {
+  return OPEN_STATUSES.includes(transfer.status)
+}
+
+// ============================================================================
+// Deadlines
+// ============================================================================
+
+/**
+ * When a transfer offered now lapses under the processor's policy
+ */
+export function getTransferDeadline(policy: BookingPolicy, now: number = Date.now()): string {
+  return new Date(now + policy.transferWindowHours * 3600000).toISOString()
+}
+
+/**
+ * A pending transfer the recipient didn't answer in time. Transfers waiting
+ * for the processor don't lapse.
+ */
+export function isTransferExpired(transfer: Pick<SlotTransfer, 'status' | 'expires_at'>, now: number = Date.now()): boolean {
+  return transfer.status === 'pending' && Date.parse(transfer.expires_at) <= now
+}
+
+// ============================================================================
+// Next in line
+// ============================================================================
+
+/**
+ * The waitlist entry a claimed slot goes to when offered to the next in
+ * line: the highest ranked entry that would take one place on the slot's
+ * date, skipping the sender and entries that already turned it down. Pass
+ * entries through getOfferableEntries first so booking policy applies.
+ */
+export function pickNextInLine<T extends WaitlistCandidate & { producer_id: string }>(
+  entries: T[],
+  opening: Omit<WaitlistOpening, 'places'>,
+  fromProducerId: string,
+  previousRecipientEntryIds: string[] = []
+): T | null {
+  const skip = new Set(previousRecipientEntryIds)
+  const slot: WaitlistOpening = { ...opening, places: 1 }
+
+  return [...entries]
+    .sort(compareWaitlistEntries)
+    .find(entry =>
+      entry.producer_id !== fromProducerId &&
+      !skip.has(entry.id) &&
+      matchesOpening(entry, slot)
+    ) ?? null
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Read an error raised by respond_slot_transfer or decide_slot_transfer. The
+ * recipient's booking limits apply when ownership moves.
+ */
+export function parseSlotTransferError(error: { message?: string; details?: string | null } | null): {
+  code: SlotTransferErrorCode
+  message: string
+} {
+  const code = ERROR_CODES.find(c => error?.message === c) || 'unknown'
+  const limit = error?.details ? parseInt(error.details, 10) : NaN
+  return { code, message: describeSlotTransferError(code, isNaN(limit) ? null : limit) }
+}
+
+export function describeSlotTransferError(code: SlotTransferErrorCode, limit: number | null = null): string {
+  switch (code) {
+    case 'order_limit':
+    case 'head_limit':
+    case 'waitlist_limit':
+    case 'no_show_limit':
+      return describeBookingLimit(code, limit)
+    case 'not_authorized':
+      return 'You can\'t act on this transfer'
+    case 'transfer_not_found':
+      return 'Transfer not found'
+    case 'transfer_expired':
+      return 'This transfer offer has expired'
+    case 'transfer_unavailable':
+      return 'This slot can no longer be transferred'
+    default:
+      return 'Failed to update the transfer'
+  }
+}
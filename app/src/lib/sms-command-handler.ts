@@ -0,0 +1,161 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { notifyOrganizationAsSystem } from '@/lib/notifications/system'
+import {
+  describeOrderStatus,
+  normalizePhoneNumber,
+  parseSmsCommand,
+  SMS_HELP_REPLY,
+  SMS_START_REPLY,
+  SMS_STOP_REPLY,
+  type SmsOrderSummary,
+} from '@/lib/sms-notifications'
+import type { Json, OrganizationType } from '@/types/database'
+
+interface TextingUser {
+  id: string
+  organization_id: string | null
+  notification_preferences: Json | null
+  organization: { type: OrganizationType } | null
+}
+
+interface SmsOrder extends SmsOrderSummary {
+  id: string
+  producer_id: string
+  processor_id: string
+}
+
+const ORDER_SELECT = `
+  id, order_number, status, processing_stage, estimated_ready_date, producer_id, processor_id,
+  livestock(animal_type, tag_number)
+`
+
+const ACTIVE_STATUSES = ['submitted', 'confirmed', 'in_progress', 'ready']
+
+/**
+ * The reply to a text, or null to stay quiet. Texts arrive without a user
+ * session, so this takes a service role client; the sender is whoever has
+ * verified the number on their profile. Numbers nobody has verified can't
+ * change anyone's settings or see any orders.
+ */
+export async function handleInboundSms(
+  admin: SupabaseClient,
+  sms: { from: string; body: string }
+): Promise<string | null> {
+  const phone = normalizePhoneNumber(sms.from)
+  if (!phone) return null
+
+  const command = parseSmsCommand(sms.body)
+
+  const { data } = await admin
+    .from('users')
+    .select('id, organization_id, notification_preferences, organization:organizations(type)')
+    .eq('phone_e164', phone)
+    .not('phone_verified_at', 'is', null)
+    .eq('is_active', true)
+  const users = (data || []) as unknown as TextingUser[]
+
+  // Opting out covers every account that verified the number
+  if (command.kind === 'stop' || command.kind === 'start') {
+    await Promise.all(users.map(user => admin
+      .from('users')
+      .update({ notification_preferences: { ...asObject(user.notification_preferences), sms_enabled: command.kind === 'start' } })
+      .eq('id', user.id)
+    ))
+    return command.kind === 'stop' ? SMS_STOP_REPLY : SMS_START_REPLY
+  }
+
+  if (command.kind === 'help') return SMS_HELP_REPLY
+
+  if (users.length === 0) {
+    return "This number isn't on a Steakholders account. Add it to your profile in Settings and verify it to text about orders."
+  }
+  if (users.length > 1) {
+    return "This number is on more than one Steakholders account, so we can't tell whose orders to look up."
+  }
+
+  const user = users[0]
+  if (!user.organization_id) return null
+
+  if (command.kind === 'status') {
+    return command.orderNumber
+      ? describeOne(admin, user.organization_id, command.orderNumber)
+      : describeActive(admin, user.organization_id)
+  }
+
+  if (command.kind === 'confirm') {
+    if (!command.orderNumber) return 'Which order? Text CONFIRM and the order number, like CONFIRM 1042.'
+    if (user.organization?.type !== 'processor') return 'Only the processor can confirm an order.'
+    return confirmOrder(admin, user.organization_id, command.orderNumber)
+  }
+
+  return "Sorry, we didn't understand that. Text STATUS 1042 for an order's status, or HELP for more."
+}
+
+function asObject(value: Json | null): Record<string, Json | undefined> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+}
+
+async function findOrder(admin: SupabaseClient, organizationId: string, orderNumber: number): Promise<SmsOrder | null> {
+  const { data } = await admin
+    .from('processing_orders')
+    .select(ORDER_SELECT)
+    .eq('order_number', orderNumber)
+    .or(`producer_id.eq.${organizationId},processor_id.eq.${organizationId}`)
+    .maybeSingle()
+  return data as unknown as SmsOrder | null
+}
+
+async function describeOne(admin: SupabaseClient, organizationId: string, orderNumber: number): Promise<string> {
+  const order = await findOrder(admin, organizationId, orderNumber)
+  return order ? describeOrderStatus(order) : `We couldn't find order #${orderNumber} on your account.`
+}
+
+async function describeActive(admin: SupabaseClient, organizationId: string): Promise<string> {
+  const { data } = await admin
+    .from('processing_orders')
+    .select(ORDER_SELECT)
+    .or(`producer_id.eq.${organizationId},processor_id.eq.${organizationId}`)
+    .in('status', ACTIVE_STATUSES)
+    .order('order_number', { ascending: false })
+    .limit(5)
+
+  const orders = (data || []) as unknown as SmsOrder[]
+  if (orders.length === 0) return 'You have no active orders.'
+  return orders.map(describeOrderStatus).join('\n')
+}
+
+async function confirmOrder(admin: SupabaseClient, processorId: string, orderNumber: number): Promise<string> {
+  const order = await findOrder(admin, processorId, orderNumber)
+  if (!order || order.processor_id !== processorId) {
+    return `We couldn't find order #${orderNumber} on your account.`
+  }
+  if (order.status !== 'submitted') {
+    return `Order #${orderNumber} can't be confirmed - ${describeOrderStatus(order)}.`
+  }
+
+  // Only if it's still waiting, in case it changed since it was read
+  const { data: updated, error } = await admin
+    .from('processing_orders')
+    .update({ status: 'confirmed' })
+    .eq('id', order.id)
+    .eq('status', 'submitted')
+    .select('id')
+
+  if (error) {
+    console.error('Error confirming order by text:', error)
+    return `Something went wrong confirming order #${orderNumber}. Try again, or confirm it in the app.`
+  }
+  if (!updated || updated.length === 0) {
+    return `Order #${orderNumber} changed before it could be confirmed. Text STATUS ${orderNumber} to see where it is.`
+  }
+
+  // Same notification as confirming on the order page
+  await notifyOrganizationAsSystem(admin, order.producer_id, {
+    type: 'order_confirmed',
+    title: `Order #${orderNumber}: Order Confirmed`,
+    body: 'Your order has been confirmed by the processor.' + (order.livestock ? ` (${order.livestock.animal_type})` : ''),
+    processingOrderId: order.id,
+  })
+
+  return `Order #${orderNumber} is confirmed. We've let the producer know.`
+}
@@ -0,0 +1,285 @@
+/**
+ * SMS Notifications
+ *
+ * Texts alongside notification emails, for people who read texts on the
+ * farm rather than email. Texting is opt-in: users verify their number with
+ * a texted code, turn texting on in Settings and set quiet hours - a text
+ * due during quiet hours is held until they end. Which notifications are
+ * texted is part of the preference matrix in lib/notification-preferences.ts.
+ *
+ * People can text back:
+ *   STOP / START / HELP          opt out, opt back in, what can I text?
+ *   STATUS 1042, READY? 1042     where is order #1042?
+ *   READY?                       my organization's active orders
+ *   CONFIRM 1042                 processors: confirm a submitted order
+ *
+ * Pure functions only - lib/notifications/sms.ts sends texts and
+ * lib/sms-command-handler.ts answers them.
+ */
+
+import { STAGE_LABELS } from '@/lib/processing-stages'
+import type { Json, OrderStatus, ProcessingStage } from '@/types/database'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Stored in users.notification_preferences next to the email settings
+export interface SmsPreferences {
+  sms_enabled: boolean
+  sms_quiet_start: string | null      // HH:MM, local
+  sms_quiet_end: string | null
+  sms_timezone: string | null         // IANA zone, from the browser that saved them
+}
+
+export const DEFAULT_SMS_PREFERENCES: SmsPreferences = {
+  sms_enabled: false,
+  sms_quiet_start: '21:00',
+  sms_quiet_end: '07:00',
+  sms_timezone: null,
+}
+
+export type SmsCommand =
+  | { kind: 'stop' }
+  | { kind: 'start' }
+  | { kind: 'help' }
+  | { kind: 'confirm'; orderNumber: number | null }
+  | { kind: 'status'; orderNumber: number | null }
+  | { kind: 'unknown' }
+
+export interface SmsOrderSummary {
+  order_number: number
+  status: OrderStatus
+  processing_stage: ProcessingStage
+  estimated_ready_date: string | null
+  livestock: { animal_type: string; tag_number: string | null } | null
+}
+
+// The code last texted to a user (phone_verifications)
+export interface PendingPhoneCode {
+  phone_e164: string
+  code_hash: string
+  expires_at: string
+  attempts: number
+}
+
+export type PhoneCodeResult = 'verified' | 'wrong_code' | 'expired' | 'too_many_attempts' | 'no_code'
+
+// Two SMS segments
+export const SMS_MAX_LENGTH = 320
+
+// Codes texted to verify a number
+export const PHONE_CODE_MINUTES = 10
+export const PHONE_CODE_MAX_ATTEMPTS = 5
+
+// Carrier (CTIA) opt-out and opt-in keywords
+const STOP_WORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE']
+const START_WORDS = ['START', 'UNSTOP', 'YES', 'OPTIN']
+const HELP_WORDS = ['HELP', 'INFO']
+
+export const SMS_HELP_REPLY =
+  'Steakholders order texts. Text STATUS 1042 or READY? for order status, CONFIRM 1042 to confirm an order. ' +
+  'Reply STOP to opt out. Msg & data rates may apply.'
+export const SMS_STOP_REPLY = "You won't get any more texts from Steakholders. Reply START to turn them back on."
+export const SMS_START_REPLY = 'Steakholders texts are back on. Reply HELP for help, STOP to opt out.'
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Waiting for the processor to confirm',
+  confirmed: 'Confirmed',
+  in_progress: 'In progress',
+  ready: 'Ready for pickup',
+  complete: 'Picked up',
+  cancelled: 'Cancelled',
+}
+
+// ============================================================================
+// Preferences
+// ============================================================================
+
+export function getSmsPreferences(preferences: Json | null): SmsPreferences {
+  const prefs = (preferences && typeof preferences === 'object' && !Array.isArray(preferences))
+    ? preferences as Partial<SmsPreferences>
+    : {}
+  return { ...DEFAULT_SMS_PREFERENCES, ...prefs }
+}
+
+export function isSmsEnabled(preferences: Json | null): boolean {
+  return getSmsPreferences(preferences).sms_enabled === true
+}
+
+function parseTime(value: string | null): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null
+}
+
+function getLocalMinutes(now: Date, timezone: string): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now)
+    const hour = Number(parts.find(p => p.type === 'hour')?.value)
+    const minute = Number(parts.find(p => p.type === 'minute')?.value)
+    return hour * 60 + minute
+  } catch {
+    return null    // unknown time zone
+  }
+}
+
+/**
+ * When a text due now can be sent: null to send it now, or the end of the
+ * user's quiet hours. Quiet hours can run overnight (21:00 - 07:00).
+ */
+export function getQuietHoursEnd(preferences: Json | null, now: Date = new Date()): Date | null {
+  const prefs = getSmsPreferences(preferences)
+  const start = parseTime(prefs.sms_quiet_start)
+  const end = parseTime(prefs.sms_quiet_end)
+  if (start === null || end === null || start === end || !prefs.sms_timezone) return null
+
+  const local = getLocalMinutes(now, prefs.sms_timezone)
+  if (local === null) return null
+
+  const quiet = start < end ? local >= start && local < end : local >= start || local < end
+  if (!quiet) return null
+
+  const wait = (end - local + 1440) % 1440
+  const minute = Math.floor(now.getTime() / 60000) * 60000
+  return new Date(minute + wait * 60000)
+}
+
+// ============================================================================
+// Phone Numbers
+// ============================================================================
+
+/**
+ * A typed phone number in E.164, assuming US numbers without a country code.
+ * Mirrors normalize_phone() in Postgres, which fills users.phone_e164.
+ */
+export function normalizePhoneNumber(phone: string | null | undefined): string | null {
+  if (!phone) return null
+  const digits = phone.replace(/\D/g, '')
+
+  if (phone.trim().startsWith('+') && digits.length >= 8 && digits.length <= 15) return `+${digits}`
+  if (digits.length === 10) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+  return null
+}
+
+/**
+ * Whether a user's number is theirs: they confirmed a code texted to it.
+ * Only verified numbers are texted or answered.
+ */
+export function isPhoneVerified(user: { phone_e164: string | null; phone_verified_at: string | null }): boolean {
+  return !!user.phone_e164 && !!user.phone_verified_at
+}
+
+export function formatPhoneVerificationSms(code: string): string {
+  return `Steakholders: Your verification code is ${code}. It expires in ${PHONE_CODE_MINUTES} minutes.`
+}
+
+/**
+ * Check a typed code (already hashed) against the one last texted to the
+ * user, which must have gone to their current number
+ */
+export function checkPhoneCode(
+  pending: PendingPhoneCode | null,
+  phone: string | null,
+  codeHash: string,
+  now: Date = new Date()
+): PhoneCodeResult {
+  if (!pending || !phone || pending.phone_e164 !== phone) return 'no_code'
+  if (new Date(pending.expires_at).getTime() <= now.getTime()) return 'expired'
+  if (pending.attempts >= PHONE_CODE_MAX_ATTEMPTS) return 'too_many_attempts'
+  return pending.code_hash === codeHash ? 'verified' : 'wrong_code'
+}
+
+export function describePhoneCodeResult(result: PhoneCodeResult): string {
+  switch (result) {
+    case 'verified':
+      return 'Your number is verified'
+    case 'wrong_code':
+      return "That code doesn't match. Check the text and try again."
+    case 'expired':
+    case 'too_many_attempts':
+      return 'That code has expired. Send a new one.'
+    default:
+      return 'Send a code to your number first'
+  }
+}
+
+// ============================================================================
+// Outbound
+// ============================================================================
+
+export function formatNotificationSms(title: string, body: string | null): string {
+  const text = `Steakholders: ${title}${body ? ` - ${body}` : ''}`
+  return text.length > SMS_MAX_LENGTH ? `${text.slice(0, SMS_MAX_LENGTH - 3)}...` : text
+}
+
+function formatShortDate(date: string): string {
+  return new Date(date.split('T')[0] + 'T00:00:00Z').toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+export function describeOrderStatus(order: SmsOrderSummary): string {
+  const animal = order.livestock
+    ? ` (${order.livestock.animal_type}${order.livestock.tag_number ? ` #${order.livestock.tag_number}` : ''})`
+    : ''
+
+  const status = order.status === 'in_progress'
+    ? STAGE_LABELS[order.processing_stage]
+    : STATUS_LABELS[order.status]
+
+  const ready = order.estimated_ready_date && ['confirmed', 'in_progress'].includes(order.status)
+    ? `, est. ready ${formatShortDate(order.estimated_ready_date)}`
+    : ''
+
+  return `Order #${order.order_number}${animal}: ${status}${ready}`
+}
+
+// ============================================================================
+// Inbound
+// ============================================================================
+
+function findOrderNumber(text: string): number | null {
+  const match = text.match(/#?\s*(\d{1,9})\b/)
+  return match ? Number(match[1]) : null
+}
+
+export function parseSmsCommand(body: string): SmsCommand {
+  const text = body.trim().toUpperCase().replace(/\s+/g, ' ')
+  const word = text.replace(/[^A-Z0-9]/g, '')
+
+  if (STOP_WORDS.includes(word)) return { kind: 'stop' }
+  if (START_WORDS.includes(word)) return { kind: 'start' }
+  if (HELP_WORDS.includes(word)) return { kind: 'help' }
+
+  if (/^CONFIRM\b/.test(text)) return { kind: 'confirm', orderNumber: findOrderNumber(text) }
+  if (/^(STATUS|READY|WHERE)\b/.test(text) || /^(ORDER )?#?\d+ ?\?$/.test(text)) {
+    return { kind: 'status', orderNumber: findOrderNumber(text) }
+  }
+
+  return { kind: 'unknown' }
+}
+
+/**
+ * A TwiML response that texts back the reply, or says nothing
+ */
+export function renderSmsReply(reply: string | null): string {
+  const escaped = (reply || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+  return reply
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escaped}</Message></Response>`
+    : '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
+}
@@ -0,0 +1,2 @@
+export { smsProvider, isSmsConfigured, createTwilioProvider, createFakeSmsProvider, verifyTwilioSignature } from './provider'
+export type { SmsMessage, SmsProvider, FakeSmsProvider } from './provider'
@@ -0,0 +1,112 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export interface SmsMessage {
+  to: string          // E.164
+  body: string
+}
+
+export interface SmsProvider {
+  name: string
+  send(message: SmsMessage): Promise<{ id: string }>
+}
+
+interface TwilioConfig {
+  accountSid: string
+  authToken: string
+  from: string        // a number, or a Messaging Service SID (MG...)
+  statusCallback?: string   // where Twilio reports undelivered texts
+}
+
+/**
+ * Twilio's Messages API, called directly - no SDK needed for one endpoint
+ */
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`
+  const auth = Buffer.from(`${config.accountSid}:${config.authToken}`).toString('base64')
+
+  return {
+    name: 'twilio',
+    async send(message) {
+      const form = new URLSearchParams({ To: message.to, Body: message.body })
+      form.set(config.from.startsWith('MG') ? 'MessagingServiceSid' : 'From', config.from)
+      if (config.statusCallback) form.set('StatusCallback', config.statusCallback)
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${auth}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: form.toString(),
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(`Twilio ${response.status}: ${result.message || response.statusText}`)
+      }
+      return { id: result.sid }
+    },
+  }
+}
+
+export interface FakeSmsProvider extends SmsProvider {
+  sent: (SmsMessage & { id: string })[]
+}
+
+/**
+ * Keeps texts in memory instead of sending them, for tests and local
+ * development (SMS_PROVIDER=fake logs them too)
+ */
+export function createFakeSmsProvider(log: boolean = false): FakeSmsProvider {
+  const sent: (SmsMessage & { id: string })[] = []
+
+  return {
+    name: 'fake',
+    sent,
+    async send(message) {
+      const id = `fake-${sent.length + 1}`
+      sent.push({ ...message, id })
+      if (log) console.log(`[SMS] To ${message.to}: ${message.body}`)
+      return { id }
+    },
+  }
+}
+
+function createConfiguredProvider(): SmsProvider | null {
+  if (process.env.SMS_PROVIDER === 'fake') return createFakeSmsProvider(true)
+
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env
+  if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) return null
+
+  return createTwilioProvider({
+    accountSid: TWILIO_ACCOUNT_SID,
+    authToken: TWILIO_AUTH_TOKEN,
+    from: TWILIO_FROM_NUMBER,
+    statusCallback: process.env.NEXT_PUBLIC_APP_URL ? `${process.env.NEXT_PUBLIC_APP_URL}/api/sms/status` : undefined,
+  })
+}
+
+// Will be null if no provider is configured
+export const smsProvider = createConfiguredProvider()
+
+export function isSmsConfigured(): boolean {
+  return smsProvider !== null
+}
+
+/**
+ * Twilio signs webhooks with base64 HMAC-SHA1 of the full URL followed by
+ * each POST parameter's name and value, sorted by name
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null,
+  authToken: string
+): boolean {
+  if (!signature) return false
+
+  const data = url + Object.keys(params).sort().map(key => key + params[key]).join('')
+  const expected = Buffer.from(createHmac('sha1', authToken).update(data).digest('base64'))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
@@ -0,0 +1,13 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service role client for server code that has to act across organizations
+ * or without a signed-in user (scheduled jobs). Bypasses RLS - check the
+ * caller before using it.
+ */
+export function createServiceClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+}
@@ -0,0 +1,425 @@
+/**
+ * Waitlist Matching
+ *
+ * When places open up on a processor's calendar (an order is cancelled, a
+ * slot gets more capacity) the waitlist decides who hears about it first.
+ * An entry matches an opening when:
+ * - it is still active and not converted to an order
+ * - the animal type is the same
+ * - the opening's date is within the preferred date +/- flexible_range_days
+ * - its head count fits in the places left
+ *
+ * Matching entries are offered in priority tier order (higher first), then
+ * first come, first served. A producer's tier is the higher of the one the
+ * processor sets and the one their completed orders earn under the booking
+ * policy; producers at a booking limit are skipped until they're under it. An entry that needs more places than are left is
+ * skipped for the next one that fits. Each offer can be claimed for a fixed
+ * window; when it lapses the entry stays on the waitlist and the opening
+ * cascades to the next entry that hasn't been offered it yet.
+ *
+ * Claiming happens in Postgres (claim_waitlist_offer): it locks the entry and
+ * the slot, reserves the entry's head on the slot and creates draft orders
+ * for the producer to fill in a cut sheet, or raises an error that
+ * parseWaitlistClaimError turns into text for the producer. Drafts not
+ * submitted within WAITLIST_SUBMIT_HOURS are cancelled and their places
+ * offered down the line.
+ *
+ * Pure functions only - lib/waitlist-offers.ts loads entries, records
+ * offers and notifies producers.
+ */
+
+import type { AnimalType, WaitlistEvent } from '@/types/database'
+import { addDays } from '@/lib/calendar-rules'
+import { parseSlotBookingError, type SlotBookingErrorCode } from '@/lib/slot-booking'
+import {
+  countSeasonHead,
+  getBookingLimitReached,
+  getLoyaltyTier,
+  EMPTY_BOOKING_HISTORY,
+  type BookingLimit,
+  type BookingPolicy,
+  type ProducerBookingHistory,
+} from '@/lib/booking-policy'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WaitlistEventType = WaitlistEvent['event']
+
+export const WAITLIST_CLAIM_HOURS = 24
+
+// Claimed drafts hold their places this long unless submitted (set by
+// claim_waitlist_offer)
+export const WAITLIST_SUBMIT_HOURS = 48
+
+// Set by the processor per entry; higher tiers are offered openings first
+export const WAITLIST_PRIORITY_TIERS: { value: number; label: string }[] = [
+  { value: 0, label: 'Standard' },
+  { value: 1, label: 'Priority' },
+  { value: 2, label: 'Top priority' },
+]
+
+export interface WaitlistCandidate {
+  id: string
+  created_at: string
+  preferred_date: string
+  flexible_range_days: number | null
+  animal_type: AnimalType
+  head_count: number
+  priority_tier: number
+  is_active: boolean
+  converted_to_order_id: string | null
+  notified_at: string | null
+  offer_expires_at: string | null
+  offered_slot_id: string | null
+  offered_date: string | null
+}
+
+export type WaitlistClaimErrorCode =
+  | 'entry_not_found'
+  | 'not_offered'
+  | 'offer_expired'
+  | SlotBookingErrorCode
+
+export interface WaitlistClaimError {
+  code: WaitlistClaimErrorCode
+  message: string
+}
+
+// Where an entry stands in line, and why
+export interface WaitlistStanding {
+  position: number                  // 1 is next, among entries that can take an offer
+  tier: number                      // The higher of the processor's tier and the loyalty tier
+  manualTier: number
+  loyaltyTier: number
+  completedOrders: number
+  aheadWithHigherTier: number
+  aheadJoinedEarlier: number
+  heldBy: BookingLimit | null       // Skipped for offers until back under this limit
+  reasons: string[]
+}
+
+type ProducerCandidate = WaitlistCandidate & { producer_id: string }
+
+export interface WaitlistOpening {
+  date: string                // YYYY-MM-DD
+  animalType: AnimalType
+  slotId: string | null       // Processors without calendar slots have none
+  places: number              // Places free on the slot, before outstanding offers
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * First and last dates an entry will accept
+ */
+export function getWaitlistWindow(entry: Pick<WaitlistCandidate, 'preferred_date' | 'flexible_range_days'>): {
+  start: string
+  end: string
+} {
+  const flexible = Math.max(0, entry.flexible_range_days ?? 0)
+  const preferred = entry.preferred_date.split('T')[0]
+  return { start: addDays(preferred, -flexible), end: addDays(preferred, flexible) }
+}
+
+/**
+ * Whether an entry would take this opening, given the places left on it
+ */
+export function matchesOpening(
+  entry: WaitlistCandidate,
+  opening: WaitlistOpening,
+  places: number = opening.places
+): boolean {
+  if (!entry.is_active || entry.converted_to_order_id) return false
+  if (entry.animal_type !== opening.animalType) return false
+  if (entry.head_count > places) return false
+
+  const { start, end } = getWaitlistWindow(entry)
+  return opening.date >= start && opening.date <= end
+}
+
+/**
+ * Higher priority tiers first, then oldest entry first
+ */
+export function compareWaitlistEntries(
+  a: Pick<WaitlistCandidate, 'id' | 'created_at' | 'priority_tier'>,
+  b: Pick<WaitlistCandidate, 'id' | 'created_at' | 'priority_tier'>
+): number {
+  if (a.priority_tier !== b.priority_tier) return b.priority_tier - a.priority_tier
+  const created = Date.parse(a.created_at) - Date.parse(b.created_at)
+  if (created !== 0) return created
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+/**
+ * An entry's place in line among the active entries it competes with - the
+ * same animal type with an overlapping date window. 1 is next.
+ */
+export function getWaitlistRank(entry: WaitlistCandidate, entries: WaitlistCandidate[]): number {
+  return getEntriesAhead(entry, entries).length + 1
+}
+
+/**
+ * The active entries ahead of an entry for the same openings
+ */
+export function getEntriesAhead<T extends WaitlistCandidate>(entry: WaitlistCandidate, entries: T[]): T[] {
+  const window = getWaitlistWindow(entry)
+
+  return entries.filter(other => {
+    if (other.id === entry.id || !other.is_active || other.converted_to_order_id) return false
+    if (other.animal_type !== entry.animal_type) return false
+    const otherWindow = getWaitlistWindow(other)
+    if (otherWindow.end < window.start || otherWindow.start > window.end) return false
+    return compareWaitlistEntries(other, entry) < 0
+  })
+}
+
+// ============================================================================
+// Offers
+// ============================================================================
+
+/**
+ * When an entry's current offer lapses. Offers recorded before deadlines
+ * were stored get the standard window from when they were sent.
+ */
+export function getOfferExpiry(entry: Pick<WaitlistCandidate, 'notified_at' | 'offer_expires_at'>): string | null {
+  if (entry.offer_expires_at) return entry.offer_expires_at
+  if (!entry.notified_at) return null
+  return new Date(Date.parse(entry.notified_at) + WAITLIST_CLAIM_HOURS * 3600000).toISOString()
+}
+
+export function hasLiveOffer(entry: WaitlistCandidate, now: number = Date.now()): boolean {
+  if (!entry.is_active || entry.converted_to_order_id) return false
+  const expiry = getOfferExpiry(entry)
+  return expiry !== null && Date.parse(expiry) > now
+}
+
+export function isOfferExpired(entry: WaitlistCandidate, now: number = Date.now()): boolean {
+  if (!entry.is_active || entry.converted_to_order_id) return false
+  const expiry = getOfferExpiry(entry)
+  return expiry !== null && Date.parse(expiry) <= now
+}
+
+/**
+ * Identifies an opening across offers: the slot, or the date and animal for
+ * processors without calendar slots
+ */
+export function getOpeningKey(opening: Pick<WaitlistOpening, 'slotId' | 'date' | 'animalType'>): string {
+  return opening.slotId || `${opening.date}:${opening.animalType}`
+}
+
+function isOfferFor(entry: WaitlistCandidate, opening: WaitlistOpening): boolean {
+  if (opening.slotId) return entry.offered_slot_id === opening.slotId
+  return entry.offered_date === opening.date && entry.animal_type === opening.animalType
+}
+
+/**
+ * Places on the opening promised to entries whose offers are still live
+ */
+export function getPlacesOnOffer(entries: WaitlistCandidate[], opening: WaitlistOpening, now: number = Date.now()): number {
+  return entries
+    .filter(entry => hasLiveOffer(entry, now) && isOfferFor(entry, opening))
+    .reduce((sum, entry) => sum + entry.head_count, 0)
+}
+
+/**
+ * Entries to offer the opening to now. Entries holding a live offer, and
+ * entries already offered this opening (passed in previouslyOffered), are
+ * skipped so an expired offer moves down the line instead of coming back.
+ * canTake leaves out entries the booking policy holds back; their live
+ * offers still count against the places.
+ */
+export function planWaitlistOffers<T extends WaitlistCandidate>(
+  entries: T[],
+  opening: WaitlistOpening,
+  previouslyOffered: string[] = [],
+  now: number = Date.now(),
+  canTake: (entry: T) => boolean = () => true
+): T[] {
+  const skip = new Set(previouslyOffered)
+  let places = opening.places - getPlacesOnOffer(entries, opening, now)
+  const offers: T[] = []
+
+  for (const entry of [...entries].sort(compareWaitlistEntries)) {
+    if (places <= 0) break
+    if (skip.has(entry.id) || hasLiveOffer(entry, now) || !canTake(entry)) continue
+    if (!matchesOpening(entry, opening, places)) continue
+
+    offers.push(entry)
+    places -= entry.head_count
+  }
+
+  return offers
+}
+
+/**
+ * Deadline for an offer made now
+ */
+export function getOfferDeadline(now: number = Date.now(), hours: number = WAITLIST_CLAIM_HOURS): string {
+  return new Date(now + hours * 3600000).toISOString()
+}
+
+// ============================================================================
+// Standing
+// ============================================================================
+
+/**
+ * Entries with their priority tier raised to what each producer's
+ * completed orders earn
+ */
+export function applyLoyaltyTiers<T extends ProducerCandidate>(
+  entries: T[],
+  histories: Record<string, ProducerBookingHistory>,
+  policy: BookingPolicy
+): T[] {
+  return entries.map(entry => {
+    const completed = histories[entry.producer_id]?.completedOrders ?? 0
+    const tier = Math.max(entry.priority_tier, getLoyaltyTier(policy, completed))
+    return tier === entry.priority_tier ? entry : { ...entry, priority_tier: tier }
+  })
+}
+
+/**
+ * The booking limit that stops an entry taking an opening on the date (its
+ * preferred date by default), or null
+ */
+export function getEntryLimit(
+  entry: ProducerCandidate,
+  histories: Record<string, ProducerBookingHistory>,
+  policy: BookingPolicy,
+  date: string = entry.preferred_date
+): BookingLimit | null {
+  return getBookingLimitReached(policy, histories[entry.producer_id] ?? EMPTY_BOOKING_HISTORY, entry.head_count, date)
+}
+
+/**
+ * Entries as an opening on the date sees them: loyalty tiers applied and
+ * producers at a booking limit left out
+ */
+export function getOfferableEntries<T extends ProducerCandidate>(
+  entries: T[],
+  histories: Record<string, ProducerBookingHistory>,
+  policy: BookingPolicy,
+  date: string
+): T[] {
+  return applyLoyaltyTiers(entries, histories, policy)
+    .filter(entry => !getEntryLimit(entry, histories, policy, date))
+}
+
+/**
+ * An entry's place in line among the entries it competes with, with the
+ * reasons behind it
+ */
+export function getWaitlistStanding(
+  entry: ProducerCandidate,
+  entries: ProducerCandidate[],
+  histories: Record<string, ProducerBookingHistory>,
+  policy: BookingPolicy
+): WaitlistStanding {
+  const history = histories[entry.producer_id] ?? EMPTY_BOOKING_HISTORY
+  const loyaltyTier = getLoyaltyTier(policy, history.completedOrders)
+  const tier = Math.max(entry.priority_tier, loyaltyTier)
+  const ranked = { ...entry, priority_tier: tier }
+
+  const competitors = applyLoyaltyTiers(entries, histories, policy)
+    .filter(other => !getEntryLimit(other, histories, policy))
+  const ahead = getEntriesAhead(ranked, competitors)
+  const aheadWithHigherTier = ahead.filter(other => other.priority_tier > tier).length
+
+  const standing: WaitlistStanding = {
+    position: ahead.length + 1,
+    tier,
+    manualTier: entry.priority_tier,
+    loyaltyTier,
+    completedOrders: history.completedOrders,
+    aheadWithHigherTier,
+    aheadJoinedEarlier: ahead.length - aheadWithHigherTier,
+    heldBy: getEntryLimit(entry, histories, policy),
+    reasons: [],
+  }
+  standing.reasons = explainWaitlistStanding(standing, history, policy, entry.preferred_date)
+  return standing
+}
+
+function explainWaitlistStanding(
+  standing: WaitlistStanding,
+  history: ProducerBookingHistory,
+  policy: BookingPolicy,
+  date: string
+): string[] {
+  const reasons: string[] = []
+  const orders = `${standing.completedOrders} completed order${standing.completedOrders === 1 ? '' : 's'}`
+  const period = policy.loyaltyLookbackMonths > 0 ? ` in the last ${policy.loyaltyLookbackMonths} months` : ''
+
+  if (standing.loyaltyTier > standing.manualTier) {
+    reasons.push(`${getTierLabel(standing.loyaltyTier)} for ${orders}${period}`)
+  } else if (standing.manualTier > 0) {
+    reasons.push(`${getTierLabel(standing.manualTier)} set by the processor`)
+  } else if (policy.loyaltyPriorityOrders > 0) {
+    reasons.push(`Standard: ${orders}${period}, ${policy.loyaltyPriorityOrders} needed for Priority`)
+  } else {
+    reasons.push('Standard priority')
+  }
+
+  if (standing.position === 1) {
+    reasons.push('First in line for matching openings')
+  } else {
+    const parts: string[] = []
+    if (standing.aheadWithHigherTier > 0) parts.push(`${standing.aheadWithHigherTier} with a higher tier`)
+    if (standing.aheadJoinedEarlier > 0) parts.push(`${standing.aheadJoinedEarlier} who joined earlier`)
+    reasons.push(`Behind ${parts.join(' and ')}`)
+  }
+
+  if (standing.heldBy?.code === 'order_limit') {
+    reasons.push(`Skipped for offers: ${history.openOrders} of ${standing.heldBy.limit} open orders in use`)
+  } else if (standing.heldBy?.code === 'head_limit') {
+    reasons.push(`Skipped for offers: ${countSeasonHead(policy, history, date)} of ${standing.heldBy.limit} head booked this season`)
+  } else if (standing.heldBy?.code === 'no_show_limit') {
+    reasons.push(`Skipped for offers: ${history.noShows} no-show${history.noShows === 1 ? '' : 's'} in the last year (limit ${standing.heldBy.limit})`)
+  }
+
+  return reasons
+}
+
+function getTierLabel(tier: number): string {
+  return WAITLIST_PRIORITY_TIERS.find(t => t.value === tier)?.label || `Tier ${tier}`
+}
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+/**
+ * Read an error raised by claim_waitlist_offer. Slot errors read the same
+ * as when booking.
+ */
+export function parseWaitlistClaimError(error: { message?: string; details?: string | null } | null): WaitlistClaimError {
+  switch (error?.message) {
+    case 'entry_not_found':
+      return { code: 'entry_not_found', message: 'Waitlist entry not found or not eligible' }
+    case 'not_offered':
+      return { code: 'not_offered', message: 'This slot has not been offered to you yet' }
+    case 'offer_expired':
+      return {
+        code: 'offer_expired',
+        message: `The ${WAITLIST_CLAIM_HOURS}-hour claim window has expired and the slot was offered to the next producer`,
+      }
+  }
+
+  const slotError = parseSlotBookingError(error)
+  if (slotError.code === 'unknown') return { code: 'unknown', message: 'Failed to claim the slot' }
+  if (slotError.code === 'slot_full') {
+    return { code: 'slot_full', message: 'This slot was booked before you claimed it. You are still on the waitlist.' }
+  }
+  return { code: slotError.code, message: slotError.message }
+}
+
+/**
+ * Where a producer goes after claiming: the cut sheet for the new order
+ */
+export function getClaimRedirect(orderId: string): string {
+  return `/dashboard/orders/${orderId}/cut-sheet`
+}
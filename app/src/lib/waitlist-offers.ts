@@ -0,0 +1,360 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { notifyOrganizationAsSystem } from '@/lib/notifications/system'
+import { loadBookingHistories, loadBookingPolicy } from '@/lib/booking-history'
+import {
+  applyLoyaltyTiers,
+  getEntryLimit,
+  getClaimRedirect,
+  getOfferDeadline,
+  getOfferExpiry,
+  getOpeningKey,
+  parseWaitlistClaimError,
+  planWaitlistOffers,
+  WAITLIST_CLAIM_HOURS,
+  WAITLIST_SUBMIT_HOURS,
+  type WaitlistEventType,
+  type WaitlistOpening,
+} from '@/lib/waitlist-matching'
+import type { WaitlistEntry } from '@/lib/actions/waitlist'
+import type { AnimalType } from '@/types/database'
+
+// A draft from a claimed offer, cancelled for not being submitted in time
+interface ReleasedDraft {
+  id: string
+  order_number: number
+  producer_id: string
+  processor_id: string
+  calendar_slot_id: string | null
+}
+
+/**
+ * Expire every offer past its claim window and pass each opening on to the
+ * next matching entry. Runs for every processor, so this takes a service
+ * role client; called on a schedule by /api/cron/waitlist.
+ */
+export async function expireWaitlistOffers(
+  admin: SupabaseClient
+): Promise<{ success: boolean; expired: number; offered: number; error?: string }> {
+  const { data, error } = await admin
+    .from('waitlist_entries')
+    .select('*')
+    .eq('is_active', true)
+    .is('converted_to_order_id', null)
+    .lte('offer_expires_at', new Date().toISOString())
+
+  if (error) {
+    console.error('Error finding expired waitlist offers:', error)
+    return { success: false, expired: 0, offered: 0, error: error.message }
+  }
+
+  const result = await expireOffers(admin, (data || []) as WaitlistEntry[])
+  return { success: true, ...result }
+}
+
+
+/**
+ * Claim a waitlist offer with the producer's own client: reserve the entry's
+ * places on the calendar slot and create draft orders
+ * (claim_waitlist_offer). An offer that already lapsed is passed on now with
+ * the service role rather than waiting for the scheduled job.
+ */
+export async function claimOffer(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  entryId: string
+): Promise<{ success: boolean; orderId?: string; redirectTo?: string; error?: string }> {
+  const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_entry_id: entryId })
+
+  if (error) {
+    const parsed = parseWaitlistClaimError(error)
+
+    if (parsed.code === 'offer_expired') {
+      const { data: entry } = await supabase
+        .from('waitlist_entries')
+        .select('*')
+        .eq('id', entryId)
+        .maybeSingle()
+      if (entry) await expireOffers(admin, [entry as WaitlistEntry])
+    } else if (parsed.code === 'unknown') {
+      console.error('Error claiming waitlist offer:', error)
+    }
+
+    return { success: false, error: parsed.message }
+  }
+
+  const orderId = ((data as string[] | null) || [])[0]
+  if (!orderId) {
+    return { success: false, error: 'Failed to claim the slot' }
+  }
+
+  return { success: true, orderId, redirectTo: getClaimRedirect(orderId) }
+}
+
+/**
+ * Cancel drafts from claimed offers that weren't submitted by their
+ * claim_expires_at, which gives their places back on the slot, and offer
+ * those places down the line. Called on a schedule by /api/cron/waitlist.
+ */
+export async function releaseUnsubmittedClaims(
+  admin: SupabaseClient
+): Promise<{ success: boolean; released: number; offered: number; error?: string }> {
+  const { data, error } = await admin
+    .from('processing_orders')
+    .update({ status: 'cancelled' })
+    .eq('status', 'draft')
+    .lte('claim_expires_at', new Date().toISOString())
+    .select('id, order_number, producer_id, processor_id, calendar_slot_id')
+
+  if (error) {
+    console.error('Error releasing unsubmitted claims:', error)
+    return { success: false, released: 0, offered: 0, error: error.message }
+  }
+
+  const released = (data || []) as ReleasedDraft[]
+  if (released.length === 0) return { success: true, released: 0, offered: 0 }
+
+  const byProducer: Record<string, ReleasedDraft[]> = {}
+  for (const order of released) {
+    (byProducer[order.producer_id] ||= []).push(order)
+  }
+
+  for (const [producerId, orders] of Object.entries(byProducer)) {
+    const numbers = orders.map(order => `#${order.order_number}`).join(', ')
+    const subject = orders.length === 1 ? `Order ${numbers} wasn't` : `Orders ${numbers} weren't`
+    await notifyOrganizationAsSystem(admin, producerId, {
+      type: 'system',
+      title: 'Claimed Slot Released',
+      body: `${subject} submitted within ${WAITLIST_SUBMIT_HOURS} hours of claiming the slot, so the places went back to the waitlist.`,
+      processingOrderId: orders.length === 1 ? orders[0].id : null,
+    })
+  }
+
+  const slotIds = Array.from(new Set(released.map(order => order.calendar_slot_id).filter((id): id is string => !!id)))
+  const { data: slots } = slotIds.length > 0
+    ? await admin
+      .from('calendar_slots')
+      .select('id, processor_id, date, animal_type')
+      .in('id', slotIds)
+    : { data: [] }
+
+  let offered = 0
+  for (const slot of (slots || []) as { id: string; processor_id: string; date: string; animal_type: AnimalType }[]) {
+    const opening = await getSlotOpening(admin, slot.processor_id, slot.date, slot.animal_type)
+    if (opening) offered += (await offerOpening(admin, slot.processor_id, opening)).length
+  }
+
+  return { success: true, released: released.length, offered }
+}
+
+// Places free on a processor's slot after bookings and live holds, or null
+// if they have no slot for the date and animal
+export async function getSlotOpening(
+  admin: SupabaseClient,
+  processorId: string,
+  date: string,
+  animalType: AnimalType
+): Promise<WaitlistOpening | null> {
+  const { data: slot } = await admin
+    .from('calendar_slots')
+    .select('id, capacity, booked_count, is_available')
+    .eq('processor_id', processorId)
+    .eq('date', date)
+    .eq('animal_type', animalType)
+    .maybeSingle()
+
+  if (!slot) return null
+  if (!slot.is_available) return { date, animalType, slotId: slot.id, places: 0 }
+
+  const { data: holds } = await admin
+    .from('calendar_slot_holds')
+    .select('head')
+    .eq('slot_id', slot.id)
+    .gt('expires_at', new Date().toISOString())
+
+  const held = ((holds || []) as { head: number }[]).reduce((sum, hold) => sum + hold.head, 0)
+  return {
+    date,
+    animalType,
+    slotId: slot.id,
+    places: Math.max(0, slot.capacity - (slot.booked_count || 0) - held),
+  }
+}
+
+// Offer an opening to the entries next in line and return their ids
+export async function offerOpening(
+  admin: SupabaseClient,
+  processorId: string,
+  opening: WaitlistOpening
+): Promise<string[]> {
+  if (opening.places <= 0) return []
+
+  const { data: entries, error } = await admin
+    .from('waitlist_entries')
+    .select('*')
+    .eq('processor_id', processorId)
+    .eq('animal_type', opening.animalType)
+    .eq('is_active', true)
+    .is('converted_to_order_id', null)
+
+  if (error) {
+    console.error('Error loading waitlist for opening:', error)
+    return []
+  }
+
+  // Entries that already had their turn at this opening
+  let offeredQuery = admin
+    .from('waitlist_events')
+    .select('entry_id')
+    .eq('processor_id', processorId)
+    .eq('event', 'offered')
+  offeredQuery = opening.slotId
+    ? offeredQuery.eq('slot_id', opening.slotId)
+    : offeredQuery.eq('offered_date', opening.date).eq('animal_type', opening.animalType)
+  const { data: offeredEvents } = await offeredQuery
+
+  const previouslyOffered = ((offeredEvents || []) as { entry_id: string | null }[])
+    .map(event => event.entry_id)
+    .filter((id): id is string => !!id)
+
+  // Loyalty tiers apply, and producers at a booking limit can't take the opening
+  const waiting = (entries || []) as WaitlistEntry[]
+  const policy = await loadBookingPolicy(admin, processorId)
+  const histories = await loadBookingHistories(admin, processorId, waiting.map(e => e.producer_id), policy)
+
+  const now = Date.now()
+  const plan = planWaitlistOffers(
+    applyLoyaltyTiers(waiting, histories, policy),
+    opening,
+    previouslyOffered,
+    now,
+    entry => !getEntryLimit(entry, histories, policy, opening.date)
+  )
+  const expiresAt = getOfferDeadline(now)
+  const offered: string[] = []
+
+  for (const entry of plan) {
+    // Skip the entry if a claim or another offer got to it first
+    const { data: updated, error: updateError } = await admin
+      .from('waitlist_entries')
+      .update({
+        notified_at: new Date(now).toISOString(),
+        offer_expires_at: expiresAt,
+        offered_slot_id: opening.slotId,
+        offered_date: opening.date,
+      })
+      .eq('id', entry.id)
+      .eq('is_active', true)
+      .or(`offer_expires_at.is.null,offer_expires_at.lte."${new Date(now).toISOString()}"`)
+      .select('id')
+
+    if (updateError) {
+      console.error('Error offering waitlist opening:', updateError)
+      continue
+    }
+    if (!updated || updated.length === 0) continue
+
+    await logWaitlistEvent(admin, entry, 'offered', { slotId: opening.slotId, date: opening.date, expiresAt })
+    await notifyWaitlistOffer(admin, entry, opening)
+    offered.push(entry.id)
+  }
+
+  return offered
+}
+
+// Clear lapsed offers, log them and cascade each opening down the line
+export async function expireOffers(
+  admin: SupabaseClient,
+  entries: WaitlistEntry[]
+): Promise<{ expired: number; offered: number }> {
+  const openings: Record<string, { processorId: string; opening: WaitlistOpening }> = {}
+  let expired = 0
+
+  for (const entry of entries) {
+    const expiresAt = getOfferExpiry(entry)
+
+    const { data: cleared, error } = await admin
+      .from('waitlist_entries')
+      .update({ notified_at: null, offer_expires_at: null, offered_slot_id: null, offered_date: null })
+      .eq('id', entry.id)
+      .eq('is_active', true)
+      .is('converted_to_order_id', null)
+      .lte('offer_expires_at', new Date().toISOString())
+      .select('id')
+
+    if (error) {
+      console.error('Error expiring waitlist offer:', error)
+      continue
+    }
+    if (!cleared || cleared.length === 0) continue
+
+    expired++
+    await logWaitlistEvent(admin, entry, 'expired', {
+      slotId: entry.offered_slot_id,
+      date: entry.offered_date,
+      expiresAt,
+    })
+
+    // Offers made before offer dates were recorded can't be passed on
+    if (!entry.offered_date) continue
+
+    const opening: WaitlistOpening = {
+      date: entry.offered_date,
+      animalType: entry.animal_type,
+      slotId: entry.offered_slot_id,
+      places: 0,
+    }
+    const key = `${entry.processor_id}:${getOpeningKey(opening)}`
+    if (!openings[key]) openings[key] = { processorId: entry.processor_id, opening }
+    openings[key].opening.places += entry.head_count
+  }
+
+  let offered = 0
+  for (const { processorId, opening } of Object.values(openings)) {
+    // Slots may have been booked or released since the offer went out
+    const current = opening.slotId
+      ? await getSlotOpening(admin, processorId, opening.date, opening.animalType)
+      : opening
+    if (current) offered += (await offerOpening(admin, processorId, current)).length
+  }
+
+  return { expired, offered }
+}
+
+async function logWaitlistEvent(
+  admin: SupabaseClient,
+  entry: WaitlistEntry,
+  event: WaitlistEventType,
+  details: { slotId?: string | null; date?: string | null; expiresAt?: string | null; orderId?: string | null } = {}
+): Promise<void> {
+  const { error } = await admin
+    .from('waitlist_events')
+    .insert({
+      entry_id: entry.id,
+      processor_id: entry.processor_id,
+      producer_id: entry.producer_id,
+      event,
+      slot_id: details.slotId ?? null,
+      offered_date: details.date ?? null,
+      animal_type: entry.animal_type,
+      head_count: entry.head_count ?? 1,
+      expires_at: details.expiresAt ?? null,
+      order_id: details.orderId ?? null,
+    })
+
+  if (error) {
+    console.error('Error logging waitlist event:', error)
+  }
+}
+
+// Tell the producer's users about their offer in the app and by email
+async function notifyWaitlistOffer(
+  admin: SupabaseClient,
+  entry: WaitlistEntry,
+  opening: WaitlistOpening
+): Promise<void> {
+  await notifyOrganizationAsSystem(admin, entry.producer_id, {
+    type: 'waitlist_available',
+    title: 'Processing Slot Available!',
+    body: `A slot has opened up for ${entry.animal_type} processing on ${opening.date}. Claim it from your waitlist within ${WAITLIST_CLAIM_HOURS} hours, then submit the order within ${WAITLIST_SUBMIT_HOURS} hours to keep the place!`,
+  })
+}
@@ -0,0 +1,349 @@
+/**
+ * Processor Yield Calibration
+ *
+ * Learns a processor's real yields from completed orders: hanging weight in,
+ * weighed produced packages out. The result replaces the generic species
+ * profile in the yield engine when a producer builds a cut sheet for that
+ * processor.
+ *
+ * Pure functions only - the server action in lib/actions/yield-calibration.ts
+ * loads the orders and stores the result on processor_cut_config.
+ */
+
+import type { AnimalType, ProcessorCutConfig } from '@/types/database'
+import { getCutById, getPrimalForCut, CUT_SHEET_SCHEMA } from './cut-sheet-schema'
+import { YIELD_PROFILES, type SpeciesYieldProfile } from './cut-sheet-yield'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CalibrationPackage {
+  cut_id: string
+  cut_name: string
+  primal_id: string | null
+  actual_weight_lbs: number | null
+}
+
+export interface CalibrationSample {
+  orderId: string
+  orderNumber: number
+  animalType: AnimalType
+  hangingWeight: number | null
+  packages: CalibrationPackage[]
+}
+
+export interface CutYieldStat {
+  cutId: string
+  cutName: string
+  primalId: string | null
+  yieldPercent: number        // Pounds of this cut per 100 lbs hanging weight
+  sampleSize: number
+}
+
+export interface PrimalYieldStat {
+  primalId: string
+  percentOfTakeHome: number
+  sampleSize: number
+}
+
+export interface YieldOutlier {
+  orderId: string
+  orderNumber: number
+  totalYieldPercent: number
+  reason: string
+}
+
+export interface AnimalYieldCalibration {
+  animalType: AnimalType
+  sampleSize: number
+  skippedOrders: number
+  takeHomePercent: { mean: number; min: number; max: number }
+  cuts: CutYieldStat[]
+  primals: PrimalYieldStat[]
+  outliers: YieldOutlier[]
+}
+
+export type YieldCalibration = Partial<Record<AnimalType, AnimalYieldCalibration>>
+
+// Orders needed before learned figures replace the generic profile
+export const MIN_CALIBRATION_SAMPLES = 3
+
+// Total yields outside this range are treated as data-entry mistakes
+const PLAUSIBLE_YIELD_PERCENT = { min: 35, max: 90 }
+
+// Orders further than this many standard deviations from the mean are outliers
+const OUTLIER_STD_DEVS = 2
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+/**
+ * Compute learned yields per animal type from completed orders.
+ *
+ * Orders without a hanging weight, without packages, or with any unweighed
+ * package are skipped. Implausible totals and statistical outliers are
+ * reported but left out of the averages.
+ */
+export function calibrateYields(samples: CalibrationSample[]): YieldCalibration {
+  const result: YieldCalibration = {}
+  const byAnimal = new Map<AnimalType, CalibrationSample[]>()
+
+  for (const sample of samples) {
+    const list = byAnimal.get(sample.animalType) || []
+    list.push(sample)
+    byAnimal.set(sample.animalType, list)
+  }
+
+  for (const [animalType, animalSamples] of Array.from(byAnimal.entries())) {
+    result[animalType] = calibrateAnimal(animalType, animalSamples)
+  }
+
+  return result
+}
+
+function calibrateAnimal(animalType: AnimalType, samples: CalibrationSample[]): AnimalYieldCalibration {
+  const usable: { sample: CalibrationSample; total: number; yieldPercent: number }[] = []
+  const outliers: YieldOutlier[] = []
+  let skippedOrders = 0
+
+  for (const sample of samples) {
+    const weighed = sample.packages.every(p => p.actual_weight_lbs !== null && p.actual_weight_lbs > 0)
+    if (!sample.hangingWeight || sample.hangingWeight <= 0 || sample.packages.length === 0 || !weighed) {
+      skippedOrders++
+      continue
+    }
+
+    const total = sample.packages.reduce((sum, p) => sum + (p.actual_weight_lbs || 0), 0)
+    const yieldPercent = total / sample.hangingWeight * 100
+
+    if (yieldPercent < PLAUSIBLE_YIELD_PERCENT.min || yieldPercent > PLAUSIBLE_YIELD_PERCENT.max) {
+      outliers.push({
+        orderId: sample.orderId,
+        orderNumber: sample.orderNumber,
+        totalYieldPercent: round1(yieldPercent),
+        reason: `Yield of ${round1(yieldPercent)}% is outside the plausible ${PLAUSIBLE_YIELD_PERCENT.min}-${PLAUSIBLE_YIELD_PERCENT.max}% range`,
+      })
+      continue
+    }
+
+    usable.push({ sample, total, yieldPercent })
+  }
+
+  // Statistical outliers need enough samples to mean anything
+  let kept = usable
+  if (usable.length > MIN_CALIBRATION_SAMPLES) {
+    const { mean, stdDev } = meanAndStdDev(usable.map(u => u.yieldPercent))
+    kept = []
+    for (const u of usable) {
+      if (stdDev > 0 && Math.abs(u.yieldPercent - mean) > OUTLIER_STD_DEVS * stdDev) {
+        outliers.push({
+          orderId: u.sample.orderId,
+          orderNumber: u.sample.orderNumber,
+          totalYieldPercent: round1(u.yieldPercent),
+          reason: `Yield is more than ${OUTLIER_STD_DEVS} standard deviations from the average of ${round1(mean)}%`,
+        })
+      } else {
+        kept.push(u)
+      }
+    }
+  }
+
+  const yields = kept.map(k => k.yieldPercent)
+  const { mean, stdDev } = meanAndStdDev(yields)
+
+  // Per-cut and per-primal pounds, normalized by each order's hanging weight / take-home
+  const cutStats = new Map<string, { cutName: string; primalId: string | null; percents: number[] }>()
+  const primalStats = new Map<string, number[]>()
+
+  for (const { sample, total } of kept) {
+    const cutPounds = new Map<string, { cutName: string; primalId: string | null; pounds: number }>()
+    const primalPounds = new Map<string, number>()
+
+    for (const pkg of sample.packages) {
+      const primalId = resolvePrimalId(animalType, pkg)
+      const entry = cutPounds.get(pkg.cut_id) || { cutName: pkg.cut_name, primalId, pounds: 0 }
+      entry.pounds += pkg.actual_weight_lbs || 0
+      cutPounds.set(pkg.cut_id, entry)
+
+      if (primalId) {
+        primalPounds.set(primalId, (primalPounds.get(primalId) || 0) + (pkg.actual_weight_lbs || 0))
+      }
+    }
+
+    for (const [cutId, entry] of Array.from(cutPounds.entries())) {
+      const stat = cutStats.get(cutId) || { cutName: entry.cutName, primalId: entry.primalId, percents: [] }
+      stat.percents.push(entry.pounds / sample.hangingWeight! * 100)
+      cutStats.set(cutId, stat)
+    }
+
+    for (const [primalId, pounds] of Array.from(primalPounds.entries())) {
+      const list = primalStats.get(primalId) || []
+      list.push(pounds / total * 100)
+      primalStats.set(primalId, list)
+    }
+  }
+
+  return {
+    animalType,
+    sampleSize: kept.length,
+    skippedOrders,
+    takeHomePercent: {
+      mean: round1(mean),
+      min: round1(Math.max(PLAUSIBLE_YIELD_PERCENT.min, mean - stdDev)),
+      max: round1(Math.min(PLAUSIBLE_YIELD_PERCENT.max, mean + stdDev)),
+    },
+    cuts: Array.from(cutStats.entries())
+      .map(([cutId, stat]) => ({
+        cutId,
+        cutName: stat.cutName,
+        primalId: stat.primalId,
+        yieldPercent: round1(average(stat.percents)),
+        sampleSize: stat.percents.length,
+      }))
+      .sort((a, b) => b.yieldPercent - a.yieldPercent),
+    primals: Array.from(primalStats.entries())
+      .map(([primalId, percents]) => ({
+        primalId,
+        percentOfTakeHome: round1(average(percents)),
+        sampleSize: percents.length,
+      }))
+      .sort((a, b) => b.percentOfTakeHome - a.percentOfTakeHome),
+    outliers,
+  }
+}
+
+// ============================================================================
+// Applying Calibration
+// ============================================================================
+
+/**
+ * Replace the generic figures in a species profile with learned ones.
+ * Only figures backed by at least MIN_CALIBRATION_SAMPLES orders are used,
+ * and primals plus trim still total 100%. Learned cut yields replace the
+ * cut shares, so cuts divide their primal the way they do at this processor.
+ */
+export function applyYieldCalibration(
+  profile: SpeciesYieldProfile,
+  calibration: AnimalYieldCalibration | null | undefined
+): SpeciesYieldProfile {
+  if (!calibration || calibration.sampleSize < MIN_CALIBRATION_SAMPLES) {
+    return profile
+  }
+
+  const primalPercents = { ...profile.primalPercents }
+  const learned = new Set<string>()
+  for (const primal of calibration.primals) {
+    if (primal.sampleSize >= MIN_CALIBRATION_SAMPLES && primal.primalId in primalPercents) {
+      primalPercents[primal.primalId] = primal.percentOfTakeHome
+      learned.add(primal.primalId)
+    }
+  }
+
+  // Learned shares are kept as-is; the generic primals and trim are scaled to fill the rest
+  const learnedTotal = Array.from(learned).reduce((sum, id) => sum + primalPercents[id], 0)
+  const genericIds = Object.keys(primalPercents).filter(id => !learned.has(id))
+  const genericTotal = genericIds.reduce((sum, id) => sum + primalPercents[id], 0) + profile.trimPercent
+  const scale = learnedTotal >= 100 || genericTotal === 0 ? 0 : (100 - learnedTotal) / genericTotal
+
+  if (learnedTotal > 100) {
+    for (const id of Array.from(learned)) {
+      primalPercents[id] = primalPercents[id] * 100 / learnedTotal
+    }
+  }
+  for (const id of genericIds) {
+    primalPercents[id] = primalPercents[id] * scale
+  }
+  const trimPercent = profile.trimPercent * scale
+
+  // Learned cut yields become the cut's share of its primal (or sub-section)
+  const cutShares = { ...profile.cutShares }
+  for (const cut of calibration.cuts) {
+    if (cut.sampleSize < MIN_CALIBRATION_SAMPLES || !cut.primalId || !(cut.primalId in primalPercents)) continue
+
+    const unitPercent = calibration.takeHomePercent.mean * primalPercents[cut.primalId] / 100 *
+      subSectionShareForCut(calibration.animalType, cut.primalId, cut.cutId, profile)
+    if (unitPercent > 0) {
+      cutShares[cut.cutId] = Math.min(cut.yieldPercent / unitPercent, 1)
+    }
+  }
+
+  return {
+    ...profile,
+    takeHomePercent: {
+      min: calibration.takeHomePercent.min,
+      max: calibration.takeHomePercent.max,
+    },
+    primalPercents,
+    trimPercent,
+    cutShares,
+  }
+}
+
+/**
+ * Yield profile to use for a processor: their learned yields when available,
+ * otherwise the generic species profile.
+ */
+export function getYieldProfileForProcessor(
+  animalType: AnimalType,
+  config: ProcessorCutConfig | null
+): SpeciesYieldProfile {
+  const calibration = parseYieldCalibration(config?.yield_calibration)
+  return applyYieldCalibration(YIELD_PROFILES[animalType], calibration[animalType])
+}
+
+/**
+ * Read the stored JSONB calibration, tolerating empty or missing values.
+ */
+export function parseYieldCalibration(value: unknown): YieldCalibration {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+  return value as YieldCalibration
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function resolvePrimalId(animalType: AnimalType, pkg: CalibrationPackage): string | null {
+  if (pkg.primal_id && pkg.primal_id in CUT_SHEET_SCHEMA.animals[animalType].primals) {
+    return pkg.primal_id
+  }
+  if (!getCutById(animalType, pkg.cut_id)) return null
+
+  const primals = CUT_SHEET_SCHEMA.animals[animalType].primals
+  const info = getPrimalForCut(animalType, pkg.cut_id)
+  if (!info) return null
+  return Object.keys(primals).find(key => primals[key] === info.primal) || null
+}
+
+// Fraction of the primal's meat in the sub-section the cut comes from (1 without sub-sections)
+function subSectionShareForCut(
+  animalType: AnimalType,
+  primalId: string,
+  cutId: string,
+  profile: SpeciesYieldProfile
+): number {
+  const subSections = CUT_SHEET_SCHEMA.animals[animalType].primals[primalId]?.subSections
+  if (!subSections) return 1
+
+  const subId = Object.keys(subSections).find(key => subSections[key].choices.some(c => c.id === cutId))
+  if (!subId) return 1
+  return profile.subSectionShares[primalId]?.[subId] ?? 1 / Object.keys(subSections).length
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function meanAndStdDev(values: number[]): { mean: number; stdDev: number } {
+  const mean = average(values)
+  if (values.length < 2) return { mean, stdDev: 0 }
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+  return { mean, stdDev: Math.sqrt(variance) }
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
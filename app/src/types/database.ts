@@ -20,6 +20,7 @@ export type CutCategory = 'steak' | 'roast' | 'ground' | 'ribs' | 'bacon' | 'sau
 export type SausageFlavor = 'mild' | 'medium' | 'hot' | 'sweet_italian' | 'hot_italian' | 'chorizo' | 'bratwurst' | 'polish' | 'breakfast' | 'maple_breakfast'
 export type GroundType = 'bulk' | 'vacuum' | 'patties'
 export type PattySize = '1/4' | '1/3' | '1/2'
+export type SlotTransferStatus = 'pending' | 'awaiting_approval' | 'completed' | 'declined' | 'rejected' | 'cancelled' | 'expired'
 export type NotificationType =
   | 'order_submitted'
   | 'order_confirmed'
@@ -28,6 +29,7 @@ export type NotificationType =
   | 'order_complete'
   | 'new_message'
   | 'slot_available'
+  | 'waitlist_available'
   | 'system'
 
 export interface Database {
@@ -119,6 +121,8 @@ export interface Database {
           email: string
           full_name: string | null
           phone: string | null
+          phone_e164: string | null
+          phone_verified_at: string | null
           avatar_url: string | null
           organization_id: string | null
           role: UserRole
@@ -217,6 +221,7 @@ export interface Database {
           kill_fee: number | null
           is_available: boolean
           notes: string | null
+          rule_id: string | null
         }
         Insert: {
           id?: string
@@ -230,6 +235,7 @@ export interface Database {
           kill_fee?: number | null
           is_available?: boolean
           notes?: string | null
+          rule_id?: string | null
         }
         Update: {
           id?: string
@@ -243,6 +249,7 @@ export interface Database {
           kill_fee?: number | null
           is_available?: boolean
           notes?: string | null
+          rule_id?: string | null
         }
       }
       processing_orders: {
@@ -259,6 +266,9 @@ export interface Database {
           processing_stage: ProcessingStage
           scheduled_drop_off: string | null
           actual_drop_off: string | null
+          hang_started_at: string | null
+          slot_reserved: boolean
+          claim_expires_at: string | null
           estimated_ready_date: string | null
           actual_ready_date: string | null
           pickup_date: string | null
@@ -273,6 +283,12 @@ export interface Database {
           producer_notes: string | null
           processor_notes: string | null
           metadata: Json
+          cancelled_at: string | null
+          cancelled_by: string | null
+          late_cancellation: boolean
+          no_show_at: string | null
+          deposit_amount: number | null
+          deposit_paid_at: string | null
         }
         Insert: {
           id?: string
@@ -287,6 +303,9 @@ export interface Database {
           processing_stage?: ProcessingStage
           scheduled_drop_off?: string | null
           actual_drop_off?: string | null
+          hang_started_at?: string | null
+          slot_reserved?: boolean
+          claim_expires_at?: string | null
           estimated_ready_date?: string | null
           actual_ready_date?: string | null
           pickup_date?: string | null
@@ -301,6 +320,12 @@ export interface Database {
           producer_notes?: string | null
           processor_notes?: string | null
           metadata?: Json
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          late_cancellation?: boolean
+          no_show_at?: string | null
+          deposit_amount?: number | null
+          deposit_paid_at?: string | null
         }
         Update: {
           id?: string
@@ -315,6 +340,9 @@ export interface Database {
           processing_stage?: ProcessingStage
           scheduled_drop_off?: string | null
           actual_drop_off?: string | null
+          hang_started_at?: string | null
+          slot_reserved?: boolean
+          claim_expires_at?: string | null
           estimated_ready_date?: string | null
           actual_ready_date?: string | null
           pickup_date?: string | null
@@ -329,6 +357,12 @@ export interface Database {
           producer_notes?: string | null
           processor_notes?: string | null
           metadata?: Json
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          late_cancellation?: boolean
+          no_show_at?: string | null
+          deposit_amount?: number | null
+          deposit_paid_at?: string | null
         }
       }
       cut_sheets: {
@@ -507,6 +541,7 @@ export interface Database {
           sender_org_id: string
           recipient_org_id: string
           processing_order_id: string | null
+          thread_id: string | null
           content: string
           read_at: string | null
           metadata: Json
@@ -518,6 +553,7 @@ export interface Database {
           sender_org_id: string
           recipient_org_id: string
           processing_order_id?: string | null
+          thread_id?: string | null
           content: string
           read_at?: string | null
           metadata?: Json
@@ -529,6 +565,7 @@ export interface Database {
           sender_org_id?: string
           recipient_org_id?: string
           processing_order_id?: string | null
+          thread_id?: string | null
           content?: string
           read_at?: string | null
           metadata?: Json
@@ -589,6 +626,11 @@ export interface Database {
           notified_at: string | null
           converted_to_order_id: string | null
           notes: string | null
+          head_count: number
+          priority_tier: number
+          offer_expires_at: string | null
+          offered_slot_id: string | null
+          offered_date: string | null
         }
         Insert: {
           id?: string
@@ -603,6 +645,11 @@ export interface Database {
           notified_at?: string | null
           converted_to_order_id?: string | null
           notes?: string | null
+          head_count?: number
+          priority_tier?: number
+          offer_expires_at?: string | null
+          offered_slot_id?: string | null
+          offered_date?: string | null
         }
         Update: {
           id?: string
@@ -617,6 +664,11 @@ export interface Database {
           notified_at?: string | null
           converted_to_order_id?: string | null
           notes?: string | null
+          head_count?: number
+          priority_tier?: number
+          offer_expires_at?: string | null
+          offered_slot_id?: string | null
+          offered_date?: string | null
         }
       }
       processor_cut_config: {
@@ -631,9 +683,12 @@ export interface Database {
           custom_cuts: Json
           default_templates: Json
           processing_fees: Json
+          fee_schedule: Json
           min_hanging_weight: number | null
           max_hanging_weight: number | null
           producer_notes: string | null
+          yield_calibration: Json
+          yield_calibrated_at: string | null
         }
         Insert: {
           id?: string
@@ -646,9 +701,12 @@ export interface Database {
           custom_cuts?: Json
           default_templates?: Json
           processing_fees?: Json
+          fee_schedule?: Json
           min_hanging_weight?: number | null
           max_hanging_weight?: number | null
           producer_notes?: string | null
+          yield_calibration?: Json
+          yield_calibrated_at?: string | null
         }
         Update: {
           id?: string
@@ -661,9 +719,12 @@ export interface Database {
           custom_cuts?: Json
           default_templates?: Json
           processing_fees?: Json
+          fee_schedule?: Json
           min_hanging_weight?: number | null
           max_hanging_weight?: number | null
           producer_notes?: string | null
+          yield_calibration?: Json
+          yield_calibrated_at?: string | null
         }
       }
     }
@@ -675,6 +736,59 @@ export interface Database {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_cooler_load: {
+        Args: { p_processor_id: string }
+        Returns: {
+          animal_type: AnimalType | null
+          status: OrderStatus
+          processing_stage: ProcessingStage
+          scheduled_drop_off: string | null
+          actual_drop_off: string | null
+          hang_started_at: string | null
+        }[]
+      }
+      hold_calendar_slot: {
+        Args: { p_slot_id: string; p_head: number; p_minutes?: number }
+        Returns: CalendarSlotHold
+      }
+      book_calendar_slot: {
+        Args: { p_slot_id: string; p_livestock_ids?: string[]; p_notes?: string | null }
+        Returns: string[]
+      }
+      get_slot_remaining: {
+        Args: { p_slot_id: string }
+        Returns: number
+      }
+      claim_waitlist_offer: {
+        Args: { p_entry_id: string }
+        Returns: string[]
+      }
+      respond_slot_transfer: {
+        Args: { p_transfer_id: string; p_accept: boolean }
+        Returns: SlotTransfer
+      }
+      decide_slot_transfer: {
+        Args: { p_transfer_id: string; p_approve: boolean }
+        Returns: SlotTransfer
+      }
+      get_producer_reliability: {
+        Args: { p_producer_ids: string[] }
+        Returns: { producer_id: string; kept_orders: number; no_shows: number; late_cancellations: number }[]
+      }
+      get_processor_distances: {
+        Args: Record<PropertyKey, never>
+        Returns: { processor_id: string; distance_miles: number }[]
+      }
+      get_next_processor_availability: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          processor_id: string
+          animal_type: AnimalType
+          date: string
+          available_slots: number
+          kill_fee: number | null
+        }[]
+      }
     }
     Enums: {
       animal_type: AnimalType
@@ -756,6 +870,7 @@ export type CutSheetChangeCategory =
   | 'package_created'
   | 'notes_updated'
   | 'general'
+  | 'scanned'
 
 // Cut sheet history entry
 export interface CutSheetHistoryEntry {
@@ -798,6 +913,138 @@ export interface ProducedPackage {
   metadata: Json
 }
 
+// Invoice generated from a processing order and the processor's fee schedule
+export interface Invoice {
+  id: string
+  created_at: string
+  updated_at: string
+  invoice_number: number
+  processing_order_id: string
+  processor_id: string
+  producer_id: string
+  status: 'draft' | 'issued' | 'paid' | 'void'
+  issued_at: string | null
+  due_date: string | null
+  paid_at: string | null
+  payment_reference: string | null
+  voided_at: string | null
+  void_reason: string | null
+  line_items: Json
+  subtotal: number
+  total: number
+  fee_schedule: Json
+  warnings: Json
+  notes: string | null
+  created_by: string | null
+}
+
+// Recurring availability rule that generates calendar slots
+export interface CalendarSlotRule {
+  id: string
+  created_at: string
+  updated_at: string
+  processor_id: string
+  animal_type: AnimalType
+  days_of_week: number[]
+  interval_weeks: number
+  starts_on: string
+  ends_on: string | null
+  capacity: number
+  kill_fee: number | null
+  notes: string | null
+  is_active: boolean
+}
+
+// Date skipped by slot rules; rule_id null applies to every rule
+export interface CalendarSlotException {
+  id: string
+  created_at: string
+  processor_id: string
+  rule_id: string | null
+  date: string
+  reason: string | null
+}
+
+// Places on a slot held for a producer while they finish booking
+export interface CalendarSlotHold {
+  id: string
+  created_at: string
+  slot_id: string
+  producer_id: string
+  head: number
+  expires_at: string
+}
+
+// Audit log entry for a waitlist offer, expiry or claim
+export interface WaitlistEvent {
+  id: string
+  created_at: string
+  entry_id: string | null
+  processor_id: string
+  producer_id: string
+  event: 'offered' | 'expired' | 'claimed'
+  slot_id: string | null
+  offered_date: string | null
+  animal_type: AnimalType
+  head_count: number
+  expires_at: string | null
+  order_id: string | null
+}
+
+// A producer handing a claimed slot (order) or waitlist position to another producer
+export interface SlotTransfer {
+  id: string
+  created_at: string
+  updated_at: string
+  processor_id: string
+  from_producer_id: string
+  to_producer_id: string
+  order_id: string | null
+  entry_id: string | null
+  to_next_in_line: boolean
+  recipient_entry_id: string | null
+  status: SlotTransferStatus
+  requires_approval: boolean
+  note: string | null
+  expires_at: string
+  responded_at: string | null
+  decided_at: string | null
+  completed_at: string | null
+}
+
+// Secret token for an organization's ICS calendar feed
+export interface CalendarFeed {
+  organization_id: string
+  token: string
+  created_at: string
+  updated_at: string
+  last_fetched_at: string | null
+}
+
+// Conversation about one order (or one cut on its cut sheet) between its producer and processor
+export interface MessageThread {
+  id: string
+  created_at: string
+  processing_order_id: string
+  producer_org_id: string
+  processor_org_id: string
+  cut_id: string | null
+  cut_name: string | null
+  created_by: string | null
+  last_message_at: string
+}
+
+// Photo or file sent with a message, stored in the message-attachments bucket
+export interface MessageAttachment {
+  id: string
+  created_at: string
+  message_id: string
+  storage_path: string
+  file_name: string
+  content_type: string
+  size_bytes: number
+}
+
 // Processor modification to a cut
 export interface ProcessorCutModification {
   thickness?: string
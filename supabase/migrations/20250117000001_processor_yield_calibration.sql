@@ -0,0 +1,10 @@
+-- Migration: Add learned yield calibration to processor_cut_config
+-- Description: Stores per-processor yields computed from produced package weights
+
+ALTER TABLE processor_cut_config
+  ADD COLUMN IF NOT EXISTS yield_calibration JSONB DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS yield_calibrated_at TIMESTAMPTZ;
+
+-- Comments explaining the JSONB structure
+COMMENT ON COLUMN processor_cut_config.yield_calibration IS 'Learned yields by animal type: { "beef": { "sampleSize": 12, "takeHomePercent": {...}, "cuts": [...], "primals": [...], "outliers": [...] } }';
+COMMENT ON COLUMN processor_cut_config.yield_calibrated_at IS 'When yield_calibration was last recomputed from completed orders';
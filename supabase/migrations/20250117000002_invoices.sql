@@ -0,0 +1,124 @@
+-- Migration: Create invoices table
+-- Description: Itemized invoices generated from processing orders and processor fee schedules
+
+CREATE TABLE invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  invoice_number INTEGER NOT NULL,           -- Per processor, set by assign_invoice_number
+
+  -- Parties
+  processing_order_id UUID NOT NULL REFERENCES processing_orders(id) ON DELETE CASCADE,
+  processor_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  producer_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+  -- Lifecycle
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued', 'paid', 'void')),
+  issued_at TIMESTAMPTZ,
+  due_date DATE,
+  paid_at TIMESTAMPTZ,
+  payment_reference TEXT,
+  voided_at TIMESTAMPTZ,
+  void_reason TEXT,
+
+  -- Contents
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  fee_schedule JSONB DEFAULT '{}'::jsonb,   -- Snapshot of the schedule used
+  warnings JSONB DEFAULT '[]'::jsonb,       -- Charges that could not be computed
+  notes TEXT,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- Only one live (non-void) invoice per order
+CREATE UNIQUE INDEX idx_invoices_one_live_per_order
+  ON invoices(processing_order_id)
+  WHERE status <> 'void';
+
+CREATE INDEX idx_invoices_order ON invoices(processing_order_id);
+CREATE INDEX idx_invoices_processor ON invoices(processor_id);
+CREATE INDEX idx_invoices_producer ON invoices(producer_id);
+CREATE UNIQUE INDEX idx_invoices_processor_number ON invoices(processor_id, invoice_number);
+
+-- Number each processor's invoices 1, 2, 3... The lock keeps two invoices
+-- generated at once from taking the same number.
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('invoice_number:' || NEW.processor_id::text));
+
+  SELECT COALESCE(MAX(invoice_number), 0) + 1 INTO NEW.invoice_number
+  FROM invoices
+  WHERE processor_id = NEW.processor_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER assign_invoice_number
+  BEFORE INSERT ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_invoice_number();
+
+-- Auto-update timestamp trigger
+CREATE TRIGGER update_invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+-- Processors manage invoices for their orders
+CREATE POLICY "Processors can manage own invoices"
+  ON invoices
+  FOR ALL
+  TO authenticated
+  USING (
+    processor_id = (SELECT organization_id FROM users WHERE auth_id = auth.uid())
+  )
+  WITH CHECK (
+    processor_id = (SELECT organization_id FROM users WHERE auth_id = auth.uid())
+  );
+
+-- Producers see invoices once issued; drafts stay with the processor
+CREATE POLICY "Producers can view issued invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (
+    producer_id = (SELECT organization_id FROM users WHERE auth_id = auth.uid())
+    AND status <> 'draft'
+  );
+
+COMMENT ON TABLE invoices IS 'Itemized invoices for processing orders';
+COMMENT ON COLUMN invoices.invoice_number IS 'Human-readable invoice number, counting up per processor';
+COMMENT ON COLUMN invoices.line_items IS 'Array of { category, description, quantity, unit, unitPrice, amount, cutId? }';
+COMMENT ON COLUMN invoices.fee_schedule IS 'Fee schedule in effect when the invoice was generated';
+
+-- The structured fee schedule gets its own column; processing_fees keeps the
+-- free-form per-service fees processors already entered
+ALTER TABLE processor_cut_config
+  ADD COLUMN IF NOT EXISTS fee_schedule JSONB DEFAULT '{}'::jsonb;
+
+-- Start from those fees: sausage, patties and storage map to their own fees,
+-- anything else (curing, smoking...) becomes a per-lb surcharge under its key
+UPDATE processor_cut_config
+SET fee_schedule = jsonb_strip_nulls(jsonb_build_object(
+  'sausageFeePerLb', processing_fees->'sausage',
+  'pattyFeePerLb', COALESCE(processing_fees->'patties', processing_fees->'patty'),
+  'storageFeePerDay', processing_fees->'storage',
+  'cutSurcharges', (
+    SELECT jsonb_object_agg(key, jsonb_build_object('amount', value, 'unit', 'per_lb'))
+    FROM jsonb_each(processing_fees)
+    WHERE key NOT IN ('sausage', 'patties', 'patty', 'storage')
+      AND jsonb_typeof(value) = 'number'
+  )
+))
+WHERE jsonb_typeof(processing_fees) = 'object'
+  AND processing_fees <> '{}'::jsonb;
+
+COMMENT ON COLUMN processor_cut_config.fee_schedule IS 'Fee schedule: { "killFee": { "beef": 85 }, "cutAndWrapPerLb": { "beef": 0.95 }, "cutAndWrapMinimum": 0, "cutSurcharges": { "bacon": { "amount": 1.5, "unit": "per_lb" } }, "pattyFeePerLb": 0.5, "sausageFeePerLb": 2, "storageFeePerDay": 5, "storageFreeDays": 3, "paymentTermsDays": 14 }';
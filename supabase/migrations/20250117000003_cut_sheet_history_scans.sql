@@ -0,0 +1,22 @@
+-- Migration: Allow scan events in cut_sheet_history
+-- Description: Floor scans of tags, packages and orders are logged as 'scanned' history entries
+
+ALTER TABLE cut_sheet_history
+  DROP CONSTRAINT IF EXISTS cut_sheet_history_change_category_check;
+
+ALTER TABLE cut_sheet_history
+  ADD CONSTRAINT cut_sheet_history_change_category_check CHECK (
+    change_category IN (
+      'initial_creation',
+      'cut_added',
+      'cut_removed',
+      'cut_modified',
+      'weight_entered',
+      'package_created',
+      'notes_updated',
+      'general',
+      'scanned'
+    )
+  );
+
+COMMENT ON COLUMN cut_sheet_history.change_category IS 'Specific type of change for filtering and reporting; scanned = a floor worker scanned a tag, package or order';
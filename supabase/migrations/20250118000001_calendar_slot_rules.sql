@@ -0,0 +1,74 @@
+-- Migration: Recurring calendar slot rules
+-- Description: Weekly slot rules that materialize calendar_slots on a rolling horizon,
+--              plus holiday/closure exceptions
+
+CREATE TABLE calendar_slot_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    processor_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+    -- Recurrence
+    animal_type animal_type NOT NULL,
+    days_of_week SMALLINT[] NOT NULL,          -- 0 = Sunday ... 6 = Saturday
+    interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 4),
+    starts_on DATE NOT NULL,
+    ends_on DATE,                              -- NULL = no end date
+
+    -- Values copied onto each generated slot
+    capacity INTEGER NOT NULL DEFAULT 1 CHECK (capacity > 0),
+    kill_fee DECIMAL(10, 2),
+    notes TEXT,
+
+    is_active BOOLEAN NOT NULL DEFAULT true,
+
+    CHECK (ends_on IS NULL OR ends_on >= starts_on),
+    CHECK (cardinality(days_of_week) > 0)
+);
+
+CREATE INDEX idx_calendar_slot_rules_processor ON calendar_slot_rules (processor_id);
+
+-- Dates a rule should not generate a slot on. rule_id NULL closes the date for every rule.
+CREATE TABLE calendar_slot_exceptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    processor_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    rule_id UUID REFERENCES calendar_slot_rules(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    reason TEXT
+);
+
+CREATE UNIQUE INDEX idx_calendar_slot_exceptions_unique
+    ON calendar_slot_exceptions (processor_id, date, COALESCE(rule_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX idx_calendar_slot_exceptions_date ON calendar_slot_exceptions (processor_id, date);
+
+-- Slots remember the rule that generated them; booked slots outlive a deleted rule
+ALTER TABLE calendar_slots
+    ADD COLUMN rule_id UUID REFERENCES calendar_slot_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_calendar_slots_rule ON calendar_slots (rule_id);
+
+CREATE TRIGGER update_calendar_slot_rules_updated_at
+    BEFORE UPDATE ON calendar_slot_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS
+ALTER TABLE calendar_slot_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_slot_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Processors can manage their slot rules"
+    ON calendar_slot_rules FOR ALL
+    USING (processor_id = get_user_org_id())
+    WITH CHECK (processor_id = get_user_org_id());
+
+CREATE POLICY "Processors can manage their slot exceptions"
+    ON calendar_slot_exceptions FOR ALL
+    USING (processor_id = get_user_org_id())
+    WITH CHECK (processor_id = get_user_org_id());
+
+-- Comments
+COMMENT ON TABLE calendar_slot_rules IS 'Recurring availability, e.g. beef every Tuesday, expanded into calendar_slots';
+COMMENT ON TABLE calendar_slot_exceptions IS 'Holidays and closures skipped when generating slots from rules';
+COMMENT ON COLUMN calendar_slots.rule_id IS 'Rule that generated this slot, NULL for slots added by hand';
@@ -0,0 +1,61 @@
+-- Migration: Cooler capacity
+-- Description: Processor cooler capacity and hang times, the date each order started hanging,
+--              and a cooler load lookup producers can call when booking
+
+ALTER TABLE processor_cut_config
+  ADD COLUMN IF NOT EXISTS cooler_capacity JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE processing_orders
+  ADD COLUMN IF NOT EXISTS hang_started_at TIMESTAMPTZ;
+
+-- Record when a carcass goes on the rail so projections know when it comes off
+CREATE OR REPLACE FUNCTION set_hang_started_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.processing_stage = 'hanging' AND OLD.processing_stage IS DISTINCT FROM 'hanging' THEN
+        NEW.hang_started_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_processing_orders_hang_started_at
+    BEFORE UPDATE ON processing_orders
+    FOR EACH ROW EXECUTE FUNCTION set_hang_started_at();
+
+-- Orders already hanging: best guess is the drop-off
+UPDATE processing_orders
+SET hang_started_at = COALESCE(actual_drop_off, scheduled_drop_off, updated_at)
+WHERE processing_stage = 'hanging' AND hang_started_at IS NULL;
+
+-- Orders that occupy, or will occupy, a processor's cooler. Producers can't read other
+-- producers' orders, so this returns only what the projection needs and nothing identifying.
+CREATE OR REPLACE FUNCTION get_cooler_load(p_processor_id UUID)
+RETURNS TABLE (
+    animal_type animal_type,
+    status order_status,
+    processing_stage processing_stage,
+    scheduled_drop_off TIMESTAMPTZ,
+    actual_drop_off TIMESTAMPTZ,
+    hang_started_at TIMESTAMPTZ
+) AS $$
+    SELECT
+        COALESCE(l.animal_type, s.animal_type),
+        o.status,
+        o.processing_stage,
+        o.scheduled_drop_off,
+        o.actual_drop_off,
+        o.hang_started_at
+    FROM processing_orders o
+    LEFT JOIN livestock l ON l.id = o.livestock_id
+    LEFT JOIN calendar_slots s ON s.id = o.calendar_slot_id
+    WHERE o.processor_id = p_processor_id
+      AND o.status IN ('submitted', 'confirmed', 'in_progress')
+      AND o.processing_stage IN ('pending', 'received', 'hanging')
+      AND is_authenticated()
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+-- Comments
+COMMENT ON COLUMN processor_cut_config.cooler_capacity IS 'Cooler model: { "unit": "head" | "rail_feet", "capacity": 40, "railFeetPerHead": {...}, "hangDays": {...}, "speciesLimits": {...}, "warnAtPercent": 90, "enforce": "warn" | "block" }';
+COMMENT ON COLUMN processing_orders.hang_started_at IS 'When processing_stage last moved to hanging';
+COMMENT ON FUNCTION get_cooler_load IS 'Active orders still headed for or hanging in a processor''s cooler, for capacity projections';
@@ -0,0 +1,277 @@
+-- Migration: Atomic slot booking
+-- Description: Short-lived holds on calendar slots and booking functions that reserve
+--              head against remaining capacity in one transaction
+
+-- A producer's claim on places in a slot while they finish the order form
+CREATE TABLE calendar_slot_holds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    slot_id UUID NOT NULL REFERENCES calendar_slots(id) ON DELETE CASCADE,
+    producer_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    head INTEGER NOT NULL CHECK (head > 0),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_calendar_slot_holds_slot ON calendar_slot_holds (slot_id, expires_at);
+CREATE UNIQUE INDEX idx_calendar_slot_holds_producer ON calendar_slot_holds (slot_id, producer_id);
+
+-- Orders that hold a place in their slot's booked_count
+ALTER TABLE processing_orders
+    ADD COLUMN slot_reserved BOOLEAN NOT NULL DEFAULT false;
+
+-- Confirmed orders were already counted by increment_calendar_booking
+UPDATE processing_orders
+SET slot_reserved = true
+WHERE calendar_slot_id IS NOT NULL
+  AND status IN ('confirmed', 'in_progress', 'ready', 'complete');
+
+-- ============================================
+-- Keep booked_count in step with orders
+-- ============================================
+
+-- Replaces increment_calendar_booking. Runs as definer so a producer cancelling
+-- their order can give the place back on the processor's slot.
+DROP TRIGGER IF EXISTS update_calendar_booking_count ON processing_orders;
+DROP FUNCTION IF EXISTS increment_calendar_booking();
+
+CREATE OR REPLACE FUNCTION sync_calendar_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_slot calendar_slots;
+    v_held INTEGER;
+BEGIN
+    -- Only this trigger and book_calendar_slot decide whether an order holds a place
+    NEW.slot_reserved = OLD.slot_reserved;
+
+    -- Give the place back when the order is cancelled or moved off its slot
+    IF OLD.slot_reserved AND (NEW.status = 'cancelled' OR NEW.calendar_slot_id IS DISTINCT FROM OLD.calendar_slot_id) THEN
+        UPDATE calendar_slots
+        SET booked_count = GREATEST(0, booked_count - 1)
+        WHERE id = OLD.calendar_slot_id;
+        NEW.slot_reserved = false;
+    END IF;
+
+    -- Orders linked to a slot by hand take a place once confirmed, if the
+    -- processor's slot still has one
+    IF NEW.status = 'confirmed' AND NEW.calendar_slot_id IS NOT NULL AND NOT NEW.slot_reserved THEN
+        SELECT * INTO v_slot FROM calendar_slots WHERE id = NEW.calendar_slot_id FOR UPDATE;
+        IF NOT FOUND OR v_slot.processor_id <> NEW.processor_id THEN
+            RAISE EXCEPTION 'slot_unavailable';
+        END IF;
+
+        SELECT COALESCE(SUM(head), 0) INTO v_held
+        FROM calendar_slot_holds
+        WHERE slot_id = v_slot.id AND expires_at > NOW();
+
+        IF v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held < 1 THEN
+            RAISE EXCEPTION 'slot_full'
+                USING DETAIL = GREATEST(0, v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held)::TEXT;
+        END IF;
+
+        UPDATE calendar_slots
+        SET booked_count = COALESCE(booked_count, 0) + 1
+        WHERE id = v_slot.id;
+        NEW.slot_reserved = true;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER update_calendar_booking_count
+    BEFORE UPDATE ON processing_orders
+    FOR EACH ROW EXECUTE FUNCTION sync_calendar_booking();
+
+-- Orders from the app never start out holding a place; only the booking
+-- functions (running as their owner, not as the signed-in user) reserve one.
+-- Security invoker so current_user is the caller.
+CREATE OR REPLACE FUNCTION reset_calendar_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        NEW.slot_reserved = false;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reset_calendar_booking_on_insert
+    BEFORE INSERT ON processing_orders
+    FOR EACH ROW EXECUTE FUNCTION reset_calendar_booking();
+
+CREATE OR REPLACE FUNCTION release_calendar_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.slot_reserved THEN
+        UPDATE calendar_slots
+        SET booked_count = GREATEST(0, booked_count - 1)
+        WHERE id = OLD.calendar_slot_id;
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER release_calendar_booking_on_delete
+    AFTER DELETE ON processing_orders
+    FOR EACH ROW EXECUTE FUNCTION release_calendar_booking();
+
+-- ============================================
+-- Holds and bookings
+-- ============================================
+
+-- Errors are raised with a stable message (slot_unavailable, slot_full, ...) that
+-- lib/slot-booking.ts turns into text for the producer.
+
+-- Place a hold of p_head on a slot for p_minutes (1-30). Replaces the producer's
+-- existing hold on the slot.
+CREATE OR REPLACE FUNCTION hold_calendar_slot(p_slot_id UUID, p_head INTEGER, p_minutes INTEGER DEFAULT 15)
+RETURNS calendar_slot_holds AS $$
+DECLARE
+    v_org UUID := get_user_org_id();
+    v_slot calendar_slots;
+    v_held INTEGER;
+    v_hold calendar_slot_holds;
+BEGIN
+    IF v_org IS NULL OR get_user_org_type() IS DISTINCT FROM 'producer' THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+    IF p_head IS NULL OR p_head < 1 THEN
+        RAISE EXCEPTION 'invalid_head';
+    END IF;
+
+    -- Lock the slot so holds and bookings on it run one at a time
+    SELECT * INTO v_slot FROM calendar_slots WHERE id = p_slot_id FOR UPDATE;
+    IF NOT FOUND OR v_slot.is_available IS NOT TRUE OR v_slot.date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'slot_unavailable';
+    END IF;
+
+    DELETE FROM calendar_slot_holds
+    WHERE slot_id = p_slot_id AND (expires_at <= NOW() OR producer_id = v_org);
+
+    SELECT COALESCE(SUM(head), 0) INTO v_held FROM calendar_slot_holds WHERE slot_id = p_slot_id;
+
+    IF v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held < p_head THEN
+        RAISE EXCEPTION 'slot_full'
+            USING DETAIL = GREATEST(0, v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held)::TEXT;
+    END IF;
+
+    INSERT INTO calendar_slot_holds (slot_id, producer_id, head, expires_at)
+    VALUES (p_slot_id, v_org, p_head, NOW() + make_interval(mins => LEAST(GREATEST(COALESCE(p_minutes, 15), 1), 30)))
+    RETURNING * INTO v_hold;
+
+    RETURN v_hold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Book a slot: one submitted order per animal (or a single order with no animal),
+-- all or nothing. The producer's own hold on the slot counts towards the places
+-- and is used up.
+CREATE OR REPLACE FUNCTION book_calendar_slot(
+    p_slot_id UUID,
+    p_livestock_ids UUID[] DEFAULT '{}',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+DECLARE
+    v_org UUID := get_user_org_id();
+    v_slot calendar_slots;
+    v_animals UUID[] := COALESCE(p_livestock_ids, '{}');
+    v_head INTEGER;
+    v_held INTEGER;
+BEGIN
+    IF v_org IS NULL OR get_user_org_type() IS DISTINCT FROM 'producer' THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    SELECT * INTO v_slot FROM calendar_slots WHERE id = p_slot_id FOR UPDATE;
+    IF NOT FOUND OR v_slot.is_available IS NOT TRUE OR v_slot.date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'slot_unavailable';
+    END IF;
+
+    IF cardinality(v_animals) <> (SELECT COUNT(DISTINCT a) FROM unnest(v_animals) a) THEN
+        RAISE EXCEPTION 'invalid_livestock';
+    END IF;
+    IF EXISTS (
+        SELECT 1
+        FROM unnest(v_animals) AS a(id)
+        LEFT JOIN livestock l ON l.id = a.id
+        WHERE l.id IS NULL
+           OR l.producer_id <> v_org
+           OR l.animal_type <> v_slot.animal_type
+           OR l.status <> 'on_farm'
+           OR EXISTS (
+               SELECT 1 FROM processing_orders o
+               WHERE o.livestock_id = a.id AND o.status NOT IN ('cancelled', 'complete')
+                 AND o.calendar_slot_id IS NOT NULL
+           )
+    ) THEN
+        RAISE EXCEPTION 'invalid_livestock';
+    END IF;
+
+    v_head := GREATEST(cardinality(v_animals), 1);
+
+    DELETE FROM calendar_slot_holds WHERE slot_id = p_slot_id AND expires_at <= NOW();
+
+    -- Everyone else's live holds
+    SELECT COALESCE(SUM(head), 0) INTO v_held
+    FROM calendar_slot_holds
+    WHERE slot_id = p_slot_id AND producer_id <> v_org;
+
+    IF v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held < v_head THEN
+        RAISE EXCEPTION 'slot_full'
+            USING DETAIL = GREATEST(0, v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held)::TEXT;
+    END IF;
+
+    DELETE FROM calendar_slot_holds WHERE slot_id = p_slot_id AND producer_id = v_org;
+
+    UPDATE calendar_slots
+    SET booked_count = COALESCE(booked_count, 0) + v_head
+    WHERE id = p_slot_id;
+
+    RETURN QUERY
+    WITH created AS (
+        INSERT INTO processing_orders (
+            producer_id, processor_id, livestock_id, calendar_slot_id,
+            status, scheduled_drop_off, producer_notes, slot_reserved
+        )
+        SELECT
+            v_org, v_slot.processor_id, animal, p_slot_id,
+            'submitted', v_slot.date::TIMESTAMP AT TIME ZONE 'UTC', NULLIF(p_notes, ''), true
+        FROM unnest(CASE WHEN cardinality(v_animals) = 0 THEN ARRAY[NULL::UUID] ELSE v_animals END) AS animal
+        RETURNING processing_orders.id
+    )
+    SELECT created.id FROM created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Places still open on a slot once bookings and live holds are taken out
+CREATE OR REPLACE FUNCTION get_slot_remaining(p_slot_id UUID)
+RETURNS INTEGER AS $$
+    SELECT GREATEST(0, s.capacity - COALESCE(s.booked_count, 0) - COALESCE((
+        SELECT SUM(h.head) FROM calendar_slot_holds h
+        WHERE h.slot_id = s.id AND h.expires_at > NOW()
+    ), 0))::INTEGER
+    FROM calendar_slots s
+    WHERE s.id = p_slot_id AND is_authenticated()
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+-- RLS: holds are only created through hold_calendar_slot
+ALTER TABLE calendar_slot_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view their slot holds"
+    ON calendar_slot_holds FOR SELECT
+    USING (producer_id = get_user_org_id());
+
+CREATE POLICY "Producers can release their slot holds"
+    ON calendar_slot_holds FOR DELETE
+    USING (producer_id = get_user_org_id());
+
+CREATE POLICY "Processors can view holds on their slots"
+    ON calendar_slot_holds FOR SELECT
+    USING (slot_id IN (SELECT id FROM calendar_slots WHERE processor_id = get_user_org_id()));
+
+-- Comments
+COMMENT ON TABLE calendar_slot_holds IS 'Places on a slot held for a producer while they finish booking';
+COMMENT ON COLUMN processing_orders.slot_reserved IS 'Order is counted in its calendar slot''s booked_count';
+COMMENT ON FUNCTION book_calendar_slot IS 'Reserve places on a slot and create the orders in one transaction; raises slot_full if they do not fit';
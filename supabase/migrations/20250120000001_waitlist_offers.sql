@@ -0,0 +1,103 @@
+-- Migration: Waitlist offers
+-- Description: Head counts, priority tiers and expiring offers on waitlist entries, plus an
+--              audit log of every offer, expiry and claim
+
+ALTER TABLE waitlist_entries
+    ADD COLUMN head_count INTEGER NOT NULL DEFAULT 1 CHECK (head_count > 0),
+    ADD COLUMN priority_tier INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN offer_expires_at TIMESTAMPTZ,
+    ADD COLUMN offered_slot_id UUID REFERENCES calendar_slots(id) ON DELETE SET NULL,
+    ADD COLUMN offered_date DATE;
+
+-- Offers made before this migration had a fixed 24-hour window
+UPDATE waitlist_entries
+SET offer_expires_at = notified_at + INTERVAL '24 hours'
+WHERE notified_at IS NOT NULL
+  AND is_active = true;
+
+-- Scheduled expiry looks up live offers by deadline
+CREATE INDEX idx_waitlist_offer_expiry ON waitlist_entries (offer_expires_at)
+    WHERE is_active = true AND offer_expires_at IS NOT NULL;
+
+-- ============================================
+-- Offers are made by the server only
+-- ============================================
+
+-- Producers can edit their own entries, so keep them from granting themselves
+-- an offer or a higher tier. The service role and direct connections are not
+-- signed-in users and pass through.
+CREATE OR REPLACE FUNCTION protect_waitlist_offer()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IN ('authenticated', 'anon') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.priority_tier = 0;
+            NEW.notified_at = NULL;
+            NEW.offer_expires_at = NULL;
+            NEW.offered_slot_id = NULL;
+            NEW.offered_date = NULL;
+        ELSE
+            NEW.priority_tier = OLD.priority_tier;
+            NEW.notified_at = OLD.notified_at;
+            NEW.offer_expires_at = OLD.offer_expires_at;
+            NEW.offered_slot_id = OLD.offered_slot_id;
+            NEW.offered_date = OLD.offered_date;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_waitlist_offer
+    BEFORE INSERT OR UPDATE ON waitlist_entries
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_waitlist_offer();
+
+-- ============================================
+-- Audit log
+-- ============================================
+
+CREATE TABLE waitlist_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Kept when the producer deletes their entry
+    entry_id UUID REFERENCES waitlist_entries(id) ON DELETE SET NULL,
+    processor_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    producer_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+    event TEXT NOT NULL CHECK (event IN ('offered', 'expired', 'claimed')),
+
+    -- The opening the event is about
+    slot_id UUID REFERENCES calendar_slots(id) ON DELETE SET NULL,
+    offered_date DATE,
+    animal_type animal_type NOT NULL,
+    head_count INTEGER NOT NULL DEFAULT 1,
+    expires_at TIMESTAMPTZ,
+    order_id UUID REFERENCES processing_orders(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_waitlist_events_processor ON waitlist_events (processor_id, created_at DESC);
+CREATE INDEX idx_waitlist_events_entry ON waitlist_events (entry_id);
+
+-- ============================================
+-- RLS
+-- ============================================
+
+-- Written by the server with the service role only
+ALTER TABLE waitlist_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Processors can view their waitlist events"
+    ON waitlist_events FOR SELECT
+    USING (processor_id = get_user_org_id());
+
+CREATE POLICY "Producers can view their waitlist events"
+    ON waitlist_events FOR SELECT
+    USING (producer_id = get_user_org_id());
+
+-- Comments
+COMMENT ON COLUMN waitlist_entries.head_count IS 'Places the producer needs on one slot';
+COMMENT ON COLUMN waitlist_entries.priority_tier IS 'Higher tiers are offered openings first; FIFO within a tier';
+COMMENT ON COLUMN waitlist_entries.offer_expires_at IS 'Deadline to claim the current offer; unclaimed offers cascade to the next entry';
+COMMENT ON TABLE waitlist_events IS 'Audit log of waitlist offers, expiries and claims';
@@ -0,0 +1,153 @@
+-- Migration: Claim waitlist offers
+-- Description: Convert an offered waitlist entry into draft orders on the processor's
+--              calendar slot, reserving the places in one transaction
+
+-- Claimed drafts hold their places only until this deadline: drafts still
+-- unsubmitted then are cancelled by the scheduled job (/api/cron/waitlist),
+-- which gives the places back and offers them down the line
+ALTER TABLE processing_orders
+    ADD COLUMN claim_expires_at TIMESTAMPTZ;
+
+CREATE INDEX idx_processing_orders_claim_expiry ON processing_orders (claim_expires_at)
+    WHERE status = 'draft' AND claim_expires_at IS NOT NULL;
+
+-- Producers can edit their own orders, so keep them from moving or clearing
+-- the deadline. Only claim_waitlist_offer (running as its owner) sets it; the
+-- service role passes through. Security invoker so current_user is the caller.
+CREATE OR REPLACE FUNCTION protect_claim_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.claim_expires_at = NULL;
+        ELSE
+            NEW.claim_expires_at = OLD.claim_expires_at;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_claim_deadline
+    BEFORE INSERT OR UPDATE ON processing_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_claim_deadline();
+
+-- Errors are raised with a stable message that lib/waitlist-matching.ts turns into
+-- text for the producer: not_authorized, entry_not_found, not_offered, offer_expired,
+-- plus slot_unavailable, slot_full and invalid_livestock as in book_calendar_slot.
+
+-- One draft order per head on the offered slot (or the open slot for the entry's
+-- date and animal type). The entry's animal goes on the first order, which is
+-- returned first; the entry is marked converted to it. The drafts must be
+-- submitted within 48 hours (WAITLIST_SUBMIT_HOURS in lib/waitlist-matching.ts).
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(p_entry_id UUID)
+RETURNS SETOF UUID AS $$
+DECLARE
+    v_org UUID := get_user_org_id();
+    v_entry waitlist_entries;
+    v_slot calendar_slots;
+    v_held INTEGER;
+    v_order_id UUID;
+BEGIN
+    IF v_org IS NULL OR get_user_org_type() IS DISTINCT FROM 'producer' THEN
+        RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    -- Lock the entry so a claim and the expiry job can't both act on the offer
+    SELECT * INTO v_entry FROM waitlist_entries
+    WHERE id = p_entry_id AND producer_id = v_org
+    FOR UPDATE;
+    IF NOT FOUND OR v_entry.is_active IS NOT TRUE OR v_entry.converted_to_order_id IS NOT NULL THEN
+        RAISE EXCEPTION 'entry_not_found';
+    END IF;
+
+    IF v_entry.offer_expires_at IS NULL THEN
+        RAISE EXCEPTION 'not_offered';
+    END IF;
+    IF v_entry.offer_expires_at <= NOW() THEN
+        RAISE EXCEPTION 'offer_expired';
+    END IF;
+
+    IF v_entry.offered_slot_id IS NOT NULL THEN
+        SELECT * INTO v_slot FROM calendar_slots
+        WHERE id = v_entry.offered_slot_id
+        FOR UPDATE;
+    ELSE
+        SELECT * INTO v_slot FROM calendar_slots
+        WHERE processor_id = v_entry.processor_id
+          AND date = COALESCE(v_entry.offered_date, v_entry.preferred_date)
+          AND animal_type = v_entry.animal_type
+        FOR UPDATE;
+    END IF;
+    IF NOT FOUND OR v_slot.is_available IS NOT TRUE OR v_slot.date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'slot_unavailable';
+    END IF;
+
+    IF v_entry.livestock_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM livestock l
+        WHERE l.id = v_entry.livestock_id
+          AND l.producer_id = v_org
+          AND l.animal_type = v_slot.animal_type
+          AND l.status = 'on_farm'
+          AND NOT EXISTS (
+              SELECT 1 FROM processing_orders o
+              WHERE o.livestock_id = l.id AND o.status NOT IN ('cancelled', 'complete')
+                AND o.calendar_slot_id IS NOT NULL
+          )
+    ) THEN
+        RAISE EXCEPTION 'invalid_livestock';
+    END IF;
+
+    DELETE FROM calendar_slot_holds WHERE slot_id = v_slot.id AND expires_at <= NOW();
+
+    SELECT COALESCE(SUM(head), 0) INTO v_held
+    FROM calendar_slot_holds
+    WHERE slot_id = v_slot.id AND producer_id <> v_org;
+
+    IF v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held < v_entry.head_count THEN
+        RAISE EXCEPTION 'slot_full'
+            USING DETAIL = GREATEST(0, v_slot.capacity - COALESCE(v_slot.booked_count, 0) - v_held)::TEXT;
+    END IF;
+
+    DELETE FROM calendar_slot_holds WHERE slot_id = v_slot.id AND producer_id = v_org;
+
+    UPDATE calendar_slots
+    SET booked_count = COALESCE(booked_count, 0) + v_entry.head_count
+    WHERE id = v_slot.id;
+
+    FOR i IN 1..v_entry.head_count LOOP
+        INSERT INTO processing_orders (
+            producer_id, processor_id, livestock_id, calendar_slot_id,
+            status, scheduled_drop_off, producer_notes, slot_reserved, claim_expires_at
+        )
+        VALUES (
+            v_org, v_slot.processor_id, CASE WHEN i = 1 THEN v_entry.livestock_id END, v_slot.id,
+            'draft', v_slot.date::TIMESTAMP AT TIME ZONE 'UTC', NULLIF(v_entry.notes, ''), true,
+            NOW() + INTERVAL '48 hours'
+        )
+        RETURNING id INTO v_order_id;
+
+        IF i = 1 THEN
+            UPDATE waitlist_entries
+            SET is_active = false, converted_to_order_id = v_order_id
+            WHERE id = v_entry.id;
+
+            INSERT INTO waitlist_events (
+                entry_id, processor_id, producer_id, event,
+                slot_id, offered_date, animal_type, head_count, order_id
+            )
+            VALUES (
+                v_entry.id, v_entry.processor_id, v_org, 'claimed',
+                v_slot.id, v_slot.date, v_entry.animal_type, v_entry.head_count, v_order_id
+            );
+        END IF;
+
+        RETURN NEXT v_order_id;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON COLUMN processing_orders.claim_expires_at IS 'For drafts from a claimed waitlist offer: when the reserved places are released if still unsubmitted';
+COMMENT ON FUNCTION claim_waitlist_offer IS 'Turn a live waitlist offer into draft orders on the calendar slot, reserving its places';
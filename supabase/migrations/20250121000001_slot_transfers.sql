@@ -0,0 +1,242 @@
+-- Migration: Slot transfers
+-- Description: Producers hand a claimed slot (order) or a waitlist position to another
+--              producer, who accepts within a window; processors can require approval
+
+-- Per-processor booking rules, e.g. {"requireTransferApproval": true}
+ALTER TABLE processor_cut_config
+  ADD COLUMN IF NOT EXISTS booking_policy JSONB DEFAULT '{}'::jsonb;
+
+CREATE TABLE slot_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    processor_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    from_producer_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    to_producer_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+
+    -- Exactly one of: a claimed slot (order) or a waitlist position
+    order_id UUID REFERENCES processing_orders(id) ON DELETE CASCADE,
+    entry_id UUID REFERENCES waitlist_entries(id) ON DELETE CASCADE,
+
+    -- Offered to the processor's next in line: the recipient's waitlist entry,
+    -- converted to the order when the transfer completes
+    to_next_in_line BOOLEAN NOT NULL DEFAULT false,
+    recipient_entry_id UUID REFERENCES waitlist_entries(id) ON DELETE SET NULL,
+
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+        'pending', 'awaiting_approval', 'completed', 'declined', 'rejected', 'cancelled', 'expired'
+    )),
+    requires_approval BOOLEAN NOT NULL DEFAULT false,
+    note TEXT,
+
+    expires_at TIMESTAMPTZ NOT NULL,
+    responded_at TIMESTAMPTZ,
+    decided_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+
+    CHECK ((order_id IS NULL) <> (entry_id IS NULL)),
+    CHECK (from_producer_id <> to_producer_id)
+);
+
+CREATE INDEX idx_slot_transfers_processor ON slot_transfers (processor_id, created_at DESC);
+CREATE INDEX idx_slot_transfers_from ON slot_transfers (from_producer_id);
+CREATE INDEX idx_slot_transfers_to ON slot_transfers (to_producer_id);
+CREATE INDEX idx_slot_transfers_expiry ON slot_transfers (expires_at) WHERE status = 'pending';
+
+-- One open transfer per order or waitlist entry
+CREATE UNIQUE INDEX idx_slot_transfers_open_order ON slot_transfers (order_id)
+    WHERE status IN ('pending', 'awaiting_approval');
+CREATE UNIQUE INDEX idx_slot_transfers_open_entry ON slot_transfers (entry_id)
+    WHERE status IN ('pending', 'awaiting_approval');
+
+CREATE TRIGGER update_slot_transfers_updated_at
+    BEFORE UPDATE ON slot_transfers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Moving ownership
+-- ============================================
+
+-- Errors are raised with a stable message that lib/slot-transfers.ts turns into
+-- text: not_authorized, transfer_not_found, transfer_expired, transfer_unavailable.
+
+-- Hand the order or waitlist entry to the recipient. Internal: called by
+-- respond_slot_transfer and decide_slot_transfer with the transfer locked.
+CREATE OR REPLACE FUNCTION apply_slot_transfer(p_transfer slot_transfers)
+RETURNS slot_transfers AS $$
+DECLARE
+    v_order processing_orders;
+    v_entry waitlist_entries;
+    v_recipient_entry waitlist_entries;
+    v_livestock UUID;
+    v_transfer slot_transfers;
+BEGIN
+    IF p_transfer.order_id IS NOT NULL THEN
+        SELECT * INTO v_order FROM processing_orders WHERE id = p_transfer.order_id FOR UPDATE;
+        IF NOT FOUND
+           OR v_order.producer_id <> p_transfer.from_producer_id
+           OR v_order.status NOT IN ('draft', 'submitted', 'confirmed')
+           OR v_order.processing_stage <> 'pending' THEN
+            RAISE EXCEPTION 'transfer_unavailable';
+        END IF;
+
+        -- The recipient's animal from their waitlist entry, if it's still free to book
+        IF p_transfer.recipient_entry_id IS NOT NULL THEN
+            SELECT * INTO v_recipient_entry FROM waitlist_entries
+            WHERE id = p_transfer.recipient_entry_id FOR UPDATE;
+
+            SELECT l.id INTO v_livestock FROM livestock l
+            WHERE l.id = v_recipient_entry.livestock_id
+              AND l.producer_id = p_transfer.to_producer_id
+              AND l.status = 'on_farm'
+              AND NOT EXISTS (
+                  SELECT 1 FROM processing_orders o
+                  WHERE o.livestock_id = l.id AND o.status NOT IN ('cancelled', 'complete')
+              );
+
+            UPDATE waitlist_entries
+            SET is_active = false, converted_to_order_id = v_order.id
+            WHERE id = p_transfer.recipient_entry_id AND is_active = true;
+        END IF;
+
+        -- The sender's animal and notes stay with the sender
+        UPDATE processing_orders
+        SET producer_id = p_transfer.to_producer_id,
+            livestock_id = v_livestock,
+            producer_notes = NULL
+        WHERE id = v_order.id;
+
+        -- Confirming the order marked the sender's animal scheduled; it's back
+        -- on the farm and free to book again
+        IF v_order.livestock_id IS NOT NULL THEN
+            UPDATE livestock
+            SET status = 'on_farm'
+            WHERE id = v_order.livestock_id AND status = 'scheduled';
+        END IF;
+
+        UPDATE cut_sheets
+        SET producer_id = p_transfer.to_producer_id
+        WHERE processing_order_id = v_order.id
+          AND is_template IS NOT TRUE
+          AND producer_id = p_transfer.from_producer_id;
+    ELSE
+        SELECT * INTO v_entry FROM waitlist_entries WHERE id = p_transfer.entry_id FOR UPDATE;
+        IF NOT FOUND
+           OR v_entry.producer_id <> p_transfer.from_producer_id
+           OR v_entry.is_active IS NOT TRUE
+           OR v_entry.converted_to_order_id IS NOT NULL THEN
+            RAISE EXCEPTION 'transfer_unavailable';
+        END IF;
+
+        -- The position (created_at, tier, any live offer) moves as it is
+        UPDATE waitlist_entries
+        SET producer_id = p_transfer.to_producer_id,
+            livestock_id = NULL,
+            notes = NULL
+        WHERE id = v_entry.id;
+    END IF;
+
+    UPDATE slot_transfers
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = p_transfer.id
+    RETURNING * INTO v_transfer;
+
+    RETURN v_transfer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION apply_slot_transfer(slot_transfers) FROM PUBLIC, anon, authenticated;
+
+-- The recipient accepts or declines. Accepting completes the transfer, or waits
+-- for the processor when they require approval.
+CREATE OR REPLACE FUNCTION respond_slot_transfer(p_transfer_id UUID, p_accept BOOLEAN)
+RETURNS slot_transfers AS $$
+DECLARE
+    v_org UUID := get_user_org_id();
+    v_transfer slot_transfers;
+BEGIN
+    SELECT * INTO v_transfer FROM slot_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR v_transfer.to_producer_id IS DISTINCT FROM v_org THEN
+        RAISE EXCEPTION 'transfer_not_found';
+    END IF;
+    IF v_transfer.status <> 'pending' THEN
+        RAISE EXCEPTION 'transfer_unavailable';
+    END IF;
+    IF v_transfer.expires_at <= NOW() THEN
+        RAISE EXCEPTION 'transfer_expired';
+    END IF;
+
+    IF NOT p_accept THEN
+        UPDATE slot_transfers
+        SET status = 'declined', responded_at = NOW()
+        WHERE id = p_transfer_id
+        RETURNING * INTO v_transfer;
+        RETURN v_transfer;
+    END IF;
+
+    UPDATE slot_transfers
+    SET status = CASE WHEN requires_approval THEN 'awaiting_approval' ELSE status END,
+        responded_at = NOW()
+    WHERE id = p_transfer_id
+    RETURNING * INTO v_transfer;
+
+    IF v_transfer.requires_approval THEN
+        RETURN v_transfer;
+    END IF;
+
+    RETURN apply_slot_transfer(v_transfer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The processor approves or rejects an accepted transfer
+CREATE OR REPLACE FUNCTION decide_slot_transfer(p_transfer_id UUID, p_approve BOOLEAN)
+RETURNS slot_transfers AS $$
+DECLARE
+    v_org UUID := get_user_org_id();
+    v_transfer slot_transfers;
+BEGIN
+    SELECT * INTO v_transfer FROM slot_transfers WHERE id = p_transfer_id FOR UPDATE;
+    IF NOT FOUND OR v_transfer.processor_id IS DISTINCT FROM v_org THEN
+        RAISE EXCEPTION 'transfer_not_found';
+    END IF;
+    IF v_transfer.status <> 'awaiting_approval' THEN
+        RAISE EXCEPTION 'transfer_unavailable';
+    END IF;
+
+    UPDATE slot_transfers
+    SET status = CASE WHEN p_approve THEN status ELSE 'rejected' END,
+        decided_at = NOW()
+    WHERE id = p_transfer_id
+    RETURNING * INTO v_transfer;
+
+    IF NOT p_approve THEN
+        RETURN v_transfer;
+    END IF;
+
+    RETURN apply_slot_transfer(v_transfer);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- RLS
+-- ============================================
+
+-- Created, cancelled and expired by the server with the service role; accepted
+-- and approved through the functions above
+ALTER TABLE slot_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Producers can view their slot transfers"
+    ON slot_transfers FOR SELECT
+    USING (from_producer_id = get_user_org_id() OR to_producer_id = get_user_org_id());
+
+CREATE POLICY "Processors can view slot transfers at their facility"
+    ON slot_transfers FOR SELECT
+    USING (processor_id = get_user_org_id());
+
+-- Comments
+COMMENT ON TABLE slot_transfers IS 'A producer handing a claimed slot or waitlist position to another producer';
+COMMENT ON COLUMN processor_cut_config.booking_policy IS 'Processor booking rules, e.g. whether slot transfers need approval';
+COMMENT ON FUNCTION respond_slot_transfer IS 'Recipient accepts or declines a slot transfer; completes it unless the processor must approve';
+COMMENT ON FUNCTION decide_slot_transfer IS 'Processor approves or rejects an accepted slot transfer';
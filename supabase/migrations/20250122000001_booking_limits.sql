@@ -0,0 +1,156 @@
+-- Migration: Booking limits
+-- Description: Enforce the processor's per-producer booking limits whenever a producer gets
+--              an order or waitlist entry - booking a slot, claiming an offer, requesting a
+--              date or receiving a transfer
+
+-- Limits live in processor_cut_config.booking_policy (normalized by lib/booking-policy.ts):
+--   maxOpenOrders       orders not complete or cancelled
+--   maxHeadPerSeason    orders (one per head) not cancelled, by drop-off date, in the
+--                       season starting on the 1st of seasonStartMonth
+--   maxWaitlistEntries  active, unconverted waitlist entries
+-- 0 or missing means no limit. Errors are raised as order_limit, head_limit or
+-- waitlist_limit with the limit as DETAIL.
+
+CREATE OR REPLACE FUNCTION get_booking_policy(p_processor_id UUID)
+RETURNS JSONB AS $$
+    SELECT COALESCE(
+        (SELECT booking_policy FROM processor_cut_config WHERE processor_id = p_processor_id),
+        '{}'::jsonb
+    )
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_booking_policy(UUID) FROM PUBLIC, anon;
+
+-- First day of the season a date falls in. Matches getSeasonRange.
+CREATE OR REPLACE FUNCTION booking_season_start(p_date DATE, p_start_month INTEGER)
+RETURNS DATE AS $$
+    SELECT make_date(
+        EXTRACT(YEAR FROM p_date)::INTEGER
+            - CASE WHEN EXTRACT(MONTH FROM p_date) < LEAST(GREATEST(COALESCE(p_start_month, 1), 1), 12) THEN 1 ELSE 0 END,
+        LEAST(GREATEST(COALESCE(p_start_month, 1), 1), 12),
+        1
+    )
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- ============================================
+-- Orders
+-- ============================================
+
+-- New orders, and orders changing hands, count against the producer. Orders
+-- inserted earlier in the same statement (a multi-head booking) are counted.
+CREATE OR REPLACE FUNCTION enforce_order_booking_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_policy JSONB;
+    v_max_open INTEGER;
+    v_max_head INTEGER;
+    v_season DATE;
+    v_count INTEGER;
+BEGIN
+    IF NEW.status IN ('cancelled', 'complete') THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.producer_id = OLD.producer_id THEN
+        RETURN NEW;
+    END IF;
+
+    v_policy := get_booking_policy(NEW.processor_id);
+    v_max_open := COALESCE((v_policy->>'maxOpenOrders')::INTEGER, 0);
+    v_max_head := COALESCE((v_policy->>'maxHeadPerSeason')::INTEGER, 0);
+    IF v_max_open <= 0 AND v_max_head <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    -- One booking at a time per producer and processor, so two bookings on
+    -- different slots can't both squeeze under the limit
+    PERFORM pg_advisory_xact_lock(hashtext('booking:' || NEW.producer_id::TEXT || ':' || NEW.processor_id::TEXT));
+
+    IF v_max_open > 0 THEN
+        SELECT COUNT(*) INTO v_count
+        FROM processing_orders
+        WHERE producer_id = NEW.producer_id
+          AND processor_id = NEW.processor_id
+          AND status NOT IN ('cancelled', 'complete')
+          AND id <> NEW.id;
+
+        IF v_count >= v_max_open THEN
+            RAISE EXCEPTION 'order_limit' USING DETAIL = v_max_open::TEXT;
+        END IF;
+    END IF;
+
+    IF v_max_head > 0 THEN
+        v_season := booking_season_start(
+            COALESCE(NEW.scheduled_drop_off, NOW())::DATE,
+            (v_policy->>'seasonStartMonth')::INTEGER
+        );
+
+        SELECT COUNT(*) INTO v_count
+        FROM processing_orders
+        WHERE producer_id = NEW.producer_id
+          AND processor_id = NEW.processor_id
+          AND status <> 'cancelled'
+          AND id <> NEW.id
+          AND COALESCE(scheduled_drop_off, created_at)::DATE >= v_season
+          AND COALESCE(scheduled_drop_off, created_at)::DATE < (v_season + INTERVAL '1 year')::DATE;
+
+        IF v_count >= v_max_head THEN
+            RAISE EXCEPTION 'head_limit' USING DETAIL = v_max_head::TEXT;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_order_booking_limits
+    BEFORE INSERT OR UPDATE OF producer_id ON processing_orders
+    FOR EACH ROW EXECUTE FUNCTION enforce_order_booking_limits();
+
+-- ============================================
+-- Waitlist entries
+-- ============================================
+
+CREATE OR REPLACE FUNCTION enforce_waitlist_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_max INTEGER;
+    v_count INTEGER;
+BEGIN
+    IF NEW.is_active IS NOT TRUE OR NEW.converted_to_order_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.producer_id = OLD.producer_id THEN
+        RETURN NEW;
+    END IF;
+
+    v_max := COALESCE((get_booking_policy(NEW.processor_id)->>'maxWaitlistEntries')::INTEGER, 0);
+    IF v_max <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('waitlist:' || NEW.producer_id::TEXT || ':' || NEW.processor_id::TEXT));
+
+    SELECT COUNT(*) INTO v_count
+    FROM waitlist_entries
+    WHERE producer_id = NEW.producer_id
+      AND processor_id = NEW.processor_id
+      AND is_active = true
+      AND converted_to_order_id IS NULL
+      AND id <> NEW.id;
+
+    IF v_count >= v_max THEN
+        RAISE EXCEPTION 'waitlist_limit' USING DETAIL = v_max::TEXT;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_waitlist_limit
+    BEFORE INSERT OR UPDATE OF producer_id ON waitlist_entries
+    FOR EACH ROW EXECUTE FUNCTION enforce_waitlist_limit();
+
+-- Comments
+COMMENT ON FUNCTION get_booking_policy IS 'A processor''s booking_policy settings, or {} if they have none';
+COMMENT ON FUNCTION enforce_order_booking_limits IS 'Raise order_limit or head_limit when an order would put a producer over the processor''s limits';
+COMMENT ON FUNCTION enforce_waitlist_limit IS 'Raise waitlist_limit when a producer would have too many active waitlist entries at a processor';
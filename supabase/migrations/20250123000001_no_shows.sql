@@ -0,0 +1,260 @@
+-- Migration: No-shows, late cancellations and deposits
+-- Description: Processors mark orders as no-shows, producer cancellations close to drop-off
+--              count as late, and each producer's record gives a reliability score that can
+--              require a deposit or block bookings
+
+-- Settings live in processor_cut_config.booking_policy (normalized by lib/booking-policy.ts):
+--   lateCancelHours     a producer cancelling within this many hours of drop-off is late
+--   maxNoShows          no-shows in the last year that stop a producer booking (0 = off)
+--   depositBelowScore   producers scoring below this owe a deposit on new orders (0 = off)
+--   depositAmount       the deposit
+-- A producer's record spans every processor, over the last 12 months
+-- (lib/reliability.ts mirrors the counting and score).
+
+ALTER TABLE processing_orders
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES organizations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS late_cancellation BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS no_show_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deposit_amount DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS deposit_paid_at TIMESTAMPTZ;
+
+CREATE INDEX idx_processing_orders_no_show ON processing_orders (producer_id, no_show_at)
+    WHERE no_show_at IS NOT NULL;
+CREATE INDEX idx_processing_orders_late_cancel ON processing_orders (producer_id, cancelled_at)
+    WHERE late_cancellation;
+
+-- ============================================
+-- Reliability
+-- ============================================
+
+-- Kept: dropped off. No-shows and late cancellations are both cancelled, so
+-- each order counts once.
+CREATE OR REPLACE FUNCTION count_producer_reliability(p_producer_id UUID)
+RETURNS TABLE (kept_orders INTEGER, no_shows INTEGER, late_cancellations INTEGER) AS $$
+    SELECT
+        COUNT(*) FILTER (
+            WHERE no_show_at IS NULL
+              AND (actual_drop_off IS NOT NULL OR processing_stage <> 'pending')
+              AND COALESCE(actual_drop_off, scheduled_drop_off, created_at) >= NOW() - INTERVAL '12 months'
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE no_show_at >= NOW() - INTERVAL '12 months'
+        )::INTEGER,
+        COUNT(*) FILTER (
+            WHERE late_cancellation AND no_show_at IS NULL
+              AND cancelled_at >= NOW() - INTERVAL '12 months'
+        )::INTEGER
+    FROM processing_orders
+    WHERE producer_id = p_producer_id
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION count_producer_reliability(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 0-100, a late cancellation costing half a no-show; NULL with no record yet.
+-- Matches getReliabilityScore.
+CREATE OR REPLACE FUNCTION producer_reliability_score(p_kept INTEGER, p_no_shows INTEGER, p_late INTEGER)
+RETURNS INTEGER AS $$
+    SELECT CASE
+        WHEN p_kept + p_no_shows + p_late = 0 THEN NULL
+        ELSE ROUND(100.0 * (p_kept + p_late * 0.5) / (p_kept + p_no_shows + p_late))::INTEGER
+    END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Records for processors, a producer's own, or the server
+CREATE OR REPLACE FUNCTION get_producer_reliability(p_producer_ids UUID[])
+RETURNS TABLE (producer_id UUID, kept_orders INTEGER, no_shows INTEGER, late_cancellations INTEGER) AS $$
+    SELECT p.id, r.kept_orders, r.no_shows, r.late_cancellations
+    FROM unnest(p_producer_ids) AS p(id)
+    CROSS JOIN LATERAL count_producer_reliability(p.id) r
+    WHERE auth.role() = 'service_role'
+       OR get_user_org_type() = 'processor'
+       OR p.id = get_user_org_id()
+$$ LANGUAGE SQL SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_producer_reliability(UUID[]) FROM PUBLIC, anon;
+
+-- The deposit a producer owes on a new order at a processor, or NULL
+CREATE OR REPLACE FUNCTION get_required_deposit(p_processor_id UUID, p_producer_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+    v_policy JSONB := get_booking_policy(p_processor_id);
+    v_below INTEGER := COALESCE((v_policy->>'depositBelowScore')::INTEGER, 0);
+    v_amount DECIMAL := COALESCE((v_policy->>'depositAmount')::DECIMAL, 0);
+    v_score INTEGER;
+BEGIN
+    IF v_below <= 0 OR v_amount <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT producer_reliability_score(kept_orders, no_shows, late_cancellations) INTO v_score
+    FROM count_producer_reliability(p_producer_id);
+
+    IF v_score IS NULL OR v_score >= v_below THEN
+        RETURN NULL;
+    END IF;
+    RETURN ROUND(v_amount, 2);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_required_deposit(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Orders
+-- ============================================
+
+-- Stamps cancellations, sets deposits on new orders (and on orders changing
+-- hands before the deposit is paid) and keeps producers from editing their
+-- own record. Producers can't reopen a cancelled order either: that would
+-- clear the cancellation, and the draft could then be deleted.
+CREATE OR REPLACE FUNCTION apply_order_reliability()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_org UUID := get_user_org_id();
+    v_hours INTEGER;
+BEGIN
+    IF get_user_org_type() = 'producer' THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.no_show_at := NULL;
+            NEW.deposit_paid_at := NULL;
+        ELSE
+            IF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+                RAISE EXCEPTION 'order_cancelled';
+            END IF;
+
+            NEW.no_show_at := OLD.no_show_at;
+            NEW.late_cancellation := OLD.late_cancellation;
+            NEW.cancelled_at := OLD.cancelled_at;
+            NEW.cancelled_by := OLD.cancelled_by;
+            NEW.deposit_amount := OLD.deposit_amount;
+            NEW.deposit_paid_at := OLD.deposit_paid_at;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.deposit_amount := get_required_deposit(NEW.processor_id, NEW.producer_id);
+    ELSIF NEW.producer_id <> OLD.producer_id AND NEW.deposit_paid_at IS NULL THEN
+        NEW.deposit_amount := get_required_deposit(NEW.processor_id, NEW.producer_id);
+    END IF;
+
+    IF NEW.status = 'cancelled' AND (TG_OP = 'INSERT' OR OLD.status <> 'cancelled') THEN
+        NEW.cancelled_at := NOW();
+        NEW.cancelled_by := v_org;
+        NEW.late_cancellation := false;
+
+        -- Only the producer's own cancellation counts, and an unreserved draft
+        -- never held a place
+        IF TG_OP = 'UPDATE'
+           AND NEW.no_show_at IS NULL
+           AND v_org = NEW.producer_id
+           AND NEW.scheduled_drop_off IS NOT NULL
+           AND (OLD.status <> 'draft' OR OLD.slot_reserved) THEN
+            v_hours := COALESCE((get_booking_policy(NEW.processor_id)->>'lateCancelHours')::INTEGER, 48);
+            NEW.late_cancellation := v_hours > 0
+                AND NEW.scheduled_drop_off <= NOW() + make_interval(hours => v_hours);
+        END IF;
+    ELSIF NEW.status <> 'cancelled' THEN
+        NEW.cancelled_at := NULL;
+        NEW.cancelled_by := NULL;
+        NEW.late_cancellation := false;
+        NEW.no_show_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER apply_order_reliability
+    BEFORE INSERT OR UPDATE ON processing_orders
+    FOR EACH ROW EXECUTE FUNCTION apply_order_reliability();
+
+-- ============================================
+-- Booking limits
+-- ============================================
+
+-- As in 20250122000001_booking_limits.sql, plus maxNoShows (raised as
+-- no_show_limit with the limit as DETAIL)
+CREATE OR REPLACE FUNCTION enforce_order_booking_limits()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_policy JSONB;
+    v_max_open INTEGER;
+    v_max_head INTEGER;
+    v_max_no_shows INTEGER;
+    v_season DATE;
+    v_count INTEGER;
+BEGIN
+    IF NEW.status IN ('cancelled', 'complete') THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.producer_id = OLD.producer_id THEN
+        RETURN NEW;
+    END IF;
+
+    v_policy := get_booking_policy(NEW.processor_id);
+    v_max_open := COALESCE((v_policy->>'maxOpenOrders')::INTEGER, 0);
+    v_max_head := COALESCE((v_policy->>'maxHeadPerSeason')::INTEGER, 0);
+    v_max_no_shows := COALESCE((v_policy->>'maxNoShows')::INTEGER, 0);
+    IF v_max_open <= 0 AND v_max_head <= 0 AND v_max_no_shows <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    IF v_max_no_shows > 0 THEN
+        SELECT no_shows INTO v_count FROM count_producer_reliability(NEW.producer_id);
+        IF v_count >= v_max_no_shows THEN
+            RAISE EXCEPTION 'no_show_limit' USING DETAIL = v_max_no_shows::TEXT;
+        END IF;
+    END IF;
+
+    IF v_max_open <= 0 AND v_max_head <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    -- One booking at a time per producer and processor, so two bookings on
+    -- different slots can't both squeeze under the limit
+    PERFORM pg_advisory_xact_lock(hashtext('booking:' || NEW.producer_id::TEXT || ':' || NEW.processor_id::TEXT));
+
+    IF v_max_open > 0 THEN
+        SELECT COUNT(*) INTO v_count
+        FROM processing_orders
+        WHERE producer_id = NEW.producer_id
+          AND processor_id = NEW.processor_id
+          AND status NOT IN ('cancelled', 'complete')
+          AND id <> NEW.id;
+
+        IF v_count >= v_max_open THEN
+            RAISE EXCEPTION 'order_limit' USING DETAIL = v_max_open::TEXT;
+        END IF;
+    END IF;
+
+    IF v_max_head > 0 THEN
+        v_season := booking_season_start(
+            COALESCE(NEW.scheduled_drop_off, NOW())::DATE,
+            (v_policy->>'seasonStartMonth')::INTEGER
+        );
+
+        SELECT COUNT(*) INTO v_count
+        FROM processing_orders
+        WHERE producer_id = NEW.producer_id
+          AND processor_id = NEW.processor_id
+          AND status <> 'cancelled'
+          AND id <> NEW.id
+          AND COALESCE(scheduled_drop_off, created_at)::DATE >= v_season
+          AND COALESCE(scheduled_drop_off, created_at)::DATE < (v_season + INTERVAL '1 year')::DATE;
+
+        IF v_count >= v_max_head THEN
+            RAISE EXCEPTION 'head_limit' USING DETAIL = v_max_head::TEXT;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Comments
+COMMENT ON COLUMN processing_orders.cancelled_by IS 'Organization whose user cancelled the order; NULL when the server did';
+COMMENT ON COLUMN processing_orders.late_cancellation IS 'The producer cancelled within the processor''s late-cancellation window';
+COMMENT ON COLUMN processing_orders.no_show_at IS 'When the processor marked the order a no-show (the order is cancelled)';
+COMMENT ON COLUMN processing_orders.deposit_amount IS 'Deposit owed because the producer''s reliability score was below the processor''s threshold';
+COMMENT ON FUNCTION get_producer_reliability IS 'Kept orders, no-shows and late cancellations over the last 12 months, across all processors';
+COMMENT ON FUNCTION apply_order_reliability IS 'Stamp cancellations (late when the producer cancels close to drop-off) and set deposits';
@@ -0,0 +1,46 @@
+-- Migration: Calendar feeds
+-- Description: A secret token per organization for its iCalendar (ICS) feed of drop-offs,
+--              ready dates, pickups and kill days
+
+-- Calendar apps fetch the feed without signing in, so the token in the URL is
+-- the only credential. The feed route looks it up with the service role;
+-- regenerating the token cuts off every existing subscription.
+CREATE TABLE calendar_feeds (
+    organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE CHECK (length(token) >= 32),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    last_fetched_at TIMESTAMPTZ
+);
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+    BEFORE UPDATE ON calendar_feeds
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS
+-- ============================================
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's calendar feed"
+    ON calendar_feeds FOR SELECT
+    USING (organization_id = get_user_org_id());
+
+CREATE POLICY "Users can create their organization's calendar feed"
+    ON calendar_feeds FOR INSERT
+    WITH CHECK (organization_id = get_user_org_id());
+
+CREATE POLICY "Users can regenerate their organization's calendar feed"
+    ON calendar_feeds FOR UPDATE
+    USING (organization_id = get_user_org_id())
+    WITH CHECK (organization_id = get_user_org_id());
+
+CREATE POLICY "Users can turn off their organization's calendar feed"
+    ON calendar_feeds FOR DELETE
+    USING (organization_id = get_user_org_id());
+
+-- Comments
+COMMENT ON TABLE calendar_feeds IS 'Secret token for an organization''s ICS calendar feed';
+COMMENT ON COLUMN calendar_feeds.last_fetched_at IS 'When a calendar app last fetched the feed';
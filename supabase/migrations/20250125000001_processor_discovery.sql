@@ -0,0 +1,104 @@
+-- Migration: Processor discovery by distance and availability
+-- Description: Geocode organizations from an offline ZIP centroid table, measure processors
+--              from the producer's farm, and give each processor's next open slot per animal type
+
+-- organizations.location is filled from the ZIP code, with no outside
+-- geocoding service. zip_centroids starts empty: load it with
+-- supabase/scripts/load_zip_centroids.sql, which also geocodes organizations
+-- saved before it was loaded.
+
+CREATE TABLE zip_centroids (
+    zip CHAR(5) PRIMARY KEY CHECK (zip ~ '^[0-9]{5}$'),
+    latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+    longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180)
+);
+
+ALTER TABLE zip_centroids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read ZIP centroids"
+    ON zip_centroids FOR SELECT
+    USING (true);
+
+COMMENT ON TABLE zip_centroids IS 'Center point of each 5-digit ZIP code (Census ZCTA), for geocoding organizations offline';
+
+-- ============================================
+-- Geocoding
+-- ============================================
+
+-- The centroid for the first five digits of a ZIP or ZIP+4, NULL if unknown
+CREATE OR REPLACE FUNCTION geocode_zip(p_zip TEXT)
+RETURNS GEOGRAPHY AS $$
+    SELECT ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+    FROM zip_centroids
+    WHERE zip = LEFT(regexp_replace(COALESCE(p_zip, ''), '[^0-9]', '', 'g'), 5)
+$$ LANGUAGE SQL STABLE;
+
+-- A location set directly wins; otherwise it follows the ZIP code
+CREATE OR REPLACE FUNCTION geocode_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.location IS NULL THEN
+            NEW.location := geocode_zip(NEW.zip);
+        END IF;
+    ELSIF NEW.zip IS DISTINCT FROM OLD.zip AND NEW.location IS NOT DISTINCT FROM OLD.location THEN
+        NEW.location := geocode_zip(NEW.zip);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER geocode_organization
+    BEFORE INSERT OR UPDATE OF zip, location ON organizations
+    FOR EACH ROW
+    EXECUTE FUNCTION geocode_organization();
+
+-- Fill in organizations with a ZIP but no location; run after loading centroids
+CREATE OR REPLACE FUNCTION geocode_organizations()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE organizations
+    SET location = geocode_zip(zip)
+    WHERE location IS NULL
+      AND zip IS NOT NULL
+      AND geocode_zip(zip) IS NOT NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION geocode_organizations() FROM PUBLIC, anon, authenticated;
+
+SELECT geocode_organizations();
+
+-- ============================================
+-- Discovery
+-- ============================================
+
+-- Miles from the caller's organization to each active processor. Empty when
+-- the caller has no location yet; processors without one are left out.
+CREATE OR REPLACE FUNCTION get_processor_distances()
+RETURNS TABLE (processor_id UUID, distance_miles NUMERIC) AS $$
+    SELECT p.id, ROUND((ST_Distance(me.location, p.location) / 1609.344)::NUMERIC, 1)
+    FROM organizations me
+    JOIN organizations p ON p.type = 'processor' AND p.is_active AND p.location IS NOT NULL
+    WHERE me.id = get_user_org_id()
+      AND me.location IS NOT NULL
+$$ LANGUAGE SQL STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_processor_distances() FROM PUBLIC, anon;
+
+-- The earliest open slot each processor has for each animal type
+CREATE OR REPLACE FUNCTION get_next_processor_availability()
+RETURNS TABLE (processor_id UUID, animal_type animal_type, date DATE, available_slots INTEGER, kill_fee DECIMAL) AS $$
+    SELECT DISTINCT ON (pa.processor_id, pa.animal_type)
+        pa.processor_id, pa.animal_type, pa.date, pa.available_slots, pa.kill_fee
+    FROM processor_availability pa
+    ORDER BY pa.processor_id, pa.animal_type, pa.date
+$$ LANGUAGE SQL STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_next_processor_availability() FROM PUBLIC, anon;
@@ -0,0 +1,213 @@
+-- Migration: Order message threads and attachments
+-- Description: Threads that keep the messages about one order (or one cut on its cut sheet)
+--              apart from the general conversation between two organizations, and photo and
+--              file attachments stored in Supabase Storage
+
+-- A thread belongs to an order and is between that order's producer and
+-- processor. Messages with no thread_id are the general conversation between
+-- two organizations, as before. Cuts are named by cut_id rather than a
+-- cut_sheet_items row, since saving a cut sheet replaces its items.
+
+-- ============================================
+-- Threads
+-- ============================================
+
+CREATE TABLE message_threads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    processing_order_id UUID NOT NULL REFERENCES processing_orders(id) ON DELETE CASCADE,
+    producer_org_id UUID NOT NULL REFERENCES organizations(id),
+    processor_org_id UUID NOT NULL REFERENCES organizations(id),
+
+    -- Optional cut on the order's cut sheet
+    cut_id TEXT,
+    cut_name TEXT,
+
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    last_message_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CHECK ((cut_id IS NULL) = (cut_name IS NULL))
+);
+
+-- One thread for the order as a whole, and one per cut
+CREATE UNIQUE INDEX idx_message_threads_order ON message_threads (processing_order_id) WHERE cut_id IS NULL;
+CREATE UNIQUE INDEX idx_message_threads_order_cut ON message_threads (processing_order_id, cut_id) WHERE cut_id IS NOT NULL;
+CREATE INDEX idx_message_threads_producer ON message_threads (producer_org_id, last_message_at DESC);
+CREATE INDEX idx_message_threads_processor ON message_threads (processor_org_id, last_message_at DESC);
+
+COMMENT ON TABLE message_threads IS 'Conversation about one order, or one cut on its cut sheet, between its producer and processor';
+
+-- The organizations always come from the order
+CREATE OR REPLACE FUNCTION set_message_thread_orgs()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_order processing_orders%ROWTYPE;
+BEGIN
+    SELECT * INTO v_order FROM processing_orders WHERE id = NEW.processing_order_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found';
+    END IF;
+
+    NEW.producer_org_id := v_order.producer_id;
+    NEW.processor_org_id := v_order.processor_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_message_thread_orgs
+    BEFORE INSERT ON message_threads
+    FOR EACH ROW
+    EXECUTE FUNCTION set_message_thread_orgs();
+
+ALTER TABLE message_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's threads"
+    ON message_threads FOR SELECT
+    USING (get_user_org_id() IN (producer_org_id, processor_org_id));
+
+CREATE POLICY "Users can start threads on their organization's orders"
+    ON message_threads FOR INSERT
+    WITH CHECK (get_user_org_id() IN (producer_org_id, processor_org_id));
+
+-- ============================================
+-- Messages
+-- ============================================
+
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS thread_id UUID REFERENCES message_threads(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_messages_thread ON messages (thread_id, created_at) WHERE thread_id IS NOT NULL;
+
+COMMENT ON COLUMN messages.thread_id IS 'Order thread, or NULL for the general conversation between the two organizations';
+
+-- A thread's messages go between its two organizations and carry its order
+CREATE OR REPLACE FUNCTION apply_message_thread()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_thread message_threads%ROWTYPE;
+BEGIN
+    IF NEW.thread_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_thread FROM message_threads WHERE id = NEW.thread_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Thread not found';
+    END IF;
+
+    IF NOT (
+        (NEW.sender_org_id = v_thread.producer_org_id AND NEW.recipient_org_id = v_thread.processor_org_id)
+        OR (NEW.sender_org_id = v_thread.processor_org_id AND NEW.recipient_org_id = v_thread.producer_org_id)
+    ) THEN
+        RAISE EXCEPTION 'Message is not between the thread''s organizations';
+    END IF;
+
+    NEW.processing_order_id := v_thread.processing_order_id;
+
+    UPDATE message_threads
+    SET last_message_at = COALESCE(NEW.created_at, NOW())
+    WHERE id = NEW.thread_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER apply_message_thread
+    BEFORE INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_message_thread();
+
+-- Messages already linked to an order move into that order's thread
+INSERT INTO message_threads (processing_order_id, producer_org_id, processor_org_id, last_message_at)
+SELECT po.id, po.producer_id, po.processor_id, MAX(m.created_at)
+FROM messages m
+JOIN processing_orders po ON po.id = m.processing_order_id
+WHERE m.sender_org_id IN (po.producer_id, po.processor_id)
+  AND m.recipient_org_id IN (po.producer_id, po.processor_id)
+GROUP BY po.id, po.producer_id, po.processor_id;
+
+UPDATE messages m
+SET thread_id = t.id
+FROM message_threads t
+WHERE t.processing_order_id = m.processing_order_id
+  AND t.cut_id IS NULL
+  AND m.sender_org_id IN (t.producer_org_id, t.processor_org_id)
+  AND m.recipient_org_id IN (t.producer_org_id, t.processor_org_id);
+
+-- ============================================
+-- Attachments
+-- ============================================
+
+-- Files live at <sender org>/<recipient org>/<id>/<file name> in the
+-- private message-attachments bucket, so storage policies can limit them to
+-- the two organizations without a lookup.
+CREATE TABLE message_attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0)
+);
+
+CREATE INDEX idx_message_attachments_message ON message_attachments (message_id);
+
+COMMENT ON TABLE message_attachments IS 'Photos and files sent with messages (message-attachments storage bucket)';
+
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments on their organization's messages"
+    ON message_attachments FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.id = message_id
+          AND get_user_org_id() IN (m.sender_org_id, m.recipient_org_id)
+    ));
+
+CREATE POLICY "Users can attach files to messages they send"
+    ON message_attachments FOR INSERT
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.id = message_id
+          AND m.sender_org_id = get_user_org_id()
+          AND storage_path LIKE m.sender_org_id::text || '/' || m.recipient_org_id::text || '/%'
+    ));
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'message-attachments',
+    'message-attachments',
+    false,
+    10485760,
+    ARRAY[
+        'image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic',
+        'application/pdf', 'text/plain', 'text/csv',
+        'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload message attachments from their organization"
+    ON storage.objects FOR INSERT
+    WITH CHECK (
+        bucket_id = 'message-attachments'
+        AND (storage.foldername(name))[1] = get_user_org_id()::text
+    );
+
+CREATE POLICY "Users can read message attachments for their organization"
+    ON storage.objects FOR SELECT
+    USING (
+        bucket_id = 'message-attachments'
+        AND get_user_org_id()::text IN ((storage.foldername(name))[1], (storage.foldername(name))[2])
+    );
+
+CREATE POLICY "Users can remove message attachments they uploaded"
+    ON storage.objects FOR DELETE
+    USING (
+        bucket_id = 'message-attachments'
+        AND (storage.foldername(name))[1] = get_user_org_id()::text
+        AND NOT EXISTS (SELECT 1 FROM message_attachments a WHERE a.storage_path = objects.name)
+    );
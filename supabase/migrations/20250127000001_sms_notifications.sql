@@ -0,0 +1,102 @@
+-- Migration: SMS notifications
+-- Description: Phone numbers in E.164 for matching inbound texts, verified by a texted
+--              code, and texts held back until a user's quiet hours end
+
+-- ============================================
+-- Phone numbers
+-- ============================================
+
+-- users.phone is whatever was typed in Settings. Texts arrive from E.164
+-- numbers (+15555550100); US numbers without a country code get +1.
+-- Mirrors normalizePhoneNumber in app/src/lib/sms-notifications.ts.
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_phone IS NULL THEN NULL
+        WHEN btrim(p_phone) LIKE '+%' AND length(regexp_replace(p_phone, '\D', '', 'g')) BETWEEN 8 AND 15
+            THEN '+' || regexp_replace(p_phone, '\D', '', 'g')
+        WHEN length(regexp_replace(p_phone, '\D', '', 'g')) = 10
+            THEN '+1' || regexp_replace(p_phone, '\D', '', 'g')
+        WHEN length(regexp_replace(p_phone, '\D', '', 'g')) = 11 AND regexp_replace(p_phone, '\D', '', 'g') LIKE '1%'
+            THEN '+' || regexp_replace(p_phone, '\D', '', 'g')
+        ELSE NULL
+    END
+$$;
+
+ALTER TABLE users
+    ADD COLUMN phone_e164 TEXT GENERATED ALWAYS AS (normalize_phone(phone)) STORED;
+
+CREATE INDEX idx_users_phone_e164 ON users (phone_e164) WHERE phone_e164 IS NOT NULL;
+
+-- Anyone can type any number, so texts only go to (and commands are only
+-- taken from) numbers the user proved they have with a texted code
+ALTER TABLE users
+    ADD COLUMN phone_verified_at TIMESTAMPTZ;
+
+-- Only the server (service role) marks a number verified, and a new number
+-- has to be verified again
+CREATE OR REPLACE FUNCTION protect_phone_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() IN ('authenticated', 'anon') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.phone_verified_at = NULL;
+        ELSE
+            NEW.phone_verified_at = OLD.phone_verified_at;
+        END IF;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND normalize_phone(NEW.phone) IS DISTINCT FROM normalize_phone(OLD.phone) THEN
+        NEW.phone_verified_at = NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_phone_verification
+    BEFORE INSERT OR UPDATE ON users
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_phone_verification();
+
+-- The code last texted to each user, hashed. Written and checked by server
+-- code with the service role only.
+CREATE TABLE phone_verifications (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    phone_e164 TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE phone_verifications ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Scheduled texts
+-- ============================================
+
+-- Notifications during a user's quiet hours are texted when they end.
+-- Written and sent by server code with the service role only.
+CREATE TABLE scheduled_sms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    body TEXT NOT NULL,
+    send_after TIMESTAMPTZ NOT NULL,
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_scheduled_sms_due ON scheduled_sms (send_after) WHERE sent_at IS NULL;
+
+ALTER TABLE scheduled_sms ENABLE ROW LEVEL SECURITY;
+
+-- Comments
+COMMENT ON COLUMN users.phone_e164 IS 'users.phone in E.164, for texting and matching inbound texts';
+COMMENT ON COLUMN users.phone_verified_at IS 'When the user confirmed a texted code for this number; cleared when the number changes';
+COMMENT ON TABLE phone_verifications IS 'Pending phone verification codes, hashed';
+COMMENT ON TABLE scheduled_sms IS 'Notification texts held until the recipient''s quiet hours end';
+COMMENT ON COLUMN scheduled_sms.send_after IS 'When the recipient''s quiet hours end';
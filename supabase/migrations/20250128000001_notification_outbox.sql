@@ -0,0 +1,66 @@
+-- Migration: Notification outbox
+-- Description: Every notification email and text is queued here and sent by a worker
+--              that retries with backoff, with its delivery status and provider message ID
+
+-- Rows are written and sent by server code with the service role. A failed
+-- send is retried at next_attempt_at with exponential backoff; after the last
+-- attempt the row is dead (the dead letter state) until someone retries it.
+-- Bounces reported by the email or SMS provider's webhook are never retried.
+CREATE TABLE notification_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+    recipient TEXT NOT NULL,
+    notification_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'sent', 'bounced', 'failed', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_error TEXT,
+    provider TEXT,
+    provider_message_id TEXT,
+    sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_notification_outbox_due ON notification_outbox (next_attempt_at)
+    WHERE status IN ('queued', 'failed');
+CREATE INDEX idx_notification_outbox_org ON notification_outbox (organization_id, created_at DESC);
+CREATE INDEX idx_notification_outbox_provider_message ON notification_outbox (provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+
+CREATE TRIGGER update_notification_outbox_updated_at
+    BEFORE UPDATE ON notification_outbox
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Texts held for quiet hours are queued here when they end
+ALTER TABLE scheduled_sms
+    ADD COLUMN notification_type TEXT NOT NULL DEFAULT 'system';
+
+-- ============================================
+-- RLS
+-- ============================================
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and managers can view their organization's deliveries"
+    ON notification_outbox FOR SELECT
+    USING (
+        organization_id = get_user_org_id()
+        AND EXISTS (
+            SELECT 1 FROM users
+            WHERE auth_id = auth.uid() AND role IN ('owner', 'manager')
+        )
+    );
+
+-- Comments
+COMMENT ON TABLE notification_outbox IS 'Queued notification emails and texts, with retries and delivery status';
+COMMENT ON COLUMN notification_outbox.recipient IS 'Email address or E.164 phone number';
+COMMENT ON COLUMN notification_outbox.payload IS 'The rendered email (subject, html, text, reply_to, base64 attachments) or text (body)';
+COMMENT ON COLUMN notification_outbox.status IS 'queued, sent, bounced (reported by the provider), failed (will retry) or dead (gave up)';
+COMMENT ON COLUMN notification_outbox.next_attempt_at IS 'When the worker next tries; pushed ahead while a send is in progress';
+COMMENT ON COLUMN notification_outbox.provider_message_id IS 'Resend email ID or Twilio message SID, for matching delivery webhooks';
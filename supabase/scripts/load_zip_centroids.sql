@@ -0,0 +1,40 @@
+-- Load ZIP code centroids for geocoding organizations
+--
+-- Uses the Census Bureau ZCTA Gazetteer file (public domain), e.g.
+-- 2023_Gaz_zcta_national.zip from
+-- https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+-- Unzip it next to this script, then run with psql against the database:
+--
+--   psql "$DATABASE_URL" -v file=2023_Gaz_zcta_national.txt -f load_zip_centroids.sql
+--
+-- Safe to re-run with a newer file: existing ZIPs are updated in place.
+-- Organizations saved before their ZIP was known are geocoded at the end.
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+-- GEOID  ALAND  AWATER  ALAND_SQMI  AWATER_SQMI  INTPTLAT  INTPTLONG (tab separated)
+CREATE TEMP TABLE zcta_gazetteer (
+    geoid TEXT,
+    aland TEXT,
+    awater TEXT,
+    aland_sqmi TEXT,
+    awater_sqmi TEXT,
+    intptlat TEXT,
+    intptlong TEXT
+) ON COMMIT DROP;
+
+\copy zcta_gazetteer FROM :'file' WITH (FORMAT csv, DELIMITER E'\t', HEADER true)
+
+INSERT INTO zip_centroids (zip, latitude, longitude)
+SELECT trim(geoid), trim(intptlat)::DOUBLE PRECISION, trim(intptlong)::DOUBLE PRECISION
+FROM zcta_gazetteer
+WHERE trim(geoid) ~ '^[0-9]{5}$'
+ON CONFLICT (zip) DO UPDATE
+SET latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude;
+
+SELECT geocode_organizations() AS organizations_geocoded;
+
+COMMIT;